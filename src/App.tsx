@@ -2,17 +2,28 @@ import { Routes, Route, Navigate } from 'react-router-dom'
 import { lazy, Suspense } from 'react'
 import { ToastContainer } from '@/components/ui/toast'
 import { ROUTES } from '@/utils/constants'
+import { PERMISSIONS } from '@/utils/permissions'
 import { ProtectedRoute } from '@/components/ProtectedRoute'
+import { useSessionSync } from '@/hooks/useSessionSync'
+import { usePermissionSync } from '@/hooks/usePermissionSync'
 
 // Lazy load pages for better performance
 const LandingPage = lazy(() => import('@/pages/LandingPage'))
 const LoginPage = lazy(() => import('@/pages/LoginPage'))
 const SignupPage = lazy(() => import('@/pages/SignupPage'))
+const ForgotPasswordPage = lazy(() => import('@/pages/ForgotPasswordPage'))
+const ResetPasswordPage = lazy(() => import('@/pages/ResetPasswordPage'))
 const DashboardPage = lazy(() => import('@/pages/DashboardPage'))
 const StudentsPage = lazy(() => import('@/pages/StudentsPage'))
+const DuplicateStudentsPage = lazy(() => import('@/pages/DuplicateStudentsPage'))
+const NfcCardsPage = lazy(() => import('@/pages/NfcCardsPage'))
 const SubjectsPage = lazy(() => import('@/pages/SubjectsPage'))
+const InstructorAssignmentPage = lazy(() => import('@/pages/InstructorAssignmentPage'))
 const RecordsPage = lazy(() => import('@/pages/RecordsPage'))
 const EmailHistoryPage = lazy(() => import('@/pages/EmailHistoryPage'))
+const SettingsPage = lazy(() => import('@/pages/SettingsPage'))
+const UsersPage = lazy(() => import('@/pages/UsersPage'))
+const RolesPage = lazy(() => import('@/pages/RolesPage'))
 
 /**
  * Loading component shown while routes are being lazy loaded
@@ -63,6 +74,11 @@ function PageLoadingFallback() {
  * The standalone /attendance route has been removed.
  */
 function App() {
+  // Follow logins and logouts made in other tabs
+  useSessionSync()
+  // Load the live permission matrix; re-renders the routes when it changes
+  usePermissionSync()
+
   return (
     <>
       <Suspense fallback={<PageLoadingFallback />}>
@@ -70,8 +86,10 @@ function App() {
           <Route path={ROUTES.HOME} element={<LandingPage />} />
           <Route path={ROUTES.LOGIN} element={<LoginPage />} />
           <Route path={ROUTES.SIGNUP} element={<SignupPage />} />
+          <Route path={ROUTES.FORGOT_PASSWORD} element={<ForgotPasswordPage />} />
+          <Route path={ROUTES.RESET_PASSWORD} element={<ResetPasswordPage />} />
 
-          {/* Protected Routes - All Roles */}
+          {/* Protected Routes - permissions come from the live matrix */}
           {/* Dashboard: All authenticated users can access */}
           <Route
             path={ROUTES.DASHBOARD}
@@ -81,43 +99,97 @@ function App() {
               </ProtectedRoute>
             }
           />
-          {/* Students: All authenticated users can view, but actions are controlled per-component */}
+          {/* Students: viewing needs VIEW_STUDENTS, actions are controlled per-component */}
           <Route
             path={ROUTES.STUDENTS}
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission={PERMISSIONS.VIEW_STUDENTS}>
                 <StudentsPage />
               </ProtectedRoute>
             }
           />
-          {/* Subjects: All authenticated users can view, but actions are controlled per-component */}
+          <Route
+            path={ROUTES.STUDENT_DUPLICATES}
+            element={
+              <ProtectedRoute permission={PERMISSIONS.MERGE_STUDENTS}>
+                <DuplicateStudentsPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path={ROUTES.STUDENT_NFC_CARDS}
+            element={
+              <ProtectedRoute permission={PERMISSIONS.VIEW_STUDENTS}>
+                <NfcCardsPage />
+              </ProtectedRoute>
+            }
+          />
+          {/* Subjects: viewing needs VIEW_SUBJECTS, actions are controlled per-component */}
           <Route
             path={ROUTES.SUBJECTS}
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission={PERMISSIONS.VIEW_SUBJECTS}>
                 <SubjectsPage />
               </ProtectedRoute>
             }
           />
-          {/* Records: All authenticated users can view records */}
+          <Route
+            path={ROUTES.SUBJECT_INSTRUCTORS}
+            element={
+              <ProtectedRoute
+                allPermissions={[PERMISSIONS.VIEW_SUBJECTS, PERMISSIONS.ASSIGN_INSTRUCTORS]}
+              >
+                <InstructorAssignmentPage />
+              </ProtectedRoute>
+            }
+          />
+          {/* Records */}
           <Route
             path={ROUTES.RECORDS}
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission={PERMISSIONS.VIEW_RECORDS}>
                 <RecordsPage />
               </ProtectedRoute>
             }
           />
-          {/* Email History: Admin and Registrar only */}
+          {/* Email History */}
           <Route
             path={ROUTES.EMAIL_HISTORY}
             element={
-              <ProtectedRoute allowedRoles={['admin', 'superadmin', 'registrar']}>
+              <ProtectedRoute permission={PERMISSIONS.VIEW_EMAIL_HISTORY}>
                 <EmailHistoryPage />
               </ProtectedRoute>
             }
           />
 
+          {/* Account settings: every signed-in user manages their own account */}
+          <Route
+            path={ROUTES.SETTINGS}
+            element={
+              <ProtectedRoute>
+                <SettingsPage />
+              </ProtectedRoute>
+            }
+          />
+
+          {/* User administration: roles with MANAGE_USERS */}
+          <Route
+            path={ROUTES.USERS}
+            element={
+              <ProtectedRoute permission={PERMISSIONS.MANAGE_USERS}>
+                <UsersPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path={ROUTES.ROLES}
+            element={
+              <ProtectedRoute permission={PERMISSIONS.MANAGE_USERS}>
+                <RolesPage />
+              </ProtectedRoute>
+            }
+          />
+
           {/* Redirect old attendance route to subjects */}
           <Route path="/attendance" element={<Navigate to={ROUTES.SUBJECTS} replace />} />
 
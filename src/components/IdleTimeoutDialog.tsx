@@ -0,0 +1,29 @@
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog'
+import { useIdleTimeout } from '@/hooks/useIdleTimeout'
+
+function formatCountdown(seconds: number): string {
+  const minutes = Math.floor(seconds / 60)
+  const rest = String(seconds % 60).padStart(2, '0')
+  return `${minutes}:${rest}`
+}
+
+/**
+ * Warns before the idle timeout signs the user out, with a live countdown
+ */
+export default function IdleTimeoutDialog() {
+  const { isWarning, secondsLeft, stayActive, signOut } = useIdleTimeout()
+
+  return (
+    <ConfirmationDialog
+      isOpen={isWarning}
+      onClose={stayActive}
+      onConfirm={stayActive}
+      onCancel={signOut}
+      title="Are you still there?"
+      description={`You have been inactive for a while. For your security you will be signed out in ${formatCountdown(secondsLeft)}.`}
+      confirmText="Stay signed in"
+      cancelText="Sign out now"
+      variant="warning"
+    />
+  )
+}
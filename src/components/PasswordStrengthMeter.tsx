@@ -0,0 +1,29 @@
+import { validators } from '@/utils/validation-rules'
+
+const STRENGTH_STYLES = {
+  weak: { width: 'w-1/3', color: 'bg-red-500', label: 'Weak' },
+  fair: { width: 'w-2/3', color: 'bg-amber-500', label: 'Fair' },
+  strong: { width: 'w-full', color: 'bg-emerald-500', label: 'Strong' },
+}
+
+/**
+ * Strength bar for a new password, rated by validators.passwordStrength.
+ * Renders nothing until something is typed.
+ */
+export default function PasswordStrengthMeter({ password }: { password: string }) {
+  const result = password ? validators.passwordStrength(password) : null
+  if (!result?.strength) return null
+
+  const style = STRENGTH_STYLES[result.strength]
+  return (
+    <div className="mt-2">
+      <div className="h-1.5 rounded-full bg-slate-700 overflow-hidden">
+        <div className={`h-full transition-all ${style.width} ${style.color}`} />
+      </div>
+      <p className="text-xs text-slate-500 mt-1">
+        {style.label}
+        {result.isValid ? '' : ` - ${result.error}`}
+      </p>
+    </div>
+  )
+}
@@ -1,22 +1,42 @@
-import { Navigate } from 'react-router-dom'
+import { Navigate, useLocation } from 'react-router-dom'
 import { ReactNode } from 'react'
 import { useAuthStore } from '@/store/authStore'
+import { usePermissionStore } from '@/store/permissionStore'
+import AccessDeniedPage from '@/pages/AccessDeniedPage'
 import { ROUTES } from '@/utils/constants'
+import { getMissingPermissions, PermissionRequirement } from '@/utils/permissions'
 
-interface ProtectedRouteProps {
+/**
+ * Permission fields are checked with hasPermission against the live matrix;
+ * a user who fails them gets the access-denied page instead of the route.
+ */
+interface ProtectedRouteProps extends PermissionRequirement {
   children: ReactNode
-  allowedRoles?: string[]
 }
 
-export function ProtectedRoute({ children, allowedRoles }: ProtectedRouteProps) {
+export function ProtectedRoute({
+  children,
+  permission,
+  allPermissions,
+  anyPermissions,
+}: ProtectedRouteProps) {
   const { isAuthenticated, user } = useAuthStore()
+  const location = useLocation()
+  // Subscribe so the check re-runs when the matrix is loaded or edited
+  usePermissionStore((s) => s.matrix)
 
   if (!isAuthenticated) {
     return <Navigate to={ROUTES.LOGIN} replace />
   }
 
-  if (allowedRoles && user && !allowedRoles.includes(user.role)) {
-    return <Navigate to={ROUTES.DASHBOARD} replace />
+  // Roles that must use 2FA can only reach the security settings until they enrol
+  if (user?.twoFactorRequired && !user.twoFactorEnabled && location.pathname !== ROUTES.SETTINGS) {
+    return <Navigate to={`${ROUTES.SETTINGS}?tab=security`} replace />
+  }
+
+  const denied = getMissingPermissions(user?.role, { permission, allPermissions, anyPermissions })
+  if (denied) {
+    return <AccessDeniedPage missing={denied.missing} mode={denied.mode} />
   }
 
   return <>{children}</>
@@ -0,0 +1,90 @@
+import { useEffect, useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { Building2, ChevronRight, Settings } from 'lucide-react'
+import SchoolSettingsModal from '@/components/modals/SchoolSettingsModal'
+import { schoolService } from '@/services/school.service'
+import { useAuthStore } from '@/store/authStore'
+import { useCurrentSchool, useSchoolStore } from '@/store/schoolStore'
+import { useToast } from '@/store/toastStore'
+import { canManageSchoolSettings } from '@/utils/permissions'
+
+/**
+ * Loads the user's schools and lets users who belong to several switch
+ * between them. Switching drops every cached query, since all data is per school.
+ */
+export default function SchoolSwitcher() {
+  const queryClient = useQueryClient()
+  const { addToast } = useToast()
+  const user = useAuthStore((s) => s.user)
+  const { schools, setSchools, switchSchool } = useSchoolStore()
+  const currentSchool = useCurrentSchool()
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false)
+
+  const { data: mySchools } = useQuery({
+    queryKey: ['schools', 'mine'],
+    queryFn: () => schoolService.getMySchools(),
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  })
+
+  useEffect(() => {
+    if (mySchools) setSchools(mySchools)
+  }, [mySchools, setSchools])
+
+  const handleSwitch = (schoolId: string) => {
+    const school = schools.find((s) => String(s.id) === schoolId)
+    if (!school || school.id === currentSchool?.id) return
+
+    switchSchool(school.id)
+    queryClient.resetQueries()
+    addToast(`Now working in ${school.name}`, 'info')
+  }
+
+  if (!currentSchool) return null
+
+  return (
+    <div className="mb-3">
+      <div className="flex items-center gap-2">
+        {schools.length > 1 ? (
+          <div className="relative flex-1">
+            <Building2 className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+            <select
+              value={String(currentSchool.id)}
+              onChange={(e) => handleSwitch(e.target.value)}
+              className="w-full h-11 pl-9 pr-8 rounded-xl border border-slate-700/50 bg-slate-800/50 text-sm text-slate-200 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 outline-none appearance-none"
+              aria-label="Switch school"
+            >
+              {schools.map((school) => (
+                <option key={school.id} value={String(school.id)}>
+                  {school.name}
+                </option>
+              ))}
+            </select>
+            <ChevronRight className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500 rotate-90" />
+          </div>
+        ) : (
+          <div className="flex-1 flex items-center gap-2 h-11 px-3 rounded-xl border border-slate-700/50 bg-slate-800/50 text-sm text-slate-300 min-w-0">
+            <Building2 className="w-4 h-4 text-slate-400 flex-shrink-0" />
+            <span className="truncate">{currentSchool.name}</span>
+          </div>
+        )}
+        {canManageSchoolSettings(user?.role) && (
+          <button
+            onClick={() => setIsSettingsOpen(true)}
+            className="h-11 w-11 flex items-center justify-center rounded-xl border border-slate-700/50 bg-slate-800/50 text-slate-400 hover:text-white hover:bg-slate-700/50 transition-all"
+            aria-label="School settings"
+            title="School settings"
+          >
+            <Settings className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      <SchoolSettingsModal
+        isOpen={isSettingsOpen}
+        onClose={() => setIsSettingsOpen(false)}
+        school={currentSchool}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,154 @@
+import { useId, useMemo, useRef, useState } from 'react'
+import { AlertCircle, Search } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { cn } from '@/lib/utils'
+import { SearchSuggestion } from '@/types'
+import {
+  SearchKey,
+  SearchValueOptions,
+  parseSearchQuery,
+  searchSuggestions,
+} from '@/utils/searchQuery'
+
+interface SearchQueryInputProps {
+  value: string
+  onChange: (value: string) => void
+  keys: SearchKey[]
+  valueOptions?: SearchValueOptions
+  placeholder?: string
+  className?: string
+}
+
+/**
+ * Search box for the query grammar in utils/searchQuery: completes filter keys
+ * and values as they are typed (arrows to pick, Enter or Tab to accept) and
+ * lists the parts of the query that were left out, under the box.
+ */
+export default function SearchQueryInput({
+  value,
+  onChange,
+  keys,
+  valueOptions,
+  placeholder,
+  className,
+}: SearchQueryInputProps) {
+  const [cursor, setCursor] = useState(0)
+  const [isOpen, setIsOpen] = useState(false)
+  const [highlighted, setHighlighted] = useState(0)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const listId = useId()
+
+  const { errors } = useMemo(() => parseSearchQuery(value, keys), [value, keys])
+  const suggestions = useMemo(
+    () => (isOpen ? searchSuggestions(value, cursor, keys, valueOptions) : []),
+    [isOpen, value, cursor, keys, valueOptions]
+  )
+  const active = Math.min(highlighted, suggestions.length - 1)
+
+  const accept = (suggestion: SearchSuggestion) => {
+    const next = value.slice(0, suggestion.start) + suggestion.insert + value.slice(suggestion.end)
+    const position = suggestion.start + suggestion.insert.length
+    onChange(next)
+    setCursor(position)
+    setHighlighted(0)
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(position, position))
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      const step = e.key === 'ArrowDown' ? 1 : -1
+      setHighlighted((active + step + suggestions.length) % suggestions.length)
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault()
+      accept(suggestions[active])
+    } else if (e.key === 'Escape') {
+      setIsOpen(false)
+    }
+  }
+
+  return (
+    <div>
+      <div className="relative">
+        <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+        <Input
+          ref={inputRef}
+          type="text"
+          role="combobox"
+          aria-expanded={suggestions.length > 0}
+          aria-controls={listId}
+          aria-autocomplete="list"
+          aria-activedescendant={suggestions.length > 0 ? `${listId}-${active}` : undefined}
+          aria-invalid={errors.length > 0}
+          autoComplete="off"
+          spellCheck={false}
+          placeholder={placeholder}
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value)
+            setCursor(e.target.selectionStart ?? e.target.value.length)
+            setHighlighted(0)
+            setIsOpen(true)
+          }}
+          onSelect={(e) => setCursor(e.currentTarget.selectionStart ?? 0)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          className={cn(
+            'pl-12 h-12 border-slate-600 bg-slate-900/50 text-slate-100 placeholder:text-slate-500',
+            errors.length > 0 && 'border-red-500/60',
+            className
+          )}
+        />
+        {suggestions.length > 0 && (
+          <ul
+            id={listId}
+            role="listbox"
+            className="absolute z-20 mt-2 w-full max-h-72 overflow-y-auto thin-scrollbar rounded-xl border border-slate-700 bg-slate-800 py-1 shadow-enterprise-lg"
+          >
+            {suggestions.map((suggestion, index) => (
+              <li
+                key={suggestion.label}
+                id={`${listId}-${index}`}
+                role="option"
+                aria-selected={index === active}
+                // Keep focus in the input so the list does not close before the click lands
+                onMouseDown={(e) => {
+                  e.preventDefault()
+                  accept(suggestion)
+                }}
+                onMouseEnter={() => setHighlighted(index)}
+                className={cn(
+                  'flex items-center justify-between gap-3 px-4 py-2 cursor-pointer text-sm',
+                  index === active ? 'bg-slate-700/70' : 'hover:bg-slate-700/40'
+                )}
+              >
+                <span className="font-mono text-slate-100">{suggestion.label}</span>
+                {suggestion.description && (
+                  <span className="text-xs text-slate-500 truncate">{suggestion.description}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {errors.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {errors.map((error) => (
+            <li key={error.start} className="flex items-start gap-2 text-xs text-red-400">
+              <AlertCircle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+              <span>
+                <span className="font-mono text-red-300">
+                  {value.slice(error.start, error.end)}
+                </span>
+                {' - '}
+                {error.message}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -23,6 +23,8 @@ import { AttendanceStatus, TimeSlot, Student, AttendanceRecord } from '@/types'
 import { enhancedAttendanceService } from '@/services/enhanced-attendance.service'
 import { generateAttendanceMessage } from '@/utils/messageTemplates'
 import emailService from '@/services/email.service'
+import { isConflictError } from '@/utils/errorHandling'
+import { attendanceAlertRecipients } from '@/utils/guardians'
 
 interface AttendanceDropdownProps {
   student: Student
@@ -52,6 +54,7 @@ export const AttendanceDropdown = ({
 
   const triggerRef = useRef<HTMLButtonElement | null>(null)
   const menuId = `attendance-dropdown-menu-${student.id}`
+  const alertRecipients = attendanceAlertRecipients(student.guardians)
 
   /**
    * Calculate dropdown position to prevent cutoff
@@ -91,13 +94,7 @@ export const AttendanceDropdown = ({
     if (!isOpen) return
     ;(async () => {
       try {
-        const today = new Date().toISOString().split('T')[0]
-        const records = await enhancedAttendanceService.getAttendanceRecords({
-          studentId: student.id as any,
-          subjectId,
-          dateRange: { startDate: today, endDate: today },
-        })
-        setExistingRecord(records.length > 0 ? records[0] : null)
+        setExistingRecord(await enhancedAttendanceService.findExistingRecord(student.id, subjectId))
       } catch (err) {
         console.error('[AttendanceDropdown] Failed fetching existing record', err)
       }
@@ -129,7 +126,18 @@ export const AttendanceDropdown = ({
       }
 
       // Mark attendance
-      await enhancedAttendanceService.markAttendance(payload)
+      const record = await enhancedAttendanceService.markAttendance(payload)
+
+      // Offline: the mark sits in the outbox until the connection returns
+      if (record?.pendingSync) {
+        toast.info(
+          'You are offline. The mark will sync when the connection returns.',
+          'Pending Sync'
+        )
+        onSuccess?.(timeSlot, status)
+        setIsOpen(false)
+        return
+      }
 
       // Generate message and show success
       const studentName = `${student.firstName} ${student.lastName}`
@@ -147,15 +155,20 @@ export const AttendanceDropdown = ({
         toast.info(message, `${timeSlot === 'arrival' ? 'Arrival' : 'Departure'} Notification`)
       }, 500)
 
-      // Send email notification if guardian email exists and option is enabled
-      if (sendNotification && student.guardianEmail) {
+      // Email every guardian who receives attendance alerts, if the option is enabled
+      if (sendNotification && alertRecipients.length > 0) {
         try {
-          await emailService.sendEmail({
-            to: student.guardianEmail,
-            subject: `${timeSlot === 'arrival' ? 'Arrival' : 'Departure'} Notification - ${studentName}`,
-            message,
-          })
-          toast.success('Guardian notified via email', 'Email Sent')
+          const notified = await emailService.notifyGuardians(
+            student.id,
+            `${timeSlot === 'arrival' ? 'Arrival' : 'Departure'} Notification - ${studentName}`,
+            message
+          )
+          toast.success(
+            notified === 1
+              ? 'Guardian notified via email'
+              : `${notified} guardians notified via email`,
+            'Email Sent'
+          )
           queryClient.invalidateQueries({ queryKey: ['email-history'] })
         } catch (emailError) {
           toast.warning('Attendance marked, but email notification failed', 'Partial Success')
@@ -167,15 +180,11 @@ export const AttendanceDropdown = ({
     } catch (err) {
       const errorAny = err as any
       // If attendance is already marked, fetch the existing record and open editor
-      if (errorAny?.response?.status === 409 || errorAny?.status === 409) {
+      if (isConflictError(err)) {
         try {
-          const today = new Date().toISOString().split('T')[0]
-          const records = await enhancedAttendanceService.getAttendanceRecords({
-            studentId: student.id as any,
-            subjectId,
-            dateRange: { startDate: today, endDate: today },
-          })
-          setExistingRecord(records.length > 0 ? records[0] : null)
+          setExistingRecord(
+            await enhancedAttendanceService.findExistingRecord(student.id, subjectId)
+          )
           setIsEditOpen(true)
         } catch (er) {
           console.error('[AttendanceDropdown] Failed to fetch existing record after conflict', er)
@@ -407,7 +416,7 @@ export const AttendanceDropdown = ({
               </div>
 
               {/* Notification Option */}
-              {showNotifyOption && student.guardianEmail && (
+              {showNotifyOption && alertRecipients.length > 0 && (
                 <div className="px-4 py-3 bg-slate-900/50 border-t border-slate-700">
                   <label className="flex items-center gap-2 cursor-pointer group">
                     <input
@@ -418,10 +427,16 @@ export const AttendanceDropdown = ({
                     />
                     <Mail className="w-4 h-4 text-slate-400 group-hover:text-blue-400 transition-colors" />
                     <span className="text-xs text-slate-400 group-hover:text-slate-300 transition-colors">
-                      Notify guardian via email
+                      {alertRecipients.length === 1
+                        ? 'Notify guardian via email'
+                        : `Notify ${alertRecipients.length} guardians via email`}
                     </span>
                   </label>
-                  <p className="text-xs text-slate-600 ml-6 mt-1">{student.guardianEmail}</p>
+                  {alertRecipients.map((guardian) => (
+                    <p key={guardian.id} className="text-xs text-slate-600 ml-6 mt-1">
+                      {guardian.email}
+                    </p>
+                  ))}
                 </div>
               )}
 
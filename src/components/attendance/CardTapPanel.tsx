@@ -0,0 +1,110 @@
+/**
+ * CardTapPanel Component
+ *
+ * Marks students present (or late) as they tap their NFC card on a
+ * keyboard-wedge reader. The server checks the card first, so lost and
+ * revoked cards are rejected and nothing is marked for them.
+ */
+
+import { useRef, useState } from 'react'
+import { CheckCircle, XCircle } from 'lucide-react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import CardReaderInput from '@/components/students/CardReaderInput'
+import { subjectAttendanceService } from '@/services/subject-attendance.service'
+import { attendanceMarkedFeedback, errorFeedback } from '@/utils/feedbackUtils'
+import { getErrorMessage } from '@/utils/errorHandling'
+import { cn } from '@/lib/utils'
+
+interface CardTapPanelProps {
+  subjectId: string | number
+  date: string
+  scheduleSlot?: string | null
+}
+
+interface TapResult {
+  id: number
+  uid: string
+  message: string
+  accepted: boolean
+}
+
+const MAX_RESULTS = 5
+
+export default function CardTapPanel({ subjectId, date, scheduleSlot }: CardTapPanelProps) {
+  const [status, setStatus] = useState<'present' | 'late'>('present')
+  const [results, setResults] = useState<TapResult[]>([])
+  const nextResultId = useRef(0)
+  const queryClient = useQueryClient()
+
+  const addResult = (result: Omit<TapResult, 'id'>) =>
+    setResults((prev) => [{ ...result, id: nextResultId.current++ }, ...prev].slice(0, MAX_RESULTS))
+
+  const tapMutation = useMutation({
+    mutationFn: (uid: string) =>
+      subjectAttendanceService.markByCard({
+        subjectId,
+        uid,
+        date,
+        status,
+        scheduleSlot: scheduleSlot ?? undefined,
+      }),
+    onSuccess: (record, uid) => {
+      attendanceMarkedFeedback(record.status)
+      const name = record.student
+        ? `${record.student.firstName} ${record.student.lastName}`
+        : `Student ${record.studentId}`
+      addResult({ uid, message: `${name} marked ${record.status}`, accepted: true })
+      queryClient.invalidateQueries({ queryKey: ['subjects', subjectId, 'attendance', date] })
+    },
+    onError: (error, uid) => {
+      errorFeedback()
+      addResult({ uid, message: getErrorMessage(error), accepted: false })
+    },
+  })
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700/50 rounded-2xl p-5 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm font-medium text-slate-200">Card Tap</p>
+        <div className="flex rounded-lg border border-slate-700 overflow-hidden text-xs">
+          {(['present', 'late'] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setStatus(option)}
+              className={cn(
+                'px-3 py-1.5 capitalize transition-colors',
+                status === option
+                  ? 'bg-indigo-600 text-white'
+                  : 'bg-slate-900/50 text-slate-400 hover:text-slate-200'
+              )}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+      <CardReaderInput
+        onScan={(uid) => tapMutation.mutate(uid)}
+        label={`Ready - tapped cards are marked ${status}`}
+      />
+      {results.length > 0 && (
+        <ul className="space-y-1">
+          {results.map((result) => (
+            <li key={result.id} className="flex items-center gap-2 text-xs">
+              {result.accepted ? (
+                <CheckCircle className="w-3.5 h-3.5 text-emerald-400 flex-shrink-0" />
+              ) : (
+                <XCircle className="w-3.5 h-3.5 text-rose-400 flex-shrink-0" />
+              )}
+              <span className="font-mono text-slate-500">{result.uid}</span>
+              <span className={result.accepted ? 'text-slate-300' : 'text-rose-300'}>
+                {result.message}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,60 @@
+/**
+ * LiveMarkIndicator Component
+ *
+ * Shows who marked a student's attendance when the mark arrived over the live
+ * update stream, e.g. "Marked by Prof. Santos just now". Renders nothing when
+ * no recent live mark exists for the student.
+ */
+
+import { useEffect, useState } from 'react'
+import { Radio } from 'lucide-react'
+import { differenceInMinutes } from 'date-fns'
+import { useAuthStore } from '@/store/authStore'
+import { recentMarkKey, useLiveStore } from '@/store/liveStore'
+
+interface LiveMarkIndicatorProps {
+  subjectId: string | number
+  date: string
+  studentId: string | number
+  scheduleSlot?: string | null
+}
+
+function relativeTime(at: string): string {
+  const minutes = differenceInMinutes(new Date(), new Date(at))
+  return minutes < 1 ? 'just now' : `${minutes} min ago`
+}
+
+export default function LiveMarkIndicator({
+  subjectId,
+  date,
+  studentId,
+  scheduleSlot,
+}: LiveMarkIndicatorProps) {
+  const mark = useLiveStore(
+    (s) => s.recentMarks[recentMarkKey(subjectId, date, studentId, scheduleSlot ?? undefined)]
+  )
+  const currentUserId = useAuthStore((s) => s.user?.id)
+  const [, setTick] = useState(0)
+
+  // Re-render every 30s so "just now" ages into "n min ago"
+  useEffect(() => {
+    if (!mark) return
+    const timer = setInterval(() => setTick((t) => t + 1), 30 * 1000)
+    return () => clearInterval(timer)
+  }, [mark])
+
+  if (!mark) return null
+
+  const isOwnMark = String(mark.actor.id) === String(currentUserId)
+  const actorName = isOwnMark ? 'you' : mark.actor.name
+
+  return (
+    <span
+      className="flex items-center gap-1 text-xs text-sky-400"
+      title={`Marked ${mark.status} by ${mark.actor.name} at ${new Date(mark.at).toLocaleTimeString()}`}
+    >
+      <Radio className="w-3 h-3" />
+      Marked by {actorName} {relativeTime(mark.at)}
+    </span>
+  )
+}
@@ -0,0 +1,146 @@
+import { useState, FormEvent } from 'react'
+import { motion } from 'framer-motion'
+import { useMutation } from '@tanstack/react-query'
+import { ArrowLeft, KeyRound, ShieldCheck } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { authService } from '@/services/auth.service'
+import { useToast } from '@/store/toastStore'
+import { AuthResponse, TwoFactorChallenge, isApiError } from '@/types'
+import { TWO_FACTOR_ERRORS } from '@/utils/constants'
+import { getErrorMessage } from '@/utils/errorHandling'
+import { validators } from '@/utils/validation-rules'
+
+interface TwoFactorLoginStepProps {
+  challenge: TwoFactorChallenge
+  onVerified: (data: AuthResponse) => void
+  /** Back to the password step (also used when the challenge expires) */
+  onCancel: () => void
+}
+
+/**
+ * Second login step: a code from the authenticator app, or a recovery code
+ */
+export default function TwoFactorLoginStep({
+  challenge,
+  onVerified,
+  onCancel,
+}: TwoFactorLoginStepProps) {
+  const { addToast } = useToast()
+  const [code, setCode] = useState('')
+  const [error, setError] = useState<string>()
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
+
+  const verifyMutation = useMutation({
+    mutationFn: (value: string) =>
+      authService.verifyTwoFactorLogin({ challengeToken: challenge.challengeToken, code: value }),
+    onSuccess: onVerified,
+    onError: (err) => {
+      if (isApiError(err) && err.code === TWO_FACTOR_ERRORS.CHALLENGE_EXPIRED) {
+        addToast(err.message, 'warning')
+        onCancel()
+        return
+      }
+      setCode('')
+      setError(getErrorMessage(err))
+    },
+  })
+
+  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    if (useRecoveryCode) {
+      if (!/^[a-z2-7]{4}-[a-z2-7]{4}$/i.test(code.trim())) {
+        setError('Recovery codes look like abcd-efgh')
+        return
+      }
+    } else {
+      const result = validators.otp(code)
+      if (!result.isValid) {
+        setError(result.error)
+        return
+      }
+    }
+    setError(undefined)
+    verifyMutation.mutate(code)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6 relative">
+      <div className="flex items-start gap-3 p-4 rounded-xl bg-blue-500/10 border border-blue-500/20">
+        <ShieldCheck className="w-5 h-5 text-blue-400 flex-shrink-0 mt-0.5" />
+        <p className="text-sm text-slate-300">
+          {useRecoveryCode
+            ? 'Enter one of the recovery codes you saved when you turned on two-factor authentication. Each code works once.'
+            : 'Open your authenticator app and enter the 6-digit code for this account.'}
+        </p>
+      </div>
+
+      <div>
+        <Label
+          htmlFor="twoFactorCode"
+          className="text-slate-300 font-medium flex items-center gap-2"
+        >
+          <KeyRound className="w-4 h-4 text-indigo-400" />
+          {useRecoveryCode ? 'Recovery Code' : 'Authentication Code'}
+        </Label>
+        <Input
+          id="twoFactorCode"
+          inputMode={useRecoveryCode ? 'text' : 'numeric'}
+          autoComplete="one-time-code"
+          maxLength={useRecoveryCode ? 9 : 6}
+          placeholder={useRecoveryCode ? 'abcd-efgh' : '123456'}
+          value={code}
+          onChange={(e) => {
+            setCode(useRecoveryCode ? e.target.value : e.target.value.replace(/\D/g, ''))
+            if (error) setError(undefined)
+          }}
+          disabled={verifyMutation.isPending}
+          autoFocus
+          className={`mt-2 h-12 rounded-xl border-2 bg-slate-900/50 text-slate-100 placeholder:text-slate-500 text-center text-lg tracking-[0.4em] font-mono ${
+            error ? 'border-red-500 focus:border-red-600' : 'border-slate-700 focus:border-blue-500'
+          }`}
+        />
+        {error && (
+          <motion.p
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="text-sm text-red-400 mt-2 flex items-center gap-1"
+          >
+            <span className="text-red-500">⚠</span> {error}
+          </motion.p>
+        )}
+      </div>
+
+      <Button
+        type="submit"
+        className="w-full h-12 text-base font-semibold rounded-xl bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg border-0"
+        disabled={verifyMutation.isPending}
+      >
+        {verifyMutation.isPending ? 'Verifying...' : 'Verify and sign in'}
+      </Button>
+
+      <div className="flex items-center justify-between text-sm">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex items-center gap-1 text-slate-400 hover:text-slate-200 transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setUseRecoveryCode((v) => !v)
+            setCode('')
+            setError(undefined)
+          }}
+          className="text-blue-400 hover:text-blue-300 hover:underline transition-colors"
+        >
+          {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+        </button>
+      </div>
+    </form>
+  )
+}
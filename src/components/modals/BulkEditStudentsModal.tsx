@@ -0,0 +1,531 @@
+import { useEffect, useMemo, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import {
+  X,
+  Layers,
+  RefreshCw,
+  Tag,
+  Users,
+  AlertTriangle,
+  CheckCircle2,
+  XCircle,
+} from 'lucide-react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { format } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  EntityId,
+  Student,
+  StudentBulkChanges,
+  StudentBulkUpdateResult,
+  StudentStatus,
+  StudentStatusChangeData,
+} from '@/types'
+import { studentService } from '@/services/student.service'
+import { useToast } from '@/store/toastStore'
+import {
+  validateStatusEffectiveDate,
+  validateStatusTransition,
+  validateStudentCanEnroll,
+} from '@/utils/business-validation'
+import { getErrorMessage } from '@/utils/errorHandling'
+import { sanitizers, STUDENT_STATUS, validators } from '@/utils/validation-rules'
+import { cn } from '@/lib/utils'
+
+interface BulkEditStudentsModalProps {
+  isOpen: boolean
+  onClose: () => void
+  students: Student[]
+  onComplete?: (result: StudentBulkUpdateResult) => void
+}
+
+type TextField = 'section' | 'guardianName' | 'guardianEmail' | 'guardianContact'
+type FieldMode = 'keep' | 'set' | 'clear'
+
+const TEXT_FIELDS: {
+  field: TextField
+  label: string
+  placeholder: string
+  validate: (value: string) => { isValid: boolean; error?: string }
+}[] = [
+  {
+    field: 'section',
+    label: 'Section',
+    placeholder: 'e.g., A, B, 1-A',
+    validate: validators.section,
+  },
+  {
+    field: 'guardianName',
+    label: 'Guardian Name',
+    placeholder: 'Jane Doe',
+    validate: (value) => validators.personName(value, 'Guardian name'),
+  },
+  {
+    field: 'guardianEmail',
+    label: 'Guardian Email',
+    placeholder: 'guardian@example.com',
+    validate: validators.email,
+  },
+  {
+    field: 'guardianContact',
+    label: 'Guardian Contact',
+    placeholder: '09123456789',
+    validate: validators.contact,
+  },
+]
+
+const emptyFields = (): Record<TextField, { mode: FieldMode; value: string }> => ({
+  section: { mode: 'keep', value: '' },
+  guardianName: { mode: 'keep', value: '' },
+  guardianEmail: { mode: 'keep', value: '' },
+  guardianContact: { mode: 'keep', value: '' },
+})
+
+const inputClass = (error?: string) =>
+  `rounded-xl border-2 bg-slate-900/50 text-slate-100 placeholder:text-slate-500 ${
+    error ? 'border-red-500 focus:border-red-600' : 'border-slate-600 focus:border-blue-500'
+  }`
+
+/**
+ * Apply the same changes to every selected student. Each field is left
+ * unchanged unless it is set or cleared; the outcome for every student is
+ * shown once the update has run.
+ */
+export default function BulkEditStudentsModal({
+  isOpen,
+  onClose,
+  students,
+  onComplete,
+}: BulkEditStudentsModalProps) {
+  const today = format(new Date(), 'yyyy-MM-dd')
+  const [fields, setFields] = useState(emptyFields)
+  const [status, setStatus] = useState<StudentStatusChangeData | null>(null)
+  const [addTagsText, setAddTagsText] = useState('')
+  const [removeTags, setRemoveTags] = useState<string[]>([])
+  const [errors, setErrors] = useState<{ [field: string]: string | undefined }>({})
+  const [result, setResult] = useState<StudentBulkUpdateResult | null>(null)
+  const { addToast } = useToast()
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    if (isOpen) {
+      setFields(emptyFields())
+      setStatus(null)
+      setAddTagsText('')
+      setRemoveTags([])
+      setErrors({})
+      setResult(null)
+    }
+  }, [isOpen])
+
+  // Tags carried by at least one selected student, offered for removal
+  const selectedTags = useMemo(
+    () => Array.from(new Set(students.flatMap((s) => s.tags ?? []))).sort(),
+    [students]
+  )
+
+  // Students the chosen status cannot be applied to
+  const blockedCount = status
+    ? students.filter(
+        (s) =>
+          (s.status ?? 'active') !== status.status &&
+          !validateStatusTransition(s.status ?? 'active', status.status).isValid
+      ).length
+    : 0
+  const leavesSubjects = status !== null && !validateStudentCanEnroll(status.status).isValid
+
+  const updateMutation = useMutation({
+    mutationFn: (changes: StudentBulkChanges) =>
+      studentService.bulkUpdate(
+        students.map((s) => s.id),
+        changes
+      ),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['students'] })
+      queryClient.invalidateQueries({ queryKey: ['student-status-history'] })
+      if (status && leavesSubjects) {
+        queryClient.invalidateQueries({ queryKey: ['subjects'] })
+        queryClient.invalidateQueries({ queryKey: ['student-enrollments'] })
+      }
+      setResult(data)
+      onComplete?.(data)
+      addToast(
+        data.failed > 0
+          ? `Updated ${data.updated} students. ${data.failed} could not be updated.`
+          : `Updated ${data.updated} students`,
+        data.failed > 0 ? 'info' : 'success'
+      )
+    },
+    onError: (error) => addToast(getErrorMessage(error), 'error'),
+  })
+
+  const setField = (field: TextField, change: Partial<{ mode: FieldMode; value: string }>) => {
+    setFields((prev) => ({ ...prev, [field]: { ...prev[field], ...change } }))
+    setErrors((prev) => ({ ...prev, [field]: undefined }))
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const newErrors: { [field: string]: string } = {}
+    const changes: StudentBulkChanges = {}
+
+    TEXT_FIELDS.forEach(({ field, label, validate }) => {
+      const { mode, value } = fields[field]
+      if (mode === 'clear') changes[field] = null
+      if (mode !== 'set') return
+      const result = value.trim() ? validate(value.trim()) : { isValid: false }
+      if (result.isValid) changes[field] = value.trim()
+      else newErrors[field] = result.error ?? `${label} is required`
+    })
+
+    if (status) {
+      const dateResult = validateStatusEffectiveDate(status.effectiveDate)
+      if (!dateResult.isValid) newErrors.effectiveDate = dateResult.error ?? 'Invalid date'
+      if (status.reason.trim().length < 3) newErrors.reason = 'Give a reason for the change'
+      changes.status = status
+    }
+
+    const addTags = sanitizers.tagList(addTagsText)
+    const invalidTag = addTags.map(validators.studentTag).find((r) => !r.isValid)
+    if (invalidTag) newErrors.addTags = invalidTag.error ?? 'Invalid tag'
+    if (addTags.length > 0) changes.addTags = addTags
+    if (removeTags.length > 0) changes.removeTags = removeTags
+
+    if (Object.keys(newErrors).length === 0 && Object.keys(changes).length === 0) {
+      newErrors.form = 'Choose at least one change'
+    }
+    setErrors(newErrors)
+    if (Object.keys(newErrors).length === 0) updateMutation.mutate(changes)
+  }
+
+  const studentName = (id: EntityId) => {
+    const student = students.find((s) => String(s.id) === String(id))
+    return student ? `${student.firstName} ${student.lastName}` : `Student #${id}`
+  }
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/70 backdrop-blur-md z-50"
+          />
+
+          {/* Modal */}
+          <div className="fixed inset-0 flex items-center justify-center z-50 p-4">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              transition={{ type: 'spring', duration: 0.5 }}
+              className="bg-slate-800/95 backdrop-blur-xl rounded-3xl shadow-enterprise-2xl border border-slate-700/50 w-full max-w-2xl max-h-[90vh] overflow-y-auto thin-scrollbar"
+            >
+              {/* Header */}
+              <div className="sticky top-0 bg-gradient-to-r from-blue-600 via-indigo-600 to-purple-600 text-white p-6 rounded-t-3xl shadow-lg z-10 border-b border-blue-500/30">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <div className="bg-white/20 p-2 rounded-xl backdrop-blur-sm border border-white/30">
+                      <Layers className="w-6 h-6" />
+                    </div>
+                    <div>
+                      <h2 className="text-2xl font-bold">Edit Selected Students</h2>
+                      <p className="text-blue-100 text-sm mt-1">
+                        {students.length} student{students.length !== 1 ? 's' : ''} selected
+                      </p>
+                    </div>
+                  </div>
+                  <motion.button
+                    whileHover={{ scale: 1.1, rotate: 90 }}
+                    whileTap={{ scale: 0.9 }}
+                    onClick={onClose}
+                    className="p-2 hover:bg-white/20 rounded-xl transition-colors"
+                  >
+                    <X className="w-6 h-6" />
+                  </motion.button>
+                </div>
+              </div>
+
+              {result ? (
+                <div className="p-8 space-y-6">
+                  <div className="text-center">
+                    {result.failed > 0 ? (
+                      <AlertTriangle className="w-12 h-12 mx-auto text-amber-400" />
+                    ) : (
+                      <CheckCircle2 className="w-12 h-12 mx-auto text-emerald-400" />
+                    )}
+                  </div>
+                  <div className="grid grid-cols-3 gap-3 text-center">
+                    {[
+                      { label: 'Updated', value: result.updated, color: 'text-blue-300' },
+                      { label: 'Unchanged', value: result.unchanged, color: 'text-slate-300' },
+                      { label: 'Failed', value: result.failed, color: 'text-red-300' },
+                    ].map(({ label, value, color }) => (
+                      <div
+                        key={label}
+                        className="rounded-xl bg-slate-900/50 border border-slate-700/50 p-4"
+                      >
+                        <p className={cn('text-2xl font-bold', color)}>{value}</p>
+                        <p className="text-xs text-slate-400 mt-1">{label}</p>
+                      </div>
+                    ))}
+                  </div>
+                  {result.failed > 0 && (
+                    <div className="space-y-2">
+                      <p className="text-sm text-slate-400 flex items-center gap-2">
+                        <XCircle className="w-4 h-4 text-red-400" />
+                        These students were left as they were and stay selected:
+                      </p>
+                      <ul className="max-h-60 overflow-y-auto thin-scrollbar space-y-2">
+                        {result.rows
+                          .filter((row) => row.outcome === 'failed')
+                          .map((row) => (
+                            <li
+                              key={row.studentId}
+                              className="rounded-xl bg-red-500/10 border border-red-500/20 px-4 py-3"
+                            >
+                              <p className="text-sm font-medium text-slate-200">
+                                {studentName(row.studentId)}
+                              </p>
+                              {Object.values(row.errors ?? {})
+                                .flat()
+                                .map((message) => (
+                                  <p key={message} className="text-xs text-red-300 mt-1">
+                                    {message}
+                                  </p>
+                                ))}
+                            </li>
+                          ))}
+                      </ul>
+                    </div>
+                  )}
+                  <Button
+                    type="button"
+                    onClick={onClose}
+                    className="w-full h-12 rounded-xl bg-slate-700 hover:bg-slate-600 border-0"
+                  >
+                    Done
+                  </Button>
+                </div>
+              ) : (
+                <form onSubmit={handleSubmit} className="p-8 space-y-6">
+                  {/* Section and guardian fields */}
+                  <div className="space-y-4">
+                    <h3 className="text-lg font-semibold text-slate-200 flex items-center gap-2">
+                      <Users className="w-5 h-5 text-blue-400" />
+                      Details
+                    </h3>
+                    {TEXT_FIELDS.map(({ field, label, placeholder }) => (
+                      <div key={field}>
+                        <label className="block text-sm font-medium text-slate-300 mb-2">
+                          {label}
+                        </label>
+                        <div className="flex gap-3">
+                          <select
+                            value={fields[field].mode}
+                            onChange={(e) => setField(field, { mode: e.target.value as FieldMode })}
+                            className="h-12 px-3 rounded-xl border-2 bg-slate-900/50 text-slate-100 border-slate-600 focus:border-blue-500 focus:outline-none"
+                          >
+                            <option value="keep">Leave unchanged</option>
+                            <option value="set">Set to</option>
+                            <option value="clear">Clear</option>
+                          </select>
+                          {fields[field].mode === 'set' && (
+                            <Input
+                              type="text"
+                              value={fields[field].value}
+                              onChange={(e) => setField(field, { value: e.target.value })}
+                              placeholder={placeholder}
+                              className={`h-12 flex-1 ${inputClass(errors[field])}`}
+                            />
+                          )}
+                        </div>
+                        {errors[field] && (
+                          <p className="text-red-400 text-sm mt-1">{errors[field]}</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+
+                  {/* Status */}
+                  <div className="space-y-4 border-t border-slate-700/50 pt-6">
+                    <h3 className="text-lg font-semibold text-slate-200 flex items-center gap-2">
+                      <RefreshCw className="w-5 h-5 text-purple-400" />
+                      Status
+                    </h3>
+                    <select
+                      value={status?.status ?? ''}
+                      onChange={(e) =>
+                        setStatus(
+                          e.target.value
+                            ? {
+                                status: e.target.value as StudentStatus,
+                                effectiveDate: status?.effectiveDate ?? today,
+                                reason: status?.reason ?? '',
+                              }
+                            : null
+                        )
+                      }
+                      className="w-full h-12 px-3 rounded-xl border-2 bg-slate-900/50 text-slate-100 border-slate-600 focus:border-blue-500 focus:outline-none capitalize"
+                    >
+                      <option value="">Leave unchanged</option>
+                      {Object.values(STUDENT_STATUS).map((value) => (
+                        <option key={value} value={value} className="capitalize">
+                          {value}
+                        </option>
+                      ))}
+                    </select>
+                    {status && (
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div>
+                          <label className="block text-sm font-medium text-slate-300 mb-2">
+                            Effective Date *
+                          </label>
+                          <Input
+                            type="date"
+                            value={status.effectiveDate}
+                            max={today}
+                            onChange={(e) => {
+                              setStatus({ ...status, effectiveDate: e.target.value })
+                              setErrors((prev) => ({ ...prev, effectiveDate: undefined }))
+                            }}
+                            className={`h-12 ${inputClass(errors.effectiveDate)}`}
+                          />
+                          {errors.effectiveDate && (
+                            <p className="text-red-400 text-sm mt-1">{errors.effectiveDate}</p>
+                          )}
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-slate-300 mb-2">
+                            Reason *
+                          </label>
+                          <Input
+                            type="text"
+                            value={status.reason}
+                            onChange={(e) => {
+                              setStatus({ ...status, reason: e.target.value })
+                              setErrors((prev) => ({ ...prev, reason: undefined }))
+                            }}
+                            placeholder="e.g., End of school year"
+                            className={`h-12 ${inputClass(errors.reason)}`}
+                          />
+                          {errors.reason && (
+                            <p className="text-red-400 text-sm mt-1">{errors.reason}</p>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                    {status && (blockedCount > 0 || leavesSubjects) && (
+                      <div className="flex items-start gap-3 p-4 rounded-xl bg-amber-500/10 border border-amber-500/30">
+                        <AlertTriangle className="w-5 h-5 text-amber-400 flex-shrink-0" />
+                        <div className="text-sm text-amber-200 space-y-1">
+                          {blockedCount > 0 && (
+                            <p>
+                              {blockedCount} selected student{blockedCount !== 1 ? 's' : ''} cannot
+                              become {status.status} and will not be updated.
+                            </p>
+                          )}
+                          {leavesSubjects && (
+                            <p>Students who change status will be removed from their subjects.</p>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Tags */}
+                  <div className="space-y-4 border-t border-slate-700/50 pt-6">
+                    <h3 className="text-lg font-semibold text-slate-200 flex items-center gap-2">
+                      <Tag className="w-5 h-5 text-indigo-400" />
+                      Tags
+                    </h3>
+                    <div>
+                      <label className="block text-sm font-medium text-slate-300 mb-2">
+                        Add Tags
+                      </label>
+                      <Input
+                        type="text"
+                        value={addTagsText}
+                        onChange={(e) => {
+                          setAddTagsText(e.target.value)
+                          setErrors((prev) => ({ ...prev, addTags: undefined }))
+                        }}
+                        placeholder="e.g., scholar, varsity team"
+                        className={`h-12 ${inputClass(errors.addTags)}`}
+                      />
+                      {errors.addTags ? (
+                        <p className="text-red-400 text-sm mt-1">{errors.addTags}</p>
+                      ) : (
+                        <p className="text-slate-500 text-xs mt-1">Separate tags with commas</p>
+                      )}
+                    </div>
+                    {selectedTags.length > 0 && (
+                      <div>
+                        <label className="block text-sm font-medium text-slate-300 mb-2">
+                          Remove Tags
+                        </label>
+                        <div className="flex flex-wrap gap-2">
+                          {selectedTags.map((tag) => {
+                            const removing = removeTags.includes(tag)
+                            return (
+                              <button
+                                key={tag}
+                                type="button"
+                                onClick={() =>
+                                  setRemoveTags((prev) =>
+                                    removing ? prev.filter((t) => t !== tag) : [...prev, tag]
+                                  )
+                                }
+                                className={cn(
+                                  'px-3 py-1 rounded-full text-xs font-medium border transition-colors',
+                                  removing
+                                    ? 'bg-red-500/20 text-red-300 border-red-500/40 line-through'
+                                    : 'bg-indigo-500/20 text-indigo-300 border-indigo-500/30 hover:bg-indigo-500/30'
+                                )}
+                              >
+                                {tag}
+                              </button>
+                            )
+                          })}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
+                  {errors.form && <p className="text-red-400 text-sm">{errors.form}</p>}
+
+                  {/* Actions */}
+                  <div className="flex gap-3 pt-6 border-t border-slate-700/50">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={onClose}
+                      className="flex-1 h-12 rounded-xl bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+                      disabled={updateMutation.isPending}
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      type="submit"
+                      className="flex-1 h-12 rounded-xl bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg border-0"
+                      disabled={updateMutation.isPending}
+                    >
+                      {updateMutation.isPending
+                        ? 'Updating...'
+                        : `Update ${students.length} Student${students.length !== 1 ? 's' : ''}`}
+                    </Button>
+                  </div>
+                </form>
+              )}
+            </motion.div>
+          </div>
+        </>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -0,0 +1,268 @@
+import { useState, useEffect } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { X, RefreshCw, Calendar, FileText, AlertTriangle } from 'lucide-react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { format } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Student, StudentStatus, StudentStatusChangeData, isApiError } from '@/types'
+import { studentService } from '@/services/student.service'
+import { useToast } from '@/store/toastStore'
+import {
+  STUDENT_STATUS_TRANSITIONS,
+  validateStatusEffectiveDate,
+  validateStudentCanEnroll,
+} from '@/utils/business-validation'
+import { getErrorMessage } from '@/utils/errorHandling'
+
+interface ChangeStudentStatusModalProps {
+  isOpen: boolean
+  onClose: () => void
+  student: Student
+  onChanged?: (student: Student) => void
+}
+
+type FormErrors = Partial<Record<keyof StudentStatusChangeData, string>>
+
+/**
+ * Record a status transition for a student. Only statuses reachable from the
+ * current one are offered.
+ */
+export default function ChangeStudentStatusModal({
+  isOpen,
+  onClose,
+  student,
+  onChanged,
+}: ChangeStudentStatusModalProps) {
+  const currentStatus = student.status ?? 'active'
+  const nextStatuses = STUDENT_STATUS_TRANSITIONS[currentStatus]
+  const today = format(new Date(), 'yyyy-MM-dd')
+  const [formData, setFormData] = useState<StudentStatusChangeData>({
+    status: nextStatuses[0] ?? currentStatus,
+    effectiveDate: today,
+    reason: '',
+  })
+  const [errors, setErrors] = useState<FormErrors>({})
+  const { addToast } = useToast()
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData({ status: nextStatuses[0] ?? currentStatus, effectiveDate: today, reason: '' })
+      setErrors({})
+    }
+    // Reset only when the modal opens
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen])
+
+  const changeMutation = useMutation({
+    mutationFn: (data: StudentStatusChangeData) => studentService.changeStatus(student.id, data),
+    onSuccess: ({ student: updated, change }) => {
+      queryClient.invalidateQueries({ queryKey: ['students'] })
+      queryClient.invalidateQueries({ queryKey: ['student-status-history', student.id] })
+      queryClient.invalidateQueries({ queryKey: ['student-enrollments', student.id] })
+      queryClient.invalidateQueries({ queryKey: ['subjects'] })
+      const dropped = change.unenrolledSubjects.length
+      addToast(
+        dropped > 0
+          ? `Status changed to ${change.toStatus}; removed from ${dropped} subject${dropped !== 1 ? 's' : ''}`
+          : `Status changed to ${change.toStatus}`,
+        'success'
+      )
+      onChanged?.(updated)
+      onClose()
+    },
+    onError: (error) => {
+      if (isApiError(error) && error.errors) {
+        setErrors({
+          status: error.errors.status?.[0],
+          effectiveDate: error.errors.effectiveDate?.[0],
+          reason: error.errors.reason?.[0],
+        })
+      }
+      addToast(getErrorMessage(error), 'error')
+    },
+  })
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const newErrors: FormErrors = {}
+    const dateResult = validateStatusEffectiveDate(formData.effectiveDate)
+    if (!dateResult.isValid) newErrors.effectiveDate = dateResult.error
+    if (formData.reason.trim().length < 3) newErrors.reason = 'Give a reason for the change'
+    setErrors(newErrors)
+    if (Object.keys(newErrors).length === 0) changeMutation.mutate(formData)
+  }
+
+  const leavesSubjects =
+    validateStudentCanEnroll(currentStatus).isValid &&
+    !validateStudentCanEnroll(formData.status).isValid
+
+  const fieldClass = (error?: string) =>
+    `rounded-xl border-2 bg-slate-900/50 text-slate-100 placeholder:text-slate-500 ${
+      error ? 'border-red-500 focus:border-red-600' : 'border-slate-600 focus:border-blue-500'
+    }`
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/70 backdrop-blur-md z-50"
+          />
+
+          {/* Modal */}
+          <div className="fixed inset-0 flex items-center justify-center z-50 p-4">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              transition={{ type: 'spring', duration: 0.5 }}
+              className="bg-slate-800/95 backdrop-blur-xl rounded-3xl shadow-enterprise-2xl border border-slate-700/50 w-full max-w-lg max-h-[90vh] overflow-y-auto thin-scrollbar"
+            >
+              {/* Header */}
+              <div className="sticky top-0 bg-gradient-to-r from-blue-600 via-indigo-600 to-purple-600 text-white p-6 rounded-t-3xl shadow-lg z-10 border-b border-blue-500/30">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <div className="bg-white/20 p-2 rounded-xl backdrop-blur-sm border border-white/30">
+                      <RefreshCw className="w-6 h-6" />
+                    </div>
+                    <div>
+                      <h2 className="text-2xl font-bold">Change Status</h2>
+                      <p className="text-blue-100 text-sm mt-1">
+                        {student.firstName} {student.lastName} is currently{' '}
+                        <span className="capitalize">{currentStatus}</span>
+                      </p>
+                    </div>
+                  </div>
+                  <motion.button
+                    whileHover={{ scale: 1.1, rotate: 90 }}
+                    whileTap={{ scale: 0.9 }}
+                    onClick={onClose}
+                    className="p-2 hover:bg-white/20 rounded-xl transition-colors"
+                  >
+                    <X className="w-6 h-6" />
+                  </motion.button>
+                </div>
+              </div>
+
+              {nextStatuses.length === 0 ? (
+                <div className="p-8 space-y-6">
+                  <p className="text-slate-300 text-sm">
+                    A <span className="capitalize">{currentStatus}</span> student cannot move to
+                    another status.
+                  </p>
+                  <Button
+                    type="button"
+                    onClick={onClose}
+                    className="w-full h-12 rounded-xl bg-slate-700 hover:bg-slate-600 border-0"
+                  >
+                    Close
+                  </Button>
+                </div>
+              ) : (
+                <form onSubmit={handleSubmit} className="p-8 space-y-5">
+                  <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-2">
+                      <RefreshCw className="w-4 h-4 inline mr-1" />
+                      New Status *
+                    </label>
+                    <select
+                      value={formData.status}
+                      onChange={(e) =>
+                        setFormData((prev) => ({
+                          ...prev,
+                          status: e.target.value as StudentStatus,
+                        }))
+                      }
+                      className={`w-full h-12 px-3 capitalize focus:outline-none ${fieldClass(errors.status)}`}
+                    >
+                      {nextStatuses.map((status) => (
+                        <option key={status} value={status} className="capitalize">
+                          {status}
+                        </option>
+                      ))}
+                    </select>
+                    {errors.status && <p className="text-red-400 text-sm mt-1">{errors.status}</p>}
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-2">
+                      <Calendar className="w-4 h-4 inline mr-1" />
+                      Effective Date *
+                    </label>
+                    <Input
+                      type="date"
+                      value={formData.effectiveDate}
+                      max={today}
+                      onChange={(e) => {
+                        setFormData((prev) => ({ ...prev, effectiveDate: e.target.value }))
+                        setErrors((prev) => ({ ...prev, effectiveDate: undefined }))
+                      }}
+                      className={`h-12 ${fieldClass(errors.effectiveDate)}`}
+                    />
+                    {errors.effectiveDate && (
+                      <p className="text-red-400 text-sm mt-1">{errors.effectiveDate}</p>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-2">
+                      <FileText className="w-4 h-4 inline mr-1" />
+                      Reason *
+                    </label>
+                    <textarea
+                      value={formData.reason}
+                      onChange={(e) => {
+                        setFormData((prev) => ({ ...prev, reason: e.target.value }))
+                        setErrors((prev) => ({ ...prev, reason: undefined }))
+                      }}
+                      rows={3}
+                      placeholder="e.g., Completed all program requirements"
+                      className={`w-full px-3 py-2 focus:outline-none resize-none ${fieldClass(errors.reason)}`}
+                    />
+                    {errors.reason && <p className="text-red-400 text-sm mt-1">{errors.reason}</p>}
+                  </div>
+
+                  {leavesSubjects && (
+                    <div className="flex items-start gap-3 p-4 rounded-xl bg-amber-500/10 border border-amber-500/30">
+                      <AlertTriangle className="w-5 h-5 text-amber-400 flex-shrink-0" />
+                      <p className="text-sm text-amber-200">
+                        The student will be removed from every subject they are enrolled in.
+                      </p>
+                    </div>
+                  )}
+
+                  {/* Actions */}
+                  <div className="flex gap-3 pt-6 border-t border-slate-700/50">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={onClose}
+                      className="flex-1 h-12 rounded-xl bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+                      disabled={changeMutation.isPending}
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      type="submit"
+                      className="flex-1 h-12 rounded-xl bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg border-0"
+                      disabled={changeMutation.isPending}
+                    >
+                      {changeMutation.isPending ? 'Saving...' : 'Change Status'}
+                    </Button>
+                  </div>
+                </form>
+              )}
+            </motion.div>
+          </div>
+        </>
+      )}
+    </AnimatePresence>
+  )
+}
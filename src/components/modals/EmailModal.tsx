@@ -16,6 +16,7 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { useToast } from '@/store/toastStore'
 import { useAuthStore } from '@/store/authStore'
+import { useCurrentSchool } from '@/store/schoolStore'
 import { ROLES } from '@/utils/constants'
 import { generateEmailTemplate } from '@/utils/email-templates'
 
@@ -54,6 +55,7 @@ export default function EmailModal({ isOpen, onClose, recipients, onSend }: Emai
 
   // Get user from auth store for permission checks
   const user = useAuthStore((state) => state.user)
+  const schoolBranding = useCurrentSchool()?.settings.branding
   // Allow Superadmin, Admin, Registrar to send bulk emails
   const isBulkAllowed =
     !!user &&
@@ -88,8 +90,11 @@ export default function EmailModal({ isOpen, onClose, recipients, onSend }: Emai
       message: message || 'No message content',
       senderName: user?.name || 'Administrator',
       senderRole: user?.role,
+      schoolName: schoolBranding?.displayName,
+      schoolLogo: schoolBranding?.logoUrl,
+      brandColor: schoolBranding?.primaryColor,
     })
-  }, [subject, message, to, user])
+  }, [subject, message, to, user, schoolBranding])
 
   const validateEmail = (email: string): boolean => {
     const emailPattern =
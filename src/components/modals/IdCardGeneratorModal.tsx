@@ -0,0 +1,346 @@
+import { useEffect, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { X, Contact2, Printer, AlertTriangle, Settings2, Nfc } from 'lucide-react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { IdCardPrint, IdCardTemplate, Student } from '@/types'
+import { idCardService } from '@/services/id-card.service'
+import { useToast } from '@/store/toastStore'
+import { useAuthStore } from '@/store/authStore'
+import { useCurrentSchool } from '@/store/schoolStore'
+import IdCardTemplateEditor from '@/components/students/IdCardTemplateEditor'
+import { buildIdCardPdf, sheetGrid } from '@/utils/idCardSheets'
+import { photoAsJpegDataUrl } from '@/utils/photoUtils'
+import { APP_NAME } from '@/utils/constants'
+import { getErrorMessage } from '@/utils/errorHandling'
+import { canManageSchoolSettings } from '@/utils/permissions'
+import { formatDateTime } from '@/lib/utils'
+
+interface IdCardGeneratorModalProps {
+  isOpen: boolean
+  onClose: () => void
+  students: Student[]
+}
+
+/**
+ * Lay out ID cards for the selected students as a printable PDF. The run is
+ * recorded first, so each card carries the NFC card and copy number it was
+ * printed for; reprinting for the same NFC card asks for a reason.
+ */
+export default function IdCardGeneratorModal({
+  isOpen,
+  onClose,
+  students,
+}: IdCardGeneratorModalProps) {
+  const [templateId, setTemplateId] = useState<IdCardTemplate['id'] | null>(null)
+  const [isEditing, setIsEditing] = useState(false)
+  const [reason, setReason] = useState('')
+  const [reasonError, setReasonError] = useState('')
+  const { addToast } = useToast()
+  const { user } = useAuthStore()
+  const school = useCurrentSchool()
+  const queryClient = useQueryClient()
+  const userCanEditTemplates = canManageSchoolSettings(user?.role)
+  const studentIds = students.map((s) => s.id)
+
+  useEffect(() => {
+    if (isOpen) {
+      setIsEditing(false)
+      setReason('')
+      setReasonError('')
+    }
+  }, [isOpen])
+
+  const { data: templates = [] } = useQuery({
+    queryKey: ['id-card-templates'],
+    queryFn: idCardService.getTemplates,
+    enabled: isOpen,
+  })
+  const template = templates.find((t) => String(t.id) === String(templateId)) ?? templates[0]
+
+  const { data: prints = [], isLoading: isLoadingPrints } = useQuery({
+    queryKey: ['id-card-prints', studentIds],
+    queryFn: () => idCardService.getPrints(studentIds),
+    enabled: isOpen && studentIds.length > 0,
+  })
+
+  // The latest card already printed for the student's current NFC card, if any
+  const previousPrint = (student: Student): IdCardPrint | undefined =>
+    prints.find((p) => String(p.studentId) === String(student.id) && p.nfcId === student.nfcId)
+  const reprints = students.filter((s) => previousPrint(s))
+  const withoutNfc = students.filter((s) => !s.nfcId)
+
+  const printMutation = useMutation({
+    mutationFn: async (chosen: IdCardTemplate) => {
+      const recorded = await idCardService.recordPrints({
+        studentIds,
+        templateId: chosen.id,
+        reason: reason.trim() || undefined,
+      })
+      const cards = await Promise.all(
+        students.map(async (student) => ({
+          student,
+          print: recorded.find((p) => String(p.studentId) === String(student.id)),
+          // A photo that can't be loaded prints as initials instead
+          photo:
+            chosen.showPhoto && student.profilePhoto
+              ? await photoAsJpegDataUrl(student.profilePhoto).catch(() => undefined)
+              : undefined,
+        }))
+      )
+      return buildIdCardPdf(cards, chosen, school?.name ?? APP_NAME)
+    },
+    onSuccess: (pdf) => {
+      queryClient.invalidateQueries({ queryKey: ['id-card-prints'] })
+      const url = URL.createObjectURL(pdf)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `id-cards-${new Date().toISOString().slice(0, 10)}.pdf`
+      link.click()
+      URL.revokeObjectURL(url)
+      addToast(`Generated ${students.length} ID card${students.length !== 1 ? 's' : ''}`, 'success')
+      onClose()
+    },
+    onError: (error) => addToast(getErrorMessage(error), 'error'),
+  })
+
+  const handleGenerate = () => {
+    if (!template) return
+    if (reprints.length > 0 && reason.trim().length < 3) {
+      setReasonError('Give a reason for reprinting these cards')
+      return
+    }
+    printMutation.mutate(template)
+  }
+
+  const grid = template ? sheetGrid(template.orientation) : null
+  const sheetCount = grid ? Math.ceil(students.length / grid.perSheet) : 0
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/70 backdrop-blur-md z-50"
+          />
+
+          {/* Modal */}
+          <div className="fixed inset-0 flex items-center justify-center z-50 p-4">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              transition={{ type: 'spring', duration: 0.5 }}
+              className="bg-slate-800/95 backdrop-blur-xl rounded-3xl shadow-enterprise-2xl border border-slate-700/50 w-full max-w-2xl max-h-[90vh] overflow-y-auto thin-scrollbar"
+            >
+              {/* Header */}
+              <div className="sticky top-0 bg-gradient-to-r from-blue-600 via-indigo-600 to-purple-600 text-white p-6 rounded-t-3xl shadow-lg z-10 border-b border-blue-500/30">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <div className="bg-white/20 p-2 rounded-xl backdrop-blur-sm border border-white/30">
+                      <Contact2 className="w-6 h-6" />
+                    </div>
+                    <div>
+                      <h2 className="text-2xl font-bold">Print ID Cards</h2>
+                      <p className="text-blue-100 text-sm mt-1">
+                        {students.length} card{students.length !== 1 ? 's' : ''}
+                        {grid && ` on ${sheetCount} A4 sheet${sheetCount !== 1 ? 's' : ''}`}
+                        {template?.printBack && ' (double-sided)'}
+                      </p>
+                    </div>
+                  </div>
+                  <motion.button
+                    whileHover={{ scale: 1.1, rotate: 90 }}
+                    whileTap={{ scale: 0.9 }}
+                    onClick={onClose}
+                    className="p-2 hover:bg-white/20 rounded-xl transition-colors"
+                  >
+                    <X className="w-6 h-6" />
+                  </motion.button>
+                </div>
+              </div>
+
+              <div className="p-8 space-y-6">
+                {/* Template */}
+                <div className="space-y-3">
+                  <label className="block text-sm font-medium text-slate-300">Template</label>
+                  <div className="flex gap-3">
+                    <select
+                      value={template?.id ?? ''}
+                      onChange={(e) => {
+                        // Option values are strings; keep the template's own id
+                        setTemplateId(
+                          templates.find((t) => String(t.id) === e.target.value)?.id ?? null
+                        )
+                        setIsEditing(false)
+                      }}
+                      disabled={isEditing}
+                      className="flex-1 h-12 px-3 rounded-xl border-2 bg-slate-900/50 text-slate-100 border-slate-600 focus:border-blue-500 focus:outline-none"
+                    >
+                      {templates.map((t) => (
+                        <option key={t.id} value={t.id}>
+                          {t.name} ({t.orientation})
+                        </option>
+                      ))}
+                    </select>
+                    {userCanEditTemplates && template && !isEditing && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => setIsEditing(true)}
+                        className="h-12 rounded-xl bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+                      >
+                        <Settings2 className="w-4 h-4 mr-2" />
+                        Edit
+                      </Button>
+                    )}
+                  </div>
+                  {template && !isEditing && (
+                    <p className="text-xs text-slate-500">
+                      {[
+                        template.showPhoto && 'photo',
+                        template.showQrCode && 'QR code',
+                        template.showBarcode && 'barcode',
+                        template.printBack && 'back side',
+                      ]
+                        .filter(Boolean)
+                        .join(', ')}
+                      {grid && ` · ${grid.perSheet} cards per sheet`}
+                    </p>
+                  )}
+                  {template && isEditing && (
+                    <IdCardTemplateEditor
+                      key={template.id}
+                      template={template}
+                      canDelete={templates.length > 1}
+                      onSaved={(saved) => {
+                        setTemplateId(saved.id)
+                        setIsEditing(false)
+                      }}
+                      onDeleted={() => {
+                        setTemplateId(null)
+                        setIsEditing(false)
+                      }}
+                      onCancel={() => setIsEditing(false)}
+                    />
+                  )}
+                </div>
+
+                {/* Cards */}
+                <div className="space-y-3 border-t border-slate-700/50 pt-6">
+                  <h3 className="text-lg font-semibold text-slate-200 flex items-center gap-2">
+                    <Nfc className="w-5 h-5 text-blue-400" />
+                    Cards
+                  </h3>
+                  <ul className="max-h-60 overflow-y-auto thin-scrollbar divide-y divide-slate-700/50 rounded-xl border border-slate-700/50">
+                    {students.map((student) => {
+                      const previous = previousPrint(student)
+                      return (
+                        <li
+                          key={student.id}
+                          className="flex items-center justify-between gap-3 px-4 py-2.5"
+                        >
+                          <div className="min-w-0">
+                            <p className="text-sm text-slate-200 truncate">
+                              {student.firstName} {student.lastName}
+                            </p>
+                            <p className="text-xs text-slate-500 font-mono">
+                              {student.studentNumber}
+                              {student.nfcId ? ` · NFC ${student.nfcId}` : ''}
+                            </p>
+                          </div>
+                          {!student.nfcId ? (
+                            <span className="text-xs text-amber-300 whitespace-nowrap">
+                              No NFC card
+                            </span>
+                          ) : previous ? (
+                            <span
+                              className="text-xs text-blue-300 whitespace-nowrap"
+                              title={`Last printed ${formatDateTime(previous.printedAt)}`}
+                            >
+                              Reprint · copy {previous.printNumber + 1}
+                            </span>
+                          ) : (
+                            <span className="text-xs text-emerald-300 whitespace-nowrap">
+                              {isLoadingPrints ? '...' : 'First card'}
+                            </span>
+                          )}
+                        </li>
+                      )
+                    })}
+                  </ul>
+
+                  {withoutNfc.length > 0 && (
+                    <div className="flex items-start gap-3 p-4 rounded-xl bg-amber-500/10 border border-amber-500/30">
+                      <AlertTriangle className="w-5 h-5 text-amber-400 flex-shrink-0" />
+                      <p className="text-sm text-amber-200">
+                        {withoutNfc.length} student{withoutNfc.length !== 1 ? 's have' : ' has'} no
+                        NFC card. Their cards are printed without one and can&apos;t be tapped for
+                        attendance.
+                      </p>
+                    </div>
+                  )}
+
+                  {reprints.length > 0 && (
+                    <div>
+                      <label className="block text-sm font-medium text-slate-300 mb-2">
+                        Reason for Reprint *
+                      </label>
+                      <Input
+                        type="text"
+                        value={reason}
+                        onChange={(e) => {
+                          setReason(e.target.value)
+                          setReasonError('')
+                        }}
+                        placeholder="e.g., Card damaged"
+                        className={`h-12 rounded-xl border-2 bg-slate-900/50 text-slate-100 placeholder:text-slate-500 ${
+                          reasonError
+                            ? 'border-red-500 focus:border-red-600'
+                            : 'border-slate-600 focus:border-blue-500'
+                        }`}
+                      />
+                      {reasonError && <p className="text-red-400 text-sm mt-1">{reasonError}</p>}
+                      <p className="text-slate-500 text-xs mt-1">
+                        {reprints.length} card{reprints.length !== 1 ? 's were' : ' was'} already
+                        printed for the same NFC card
+                      </p>
+                    </div>
+                  )}
+                </div>
+
+                {/* Actions */}
+                <div className="flex gap-3 pt-6 border-t border-slate-700/50">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={onClose}
+                    disabled={printMutation.isPending}
+                    className="flex-1 h-12 rounded-xl bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    type="button"
+                    onClick={handleGenerate}
+                    disabled={!template || isEditing || isLoadingPrints || printMutation.isPending}
+                    className="flex-1 h-12 rounded-xl bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 border-0"
+                  >
+                    <Printer className="w-4 h-4 mr-2" />
+                    {printMutation.isPending ? 'Generating...' : 'Generate PDF'}
+                  </Button>
+                </div>
+              </div>
+            </motion.div>
+          </div>
+        </>
+      )}
+    </AnimatePresence>
+  )
+}
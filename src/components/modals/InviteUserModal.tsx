@@ -0,0 +1,277 @@
+import { useState, useEffect } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { X, Send, Mail, Shield, Clock, Copy, CheckCircle2 } from 'lucide-react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { CreatedInvitation, InvitationFormData, isApiError } from '@/types'
+import { getInviteUrl, invitationService } from '@/services/invitation.service'
+import { useToast } from '@/store/toastStore'
+import { formatDate } from '@/lib/utils'
+import { INVITE_EXPIRY_DAYS } from '@/utils/constants'
+import { getErrorMessage } from '@/utils/errorHandling'
+import { getAllRoles, getRoleDisplayName } from '@/utils/permissions'
+import { validators } from '@/utils/validation-rules'
+
+interface InviteUserModalProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+const EMPTY_FORM: InvitationFormData = { email: '', role: 'professor', expiresInDays: 7 }
+
+/**
+ * Invite someone by email with a preset role. Once sent, the signup link is
+ * shown so it can also be shared by hand.
+ */
+export default function InviteUserModal({ isOpen, onClose }: InviteUserModalProps) {
+  const [formData, setFormData] = useState<InvitationFormData>(EMPTY_FORM)
+  const [emailError, setEmailError] = useState<string>()
+  const [sent, setSent] = useState<CreatedInvitation | null>(null)
+  const { addToast } = useToast()
+  const queryClient = useQueryClient()
+  const roleOptions = getAllRoles()
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(EMPTY_FORM)
+      setEmailError(undefined)
+      setSent(null)
+    }
+  }, [isOpen])
+
+  const inviteMutation = useMutation({
+    mutationFn: invitationService.create,
+    onSuccess: (invitation) => {
+      queryClient.invalidateQueries({ queryKey: ['invitations'] })
+      addToast(`Invitation sent to ${invitation.email}`, 'success')
+      setSent(invitation)
+    },
+    onError: (error) => {
+      if (isApiError(error) && error.errors?.email) {
+        setEmailError(error.errors.email[0])
+      }
+      addToast(getErrorMessage(error), 'error')
+    },
+  })
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const emailResult = validators.email(formData.email)
+    if (!emailResult.isValid) {
+      setEmailError(emailResult.error)
+      return
+    }
+    inviteMutation.mutate(formData)
+  }
+
+  const handleCopy = async () => {
+    if (!sent) return
+    try {
+      await navigator.clipboard.writeText(getInviteUrl(sent.token))
+      addToast('Invitation link copied', 'success')
+    } catch {
+      addToast('Could not copy to the clipboard', 'error')
+    }
+  }
+
+  const selectClass =
+    'w-full h-12 rounded-xl border-2 border-slate-600 bg-slate-900/50 px-3 text-slate-100 focus:border-blue-500 focus:outline-none'
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/70 backdrop-blur-md z-50"
+          />
+
+          {/* Modal */}
+          <div className="fixed inset-0 flex items-center justify-center z-50 p-4">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              transition={{ type: 'spring', duration: 0.5 }}
+              className="bg-slate-800/95 backdrop-blur-xl rounded-3xl shadow-enterprise-2xl border border-slate-700/50 w-full max-w-lg max-h-[90vh] overflow-y-auto thin-scrollbar"
+            >
+              {/* Header */}
+              <div className="sticky top-0 bg-gradient-to-r from-pink-600 via-rose-600 to-purple-600 text-white p-6 rounded-t-3xl shadow-lg z-10 border-b border-pink-500/30">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <div className="bg-white/20 p-2 rounded-xl backdrop-blur-sm border border-white/30">
+                      <Send className="w-6 h-6" />
+                    </div>
+                    <div>
+                      <h2 className="text-2xl font-bold">Invite User</h2>
+                      <p className="text-pink-100 text-sm mt-1">
+                        They sign up with the role you choose
+                      </p>
+                    </div>
+                  </div>
+                  <motion.button
+                    whileHover={{ scale: 1.1, rotate: 90 }}
+                    whileTap={{ scale: 0.9 }}
+                    onClick={onClose}
+                    className="p-2 hover:bg-white/20 rounded-xl transition-colors"
+                  >
+                    <X className="w-6 h-6" />
+                  </motion.button>
+                </div>
+              </div>
+
+              {sent ? (
+                <div className="p-8 space-y-5">
+                  <div className="flex items-start gap-3">
+                    <CheckCircle2 className="w-6 h-6 text-emerald-400 flex-shrink-0" />
+                    <p className="text-slate-300 text-sm">
+                      <span className="font-medium text-white">{sent.email}</span> is invited as{' '}
+                      {getRoleDisplayName(sent.role)}. The link works once and expires on{' '}
+                      {formatDate(sent.expiresAt)}.
+                    </p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-2">
+                      Invitation link
+                    </label>
+                    <div className="flex gap-2">
+                      <Input
+                        readOnly
+                        value={getInviteUrl(sent.token)}
+                        onFocus={(e) => e.target.select()}
+                        className="h-12 rounded-xl border-2 border-slate-600 bg-slate-900/50 text-slate-100 text-xs"
+                      />
+                      <Button
+                        type="button"
+                        onClick={handleCopy}
+                        className="h-12 rounded-xl bg-slate-700 hover:bg-slate-600 border-0"
+                      >
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    <p className="text-slate-500 text-xs mt-1">
+                      This link is only shown now. Send a new invitation if it gets lost.
+                    </p>
+                  </div>
+                  <div className="flex gap-3 pt-6 border-t border-slate-700/50">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => {
+                        setFormData(EMPTY_FORM)
+                        setSent(null)
+                      }}
+                      className="flex-1 h-12 rounded-xl bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+                    >
+                      Invite Another
+                    </Button>
+                    <Button
+                      type="button"
+                      onClick={onClose}
+                      className="flex-1 h-12 rounded-xl bg-gradient-to-r from-pink-600 to-purple-600 hover:from-pink-700 hover:to-purple-700 shadow-lg border-0"
+                    >
+                      Done
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <form onSubmit={handleSubmit} className="p-8 space-y-5">
+                  <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-2">
+                      <Mail className="w-4 h-4 inline mr-1" />
+                      Email Address *
+                    </label>
+                    <Input
+                      type="email"
+                      value={formData.email}
+                      onChange={(e) => {
+                        setFormData((prev) => ({ ...prev, email: e.target.value }))
+                        setEmailError(undefined)
+                      }}
+                      placeholder="new.colleague@university.edu"
+                      className={`h-12 rounded-xl border-2 bg-slate-900/50 text-slate-100 placeholder:text-slate-500 ${
+                        emailError
+                          ? 'border-red-500 focus:border-red-600'
+                          : 'border-slate-600 focus:border-blue-500'
+                      }`}
+                    />
+                    {emailError ? (
+                      <p className="text-red-400 text-sm mt-1">{emailError}</p>
+                    ) : (
+                      <p className="text-slate-500 text-xs mt-1">
+                        They must sign up with this address
+                      </p>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-2">
+                      <Shield className="w-4 h-4 inline mr-1" />
+                      Role *
+                    </label>
+                    <select
+                      value={formData.role}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, role: e.target.value }))}
+                      className={selectClass}
+                    >
+                      {roleOptions.map((role) => (
+                        <option key={role} value={role}>
+                          {getRoleDisplayName(role)}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-2">
+                      <Clock className="w-4 h-4 inline mr-1" />
+                      Link Expires After
+                    </label>
+                    <select
+                      value={formData.expiresInDays}
+                      onChange={(e) =>
+                        setFormData((prev) => ({ ...prev, expiresInDays: Number(e.target.value) }))
+                      }
+                      className={selectClass}
+                    >
+                      {INVITE_EXPIRY_DAYS.map((days) => (
+                        <option key={days} value={days}>
+                          {days} day{days !== 1 ? 's' : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {/* Actions */}
+                  <div className="flex gap-3 pt-6 border-t border-slate-700/50">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={onClose}
+                      className="flex-1 h-12 rounded-xl bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+                      disabled={inviteMutation.isPending}
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      type="submit"
+                      className="flex-1 h-12 rounded-xl bg-gradient-to-r from-pink-600 to-purple-600 hover:from-pink-700 hover:to-purple-700 shadow-lg border-0"
+                      disabled={inviteMutation.isPending}
+                    >
+                      {inviteMutation.isPending ? 'Sending...' : 'Send Invitation'}
+                    </Button>
+                  </div>
+                </form>
+              )}
+            </motion.div>
+          </div>
+        </>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -0,0 +1,266 @@
+import { useState, useEffect } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { X, GitMerge, AlertTriangle, Check } from 'lucide-react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { Button } from '@/components/ui/button'
+import StudentAvatar from '@/components/students/StudentAvatar'
+import { Student, StudentDuplicatePair, StudentMergeField } from '@/types'
+import { studentService } from '@/services/student.service'
+import { useToast } from '@/store/toastStore'
+import { STUDENT_MERGE_FIELDS } from '@/utils/duplicateStudents'
+import { getErrorMessage } from '@/utils/errorHandling'
+
+interface MergeStudentsModalProps {
+  isOpen: boolean
+  onClose: () => void
+  pair: StudentDuplicatePair | null
+  onMerged?: (student: Student) => void
+}
+
+function displayValue(student: Student, field: StudentMergeField): string {
+  if (field === 'profilePhoto') return student.profilePhoto ? 'Has photo' : ''
+  return student[field] ?? ''
+}
+
+/**
+ * Side-by-side diff of two possible duplicates. The admin picks which record
+ * survives and, for every field that differs, which value to keep.
+ */
+export default function MergeStudentsModal({
+  isOpen,
+  onClose,
+  pair,
+  onMerged,
+}: MergeStudentsModalProps) {
+  // Index into pair.students of the record that survives the merge
+  const [targetIndex, setTargetIndex] = useState<0 | 1>(0)
+  const [fieldsFromSource, setFieldsFromSource] = useState<StudentMergeField[]>([])
+  const { addToast } = useToast()
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    if (isOpen) {
+      setTargetIndex(0)
+      setFieldsFromSource([])
+    }
+  }, [isOpen, pair])
+
+  const mergeMutation = useMutation({
+    mutationFn: studentService.merge,
+    onSuccess: ({ student, merge }) => {
+      queryClient.invalidateQueries({ queryKey: ['students'] })
+      queryClient.invalidateQueries({ queryKey: ['student-duplicates'] })
+      queryClient.invalidateQueries({ queryKey: ['student-merges'] })
+      queryClient.invalidateQueries({ queryKey: ['subjects'] })
+      const { enrollments, attendance } = merge.moved
+      addToast(
+        `Merged ${merge.source.studentNumber} into ${student.studentNumber}: moved ${enrollments} enrollment(s) and ${attendance} attendance mark(s)`,
+        'success'
+      )
+      onMerged?.(student)
+      onClose()
+    },
+    onError: (error) => addToast(getErrorMessage(error), 'error'),
+  })
+
+  if (!pair) return null
+
+  const target = pair.students[targetIndex]
+  const source = pair.students[targetIndex === 0 ? 1 : 0]
+  const differing = STUDENT_MERGE_FIELDS.filter(
+    ({ field }) => displayValue(source, field) !== displayValue(target, field)
+  )
+
+  const chooseTarget = (index: 0 | 1) => {
+    if (index === targetIndex) return
+    setTargetIndex(index)
+    // Keep the same values on screen: a field taken from the old source now
+    // belongs to the new target and vice versa
+    setFieldsFromSource(
+      differing.map(({ field }) => field).filter((field) => !fieldsFromSource.includes(field))
+    )
+  }
+
+  const chooseValue = (field: StudentMergeField, fromSource: boolean) => {
+    setFieldsFromSource((prev) =>
+      fromSource ? [...prev.filter((f) => f !== field), field] : prev.filter((f) => f !== field)
+    )
+  }
+
+  const handleMerge = () => {
+    mergeMutation.mutate({ sourceId: source.id, targetId: target.id, fieldsFromSource })
+  }
+
+  const valueCell = (
+    student: Student,
+    field: StudentMergeField,
+    chosen: boolean,
+    canPick: boolean
+  ) => {
+    const value = displayValue(student, field)
+    const isSource = student.id === source.id
+    return (
+      <td key={student.id} className="p-2">
+        <button
+          type="button"
+          disabled={!canPick || mergeMutation.isPending}
+          onClick={() => chooseValue(field, isSource)}
+          className={`w-full text-left px-3 py-2 rounded-lg border text-sm transition-colors ${
+            !canPick
+              ? 'border-transparent text-slate-400 cursor-default'
+              : chosen
+                ? 'border-emerald-500/50 bg-emerald-500/10 text-emerald-200'
+                : 'border-slate-700 text-slate-400 hover:border-slate-500 line-through decoration-slate-600'
+          }`}
+        >
+          <span className="flex items-center gap-2">
+            {canPick && chosen && <Check className="w-4 h-4 flex-shrink-0" />}
+            <span className="break-all">{value || <span className="italic">empty</span>}</span>
+          </span>
+        </button>
+      </td>
+    )
+  }
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/70 backdrop-blur-md z-50"
+          />
+
+          {/* Modal */}
+          <div className="fixed inset-0 flex items-center justify-center z-50 p-4">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              transition={{ type: 'spring', duration: 0.5 }}
+              className="bg-slate-800/95 backdrop-blur-xl rounded-3xl shadow-enterprise-2xl border border-slate-700/50 w-full max-w-4xl max-h-[90vh] overflow-y-auto thin-scrollbar"
+            >
+              {/* Header */}
+              <div className="sticky top-0 bg-gradient-to-r from-blue-600 via-indigo-600 to-purple-600 text-white p-6 rounded-t-3xl shadow-lg z-10 border-b border-blue-500/30">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <div className="bg-white/20 p-2 rounded-xl backdrop-blur-sm border border-white/30">
+                      <GitMerge className="w-6 h-6" />
+                    </div>
+                    <div>
+                      <h2 className="text-2xl font-bold">Merge Students</h2>
+                      <p className="text-blue-100 text-sm mt-1">Match score {pair.score} of 100</p>
+                    </div>
+                  </div>
+                  <motion.button
+                    whileHover={{ scale: 1.1, rotate: 90 }}
+                    whileTap={{ scale: 0.9 }}
+                    onClick={onClose}
+                    className="p-2 hover:bg-white/20 rounded-xl transition-colors"
+                  >
+                    <X className="w-6 h-6" />
+                  </motion.button>
+                </div>
+              </div>
+
+              <div className="p-8 space-y-6">
+                <div className="overflow-x-auto">
+                  <table className="w-full table-fixed">
+                    <thead>
+                      <tr>
+                        <th className="w-40" />
+                        {pair.students.map((student, index) => {
+                          const keeps = index === targetIndex
+                          return (
+                            <th key={student.id} className="p-2 text-left align-top">
+                              <button
+                                type="button"
+                                onClick={() => chooseTarget(index as 0 | 1)}
+                                disabled={mergeMutation.isPending}
+                                className={`w-full flex items-center gap-3 p-3 rounded-xl border-2 transition-colors ${
+                                  keeps
+                                    ? 'border-emerald-500/60 bg-emerald-500/10'
+                                    : 'border-slate-700 hover:border-slate-500'
+                                }`}
+                              >
+                                <StudentAvatar student={student} />
+                                <span className="text-left">
+                                  <span className="block text-sm font-semibold text-slate-100">
+                                    {student.firstName} {student.lastName}
+                                  </span>
+                                  <span
+                                    className={`block text-xs font-medium ${keeps ? 'text-emerald-300' : 'text-slate-400'}`}
+                                  >
+                                    {keeps ? 'Keep this record' : 'Merge into the other'}
+                                  </span>
+                                </span>
+                              </button>
+                            </th>
+                          )
+                        })}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {STUDENT_MERGE_FIELDS.map(({ field, label }) => {
+                        const canPick = differing.some((d) => d.field === field)
+                        const fromSource = fieldsFromSource.includes(field)
+                        return (
+                          <tr key={field} className="border-t border-slate-700/30">
+                            <td className="p-2 text-sm font-medium text-slate-300">{label}</td>
+                            {pair.students.map((student) =>
+                              valueCell(
+                                student,
+                                field,
+                                student.id === source.id ? fromSource : !fromSource,
+                                canPick
+                              )
+                            )}
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="flex items-start gap-3 p-4 rounded-xl bg-amber-500/10 border border-amber-500/30">
+                  <AlertTriangle className="w-5 h-5 text-amber-400 flex-shrink-0" />
+                  <p className="text-sm text-amber-200">
+                    Enrollments, attendance, records and email history of{' '}
+                    <span className="font-semibold">{source.studentNumber}</span> move to{' '}
+                    <span className="font-semibold">{target.studentNumber}</span>, then{' '}
+                    {source.studentNumber} is deleted. This cannot be undone.
+                  </p>
+                </div>
+
+                {/* Actions */}
+                <div className="flex gap-3 pt-6 border-t border-slate-700/50">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={onClose}
+                    className="flex-1 h-12 rounded-xl bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+                    disabled={mergeMutation.isPending}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    type="button"
+                    onClick={handleMerge}
+                    className="flex-1 h-12 rounded-xl bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg border-0"
+                    disabled={mergeMutation.isPending}
+                  >
+                    {mergeMutation.isPending ? 'Merging...' : 'Merge Students'}
+                  </Button>
+                </div>
+              </div>
+            </motion.div>
+          </div>
+        </>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -0,0 +1,396 @@
+import { useEffect, useMemo, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { AlertTriangle, Calendar, FileText, Nfc, Search, X } from 'lucide-react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { addDays, format } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import CardReaderInput from '@/components/students/CardReaderInput'
+import { NfcCard, Student, isApiError } from '@/types'
+import { nfcCardService } from '@/services/nfc-card.service'
+import { studentService } from '@/services/student.service'
+import { useToast } from '@/store/toastStore'
+import { getErrorMessage } from '@/utils/errorHandling'
+
+export type NfcCardModalAction = 'assign' | 'return' | 'report-lost' | 'revoke' | 'replace'
+
+interface NfcCardActionModalProps {
+  action: NfcCardModalAction | null
+  card?: NfcCard // The card acted on; not used when assigning
+  onClose: () => void
+}
+
+const ACTIONS: {
+  [action in NfcCardModalAction]: { title: string; submit: string; reasonRequired?: boolean }
+} = {
+  assign: { title: 'Assign Card', submit: 'Assign Card' },
+  return: { title: 'Return Card', submit: 'Return to Spares' },
+  'report-lost': { title: 'Report Card Lost', submit: 'Report Lost' },
+  revoke: { title: 'Revoke Card', submit: 'Revoke Card', reasonRequired: true },
+  replace: { title: 'Replace Card', submit: 'Replace Card' },
+}
+
+const MAX_MATCHES = 6
+
+/**
+ * Assign a card to a student, or return, report lost, revoke or replace one.
+ * Lost and revoked cards are rejected by every reader from then on.
+ */
+export default function NfcCardActionModal({ action, card, onClose }: NfcCardActionModalProps) {
+  const [uid, setUid] = useState('')
+  const [reason, setReason] = useState('')
+  const [studentSearch, setStudentSearch] = useState('')
+  const [student, setStudent] = useState<Student | null>(null)
+  const [temporary, setTemporary] = useState(false)
+  const [temporaryUntil, setTemporaryUntil] = useState('')
+  const [errors, setErrors] = useState<{ [field: string]: string | undefined }>({})
+  const { addToast } = useToast()
+  const queryClient = useQueryClient()
+  const today = format(new Date(), 'yyyy-MM-dd')
+
+  useEffect(() => {
+    if (action) {
+      setUid('')
+      setReason('')
+      setStudentSearch('')
+      setStudent(null)
+      setTemporary(false)
+      setTemporaryUntil(today)
+      setErrors({})
+    }
+    // Reset only when the modal opens
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [action])
+
+  const { data: students = [] } = useQuery({
+    queryKey: ['students'],
+    queryFn: () => studentService.getAll(),
+    enabled: action === 'assign',
+  })
+
+  const matches = useMemo(() => {
+    const search = studentSearch.trim().toLowerCase()
+    if (!search) return []
+    return students
+      .filter((s) =>
+        [`${s.firstName} ${s.lastName}`, s.studentNumber].some((value) =>
+          value.toLowerCase().includes(search)
+        )
+      )
+      .slice(0, MAX_MATCHES)
+  }, [students, studentSearch])
+
+  const actionMutation = useMutation({
+    mutationFn: (): Promise<NfcCard> => {
+      switch (action) {
+        case 'assign':
+          return nfcCardService.assign({
+            uid,
+            studentId: student!.id,
+            temporaryUntil: temporary ? temporaryUntil : undefined,
+            reason,
+          })
+        case 'return':
+          return nfcCardService.returnCard(card!.id, reason)
+        case 'report-lost':
+          return nfcCardService.reportLost(card!.id, reason)
+        case 'revoke':
+          return nfcCardService.revoke(card!.id, reason)
+        default:
+          return nfcCardService.replace(card!.id, { uid, reason })
+      }
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['nfc-cards'] })
+      queryClient.invalidateQueries({ queryKey: ['students'] })
+      addToast(
+        action === 'assign' || action === 'replace'
+          ? `Card ${saved.uid} assigned to ${saved.student?.name ?? 'the student'}`
+          : `Card ${saved.uid} updated`,
+        'success'
+      )
+      onClose()
+    },
+    onError: (error) => {
+      if (isApiError(error) && error.errors) {
+        setErrors({
+          uid: error.errors.uid?.[0],
+          reason: error.errors.reason?.[0],
+          temporaryUntil: error.errors.temporaryUntil?.[0],
+        })
+      }
+      addToast(getErrorMessage(error), 'error')
+    },
+  })
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const newErrors: typeof errors = {}
+    if ((action === 'assign' || action === 'replace') && !uid) {
+      newErrors.uid = 'Tap the card on the reader'
+    }
+    if (action === 'assign' && !student) newErrors.student = 'Choose a student'
+    if (action && ACTIONS[action].reasonRequired && reason.trim().length < 3) {
+      newErrors.reason = 'Give a reason'
+    }
+    setErrors(newErrors)
+    if (Object.keys(newErrors).length === 0) actionMutation.mutate()
+  }
+
+  const fieldClass = (error?: string) =>
+    `rounded-xl border-2 bg-slate-900/50 text-slate-100 placeholder:text-slate-500 ${
+      error ? 'border-red-500 focus:border-red-600' : 'border-slate-600 focus:border-blue-500'
+    }`
+
+  const needsCard = action === 'assign' || action === 'replace'
+  const blocks = action === 'revoke' || action === 'report-lost'
+
+  return (
+    <AnimatePresence>
+      {action && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/70 backdrop-blur-md z-50"
+          />
+
+          {/* Modal */}
+          <div className="fixed inset-0 flex items-center justify-center z-50 p-4">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              transition={{ type: 'spring', duration: 0.5 }}
+              className="bg-slate-800/95 backdrop-blur-xl rounded-3xl shadow-enterprise-2xl border border-slate-700/50 w-full max-w-lg max-h-[90vh] overflow-y-auto thin-scrollbar"
+            >
+              {/* Header */}
+              <div className="sticky top-0 bg-gradient-to-r from-blue-600 via-indigo-600 to-purple-600 text-white p-6 rounded-t-3xl shadow-lg z-10 border-b border-blue-500/30">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <div className="bg-white/20 p-2 rounded-xl backdrop-blur-sm border border-white/30">
+                      <Nfc className="w-6 h-6" />
+                    </div>
+                    <div>
+                      <h2 className="text-2xl font-bold">{ACTIONS[action].title}</h2>
+                      {card && (
+                        <p className="text-blue-100 text-sm mt-1">
+                          <span className="font-mono">{card.uid}</span>
+                          {card.student ? ` · ${card.student.name}` : ''}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  <motion.button
+                    whileHover={{ scale: 1.1, rotate: 90 }}
+                    whileTap={{ scale: 0.9 }}
+                    onClick={onClose}
+                    className="p-2 hover:bg-white/20 rounded-xl transition-colors"
+                  >
+                    <X className="w-6 h-6" />
+                  </motion.button>
+                </div>
+              </div>
+
+              <form onSubmit={handleSubmit} className="p-8 space-y-5">
+                {action === 'assign' && (
+                  <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-2">
+                      <Search className="w-4 h-4 inline mr-1" />
+                      Student *
+                    </label>
+                    {student ? (
+                      <div className="flex items-center justify-between gap-3 p-3 rounded-xl bg-slate-900/50 border-2 border-slate-600">
+                        <div className="min-w-0">
+                          <p className="text-sm text-slate-100 truncate">
+                            {student.firstName} {student.lastName}
+                          </p>
+                          <p className="text-xs text-slate-400">
+                            {student.studentNumber}
+                            {student.nfcId ? ` · has card ${student.nfcId}` : ''}
+                          </p>
+                        </div>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setStudent(null)}
+                          className="text-slate-400 hover:text-white hover:bg-slate-700"
+                        >
+                          Change
+                        </Button>
+                      </div>
+                    ) : (
+                      <>
+                        <Input
+                          value={studentSearch}
+                          onChange={(e) => setStudentSearch(e.target.value)}
+                          placeholder="Name or student number"
+                          className={`h-12 ${fieldClass(errors.student)}`}
+                        />
+                        {matches.length > 0 && (
+                          <div className="mt-2 rounded-xl border border-slate-700 divide-y divide-slate-700/50 overflow-hidden">
+                            {matches.map((match) => (
+                              <button
+                                key={match.id}
+                                type="button"
+                                onClick={() => {
+                                  setStudent(match)
+                                  setErrors((prev) => ({ ...prev, student: undefined }))
+                                }}
+                                className="w-full text-left px-3 py-2 hover:bg-slate-700/50 transition-colors"
+                              >
+                                <p className="text-sm text-slate-100">
+                                  {match.firstName} {match.lastName}
+                                </p>
+                                <p className="text-xs text-slate-400">
+                                  {match.studentNumber}
+                                  {match.section ? ` · ${match.section}` : ''}
+                                  {match.nfcId ? ` · card ${match.nfcId}` : ''}
+                                </p>
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                      </>
+                    )}
+                    {errors.student && (
+                      <p className="text-red-400 text-sm mt-1">{errors.student}</p>
+                    )}
+                  </div>
+                )}
+
+                {needsCard && (
+                  <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-2">
+                      <Nfc className="w-4 h-4 inline mr-1" />
+                      {action === 'replace' ? 'New Card *' : 'Card *'}
+                    </label>
+                    {uid ? (
+                      <div className="flex items-center justify-between gap-3 p-3 rounded-xl bg-emerald-500/10 border-2 border-emerald-500/40">
+                        <span className="font-mono text-emerald-200">{uid}</span>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setUid('')}
+                          className="text-slate-400 hover:text-white hover:bg-slate-700"
+                        >
+                          Tap Again
+                        </Button>
+                      </div>
+                    ) : (
+                      <CardReaderInput
+                        autoFocus={action === 'replace'}
+                        onScan={(scanned) => {
+                          setUid(scanned)
+                          setErrors((prev) => ({ ...prev, uid: undefined }))
+                        }}
+                      />
+                    )}
+                    {errors.uid && <p className="text-red-400 text-sm mt-1">{errors.uid}</p>}
+                  </div>
+                )}
+
+                {action === 'assign' && (
+                  <div>
+                    <label className="flex items-center gap-2 text-sm text-slate-300">
+                      <input
+                        type="checkbox"
+                        checked={temporary}
+                        onChange={(e) => setTemporary(e.target.checked)}
+                        className="w-4 h-4 rounded border-slate-600 bg-slate-900 accent-blue-500"
+                      />
+                      Temporary card (e.g. a spare while theirs is missing)
+                    </label>
+                    {temporary && (
+                      <div className="mt-3">
+                        <label className="block text-sm font-medium text-slate-300 mb-2">
+                          <Calendar className="w-4 h-4 inline mr-1" />
+                          Until (last day) *
+                        </label>
+                        <Input
+                          type="date"
+                          value={temporaryUntil}
+                          min={today}
+                          max={format(addDays(new Date(), 90), 'yyyy-MM-dd')}
+                          onChange={(e) => setTemporaryUntil(e.target.value)}
+                          className={`h-12 ${fieldClass(errors.temporaryUntil)}`}
+                        />
+                        {errors.temporaryUntil && (
+                          <p className="text-red-400 text-sm mt-1">{errors.temporaryUntil}</p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">
+                    <FileText className="w-4 h-4 inline mr-1" />
+                    Reason{ACTIONS[action].reasonRequired ? ' *' : ''}
+                  </label>
+                  <textarea
+                    value={reason}
+                    onChange={(e) => {
+                      setReason(e.target.value)
+                      setErrors((prev) => ({ ...prev, reason: undefined }))
+                    }}
+                    rows={2}
+                    placeholder={
+                      action === 'replace'
+                        ? 'e.g., Card cracked'
+                        : action === 'revoke'
+                          ? 'e.g., Card used by someone else'
+                          : 'Optional note for the card history'
+                    }
+                    className={`w-full px-3 py-2 focus:outline-none resize-none ${fieldClass(errors.reason)}`}
+                  />
+                  {errors.reason && <p className="text-red-400 text-sm mt-1">{errors.reason}</p>}
+                </div>
+
+                {(blocks || (action === 'replace' && card?.status === 'active')) && (
+                  <div className="flex items-start gap-3 p-4 rounded-xl bg-amber-500/10 border border-amber-500/30">
+                    <AlertTriangle className="w-5 h-5 text-amber-400 flex-shrink-0" />
+                    <p className="text-sm text-amber-200">
+                      {action === 'replace'
+                        ? 'The old card will be revoked.'
+                        : 'Readers will reject this card from now on.'}
+                    </p>
+                  </div>
+                )}
+
+                {/* Actions */}
+                <div className="flex gap-3 pt-6 border-t border-slate-700/50">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={onClose}
+                    className="flex-1 h-12 rounded-xl bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+                    disabled={actionMutation.isPending}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    type="submit"
+                    className={`flex-1 h-12 rounded-xl shadow-lg border-0 ${
+                      blocks
+                        ? 'bg-gradient-to-r from-red-600 to-rose-600 hover:from-red-700 hover:to-rose-700'
+                        : 'bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700'
+                    }`}
+                    disabled={actionMutation.isPending}
+                  >
+                    {actionMutation.isPending ? 'Saving...' : ACTIONS[action].submit}
+                  </Button>
+                </div>
+              </form>
+            </motion.div>
+          </div>
+        </>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -0,0 +1,259 @@
+import { useState, useEffect } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { X, Building2, AtSign, Hash, Palette, Image } from 'lucide-react'
+import { useMutation } from '@tanstack/react-query'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { School, SchoolSettingsFormData, isApiError } from '@/types'
+import { schoolService } from '@/services/school.service'
+import { useSchoolStore } from '@/store/schoolStore'
+import { useToast } from '@/store/toastStore'
+import { validateSchoolSettings } from '@/utils/business-validation'
+import { getErrorMessage } from '@/utils/errorHandling'
+
+interface SchoolSettingsModalProps {
+  isOpen: boolean
+  onClose: () => void
+  school: School
+}
+
+type SettingsErrors = Partial<Record<keyof SchoolSettingsFormData, string>>
+
+function toFormData(school: School): SchoolSettingsFormData {
+  const { emailDomain, studentNumberPrefix, branding } = school.settings
+  return {
+    emailDomain: emailDomain ?? '',
+    studentNumberPrefix,
+    displayName: branding.displayName,
+    logoUrl: branding.logoUrl ?? '',
+    primaryColor: branding.primaryColor,
+  }
+}
+
+/**
+ * Edit the current school's email domain, student-number prefix and branding
+ */
+export default function SchoolSettingsModal({ isOpen, onClose, school }: SchoolSettingsModalProps) {
+  const [formData, setFormData] = useState<SchoolSettingsFormData>(() => toFormData(school))
+  const [errors, setErrors] = useState<SettingsErrors>({})
+  const updateSchool = useSchoolStore((s) => s.updateSchool)
+  const { addToast } = useToast()
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(toFormData(school))
+      setErrors({})
+    }
+  }, [isOpen, school])
+
+  const saveMutation = useMutation({
+    mutationFn: (data: SchoolSettingsFormData) => schoolService.updateSettings(school.id, data),
+    onSuccess: (updated) => {
+      updateSchool(updated)
+      addToast(`Settings saved for ${updated.name}`, 'success')
+      onClose()
+    },
+    onError: (error) => {
+      // Show the backend's field errors next to the matching inputs
+      if (isApiError(error) && error.errors) {
+        const fieldErrors: SettingsErrors = {}
+        Object.entries(error.errors).forEach(([field, messages]) => {
+          const key = (field.split('.').pop() ?? field) as keyof SchoolSettingsFormData
+          fieldErrors[key] = messages[0]
+        })
+        setErrors(fieldErrors)
+      }
+      addToast(getErrorMessage(error), 'error')
+    },
+  })
+
+  const handleChange = (field: keyof SchoolSettingsFormData, value: string) => {
+    setFormData((prev) => ({ ...prev, [field]: value }))
+    if (errors[field]) {
+      setErrors((prev) => ({ ...prev, [field]: undefined }))
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const validation = validateSchoolSettings(formData)
+    if (!validation.isValid) {
+      setErrors(validation.errors)
+      return
+    }
+    saveMutation.mutate(formData)
+  }
+
+  const fields: {
+    key: keyof SchoolSettingsFormData
+    label: string
+    icon: typeof Building2
+    placeholder: string
+    hint: string
+  }[] = [
+    {
+      key: 'displayName',
+      label: 'Display Name *',
+      icon: Building2,
+      placeholder: school.name,
+      hint: 'Shown in the sidebar and in email headers',
+    },
+    {
+      key: 'emailDomain',
+      label: 'Student Email Domain',
+      icon: AtSign,
+      placeholder: 'campus.edu',
+      hint: 'Leave empty to allow any email domain',
+    },
+    {
+      key: 'studentNumberPrefix',
+      label: 'Student Number Prefix *',
+      icon: Hash,
+      placeholder: '25',
+      hint: 'Two digits; new student numbers start with it (25-0001)',
+    },
+    {
+      key: 'logoUrl',
+      label: 'Logo URL',
+      icon: Image,
+      placeholder: 'https://campus.edu/logo.png',
+      hint: 'Optional; replaces the default logo mark',
+    },
+  ]
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/70 backdrop-blur-md z-50"
+          />
+
+          {/* Modal */}
+          <div className="fixed inset-0 flex items-center justify-center z-50 p-4">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              transition={{ type: 'spring', duration: 0.5 }}
+              className="bg-slate-800/95 backdrop-blur-xl rounded-3xl shadow-enterprise-2xl border border-slate-700/50 w-full max-w-lg max-h-[90vh] overflow-y-auto thin-scrollbar"
+            >
+              {/* Header */}
+              <div className="sticky top-0 bg-gradient-to-r from-blue-600 via-blue-700 to-indigo-700 text-white p-6 rounded-t-3xl shadow-lg z-10 border-b border-blue-500/30">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <div className="bg-white/20 p-2 rounded-xl backdrop-blur-sm border border-white/30">
+                      <Building2 className="w-6 h-6" />
+                    </div>
+                    <div>
+                      <h2 className="text-2xl font-bold">School Settings</h2>
+                      <p className="text-blue-100 text-sm mt-1">
+                        {school.name} ({school.code})
+                      </p>
+                    </div>
+                  </div>
+                  <motion.button
+                    whileHover={{ scale: 1.1, rotate: 90 }}
+                    whileTap={{ scale: 0.9 }}
+                    onClick={onClose}
+                    className="p-2 hover:bg-white/20 rounded-xl transition-colors"
+                  >
+                    <X className="w-6 h-6" />
+                  </motion.button>
+                </div>
+              </div>
+
+              {/* Form */}
+              <form onSubmit={handleSubmit} className="p-8 space-y-5">
+                {fields.map(({ key, label, icon: Icon, placeholder, hint }) => (
+                  <div key={key}>
+                    <label className="block text-sm font-medium text-slate-300 mb-2">
+                      <Icon className="w-4 h-4 inline mr-1" />
+                      {label}
+                    </label>
+                    <Input
+                      type="text"
+                      value={formData[key]}
+                      onChange={(e) => handleChange(key, e.target.value)}
+                      placeholder={placeholder}
+                      className={`h-12 rounded-xl border-2 bg-slate-900/50 text-slate-100 placeholder:text-slate-500 ${
+                        errors[key]
+                          ? 'border-red-500 focus:border-red-600'
+                          : 'border-slate-600 focus:border-blue-500'
+                      }`}
+                    />
+                    {errors[key] ? (
+                      <p className="text-red-400 text-sm mt-1">{errors[key]}</p>
+                    ) : (
+                      <p className="text-slate-500 text-xs mt-1">{hint}</p>
+                    )}
+                  </div>
+                ))}
+
+                {/* Brand color */}
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">
+                    <Palette className="w-4 h-4 inline mr-1" />
+                    Brand Color *
+                  </label>
+                  <div className="flex items-center gap-3">
+                    <input
+                      type="color"
+                      value={
+                        /^#[0-9a-f]{6}$/i.test(formData.primaryColor)
+                          ? formData.primaryColor
+                          : '#3b82f6'
+                      }
+                      onChange={(e) => handleChange('primaryColor', e.target.value)}
+                      className="h-12 w-14 rounded-xl border-2 border-slate-600 bg-slate-900/50 cursor-pointer"
+                      aria-label="Pick brand color"
+                    />
+                    <Input
+                      type="text"
+                      value={formData.primaryColor}
+                      onChange={(e) => handleChange('primaryColor', e.target.value)}
+                      placeholder="#3B82F6"
+                      className={`h-12 rounded-xl border-2 bg-slate-900/50 text-slate-100 placeholder:text-slate-500 ${
+                        errors.primaryColor
+                          ? 'border-red-500 focus:border-red-600'
+                          : 'border-slate-600 focus:border-blue-500'
+                      }`}
+                    />
+                  </div>
+                  {errors.primaryColor && (
+                    <p className="text-red-400 text-sm mt-1">{errors.primaryColor}</p>
+                  )}
+                </div>
+
+                {/* Actions */}
+                <div className="flex gap-3 pt-6 border-t border-slate-700/50">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={onClose}
+                    className="flex-1 h-12 rounded-xl bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+                    disabled={saveMutation.isPending}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    type="submit"
+                    className="flex-1 h-12 rounded-xl bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg border-0"
+                    disabled={saveMutation.isPending}
+                  >
+                    {saveMutation.isPending ? 'Saving...' : 'Save Settings'}
+                  </Button>
+                </div>
+              </form>
+            </motion.div>
+          </div>
+        </>
+      )}
+    </AnimatePresence>
+  )
+}
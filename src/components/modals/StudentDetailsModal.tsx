@@ -1,4 +1,4 @@
-import { useState, useMemo } from 'react'
+import { useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import {
   X,
@@ -13,13 +13,25 @@ import {
   AlertCircle,
   Users,
   ExternalLink,
+  History,
+  ArrowRight,
+  RefreshCw,
+  Bell,
+  BellOff,
 } from 'lucide-react'
 import { useQuery } from '@tanstack/react-query'
+import { format, parseISO } from 'date-fns'
 import { Student } from '@/types'
 import { studentService } from '@/services/student.service'
 import { subjectService } from '@/services/subject.service'
 import { CardSkeleton } from '@/components/ui/skeleton'
 import SubjectDetailsModal from '@/components/modals/SubjectDetailsModal'
+import StudentAvatar from '@/components/students/StudentAvatar'
+import ChangeStudentStatusModal from '@/components/modals/ChangeStudentStatusModal'
+import { useAuthStore } from '@/store/authStore'
+import { formatDateTime } from '@/lib/utils'
+import { relationshipLabel } from '@/utils/guardians'
+import { canManageStudents } from '@/utils/permissions'
 
 interface StudentDetailsModalProps {
   isOpen: boolean
@@ -44,8 +56,15 @@ export default function StudentDetailsModal({
   onClose,
   student,
 }: StudentDetailsModalProps) {
-  const [activeTab, setActiveTab] = useState<'profile' | 'enrollments' | 'attendance'>('profile')
+  const [activeTab, setActiveTab] = useState<'profile' | 'enrollments' | 'attendance' | 'history'>(
+    'profile'
+  )
   const [selectedSubjectId, setSelectedSubjectId] = useState<string | null>(null)
+  const [isStatusModalOpen, setIsStatusModalOpen] = useState(false)
+  // The student as returned by the last status change made here
+  const [changedStudent, setChangedStudent] = useState<Student | null>(null)
+  const { user } = useAuthStore()
+  const current = changedStudent?.id === student?.id ? changedStudent : student
 
   // Fetch student's enrollments from backend
   const { data: enrollments = [], isLoading: loadingEnrollments } = useQuery({
@@ -68,11 +87,12 @@ export default function StudentDetailsModal({
     enabled: isOpen && !!student && activeTab === 'attendance',
   })
 
-  // Get initials for avatar
-  const initials = useMemo(() => {
-    if (!student) return '??'
-    return `${student.firstName?.[0] || ''}${student.lastName?.[0] || ''}`.toUpperCase()
-  }, [student])
+  // Fetch recorded status changes
+  const { data: statusHistory = [], isLoading: loadingHistory } = useQuery({
+    queryKey: ['student-status-history', student?.id],
+    queryFn: () => studentService.getStatusHistory(student!.id),
+    enabled: isOpen && !!student && activeTab === 'history',
+  })
 
   // Get status badge color
   const getStatusColor = (status?: string) => {
@@ -85,12 +105,16 @@ export default function StudentDetailsModal({
         return 'bg-blue-500/20 text-blue-300 border-blue-500/30'
       case 'transferred':
         return 'bg-amber-500/20 text-amber-300 border-amber-500/30'
+      case 'suspended':
+        return 'bg-red-500/20 text-red-300 border-red-500/30'
+      case 'dropped':
+        return 'bg-rose-500/20 text-rose-300 border-rose-500/30'
       default:
         return 'bg-slate-500/20 text-slate-300 border-slate-500/30'
     }
   }
 
-  if (!student) return null
+  if (!student || !current) return null
 
   return (
     <>
@@ -115,13 +139,13 @@ export default function StudentDetailsModal({
               <div className="relative bg-gradient-to-r from-blue-600 via-indigo-600 to-purple-600 px-8 py-6 border-b border-blue-500/30">
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-4">
-                    {/* Avatar with initials */}
-                    <motion.div
-                      initial={{ scale: 0.8 }}
-                      animate={{ scale: 1 }}
-                      className="w-16 h-16 rounded-full bg-white/20 backdrop-blur-sm border-2 border-white/30 flex items-center justify-center"
-                    >
-                      <span className="text-2xl font-bold text-white">{initials}</span>
+                    {/* Photo, or initials when there is none */}
+                    <motion.div initial={{ scale: 0.8 }} animate={{ scale: 1 }}>
+                      <StudentAvatar
+                        student={student}
+                        className="w-16 h-16 border-2 border-white/30"
+                        fallbackClassName="bg-white/20 backdrop-blur-sm text-2xl text-white"
+                      />
                     </motion.div>
                     <div>
                       <h2 className="text-2xl font-bold text-white">
@@ -130,9 +154,9 @@ export default function StudentDetailsModal({
                       <div className="flex items-center gap-3 mt-1">
                         <span className="text-blue-100 text-sm">{student.studentNumber}</span>
                         <span
-                          className={`px-2 py-0.5 rounded-full text-xs font-medium border ${getStatusColor(student.status)}`}
+                          className={`px-2 py-0.5 rounded-full text-xs font-medium border ${getStatusColor(current.status)}`}
                         >
-                          {student.status || 'Active'}
+                          {current.status || 'Active'}
                         </span>
                       </div>
                     </div>
@@ -151,6 +175,7 @@ export default function StudentDetailsModal({
                     { id: 'profile', label: 'Profile', icon: User },
                     { id: 'enrollments', label: 'Enrollments', icon: BookOpen },
                     { id: 'attendance', label: 'Attendance', icon: Calendar },
+                    { id: 'history', label: 'Status History', icon: History },
                   ].map((tab) => (
                     <button
                       key={tab.id}
@@ -202,22 +227,50 @@ export default function StudentDetailsModal({
                     <div className="bg-slate-900/50 rounded-xl border border-slate-700/50 p-5">
                       <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
                         <Users className="w-5 h-5 text-purple-400" />
-                        Guardian Information
+                        Guardians
                       </h3>
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                        <div className="space-y-1">
-                          <label className="text-xs text-slate-400 uppercase tracking-wide">
-                            Guardian Name
-                          </label>
-                          <p className="text-slate-200">{student.guardianName || '-'}</p>
-                        </div>
-                        <div className="space-y-1">
-                          <label className="text-xs text-slate-400 uppercase tracking-wide">
-                            Guardian Email
-                          </label>
-                          <p className="text-slate-200">{student.guardianEmail || '-'}</p>
-                        </div>
-                      </div>
+                      {student.guardians && student.guardians.length > 0 ? (
+                        <ul className="space-y-3">
+                          {student.guardians.map(
+                            ({ guardian, relationship, receivesAttendanceAlerts }, index) => (
+                              <li
+                                key={guardian.id}
+                                className="flex items-start justify-between gap-3 p-3 rounded-lg bg-slate-800/50 border border-slate-700/50"
+                              >
+                                <div className="min-w-0">
+                                  <p className="text-slate-200 font-medium">
+                                    {guardian.name}
+                                    <span className="text-slate-400 font-normal">
+                                      {' '}
+                                      · {relationshipLabel(relationship)}
+                                      {index === 0 && ' · Primary'}
+                                    </span>
+                                  </p>
+                                  <p className="text-sm text-slate-400 truncate">
+                                    {[guardian.email, guardian.contact]
+                                      .filter(Boolean)
+                                      .join(' · ') || 'No contact details'}
+                                  </p>
+                                </div>
+                                <span
+                                  className={`flex items-center gap-1 text-xs whitespace-nowrap ${
+                                    receivesAttendanceAlerts ? 'text-emerald-300' : 'text-slate-500'
+                                  }`}
+                                >
+                                  {receivesAttendanceAlerts ? (
+                                    <Bell className="w-3.5 h-3.5" />
+                                  ) : (
+                                    <BellOff className="w-3.5 h-3.5" />
+                                  )}
+                                  {receivesAttendanceAlerts ? 'Alerts on' : 'Alerts off'}
+                                </span>
+                              </li>
+                            )
+                          )}
+                        </ul>
+                      ) : (
+                        <p className="text-slate-400">No guardians linked</p>
+                      )}
                     </div>
 
                     {/* Additional Details */}
@@ -237,7 +290,26 @@ export default function StudentDetailsModal({
                           <label className="text-xs text-slate-400 uppercase tracking-wide">
                             Status
                           </label>
-                          <p className="text-slate-200">{student.status || 'Active'}</p>
+                          <p className="text-slate-200">{current.status || 'Active'}</p>
+                        </div>
+                        <div className="space-y-1 md:col-span-2">
+                          <label className="text-xs text-slate-400 uppercase tracking-wide">
+                            Tags
+                          </label>
+                          {student.tags?.length ? (
+                            <div className="flex flex-wrap gap-2">
+                              {student.tags.map((tag) => (
+                                <span
+                                  key={tag}
+                                  className="px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-500/20 text-indigo-300 border border-indigo-500/30"
+                                >
+                                  {tag}
+                                </span>
+                              ))}
+                            </div>
+                          ) : (
+                            <p className="text-slate-200">-</p>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -413,10 +485,78 @@ export default function StudentDetailsModal({
                     )}
                   </motion.div>
                 )}
+
+                {activeTab === 'history' && (
+                  <motion.div
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="space-y-3"
+                  >
+                    {loadingHistory ? (
+                      <div className="space-y-3">
+                        <CardSkeleton />
+                        <CardSkeleton />
+                      </div>
+                    ) : statusHistory.length === 0 ? (
+                      <div className="text-center py-12">
+                        <History className="w-12 h-12 text-slate-600 mx-auto mb-4" />
+                        <h3 className="text-lg font-medium text-slate-300">No Status Changes</h3>
+                        <p className="text-sm text-slate-500 mt-2">
+                          This student has been {current.status || 'active'} since they were added.
+                        </p>
+                      </div>
+                    ) : (
+                      statusHistory.map((change) => (
+                        <div
+                          key={change.id}
+                          className="bg-slate-900/50 rounded-xl border border-slate-700/50 p-4"
+                        >
+                          <div className="flex items-center justify-between gap-3">
+                            <div className="flex items-center gap-2">
+                              <span
+                                className={`px-2 py-0.5 rounded-full text-xs font-medium border capitalize ${getStatusColor(change.fromStatus)}`}
+                              >
+                                {change.fromStatus}
+                              </span>
+                              <ArrowRight className="w-4 h-4 text-slate-500" />
+                              <span
+                                className={`px-2 py-0.5 rounded-full text-xs font-medium border capitalize ${getStatusColor(change.toStatus)}`}
+                              >
+                                {change.toStatus}
+                              </span>
+                            </div>
+                            <span className="text-sm text-slate-300">
+                              From {format(parseISO(change.effectiveDate), 'MMM d, yyyy')}
+                            </span>
+                          </div>
+                          <p className="text-slate-200 text-sm mt-3">{change.reason}</p>
+                          {change.unenrolledSubjects.length > 0 && (
+                            <p className="text-xs text-amber-300/80 mt-2">
+                              Removed from {change.unenrolledSubjects.join(', ')}
+                            </p>
+                          )}
+                          <p className="text-xs text-slate-500 mt-2">
+                            {change.changedBy ? `${change.changedBy.name} • ` : ''}
+                            Recorded {formatDateTime(change.createdAt)}
+                          </p>
+                        </div>
+                      ))
+                    )}
+                  </motion.div>
+                )}
               </div>
 
               {/* Footer */}
-              <div className="px-6 py-4 bg-slate-900/50 border-t border-slate-700/50 flex justify-end">
+              <div className="px-6 py-4 bg-slate-900/50 border-t border-slate-700/50 flex justify-end gap-3">
+                {canManageStudents(user?.role) && (
+                  <button
+                    onClick={() => setIsStatusModalOpen(true)}
+                    className="mr-auto flex items-center gap-2 px-5 py-2.5 bg-blue-600/20 hover:bg-blue-600/30 text-blue-300 border border-blue-500/30 rounded-xl transition-colors"
+                  >
+                    <RefreshCw className="w-4 h-4" />
+                    Change Status
+                  </button>
+                )}
                 <button
                   onClick={onClose}
                   className="px-6 py-2.5 bg-slate-700/50 hover:bg-slate-700 text-white rounded-xl transition-colors"
@@ -429,6 +569,13 @@ export default function StudentDetailsModal({
         )}
       </AnimatePresence>
 
+      <ChangeStudentStatusModal
+        isOpen={isStatusModalOpen}
+        onClose={() => setIsStatusModalOpen(false)}
+        student={current}
+        onChanged={setChangedStudent}
+      />
+
       {/* Subject Details Modal */}
       {selectedSubjectId && (
         <SubjectDetailsModal
@@ -1,20 +1,34 @@
 import { useState, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { X, User, Mail, Users as UsersIcon, Hash, Calendar, Phone, CreditCard } from 'lucide-react'
+import {
+  X,
+  User,
+  Mail,
+  Users as UsersIcon,
+  Hash,
+  Calendar,
+  Phone,
+  CreditCard,
+  Tag,
+} from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
-import { Student, StudentFormData, StudentStatus } from '@/types'
+import { Student, StudentFormData, StudentGuardian, StudentStatus } from '@/types'
 import {
   validators,
   sanitizers,
   VALIDATION_CONSTANTS,
   STUDENT_STATUS,
 } from '@/utils/validation-rules'
+import { validateSchoolDomainEmail } from '@/utils/business-validation'
+import { useCurrentSchool } from '@/store/schoolStore'
+import StudentPhotoField, { StudentPhotoChange } from '@/components/students/StudentPhotoField'
+import GuardianPicker from '@/components/students/GuardianPicker'
 
 interface StudentModalProps {
   isOpen: boolean
   onClose: () => void
-  onSubmit: (data: StudentFormData) => void
+  onSubmit: (data: StudentFormData, photo: StudentPhotoChange) => void
   student?: Student | null
   isLoading?: boolean
   generatedNumber?: string
@@ -37,15 +51,21 @@ export default function StudentModal({
     contact: '',
     status: 'active',
     section: '',
-    guardianName: '',
-    guardianEmail: '',
-    guardianContact: '',
     nfcId: '',
   })
 
   const [errors, setErrors] = useState<Partial<Record<keyof StudentFormData, string>>>({})
+  const [photo, setPhoto] = useState<StudentPhotoChange>()
+  // Comma-separated while editing; split into tags on submit
+  const [tagsText, setTagsText] = useState('')
+  const [guardians, setGuardians] = useState<StudentGuardian[]>([])
+  const schoolSettings = useCurrentSchool()?.settings
+  const schoolEmailDomain = schoolSettings?.emailDomain
 
   useEffect(() => {
+    setPhoto(undefined)
+    setTagsText(student?.tags?.join(', ') ?? '')
+    setGuardians(student?.guardians ?? [])
     if (student) {
       setFormData({
         studentNumber: student.studentNumber,
@@ -56,9 +76,6 @@ export default function StudentModal({
         contact: student.contact || '',
         status: student.status || 'active',
         section: student.section || '',
-        guardianName: student.guardianName || '',
-        guardianEmail: student.guardianEmail || '',
-        guardianContact: student.guardianContact || '',
         nfcId: student.nfcId || '',
       })
     } else if (generatedNumber) {
@@ -70,7 +87,10 @@ export default function StudentModal({
     const newErrors: Partial<Record<keyof StudentFormData, string>> = {}
 
     // Student Number validation using comprehensive validator
-    const studentNumberResult = validators.studentNumber(formData.studentNumber)
+    const studentNumberResult = validators.studentNumber(
+      formData.studentNumber,
+      schoolSettings?.studentNumberPrefix
+    )
     if (!studentNumberResult.isValid) {
       newErrors.studentNumber = studentNumberResult.error
     }
@@ -91,6 +111,12 @@ export default function StudentModal({
     const emailResult = validators.email(formData.email)
     if (!emailResult.isValid) {
       newErrors.email = emailResult.error
+    } else {
+      // Student emails must use the school's domain when one is configured
+      const domainResult = validateSchoolDomainEmail(formData.email, schoolEmailDomain)
+      if (!domainResult.isValid) {
+        newErrors.email = domainResult.error
+      }
     }
 
     // Birthdate validation (optional but if provided, validate)
@@ -117,30 +143,6 @@ export default function StudentModal({
       }
     }
 
-    // Guardian Name validation (optional but if provided, validate)
-    if (formData.guardianName && formData.guardianName.trim().length > 0) {
-      const guardianNameResult = validators.personName(formData.guardianName, 'Guardian name')
-      if (!guardianNameResult.isValid) {
-        newErrors.guardianName = guardianNameResult.error
-      }
-    }
-
-    // Guardian Email validation (optional but if provided, validate)
-    if (formData.guardianEmail && formData.guardianEmail.trim().length > 0) {
-      const guardianEmailResult = validators.email(formData.guardianEmail)
-      if (!guardianEmailResult.isValid) {
-        newErrors.guardianEmail = 'Guardian: ' + guardianEmailResult.error
-      }
-    }
-
-    // Guardian Contact validation (optional but if provided, validate)
-    if (formData.guardianContact && formData.guardianContact.trim().length > 0) {
-      const guardianContactResult = validators.contact(formData.guardianContact)
-      if (!guardianContactResult.isValid) {
-        newErrors.guardianContact = 'Guardian: ' + guardianContactResult.error
-      }
-    }
-
     // NFC ID validation (optional but if provided, validate)
     if (formData.nfcId && formData.nfcId.trim().length > 0) {
       const nfcResult = validators.nfcId(formData.nfcId)
@@ -149,6 +151,12 @@ export default function StudentModal({
       }
     }
 
+    // Tags validation
+    const tagsResult = validators.studentTags(sanitizers.tagList(tagsText))
+    if (!tagsResult.isValid) {
+      newErrors.tags = tagsResult.error
+    }
+
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
   }
@@ -156,7 +164,18 @@ export default function StudentModal({
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
     if (validateForm()) {
-      onSubmit(formData)
+      onSubmit(
+        {
+          ...formData,
+          tags: sanitizers.tagList(tagsText),
+          guardians: guardians.map(({ guardian, relationship, receivesAttendanceAlerts }) => ({
+            guardianId: guardian.id,
+            relationship,
+            receivesAttendanceAlerts,
+          })),
+        },
+        photo
+      )
     }
   }
 
@@ -177,12 +196,12 @@ export default function StudentModal({
       contact: '',
       status: 'active',
       section: '',
-      guardianName: '',
-      guardianEmail: '',
-      guardianContact: '',
       nfcId: '',
     })
     setErrors({})
+    setPhoto(undefined)
+    setTagsText('')
+    setGuardians([])
     onClose()
   }
 
@@ -244,6 +263,14 @@ export default function StudentModal({
 
               {/* Form */}
               <form onSubmit={handleSubmit} className="p-8 space-y-6">
+                {/* Photo */}
+                <StudentPhotoField
+                  student={{ ...formData, profilePhoto: student?.profilePhoto }}
+                  value={photo}
+                  onChange={setPhoto}
+                  disabled={isLoading}
+                />
+
                 {/* Student Number */}
                 <motion.div
                   initial={{ opacity: 0, x: -20 }}
@@ -350,7 +377,7 @@ export default function StudentModal({
                     type="email"
                     value={formData.email}
                     onChange={(e) => handleChange('email', e.target.value)}
-                    placeholder="john.doe@example.com"
+                    placeholder={`john.doe@${schoolEmailDomain ?? 'example.com'}`}
                     className={`h-12 rounded-xl border-2 bg-slate-900/50 text-slate-100 placeholder:text-slate-500 ${
                       errors.email
                         ? 'border-red-500 focus:border-red-600'
@@ -432,7 +459,8 @@ export default function StudentModal({
                     <select
                       value={formData.status || 'active'}
                       onChange={(e) => handleChange('status', e.target.value)}
-                      className="w-full h-12 rounded-xl border-2 bg-slate-900/50 text-slate-100 border-slate-600 focus:border-blue-500 px-3"
+                      disabled={!!student}
+                      className="w-full h-12 rounded-xl border-2 bg-slate-900/50 text-slate-100 border-slate-600 focus:border-blue-500 px-3 disabled:opacity-60"
                     >
                       <option value="active">Active</option>
                       <option value="inactive">Inactive</option>
@@ -441,6 +469,11 @@ export default function StudentModal({
                       <option value="suspended">Suspended</option>
                       <option value="dropped">Dropped</option>
                     </select>
+                    {student && (
+                      <p className="text-slate-500 text-xs mt-1">
+                        Use Change Status in the student's details to record a new status
+                      </p>
+                    )}
                   </div>
                 </div>
 
@@ -467,75 +500,35 @@ export default function StudentModal({
                   </p>
                 </div>
 
+                {/* Tags (Optional) */}
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-2">
+                    <Tag className="w-4 h-4 inline mr-1" />
+                    Tags (Optional)
+                  </label>
+                  <Input
+                    type="text"
+                    value={tagsText}
+                    onChange={(e) => {
+                      setTagsText(e.target.value)
+                      if (errors.tags) setErrors((prev) => ({ ...prev, tags: undefined }))
+                    }}
+                    placeholder="e.g., scholar, varsity team"
+                    className={`h-12 rounded-xl border-2 bg-slate-900/50 text-slate-100 placeholder:text-slate-500 ${
+                      errors.tags
+                        ? 'border-red-500 focus:border-red-600'
+                        : 'border-slate-600 focus:border-blue-500'
+                    }`}
+                  />
+                  {errors.tags && <p className="text-red-400 text-sm mt-1">{errors.tags}</p>}
+                  <p className="text-slate-500 text-xs mt-1">Separate tags with commas</p>
+                </div>
+
                 {/* Guardian Info */}
                 <div className="border-t border-slate-700/50 pt-6">
-                  <h3 className="text-lg font-semibold text-slate-200 mb-4">
-                    Guardian Information
-                  </h3>
-
-                  <div className="space-y-4">
-                    <div>
-                      <label className="block text-sm font-medium text-slate-300 mb-2">
-                        Guardian Name
-                      </label>
-                      <Input
-                        type="text"
-                        value={formData.guardianName}
-                        onChange={(e) => handleChange('guardianName', e.target.value)}
-                        placeholder="Jane Doe"
-                        className={`h-12 rounded-xl border-2 bg-slate-900/50 text-slate-100 placeholder:text-slate-500 ${
-                          errors.guardianName
-                            ? 'border-red-500 focus:border-red-600'
-                            : 'border-slate-600 focus:border-blue-500'
-                        }`}
-                      />
-                      {errors.guardianName && (
-                        <p className="text-red-400 text-sm mt-1">{errors.guardianName}</p>
-                      )}
-                    </div>
+                  <h3 className="text-lg font-semibold text-slate-200 mb-4">Guardians</h3>
 
-                    <div className="grid grid-cols-2 gap-4">
-                      <div>
-                        <label className="block text-sm font-medium text-slate-300 mb-2">
-                          Guardian Email
-                        </label>
-                        <Input
-                          type="email"
-                          value={formData.guardianEmail || ''}
-                          onChange={(e) => handleChange('guardianEmail', e.target.value)}
-                          placeholder="jane.doe@example.com"
-                          className={`h-12 rounded-xl border-2 bg-slate-900/50 text-slate-100 placeholder:text-slate-500 ${
-                            errors.guardianEmail
-                              ? 'border-red-500 focus:border-red-600'
-                              : 'border-slate-600 focus:border-blue-500'
-                          }`}
-                        />
-                        {errors.guardianEmail && (
-                          <p className="text-red-400 text-sm mt-1">{errors.guardianEmail}</p>
-                        )}
-                      </div>
-
-                      <div>
-                        <label className="block text-sm font-medium text-slate-300 mb-2">
-                          Guardian Contact
-                        </label>
-                        <Input
-                          type="tel"
-                          value={formData.guardianContact || ''}
-                          onChange={(e) => handleChange('guardianContact', e.target.value)}
-                          placeholder="+639123456789"
-                          className={`h-12 rounded-xl border-2 bg-slate-900/50 text-slate-100 placeholder:text-slate-500 ${
-                            errors.guardianContact
-                              ? 'border-red-500 focus:border-red-600'
-                              : 'border-slate-600 focus:border-blue-500'
-                          }`}
-                        />
-                        {errors.guardianContact && (
-                          <p className="text-red-400 text-sm mt-1">{errors.guardianContact}</p>
-                        )}
-                      </div>
-                    </div>
-                  </div>
+                  <GuardianPicker value={guardians} onChange={setGuardians} disabled={isLoading} />
                 </div>
 
                 {/* Actions */}
@@ -39,6 +39,8 @@ import {
   ChevronRight,
   Keyboard,
   Download,
+  CloudOff,
+  RefreshCw,
 } from 'lucide-react'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { useNavigate } from 'react-router-dom'
@@ -46,23 +48,33 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Checkbox } from '@/components/ui/checkbox'
+import StudentAvatar from '@/components/students/StudentAvatar'
 import { ConfirmationDialog } from '@/components/ui/confirmation-dialog'
 import ErrorBoundary from '@/components/ui/error-boundary'
+import EditAttendanceModal from '@/components/attendance/EditAttendanceModal'
+import LiveMarkIndicator from '@/components/attendance/LiveMarkIndicator'
+import CardTapPanel from '@/components/attendance/CardTapPanel'
 import { useToast } from '@/store/toastStore'
-import { Subject, AttendanceRecord } from '@/types'
+import { Subject, AttendanceRecord, OutboxEntry } from '@/types'
 import { SubjectScheduleSlot } from '@/types/subject.types'
 import { subjectEnrollmentService } from '@/services/subject-enrollment.service'
 import { subjectAttendanceService } from '@/services/subject-attendance.service'
 import { studentService } from '@/services/student.service'
 import { subjectService } from '@/services/subject.service'
+import { enhancedAttendanceService } from '@/services/enhanced-attendance.service'
+import { toPendingRecords } from '@/services/attendance-outbox.service'
 import { getEmailHistory, EmailHistoryRecord } from '@/services/email.service'
 import { cn } from '@/lib/utils'
 import { format } from 'date-fns'
 import * as XLSX from 'xlsx'
 
 import { attendanceMarkedFeedback, selectionFeedback } from '@/utils/feedbackUtils'
+import { canMarkAttendance, canMarkSubjectAttendance } from '@/utils/permissions'
+import { getErrorMessage } from '@/utils/errorHandling'
 
 import { useAuthStore } from '@/store/authStore'
+import { useOutboxStore } from '@/store/outboxStore'
+import { replayAttendanceOutbox } from '@/hooks/useAttendanceSync'
 import { recordService } from '@/services/record.service'
 
 interface SubjectDetailsModalProps {
@@ -133,12 +145,28 @@ function SubjectDetailsModal({ isOpen, onClose, subject }: SubjectDetailsModalPr
   // Selected schedule slot for attendance
   const [selectedScheduleSlot, setSelectedScheduleSlot] = useState<string | null>(null)
 
+  // Offline outbox conflict resolution
+  const [resolvingEntry, setResolvingEntry] = useState<OutboxEntry | null>(null)
+  const [conflictRecord, setConflictRecord] = useState<AttendanceRecord | null>(null)
+
   const { addToast } = useToast()
   const queryClient = useQueryClient()
 
   const navigate = useNavigate()
   const { user } = useAuthStore()
   const isRegistrar = user?.role === 'registrar'
+  // Only assigned instructors mark, unless the role may mark any subject
+  const canMarkHere = canMarkSubjectAttendance(user, subject)
+
+  const outboxEntries = useOutboxStore((s) => s.entries)
+  const isSyncingOutbox = useOutboxStore((s) => s.isSyncing)
+  const { updateEntry: updateOutboxEntry, removeEntry: removeOutboxEntry } = useOutboxStore()
+
+  // Marks for this subject still waiting in the offline outbox
+  const subjectOutbox = useMemo(
+    () => outboxEntries.filter((e) => subject && String(e.subjectId) === String(subject.id)),
+    [outboxEntries, subject]
+  )
 
   // --- Initialization & Data Normalization ---
 
@@ -211,7 +239,7 @@ function SubjectDetailsModal({ isOpen, onClose, subject }: SubjectDetailsModalPr
 
   const { data: allStudents = [], isLoading: loadingAllStudents } = useQuery({
     queryKey: ['students'],
-    queryFn: studentService.getAll,
+    queryFn: () => studentService.getAll(),
     enabled: isOpen && activeTab === 'students',
     staleTime: 0,
     refetchOnMount: true,
@@ -228,7 +256,7 @@ function SubjectDetailsModal({ isOpen, onClose, subject }: SubjectDetailsModalPr
   })
 
   // Ensure attendanceRecords is always an array (defensive programming)
-  const attendanceRecords = useMemo(() => {
+  const serverAttendanceRecords = useMemo(() => {
     if (!rawAttendanceRecords) return []
     if (Array.isArray(rawAttendanceRecords)) return rawAttendanceRecords
     // Handle case where API returns an object with records array
@@ -246,6 +274,22 @@ function SubjectDetailsModal({ isOpen, onClose, subject }: SubjectDetailsModalPr
     return []
   }, [rawAttendanceRecords])
 
+  // Overlay marks queued offline for this date so they show as "pending sync"
+  const attendanceRecords = useMemo(() => {
+    const pendingRecords = subjectOutbox
+      .filter((e) => e.status === 'pending' && e.date === selectedDate)
+      .flatMap(toPendingRecords)
+    if (pendingRecords.length === 0) return serverAttendanceRecords
+
+    const pendingIds = new Set(pendingRecords.map((r) => String(r.studentId)))
+    return [
+      ...serverAttendanceRecords.filter(
+        (r: AttendanceRecord) => !pendingIds.has(String(r.studentId))
+      ),
+      ...pendingRecords,
+    ]
+  }, [serverAttendanceRecords, subjectOutbox, selectedDate])
+
   // --- Computations ---
 
   const filteredAttendanceRecords = useMemo(() => {
@@ -262,24 +306,11 @@ function SubjectDetailsModal({ isOpen, onClose, subject }: SubjectDetailsModalPr
   }, [allStudents, validEnrolledStudents])
 
   // Build a map of studentId (as string) to attendance record for quick lookup
-  // The backend returns studentId as a string (MongoDB ObjectId), so we normalize all IDs to strings
+  // IDs may be numbers or MongoDB ObjectId strings, so key the map by string
   const attendanceStatusMap = useMemo(() => {
     const map = new Map<string, AttendanceRecord>()
-    // Defensive check - ensure we have an array before iterating
-    const records = Array.isArray(filteredAttendanceRecords) ? filteredAttendanceRecords : []
-    records.forEach((record: any) => {
-      if (!record) return // Skip null/undefined records
-      // Extract the studentId - could be a string, number, or nested in student object
-      const studentId = record.studentId
-        ? String(record.studentId)
-        : record.student?._id
-          ? String(record.student._id)
-          : record.student
-            ? String(record.student)
-            : null
-      if (studentId) {
-        map.set(studentId, record)
-      }
+    filteredAttendanceRecords.forEach((record) => {
+      map.set(String(record.studentId), record)
     })
     return map
   }, [filteredAttendanceRecords])
@@ -373,11 +404,11 @@ function SubjectDetailsModal({ isOpen, onClose, subject }: SubjectDetailsModalPr
     if (!isOpen || activeTab !== 'attendance') return
 
     const handleKeyDown = (e: KeyboardEvent) => {
-      // Don't trigger if typing in an input or if user is registrar
+      // Don't trigger if typing in an input or if the user cannot mark this subject
       if (
         e.target instanceof HTMLInputElement ||
         e.target instanceof HTMLTextAreaElement ||
-        isRegistrar
+        !canMarkHere
       )
         return
 
@@ -461,6 +492,7 @@ function SubjectDetailsModal({ isOpen, onClose, subject }: SubjectDetailsModalPr
     markingStudents,
     selectedScheduleSlot,
     onClose,
+    canMarkHere,
   ])
 
   // --- Email History (Overview Tab) ---
@@ -870,7 +902,14 @@ function SubjectDetailsModal({ isOpen, onClose, subject }: SubjectDetailsModalPr
         }
       )
 
-      addToast(`Marked ${variables.studentIds.length} students`, 'success')
+      if (responseData.some((r) => r.pendingSync)) {
+        addToast(
+          `Offline: ${variables.studentIds.length} marks saved and will sync when the connection returns`,
+          'info'
+        )
+      } else {
+        addToast(`Marked ${variables.studentIds.length} students`, 'success')
+      }
       setSelectedStudents(new Set())
       setMarkAllConfirm({ isOpen: false, status: null, scheduleSlot: null })
     },
@@ -990,6 +1029,50 @@ function SubjectDetailsModal({ isOpen, onClose, subject }: SubjectDetailsModalPr
     }
   }
 
+  // --- Offline Outbox Handlers ---
+
+  // Same path as AttendanceDropdown: load the existing server record and open the editor
+  const handleResolveConflict = async (entry: OutboxEntry) => {
+    try {
+      const existing = await enhancedAttendanceService.findExistingRecord(
+        entry.studentIds[0],
+        entry.subjectId,
+        entry.date
+      )
+      if (!existing) {
+        // Nothing on the server anymore, so the queued mark can simply be replayed
+        await updateOutboxEntry({ ...entry, status: 'pending', lastError: undefined })
+        replayAttendanceOutbox(queryClient)
+        return
+      }
+      setResolvingEntry(entry)
+      setConflictRecord(existing)
+    } catch (error) {
+      addToast(getErrorMessage(error, 'Failed to load the existing record'), 'error')
+    }
+  }
+
+  // Send a rejected mark again, e.g. after the student or subject was fixed
+  const handleRetryOutboxEntry = async (entry: OutboxEntry) => {
+    await updateOutboxEntry({ ...entry, status: 'pending', lastError: undefined })
+    replayAttendanceOutbox(queryClient)
+  }
+
+  const handleDiscardOutboxEntry = async (entry: OutboxEntry) => {
+    await removeOutboxEntry(entry.id)
+    addToast('Queued mark discarded', 'info')
+  }
+
+  const getOutboxStudentName = (entry: OutboxEntry) => {
+    if (entry.studentIds.length > 1) return `${entry.studentIds.length} students`
+    const enrolled = validEnrolledStudents.find(
+      (e) => String(e.studentId) === String(entry.studentIds[0])
+    )
+    return enrolled?.student
+      ? `${enrolled.student.firstName} ${enrolled.student.lastName}`
+      : String(entry.studentIds[0])
+  }
+
   // --- Handlers ---
 
   const handleMarkAll = (status: 'present' | 'absent' | 'late' | 'excused') => {
@@ -1388,7 +1471,7 @@ function SubjectDetailsModal({ isOpen, onClose, subject }: SubjectDetailsModalPr
                             const r = getRecipientDisplay(email)
                             return (
                               <div
-                                key={email._id}
+                                key={email.id}
                                 className="flex items-center gap-3 p-3 bg-slate-900/50 rounded-xl border border-slate-700/30 hover:border-orange-500/30 transition-colors"
                               >
                                 <div className="flex-shrink-0 w-8 h-8 rounded-full bg-orange-500/20 flex items-center justify-center">
@@ -1475,10 +1558,7 @@ function SubjectDetailsModal({ isOpen, onClose, subject }: SubjectDetailsModalPr
                                 className="flex items-center justify-between p-3 hover:bg-slate-800/50 rounded-xl transition-colors group"
                               >
                                 <div className="flex items-center gap-3">
-                                  <div className="w-9 h-9 rounded-full bg-slate-700 flex items-center justify-center text-xs font-bold text-slate-300">
-                                    {enrolled.student?.firstName?.[0]}
-                                    {enrolled.student?.lastName?.[0]}
-                                  </div>
+                                  <StudentAvatar student={enrolled.student ?? {}} />
                                   <div>
                                     <p className="text-sm font-medium text-slate-200">
                                       {enrolled.student?.firstName} {enrolled.student?.lastName}
@@ -1534,10 +1614,7 @@ function SubjectDetailsModal({ isOpen, onClose, subject }: SubjectDetailsModalPr
                                 className="flex items-center justify-between p-3 hover:bg-slate-800/50 rounded-xl transition-colors"
                               >
                                 <div className="flex items-center gap-3">
-                                  <div className="w-9 h-9 rounded-full bg-slate-700 flex items-center justify-center text-xs font-bold text-slate-300">
-                                    {student.firstName?.[0]}
-                                    {student.lastName?.[0]}
-                                  </div>
+                                  <StudentAvatar student={student} />
                                   <div>
                                     <p className="text-sm font-medium text-slate-200">
                                       {student.firstName} {student.lastName}
@@ -1636,6 +1713,106 @@ function SubjectDetailsModal({ isOpen, onClose, subject }: SubjectDetailsModalPr
                       </div>
                     </div>
 
+                    {!canMarkHere && canMarkAttendance(user?.role) && (
+                      <div className="flex items-start gap-3 p-4 rounded-xl bg-amber-500/10 border border-amber-500/30">
+                        <AlertCircle className="w-5 h-5 text-amber-400 flex-shrink-0 mt-0.5" />
+                        <p className="text-sm text-amber-200">
+                          Only this subject&apos;s assigned instructors can mark its attendance
+                          {subject.instructor ? ` (${subject.instructor})` : ''}. You can still view
+                          the records.
+                        </p>
+                      </div>
+                    )}
+
+                    {canMarkHere && schedules.length > 0 && selectedScheduleSlot && (
+                      <CardTapPanel
+                        subjectId={subject.id}
+                        date={selectedDate}
+                        scheduleSlot={selectedScheduleSlot}
+                      />
+                    )}
+
+                    {/* Offline Outbox */}
+                    {subjectOutbox.length > 0 && (
+                      <div className="bg-amber-500/5 border border-amber-500/20 rounded-2xl p-4 space-y-3">
+                        <div className="flex flex-wrap items-center justify-between gap-3">
+                          <div className="flex items-center gap-2 text-amber-200 text-sm font-medium">
+                            <CloudOff className="w-4 h-4 text-amber-400" />
+                            {subjectOutbox.filter((e) => e.status === 'pending').length} mark(s)
+                            pending sync
+                          </div>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => replayAttendanceOutbox(queryClient)}
+                            disabled={isSyncingOutbox || !navigator.onLine}
+                            className="border-amber-500/30 text-amber-300 hover:bg-amber-500/10"
+                          >
+                            <RefreshCw
+                              className={cn('w-4 h-4 mr-2', isSyncingOutbox && 'animate-spin')}
+                            />
+                            Sync now
+                          </Button>
+                        </div>
+                        {subjectOutbox
+                          .filter((e) => e.status !== 'pending')
+                          .map((entry) => (
+                            <div
+                              key={entry.id}
+                              className="flex flex-wrap items-center justify-between gap-3 p-3 rounded-xl bg-slate-900/50 border border-slate-700/50"
+                            >
+                              <div className="min-w-0">
+                                <p className="text-sm text-slate-200 truncate">
+                                  {getOutboxStudentName(entry)} — {entry.attendanceStatus} on{' '}
+                                  {entry.date}
+                                </p>
+                                <p
+                                  className={cn(
+                                    'text-xs',
+                                    entry.status === 'conflict' ? 'text-amber-400' : 'text-rose-400'
+                                  )}
+                                >
+                                  {entry.status === 'conflict'
+                                    ? 'Already marked on the server'
+                                    : entry.lastError || 'Rejected by the server'}
+                                </p>
+                              </div>
+                              <div className="flex gap-2">
+                                {entry.status === 'conflict' && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => handleResolveConflict(entry)}
+                                    className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                                  >
+                                    Resolve
+                                  </Button>
+                                )}
+                                {entry.status === 'failed' && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => handleRetryOutboxEntry(entry)}
+                                    disabled={isSyncingOutbox || !navigator.onLine}
+                                    className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                                  >
+                                    Retry
+                                  </Button>
+                                )}
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => handleDiscardOutboxEntry(entry)}
+                                  className="text-rose-400 hover:bg-rose-500/10 hover:text-rose-300"
+                                >
+                                  Discard
+                                </Button>
+                              </div>
+                            </div>
+                          ))}
+                      </div>
+                    )}
+
                     {/* Stats & Bulk Actions */}
                     {schedules.length > 0 && selectedScheduleSlot && (
                       <div className="flex flex-col gap-4">
@@ -1699,7 +1876,7 @@ function SubjectDetailsModal({ isOpen, onClose, subject }: SubjectDetailsModalPr
                             )}
                           </div>
 
-                          {!isRegistrar && (
+                          {canMarkHere && (
                             <div className="flex gap-2 w-full md:w-auto overflow-x-auto pb-1 md:pb-0">
                               {selectedStudents.size > 0 ? (
                                 <>
@@ -1941,12 +2118,13 @@ function SubjectDetailsModal({ isOpen, onClose, subject }: SubjectDetailsModalPr
                                     toggleStudentSelection(enrolled.studentId, !!c)
                                   }
                                   className="border-slate-500 data-[state=checked]:bg-indigo-600 data-[state=checked]:border-indigo-600"
-                                  disabled={isRegistrar}
+                                  disabled={!canMarkHere}
                                 />
+                                <StudentAvatar student={student} className="w-10 h-10" />
                                 <div className="flex-1 min-w-0">
                                   <p className="font-medium text-slate-200 truncate">
                                     {student.firstName} {student.lastName}
-                                    {isFocused && !isRegistrar && (
+                                    {isFocused && canMarkHere && (
                                       <span className="ml-2 text-xs text-indigo-400">
                                         (Press P/A/L/E)
                                       </span>
@@ -1956,6 +2134,23 @@ function SubjectDetailsModal({ isOpen, onClose, subject }: SubjectDetailsModalPr
                                 </div>
 
                                 <div className="flex items-center gap-2">
+                                  {record && !record.pendingSync && (
+                                    <LiveMarkIndicator
+                                      subjectId={subject.id}
+                                      date={selectedDate}
+                                      studentId={enrolled.studentId}
+                                      scheduleSlot={selectedScheduleSlot}
+                                    />
+                                  )}
+                                  {record?.pendingSync && (
+                                    <span
+                                      className="flex items-center gap-1 text-xs text-amber-400"
+                                      title="Saved offline, waiting to sync"
+                                    >
+                                      <CloudOff className="w-3 h-3" />
+                                      Pending sync
+                                    </span>
+                                  )}
                                   {status ? (
                                     <span
                                       className={cn(
@@ -1979,7 +2174,7 @@ function SubjectDetailsModal({ isOpen, onClose, subject }: SubjectDetailsModalPr
                                   )}
 
                                   {/* Quick Actions per row (only if not selected in bulk) */}
-                                  {selectedStudents.size === 0 && !isRegistrar && (
+                                  {selectedStudents.size === 0 && canMarkHere && (
                                     <div className="flex gap-1 ml-2">
                                       {isMarking ? (
                                         <Loader2 className="w-4 h-4 animate-spin text-indigo-400" />
@@ -2323,6 +2518,21 @@ function SubjectDetailsModal({ isOpen, onClose, subject }: SubjectDetailsModalPr
             variant="info"
             isLoading={bulkMarkMutation.isPending}
           />
+
+          {/* Resolve an offline mark that clashed with an existing server record */}
+          <EditAttendanceModal
+            isOpen={!!resolvingEntry && !!conflictRecord}
+            onClose={() => {
+              setResolvingEntry(null)
+              setConflictRecord(null)
+            }}
+            record={conflictRecord}
+            onUpdated={async () => {
+              if (resolvingEntry) await removeOutboxEntry(resolvingEntry.id)
+              refetchAttendance()
+              addToast('Attendance conflict resolved', 'success')
+            }}
+          />
         </>
       )}
     </AnimatePresence>
@@ -1,9 +1,14 @@
 import { useState, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { X, BookOpen, Hash, GraduationCap, Users, User, MapPin, FileText } from 'lucide-react'
+import { useQuery } from '@tanstack/react-query'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
+import InstructorPicker from '@/components/subjects/InstructorPicker'
+import { subjectService } from '@/services/subject.service'
+import { useAuthStore } from '@/store/authStore'
 import { Subject, SubjectFormData } from '@/types'
+import { canAssignInstructors } from '@/utils/permissions'
 import { validators, sanitizers, VALIDATION_CONSTANTS } from '@/utils/validation-rules'
 
 interface SubjectModalProps {
@@ -28,11 +33,19 @@ export default function SubjectModal({
     yearLevel: 1,
     capacity: undefined,
     description: '',
-    instructor: '',
+    instructorIds: [],
     room: '',
   })
 
   const [errors, setErrors] = useState<Partial<Record<keyof SubjectFormData, string>>>({})
+  const role = useAuthStore((s) => s.user?.role)
+  const userCanAssignInstructors = canAssignInstructors(role)
+
+  const { data: instructors = [] } = useQuery({
+    queryKey: ['subjects', 'instructors'],
+    queryFn: subjectService.getInstructors,
+    enabled: isOpen && userCanAssignInstructors,
+  })
 
   useEffect(() => {
     if (subject) {
@@ -43,7 +56,7 @@ export default function SubjectModal({
         yearLevel: subject.yearLevel,
         capacity: subject.capacity,
         description: subject.description || '',
-        instructor: subject.instructor || '',
+        instructorIds: subject.instructorIds ?? [],
         room: subject.room || '',
       })
     }
@@ -89,14 +102,6 @@ export default function SubjectModal({
       newErrors.description = 'Description must be 500 characters or less'
     }
 
-    // Instructor name validation (optional)
-    if (formData.instructor && formData.instructor.trim().length > 0) {
-      const instructorResult = validators.personName(formData.instructor, 'Instructor name')
-      if (!instructorResult.isValid) {
-        newErrors.instructor = instructorResult.error
-      }
-    }
-
     // Room validation (optional, alphanumeric)
     if (formData.room && formData.room.trim().length > 0) {
       if (formData.room.length > 50) {
@@ -133,7 +138,7 @@ export default function SubjectModal({
       yearLevel: 1,
       capacity: undefined,
       description: '',
-      instructor: '',
+      instructorIds: [],
       room: '',
     })
     setErrors({})
@@ -351,25 +356,25 @@ export default function SubjectModal({
                   </div>
                 </div>
 
-                {/* Instructor */}
+                {/* Instructors */}
                 <div>
                   <label className="block text-sm font-medium text-slate-300 mb-2">
                     <User className="w-4 h-4 inline mr-1" />
-                    Instructor (Optional)
+                    Instructors (Optional)
                   </label>
-                  <Input
-                    type="text"
-                    value={formData.instructor || ''}
-                    onChange={(e) => handleChange('instructor', e.target.value)}
-                    placeholder="e.g., Dr. John Smith"
-                    className={`h-12 rounded-xl border-2 bg-slate-900/50 text-slate-100 placeholder:text-slate-500 ${
-                      errors.instructor
-                        ? 'border-red-500 focus:border-red-600'
-                        : 'border-slate-600 focus:border-purple-500'
-                    }`}
-                  />
-                  {errors.instructor && (
-                    <p className="text-red-400 text-sm mt-1">{errors.instructor}</p>
+                  {userCanAssignInstructors ? (
+                    <InstructorPicker
+                      instructors={instructors}
+                      value={formData.instructorIds ?? []}
+                      onChange={(instructorIds) =>
+                        setFormData((prev) => ({ ...prev, instructorIds }))
+                      }
+                      disabled={isLoading}
+                    />
+                  ) : (
+                    <p className="text-sm text-slate-400">
+                      {subject?.instructor || 'No instructors assigned'}
+                    </p>
                   )}
                 </div>
 
@@ -0,0 +1,347 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { CheckCircle, ChevronRight, Nfc, RotateCcw, SkipForward, Users, X } from 'lucide-react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Button } from '@/components/ui/button'
+import CardReaderInput, { CardReaderInputHandle } from '@/components/students/CardReaderInput'
+import StudentAvatar from '@/components/students/StudentAvatar'
+import { NfcCard, Student } from '@/types'
+import { nfcCardService } from '@/services/nfc-card.service'
+import { studentService } from '@/services/student.service'
+import { useToast } from '@/store/toastStore'
+import { errorFeedback, playSuccessSound } from '@/utils/feedbackUtils'
+import { getErrorMessage } from '@/utils/errorHandling'
+
+interface TapToAssignModalProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+// What happened at each student of the roster
+type RosterResult = { card: NfcCard } | { error: string } | { skipped: true }
+
+const byName = (a: Student, b: Student) =>
+  a.lastName.localeCompare(b.lastName) || a.firstName.localeCompare(b.firstName)
+
+/**
+ * Walk a class roster and hand out cards in order: each card tapped on the
+ * reader goes to the highlighted student, then the next student without a
+ * card is highlighted. A rejected card stays on the same student.
+ */
+export default function TapToAssignModal({ isOpen, onClose }: TapToAssignModalProps) {
+  const [section, setSection] = useState('')
+  const [roster, setRoster] = useState<Student[] | null>(null)
+  const [index, setIndex] = useState(0)
+  const [results, setResults] = useState<{ [studentId: number]: RosterResult }>({})
+  const readerRef = useRef<CardReaderInputHandle>(null)
+  const { addToast } = useToast()
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    if (isOpen) {
+      setRoster(null)
+      setIndex(0)
+      setResults({})
+    }
+  }, [isOpen])
+
+  const { data: sections = [] } = useQuery({
+    queryKey: ['students', 'sections'],
+    queryFn: studentService.getSections,
+    enabled: isOpen,
+  })
+
+  const { data: students = [], isLoading } = useQuery({
+    queryKey: ['students'],
+    queryFn: () => studentService.getAll(),
+    enabled: isOpen,
+  })
+
+  const inSection = useMemo(
+    () =>
+      students
+        .filter((s) => (s.status ?? 'active') === 'active' && (s.section ?? '') === section)
+        .sort(byName),
+    [students, section]
+  )
+  const withoutCard = inSection.filter((s) => !s.nfcId)
+
+  const current = roster?.[index]
+  const finished = roster !== null && index >= roster.length
+  const assigned = Object.values(results).filter((r) => 'card' in r).length
+
+  // Next student after `from` who still needs a card
+  const nextIndex = (from: number, latest = results) => {
+    if (!roster) return 0
+    let next = from + 1
+    while (next < roster.length && 'card' in (latest[roster[next].id] ?? {})) next++
+    return next
+  }
+
+  const assignMutation = useMutation({
+    mutationFn: ({ student, uid }: { student: Student; uid: string }) =>
+      nfcCardService.assign({ uid, studentId: student.id, reason: 'Tap to assign' }),
+    onSuccess: (card, { student }) => {
+      playSuccessSound()
+      const latest = { ...results, [student.id]: { card } }
+      setResults(latest)
+      setIndex(nextIndex(index, latest))
+      queryClient.invalidateQueries({ queryKey: ['nfc-cards'] })
+    },
+    onError: (error, { student }) => {
+      errorFeedback()
+      setResults((prev) => ({ ...prev, [student.id]: { error: getErrorMessage(error) } }))
+    },
+  })
+
+  const undoMutation = useMutation({
+    mutationFn: ({ card }: { card: NfcCard; position: number }) =>
+      nfcCardService.returnCard(card.id, 'Undone during tap to assign'),
+    onSuccess: (card, { position }) => {
+      const student = roster![position]
+      setResults((prev) => {
+        const { [student.id]: _undone, ...rest } = prev
+        return rest
+      })
+      setIndex(position)
+      addToast(`Card ${card.uid} returned to the spares`, 'info')
+      queryClient.invalidateQueries({ queryKey: ['nfc-cards'] })
+      readerRef.current?.focus()
+    },
+    onError: (error) => addToast(getErrorMessage(error), 'error'),
+  })
+
+  const handleScan = (uid: string) => {
+    if (!current || assignMutation.isPending) return
+    assignMutation.mutate({ student: current, uid })
+  }
+
+  const handleSkip = () => {
+    if (!current) return
+    const latest = { ...results, [current.id]: { skipped: true as const } }
+    setResults(latest)
+    setIndex(nextIndex(index, latest))
+    readerRef.current?.focus()
+  }
+
+  const handleClose = () => {
+    if (assigned > 0) {
+      queryClient.invalidateQueries({ queryKey: ['students'] })
+    }
+    onClose()
+  }
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={handleClose}
+            className="fixed inset-0 bg-black/70 backdrop-blur-md z-50"
+          />
+
+          {/* Modal */}
+          <div className="fixed inset-0 flex items-center justify-center z-50 p-4">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              transition={{ type: 'spring', duration: 0.5 }}
+              className="bg-slate-800/95 backdrop-blur-xl rounded-3xl shadow-enterprise-2xl border border-slate-700/50 w-full max-w-2xl max-h-[90vh] flex flex-col"
+            >
+              {/* Header */}
+              <div className="bg-gradient-to-r from-blue-600 via-indigo-600 to-purple-600 text-white p-6 rounded-t-3xl shadow-lg border-b border-blue-500/30">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <div className="bg-white/20 p-2 rounded-xl backdrop-blur-sm border border-white/30">
+                      <Nfc className="w-6 h-6" />
+                    </div>
+                    <div>
+                      <h2 className="text-2xl font-bold">Tap to Assign</h2>
+                      <p className="text-blue-100 text-sm mt-1">
+                        {roster
+                          ? `${section || 'No section'} · ${assigned} of ${roster.length} assigned`
+                          : 'Hand out cards to a class in roster order'}
+                      </p>
+                    </div>
+                  </div>
+                  <motion.button
+                    whileHover={{ scale: 1.1, rotate: 90 }}
+                    whileTap={{ scale: 0.9 }}
+                    onClick={handleClose}
+                    className="p-2 hover:bg-white/20 rounded-xl transition-colors"
+                  >
+                    <X className="w-6 h-6" />
+                  </motion.button>
+                </div>
+              </div>
+
+              {!roster ? (
+                <div className="p-8 space-y-5">
+                  <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-2">
+                      <Users className="w-4 h-4 inline mr-1" />
+                      Class
+                    </label>
+                    <select
+                      value={section}
+                      onChange={(e) => setSection(e.target.value)}
+                      className="w-full h-12 px-3 rounded-xl border-2 bg-slate-900/50 text-slate-100 border-slate-600 focus:border-blue-500 focus:outline-none"
+                    >
+                      <option value="">Choose a section</option>
+                      {sections.map((name) => (
+                        <option key={name} value={name}>
+                          {name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  {section && (
+                    <p className="text-sm text-slate-400">
+                      {isLoading
+                        ? 'Loading the roster...'
+                        : `${inSection.length} active student(s); ${withoutCard.length} without a card. Students who already have a card are left out - replace theirs from the registry.`}
+                    </p>
+                  )}
+                  <div className="flex gap-3 pt-6 border-t border-slate-700/50">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={handleClose}
+                      className="flex-1 h-12 rounded-xl bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      type="button"
+                      onClick={() => setRoster(withoutCard)}
+                      disabled={!section || withoutCard.length === 0}
+                      className="flex-1 h-12 rounded-xl bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg border-0"
+                    >
+                      Start
+                      <ChevronRight className="w-4 h-4 ml-1" />
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <div className="p-6 space-y-3 border-b border-slate-700/50">
+                    {finished ? (
+                      <div className="flex items-center gap-3 p-4 rounded-xl bg-emerald-500/10 border border-emerald-500/30">
+                        <CheckCircle className="w-5 h-5 text-emerald-400" />
+                        <p className="text-sm text-emerald-200">
+                          End of the roster: {assigned} card(s) assigned.
+                        </p>
+                      </div>
+                    ) : (
+                      current && (
+                        <>
+                          <div className="flex items-center gap-3">
+                            <StudentAvatar student={current} />
+                            <div className="flex-1 min-w-0">
+                              <p className="text-lg font-semibold text-slate-100 truncate">
+                                {current.firstName} {current.lastName}
+                              </p>
+                              <p className="text-xs text-slate-400">{current.studentNumber}</p>
+                            </div>
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              onClick={handleSkip}
+                              disabled={assignMutation.isPending}
+                              className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                            >
+                              <SkipForward className="w-4 h-4 mr-1" />
+                              Skip
+                            </Button>
+                          </div>
+                          <CardReaderInput
+                            ref={readerRef}
+                            autoFocus
+                            onScan={handleScan}
+                            label={`Ready - tap the card for ${current.firstName}`}
+                          />
+                        </>
+                      )
+                    )}
+                  </div>
+
+                  {/* Roster */}
+                  <div className="flex-1 overflow-y-auto thin-scrollbar p-4 space-y-1">
+                    {roster.map((student, position) => {
+                      const result = results[student.id]
+                      return (
+                        <div
+                          key={student.id}
+                          onClick={() => {
+                            if (result && 'card' in result) return
+                            setIndex(position)
+                            readerRef.current?.focus()
+                          }}
+                          className={`flex items-center gap-3 px-3 py-2 rounded-lg cursor-pointer ${
+                            position === index
+                              ? 'bg-blue-500/15 border border-blue-500/40'
+                              : 'border border-transparent hover:bg-slate-700/30'
+                          }`}
+                        >
+                          <span className="w-6 text-xs text-slate-500 text-right">
+                            {position + 1}
+                          </span>
+                          <span className="flex-1 text-sm text-slate-200 truncate">
+                            {student.lastName}, {student.firstName}
+                          </span>
+                          {result && 'card' in result && (
+                            <>
+                              <span className="font-mono text-xs text-emerald-300">
+                                {result.card.uid}
+                              </span>
+                              <button
+                                type="button"
+                                onClick={(e) => {
+                                  e.stopPropagation()
+                                  undoMutation.mutate({ card: result.card, position })
+                                }}
+                                disabled={undoMutation.isPending}
+                                className="p-1 text-slate-500 hover:text-white"
+                                title="Undo: return the card to the spares"
+                              >
+                                <RotateCcw className="w-3.5 h-3.5" />
+                              </button>
+                            </>
+                          )}
+                          {result && 'error' in result && (
+                            <span className="text-xs text-red-400 truncate max-w-[50%]">
+                              {result.error}
+                            </span>
+                          )}
+                          {result && 'skipped' in result && (
+                            <span className="text-xs text-slate-500">Skipped</span>
+                          )}
+                        </div>
+                      )
+                    })}
+                  </div>
+
+                  <div className="p-4 border-t border-slate-700/50 flex justify-end">
+                    <Button
+                      type="button"
+                      onClick={handleClose}
+                      className="h-11 rounded-xl bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg border-0"
+                    >
+                      Done
+                    </Button>
+                  </div>
+                </>
+              )}
+            </motion.div>
+          </div>
+        </>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -0,0 +1,233 @@
+import { useState, useEffect, FormEvent } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { X, ShieldCheck, KeyRound } from 'lucide-react'
+import { useMutation } from '@tanstack/react-query'
+import QRCode from 'qrcode'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import RecoveryCodesPanel from '@/components/settings/RecoveryCodesPanel'
+import { twoFactorService } from '@/services/two-factor.service'
+import { useToast } from '@/store/toastStore'
+import { getErrorMessage } from '@/utils/errorHandling'
+import { validators } from '@/utils/validation-rules'
+
+interface TwoFactorSetupModalProps {
+  isOpen: boolean
+  onClose: () => void
+  /** Called once the code is confirmed and two-factor is on */
+  onEnabled: () => void
+}
+
+/**
+ * Enrol an authenticator app: scan the QR code (or type the secret), confirm
+ * with a code, then save the recovery codes
+ */
+export default function TwoFactorSetupModal({
+  isOpen,
+  onClose,
+  onEnabled,
+}: TwoFactorSetupModalProps) {
+  const { addToast } = useToast()
+  const [qrDataUrl, setQrDataUrl] = useState<string>()
+  const [code, setCode] = useState('')
+  const [error, setError] = useState<string>()
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>()
+
+  const setupMutation = useMutation({
+    mutationFn: twoFactorService.startSetup,
+    onSuccess: async (setup) => {
+      try {
+        setQrDataUrl(await QRCode.toDataURL(setup.otpauthUrl, { width: 200, margin: 1 }))
+      } catch {
+        setQrDataUrl(undefined)
+      }
+    },
+    onError: (err) => {
+      addToast(getErrorMessage(err), 'error')
+      onClose()
+    },
+  })
+
+  const confirmMutation = useMutation({
+    mutationFn: twoFactorService.confirmSetup,
+    onSuccess: (result) => {
+      setRecoveryCodes(result.recoveryCodes)
+      onEnabled()
+      addToast('Two-factor authentication is on', 'success')
+    },
+    onError: (err) => {
+      setCode('')
+      setError(getErrorMessage(err))
+    },
+  })
+
+  // Each time the modal opens, start over with a new pending secret
+  const { mutate: startSetup, reset: resetSetup } = setupMutation
+  useEffect(() => {
+    if (isOpen) {
+      setCode('')
+      setError(undefined)
+      setRecoveryCodes(undefined)
+      setQrDataUrl(undefined)
+      resetSetup()
+      startSetup()
+    }
+  }, [isOpen, startSetup, resetSetup])
+
+  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    const result = validators.otp(code)
+    if (!result.isValid) {
+      setError(result.error)
+      return
+    }
+    setError(undefined)
+    confirmMutation.mutate(code)
+  }
+
+  const setup = setupMutation.data
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={recoveryCodes ? undefined : onClose}
+            className="fixed inset-0 bg-black/70 backdrop-blur-md z-50"
+          />
+
+          {/* Modal */}
+          <div className="fixed inset-0 flex items-center justify-center z-50 p-4">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              transition={{ type: 'spring', duration: 0.5 }}
+              className="bg-slate-800/95 backdrop-blur-xl rounded-3xl shadow-enterprise-2xl border border-slate-700/50 w-full max-w-lg max-h-[90vh] overflow-y-auto thin-scrollbar"
+            >
+              {/* Header */}
+              <div className="sticky top-0 bg-gradient-to-r from-blue-600 via-blue-700 to-indigo-700 text-white p-6 rounded-t-3xl shadow-lg z-10 border-b border-blue-500/30">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <div className="bg-white/20 p-2 rounded-xl backdrop-blur-sm border border-white/30">
+                      <ShieldCheck className="w-6 h-6" />
+                    </div>
+                    <div>
+                      <h2 className="text-2xl font-bold">Two-Factor Authentication</h2>
+                      <p className="text-blue-100 text-sm mt-1">
+                        {recoveryCodes
+                          ? 'Save your recovery codes'
+                          : 'Set up your authenticator app'}
+                      </p>
+                    </div>
+                  </div>
+                  <motion.button
+                    whileHover={{ scale: 1.1, rotate: 90 }}
+                    whileTap={{ scale: 0.9 }}
+                    onClick={onClose}
+                    className="p-2 hover:bg-white/20 rounded-xl transition-colors"
+                  >
+                    <X className="w-6 h-6" />
+                  </motion.button>
+                </div>
+              </div>
+
+              {recoveryCodes ? (
+                <div className="p-8 space-y-6">
+                  <RecoveryCodesPanel codes={recoveryCodes} />
+                  <Button
+                    type="button"
+                    onClick={onClose}
+                    className="w-full h-12 rounded-xl bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg border-0"
+                  >
+                    I have saved my codes
+                  </Button>
+                </div>
+              ) : (
+                <form onSubmit={handleSubmit} className="p-8 space-y-6">
+                  <ol className="text-sm text-slate-300 space-y-1 list-decimal list-inside">
+                    <li>Scan the QR code with Google Authenticator, 1Password or similar.</li>
+                    <li>Enter the 6-digit code the app shows to finish.</li>
+                  </ol>
+
+                  <div className="flex flex-col items-center gap-3">
+                    {qrDataUrl ? (
+                      <img
+                        src={qrDataUrl}
+                        alt="Authenticator QR code"
+                        className="w-48 h-48 rounded-xl bg-white p-2"
+                      />
+                    ) : (
+                      <div className="w-48 h-48 rounded-xl bg-slate-900/60 border border-slate-700 animate-pulse" />
+                    )}
+                    {setup && (
+                      <div className="text-center">
+                        <p className="text-xs text-slate-500">Can't scan? Enter this key:</p>
+                        <code className="text-sm text-slate-200 font-mono break-all select-all">
+                          {setup.secret}
+                        </code>
+                      </div>
+                    )}
+                  </div>
+
+                  <div>
+                    <label
+                      htmlFor="setupCode"
+                      className="block text-sm font-medium text-slate-300 mb-2"
+                    >
+                      <KeyRound className="w-4 h-4 inline mr-1" />
+                      Verification Code
+                    </label>
+                    <Input
+                      id="setupCode"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      maxLength={6}
+                      placeholder="123456"
+                      value={code}
+                      onChange={(e) => {
+                        setCode(e.target.value.replace(/\D/g, ''))
+                        if (error) setError(undefined)
+                      }}
+                      disabled={!setup || confirmMutation.isPending}
+                      className={`h-12 rounded-xl border-2 bg-slate-900/50 text-slate-100 placeholder:text-slate-500 text-center text-lg tracking-[0.4em] font-mono ${
+                        error
+                          ? 'border-red-500 focus:border-red-600'
+                          : 'border-slate-600 focus:border-blue-500'
+                      }`}
+                    />
+                    {error && <p className="text-red-400 text-sm mt-1">{error}</p>}
+                  </div>
+
+                  {/* Actions */}
+                  <div className="flex gap-3 pt-6 border-t border-slate-700/50">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={onClose}
+                      className="flex-1 h-12 rounded-xl bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+                      disabled={confirmMutation.isPending}
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      type="submit"
+                      className="flex-1 h-12 rounded-xl bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg border-0"
+                      disabled={!setup || confirmMutation.isPending}
+                    >
+                      {confirmMutation.isPending ? 'Verifying...' : 'Turn On'}
+                    </Button>
+                  </div>
+                </form>
+              )}
+            </motion.div>
+          </div>
+        </>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -0,0 +1,148 @@
+import { useEffect, useState, FormEvent } from 'react'
+import { useMutation } from '@tanstack/react-query'
+import { Mail, Save, User as UserIcon } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { authService } from '@/services/auth.service'
+import { useAuthStore } from '@/store/authStore'
+import { useToast } from '@/store/toastStore'
+import { ProfileFormData, isApiError } from '@/types'
+import { getErrorMessage } from '@/utils/errorHandling'
+import { validateName } from '@/utils/validation'
+import { validators } from '@/utils/validation-rules'
+import { getRoleDisplayName } from '@/utils/permissions'
+
+type ProfileErrors = Partial<Record<keyof ProfileFormData, string>>
+
+/**
+ * Edit the signed-in user's name and email
+ */
+export default function ProfileSettingsTab() {
+  const { user, updateUser } = useAuthStore()
+  const { addToast } = useToast()
+  const [formData, setFormData] = useState<ProfileFormData>({
+    name: user?.name ?? '',
+    email: user?.email ?? '',
+  })
+  const [errors, setErrors] = useState<ProfileErrors>({})
+
+  // Follow edits made in another tab
+  useEffect(() => {
+    setFormData({ name: user?.name ?? '', email: user?.email ?? '' })
+  }, [user?.name, user?.email])
+
+  const saveMutation = useMutation({
+    mutationFn: (data: Partial<ProfileFormData>) => authService.updateProfile(data),
+    onSuccess: (updated) => {
+      updateUser(updated)
+      addToast('Profile updated', 'success')
+    },
+    onError: (error) => {
+      if (isApiError(error) && error.errors) {
+        const fieldErrors: ProfileErrors = {}
+        Object.entries(error.errors).forEach(([field, messages]) => {
+          if (field === 'name' || field === 'email') fieldErrors[field] = messages[0]
+        })
+        setErrors(fieldErrors)
+      }
+      addToast(getErrorMessage(error), 'error')
+    },
+  })
+
+  const changes: Partial<ProfileFormData> = {}
+  if (formData.name.trim() !== user?.name) changes.name = formData.name
+  if (formData.email.trim().toLowerCase() !== user?.email.toLowerCase()) {
+    changes.email = formData.email
+  }
+  const hasChanges = Object.keys(changes).length > 0
+
+  const handleChange = (field: keyof ProfileFormData, value: string) => {
+    setFormData((prev) => ({ ...prev, [field]: value }))
+    if (errors[field]) setErrors((prev) => ({ ...prev, [field]: undefined }))
+  }
+
+  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    const newErrors: ProfileErrors = {}
+
+    const nameResult = validateName(formData.name)
+    if (!nameResult.isValid) newErrors.name = nameResult.error
+
+    const emailResult = validators.email(formData.email)
+    if (!emailResult.isValid) newErrors.email = emailResult.error
+
+    if (Object.keys(newErrors).length > 0) {
+      setErrors(newErrors)
+      return
+    }
+    setErrors({})
+    saveMutation.mutate(changes)
+  }
+
+  const fields: { key: keyof ProfileFormData; label: string; icon: typeof Mail; type: string }[] = [
+    { key: 'name', label: 'Full Name', icon: UserIcon, type: 'text' },
+    { key: 'email', label: 'Email Address', icon: Mail, type: 'email' },
+  ]
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6 max-w-xl">
+      <div className="flex items-center gap-4 p-4 rounded-2xl bg-slate-900/50 border border-slate-700/50">
+        <div className="w-14 h-14 rounded-full bg-gradient-to-br from-blue-500 to-indigo-600 flex items-center justify-center text-white font-semibold text-xl shadow-lg">
+          {user?.name?.charAt(0).toUpperCase()}
+        </div>
+        <div className="min-w-0">
+          <p className="text-lg font-semibold text-white truncate">{user?.name}</p>
+          <p className="text-sm text-slate-400">{user ? getRoleDisplayName(user.role) : ''}</p>
+        </div>
+      </div>
+
+      {fields.map(({ key, label, icon: Icon, type }) => (
+        <div key={key}>
+          <Label htmlFor={key} className="text-slate-300 font-medium flex items-center gap-2">
+            <Icon className="w-4 h-4 text-blue-400" />
+            {label}
+          </Label>
+          <Input
+            id={key}
+            type={type}
+            value={formData[key]}
+            onChange={(e) => handleChange(key, e.target.value)}
+            disabled={saveMutation.isPending}
+            className={`mt-2 h-12 rounded-xl border-2 bg-slate-900/50 text-slate-100 placeholder:text-slate-500 ${
+              errors[key]
+                ? 'border-red-500 focus:border-red-600'
+                : 'border-slate-700 focus:border-blue-500'
+            }`}
+          />
+          {errors[key] && <p className="text-red-400 text-sm mt-1">{errors[key]}</p>}
+        </div>
+      ))}
+
+      <div className="flex gap-3 pt-2">
+        <Button
+          type="submit"
+          disabled={!hasChanges || saveMutation.isPending}
+          className="h-11 px-6 rounded-xl bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 border-0"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          {saveMutation.isPending ? 'Saving...' : 'Save Changes'}
+        </Button>
+        {hasChanges && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => {
+              setFormData({ name: user?.name ?? '', email: user?.email ?? '' })
+              setErrors({})
+            }}
+            disabled={saveMutation.isPending}
+            className="h-11 rounded-xl bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+          >
+            Discard
+          </Button>
+        )}
+      </div>
+    </form>
+  )
+}
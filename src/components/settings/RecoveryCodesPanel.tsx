@@ -0,0 +1,72 @@
+import { Copy, Download } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { useToast } from '@/store/toastStore'
+import { APP_NAME } from '@/utils/constants'
+
+interface RecoveryCodesPanelProps {
+  codes: string[]
+}
+
+/**
+ * Freshly issued recovery codes with copy and download actions. The codes
+ * are only ever shown once, right after they are generated.
+ */
+export default function RecoveryCodesPanel({ codes }: RecoveryCodesPanelProps) {
+  const { addToast } = useToast()
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'))
+      addToast('Recovery codes copied', 'success')
+    } catch {
+      addToast('Could not copy to the clipboard', 'error')
+    }
+  }
+
+  const handleDownload = () => {
+    const blob = new Blob(
+      [`${APP_NAME} recovery codes\nEach code can be used once.\n\n${codes.join('\n')}\n`],
+      { type: 'text/plain' }
+    )
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `${APP_NAME.toLowerCase()}-recovery-codes.txt`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-amber-300">
+        Save these codes somewhere safe. Each one signs you in once if you lose your authenticator,
+        and they will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 p-4 rounded-xl bg-slate-900/60 border border-slate-700 font-mono text-sm text-slate-100">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleCopy}
+          className="rounded-xl bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+        >
+          <Copy className="w-4 h-4 mr-2" />
+          Copy
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleDownload}
+          className="rounded-xl bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          Download
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,189 @@
+import { useState, FormEvent } from 'react'
+import { useMutation } from '@tanstack/react-query'
+import { Eye, EyeOff, KeyRound, Lock } from 'lucide-react'
+import PasswordStrengthMeter from '@/components/PasswordStrengthMeter'
+import SignupPolicySection from '@/components/settings/SignupPolicySection'
+import TwoFactorPolicySection from '@/components/settings/TwoFactorPolicySection'
+import TwoFactorSection from '@/components/settings/TwoFactorSection'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { authService } from '@/services/auth.service'
+import { useAuthStore } from '@/store/authStore'
+import { useToast } from '@/store/toastStore'
+import { PasswordChangeFormData, isApiError } from '@/types'
+import { getErrorMessage } from '@/utils/errorHandling'
+import { canManageUsers } from '@/utils/permissions'
+import { validators } from '@/utils/validation-rules'
+
+type PasswordErrors = Partial<Record<keyof PasswordChangeFormData, string>>
+
+const EMPTY_FORM: PasswordChangeFormData = {
+  currentPassword: '',
+  newPassword: '',
+  confirmPassword: '',
+}
+
+/**
+ * Password, two-factor authentication and (for admins) the two-factor policy
+ */
+export default function SecuritySettingsTab() {
+  const { addToast } = useToast()
+  const role = useAuthStore((s) => s.user?.role)
+  const [formData, setFormData] = useState<PasswordChangeFormData>(EMPTY_FORM)
+  const [errors, setErrors] = useState<PasswordErrors>({})
+  const [showPasswords, setShowPasswords] = useState(false)
+
+  const passwordMutation = useMutation({
+    mutationFn: (data: PasswordChangeFormData) =>
+      authService.updatePassword({
+        currentPassword: data.currentPassword,
+        newPassword: data.newPassword,
+      }),
+    onSuccess: () => {
+      setFormData(EMPTY_FORM)
+      addToast('Password changed', 'success')
+    },
+    onError: (error) => {
+      if (isApiError(error) && error.errors) {
+        const fieldErrors: PasswordErrors = {}
+        Object.entries(error.errors).forEach(([field, messages]) => {
+          if (field in EMPTY_FORM) fieldErrors[field as keyof PasswordChangeFormData] = messages[0]
+        })
+        setErrors(fieldErrors)
+      }
+      addToast(getErrorMessage(error), 'error')
+    },
+  })
+
+  const handleChange = (field: keyof PasswordChangeFormData, value: string) => {
+    setFormData((prev) => ({ ...prev, [field]: value }))
+    if (errors[field]) setErrors((prev) => ({ ...prev, [field]: undefined }))
+  }
+
+  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    const newErrors: PasswordErrors = {}
+
+    if (!formData.currentPassword) {
+      newErrors.currentPassword = 'Current password is required'
+    }
+
+    const passwordResult = validators.password(formData.newPassword)
+    const strengthResult = validators.passwordStrength(formData.newPassword)
+    if (!passwordResult.isValid) {
+      newErrors.newPassword = passwordResult.error
+    } else if (!strengthResult.isValid) {
+      newErrors.newPassword = strengthResult.error
+    } else if (formData.newPassword === formData.currentPassword) {
+      newErrors.newPassword = 'New password must be different from current password'
+    }
+
+    const confirmResult = validators.passwordConfirmation(
+      formData.newPassword,
+      formData.confirmPassword
+    )
+    if (!confirmResult.isValid) {
+      newErrors.confirmPassword = confirmResult.error
+    }
+
+    if (Object.keys(newErrors).length > 0) {
+      setErrors(newErrors)
+      return
+    }
+    setErrors({})
+    passwordMutation.mutate(formData)
+  }
+
+  const fields: { key: keyof PasswordChangeFormData; label: string; placeholder: string }[] = [
+    {
+      key: 'currentPassword',
+      label: 'Current Password',
+      placeholder: 'Enter your current password',
+    },
+    { key: 'newPassword', label: 'New Password', placeholder: 'Create a strong password' },
+    {
+      key: 'confirmPassword',
+      label: 'Confirm New Password',
+      placeholder: 'Re-enter the new password',
+    },
+  ]
+
+  return (
+    <div className="space-y-10">
+      <form onSubmit={handleSubmit} className="space-y-6 max-w-xl">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <KeyRound className="w-5 h-5 text-indigo-400" />
+            Change Password
+          </h3>
+          <p className="text-sm text-slate-400 mt-1">
+            Use at least 8 characters with uppercase and lowercase letters and a number.
+          </p>
+        </div>
+
+        {fields.map(({ key, label, placeholder }) => (
+          <div key={key}>
+            <Label htmlFor={key} className="text-slate-300 font-medium flex items-center gap-2">
+              <Lock className="w-4 h-4 text-indigo-400" />
+              {label}
+            </Label>
+            <Input
+              id={key}
+              type={showPasswords ? 'text' : 'password'}
+              autoComplete={key === 'currentPassword' ? 'current-password' : 'new-password'}
+              placeholder={placeholder}
+              value={formData[key]}
+              onChange={(e) => handleChange(key, e.target.value)}
+              disabled={passwordMutation.isPending}
+              className={`mt-2 h-12 rounded-xl border-2 bg-slate-900/50 text-slate-100 placeholder:text-slate-500 ${
+                errors[key]
+                  ? 'border-red-500 focus:border-red-600'
+                  : 'border-slate-700 focus:border-blue-500'
+              }`}
+            />
+            {errors[key] ? (
+              <p className="text-red-400 text-sm mt-1">{errors[key]}</p>
+            ) : (
+              key === 'newPassword' && <PasswordStrengthMeter password={formData.newPassword} />
+            )}
+          </div>
+        ))}
+
+        <div className="flex items-center gap-4 pt-2">
+          <Button
+            type="submit"
+            disabled={passwordMutation.isPending}
+            className="h-11 px-6 rounded-xl bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 border-0"
+          >
+            {passwordMutation.isPending ? 'Updating...' : 'Update Password'}
+          </Button>
+          <button
+            type="button"
+            onClick={() => setShowPasswords((s) => !s)}
+            className="flex items-center gap-2 text-sm text-slate-400 hover:text-slate-200 transition-colors"
+          >
+            {showPasswords ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+            {showPasswords ? 'Hide passwords' : 'Show passwords'}
+          </button>
+        </div>
+      </form>
+
+      <div className="pt-8 border-t border-slate-700/50">
+        <TwoFactorSection />
+      </div>
+
+      {canManageUsers(role) && (
+        <div className="pt-8 border-t border-slate-700/50">
+          <TwoFactorPolicySection />
+        </div>
+      )}
+
+      {canManageUsers(role) && (
+        <div className="pt-8 border-t border-slate-700/50">
+          <SignupPolicySection />
+        </div>
+      )}
+    </div>
+  )
+}
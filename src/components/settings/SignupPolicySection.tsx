@@ -0,0 +1,57 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { UserPlus } from 'lucide-react'
+import { Checkbox } from '@/components/ui/checkbox'
+import { invitationService } from '@/services/invitation.service'
+import { useToast } from '@/store/toastStore'
+import { getErrorMessage } from '@/utils/errorHandling'
+
+const POLICY_QUERY_KEY = ['signup-policy']
+
+/**
+ * Admin-only: allow anyone to sign up, or only people with an invitation
+ */
+export default function SignupPolicySection() {
+  const { addToast } = useToast()
+  const queryClient = useQueryClient()
+
+  const { data: policy, isLoading } = useQuery({
+    queryKey: POLICY_QUERY_KEY,
+    queryFn: invitationService.getSignupPolicy,
+  })
+
+  const saveMutation = useMutation({
+    mutationFn: invitationService.updateSignupPolicy,
+    onSuccess: (updated) => {
+      queryClient.setQueryData(POLICY_QUERY_KEY, updated)
+      addToast(
+        updated.openSignup ? 'Open sign-up turned on' : 'Sign-up is now by invitation only',
+        'success'
+      )
+    },
+    onError: (error) => addToast(getErrorMessage(error), 'error'),
+  })
+
+  return (
+    <div className="space-y-4 max-w-xl">
+      <div>
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <UserPlus className="w-5 h-5 text-indigo-400" />
+          Account Sign-Up
+        </h3>
+        <p className="text-sm text-slate-400 mt-1">
+          When open sign-up is off, new accounts can only be created from an invitation sent on the
+          Users page. Invitations work either way.
+        </p>
+      </div>
+
+      <label className="flex items-center gap-3 text-sm text-slate-200 cursor-pointer w-fit">
+        <Checkbox
+          checked={policy?.openSignup ?? false}
+          onCheckedChange={(checked) => saveMutation.mutate({ openSignup: checked === true })}
+          disabled={isLoading || saveMutation.isPending}
+        />
+        Allow anyone to sign up (new accounts get the Professor role)
+      </label>
+    </div>
+  )
+}
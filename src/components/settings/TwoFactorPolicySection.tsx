@@ -0,0 +1,93 @@
+import { useState, useEffect } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Users } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { twoFactorService } from '@/services/two-factor.service'
+import { useAuthStore } from '@/store/authStore'
+import { useToast } from '@/store/toastStore'
+import { UserRole } from '@/types'
+import { getErrorMessage } from '@/utils/errorHandling'
+import { getRoleDisplayName, getTwoFactorEligibleRoles } from '@/utils/permissions'
+
+const POLICY_QUERY_KEY = ['two-factor-policy']
+
+/**
+ * Admin-only: choose which roles must use two-factor authentication
+ */
+export default function TwoFactorPolicySection() {
+  const { addToast } = useToast()
+  const queryClient = useQueryClient()
+  const user = useAuthStore((s) => s.user)
+  const updateUser = useAuthStore((s) => s.updateUser)
+  const [requiredRoles, setRequiredRoles] = useState<UserRole[]>([])
+  const eligibleRoles = getTwoFactorEligibleRoles()
+
+  const { data: policy, isLoading } = useQuery({
+    queryKey: POLICY_QUERY_KEY,
+    queryFn: twoFactorService.getPolicy,
+  })
+
+  useEffect(() => {
+    if (policy) setRequiredRoles(policy.requiredRoles)
+  }, [policy])
+
+  const saveMutation = useMutation({
+    mutationFn: twoFactorService.updatePolicy,
+    onSuccess: (updated) => {
+      queryClient.setQueryData(POLICY_QUERY_KEY, updated)
+      if (user) updateUser({ twoFactorRequired: updated.requiredRoles.includes(user.role) })
+      addToast('Two-factor policy saved', 'success')
+    },
+    onError: (error) => addToast(getErrorMessage(error), 'error'),
+  })
+
+  const toggleRole = (role: UserRole, checked: boolean) => {
+    setRequiredRoles((prev) => (checked ? [...prev, role] : prev.filter((r) => r !== role)))
+  }
+
+  const isDirty =
+    policy !== undefined &&
+    (policy.requiredRoles.length !== requiredRoles.length ||
+      requiredRoles.some((role) => !policy.requiredRoles.includes(role)))
+
+  return (
+    <div className="space-y-4 max-w-xl">
+      <div>
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <Users className="w-5 h-5 text-indigo-400" />
+          Require Two-Factor by Role
+        </h3>
+        <p className="text-sm text-slate-400 mt-1">
+          Users in these roles must turn on two-factor authentication before they can use the app.
+          Only roles that can manage users or delete students are listed.
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        {eligibleRoles.map((role) => (
+          <label
+            key={role}
+            className="flex items-center gap-3 text-sm text-slate-200 cursor-pointer w-fit"
+          >
+            <Checkbox
+              checked={requiredRoles.includes(role)}
+              onCheckedChange={(checked) => toggleRole(role, checked === true)}
+              disabled={isLoading || saveMutation.isPending}
+            />
+            {getRoleDisplayName(role)}
+          </label>
+        ))}
+      </div>
+
+      <Button
+        type="button"
+        onClick={() => saveMutation.mutate({ requiredRoles })}
+        disabled={!isDirty || saveMutation.isPending}
+        className="h-11 px-6 rounded-xl bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 border-0"
+      >
+        {saveMutation.isPending ? 'Saving...' : 'Save Policy'}
+      </Button>
+    </div>
+  )
+}
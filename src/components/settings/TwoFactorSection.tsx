@@ -0,0 +1,166 @@
+import { useState } from 'react'
+import { useMutation } from '@tanstack/react-query'
+import { AlertTriangle, KeyRound, ShieldCheck, ShieldOff } from 'lucide-react'
+import TwoFactorSetupModal from '@/components/modals/TwoFactorSetupModal'
+import RecoveryCodesPanel from '@/components/settings/RecoveryCodesPanel'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { twoFactorService } from '@/services/two-factor.service'
+import { useAuthStore } from '@/store/authStore'
+import { useToast } from '@/store/toastStore'
+import { cn } from '@/lib/utils'
+import { getErrorMessage } from '@/utils/errorHandling'
+
+/**
+ * Two-factor status for the signed-in user: turn it on, regenerate recovery
+ * codes, or turn it off (unless the user's role requires it)
+ */
+export default function TwoFactorSection() {
+  const { addToast } = useToast()
+  const user = useAuthStore((s) => s.user)
+  const updateUser = useAuthStore((s) => s.updateUser)
+  const [isSetupOpen, setIsSetupOpen] = useState(false)
+  const [code, setCode] = useState('')
+  const [error, setError] = useState<string>()
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>()
+
+  const isEnabled = Boolean(user?.twoFactorEnabled)
+  const isRequired = Boolean(user?.twoFactorRequired)
+
+  const onCodeError = (err: unknown) => {
+    setCode('')
+    setError(getErrorMessage(err))
+  }
+
+  const regenerateMutation = useMutation({
+    mutationFn: twoFactorService.regenerateRecoveryCodes,
+    onSuccess: (result) => {
+      setCode('')
+      setRecoveryCodes(result.recoveryCodes)
+      addToast('New recovery codes generated', 'success')
+    },
+    onError: onCodeError,
+  })
+
+  const disableMutation = useMutation({
+    mutationFn: twoFactorService.disable,
+    onSuccess: () => {
+      setCode('')
+      setRecoveryCodes(undefined)
+      updateUser({ twoFactorEnabled: false })
+      addToast('Two-factor authentication is off', 'success')
+    },
+    onError: onCodeError,
+  })
+
+  const isPending = regenerateMutation.isPending || disableMutation.isPending
+
+  return (
+    <div className="space-y-6 max-w-xl">
+      <div>
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5 text-indigo-400" />
+          Two-Factor Authentication
+          <span
+            className={cn(
+              'ml-2 px-2 py-0.5 rounded-full text-xs font-medium border',
+              isEnabled
+                ? 'bg-emerald-500/10 text-emerald-300 border-emerald-500/30'
+                : 'bg-slate-700/50 text-slate-400 border-slate-600'
+            )}
+          >
+            {isEnabled ? 'On' : 'Off'}
+          </span>
+        </h3>
+        <p className="text-sm text-slate-400 mt-1">
+          Sign-ins also ask for a code from an authenticator app on your phone.
+        </p>
+      </div>
+
+      {isRequired && !isEnabled && (
+        <div className="flex items-start gap-3 p-4 rounded-xl bg-amber-500/10 border border-amber-500/30">
+          <AlertTriangle className="w-5 h-5 text-amber-400 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-amber-200">
+            Your role requires two-factor authentication. Turn it on to continue using the app.
+          </p>
+        </div>
+      )}
+
+      {!isEnabled ? (
+        <Button
+          type="button"
+          onClick={() => setIsSetupOpen(true)}
+          className="h-11 px-6 rounded-xl bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 border-0"
+        >
+          Turn On Two-Factor
+        </Button>
+      ) : (
+        <div className="space-y-4">
+          <div>
+            <Label
+              htmlFor="twoFactorManageCode"
+              className="text-slate-300 font-medium flex items-center gap-2"
+            >
+              <KeyRound className="w-4 h-4 text-indigo-400" />
+              Authenticator Code
+            </Label>
+            <Input
+              id="twoFactorManageCode"
+              autoComplete="one-time-code"
+              placeholder="Required to make changes"
+              value={code}
+              onChange={(e) => {
+                setCode(e.target.value)
+                if (error) setError(undefined)
+              }}
+              disabled={isPending}
+              className={`mt-2 h-12 rounded-xl border-2 bg-slate-900/50 text-slate-100 placeholder:text-slate-500 font-mono ${
+                error
+                  ? 'border-red-500 focus:border-red-600'
+                  : 'border-slate-700 focus:border-blue-500'
+              }`}
+            />
+            {error && <p className="text-red-400 text-sm mt-1">{error}</p>}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => regenerateMutation.mutate(code)}
+              disabled={isPending || !code.trim()}
+              className="h-11 rounded-xl bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+            >
+              {regenerateMutation.isPending ? 'Generating...' : 'New Recovery Codes'}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => disableMutation.mutate(code)}
+              disabled={isPending || isRequired || !code.trim()}
+              title={isRequired ? 'Required for your role' : undefined}
+              className="h-11 rounded-xl bg-red-500/10 border-red-500/30 text-red-300 hover:bg-red-500/20 hover:text-red-200"
+            >
+              <ShieldOff className="w-4 h-4 mr-2" />
+              {disableMutation.isPending ? 'Turning off...' : 'Turn Off'}
+            </Button>
+          </div>
+          {isRequired && (
+            <p className="text-xs text-slate-500">
+              Two-factor authentication is required for your role and can't be turned off.
+            </p>
+          )}
+
+          {recoveryCodes && <RecoveryCodesPanel codes={recoveryCodes} />}
+        </div>
+      )}
+
+      <TwoFactorSetupModal
+        isOpen={isSetupOpen}
+        onClose={() => setIsSetupOpen(false)}
+        onEnabled={() => updateUser({ twoFactorEnabled: true })}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+import { forwardRef, useImperativeHandle, useRef, useState } from 'react'
+import { Nfc } from 'lucide-react'
+import { normalizeNfcUid } from '@/utils/nfcCards'
+import { validators } from '@/utils/validation-rules'
+
+interface CardReaderInputProps {
+  onScan: (uid: string) => void
+  disabled?: boolean
+  autoFocus?: boolean
+  label?: string
+}
+
+export interface CardReaderInputHandle {
+  focus: () => void
+}
+
+/**
+ * Field a keyboard-wedge NFC reader types into: it sends the card UID as
+ * keystrokes followed by Enter. A UID can also be typed by hand. The field
+ * has to have focus to receive the reader's keystrokes, so losing focus is
+ * shown plainly.
+ */
+const CardReaderInput = forwardRef<CardReaderInputHandle, CardReaderInputProps>(
+  function CardReaderInput({ onScan, disabled = false, autoFocus = false, label }, ref) {
+    const [value, setValue] = useState('')
+    const [error, setError] = useState<string>()
+    const [focused, setFocused] = useState(false)
+    const inputRef = useRef<HTMLInputElement>(null)
+
+    useImperativeHandle(ref, () => ({ focus: () => inputRef.current?.focus() }), [])
+
+    const submit = () => {
+      const uid = normalizeNfcUid(value)
+      setValue('')
+      if (!uid) return
+      const validation = validators.nfcId(uid)
+      if (!validation.isValid) {
+        setError(validation.error || 'Not a card UID')
+        return
+      }
+      setError(undefined)
+      onScan(uid)
+    }
+
+    return (
+      <div>
+        <div
+          onClick={() => inputRef.current?.focus()}
+          className={`flex items-center gap-3 px-4 h-14 rounded-xl border-2 cursor-text transition-colors ${
+            focused && !disabled
+              ? 'border-emerald-500 bg-emerald-500/10'
+              : 'border-dashed border-slate-600 bg-slate-900/50'
+          }`}
+        >
+          <Nfc
+            className={`w-6 h-6 flex-shrink-0 ${
+              focused && !disabled ? 'text-emerald-400 animate-pulse' : 'text-slate-500'
+            }`}
+          />
+          <div className="flex-1 min-w-0">
+            <p className="text-xs text-slate-400">
+              {disabled
+                ? 'Reader paused'
+                : focused
+                  ? (label ?? 'Ready - tap a card on the reader')
+                  : 'Click here so the reader can type the card ID'}
+            </p>
+            <input
+              ref={inputRef}
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault()
+                  submit()
+                }
+              }}
+              onFocus={() => setFocused(true)}
+              onBlur={() => setFocused(false)}
+              disabled={disabled}
+              autoFocus={autoFocus}
+              autoComplete="off"
+              spellCheck={false}
+              placeholder="or type the card ID and press Enter"
+              aria-label="NFC card ID"
+              className="w-full bg-transparent font-mono text-sm text-slate-100 placeholder:text-slate-600 focus:outline-none"
+            />
+          </div>
+        </div>
+        {error && <p className="text-red-400 text-xs mt-1">{error}</p>}
+      </div>
+    )
+  }
+)
+
+export default CardReaderInput
@@ -0,0 +1,301 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Bell, BellOff, Plus, Search, Star, UserPlus, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Guardian, GuardianFormData, GuardianRelationship, StudentGuardian } from '@/types'
+import { guardianService } from '@/services/guardian.service'
+import { useDebounce } from '@/hooks/useDebounce'
+import { cn } from '@/lib/utils'
+import { getErrorMessage } from '@/utils/errorHandling'
+import { GUARDIAN_CHANNELS, GUARDIAN_RELATIONSHIPS } from '@/utils/guardians'
+
+interface GuardianPickerProps {
+  value: StudentGuardian[]
+  onChange: (guardians: StudentGuardian[]) => void
+  disabled?: boolean
+}
+
+const EMPTY_GUARDIAN: GuardianFormData = {
+  name: '',
+  email: '',
+  contact: '',
+  preferredChannel: 'email',
+}
+
+const fieldClass =
+  'h-10 rounded-xl border-2 border-slate-600 bg-slate-900/50 text-slate-100 placeholder:text-slate-500 focus:border-blue-500'
+
+/**
+ * A student's guardians: link existing guardians (shared with siblings) or
+ * create new ones, set the relationship and who gets attendance alerts. The
+ * first guardian is the primary one.
+ */
+export default function GuardianPicker({ value, onChange, disabled = false }: GuardianPickerProps) {
+  const [search, setSearch] = useState('')
+  const [isCreating, setIsCreating] = useState(false)
+  const [newGuardian, setNewGuardian] = useState<GuardianFormData>(EMPTY_GUARDIAN)
+  const [createError, setCreateError] = useState('')
+  const debouncedSearch = useDebounce(search.trim())
+  const queryClient = useQueryClient()
+
+  const { data: results = [], isFetching } = useQuery({
+    queryKey: ['guardians', debouncedSearch],
+    queryFn: () => guardianService.getAll(debouncedSearch),
+    enabled: debouncedSearch.length >= 2,
+  })
+  const linkedIds = value.map(({ guardian }) => guardian.id)
+  const matches = results.filter((guardian) => !linkedIds.includes(guardian.id))
+
+  const link = (guardian: Guardian) => {
+    onChange([
+      ...value,
+      {
+        guardian,
+        relationship: 'guardian',
+        receivesAttendanceAlerts: Boolean(guardian.email),
+      },
+    ])
+    setSearch('')
+  }
+
+  const update = (guardianId: number, changes: Partial<StudentGuardian>) => {
+    onChange(value.map((g) => (g.guardian.id === guardianId ? { ...g, ...changes } : g)))
+  }
+
+  const makePrimary = (guardianId: number) => {
+    const chosen = value.find((g) => g.guardian.id === guardianId)
+    if (chosen) onChange([chosen, ...value.filter((g) => g !== chosen)])
+  }
+
+  const createMutation = useMutation({
+    mutationFn: guardianService.create,
+    onSuccess: (guardian) => {
+      queryClient.invalidateQueries({ queryKey: ['guardians'] })
+      link(guardian)
+      setNewGuardian(EMPTY_GUARDIAN)
+      setIsCreating(false)
+      setCreateError('')
+    },
+    onError: (error) => setCreateError(getErrorMessage(error)),
+  })
+
+  return (
+    <div className="space-y-4">
+      {value.length === 0 ? (
+        <p className="text-sm text-slate-500">No guardians linked yet.</p>
+      ) : (
+        <ul className="space-y-3">
+          {value.map(({ guardian, relationship, receivesAttendanceAlerts }, index) => (
+            <li
+              key={guardian.id}
+              className="p-4 rounded-xl bg-slate-900/50 border border-slate-700 space-y-3"
+            >
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-semibold text-slate-100 flex items-center gap-2">
+                    {guardian.name}
+                    {index === 0 && (
+                      <span className="px-2 py-0.5 rounded-full text-[10px] font-medium bg-blue-500/20 text-blue-300 border border-blue-500/30">
+                        Primary
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-slate-400 truncate">
+                    {[guardian.email, guardian.contact].filter(Boolean).join(' · ') ||
+                      'No contact details'}
+                    {guardian.preferredChannel === 'phone' && ' · prefers phone'}
+                  </p>
+                  {(guardian.studentCount ?? 0) > 1 && (
+                    <p className="text-xs text-slate-500">
+                      Also linked to {(guardian.studentCount ?? 1) - 1} other student(s)
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-1">
+                  {index > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => makePrimary(guardian.id)}
+                      disabled={disabled}
+                      title="Make primary guardian"
+                      className="p-1.5 rounded-lg text-slate-400 hover:text-amber-300 hover:bg-slate-700/60 transition-colors"
+                    >
+                      <Star className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => onChange(value.filter((g) => g.guardian.id !== guardian.id))}
+                    disabled={disabled}
+                    title="Unlink guardian"
+                    className="p-1.5 rounded-lg text-slate-400 hover:text-red-400 hover:bg-slate-700/60 transition-colors"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+              <div className="flex flex-wrap items-center gap-3">
+                <select
+                  value={relationship}
+                  onChange={(e) =>
+                    update(guardian.id, { relationship: e.target.value as GuardianRelationship })
+                  }
+                  disabled={disabled}
+                  aria-label={`Relationship of ${guardian.name}`}
+                  className="h-9 rounded-lg border border-slate-600 bg-slate-800 px-2 text-sm text-slate-100 focus:border-blue-500 focus:outline-none"
+                >
+                  {GUARDIAN_RELATIONSHIPS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() =>
+                    update(guardian.id, { receivesAttendanceAlerts: !receivesAttendanceAlerts })
+                  }
+                  disabled={disabled || (!guardian.email && !receivesAttendanceAlerts)}
+                  aria-pressed={receivesAttendanceAlerts}
+                  title={guardian.email ? undefined : 'Alerts are sent by email'}
+                  className={cn(
+                    'inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium border transition-colors disabled:opacity-60 disabled:cursor-not-allowed',
+                    receivesAttendanceAlerts
+                      ? 'bg-emerald-500/20 text-emerald-200 border-emerald-500/40'
+                      : 'bg-slate-800/60 text-slate-400 border-slate-600 hover:text-slate-200'
+                  )}
+                >
+                  {receivesAttendanceAlerts ? (
+                    <Bell className="w-3.5 h-3.5" />
+                  ) : (
+                    <BellOff className="w-3.5 h-3.5" />
+                  )}
+                  {receivesAttendanceAlerts ? 'Gets attendance alerts' : 'No attendance alerts'}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Link an existing guardian */}
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+        <Input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Find an existing guardian by name, email or phone..."
+          disabled={disabled}
+          className={`pl-9 ${fieldClass}`}
+        />
+        {debouncedSearch.length >= 2 && search.trim() && (
+          <div className="absolute z-20 mt-1 w-full rounded-xl border border-slate-600 bg-slate-800 shadow-enterprise-lg max-h-56 overflow-y-auto thin-scrollbar">
+            {matches.length === 0 ? (
+              <p className="px-4 py-3 text-sm text-slate-400">
+                {isFetching ? 'Searching...' : 'No matching guardians'}
+              </p>
+            ) : (
+              matches.map((guardian) => (
+                <button
+                  key={guardian.id}
+                  type="button"
+                  onClick={() => link(guardian)}
+                  className="w-full text-left px-4 py-2 hover:bg-slate-700/60 transition-colors"
+                >
+                  <span className="block text-sm text-slate-100">{guardian.name}</span>
+                  <span className="block text-xs text-slate-400">
+                    {[guardian.email, guardian.contact].filter(Boolean).join(' · ')}
+                  </span>
+                </button>
+              ))
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Create a new guardian */}
+      {isCreating ? (
+        <div className="p-4 rounded-xl border border-slate-700 space-y-3">
+          <Input
+            type="text"
+            value={newGuardian.name}
+            onChange={(e) => setNewGuardian((prev) => ({ ...prev, name: e.target.value }))}
+            placeholder="Guardian name"
+            className={fieldClass}
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              type="email"
+              value={newGuardian.email}
+              onChange={(e) => setNewGuardian((prev) => ({ ...prev, email: e.target.value }))}
+              placeholder="jane.doe@example.com"
+              className={fieldClass}
+            />
+            <Input
+              type="tel"
+              value={newGuardian.contact}
+              onChange={(e) => setNewGuardian((prev) => ({ ...prev, contact: e.target.value }))}
+              placeholder="+639123456789"
+              className={fieldClass}
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="text-sm text-slate-300">Prefers</label>
+            <select
+              value={newGuardian.preferredChannel}
+              onChange={(e) =>
+                setNewGuardian((prev) => ({
+                  ...prev,
+                  preferredChannel: e.target.value as GuardianFormData['preferredChannel'],
+                }))
+              }
+              className="h-9 rounded-lg border border-slate-600 bg-slate-800 px-2 text-sm text-slate-100 focus:border-blue-500 focus:outline-none"
+            >
+              {GUARDIAN_CHANNELS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <div className="flex gap-2 ml-auto">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  setIsCreating(false)
+                  setCreateError('')
+                }}
+                className="h-9 rounded-lg bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                onClick={() => createMutation.mutate(newGuardian)}
+                disabled={createMutation.isPending || !newGuardian.name.trim()}
+                className="h-9 rounded-lg bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 border-0"
+              >
+                <UserPlus className="w-4 h-4 mr-1" />
+                {createMutation.isPending ? 'Saving...' : 'Create & Link'}
+              </Button>
+            </div>
+          </div>
+          {createError && <p className="text-red-400 text-sm">{createError}</p>}
+        </div>
+      ) : (
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => setIsCreating(true)}
+          disabled={disabled}
+          className="h-10 rounded-xl bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          New Guardian
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,220 @@
+import { useState } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { Save, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { IdCardTemplate, IdCardTemplateFormData } from '@/types'
+import { idCardService } from '@/services/id-card.service'
+import { useToast } from '@/store/toastStore'
+import { validateIdCardTemplate } from '@/utils/business-validation'
+import { getErrorMessage } from '@/utils/errorHandling'
+
+interface IdCardTemplateEditorProps {
+  template: IdCardTemplate
+  canDelete: boolean
+  onSaved: (template: IdCardTemplate) => void
+  onDeleted: () => void
+  onCancel: () => void
+}
+
+const TOGGLES: {
+  field: 'showPhoto' | 'showQrCode' | 'showBarcode' | 'printBack'
+  label: string
+}[] = [
+  { field: 'showPhoto', label: 'Photo' },
+  { field: 'showQrCode', label: 'QR code' },
+  { field: 'showBarcode', label: 'Barcode' },
+  { field: 'printBack', label: 'Back side' },
+]
+
+const inputClass = (error?: string) =>
+  `h-10 rounded-xl border-2 bg-slate-900/50 text-slate-100 placeholder:text-slate-500 ${
+    error ? 'border-red-500 focus:border-red-600' : 'border-slate-600 focus:border-blue-500'
+  }`
+
+const toFormData = ({
+  id: _id,
+  createdAt: _createdAt,
+  updatedAt: _updatedAt,
+  ...data
+}: IdCardTemplate): IdCardTemplateFormData => data
+
+/**
+ * Edit a card template in place, or save the changes as a new template
+ */
+export default function IdCardTemplateEditor({
+  template,
+  canDelete,
+  onSaved,
+  onDeleted,
+  onCancel,
+}: IdCardTemplateEditorProps) {
+  const [form, setForm] = useState<IdCardTemplateFormData>(() => toFormData(template))
+  const [errors, setErrors] = useState<{ [field: string]: string }>({})
+  const { addToast } = useToast()
+  const queryClient = useQueryClient()
+
+  const saveMutation = useMutation({
+    mutationFn: ({ asNew }: { asNew: boolean }) =>
+      asNew ? idCardService.createTemplate(form) : idCardService.updateTemplate(template.id, form),
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['id-card-templates'] })
+      addToast(`Template "${saved.name}" saved`, 'success')
+      onSaved(saved)
+    },
+    onError: (error) => addToast(getErrorMessage(error), 'error'),
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: () => idCardService.deleteTemplate(template.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['id-card-templates'] })
+      addToast(`Template "${template.name}" deleted`, 'success')
+      onDeleted()
+    },
+    onError: (error) => addToast(getErrorMessage(error), 'error'),
+  })
+
+  const update = (changes: Partial<IdCardTemplateFormData>) => {
+    setForm((prev) => ({ ...prev, ...changes }))
+    setErrors({})
+  }
+
+  const save = (asNew: boolean) => {
+    const validation = validateIdCardTemplate(form)
+    setErrors(validation.errors)
+    if (validation.isValid) saveMutation.mutate({ asNew })
+  }
+
+  const isSaving = saveMutation.isPending || deleteMutation.isPending
+
+  return (
+    <div className="p-4 rounded-xl bg-slate-900/50 border border-slate-700 space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-slate-400 mb-1">Template Name</label>
+          <Input
+            value={form.name}
+            onChange={(e) => update({ name: e.target.value })}
+            className={inputClass(errors.name)}
+          />
+          {errors.name && <p className="text-red-400 text-xs mt-1">{errors.name}</p>}
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-400 mb-1">Card Title</label>
+          <Input
+            value={form.title}
+            onChange={(e) => update({ title: e.target.value })}
+            placeholder="Student Identification Card"
+            className={inputClass(errors.title)}
+          />
+          {errors.title && <p className="text-red-400 text-xs mt-1">{errors.title}</p>}
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-400 mb-1">Orientation</label>
+          <select
+            value={form.orientation}
+            onChange={(e) =>
+              update({ orientation: e.target.value as IdCardTemplateFormData['orientation'] })
+            }
+            className="w-full h-10 px-3 rounded-xl border-2 bg-slate-900/50 text-slate-100 border-slate-600 focus:border-blue-500 focus:outline-none"
+          >
+            <option value="landscape">Landscape</option>
+            <option value="portrait">Portrait (lanyard)</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-400 mb-1">Accent Color</label>
+          <div className="flex gap-2">
+            <input
+              type="color"
+              value={/^#[0-9a-f]{6}$/i.test(form.accentColor) ? form.accentColor : '#3B82F6'}
+              onChange={(e) => update({ accentColor: e.target.value.toUpperCase() })}
+              className="h-10 w-12 rounded-lg border-2 border-slate-600 bg-slate-900/50 cursor-pointer"
+              aria-label="Pick accent color"
+            />
+            <Input
+              value={form.accentColor}
+              onChange={(e) => update({ accentColor: e.target.value })}
+              className={`flex-1 font-mono ${inputClass(errors.accentColor)}`}
+            />
+          </div>
+          {errors.accentColor && <p className="text-red-400 text-xs mt-1">{errors.accentColor}</p>}
+        </div>
+      </div>
+
+      <div>
+        <div className="flex flex-wrap gap-4">
+          {TOGGLES.map(({ field, label }) => (
+            <label key={field} className="flex items-center gap-2 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={form[field]}
+                onChange={(e) => update({ [field]: e.target.checked })}
+                className="w-4 h-4 rounded border-slate-600 bg-slate-900 accent-blue-500"
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+        {errors.showPhoto && <p className="text-red-400 text-xs mt-1">{errors.showPhoto}</p>}
+      </div>
+
+      {form.printBack && (
+        <div>
+          <label className="block text-xs font-medium text-slate-400 mb-1">Back Side Text</label>
+          <textarea
+            value={form.backText}
+            onChange={(e) => update({ backText: e.target.value })}
+            rows={3}
+            placeholder="If found, please return to the registrar."
+            className={`w-full px-3 py-2 resize-none ${inputClass(errors.backText)} h-auto`}
+          />
+          {errors.backText && <p className="text-red-400 text-xs mt-1">{errors.backText}</p>}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2 justify-end">
+        {canDelete && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => deleteMutation.mutate()}
+            disabled={isSaving}
+            className="h-9 mr-auto rounded-lg border-red-600 bg-red-900/20 text-red-400 hover:bg-red-900/40 hover:text-red-300"
+          >
+            <Trash2 className="w-4 h-4 mr-1" />
+            Delete
+          </Button>
+        )}
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onCancel}
+          disabled={isSaving}
+          className="h-9 rounded-lg bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+        >
+          Cancel
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => save(true)}
+          disabled={isSaving}
+          className="h-9 rounded-lg bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+        >
+          Save as New
+        </Button>
+        <Button
+          type="button"
+          onClick={() => save(false)}
+          disabled={isSaving}
+          className="h-9 rounded-lg bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 border-0"
+        >
+          <Save className="w-4 h-4 mr-1" />
+          {saveMutation.isPending ? 'Saving...' : 'Save Template'}
+        </Button>
+      </div>
+    </div>
+  )
+}
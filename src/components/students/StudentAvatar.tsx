@@ -0,0 +1,33 @@
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import { cn } from '@/lib/utils'
+
+interface StudentAvatarProps {
+  student: { firstName?: string; lastName?: string; profilePhoto?: string }
+  className?: string
+  fallbackClassName?: string
+}
+
+/**
+ * A student's profile photo, falling back to their initials when there is no
+ * photo or it fails to load
+ */
+export default function StudentAvatar({
+  student,
+  className,
+  fallbackClassName,
+}: StudentAvatarProps) {
+  const initials = `${student.firstName?.[0] ?? ''}${student.lastName?.[0] ?? ''}`.toUpperCase()
+
+  return (
+    <Avatar className={cn('w-9 h-9', className)}>
+      {student.profilePhoto && (
+        <AvatarImage src={student.profilePhoto} alt={`${student.firstName} ${student.lastName}`} />
+      )}
+      <AvatarFallback
+        className={cn('bg-slate-700 text-xs font-bold text-slate-300', fallbackClassName)}
+      >
+        {initials || '?'}
+      </AvatarFallback>
+    </Avatar>
+  )
+}
@@ -0,0 +1,625 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import {
+  AlertTriangle,
+  ArrowLeft,
+  ArrowRight,
+  CheckCircle2,
+  Download,
+  FileSpreadsheet,
+  FlaskConical,
+  Upload,
+  X,
+  XCircle,
+} from 'lucide-react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Button } from '@/components/ui/button'
+import { studentService } from '@/services/student.service'
+import { useCurrentSchool } from '@/store/schoolStore'
+import { useToast } from '@/store/toastStore'
+import {
+  ImportConflictAction,
+  StudentColumnMapping,
+  StudentImportResult,
+  StudentImportRowResult,
+} from '@/types'
+import { cn } from '@/lib/utils'
+import { STUDENT_IMPORT_MAX_ROWS } from '@/utils/constants'
+import { generateStudentTemplate } from '@/utils/excelUtils'
+import { getErrorMessage } from '@/utils/errorHandling'
+import {
+  SpreadsheetData,
+  STUDENT_IMPORT_FIELDS,
+  StudentImportPreviewRow,
+  applyColumnMapping,
+  buildImportRows,
+  downloadImportErrorReport,
+  getConflictActions,
+  getUnmappedRequiredFields,
+  previewStudentImport,
+  readSpreadsheet,
+  suggestColumnMapping,
+} from '@/utils/studentImportUtils'
+
+interface StudentImportWizardProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+type WizardStep = 'upload' | 'map' | 'preview' | 'done'
+
+const STEPS: { id: WizardStep; label: string }[] = [
+  { id: 'upload', label: 'Upload' },
+  { id: 'map', label: 'Map Columns' },
+  { id: 'preview', label: 'Preview' },
+  { id: 'done', label: 'Done' },
+]
+
+const ACTION_LABELS: Record<ImportConflictAction, string> = {
+  skip: 'Skip',
+  update: 'Update existing',
+  create: 'Create new',
+}
+
+const OUTCOME_STYLES: Record<StudentImportRowResult['outcome'], string> = {
+  created: 'text-emerald-300',
+  updated: 'text-blue-300',
+  skipped: 'text-slate-400',
+  failed: 'text-red-400',
+}
+
+const rowHasErrors = (row: StudentImportPreviewRow) => Object.keys(row.errors).length > 0
+
+/**
+ * Import students from Excel in four steps: upload a sheet, map its columns
+ * onto student fields, review every row (choosing what to do with students
+ * that already exist) and dry-run, then import and download any errors.
+ */
+export default function StudentImportWizard({ isOpen, onClose }: StudentImportWizardProps) {
+  const [step, setStep] = useState<WizardStep>('upload')
+  const [fileName, setFileName] = useState('')
+  const [sheet, setSheet] = useState<SpreadsheetData | null>(null)
+  const [mapping, setMapping] = useState<StudentColumnMapping>({})
+  const [actions, setActions] = useState<{ [row: number]: ImportConflictAction }>({})
+  const [dryRun, setDryRun] = useState<StudentImportResult | null>(null)
+  // The import's outcome with the preview it was run from, kept for the report
+  const [result, setResult] = useState<{
+    imported: StudentImportResult
+    preview: StudentImportPreviewRow[]
+  } | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const school = useCurrentSchool()?.settings
+  const { addToast } = useToast()
+  const queryClient = useQueryClient()
+
+  const { data: existingStudents = [] } = useQuery({
+    queryKey: ['students'],
+    queryFn: () => studentService.getAll(),
+    enabled: isOpen,
+  })
+
+  useEffect(() => {
+    if (isOpen) {
+      setStep('upload')
+      setFileName('')
+      setSheet(null)
+      setMapping({})
+      setActions({})
+      setDryRun(null)
+      setResult(null)
+    }
+  }, [isOpen])
+
+  const preview = useMemo(
+    () =>
+      sheet && step === 'preview'
+        ? previewStudentImport(applyColumnMapping(sheet, mapping), existingStudents, school)
+        : [],
+    [sheet, mapping, existingStudents, school, step]
+  )
+  const importRows = useMemo(() => buildImportRows(preview, actions), [preview, actions])
+  const applyCount = importRows.filter((row) => row.action !== 'skip').length
+  const invalidCount = preview.filter(rowHasErrors).length
+  const conflictCount = preview.filter((row) => row.conflict && !rowHasErrors(row)).length
+  const missingFields = getUnmappedRequiredFields(mapping)
+
+  const dryRunMutation = useMutation({
+    mutationFn: () => studentService.bulkImport(importRows, { dryRun: true }),
+    onSuccess: setDryRun,
+    onError: (error) => addToast(getErrorMessage(error), 'error'),
+  })
+
+  const importMutation = useMutation({
+    mutationFn: () => studentService.bulkImport(importRows),
+    onSuccess: (imported) => {
+      queryClient.invalidateQueries({ queryKey: ['students'] })
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] })
+      setResult({ imported, preview })
+      setStep('done')
+      addToast(
+        `Imported ${imported.created + imported.updated} student${imported.created + imported.updated !== 1 ? 's' : ''}${imported.failed > 0 ? `, ${imported.failed} failed` : ''}`,
+        imported.failed > 0 ? 'info' : 'success'
+      )
+    },
+    onError: (error) => addToast(getErrorMessage(error), 'error'),
+  })
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    if (!file.name.match(/\.(xlsx|xls)$/i)) {
+      addToast('Please select a valid Excel file (.xlsx or .xls)', 'error')
+      return
+    }
+
+    try {
+      const data = await readSpreadsheet(file)
+      if (data.columns.length === 0 || data.rows.length === 0) {
+        addToast('The first sheet has no header row or no data', 'error')
+        return
+      }
+      if (data.rows.length > STUDENT_IMPORT_MAX_ROWS) {
+        addToast(`Import at most ${STUDENT_IMPORT_MAX_ROWS} rows at a time`, 'error')
+        return
+      }
+      setFileName(file.name)
+      setSheet(data)
+      setMapping(suggestColumnMapping(data.columns))
+      setStep('map')
+    } catch (error) {
+      addToast(getErrorMessage(error), 'error')
+    }
+  }
+
+  const setAction = (row: number, action: ImportConflictAction) => {
+    setActions((prev) => ({ ...prev, [row]: action }))
+    setDryRun(null)
+  }
+
+  const setAllConflictActions = (action: 'skip' | 'update') => {
+    const next: { [row: number]: ImportConflictAction } = {}
+    preview.forEach((row) => {
+      if (row.conflict) next[row.row] = action
+    })
+    setActions(next)
+    setDryRun(null)
+  }
+
+  // Rows held back by the preview count as failed too
+  const failedCount = result
+    ? result.imported.failed + result.preview.filter(rowHasErrors).length
+    : 0
+  const dryRunByRow = new Map(dryRun?.rows.map((r) => [r.row, r]))
+  const stepIndex = STEPS.findIndex((s) => s.id === step)
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/70 backdrop-blur-md z-50"
+          />
+
+          {/* Modal */}
+          <div className="fixed inset-0 flex items-center justify-center z-50 p-4">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              transition={{ type: 'spring', duration: 0.5 }}
+              className="bg-slate-800/95 backdrop-blur-xl rounded-3xl shadow-enterprise-2xl border border-slate-700/50 w-full max-w-5xl max-h-[90vh] flex flex-col"
+            >
+              {/* Header */}
+              <div className="bg-gradient-to-r from-blue-600 via-blue-700 to-indigo-700 text-white p-6 rounded-t-3xl shadow-lg border-b border-blue-500/30">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <div className="bg-white/20 p-2 rounded-xl backdrop-blur-sm border border-white/30">
+                      <FileSpreadsheet className="w-6 h-6" />
+                    </div>
+                    <div>
+                      <h2 className="text-2xl font-bold">Import Students</h2>
+                      <p className="text-blue-100 text-sm mt-1">
+                        {fileName || 'Add or update students from an Excel sheet'}
+                      </p>
+                    </div>
+                  </div>
+                  <motion.button
+                    whileHover={{ scale: 1.1, rotate: 90 }}
+                    whileTap={{ scale: 0.9 }}
+                    onClick={onClose}
+                    className="p-2 hover:bg-white/20 rounded-xl transition-colors"
+                  >
+                    <X className="w-6 h-6" />
+                  </motion.button>
+                </div>
+
+                {/* Steps */}
+                <ol className="flex items-center gap-2 mt-5 text-sm">
+                  {STEPS.map((s, index) => (
+                    <li key={s.id} className="flex items-center gap-2">
+                      <span
+                        className={cn(
+                          'w-6 h-6 rounded-full flex items-center justify-center text-xs font-semibold',
+                          index <= stepIndex ? 'bg-white text-blue-700' : 'bg-white/20 text-white'
+                        )}
+                      >
+                        {index + 1}
+                      </span>
+                      <span className={index === stepIndex ? 'font-semibold' : 'text-blue-100'}>
+                        {s.label}
+                      </span>
+                      {index < STEPS.length - 1 && <span className="w-6 h-px bg-white/30" />}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+
+              <div className="p-8 overflow-y-auto thin-scrollbar flex-1">
+                {step === 'upload' && (
+                  <div className="space-y-6 text-center">
+                    <button
+                      type="button"
+                      onClick={() => fileInputRef.current?.click()}
+                      className="w-full border-2 border-dashed border-slate-600 hover:border-blue-500 rounded-2xl p-10 transition-colors group"
+                    >
+                      <Upload className="w-10 h-10 mx-auto text-slate-500 group-hover:text-blue-400" />
+                      <p className="mt-3 text-slate-200 font-medium">Choose an Excel file</p>
+                      <p className="text-sm text-slate-500 mt-1">
+                        .xlsx or .xls, first sheet, one student per row, up to{' '}
+                        {STUDENT_IMPORT_MAX_ROWS} rows
+                      </p>
+                    </button>
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept=".xlsx,.xls"
+                      onChange={handleFile}
+                      className="hidden"
+                    />
+                    <button
+                      type="button"
+                      onClick={generateStudentTemplate}
+                      className="inline-flex items-center gap-2 text-sm text-blue-400 hover:text-blue-300 hover:underline"
+                    >
+                      <Download className="w-4 h-4" />
+                      Download the template
+                    </button>
+                  </div>
+                )}
+
+                {step === 'map' && sheet && (
+                  <div className="space-y-4">
+                    <p className="text-sm text-slate-400">
+                      Choose the column each field is read from. Columns with matching headers are
+                      picked automatically. {sheet.rows.length} row
+                      {sheet.rows.length !== 1 ? 's' : ''} found.
+                    </p>
+                    <div className="grid sm:grid-cols-2 gap-4">
+                      {STUDENT_IMPORT_FIELDS.map(({ field, label, required }) => (
+                        <label key={field} className="block">
+                          <span className="block text-sm font-medium text-slate-300 mb-1">
+                            {label}
+                            {required && ' *'}
+                          </span>
+                          <select
+                            value={mapping[field] ?? ''}
+                            onChange={(e) =>
+                              setMapping((prev) => ({
+                                ...prev,
+                                [field]: e.target.value || undefined,
+                              }))
+                            }
+                            className="w-full h-11 rounded-xl border-2 border-slate-600 bg-slate-900/50 px-3 text-sm text-slate-100 focus:border-blue-500 focus:outline-none"
+                          >
+                            <option value="">Don&apos;t import</option>
+                            {sheet.columns.map((column) => (
+                              <option key={column} value={column}>
+                                {column}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                      ))}
+                    </div>
+                    {missingFields.length > 0 && (
+                      <p className="text-sm text-amber-300">
+                        Choose a column for: {missingFields.join(', ')}
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {step === 'preview' && (
+                  <div className="space-y-4">
+                    <div className="flex flex-wrap items-center gap-3 text-sm">
+                      <span className="px-3 py-1 rounded-full bg-emerald-500/20 text-emerald-300 border border-emerald-500/30">
+                        {preview.length - invalidCount - conflictCount} new
+                      </span>
+                      <span className="px-3 py-1 rounded-full bg-amber-500/20 text-amber-300 border border-amber-500/30">
+                        {conflictCount} already exist
+                      </span>
+                      <span className="px-3 py-1 rounded-full bg-red-500/20 text-red-300 border border-red-500/30">
+                        {invalidCount} with errors (not imported)
+                      </span>
+                      {conflictCount > 0 && (
+                        <span className="ml-auto flex items-center gap-2 text-slate-400">
+                          All existing:
+                          <button
+                            type="button"
+                            onClick={() => setAllConflictActions('skip')}
+                            className="text-blue-400 hover:underline"
+                          >
+                            skip
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setAllConflictActions('update')}
+                            className="text-blue-400 hover:underline"
+                          >
+                            update
+                          </button>
+                        </span>
+                      )}
+                    </div>
+
+                    <div className="rounded-xl border border-slate-700/50 overflow-hidden">
+                      <table className="w-full text-sm">
+                        <thead className="bg-slate-900/60 text-slate-300">
+                          <tr>
+                            <th className="text-left p-3 font-semibold">Row</th>
+                            <th className="text-left p-3 font-semibold">Student</th>
+                            <th className="text-left p-3 font-semibold">Existing Student</th>
+                            <th className="text-left p-3 font-semibold">Action</th>
+                            <th className="text-left p-3 font-semibold">Dry Run</th>
+                          </tr>
+                        </thead>
+                        <tbody className="bg-slate-900/40">
+                          {preview.map((row) => {
+                            const errors = Object.values(row.errors)
+                            const outcome = dryRunByRow.get(row.row)
+                            return (
+                              <tr key={row.row} className="border-t border-slate-700/30 align-top">
+                                <td className="p-3 text-slate-500">{row.row}</td>
+                                <td className="p-3">
+                                  <p className="text-slate-200">
+                                    {row.data.studentNumber} · {row.data.firstName}{' '}
+                                    {row.data.lastName}
+                                  </p>
+                                  <p className="text-xs text-slate-500">{row.data.email}</p>
+                                  {errors.map((error) => (
+                                    <p key={error} className="text-xs text-red-400 mt-1">
+                                      {error}
+                                    </p>
+                                  ))}
+                                </td>
+                                <td className="p-3 text-slate-300">
+                                  {row.conflict ? (
+                                    <>
+                                      <p>
+                                        {row.conflict.firstName} {row.conflict.lastName}
+                                      </p>
+                                      <p className="text-xs text-amber-300">
+                                        Same{' '}
+                                        {row.conflictFields
+                                          .map((f) =>
+                                            f === 'studentNumber' ? 'student number' : 'email'
+                                          )
+                                          .join(' and ')}
+                                      </p>
+                                    </>
+                                  ) : (
+                                    <span className="text-slate-600">—</span>
+                                  )}
+                                </td>
+                                <td className="p-3">
+                                  {rowHasErrors(row) ? (
+                                    <span className="text-red-400">Not imported</span>
+                                  ) : row.conflict ? (
+                                    <select
+                                      value={actions[row.row] ?? 'skip'}
+                                      onChange={(e) =>
+                                        setAction(row.row, e.target.value as ImportConflictAction)
+                                      }
+                                      aria-label={`Action for row ${row.row}`}
+                                      className="h-9 rounded-lg border border-slate-600 bg-slate-900/50 px-2 text-sm text-slate-100 focus:border-blue-500 focus:outline-none"
+                                    >
+                                      {getConflictActions(row).map((action) => (
+                                        <option key={action} value={action}>
+                                          {ACTION_LABELS[action]}
+                                        </option>
+                                      ))}
+                                    </select>
+                                  ) : (
+                                    <span className="text-emerald-300">Create</span>
+                                  )}
+                                </td>
+                                <td className="p-3">
+                                  {outcome ? (
+                                    <>
+                                      <span
+                                        className={cn(
+                                          'capitalize',
+                                          OUTCOME_STYLES[outcome.outcome]
+                                        )}
+                                      >
+                                        {outcome.outcome === 'created' &&
+                                        outcome.studentNumber !== row.data.studentNumber
+                                          ? `Created as ${outcome.studentNumber}`
+                                          : outcome.outcome}
+                                      </span>
+                                      {Object.values(outcome.errors ?? {})
+                                        .flat()
+                                        .map((error) => (
+                                          <p key={error} className="text-xs text-red-400 mt-1">
+                                            {error}
+                                          </p>
+                                        ))}
+                                    </>
+                                  ) : (
+                                    <span className="text-slate-600">—</span>
+                                  )}
+                                </td>
+                              </tr>
+                            )
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+
+                    {dryRun && (
+                      <p className="text-sm text-slate-300">
+                        Dry run: {dryRun.created} would be created, {dryRun.updated} updated,{' '}
+                        {dryRun.skipped} skipped and {dryRun.failed} would fail. Nothing has been
+                        saved yet.
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {step === 'done' && result && (
+                  <div className="space-y-6 text-center">
+                    {failedCount > 0 ? (
+                      <AlertTriangle className="w-12 h-12 mx-auto text-amber-400" />
+                    ) : (
+                      <CheckCircle2 className="w-12 h-12 mx-auto text-emerald-400" />
+                    )}
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                      {[
+                        {
+                          label: 'Created',
+                          value: result.imported.created,
+                          color: 'text-emerald-300',
+                        },
+                        {
+                          label: 'Updated',
+                          value: result.imported.updated,
+                          color: 'text-blue-300',
+                        },
+                        {
+                          label: 'Skipped',
+                          value: result.imported.skipped,
+                          color: 'text-slate-300',
+                        },
+                        { label: 'Failed', value: failedCount, color: 'text-red-300' },
+                      ].map(({ label, value, color }) => (
+                        <div
+                          key={label}
+                          className="rounded-xl bg-slate-900/50 border border-slate-700/50 p-4"
+                        >
+                          <p className={cn('text-2xl font-bold', color)}>{value}</p>
+                          <p className="text-xs text-slate-400 mt-1">{label}</p>
+                        </div>
+                      ))}
+                    </div>
+                    {failedCount > 0 && (
+                      <div className="space-y-3">
+                        <p className="text-sm text-slate-400 flex items-center justify-center gap-2">
+                          <XCircle className="w-4 h-4 text-red-400" />
+                          Some rows were not imported. The report lists each problem by row.
+                        </p>
+                        <Button
+                          type="button"
+                          onClick={() => downloadImportErrorReport(result.preview, result.imported)}
+                          className="h-11 px-6 rounded-xl bg-slate-700 hover:bg-slate-600 border-0"
+                        >
+                          <Download className="w-4 h-4 mr-2" />
+                          Download Error Report
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {/* Actions */}
+              <div className="flex gap-3 p-6 border-t border-slate-700/50">
+                {step === 'map' && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setStep('upload')}
+                    className="h-12 rounded-xl bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+                  >
+                    <ArrowLeft className="w-4 h-4 mr-2" />
+                    Choose Another File
+                  </Button>
+                )}
+                {step === 'preview' && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => {
+                      setStep('map')
+                      setDryRun(null)
+                    }}
+                    disabled={importMutation.isPending}
+                    className="h-12 rounded-xl bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+                  >
+                    <ArrowLeft className="w-4 h-4 mr-2" />
+                    Back to Mapping
+                  </Button>
+                )}
+                <div className="ml-auto flex gap-3">
+                  {step === 'map' && (
+                    <Button
+                      type="button"
+                      onClick={() => {
+                        setActions({})
+                        setStep('preview')
+                      }}
+                      disabled={missingFields.length > 0}
+                      className="h-12 rounded-xl bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 border-0"
+                    >
+                      Preview Rows
+                      <ArrowRight className="w-4 h-4 ml-2" />
+                    </Button>
+                  )}
+                  {step === 'preview' && (
+                    <>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => dryRunMutation.mutate()}
+                        disabled={importRows.length === 0 || dryRunMutation.isPending}
+                        className="h-12 rounded-xl bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+                      >
+                        <FlaskConical className="w-4 h-4 mr-2" />
+                        {dryRunMutation.isPending ? 'Checking...' : 'Dry Run'}
+                      </Button>
+                      <Button
+                        type="button"
+                        onClick={() => importMutation.mutate()}
+                        disabled={!dryRun || applyCount === 0 || importMutation.isPending}
+                        title={dryRun ? undefined : 'Run a dry run first'}
+                        className="h-12 rounded-xl bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 border-0"
+                      >
+                        {importMutation.isPending
+                          ? 'Importing...'
+                          : `Import ${applyCount} Row${applyCount !== 1 ? 's' : ''}`}
+                      </Button>
+                    </>
+                  )}
+                  {(step === 'upload' || step === 'done') && (
+                    <Button
+                      type="button"
+                      onClick={onClose}
+                      className="h-12 px-8 rounded-xl bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 border-0"
+                    >
+                      {step === 'done' ? 'Done' : 'Cancel'}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </motion.div>
+          </div>
+        </>
+      )}
+    </AnimatePresence>
+  )
+}
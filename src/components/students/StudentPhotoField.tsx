@@ -0,0 +1,239 @@
+import { useEffect, useRef, useState } from 'react'
+import { Camera, Trash2, ZoomIn, ZoomOut } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import StudentAvatar from '@/components/students/StudentAvatar'
+import { useToast } from '@/store/toastStore'
+import {
+  centerPhotoFrame,
+  clampPhotoFrame,
+  cropPhoto,
+  loadImage,
+  PhotoFrame,
+} from '@/utils/photoUtils'
+import { ALLOWED_MIME_TYPES, validators, VALIDATION_CONSTANTS } from '@/utils/validation-rules'
+
+// Side of the square crop area in pixels
+const CROP_SIZE = 224
+const MAX_ZOOM = 3
+
+/**
+ * Photo picked in the form: a cropped image to upload, null to remove the
+ * current photo, or undefined to leave it as it is
+ */
+export type StudentPhotoChange = Blob | null | undefined
+
+interface StudentPhotoFieldProps {
+  student: { firstName?: string; lastName?: string; profilePhoto?: string }
+  value: StudentPhotoChange
+  onChange: (photo: StudentPhotoChange) => void
+  disabled?: boolean
+}
+
+/**
+ * Pick a profile photo, then drag and zoom it inside a square frame. The
+ * framed part is resized and re-encoded in the browser before upload.
+ */
+export default function StudentPhotoField({
+  student,
+  value,
+  onChange,
+  disabled = false,
+}: StudentPhotoFieldProps) {
+  const [cropping, setCropping] = useState<{ image: HTMLImageElement; url: string } | null>(null)
+  const [frame, setFrame] = useState<PhotoFrame>({ zoom: 1, x: 0, y: 0 })
+  const [preview, setPreview] = useState<string>()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const dragRef = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null)
+  const { addToast } = useToast()
+
+  // Object URL for the picked photo, released when it changes
+  useEffect(() => {
+    if (!value) {
+      setPreview(undefined)
+      return
+    }
+    const url = URL.createObjectURL(value)
+    setPreview(url)
+    return () => URL.revokeObjectURL(url)
+  }, [value])
+
+  useEffect(() => {
+    return () => {
+      if (cropping) URL.revokeObjectURL(cropping.url)
+    }
+  }, [cropping])
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    const result = validators.profilePhoto(file)
+    if (!result.isValid) {
+      addToast(result.error ?? 'This photo cannot be used', 'error')
+      return
+    }
+
+    try {
+      const image = await loadImage(file)
+      setFrame(centerPhotoFrame(image, CROP_SIZE))
+      setCropping({ image, url: URL.createObjectURL(file) })
+    } catch (error) {
+      addToast(error instanceof Error ? error.message : 'Failed to read the photo', 'error')
+    }
+  }
+
+  const handleZoom = (zoom: number) => {
+    if (!cropping) return
+    // Zoom around the centre of the crop area
+    const ratio = zoom / frame.zoom
+    const center = CROP_SIZE / 2
+    setFrame(
+      clampPhotoFrame(cropping.image, CROP_SIZE, {
+        zoom,
+        x: center - (center - frame.x) * ratio,
+        y: center - (center - frame.y) * ratio,
+      })
+    )
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    dragRef.current = { pointerX: e.clientX, pointerY: e.clientY, x: frame.x, y: frame.y }
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current
+    if (!drag || !cropping) return
+    setFrame(
+      clampPhotoFrame(cropping.image, CROP_SIZE, {
+        zoom: frame.zoom,
+        x: drag.x + e.clientX - drag.pointerX,
+        y: drag.y + e.clientY - drag.pointerY,
+      })
+    )
+  }
+
+  const handleApply = async () => {
+    if (!cropping) return
+    try {
+      onChange(await cropPhoto(cropping.image, CROP_SIZE, frame))
+      setCropping(null)
+    } catch (error) {
+      addToast(error instanceof Error ? error.message : 'Failed to process the photo', 'error')
+    }
+  }
+
+  if (cropping) {
+    const scale =
+      (CROP_SIZE / Math.min(cropping.image.naturalWidth, cropping.image.naturalHeight)) * frame.zoom
+    return (
+      <div className="flex flex-col items-center gap-4">
+        <div
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => (dragRef.current = null)}
+          onPointerCancel={() => (dragRef.current = null)}
+          className="relative overflow-hidden rounded-2xl bg-slate-900 cursor-move touch-none select-none"
+          style={{ width: CROP_SIZE, height: CROP_SIZE }}
+        >
+          <img
+            src={cropping.url}
+            alt=""
+            draggable={false}
+            className="absolute max-w-none pointer-events-none"
+            style={{
+              left: frame.x,
+              top: frame.y,
+              width: cropping.image.naturalWidth * scale,
+              height: cropping.image.naturalHeight * scale,
+            }}
+          />
+          {/* Circle showing how the avatar will be cut */}
+          <div className="absolute inset-0 rounded-full shadow-[0_0_0_9999px_rgba(15,23,42,0.6)] pointer-events-none" />
+        </div>
+        <div className="flex items-center gap-3 w-full max-w-xs">
+          <ZoomOut className="w-4 h-4 text-slate-400" />
+          <input
+            type="range"
+            min={1}
+            max={MAX_ZOOM}
+            step={0.01}
+            value={frame.zoom}
+            onChange={(e) => handleZoom(Number(e.target.value))}
+            className="flex-1 accent-blue-500"
+            aria-label="Zoom"
+          />
+          <ZoomIn className="w-4 h-4 text-slate-400" />
+        </div>
+        <div className="flex gap-3">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setCropping(null)}
+            className="h-10 rounded-xl bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleApply}
+            className="h-10 rounded-xl bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 border-0"
+          >
+            Use Photo
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  const hasPhoto = value === undefined ? Boolean(student.profilePhoto) : value !== null
+
+  return (
+    <div className="flex items-center gap-5">
+      <StudentAvatar
+        student={{
+          ...student,
+          profilePhoto: value === undefined ? student.profilePhoto : preview,
+        }}
+        className="w-20 h-20"
+        fallbackClassName="text-2xl"
+      />
+      <div className="space-y-2">
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={disabled}
+            className="h-10 rounded-xl border-slate-600 bg-slate-800/80 text-slate-200 hover:bg-slate-700 hover:text-white"
+          >
+            <Camera className="w-4 h-4 mr-2" />
+            {hasPhoto ? 'Change Photo' : 'Upload Photo'}
+          </Button>
+          {hasPhoto && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onChange(student.profilePhoto ? null : undefined)}
+              disabled={disabled}
+              className="h-10 rounded-xl border-red-600/50 bg-red-900/20 text-red-400 hover:bg-red-900/40 hover:text-red-300"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-slate-500">
+          JPEG, PNG, GIF or WebP, up to {VALIDATION_CONSTANTS.PROFILE_PHOTO_MAX_MB} MB
+        </p>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ALLOWED_MIME_TYPES.PROFILE_PHOTO.join(',')}
+          onChange={handleFileChange}
+          className="hidden"
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,57 @@
+import { Check } from 'lucide-react'
+import { EntityId, SubjectInstructor } from '@/types'
+import { cn } from '@/lib/utils'
+
+interface InstructorPickerProps {
+  instructors: SubjectInstructor[]
+  value: EntityId[]
+  onChange: (instructorIds: EntityId[]) => void
+  disabled?: boolean
+}
+
+/**
+ * Toggle chips for choosing a subject's instructor accounts
+ */
+export default function InstructorPicker({
+  instructors,
+  value,
+  onChange,
+  disabled = false,
+}: InstructorPickerProps) {
+  if (instructors.length === 0) {
+    return <p className="text-sm text-slate-500">No accounts can be assigned as instructors yet.</p>
+  }
+
+  const isAssigned = (id: EntityId) => value.some((v) => String(v) === String(id))
+
+  const toggle = (id: EntityId) => {
+    onChange(isAssigned(id) ? value.filter((v) => String(v) !== String(id)) : [...value, id])
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {instructors.map((instructor) => {
+        const isSelected = isAssigned(instructor.id)
+        return (
+          <button
+            key={instructor.id}
+            type="button"
+            onClick={() => toggle(instructor.id)}
+            disabled={disabled}
+            title={instructor.email}
+            aria-pressed={isSelected}
+            className={cn(
+              'inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium border transition-colors disabled:opacity-60 disabled:cursor-not-allowed',
+              isSelected
+                ? 'bg-purple-500/20 text-purple-200 border-purple-500/40 hover:bg-purple-500/30'
+                : 'bg-slate-800/60 text-slate-400 border-slate-600 hover:bg-slate-700 hover:text-slate-200'
+            )}
+          >
+            {isSelected && <Check className="w-3.5 h-3.5" />}
+            {instructor.name}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
@@ -14,6 +14,8 @@ interface ConfirmationDialogProps {
   isOpen: boolean
   onClose: () => void
   onConfirm: () => void
+  /** Called by the cancel button instead of onClose, when it should do more than dismiss */
+  onCancel?: () => void
   title: string
   description: string
   confirmText?: string
@@ -30,6 +32,7 @@ export function ConfirmationDialog({
   isOpen,
   onClose,
   onConfirm,
+  onCancel,
   title,
   description,
   confirmText = 'Confirm',
@@ -58,7 +61,7 @@ export function ConfirmationDialog({
         <DialogFooter className="gap-2 sm:gap-0">
           <Button
             variant="outline"
-            onClick={onClose}
+            onClick={onCancel ?? onClose}
             disabled={isLoading}
             className="border-slate-600 bg-slate-900/50 hover:bg-slate-700 text-slate-200"
           >
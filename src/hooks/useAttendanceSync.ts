@@ -0,0 +1,229 @@
+import { useEffect } from 'react'
+import { QueryClient, useQueryClient } from '@tanstack/react-query'
+import { NewOutboxEntry, OutboxEntry, isApiError } from '@/types'
+import { useAuthStore } from '@/store/authStore'
+import { useOutboxStore } from '@/store/outboxStore'
+import { useSchoolStore } from '@/store/schoolStore'
+import { useToastStore } from '@/store/toastStore'
+import { subjectAttendanceService } from '@/services/subject-attendance.service'
+import { enhancedAttendanceService } from '@/services/enhanced-attendance.service'
+import { isOfflineError } from '@/services/attendance-outbox.service'
+import { getErrorMessage, isConflictError, logError } from '@/utils/errorHandling'
+
+// `retry`: offline or a temporary server failure; the entry stays pending
+type ReplayOutcome = 'replayed' | 'conflict' | 'failed' | 'retry'
+
+/**
+ * Whether an entry was queued by the signed-in user, in a school they can
+ * still send to. Entries without a school are only sent while no school is
+ * selected, as both mean the user's default school.
+ */
+function belongsToSession(entry: OutboxEntry): boolean {
+  const user = useAuthStore.getState().user
+  const { schools, currentSchoolId } = useSchoolStore.getState()
+  if (!user || entry.userId === null || String(entry.userId) !== String(user.id)) return false
+  if (entry.schoolId === null) return currentSchoolId === null
+  return schools.some((s) => String(s.id) === String(entry.schoolId))
+}
+
+function sendEntry(entry: OutboxEntry) {
+  const options = { queueOffline: false, schoolId: entry.schoolId }
+  switch (entry.operation) {
+    case 'subject-mark':
+      return subjectAttendanceService.markSubjectAttendance(entry.payload, options)
+    case 'subject-bulk-mark':
+      return subjectAttendanceService.bulkMarkSubjectAttendance(entry.payload, options)
+    case 'mark':
+      return enhancedAttendanceService.markAttendance(entry.payload, options)
+  }
+}
+
+// Rejections that would fail again on every retry (validation, unknown student)
+const PERMANENT_REJECTIONS = [400, 404, 422]
+
+function isPermanentRejection(error: unknown): boolean {
+  return isApiError(error) && PERMANENT_REJECTIONS.includes(error.status)
+}
+
+/**
+ * Replay a bulk mark one student at a time after the bulk call hit a 409,
+ * so only the students that clash end up needing manual resolution.
+ * Students not sent yet stay in the bulk entry, keeping its place in the
+ * queue, and the replay stops as soon as the app is offline or the server
+ * fails. Students the server rejects for good are dropped.
+ */
+async function replayBulkIndividually(
+  entry: Extract<OutboxEntry, { operation: 'subject-bulk-mark' }>
+): Promise<ReplayOutcome> {
+  const { enqueue, updateEntry, removeEntry } = useOutboxStore.getState()
+  const { subjectId, date, status, timeSlot, scheduleSlot, notes, remarks } = entry.payload
+  const remaining = [...entry.studentIds]
+  let outcome: ReplayOutcome = 'replayed'
+
+  while (remaining.length > 0) {
+    if (!navigator.onLine) {
+      outcome = 'retry'
+      break
+    }
+
+    const studentId = remaining[0]
+    const single: NewOutboxEntry = {
+      operation: 'subject-mark',
+      payload: { subjectId, studentId, date, status, timeSlot, scheduleSlot, notes, remarks },
+      userId: entry.userId,
+      schoolId: entry.schoolId,
+      subjectId: entry.subjectId,
+      studentIds: [studentId],
+      date: entry.date,
+      attendanceStatus: entry.attendanceStatus,
+    }
+
+    try {
+      await subjectAttendanceService.markSubjectAttendance(single.payload, {
+        queueOffline: false,
+        schoolId: entry.schoolId,
+      })
+    } catch (error) {
+      if (isConflictError(error)) {
+        const queued = await enqueue(single)
+        await updateEntry({ ...queued, status: 'conflict', lastError: getErrorMessage(error) })
+        outcome = 'conflict'
+      } else if (isPermanentRejection(error)) {
+        logError('AttendanceSync', 'replayBulkIndividually', error)
+        outcome = 'failed'
+      } else {
+        // Offline or a server failure: retry from this student on the next sync
+        if (!isOfflineError(error)) logError('AttendanceSync', 'replayBulkIndividually', error)
+        outcome = 'retry'
+        break
+      }
+    }
+    remaining.shift()
+  }
+
+  if (remaining.length === 0) {
+    await removeEntry(entry.id)
+  } else {
+    await updateEntry({
+      ...entry,
+      studentIds: remaining,
+      payload: { ...entry.payload, studentIds: remaining },
+    })
+  }
+  return outcome
+}
+
+async function replayEntry(entry: OutboxEntry): Promise<ReplayOutcome> {
+  const { updateEntry, removeEntry } = useOutboxStore.getState()
+
+  try {
+    await sendEntry(entry)
+    await removeEntry(entry.id)
+    return 'replayed'
+  } catch (error) {
+    if (isConflictError(error)) {
+      if (entry.operation === 'subject-bulk-mark' && entry.studentIds.length > 1) {
+        return replayBulkIndividually(entry)
+      }
+      await updateEntry({ ...entry, status: 'conflict', lastError: getErrorMessage(error) })
+      return 'conflict'
+    }
+    if (isPermanentRejection(error)) {
+      logError('AttendanceSync', 'replayEntry', error)
+      await updateEntry({ ...entry, status: 'failed', lastError: getErrorMessage(error) })
+      return 'failed'
+    }
+
+    // Offline, a timeout or a 5xx: keep the entry pending for the next sync
+    if (!isOfflineError(error)) logError('AttendanceSync', 'replayEntry', error)
+    return 'retry'
+  }
+}
+
+/**
+ * Replay pending outbox entries in the order they were queued, each to the
+ * school it was taken in. Entries of another account are left alone.
+ * Stops when the app goes offline or at the first network or server failure
+ * so later marks never overtake earlier ones.
+ */
+export async function replayAttendanceOutbox(queryClient: QueryClient): Promise<void> {
+  const { isSyncing, setSyncing } = useOutboxStore.getState()
+  if (isSyncing) return
+
+  setSyncing(true)
+  const counts = { replayed: 0, conflict: 0, failed: 0 }
+  const touchedSubjects = new Set<string | number | undefined>()
+
+  try {
+    const pending = useOutboxStore.getState().entries.filter((e) => e.status === 'pending')
+    for (const entry of pending) {
+      if (!navigator.onLine) break
+      // Checked per entry: the user can log out or leave a school mid-replay
+      if (!belongsToSession(entry)) continue
+      const outcome = await replayEntry(entry)
+      // A bulk mark can stop part-way, after some of its students were sent
+      touchedSubjects.add(entry.subjectId)
+      if (outcome === 'retry') break
+      counts[outcome]++
+    }
+  } finally {
+    setSyncing(false)
+  }
+
+  touchedSubjects.forEach((subjectId) => {
+    if (subjectId !== undefined) {
+      queryClient.invalidateQueries({ queryKey: ['subjects', subjectId, 'attendance'] })
+    }
+  })
+  if (touchedSubjects.size > 0) {
+    queryClient.invalidateQueries({ queryKey: ['attendance-records'] })
+    queryClient.invalidateQueries({ queryKey: ['today-attendance-stats'] })
+  }
+
+  const { addToast } = useToastStore.getState()
+  if (counts.replayed > 0) {
+    addToast({
+      type: 'success',
+      title: 'Back Online',
+      message: `Synced ${counts.replayed} offline attendance mark(s)`,
+    })
+  }
+  if (counts.conflict > 0) {
+    addToast({
+      type: 'warning',
+      title: 'Sync Conflict',
+      message: `${counts.conflict} offline mark(s) were already recorded on the server. Open the subject to resolve them.`,
+    })
+  }
+  if (counts.failed > 0) {
+    addToast({
+      type: 'error',
+      title: 'Sync Failed',
+      message: `${counts.failed} offline mark(s) were rejected by the server`,
+    })
+  }
+}
+
+/**
+ * Loads the persisted outbox and replays it on startup and whenever the
+ * browser comes back online. Mount once, inside the authenticated layout.
+ */
+export function useAttendanceSync() {
+  const queryClient = useQueryClient()
+  const hydrate = useOutboxStore((s) => s.hydrate)
+  const userId = useAuthStore((s) => s.user?.id)
+
+  useEffect(() => {
+    if (userId === undefined) return
+    const sync = () => {
+      replayAttendanceOutbox(queryClient)
+    }
+
+    hydrate(userId).then(() => {
+      if (navigator.onLine) sync()
+    })
+
+    window.addEventListener('online', sync)
+    return () => window.removeEventListener('online', sync)
+  }, [hydrate, queryClient, userId])
+}
@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useAuthStore } from '@/store/authStore'
+import { useToast } from '@/store/toastStore'
+import { sessionSyncService } from '@/services/session-sync.service'
+import { IDLE_TIMEOUT, ROUTES, TOAST_MESSAGES } from '@/utils/constants'
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'] as const
+
+// Activity is written at most this often; mousemove alone fires constantly
+const ACTIVITY_THROTTLE = 5 * 1000
+const TICK_INTERVAL = 1000
+
+/**
+ * Signs the user out after IDLE_TIMEOUT.TIMEOUT_MS without interaction in any
+ * tab. For the last IDLE_TIMEOUT.WARNING_MS, `secondsLeft` counts down so a
+ * warning can be shown; only an explicit `stayActive()` dismisses it.
+ * Mount once, inside the authenticated layout.
+ */
+export function useIdleTimeout() {
+  const navigate = useNavigate()
+  const toast = useToast()
+  const isSignedIn = useAuthStore((s) => !!s.token)
+  const clearAuth = useAuthStore((s) => s.clearAuth)
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null)
+  const isWarningRef = useRef(false)
+  const lastWriteRef = useRef(0)
+  const isEnabled = isSignedIn && IDLE_TIMEOUT.TIMEOUT_MS > 0
+
+  const stayActive = useCallback(() => {
+    lastWriteRef.current = Date.now()
+    sessionSyncService.touch(lastWriteRef.current)
+    isWarningRef.current = false
+    setSecondsLeft(null)
+  }, [])
+
+  const signOut = useCallback(
+    (reason: 'manual' | 'idle') => {
+      isWarningRef.current = false
+      setSecondsLeft(null)
+      clearAuth(reason)
+      if (reason === 'idle') {
+        toast.warning('You were signed out after a period of inactivity', 'Session Ended')
+      } else {
+        toast.success(TOAST_MESSAGES.LOGOUT_SUCCESS, 'Goodbye')
+      }
+      navigate(ROUTES.LOGIN)
+    },
+    [clearAuth, navigate, toast]
+  )
+
+  // Record interaction, ignoring it while the warning is up
+  useEffect(() => {
+    if (!isEnabled) return
+
+    const handleActivity = () => {
+      if (isWarningRef.current) return
+      const now = Date.now()
+      if (now - lastWriteRef.current < ACTIVITY_THROTTLE) return
+      lastWriteRef.current = now
+      sessionSyncService.touch(now)
+    }
+
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, handleActivity, { passive: true })
+    )
+    return () =>
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity))
+  }, [isEnabled])
+
+  // Check the shared last-activity time every second
+  useEffect(() => {
+    if (!isEnabled) return
+
+    if (sessionSyncService.getLastActivity() === null) sessionSyncService.touch()
+
+    const timer = setInterval(() => {
+      // Another tab may have signed out already
+      if (!useAuthStore.getState().token) return
+
+      const lastActivity = sessionSyncService.getLastActivity() ?? Date.now()
+      const remaining = lastActivity + IDLE_TIMEOUT.TIMEOUT_MS - Date.now()
+
+      if (remaining <= 0) {
+        signOut('idle')
+      } else if (remaining <= IDLE_TIMEOUT.WARNING_MS) {
+        isWarningRef.current = true
+        setSecondsLeft(Math.ceil(remaining / 1000))
+      } else if (isWarningRef.current) {
+        // The user chose to stay signed in from another tab
+        isWarningRef.current = false
+        setSecondsLeft(null)
+      }
+    }, TICK_INTERVAL)
+
+    return () => clearInterval(timer)
+  }, [isEnabled, signOut])
+
+  return {
+    isWarning: secondsLeft !== null,
+    secondsLeft: secondsLeft ?? 0,
+    stayActive,
+    signOut: () => signOut('manual'),
+  }
+}
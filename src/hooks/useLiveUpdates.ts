@@ -0,0 +1,158 @@
+import { useEffect } from 'react'
+import { QueryClient, QueryKey, useQueryClient } from '@tanstack/react-query'
+import { format } from 'date-fns'
+import { AttendanceLiveEvent, AttendanceRecord, AttendanceRecordFilters, LiveEvent } from '@/types'
+import { useAuthStore } from '@/store/authStore'
+import { useLiveStore } from '@/store/liveStore'
+import { useSchoolStore } from '@/store/schoolStore'
+import { liveUpdatesService } from '@/services/live-updates.service'
+import { matchesAttendanceRecordFilters } from '@/utils/searchQuery'
+
+type TodayStats = {
+  present: number
+  absent: number
+  late: number
+  excused: number
+  total: number
+  attendanceRate: number
+}
+
+// How often stale "marked by" highlights are cleared
+const PRUNE_INTERVAL = 60 * 1000
+
+function recordDate(record: AttendanceRecord): string {
+  return (record.date ?? record.timestamp ?? record.createdAt).slice(0, 10)
+}
+
+function isSameRecord(a: AttendanceRecord, b: AttendanceRecord): boolean {
+  if (String(a.id) === String(b.id)) return true
+  // Optimistic rows carry temporary ids; match them by student and session instead
+  return (
+    String(a.studentId) === String(b.studentId) &&
+    String(a.subjectId) === String(b.subjectId) &&
+    recordDate(a) === recordDate(b) &&
+    (a.scheduleSlot ?? '') === (b.scheduleSlot ?? '') &&
+    (a.timeSlot ?? 'arrival') === (b.timeSlot ?? 'arrival')
+  )
+}
+
+/**
+ * Replace the matching record, or add it when the list does not have it yet
+ */
+function upsertRecord(
+  records: AttendanceRecord[] | undefined,
+  record: AttendanceRecord,
+  position: 'start' | 'end'
+): AttendanceRecord[] | undefined {
+  if (!Array.isArray(records)) return records
+  if (records.some((r) => isSameRecord(r, record))) {
+    return records.map((r) => (isSameRecord(r, record) ? { ...r, ...record } : r))
+  }
+  return position === 'start' ? [record, ...records] : [...records, record]
+}
+
+function patchTodayStats(stats: TodayStats | undefined, event: AttendanceLiveEvent) {
+  if (!stats) return stats
+  const { record, previousStatus } = event.data
+  const next = { ...stats }
+
+  if (event.type === 'attendance-created') {
+    next.total++
+  } else if (previousStatus) {
+    next[previousStatus] = Math.max(0, next[previousStatus] - 1)
+  }
+  next[record.status]++
+
+  const attended = next.present + next.late + next.excused
+  next.attendanceRate = next.total > 0 ? Math.round((attended / next.total) * 100) : 0
+  return next
+}
+
+function applyAttendanceEvent(queryClient: QueryClient, event: AttendanceLiveEvent) {
+  const { record, previousStatus } = event.data
+  const date = recordDate(record)
+
+  // Subject attendance tab: ['subjects', subjectId, 'attendance', date]
+  queryClient.setQueriesData<AttendanceRecord[]>(
+    {
+      predicate: ({ queryKey }: { queryKey: QueryKey }) =>
+        queryKey[0] === 'subjects' &&
+        String(queryKey[1]) === String(record.subjectId) &&
+        queryKey[2] === 'attendance' &&
+        queryKey[3] === date,
+    },
+    (records) => upsertRecord(records, record, 'end')
+  )
+
+  // Records page: ['attendance-records', filters]; a mark that no longer matches
+  // a list's filters (its status changed) is taken out of that list
+  queryClient
+    .getQueriesData<AttendanceRecord[]>({ queryKey: ['attendance-records'] })
+    .forEach(([queryKey]) => {
+      const filters = (queryKey[1] ?? {}) as AttendanceRecordFilters
+      queryClient.setQueryData<AttendanceRecord[]>(queryKey, (records) =>
+        matchesAttendanceRecordFilters(record, filters)
+          ? upsertRecord(records, record, 'start')
+          : records?.filter((r) => !isSameRecord(r, record))
+      )
+    })
+
+  // Dashboard: today's counts are patched in place, the totals are refetched
+  const statusChanged = event.type === 'attendance-created' || previousStatus !== record.status
+  if (date === format(new Date(), 'yyyy-MM-dd') && statusChanged) {
+    queryClient.setQueryData<TodayStats>(['today-attendance-stats'], (stats) =>
+      patchTodayStats(stats, event)
+    )
+  }
+  queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] })
+
+  useLiveStore.getState().recordMark(record, event.actor, event.at)
+}
+
+/**
+ * Fold a live event into the React Query caches that show the affected data
+ */
+export function applyLiveEvent(queryClient: QueryClient, event: LiveEvent): void {
+  switch (event.type) {
+    case 'attendance-created':
+    case 'attendance-updated':
+      applyAttendanceEvent(queryClient, event)
+      break
+    case 'enrollment':
+      queryClient.invalidateQueries({ queryKey: ['subjects', event.data.subjectId, 'students'] })
+      queryClient.invalidateQueries({ queryKey: ['subjects'], exact: true })
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] })
+      break
+    case 'email-sent':
+      queryClient.invalidateQueries({ queryKey: ['email-history'] })
+      break
+  }
+}
+
+/**
+ * Keeps a live update stream open while signed in and applies its events to
+ * the query caches. Mount once, inside the authenticated layout.
+ */
+export function useLiveUpdates() {
+  const queryClient = useQueryClient()
+  const isSignedIn = useAuthStore((s) => !!s.token)
+  // Each school has its own stream, so switching schools reconnects
+  const schoolId = useSchoolStore((s) => s.currentSchoolId)
+  const setStatus = useLiveStore((s) => s.setStatus)
+  const pruneMarks = useLiveStore((s) => s.pruneMarks)
+
+  useEffect(() => {
+    if (!isSignedIn) return
+
+    const disconnect = liveUpdatesService.connect({
+      onEvent: (event) => applyLiveEvent(queryClient, event),
+      onStatusChange: setStatus,
+    })
+    const pruneTimer = setInterval(pruneMarks, PRUNE_INTERVAL)
+
+    return () => {
+      disconnect()
+      clearInterval(pruneTimer)
+    }
+  }, [isSignedIn, schoolId, queryClient, setStatus, pruneMarks])
+}
@@ -0,0 +1,47 @@
+import { useEffect } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { PermissionMatrix, School, User } from '@/types'
+import { permissionService } from '@/services/permission.service'
+import { useAuthStore } from '@/store/authStore'
+import { usePermissionStore } from '@/store/permissionStore'
+import { useSchoolStore } from '@/store/schoolStore'
+
+// Prefix of every cached matrix; invalidate with it to refetch them all
+export const PERMISSION_MATRIX_QUERY_KEY = ['permissions', 'matrix']
+
+/**
+ * The matrix is cached per user and school, so signing in as someone else or
+ * switching schools never serves the previous matrix from the cache
+ */
+export function permissionMatrixQueryKey(
+  userId: User['id'] | undefined,
+  schoolId: School['id'] | null
+) {
+  return [...PERMISSION_MATRIX_QUERY_KEY, userId ?? null, schoolId]
+}
+
+/**
+ * Loads the role/permission matrix once the user is signed in and caches it
+ * in usePermissionStore. Mount once, at the app root: the component re-renders
+ * when the matrix changes, so every permission check below it is re-evaluated.
+ */
+export function usePermissionSync(): PermissionMatrix | null {
+  const isAuthenticated = useAuthStore((s) => s.isAuthenticated)
+  const userId = useAuthStore((s) => s.user?.id)
+  const schoolId = useSchoolStore((s) => s.currentSchoolId)
+  const setMatrix = usePermissionStore((s) => s.setMatrix)
+  const matrix = usePermissionStore((s) => s.matrix)
+
+  const { data } = useQuery({
+    queryKey: permissionMatrixQueryKey(userId, schoolId),
+    queryFn: permissionService.getMatrix,
+    enabled: isAuthenticated,
+    staleTime: 5 * 60 * 1000,
+  })
+
+  useEffect(() => {
+    if (data && isAuthenticated) setMatrix(data)
+  }, [data, isAuthenticated, setMatrix])
+
+  return matrix
+}
@@ -0,0 +1,49 @@
+import { useEffect } from 'react'
+import { useLocation, useNavigate } from 'react-router-dom'
+import { useQueryClient } from '@tanstack/react-query'
+import { LogoutReason } from '@/types'
+import { useAuthStore } from '@/store/authStore'
+import { usePermissionStore } from '@/store/permissionStore'
+import { useSchoolStore } from '@/store/schoolStore'
+import { useToastStore } from '@/store/toastStore'
+import { sessionSyncService } from '@/services/session-sync.service'
+import { ROUTES } from '@/utils/constants'
+
+const LOGOUT_MESSAGES: Record<LogoutReason, string> = {
+  manual: 'You signed out in another tab',
+  idle: 'You were signed out after a period of inactivity',
+  expired: 'Your session expired. Please sign in again.',
+}
+
+/**
+ * Applies logins, token refreshes, profile changes and logouts made in other
+ * tabs to this one. Mount once, at the app root, so the login page reacts as well.
+ */
+export function useSessionSync() {
+  const navigate = useNavigate()
+  const { pathname } = useLocation()
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    return sessionSyncService.subscribe((message) => {
+      // The stores are persisted in localStorage, which the other tab has already updated
+      useAuthStore.persist.rehydrate()
+      useSchoolStore.persist.rehydrate()
+      usePermissionStore.persist.rehydrate()
+
+      if (message.type === 'login' && (pathname === ROUTES.LOGIN || pathname === ROUTES.SIGNUP)) {
+        navigate(ROUTES.DASHBOARD, { replace: true })
+      }
+
+      if (message.type === 'logout') {
+        // Drop data fetched for the previous session
+        queryClient.clear()
+        useToastStore.getState().addToast({
+          type: 'info',
+          title: 'Signed Out',
+          message: LOGOUT_MESSAGES[message.reason],
+        })
+      }
+    })
+  }, [navigate, pathname, queryClient])
+}
@@ -0,0 +1,68 @@
+import { ReactNode } from 'react'
+import { motion } from 'framer-motion'
+import { GraduationCap, Shield } from 'lucide-react'
+import { APP_NAME } from '@/utils/constants'
+
+interface AuthLayoutProps {
+  title: string
+  subtitle?: ReactNode
+  children: ReactNode
+}
+
+/**
+ * Centered card on the dark auth background, for the smaller account pages
+ * (forgot and reset password) that do not need the login illustration
+ */
+export default function AuthLayout({ title, subtitle, children }: AuthLayoutProps) {
+  return (
+    <div className="min-h-screen bg-slate-950 flex items-center justify-center p-4 relative overflow-hidden">
+      {/* Background grid */}
+      <div className="absolute inset-0 bg-[linear-gradient(to_right,#1e293b_1px,transparent_1px),linear-gradient(to_bottom,#1e293b_1px,transparent_1px)] bg-[size:4rem_4rem] [mask-image:radial-gradient(ellipse_60%_50%_at_50%_50%,#000_70%,transparent_110%)] opacity-30" />
+
+      {/* Gradient orbs */}
+      <motion.div
+        animate={{ scale: [1, 1.2, 1], opacity: [0.3, 0.5, 0.3] }}
+        transition={{ duration: 8, repeat: Infinity, ease: 'easeInOut' }}
+        className="absolute top-20 right-20 w-96 h-96 bg-blue-500/20 rounded-full blur-3xl"
+      />
+      <motion.div
+        animate={{ scale: [1, 1.3, 1], opacity: [0.2, 0.4, 0.2] }}
+        transition={{ duration: 10, repeat: Infinity, ease: 'easeInOut', delay: 1 }}
+        className="absolute bottom-20 left-20 w-80 h-80 bg-indigo-500/20 rounded-full blur-3xl"
+      />
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6 }}
+        className="w-full max-w-md relative z-10"
+      >
+        <div className="bg-gradient-to-br from-slate-900/90 to-slate-800/90 backdrop-blur-xl rounded-3xl shadow-2xl p-8 border border-slate-700/50 relative overflow-hidden">
+          {/* Decorative corner gradient */}
+          <div className="absolute top-0 right-0 w-40 h-40 bg-gradient-to-br from-blue-500/10 to-transparent rounded-bl-full" />
+
+          {/* Logo */}
+          <div className="flex items-center justify-center mb-8 relative">
+            <div className="bg-gradient-to-br from-blue-500 to-indigo-600 p-3 rounded-2xl shadow-lg">
+              <GraduationCap className="w-8 h-8 text-white" />
+            </div>
+            <h1 className="text-3xl font-bold text-white ml-3">{APP_NAME}</h1>
+          </div>
+
+          {/* Title */}
+          <div className="text-center mb-8 relative">
+            <h2 className="text-2xl font-bold text-white mb-2">{title}</h2>
+            {subtitle && <p className="text-slate-400">{subtitle}</p>}
+          </div>
+
+          <div className="relative">{children}</div>
+        </div>
+
+        <div className="text-center mt-6 flex items-center justify-center gap-2">
+          <Shield className="w-4 h-4 text-slate-500" />
+          <p className="text-sm text-slate-500">© 2025 {APP_NAME}. Secure Academic Portal.</p>
+        </div>
+      </motion.div>
+    </div>
+  )
+}
@@ -1,21 +1,91 @@
 import { ReactNode, useState, useEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { Home, Users, BookOpen, ClipboardList, Mail, LogOut, Bell, Menu, X } from 'lucide-react'
+import {
+  Home,
+  Users,
+  BookOpen,
+  ClipboardList,
+  Mail,
+  LogOut,
+  Bell,
+  Menu,
+  X,
+  Settings,
+  UserCog,
+} from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { useAuthStore } from '@/store/authStore'
 import { useToast } from '@/store/toastStore'
 import { ROUTES, APP_NAME, TOAST_MESSAGES } from '@/utils/constants'
 import { cn } from '@/lib/utils'
+import { meetsPermissionRequirement, PERMISSIONS, PermissionRequirement } from '@/utils/permissions'
+import { useAttendanceSync } from '@/hooks/useAttendanceSync'
+import { useLiveUpdates } from '@/hooks/useLiveUpdates'
+import { useCurrentSchool } from '@/store/schoolStore'
+import SchoolSwitcher from '@/components/SchoolSwitcher'
+import IdleTimeoutDialog from '@/components/IdleTimeoutDialog'
 
 interface MainLayoutProps {
   children: ReactNode
 }
 
+interface BrandMarkProps {
+  size: 'sm' | 'lg'
+  logoUrl?: string
+  color?: string
+}
+
+/**
+ * Logo mark: the school's logo when branding sets one, otherwise the app bell
+ * tinted with the school's color (or the default gradient)
+ */
+function BrandMark({ size, logoUrl, color }: BrandMarkProps) {
+  const rounded = size === 'lg' ? 'rounded-xl' : 'rounded-lg'
+  if (logoUrl) {
+    return (
+      <img
+        src={logoUrl}
+        alt=""
+        className={cn('object-contain', rounded, size === 'lg' ? 'w-11 h-11' : 'w-9 h-9')}
+      />
+    )
+  }
+  const background = color ? { background: color } : undefined
+  return (
+    <div className="relative">
+      <div
+        className={cn(
+          'absolute inset-0 bg-gradient-to-br from-blue-500 to-indigo-600 blur-md opacity-50',
+          rounded
+        )}
+        style={background}
+      />
+      <div
+        className={cn(
+          'relative bg-gradient-to-br from-blue-500 to-indigo-600 shadow-lg',
+          rounded,
+          size === 'lg' ? 'p-2.5' : 'p-2'
+        )}
+        style={background}
+      >
+        <Bell className={cn('text-white', size === 'lg' ? 'w-6 h-6' : 'w-5 h-5')} />
+      </div>
+    </div>
+  )
+}
+
 export default function MainLayout({ children }: MainLayoutProps) {
   const navigate = useNavigate()
   const { user, clearAuth } = useAuthStore()
   const toast = useToast()
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false)
+  const branding = useCurrentSchool()?.settings.branding
+
+  // Replay attendance marks captured while offline
+  useAttendanceSync()
+
+  // Apply attendance, enrollment and email changes made in other sessions
+  useLiveUpdates()
 
   // Prevent body scroll when mobile menu is open
   useEffect(() => {
@@ -35,7 +105,14 @@ export default function MainLayout({ children }: MainLayoutProps) {
     setTimeout(() => navigate(ROUTES.LOGIN), 500)
   }
 
-  const navItems = [
+  // `requires` mirrors the route's ProtectedRoute check, so hidden items are exactly the 403s
+  const allNavItems: {
+    label: string
+    icon: typeof Home
+    path: string
+    color: string
+    requires?: PermissionRequirement
+  }[] = [
     {
       label: 'Dashboard',
       icon: Home,
@@ -47,26 +124,40 @@ export default function MainLayout({ children }: MainLayoutProps) {
       icon: Users,
       path: ROUTES.STUDENTS,
       color: '#6366F1',
+      requires: { permission: PERMISSIONS.VIEW_STUDENTS },
     },
     {
       label: 'Subjects',
       icon: BookOpen,
       path: ROUTES.SUBJECTS,
       color: '#8B5CF6',
+      requires: { permission: PERMISSIONS.VIEW_SUBJECTS },
     },
     {
       label: 'Records',
       icon: ClipboardList,
       path: ROUTES.RECORDS,
       color: '#10B981',
+      requires: { permission: PERMISSIONS.VIEW_RECORDS },
     },
     {
       label: 'Email History',
       icon: Mail,
       path: ROUTES.EMAIL_HISTORY,
       color: '#F59E0B',
+      requires: { permission: PERMISSIONS.VIEW_EMAIL_HISTORY },
+    },
+    {
+      label: 'Users',
+      icon: UserCog,
+      path: ROUTES.USERS,
+      color: '#EC4899',
+      requires: { permission: PERMISSIONS.MANAGE_USERS },
     },
   ]
+  const navItems = allNavItems.filter(
+    (item) => !item.requires || meetsPermissionRequirement(user?.role, item.requires)
+  )
 
   const currentPath = window.location.pathname
 
@@ -80,15 +171,12 @@ export default function MainLayout({ children }: MainLayoutProps) {
       {/* Mobile Header */}
       <header className="lg:hidden fixed top-0 left-0 right-0 h-16 bg-gradient-to-r from-slate-900 via-slate-800 to-slate-900 border-b border-slate-700/50 shadow-enterprise-lg z-50 px-4 flex items-center justify-between">
         <div className="flex items-center gap-3">
-          <div className="relative">
-            <div className="absolute inset-0 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-lg blur-md opacity-50" />
-            <div className="relative p-2 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-lg shadow-lg">
-              <Bell className="w-5 h-5 text-white" />
-            </div>
-          </div>
+          <BrandMark size="sm" logoUrl={branding?.logoUrl} color={branding?.primaryColor} />
           <div>
             <h1 className="text-lg font-bold text-white tracking-tight">{APP_NAME}</h1>
-            <p className="text-xs text-slate-400 font-medium">Team Arpanet</p>
+            <p className="text-xs text-slate-400 font-medium">
+              {branding?.displayName ?? 'Team Arpanet'}
+            </p>
           </div>
         </div>
         <button
@@ -119,15 +207,12 @@ export default function MainLayout({ children }: MainLayoutProps) {
         {/* Logo Section - Desktop Only */}
         <div className="hidden lg:block p-6 border-b border-slate-700/50">
           <div className="flex items-center gap-3">
-            <div className="relative">
-              <div className="absolute inset-0 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-xl blur-md opacity-50" />
-              <div className="relative p-2.5 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-xl shadow-lg">
-                <Bell className="w-6 h-6 text-white" />
-              </div>
-            </div>
+            <BrandMark size="lg" logoUrl={branding?.logoUrl} color={branding?.primaryColor} />
             <div>
               <h1 className="text-xl font-bold text-white tracking-tight">{APP_NAME}</h1>
-              <p className="text-xs text-slate-400 font-medium">Team Arpanet</p>
+              <p className="text-xs text-slate-400 font-medium">
+                {branding?.displayName ?? 'Team Arpanet'}
+              </p>
             </div>
           </div>
         </div>
@@ -136,7 +221,7 @@ export default function MainLayout({ children }: MainLayoutProps) {
         <div className="lg:hidden h-16" />
 
         {/* Navigation */}
-        <nav className="p-4 space-y-1 overflow-y-auto" style={{ maxHeight: 'calc(100vh - 200px)' }}>
+        <nav className="p-4 space-y-1 overflow-y-auto" style={{ maxHeight: 'calc(100vh - 260px)' }}>
           {navItems.map((item) => {
             const isActive = currentPath === item.path
             return (
@@ -176,7 +261,17 @@ export default function MainLayout({ children }: MainLayoutProps) {
 
         {/* User Section */}
         <div className="absolute bottom-0 left-0 right-0 p-4 border-t border-slate-700/50 bg-slate-900/50 backdrop-blur-sm">
-          <div className="mb-3 p-3 bg-slate-800/50 rounded-xl border border-slate-700/30">
+          <SchoolSwitcher />
+          <button
+            onClick={() => handleNavigation(ROUTES.SETTINGS)}
+            className={cn(
+              'w-full mb-3 p-3 rounded-xl border text-left transition-all duration-200 group',
+              currentPath === ROUTES.SETTINGS
+                ? 'bg-slate-700/50 border-slate-600/50'
+                : 'bg-slate-800/50 border-slate-700/30 hover:bg-slate-700/50'
+            )}
+            title="Account settings"
+          >
             <div className="flex items-center gap-3">
               <div className="w-10 h-10 rounded-full bg-gradient-to-br from-blue-500 to-indigo-600 flex items-center justify-center text-white font-semibold text-sm shadow-lg flex-shrink-0">
                 {user?.name?.charAt(0).toUpperCase()}
@@ -185,8 +280,9 @@ export default function MainLayout({ children }: MainLayoutProps) {
                 <p className="text-sm font-semibold text-white truncate">{user?.name}</p>
                 <p className="text-xs text-slate-400 truncate">{user?.email}</p>
               </div>
+              <Settings className="w-4 h-4 text-slate-500 group-hover:text-slate-300 transition-colors flex-shrink-0" />
             </div>
-          </div>
+          </button>
           <Button
             variant="outline"
             className="w-full border-slate-700 bg-slate-800/50 hover:bg-slate-700/50 text-slate-300 hover:text-white transition-all duration-200 min-h-[44px]"
@@ -202,6 +298,9 @@ export default function MainLayout({ children }: MainLayoutProps) {
       <main className="lg:ml-72 min-h-screen pt-16 lg:pt-0">
         <div className="p-4 sm:p-6 lg:p-8">{children}</div>
       </main>
+
+      {/* Countdown before an idle session is signed out */}
+      <IdleTimeoutDialog />
     </div>
   )
 }
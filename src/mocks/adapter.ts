@@ -0,0 +1,164 @@
+/**
+ * Mock Axios Adapter
+ *
+ * Answers apiClient requests from the in-memory mock database instead of the
+ * network. Responses and errors take the same shape as the real backend, so
+ * the interceptors in services/api.ts (token refresh, ApiError mapping) and
+ * the response decoders in services/schemas.ts run unchanged.
+ */
+
+import { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios'
+import { MockHttpError, MockMethod, MockResult, MockRoute, matchRoute } from './router'
+import { SCHOOL_HEADER } from '@/utils/constants'
+import { resolveSchoolId, verifyToken } from './session'
+import { authRoutes } from './handlers/auth'
+import { twoFactorRoutes } from './handlers/two-factor'
+import { userRoutes } from './handlers/users'
+import { invitationRoutes } from './handlers/invitations'
+import { permissionRoutes } from './handlers/permissions'
+import { schoolRoutes } from './handlers/schools'
+import { studentRoutes } from './handlers/students'
+import { studentStatusRoutes } from './handlers/student-status'
+import { studentMergeRoutes } from './handlers/student-merge'
+import { idCardRoutes } from './handlers/id-cards'
+import { guardianRoutes } from './handlers/guardians'
+import { nfcCardRoutes } from './handlers/nfc-cards'
+import { subjectRoutes } from './handlers/subjects'
+import { attendanceRoutes } from './handlers/attendance'
+import { recordRoutes } from './handlers/records'
+import { emailRoutes } from './handlers/emails'
+import { notificationRoutes } from './handlers/notifications'
+import { eventRoutes } from './handlers/events'
+
+const routes: MockRoute[] = [
+  ...authRoutes,
+  ...twoFactorRoutes,
+  ...userRoutes,
+  ...invitationRoutes,
+  ...permissionRoutes,
+  ...schoolRoutes,
+  // Before studentRoutes so /students/duplicates is not read as /students/:id
+  ...studentMergeRoutes,
+  ...idCardRoutes,
+  ...studentRoutes,
+  ...studentStatusRoutes,
+  ...guardianRoutes,
+  ...nfcCardRoutes,
+  ...subjectRoutes,
+  ...attendanceRoutes,
+  ...recordRoutes,
+  ...emailRoutes,
+  ...notificationRoutes,
+  ...eventRoutes,
+]
+
+// Simulated network latency so loading states stay visible
+const MIN_LATENCY = 120
+const MAX_LATENCY = 400
+
+function delay(): Promise<void> {
+  const ms = MIN_LATENCY + Math.random() * (MAX_LATENCY - MIN_LATENCY)
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+/**
+ * Split the request URL into a path relative to the API base and its query
+ */
+function parseUrl(config: InternalAxiosRequestConfig) {
+  const url = new URL(config.url ?? '', 'http://mock.local')
+  const basePath = new URL(config.baseURL ?? '', 'http://mock.local').pathname.replace(/\/$/, '')
+
+  let path = url.pathname
+  if (basePath && path.startsWith(basePath)) {
+    path = path.slice(basePath.length) || '/'
+  }
+
+  const query: { [key: string]: any } = Object.fromEntries(url.searchParams)
+  Object.entries(config.params ?? {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') query[key] = value
+  })
+  return { path, query }
+}
+
+/**
+ * transformRequest has already serialized JSON bodies; undo that for handlers
+ */
+function parseBody(data: unknown): unknown {
+  if (typeof data !== 'string') return data
+  try {
+    return JSON.parse(data)
+  } catch {
+    return data
+  }
+}
+
+function toResponse(config: InternalAxiosRequestConfig, result: MockResult): AxiosResponse {
+  return {
+    data: result.body,
+    status: result.status,
+    statusText: String(result.status),
+    headers: {},
+    config,
+    request: {},
+  }
+}
+
+export const mockAdapter: AxiosAdapter = async (config) => {
+  await delay()
+
+  // Respect the browser's offline state so offline flows can be exercised
+  if (!navigator.onLine) {
+    throw new AxiosError('Network Error', AxiosError.ERR_NETWORK, config, {})
+  }
+
+  const method = (config.method ?? 'get').toLowerCase() as MockMethod
+  const { path, query } = parseUrl(config)
+
+  try {
+    const matched = matchRoute(routes, method, path)
+    if (!matched) {
+      throw new MockHttpError(404, `Route not found: ${method.toUpperCase()} ${path}`)
+    }
+
+    const userId = verifyToken(config.headers?.Authorization as string | undefined)
+    if (!matched.route.isPublic && userId === null) {
+      throw new MockHttpError(401, 'Not authorized - token missing or expired')
+    }
+
+    const result = await matched.route.handler({
+      method,
+      path,
+      params: matched.params,
+      query,
+      body: parseBody(config.data),
+      userId,
+      schoolId: resolveSchoolId(userId, config.headers?.[SCHOOL_HEADER]),
+    })
+    return toResponse(config, result)
+  } catch (error) {
+    const httpError =
+      error instanceof MockHttpError
+        ? error
+        : new MockHttpError(500, error instanceof Error ? error.message : 'Internal server error')
+    if (httpError.status >= 500) {
+      console.error('[MockApi] Handler failed', { method, path, error })
+    }
+
+    const response = toResponse(config, {
+      status: httpError.status,
+      body: {
+        success: false,
+        message: httpError.message,
+        code: httpError.code,
+        errors: httpError.errors,
+      },
+    })
+    throw new AxiosError(
+      httpError.message,
+      httpError.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      {},
+      response
+    )
+  }
+}
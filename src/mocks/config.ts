@@ -0,0 +1,46 @@
+/**
+ * Mock API switch
+ *
+ * The mock backend is on when VITE_USE_MOCK_API=true, and can be flipped per
+ * browser at runtime with setMockApiEnabled (stored in localStorage). Kept
+ * separate from the adapter so the switch can be read without bundling the
+ * fixtures into the main chunk.
+ */
+
+import { useAuthStore } from '@/store/authStore'
+
+const STORAGE_KEY = 'notified:mock-api'
+
+/** Password shared by every seeded account */
+export const MOCK_PASSWORD = 'Password123!'
+
+/** Seeded sign-ins, one per role, shown on the login page in mock mode */
+export const MOCK_DEMO_ACCOUNTS = [
+  { role: 'Admin', email: 'admin@notified.test' },
+  { role: 'Registrar', email: 'registrar@notified.test' },
+  { role: 'Professor', email: 'professor@notified.test' },
+]
+
+export function isMockApiEnabled(): boolean {
+  const override = localStorage.getItem(STORAGE_KEY)
+  if (override !== null) return override === 'on'
+  return import.meta.env.VITE_USE_MOCK_API === 'true'
+}
+
+/**
+ * Switch between the mock and the real backend. Reloads the page, since
+ * sessions from one backend are not valid on the other.
+ */
+export function setMockApiEnabled(enabled: boolean): void {
+  localStorage.setItem(STORAGE_KEY, enabled ? 'on' : 'off')
+  useAuthStore.getState().clearAuth()
+  window.location.reload()
+}
+
+/**
+ * Drop the runtime override and fall back to VITE_USE_MOCK_API
+ */
+export function resetMockApiOverride(): void {
+  localStorage.removeItem(STORAGE_KEY)
+  window.location.reload()
+}
@@ -0,0 +1,265 @@
+/**
+ * Mock Database
+ *
+ * In-memory collections behind the mock backend. Seeded from fixtures on
+ * first use and kept for the lifetime of the page.
+ */
+
+import {
+  AttendanceStatus,
+  GuardianChannel,
+  GuardianRelationship,
+  IdCardPrint,
+  IdCardTemplate,
+  NfcCard,
+  NfcCardEvent,
+  RecordType,
+  SchoolSettings,
+  SignupPolicy,
+  Student,
+  StudentMergeField,
+  StudentStatus,
+  TimeSlot,
+  TwoFactorPolicy,
+  PermissionMatrix,
+  User,
+  UserRole,
+} from '@/types'
+import { SubjectScheduleSlot } from '@/types/subject.types'
+import { seedDatabase } from './fixtures'
+
+export interface MockUser extends User {
+  password: string
+  isActive: boolean
+  schoolIds: number[] // Schools the user belongs to; the first is their default
+  twoFactorSecret?: string // Base32 TOTP secret once 2FA is confirmed
+  pendingTwoFactorSecret?: string // Issued by setup, awaiting a confirming code
+  recoveryCodes?: string[]
+  createdAt: string
+  updatedAt?: string
+}
+
+export interface MockSchool {
+  id: number
+  name: string
+  code: string
+  settings: SchoolSettings
+  createdAt: string
+  updatedAt?: string
+}
+
+export interface MockSubject {
+  id: number
+  subjectCode: string
+  subjectName: string
+  section: string
+  yearLevel: number
+  capacity?: number
+  description?: string
+  instructor?: string
+  instructorIds: number[]
+  room?: string
+  schedules: SubjectScheduleSlot[]
+  createdAt: string
+  updatedAt?: string
+}
+
+export interface MockEnrollment {
+  id: number
+  subjectId: number
+  studentId: number
+  enrolledAt: string
+}
+
+export interface MockAttendance {
+  id: number
+  studentId: number
+  subjectId?: number
+  date: string // YYYY-MM-DD
+  status: AttendanceStatus
+  timeSlot: TimeSlot
+  scheduleSlot?: string
+  remarks?: string
+  markedBy: number
+  createdAt: string
+  updatedAt?: string
+}
+
+export interface MockRecord {
+  id: number
+  studentId: number
+  subjectId?: number
+  recordType: RecordType
+  createdAt: string
+}
+
+export interface MockEmail {
+  id: number
+  recordType: 'email_sent' | 'bulk_email_sent'
+  subject: string
+  message: string
+  recipients: string[]
+  studentId?: number
+  performedBy: number
+  sentCount: number
+  failedCount: number
+  createdAt: string
+}
+
+export interface MockNotification {
+  id: number
+  userId: number
+  title: string
+  message: string
+  type: 'info' | 'warning' | 'success' | 'error'
+  read: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface MockPasswordReset {
+  id: number
+  token: string
+  userId: number
+  expiresAt: string
+  usedAt?: string
+  createdAt: string
+}
+
+export interface MockInvitation {
+  id: number
+  token: string
+  email: string
+  role: UserRole
+  schoolId: number // School the new account joins
+  invitedBy: number
+  expiresAt: string
+  acceptedAt?: string
+  revokedAt?: string
+  createdAt: string
+}
+
+export interface MockStatusChange {
+  id: number
+  studentId: number
+  fromStatus: StudentStatus
+  toStatus: StudentStatus
+  effectiveDate: string
+  reason: string
+  changedBy: number
+  unenrolledSubjects: string[]
+  createdAt: string
+}
+
+export interface MockStudentMerge {
+  id: number
+  targetId: number
+  source: Pick<Student, 'id' | 'studentNumber' | 'firstName' | 'lastName' | 'email'>
+  fieldsFromSource: StudentMergeField[]
+  moved: { enrollments: number; attendance: number; records: number; emails: number }
+  mergedBy: number
+  createdAt: string
+}
+
+export interface MockGuardian {
+  id: number
+  name: string
+  email?: string
+  contact?: string
+  preferredChannel: GuardianChannel
+  createdAt: string
+  updatedAt?: string
+}
+
+// Links are kept in order per student; the first is the primary guardian
+export interface MockStudentGuardian {
+  id: number
+  studentId: number
+  guardianId: number
+  relationship: GuardianRelationship
+  receivesAttendanceAlerts: boolean
+}
+
+export type MockIdCardTemplate = Omit<IdCardTemplate, 'id'> & { id: number }
+
+export type MockIdCardPrint = Omit<IdCardPrint, 'id' | 'studentId' | 'templateId' | 'printedBy'> & {
+  id: number
+  studentId: number
+  templateId: number
+  printedBy: number
+}
+
+// The holder is kept by id; the serializer fills in the student summary
+export type MockNfcCard = Omit<NfcCard, 'id' | 'student'> & { id: number; studentId?: number }
+
+export type MockNfcCardEvent = Omit<NfcCardEvent, 'id' | 'cardId' | 'student' | 'actor'> & {
+  id: number
+  cardId: number
+  studentId?: number
+  actorId?: number
+}
+
+export interface MockDatabase {
+  schools: MockSchool[]
+  users: MockUser[]
+  students: Student[]
+  statusChanges: MockStatusChange[]
+  studentMerges: MockStudentMerge[]
+  guardians: MockGuardian[]
+  studentGuardians: MockStudentGuardian[]
+  idCardTemplates: MockIdCardTemplate[]
+  idCardPrints: MockIdCardPrint[]
+  nfcCards: MockNfcCard[]
+  nfcCardEvents: MockNfcCardEvent[]
+  subjects: MockSubject[]
+  enrollments: MockEnrollment[]
+  attendance: MockAttendance[]
+  records: MockRecord[]
+  emails: MockEmail[]
+  notifications: MockNotification[]
+  passwordResets: MockPasswordReset[]
+  invitations: MockInvitation[]
+  signupPolicy: SignupPolicy
+  twoFactorPolicy: TwoFactorPolicy
+  permissionMatrix: PermissionMatrix
+}
+
+type Collection = keyof MockDatabase
+
+let database: MockDatabase | null = null
+
+/**
+ * Get the live database, seeding it on first access
+ */
+export function getDb(): MockDatabase {
+  if (!database) {
+    database = seedDatabase()
+  }
+  return database
+}
+
+/**
+ * Drop every change made during the session and reseed from fixtures
+ */
+export function resetMockDatabase(): void {
+  database = seedDatabase()
+}
+
+/**
+ * Next auto-increment id for a collection
+ */
+export function nextId(collection: Collection): number {
+  const rows = getDb()[collection] as { id: number }[]
+  return rows.reduce((max, row) => Math.max(max, row.id), 0) + 1
+}
+
+export function now(): string {
+  return new Date().toISOString()
+}
+
+/**
+ * YYYY-MM-DD in the same (UTC) form the UI uses for attendance dates
+ */
+export function toDateKey(value: string | Date): string {
+  return new Date(value).toISOString().split('T')[0]
+}
@@ -0,0 +1,93 @@
+/**
+ * Mock Event Stream
+ *
+ * Stand-in for the backend's server-sent events endpoint (GET /events/stream).
+ * Mock handlers publish events as they change data, and every open
+ * MockEventSource in the tab receives them under the same event names and with
+ * the same JSON bodies as the real stream.
+ */
+
+import type { LiveEventType, LiveStreamTicket } from '@/types'
+import { getDb, type MockUser } from './db'
+
+const CONNECTING = 0
+const OPEN = 1
+const CLOSED = 2
+
+const STREAM_TICKET_TTL = 30 * 1000 // 30 seconds
+
+const openSources = new Set<MockEventSource>()
+const streamTickets = new Map<string, { userId: number; expiresAt: number }>()
+
+/**
+ * Issue a single-use ticket for opening the stream (POST /events/ticket)
+ */
+export function issueStreamTicket(userId: number): LiveStreamTicket {
+  const ticket = Array.from({ length: 4 }, () => Math.random().toString(36).slice(2, 10)).join('')
+  const expiresAt = Date.now() + STREAM_TICKET_TTL
+  streamTickets.set(ticket, { userId, expiresAt })
+  return { ticket, expiresAt: new Date(expiresAt).toISOString() }
+}
+
+/**
+ * Spend a stream ticket. Returns the user it was issued to, or null if the
+ * ticket is unknown, expired or already used.
+ */
+function redeemStreamTicket(ticket: string | null): number | null {
+  const issued = ticket ? streamTickets.get(ticket) : undefined
+  if (!ticket || !issued) return null
+  streamTickets.delete(ticket)
+  if (issued.expiresAt < Date.now()) return null
+  const user = getDb().users.find((u) => u.id === issued.userId)
+  return user && user.isActive ? user.id : null
+}
+
+/**
+ * Drop-in for the parts of EventSource the live update service uses
+ */
+export class MockEventSource extends EventTarget {
+  readyState = CONNECTING
+  onopen: ((event: Event) => void) | null = null
+  onerror: ((event: Event) => void) | null = null
+
+  constructor(readonly url: string) {
+    super()
+    // Connect asynchronously, like a real EventSource
+    setTimeout(() => this.connect(), 0)
+  }
+
+  private connect() {
+    if (this.readyState === CLOSED) return
+
+    // EventSource cannot send headers, so the stream authenticates by ticket
+    const ticket = new URL(this.url, 'http://mock.local').searchParams.get('ticket')
+    if (redeemStreamTicket(ticket) === null) {
+      this.readyState = CLOSED
+      this.onerror?.(new Event('error'))
+      return
+    }
+
+    this.readyState = OPEN
+    openSources.add(this)
+    this.onopen?.(new Event('open'))
+  }
+
+  close() {
+    this.readyState = CLOSED
+    openSources.delete(this)
+  }
+}
+
+/**
+ * Push an event to every open stream once the current handler has finished
+ */
+export function publishEvent(type: LiveEventType, actor: MockUser, data: unknown): void {
+  const body = JSON.stringify({
+    actor: { id: actor.id, name: actor.name },
+    at: new Date().toISOString(),
+    data,
+  })
+  setTimeout(() => {
+    openSources.forEach((source) => source.dispatchEvent(new MessageEvent(type, { data: body })))
+  }, 0)
+}
@@ -0,0 +1,683 @@
+/**
+ * Mock Fixtures
+ *
+ * Deterministic seed data for the mock backend: two campuses, staff accounts,
+ * students with guardians, subjects with schedules, enrollments and two weeks
+ * of attendance. Every seeded account signs in with MOCK_PASSWORD.
+ */
+
+import { AttendanceStatus, BuiltInRole, PermissionMatrix, Student, StudentStatus } from '@/types'
+import { BUILT_IN_ROLE_NAMES, ROLE_PERMISSIONS } from '@/utils/permissions'
+import type {
+  MockAttendance,
+  MockDatabase,
+  MockEmail,
+  MockEnrollment,
+  MockGuardian,
+  MockNotification,
+  MockRecord,
+  MockSchool,
+  MockStudentGuardian,
+  MockIdCardTemplate,
+  MockNfcCard,
+  MockNfcCardEvent,
+  MockSubject,
+  MockUser,
+} from './db'
+import { MOCK_PASSWORD } from './config'
+
+const FIRST_NAMES = [
+  'Juan',
+  'Maria',
+  'Jose',
+  'Ana',
+  'Mark',
+  'Angela',
+  'Paolo',
+  'Bea',
+  'Carlo',
+  'Isabel',
+  'Miguel',
+  'Sofia',
+  'Rafael',
+  'Camille',
+  'Luis',
+  'Patricia',
+  'Gabriel',
+  'Andrea',
+  'Daniel',
+  'Nicole',
+  'Joshua',
+  'Kristine',
+  'Adrian',
+  'Jasmine',
+]
+
+const LAST_NAMES = [
+  'Dela Cruz',
+  'Santos',
+  'Reyes',
+  'Garcia',
+  'Mendoza',
+  'Bautista',
+  'Villanueva',
+  'Ramos',
+  'Aquino',
+  'Castillo',
+  'Navarro',
+  'Torres',
+]
+
+const SECTIONS = ['1-A', '1-B', '2-A']
+
+/**
+ * Small seeded PRNG so fixtures are identical on every load
+ */
+function createRandom(seed: number) {
+  let state = seed
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function daysAgo(days: number, hour = 8, minute = 0): Date {
+  const date = new Date()
+  date.setDate(date.getDate() - days)
+  date.setHours(hour, minute, 0, 0)
+  return date
+}
+
+function slug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z]/g, '')
+}
+
+function seedSchools(): MockSchool[] {
+  const createdAt = daysAgo(365).toISOString()
+  return [
+    {
+      id: 1,
+      name: 'Notified Main Campus',
+      code: 'MAIN',
+      settings: {
+        emailDomain: 'student.notified.test',
+        studentNumberPrefix: String(new Date().getFullYear()).slice(-2),
+        branding: { displayName: 'Main Campus', primaryColor: '#3B82F6' },
+      },
+      createdAt,
+    },
+    {
+      id: 2,
+      name: 'Notified North Campus',
+      code: 'NORTH',
+      settings: {
+        studentNumberPrefix: '90',
+        branding: { displayName: 'North Campus', primaryColor: '#10B981' },
+      },
+      createdAt,
+    },
+  ]
+}
+
+function seedIdCardTemplates(): MockIdCardTemplate[] {
+  const createdAt = daysAgo(60).toISOString()
+  const backText =
+    'This card is the property of the school. If found, please return it to the registrar.'
+  return [
+    {
+      id: 1,
+      name: 'Standard',
+      orientation: 'landscape',
+      accentColor: '#3B82F6',
+      title: 'Student Identification Card',
+      showPhoto: true,
+      showQrCode: true,
+      showBarcode: true,
+      printBack: true,
+      backText,
+      createdAt,
+    },
+    {
+      id: 2,
+      name: 'Lanyard (portrait)',
+      orientation: 'portrait',
+      accentColor: '#10B981',
+      title: 'Student ID',
+      showPhoto: true,
+      showQrCode: true,
+      showBarcode: false,
+      printBack: false,
+      backText,
+      createdAt,
+    },
+  ]
+}
+
+/**
+ * Cards for every student with an NFC ID, a few spares, and one card that was
+ * lost and replaced so the registry has some history to show
+ */
+function seedNfcCards(students: Student[]): {
+  nfcCards: MockNfcCard[]
+  nfcCardEvents: MockNfcCardEvent[]
+} {
+  const nfcCards: MockNfcCard[] = []
+  const nfcCardEvents: MockNfcCardEvent[] = []
+  const addCard = (card: Omit<MockNfcCard, 'id'>) => {
+    const saved = { ...card, id: nfcCards.length + 1 }
+    nfcCards.push(saved)
+    return saved
+  }
+  const addEvent = (event: Omit<MockNfcCardEvent, 'id'>) =>
+    nfcCardEvents.push({ ...event, id: nfcCardEvents.length + 1 })
+
+  const holders = students.filter((student) => student.nfcId)
+  const [first] = holders
+  if (first) {
+    const lost = addCard({
+      uid: '04FF00A1',
+      status: 'lost',
+      studentId: first.id,
+      replacedByUid: first.nfcId,
+      createdAt: first.createdAt,
+      updatedAt: daysAgo(20).toISOString(),
+    })
+    const base = { cardId: lost.id, uid: lost.uid, studentId: first.id, actorId: 1 }
+    addEvent({ ...base, action: 'assigned', createdAt: first.createdAt })
+    addEvent({
+      ...base,
+      action: 'reported_lost',
+      reason: 'Lost on a field trip',
+      createdAt: daysAgo(20).toISOString(),
+    })
+    addEvent({
+      ...base,
+      action: 'replaced',
+      relatedUid: first.nfcId,
+      createdAt: daysAgo(20, 9).toISOString(),
+    })
+  }
+
+  holders.forEach((student) => {
+    const replacement = student === first
+    const assignedAt = replacement ? daysAgo(20, 9).toISOString() : student.createdAt
+    const card = addCard({
+      uid: student.nfcId!,
+      status: 'active',
+      studentId: student.id,
+      createdAt: assignedAt,
+    })
+    addEvent({
+      cardId: card.id,
+      uid: card.uid,
+      action: 'assigned',
+      studentId: student.id,
+      relatedUid: replacement ? '04FF00A1' : undefined,
+      actorId: 1,
+      createdAt: assignedAt,
+    })
+  })
+
+  // Spare cards handed out when a student forgets theirs
+  ;['04EE0001', '04EE0002', '04EE0003'].forEach((uid) =>
+    addCard({ uid, status: 'available', createdAt: daysAgo(60).toISOString() })
+  )
+
+  return { nfcCards, nfcCardEvents }
+}
+
+function seedUsers(): MockUser[] {
+  const createdAt = daysAgo(120).toISOString()
+  // Admin, registrar and the first professor work at both campuses
+  const users: [string, string, MockUser['role'], number[]][] = [
+    ['Admin User', 'admin@notified.test', 'admin', [1, 2]],
+    ['Rosa Registrar', 'registrar@notified.test', 'registrar', [1, 2]],
+    ['Prof. Ramon Cruz', 'professor@notified.test', 'professor', [1, 2]],
+    ['Prof. Liza Tan', 'liza.tan@notified.test', 'professor', [1]],
+    ['Staff Member', 'staff@notified.test', 'staff', [1]],
+  ]
+  return users.map(([name, email, role, schoolIds], index) => ({
+    id: index + 1,
+    name,
+    email,
+    role,
+    password: MOCK_PASSWORD,
+    isActive: true,
+    schoolIds,
+    createdAt,
+  }))
+}
+
+function seedStudents(random: () => number): Student[] {
+  const statuses: StudentStatus[] = ['active', 'active', 'active', 'active', 'inactive']
+  const year = String(new Date().getFullYear()).slice(-2)
+
+  const students: Student[] = FIRST_NAMES.map((firstName, index) => {
+    const lastName = LAST_NAMES[index % LAST_NAMES.length]
+    const birthYear = new Date().getFullYear() - 16 - Math.floor(random() * 4)
+    const birthdate = `${birthYear}-${String(1 + Math.floor(random() * 12)).padStart(2, '0')}-${String(1 + Math.floor(random() * 28)).padStart(2, '0')}`
+    const hasGuardian = index % 6 !== 5
+    // The first few families have a second child, who shares the parent
+    const family =
+      index >= LAST_NAMES.length && index % LAST_NAMES.length < 4
+        ? index - LAST_NAMES.length
+        : index
+
+    return {
+      id: index + 1,
+      studentNumber: `${year}-${String(index + 1).padStart(4, '0')}`,
+      firstName,
+      lastName,
+      email: `${slug(firstName)}.${slug(lastName)}@student.notified.test`,
+      birthdate,
+      age: new Date().getFullYear() - birthYear,
+      contact: `0917${String(1000000 + index * 7919).slice(0, 7)}`,
+      status: index === 23 ? 'graduated' : statuses[index % statuses.length],
+      section: SECTIONS[index % SECTIONS.length],
+      guardianName: hasGuardian ? `Parent ${lastName}` : undefined,
+      guardianEmail: hasGuardian ? `parent.${slug(lastName)}${family}@mail.test` : undefined,
+      guardianContact: hasGuardian
+        ? `0918${String(2000000 + family * 6151).slice(0, 7)}`
+        : undefined,
+      nfcId:
+        index % 3 === 0
+          ? (0x04a1b2c3 + index * 4099).toString(16).toUpperCase().padStart(8, '0')
+          : undefined,
+      createdAt: daysAgo(90 - index).toISOString(),
+    }
+  })
+
+  // Copies left by paper-era imports: the same person under an older number,
+  // one with a misspelt first name and one without guardian details
+  const oldYear = String(Number(year) - 5).padStart(2, '0')
+  const copies = [
+    { ...students[1], firstName: `${students[1].firstName}h` },
+    {
+      ...students[4],
+      guardianName: undefined,
+      guardianEmail: undefined,
+      guardianContact: undefined,
+    },
+  ].map((copy, index) => ({
+    ...copy,
+    id: students.length + index + 1,
+    studentNumber: `${oldYear}-${String(copy.id).padStart(4, '0')}`,
+    email: `${slug(copy.firstName)}.${slug(copy.lastName)}.${oldYear}@student.notified.test`,
+    status: 'inactive' as const,
+    section: undefined,
+    nfcId: undefined,
+    createdAt: daysAgo(400).toISOString(),
+  }))
+
+  return [...students, ...copies]
+}
+
+/**
+ * Turn the students' single guardian fields into shared guardians, one per
+ * email address, and clear the fields (the API derives them from the links).
+ * The first student also gets a second guardian, as with separated parents.
+ */
+function seedGuardians(students: Student[]): {
+  guardians: MockGuardian[]
+  studentGuardians: MockStudentGuardian[]
+} {
+  const guardians: MockGuardian[] = []
+  const studentGuardians: MockStudentGuardian[] = []
+  const link = (
+    studentId: number,
+    guardianId: number,
+    relationship: MockStudentGuardian['relationship']
+  ) =>
+    studentGuardians.push({
+      id: studentGuardians.length + 1,
+      studentId,
+      guardianId,
+      relationship,
+      receivesAttendanceAlerts: true,
+    })
+
+  students.forEach((student) => {
+    if (student.guardianEmail) {
+      let guardian = guardians.find((g) => g.email === student.guardianEmail)
+      if (!guardian) {
+        guardian = {
+          id: guardians.length + 1,
+          name: student.guardianName ?? `Parent ${student.lastName}`,
+          email: student.guardianEmail,
+          contact: student.guardianContact,
+          preferredChannel: 'email',
+          createdAt: student.createdAt,
+        }
+        guardians.push(guardian)
+      }
+      link(student.id, guardian.id, guardian.id === 1 ? 'mother' : 'guardian')
+    }
+    delete student.guardianName
+    delete student.guardianEmail
+    delete student.guardianContact
+  })
+
+  const [first] = students
+  guardians.push({
+    id: guardians.length + 1,
+    name: `Ramon ${first.lastName}`,
+    email: `ramon.${slug(first.lastName)}@mail.test`,
+    contact: '09189990001',
+    preferredChannel: 'phone',
+    createdAt: first.createdAt,
+  })
+  link(first.id, guardians.length, 'father')
+
+  return { guardians, studentGuardians }
+}
+
+function seedSubjects(users: MockUser[]): MockSubject[] {
+  const createdAt = daysAgo(100).toISOString()
+  const subjects: Omit<MockSubject, 'instructorIds'>[] = [
+    {
+      id: 1,
+      subjectCode: 'CS101',
+      subjectName: 'Introduction to Computing',
+      section: '1-A',
+      yearLevel: 1,
+      capacity: 40,
+      instructor: 'Prof. Ramon Cruz',
+      room: 'Lab 1',
+      schedules: [
+        {
+          slotName: 'Lecture',
+          days: ['Monday', 'Wednesday'],
+          startTime: '08:00',
+          endTime: '09:30',
+          room: 'Room 201',
+        },
+        {
+          slotName: 'Laboratory',
+          days: ['Friday'],
+          startTime: '13:00',
+          endTime: '16:00',
+          room: 'Lab 1',
+        },
+      ],
+      createdAt,
+    },
+    {
+      id: 2,
+      subjectCode: 'MATH101',
+      subjectName: 'College Algebra',
+      section: '1-B',
+      yearLevel: 1,
+      capacity: 45,
+      instructor: 'Prof. Liza Tan',
+      room: 'Room 105',
+      schedules: [
+        {
+          slotName: 'Lecture',
+          days: ['Tuesday', 'Thursday'],
+          startTime: '10:00',
+          endTime: '11:30',
+          room: 'Room 105',
+        },
+      ],
+      createdAt,
+    },
+    {
+      id: 3,
+      subjectCode: 'ENG201',
+      subjectName: 'Technical Writing',
+      section: '2-A',
+      yearLevel: 2,
+      capacity: 35,
+      instructor: 'Prof. Ramon Cruz',
+      room: 'Room 310',
+      schedules: [
+        {
+          slotName: 'Lecture',
+          days: ['Monday', 'Wednesday', 'Friday'],
+          startTime: '13:00',
+          endTime: '14:00',
+          room: 'Room 310',
+        },
+      ],
+      createdAt,
+    },
+    {
+      id: 4,
+      subjectCode: 'PE101',
+      subjectName: 'Physical Fitness',
+      section: '1-A',
+      yearLevel: 1,
+      capacity: 50,
+      description: 'Fundamentals of movement and fitness',
+      createdAt,
+      schedules: [],
+    },
+  ]
+  // Link the seeded instructor names to their accounts
+  return subjects.map((subject) => ({
+    ...subject,
+    instructorIds: users.filter((user) => user.name === subject.instructor).map((user) => user.id),
+  }))
+}
+
+function seedEnrollments(students: Student[], subjects: MockSubject[]): MockEnrollment[] {
+  const enrollments: MockEnrollment[] = []
+  subjects
+    .filter((subject) => subject.schedules.length > 0)
+    .forEach((subject) => {
+      students
+        .filter((student) => student.section === subject.section && student.status === 'active')
+        .forEach((student) => {
+          enrollments.push({
+            id: enrollments.length + 1,
+            subjectId: subject.id,
+            studentId: student.id,
+            enrolledAt: daysAgo(80).toISOString(),
+          })
+        })
+    })
+  return enrollments
+}
+
+function seedAttendance(
+  random: () => number,
+  enrollments: MockEnrollment[],
+  subjects: MockSubject[],
+  markers: { [subjectId: number]: number }
+): MockAttendance[] {
+  const attendance: MockAttendance[] = []
+  const pickStatus = (): AttendanceStatus => {
+    const roll = random()
+    if (roll < 0.78) return 'present'
+    if (roll < 0.88) return 'late'
+    if (roll < 0.96) return 'absent'
+    return 'excused'
+  }
+
+  // Past sessions only; today is left unmarked so it can be taken live
+  for (let day = 14; day >= 1; day--) {
+    const date = daysAgo(day)
+    const weekday = date.toLocaleDateString('en-US', { weekday: 'long' })
+
+    subjects.forEach((subject) => {
+      const slot = subject.schedules.find((s) => (s.days as string[]).includes(weekday))
+      if (!slot) return
+      const [hour, minute] = slot.startTime.split(':').map(Number)
+
+      enrollments
+        .filter((enrollment) => enrollment.subjectId === subject.id)
+        .forEach((enrollment) => {
+          const status = pickStatus()
+          const markedAt = daysAgo(day, hour, minute + Math.floor(random() * 20)).toISOString()
+          attendance.push({
+            id: attendance.length + 1,
+            studentId: enrollment.studentId,
+            subjectId: subject.id,
+            date: markedAt.split('T')[0],
+            status,
+            timeSlot: 'arrival',
+            scheduleSlot: slot.slotName,
+            remarks: status === 'excused' ? 'Medical certificate submitted' : undefined,
+            markedBy: markers[subject.id] ?? 1,
+            createdAt: markedAt,
+          })
+        })
+    })
+  }
+  return attendance
+}
+
+function seedRecords(attendance: MockAttendance[], emails: MockEmail[]): MockRecord[] {
+  const records: MockRecord[] = attendance
+    .filter((row) => row.status !== 'absent')
+    .map((row, index) => ({
+      id: index + 1,
+      studentId: row.studentId,
+      subjectId: row.subjectId,
+      recordType: 'arrival' as const,
+      createdAt: row.createdAt,
+    }))
+
+  emails
+    .filter((email) => email.studentId)
+    .forEach((email) => {
+      records.push({
+        id: records.length + 1,
+        studentId: email.studentId!,
+        recordType: 'email_sent',
+        createdAt: email.createdAt,
+      })
+    })
+  return records
+}
+
+function seedEmails(students: Student[]): MockEmail[] {
+  const withGuardian = students.filter((student) => student.guardianEmail)
+  const emails: MockEmail[] = []
+
+  // Enough history for several pages at the default page size of 20
+  for (let i = 0; i < 45; i++) {
+    const createdAt = daysAgo(Math.floor(i / 3), 9 + (i % 8), (i * 7) % 60).toISOString()
+    if (i % 9 === 0) {
+      const recipients = withGuardian.slice(0, 8).map((student) => student.guardianEmail!)
+      emails.push({
+        id: emails.length + 1,
+        recordType: 'bulk_email_sent',
+        subject: 'Class Advisory: Schedule Change',
+        message: 'Please be advised that classes will resume at 10:00 AM tomorrow.',
+        recipients,
+        performedBy: 2,
+        sentCount: recipients.length,
+        failedCount: 0,
+        createdAt,
+      })
+    } else {
+      const student = withGuardian[i % withGuardian.length]
+      emails.push({
+        id: emails.length + 1,
+        recordType: 'email_sent',
+        subject: `Attendance Notice: ${student.firstName} ${student.lastName}`,
+        message: `This is to inform you that ${student.firstName} arrived at school today.`,
+        recipients: [student.guardianEmail!],
+        studentId: student.id,
+        performedBy: i % 2 === 0 ? 3 : 4,
+        sentCount: 1,
+        failedCount: 0,
+        createdAt,
+      })
+    }
+  }
+
+  // Newest first, like the backend's default sort
+  return emails.reverse().map((email, index) => ({ ...email, id: index + 1 }))
+}
+
+function seedNotifications(users: MockUser[]): MockNotification[] {
+  const notifications: MockNotification[] = []
+  users.forEach((user) => {
+    const entries: [string, string, MockNotification['type'], boolean][] = [
+      ['Welcome to Notified', 'Your account is ready to use.', 'success', true],
+      [
+        'Attendance reminder',
+        "Don't forget to take attendance for today's classes.",
+        'info',
+        false,
+      ],
+      ['Email quota', 'You have sent 80% of your daily email quota.', 'warning', false],
+    ]
+    entries.forEach(([title, message, type, read], index) => {
+      const createdAt = daysAgo(3 - index).toISOString()
+      notifications.push({
+        id: notifications.length + 1,
+        userId: user.id,
+        title,
+        message,
+        type,
+        read,
+        createdAt,
+        updatedAt: createdAt,
+      })
+    })
+  })
+  return notifications
+}
+
+/**
+ * The built-in roles with their default permissions
+ */
+function seedPermissionMatrix(): PermissionMatrix {
+  return {
+    roles: (Object.keys(ROLE_PERMISSIONS) as BuiltInRole[]).map((role) => ({
+      id: role,
+      name: BUILT_IN_ROLE_NAMES[role],
+      permissions: [...ROLE_PERMISSIONS[role]],
+      builtIn: true,
+    })),
+    updatedAt: daysAgo(30).toISOString(),
+  }
+}
+
+/**
+ * Build a fresh database from fixtures
+ */
+export function seedDatabase(): MockDatabase {
+  const random = createRandom(20240601)
+  const users = seedUsers()
+  const students = seedStudents(random)
+  const subjects = seedSubjects(users)
+  const enrollments = seedEnrollments(students, subjects)
+  const instructorIds = Object.fromEntries(
+    subjects.map((subject) => [subject.id, subject.instructorIds[0] ?? 1])
+  )
+  const attendance = seedAttendance(random, enrollments, subjects, instructorIds)
+  const emails = seedEmails(students)
+  const { guardians, studentGuardians } = seedGuardians(students)
+  const { nfcCards, nfcCardEvents } = seedNfcCards(students)
+
+  return {
+    schools: seedSchools(),
+    users,
+    students,
+    subjects,
+    enrollments,
+    attendance,
+    records: seedRecords(attendance, emails),
+    emails,
+    notifications: seedNotifications(users),
+    passwordResets: [],
+    invitations: [],
+    statusChanges: [],
+    studentMerges: [],
+    guardians,
+    studentGuardians,
+    idCardTemplates: seedIdCardTemplates(),
+    idCardPrints: [],
+    nfcCards,
+    nfcCardEvents,
+    signupPolicy: { openSignup: true },
+    twoFactorPolicy: { requiredRoles: [] },
+    permissionMatrix: seedPermissionMatrix(),
+  }
+}
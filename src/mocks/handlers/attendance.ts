@@ -0,0 +1,718 @@
+import * as XLSX from 'xlsx'
+import { AttendanceStatus, ImportError, TimeSlot } from '@/types'
+import { PERMISSIONS } from '@/utils/permissions'
+import { parseAttendanceExcel } from '@/utils/attendanceExcelUtils'
+import { getDb, MockAttendance, MockUser, nextId, now, toDateKey } from '../db'
+import { publishEvent } from '../events'
+import { serializeAttendance } from '../serializers'
+import { currentUser, requirePermission, userHasPermission } from '../session'
+import {
+  created,
+  MockHttpError,
+  MockRequest,
+  notFound,
+  ok,
+  paginated,
+  requireFields,
+  route,
+  toId,
+} from '../router'
+import { resolveTappedCard } from './nfc-cards'
+
+const STATUSES: AttendanceStatus[] = ['present', 'absent', 'late', 'excused']
+const TIME_SLOTS: TimeSlot[] = ['arrival', 'departure']
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function findAttendance(id: string): MockAttendance {
+  const row = getDb().attendance.find((a) => a.id === toId(id))
+  if (!row) throw notFound('Attendance record')
+  return row
+}
+
+/**
+ * Push a new (or, with previousStatus, changed) record to live streams
+ */
+function announce(user: MockUser, row: MockAttendance, previousStatus?: AttendanceStatus) {
+  publishEvent(previousStatus ? 'attendance-updated' : 'attendance-created', user, {
+    record: serializeAttendance(row),
+    previousStatus,
+  })
+}
+
+/**
+ * Validate a mark payload the way the backend does (422 with field errors)
+ */
+function validateMark(body: any): { date: string; status: AttendanceStatus; timeSlot: TimeSlot } {
+  const errors: { [key: string]: string[] } = {}
+
+  if (!STATUSES.includes(body?.status)) {
+    errors.status = [`Status must be one of: ${STATUSES.join(', ')}`]
+  }
+  const timeSlot = body?.timeSlot ?? 'arrival'
+  if (!TIME_SLOTS.includes(timeSlot)) {
+    errors.timeSlot = [`Time slot must be one of: ${TIME_SLOTS.join(', ')}`]
+  }
+
+  const parsed = body?.date ? new Date(body.date) : new Date()
+  if (isNaN(parsed.getTime())) {
+    errors.date = ['Invalid date']
+  } else if (toDateKey(parsed) > toDateKey(new Date())) {
+    errors.date = ['Attendance date cannot be in the future']
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new MockHttpError(422, 'Validation failed', errors)
+  }
+  return { date: toDateKey(parsed), status: body.status, timeSlot }
+}
+
+function assertEnrolled(subjectId: number, studentIds: number[]) {
+  const db = getDb()
+  const missing = studentIds.filter(
+    (studentId) =>
+      !db.enrollments.some((e) => e.subjectId === subjectId && e.studentId === studentId)
+  )
+  if (missing.length > 0) {
+    throw new MockHttpError(422, 'Student is not enrolled in this subject', {
+      studentId: missing.map((id) => `Student ${id} is not enrolled in this subject`),
+    })
+  }
+}
+
+/**
+ * Subject attendance belongs to the subject's assigned instructors; roles with
+ * MARK_ANY_ATTENDANCE may mark any subject
+ */
+function canMarkSubject(user: MockUser, subjectId: number | undefined): boolean {
+  if (subjectId === undefined || userHasPermission(user, PERMISSIONS.MARK_ANY_ATTENDANCE)) {
+    return true
+  }
+  const subject = getDb().subjects.find((s) => s.id === subjectId)
+  return !subject || subject.instructorIds.includes(user.id)
+}
+
+function assertCanMarkSubject(user: MockUser, subjectId: number | undefined) {
+  if (!canMarkSubject(user, subjectId)) {
+    throw new MockHttpError(
+      403,
+      'Only the assigned instructors can mark attendance for this subject'
+    )
+  }
+}
+
+/**
+ * Log the arrival/departure in the activity records feed
+ */
+function logActivity(row: MockAttendance) {
+  if (row.status === 'absent') return
+  getDb().records.push({
+    id: nextId('records'),
+    studentId: row.studentId,
+    subjectId: row.subjectId,
+    recordType: row.timeSlot,
+    createdAt: row.updatedAt ?? row.createdAt,
+  })
+}
+
+interface SubjectMark {
+  subjectId: number
+  studentId: number
+  date: string
+  status: AttendanceStatus
+  timeSlot: TimeSlot
+  scheduleSlot?: string
+  remarks?: string
+}
+
+function findSubjectMark(mark: SubjectMark) {
+  return getDb().attendance.find(
+    (a) =>
+      a.subjectId === mark.subjectId &&
+      a.studentId === mark.studentId &&
+      a.date === mark.date &&
+      (a.scheduleSlot ?? null) === (mark.scheduleSlot ?? null)
+  )
+}
+
+/**
+ * Subject marks are upserts for the teacher who took them; a record another
+ * user already took for the same session is a conflict (409)
+ */
+function applySubjectMarks(user: MockUser, marks: SubjectMark[]): MockAttendance[] {
+  const conflicts = marks.filter((mark) => {
+    const existing = findSubjectMark(mark)
+    return existing && existing.markedBy !== user.id
+  })
+  if (conflicts.length > 0) {
+    throw new MockHttpError(
+      409,
+      conflicts.length === 1
+        ? 'Attendance already marked for this student by another user'
+        : `${conflicts.length} students were already marked by another user`
+    )
+  }
+
+  return marks.map((mark) => {
+    const existing = findSubjectMark(mark)
+    if (existing) {
+      const previousStatus = existing.status
+      Object.assign(existing, {
+        status: mark.status,
+        timeSlot: mark.timeSlot,
+        remarks: mark.remarks,
+        updatedAt: now(),
+      })
+      announce(user, existing, previousStatus)
+      return existing
+    }
+
+    const row: MockAttendance = {
+      ...mark,
+      id: nextId('attendance'),
+      markedBy: user.id,
+      createdAt: now(),
+    }
+    getDb().attendance.push(row)
+    logActivity(row)
+    announce(user, row)
+    return row
+  })
+}
+
+/**
+ * Apply the filters shared by /attendance/records and the Excel export.
+ * Accepts flat startDate/endDate or the nested dateRange object.
+ */
+function filterAttendance(query: { [key: string]: any }): MockAttendance[] {
+  const startDate = query.startDate ?? query.dateRange?.startDate ?? query['dateRange[startDate]']
+  const endDate = query.endDate ?? query.dateRange?.endDate ?? query['dateRange[endDate]']
+  const search = String(query.searchTerm ?? query.search ?? '').toLowerCase()
+  const db = getDb()
+
+  return db.attendance
+    .filter((a) => !query.studentId || a.studentId === Number(query.studentId))
+    .filter((a) => !query.subjectId || a.subjectId === Number(query.subjectId))
+    .filter((a) => {
+      if (!query.subjectCode) return true
+      const subject = db.subjects.find((s) => s.id === a.subjectId)
+      return subject?.subjectCode.toLowerCase() === String(query.subjectCode).toLowerCase()
+    })
+    .filter((a) => !query.status || a.status === query.status)
+    .filter((a) => !query.timeSlot || a.timeSlot === query.timeSlot)
+    .filter((a) => !startDate || a.date >= toDateKey(startDate))
+    .filter((a) => !endDate || a.date <= toDateKey(endDate))
+    .filter((a) => {
+      if (!search) return true
+      const student = db.students.find((s) => s.id === a.studentId)
+      const subject = db.subjects.find((s) => s.id === a.subjectId)
+      return [
+        student?.firstName,
+        student?.lastName,
+        student && `${student.firstName} ${student.lastName}`,
+        student?.studentNumber,
+        student?.email,
+        subject?.subjectCode,
+        subject?.subjectName,
+      ].some((value) => value?.toLowerCase().includes(search))
+    })
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+function countStatuses(rows: MockAttendance[]) {
+  const count = (status: AttendanceStatus) => rows.filter((a) => a.status === status).length
+  const present = count('present')
+  const late = count('late')
+  const excused = count('excused')
+  return {
+    present,
+    absent: count('absent'),
+    late,
+    excused,
+    attendanceRate:
+      rows.length > 0 ? Math.round(((present + late + excused) / rows.length) * 100) : 0,
+  }
+}
+
+function dailySummary(date: string) {
+  const rows = getDb().attendance.filter((a) => a.date === date)
+  return {
+    date,
+    totalStudents: getDb().students.filter((s) => s.status === 'active').length,
+    ...countStatuses(rows),
+    arrivalCount: rows.filter((a) => a.timeSlot === 'arrival').length,
+    departureCount: rows.filter((a) => a.timeSlot === 'departure').length,
+  }
+}
+
+function studentSummary(studentId: number, query: { [key: string]: any }) {
+  const student = getDb().students.find((s) => s.id === studentId)
+  if (!student) throw notFound('Student')
+  const rows = filterAttendance({ ...query, studentId })
+  const counts = countStatuses(rows)
+  return {
+    studentId,
+    studentNumber: student.studentNumber,
+    studentName: `${student.firstName} ${student.lastName}`,
+    totalDays: rows.length,
+    presentDays: counts.present,
+    absentDays: counts.absent,
+    lateDays: counts.late,
+    excusedDays: counts.excused,
+    attendanceRate: counts.attendanceRate,
+    lastAttendance: rows[0]?.createdAt,
+  }
+}
+
+function subjectOf(req: MockRequest) {
+  const subject = getDb().subjects.find((s) => s.id === toId(req.params.subjectId, 'subjectId'))
+  if (!subject) throw notFound('Subject')
+  return subject
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+export const attendanceRoutes = [
+  // ---- Subject attendance ----
+
+  route('post', '/attendance/subject/mark', (req) => {
+    const user = requirePermission(req, PERMISSIONS.MARK_ATTENDANCE)
+    requireFields(req.body, ['subjectId', 'studentId', 'status'])
+    const { date, status, timeSlot } = validateMark(req.body)
+    const subjectId = toId(req.body.subjectId, 'subjectId')
+    const studentId = toId(req.body.studentId, 'studentId')
+    assertCanMarkSubject(user, subjectId)
+    assertEnrolled(subjectId, [studentId])
+
+    const [row] = applySubjectMarks(user, [
+      {
+        subjectId,
+        studentId,
+        date,
+        status,
+        timeSlot,
+        scheduleSlot: req.body.scheduleSlot || undefined,
+        remarks: req.body.remarks || undefined,
+      },
+    ])
+    return created(serializeAttendance(row), 'Attendance marked successfully')
+  }),
+
+  route('post', '/attendance/subject/bulk-mark', (req) => {
+    const user = requirePermission(req, PERMISSIONS.MARK_ATTENDANCE)
+    requireFields(req.body, ['subjectId', 'status'])
+    if (!Array.isArray(req.body.studentIds) || req.body.studentIds.length === 0) {
+      throw new MockHttpError(422, 'Validation failed', {
+        studentIds: ['At least one student is required'],
+      })
+    }
+    const { date, status, timeSlot } = validateMark(req.body)
+    const subjectId = toId(req.body.subjectId, 'subjectId')
+    const studentIds = (req.body.studentIds as unknown[]).map((id) => toId(id, 'studentId'))
+    assertCanMarkSubject(user, subjectId)
+    assertEnrolled(subjectId, studentIds)
+
+    const rows = applySubjectMarks(
+      user,
+      studentIds.map((studentId) => ({
+        subjectId,
+        studentId,
+        date,
+        status,
+        timeSlot,
+        scheduleSlot: req.body.scheduleSlot || undefined,
+        remarks: req.body.remarks || undefined,
+      }))
+    )
+    return created(rows.map(serializeAttendance), `Marked ${rows.length} student(s)`)
+  }),
+
+  /**
+   * Mark the holder of a tapped NFC card. Lost and revoked cards are rejected
+   * before anything is marked.
+   */
+  route('post', '/attendance/subject/tap', (req) => {
+    const user = requirePermission(req, PERMISSIONS.MARK_ATTENDANCE)
+    requireFields(req.body, ['subjectId', 'uid'])
+    const { date, status, timeSlot } = validateMark({
+      ...req.body,
+      status: req.body.status ?? 'present',
+    })
+    const subjectId = toId(req.body.subjectId, 'subjectId')
+    assertCanMarkSubject(user, subjectId)
+    const card = resolveTappedCard(String(req.body.uid))
+    assertEnrolled(subjectId, [card.studentId])
+
+    const [row] = applySubjectMarks(user, [
+      {
+        subjectId,
+        studentId: card.studentId,
+        date,
+        status,
+        timeSlot,
+        scheduleSlot: req.body.scheduleSlot || undefined,
+        remarks: req.body.remarks || undefined,
+      },
+    ])
+    card.lastTapAt = now()
+    return created(serializeAttendance(row), 'Attendance marked successfully')
+  }),
+
+  route('get', '/attendance/subject/:subjectId/date/:date', (req) => {
+    const subject = subjectOf(req)
+    return ok(
+      getDb()
+        .attendance.filter((a) => a.subjectId === subject.id && a.date === req.params.date)
+        .map(serializeAttendance)
+    )
+  }),
+
+  route('get', '/attendance/subject/:subjectId/summary/:date', (req) => {
+    const subject = subjectOf(req)
+    const db = getDb()
+    const rows = db.attendance.filter(
+      (a) => a.subjectId === subject.id && a.date === req.params.date
+    )
+    return ok({
+      subjectId: subject.id,
+      subjectCode: subject.subjectCode,
+      subjectName: subject.subjectName,
+      section: subject.section,
+      date: req.params.date,
+      totalStudents: db.enrollments.filter((e) => e.subjectId === subject.id).length,
+      ...countStatuses(rows),
+      records: rows.map((row) => {
+        const student = db.students.find((s) => s.id === row.studentId)
+        return {
+          studentId: row.studentId,
+          studentNumber: student?.studentNumber ?? '',
+          studentName: student ? `${student.firstName} ${student.lastName}` : '',
+          status: row.status,
+          markedAt: row.updatedAt ?? row.createdAt,
+        }
+      }),
+    })
+  }),
+
+  route('get', '/attendance/subject/:subjectId/student/:studentId', (req) => {
+    const subject = subjectOf(req)
+    const studentId = toId(req.params.studentId, 'studentId')
+    const student = getDb().students.find((s) => s.id === studentId)
+    if (!student) throw notFound('Student')
+
+    const rows = filterAttendance({ subjectId: subject.id, studentId })
+    const counts = countStatuses(rows)
+    return ok({
+      studentId,
+      studentNumber: student.studentNumber,
+      studentName: `${student.firstName} ${student.lastName}`,
+      subjectId: subject.id,
+      subjectCode: subject.subjectCode,
+      subjectName: subject.subjectName,
+      totalSessions: rows.length,
+      presentCount: counts.present,
+      absentCount: counts.absent,
+      lateCount: counts.late,
+      excusedCount: counts.excused,
+      attendanceRate: counts.attendanceRate,
+      recentRecords: rows.slice(0, 10).map((row) => ({
+        date: row.date,
+        status: row.status,
+        notes: row.remarks,
+      })),
+    })
+  }),
+
+  route('get', '/attendance/subject/:subjectId', (req) => {
+    const subject = subjectOf(req)
+    return ok(filterAttendance({ subjectId: subject.id }).map(serializeAttendance))
+  }),
+
+  // ---- General marking ----
+
+  route('post', '/attendance/mark', (req) => {
+    const user = requirePermission(req, PERMISSIONS.MARK_ATTENDANCE)
+    requireFields(req.body, ['studentId', 'status'])
+    const { date, status, timeSlot } = validateMark(req.body)
+    const studentId = toId(req.body.studentId, 'studentId')
+    const subjectId = req.body.subjectId ? toId(req.body.subjectId, 'subjectId') : undefined
+    assertCanMarkSubject(user, subjectId)
+    if (!getDb().students.some((s) => s.id === studentId)) throw notFound('Student')
+
+    const existing = getDb().attendance.find(
+      (a) =>
+        a.studentId === studentId &&
+        a.subjectId === subjectId &&
+        a.date === date &&
+        a.timeSlot === timeSlot
+    )
+    if (existing) {
+      throw new MockHttpError(409, 'Attendance already marked for this student today')
+    }
+
+    const row: MockAttendance = {
+      id: nextId('attendance'),
+      studentId,
+      subjectId,
+      date,
+      status,
+      timeSlot,
+      remarks: req.body.remarks || undefined,
+      markedBy: user.id,
+      createdAt: now(),
+    }
+    getDb().attendance.push(row)
+    logActivity(row)
+    announce(user, row)
+    return created(serializeAttendance(row), 'Attendance marked successfully')
+  }),
+
+  route('post', '/attendance/bulk-mark', (req) => {
+    const user = requirePermission(req, PERMISSIONS.MARK_ATTENDANCE)
+    if (!Array.isArray(req.body?.studentIds) || req.body.studentIds.length === 0) {
+      throw new MockHttpError(422, 'Validation failed', {
+        studentIds: ['At least one student is required'],
+      })
+    }
+    const { date, status, timeSlot } = validateMark({ ...req.body, date: req.body.timestamp })
+    const subjectId = req.body.subjectId ? toId(req.body.subjectId, 'subjectId') : undefined
+    assertCanMarkSubject(user, subjectId)
+
+    const rows = (req.body.studentIds as unknown[]).map((id) => {
+      const row: MockAttendance = {
+        id: nextId('attendance'),
+        studentId: toId(id, 'studentId'),
+        subjectId,
+        date,
+        status,
+        timeSlot,
+        remarks: req.body.notes || undefined,
+        markedBy: user.id,
+        createdAt: now(),
+      }
+      getDb().attendance.push(row)
+      logActivity(row)
+      announce(user, row)
+      return row
+    })
+    return created(rows.map(serializeAttendance), `Marked ${rows.length} student(s)`)
+  }),
+
+  route('get', '/attendance/records', (req) =>
+    paginated(filterAttendance(req.query).map(serializeAttendance), req.query, 1000)
+  ),
+
+  // ---- Summaries ----
+
+  route('get', '/attendance/summary/daily/:date', (req) => ok(dailySummary(req.params.date))),
+
+  route('get', '/attendance/summary/range', (req) => {
+    requireFields(req.query, ['startDate', 'endDate'])
+    const summaries: ReturnType<typeof dailySummary>[] = []
+    const cursor = new Date(req.query.startDate)
+    const end = new Date(req.query.endDate)
+    while (cursor <= end && summaries.length < 366) {
+      summaries.push(dailySummary(toDateKey(cursor)))
+      cursor.setDate(cursor.getDate() + 1)
+    }
+    return ok(summaries)
+  }),
+
+  route('get', '/attendance/summary/student/:studentId', (req) =>
+    ok(studentSummary(toId(req.params.studentId, 'studentId'), req.query))
+  ),
+
+  route('get', '/attendance/summary/subject/:subjectId', (req) => {
+    const subject = subjectOf(req)
+    const db = getDb()
+    const rows = filterAttendance({ ...req.query, subjectId: subject.id })
+    const enrolledIds = db.enrollments
+      .filter((e) => e.subjectId === subject.id)
+      .map((e) => e.studentId)
+    return ok({
+      subjectId: subject.id,
+      subjectCode: subject.subjectCode,
+      subjectName: subject.subjectName,
+      section: subject.section,
+      totalSessions: new Set(rows.map((a) => `${a.date}|${a.scheduleSlot ?? ''}`)).size,
+      averageAttendance: countStatuses(rows).attendanceRate,
+      totalStudents: enrolledIds.length,
+      activeStudents: db.students.filter((s) => enrolledIds.includes(s.id) && s.status === 'active')
+        .length,
+    })
+  }),
+
+  route('get', '/attendance/summary/students', (req) =>
+    ok(getDb().students.map((student) => studentSummary(student.id, req.query)))
+  ),
+
+  route('get', '/attendance/summary', () => {
+    const counts = countStatuses(getDb().attendance)
+    return ok({ totalDays: new Set(getDb().attendance.map((a) => a.date)).size, ...counts })
+  }),
+
+  // ---- Excel import/export ----
+
+  route('post', '/attendance/import/excel', async (req) => {
+    const user = requirePermission(req, PERMISSIONS.MARK_ATTENDANCE)
+    const file = req.body instanceof FormData ? req.body.get('file') : null
+    if (!(file instanceof File)) {
+      throw new MockHttpError(422, 'Validation failed', { file: ['An Excel file is required'] })
+    }
+
+    const db = getDb()
+    const rows = await parseAttendanceExcel(file)
+    const errors: ImportError[] = []
+    const imported: MockAttendance[] = []
+
+    rows.forEach((excelRow, index) => {
+      const rowNumber = index + 2 // header is row 1
+      const student = db.students.find(
+        (s) => s.studentNumber === excelRow['Student Number']?.trim()
+      )
+      if (!student) {
+        errors.push({ row: rowNumber, field: 'Student Number', message: 'Student not found' })
+        return
+      }
+      const subjectCode = excelRow['Subject Code']?.trim().toUpperCase()
+      const subject = subjectCode
+        ? db.subjects.find((s) => s.subjectCode === subjectCode)
+        : undefined
+      if (subjectCode && !subject) {
+        errors.push({ row: rowNumber, field: 'Subject Code', message: 'Subject not found' })
+        return
+      }
+      if (!canMarkSubject(user, subject?.id)) {
+        errors.push({
+          row: rowNumber,
+          field: 'Subject Code',
+          message: 'You are not an assigned instructor of this subject',
+        })
+        return
+      }
+
+      try {
+        const mark = validateMark({
+          status: excelRow.Status?.toLowerCase().trim(),
+          timeSlot: excelRow['Time Slot']?.toLowerCase().trim() || 'arrival',
+          date: excelRow.Date,
+        })
+        const row: MockAttendance = {
+          id: nextId('attendance'),
+          studentId: student.id,
+          subjectId: subject?.id,
+          ...mark,
+          remarks: excelRow.Notes || undefined,
+          markedBy: user.id,
+          createdAt: now(),
+        }
+        db.attendance.push(row)
+        imported.push(row)
+        announce(user, row)
+      } catch (error) {
+        errors.push({ row: rowNumber, message: (error as Error).message, data: excelRow })
+      }
+    })
+
+    return ok({
+      success: imported.length,
+      failed: errors.length,
+      errors,
+      imported: imported.map(serializeAttendance),
+    })
+  }),
+
+  route('get', '/attendance/export/excel', (req) => {
+    const rows = filterAttendance(req.query).map(serializeAttendance)
+    const worksheet = XLSX.utils.json_to_sheet(
+      rows.map((row) => ({
+        'Student Number': row.studentNumber,
+        'First Name': row.firstName,
+        'Last Name': row.lastName,
+        'Subject Code': row.subjectCode ?? '',
+        Status: row.status,
+        'Time Slot': row.timeSlot,
+        Date: row.date,
+        Notes: row.remarks ?? '',
+      }))
+    )
+    const workbook = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Attendance')
+    const buffer = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' })
+
+    // Binary download, not wrapped in the JSON envelope
+    return {
+      status: 200,
+      body: new Blob([buffer], {
+        type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      }),
+    }
+  }),
+
+  // ---- Legacy attendance CRUD ----
+
+  route('get', '/attendance/today', () => {
+    const today = toDateKey(new Date())
+    return ok(filterAttendance({ startDate: today, endDate: today }).map(serializeAttendance))
+  }),
+
+  route('get', '/attendance/student/:studentId', (req) =>
+    ok(filterAttendance({ studentId: toId(req.params.studentId) }).map(serializeAttendance))
+  ),
+
+  route('get', '/attendance', () => ok(filterAttendance({}).map(serializeAttendance))),
+
+  route('get', '/attendance/:id', (req) => ok(serializeAttendance(findAttendance(req.params.id)))),
+
+  route('post', '/attendance', (req) => {
+    const user = requirePermission(req, PERMISSIONS.MARK_ATTENDANCE)
+    requireFields(req.body, ['studentId', 'subjectId', 'date', 'status'])
+    const mark = validateMark(req.body)
+    const subjectId = toId(req.body.subjectId, 'subjectId')
+    assertCanMarkSubject(user, subjectId)
+    const [row] = applySubjectMarks(user, [
+      {
+        ...mark,
+        subjectId,
+        studentId: toId(req.body.studentId, 'studentId'),
+        remarks: req.body.notes || undefined,
+      },
+    ])
+    return created(serializeAttendance(row), 'Attendance created successfully')
+  }),
+
+  route('put', '/attendance/:id', (req) => {
+    const user = currentUser(req)
+    const row = findAttendance(req.params.id)
+    assertCanMarkSubject(user, row.subjectId)
+    const previousStatus = row.status
+    const body = req.body ?? {}
+    if (body.status !== undefined || body.date !== undefined || body.timeSlot !== undefined) {
+      const mark = validateMark({
+        status: body.status ?? row.status,
+        timeSlot: body.timeSlot ?? row.timeSlot,
+        date: body.date ?? row.date,
+      })
+      Object.assign(row, mark)
+    }
+    if (body.remarks !== undefined || body.notes !== undefined) {
+      row.remarks = body.remarks ?? body.notes
+    }
+    row.updatedAt = now()
+    announce(user, row, previousStatus)
+    return ok(serializeAttendance(row), 'Attendance updated successfully')
+  }),
+
+  route('delete', '/attendance/:id', (req) => {
+    const user = requirePermission(req, PERMISSIONS.MARK_ATTENDANCE)
+    const row = findAttendance(req.params.id)
+    assertCanMarkSubject(user, row.subjectId)
+    const db = getDb()
+    db.attendance = db.attendance.filter((a) => a.id !== row.id)
+    return ok(null, 'Attendance deleted successfully')
+  }),
+]
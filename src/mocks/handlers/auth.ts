@@ -0,0 +1,281 @@
+import { INVITE_ERRORS, RESET_TOKEN_ERRORS } from '@/utils/constants'
+import { VALIDATION_PATTERNS, validators } from '@/utils/validation-rules'
+import { getDb, MockPasswordReset, MockUser, nextId, now } from '../db'
+import { serializeUser } from '../serializers'
+import {
+  clearRateLimit,
+  currentUser,
+  endSession,
+  getSessionUserId,
+  issueToken,
+  rateLimit,
+} from '../session'
+import { created, MockHttpError, ok, requireFields, route } from '../router'
+import { findUsableInvitation } from './invitations'
+import { issueTwoFactorChallenge } from './two-factor'
+
+const LOGIN_ATTEMPTS = 5
+const LOGIN_WINDOW = 5 * 60 * 1000 // 5 minutes
+const RESET_REQUESTS = 3
+const RESET_WINDOW = 15 * 60 * 1000 // 15 minutes
+const RESET_TOKEN_TTL = 60 * 60 * 1000 // 1 hour
+
+function createResetToken(): string {
+  return Array.from({ length: 4 }, () => Math.random().toString(36).slice(2, 10)).join('')
+}
+
+/**
+ * "jdelacruz@notified.test" -> "j***@notified.test"
+ */
+function maskEmail(email: string): string {
+  const [local, domain] = email.split('@')
+  return `${local.charAt(0)}***@${domain}`
+}
+
+/**
+ * The reset request behind a link, if it can still be used. Expired and used
+ * links get 410 so the page can tell them apart from mistyped ones.
+ */
+function findUsableReset(token: string): MockPasswordReset {
+  const reset = getDb().passwordResets.find((r) => r.token === token)
+  if (!reset) {
+    throw new MockHttpError(
+      404,
+      'This password reset link is invalid',
+      undefined,
+      RESET_TOKEN_ERRORS.INVALID
+    )
+  }
+  if (reset.usedAt) {
+    throw new MockHttpError(
+      410,
+      'This password reset link has already been used',
+      undefined,
+      RESET_TOKEN_ERRORS.USED
+    )
+  }
+  if (Date.parse(reset.expiresAt) < Date.now()) {
+    throw new MockHttpError(
+      410,
+      'This password reset link has expired',
+      undefined,
+      RESET_TOKEN_ERRORS.EXPIRED
+    )
+  }
+  return reset
+}
+
+export const authRoutes = [
+  route(
+    'post',
+    '/auth/login',
+    (req) => {
+      requireFields(req.body, ['email', 'password'])
+      const email = String(req.body.email).toLowerCase()
+      const user = getDb().users.find((u) => u.email === email)
+
+      if (!user || user.password !== req.body.password) {
+        rateLimit(
+          `login:${email}`,
+          LOGIN_ATTEMPTS,
+          LOGIN_WINDOW,
+          'Too many login attempts. Please try again in {seconds} seconds.'
+        )
+        throw new MockHttpError(401, 'Invalid email or password')
+      }
+      if (!user.isActive) {
+        throw new MockHttpError(403, 'Your account has been deactivated')
+      }
+
+      clearRateLimit(`login:${email}`)
+      if (user.twoFactorSecret) {
+        return ok(issueTwoFactorChallenge(user), 'Two-factor code required')
+      }
+      return ok({ user: serializeUser(user), accessToken: issueToken(user.id) }, 'Login successful')
+    },
+    { isPublic: true }
+  ),
+
+  route(
+    'post',
+    '/auth/register',
+    (req) => {
+      requireFields(req.body, ['name', 'email', 'password'])
+      const db = getDb()
+      const email = String(req.body.email).toLowerCase()
+
+      if (!VALIDATION_PATTERNS.EMAIL.test(email)) {
+        throw new MockHttpError(422, 'Validation failed', { email: ['Invalid email address'] })
+      }
+      if (db.users.some((u) => u.email === email)) {
+        throw new MockHttpError(409, 'An account with this email already exists')
+      }
+
+      // An invitation fixes the email, role and school; without one the
+      // account is a professor at the first campus, if open signup is on
+      const invitation = req.body.inviteToken
+        ? findUsableInvitation(String(req.body.inviteToken))
+        : undefined
+      if (!invitation && !db.signupPolicy.openSignup) {
+        throw new MockHttpError(
+          403,
+          'Sign-up is by invitation only',
+          undefined,
+          INVITE_ERRORS.SIGNUP_CLOSED
+        )
+      }
+      if (invitation && invitation.email !== email) {
+        throw new MockHttpError(422, 'Validation failed', {
+          email: ['Use the email address the invitation was sent to'],
+        })
+      }
+      if (invitation && !db.permissionMatrix.roles.some((r) => r.id === invitation.role)) {
+        throw new MockHttpError(422, 'The role on this invitation no longer exists')
+      }
+
+      const user: MockUser = {
+        id: nextId('users'),
+        name: String(req.body.name).trim(),
+        email,
+        password: String(req.body.password),
+        role: invitation?.role ?? 'professor',
+        isActive: true,
+        schoolIds: [invitation?.schoolId ?? db.schools[0].id],
+        createdAt: now(),
+      }
+      db.users.push(user)
+      if (invitation) invitation.acceptedAt = now()
+      return created(
+        { user: serializeUser(user), accessToken: issueToken(user.id) },
+        'Registration successful'
+      )
+    },
+    { isPublic: true }
+  ),
+
+  route(
+    'post',
+    '/auth/forgot-password',
+    (req) => {
+      requireFields(req.body, ['email'])
+      const db = getDb()
+      const email = String(req.body.email).toLowerCase()
+      rateLimit(
+        `reset:${email}`,
+        RESET_REQUESTS,
+        RESET_WINDOW,
+        'Too many reset requests. Please try again in {seconds} seconds.'
+      )
+
+      // Same answer whether or not the account exists, so emails cannot be probed
+      const user = db.users.find((u) => u.email === email && u.isActive)
+      if (user) {
+        // A new link replaces any earlier one that is still pending
+        db.passwordResets = db.passwordResets.filter((r) => r.userId !== user.id || r.usedAt)
+        const reset: MockPasswordReset = {
+          id: nextId('passwordResets'),
+          token: createResetToken(),
+          userId: user.id,
+          expiresAt: new Date(Date.now() + RESET_TOKEN_TTL).toISOString(),
+          createdAt: now(),
+        }
+        db.passwordResets.push(reset)
+        // No mail is sent in mock mode; the link is printed instead
+        console.info(`[MockApi] Password reset link for ${email}: /reset-password/${reset.token}`)
+      }
+
+      return ok(null, 'If an account exists for that email, a reset link has been sent')
+    },
+    { isPublic: true }
+  ),
+
+  route(
+    'get',
+    '/auth/reset-password/:token',
+    (req) => {
+      const reset = findUsableReset(req.params.token)
+      const user = getDb().users.find((u) => u.id === reset.userId)
+      return ok({ email: maskEmail(user?.email ?? ''), expiresAt: reset.expiresAt })
+    },
+    { isPublic: true }
+  ),
+
+  route(
+    'post',
+    '/auth/reset-password/:token',
+    (req) => {
+      requireFields(req.body, ['password'])
+      const reset = findUsableReset(req.params.token)
+      const password = String(req.body.password)
+
+      const strength = validators.passwordStrength(password)
+      if (!strength.isValid) {
+        throw new MockHttpError(422, 'Validation failed', {
+          password: [strength.error ?? 'Password is too weak'],
+        })
+      }
+
+      const user = getDb().users.find((u) => u.id === reset.userId)
+      if (!user) {
+        throw new MockHttpError(404, 'User not found')
+      }
+      user.password = password
+      user.updatedAt = now()
+      reset.usedAt = now()
+      // Sessions started with the old password end here
+      endSession()
+      return ok(null, 'Password has been reset. Please sign in with your new password.')
+    },
+    { isPublic: true }
+  ),
+
+  route(
+    'post',
+    '/auth/refresh-token',
+    () => {
+      const userId = getSessionUserId()
+      const user = getDb().users.find((u) => u.id === userId && u.isActive)
+      if (!user) {
+        throw new MockHttpError(401, 'Refresh token expired - Please login again')
+      }
+      return ok({ accessToken: issueToken(user.id) })
+    },
+    { isPublic: true }
+  ),
+
+  route('post', '/auth/logout', () => {
+    endSession()
+    return ok(null, 'Logged out successfully')
+  }),
+
+  route('get', '/auth/me', (req) => ok(serializeUser(currentUser(req)))),
+
+  route('put', '/auth/update-password', (req) => {
+    requireFields(req.body, ['currentPassword', 'newPassword'])
+    const user = currentUser(req)
+    if (user.password !== req.body.currentPassword) {
+      throw new MockHttpError(422, 'Current password is incorrect', {
+        currentPassword: ['Current password is incorrect'],
+      })
+    }
+    user.password = req.body.newPassword
+    user.updatedAt = now()
+    return ok(null, 'Password updated successfully')
+  }),
+
+  route('put', '/auth/update-profile', (req) => {
+    const user = currentUser(req)
+    const email = req.body?.email ? String(req.body.email).toLowerCase() : undefined
+
+    if (email && getDb().users.some((u) => u.email === email && u.id !== user.id)) {
+      throw new MockHttpError(409, 'Email is already in use', {
+        email: ['Email is already in use'],
+      })
+    }
+
+    if (req.body?.name) user.name = String(req.body.name).trim()
+    if (email) user.email = email
+    user.updatedAt = now()
+    return ok(serializeUser(user), 'Profile updated successfully')
+  }),
+]
@@ -0,0 +1,189 @@
+import { attendanceAlertRecipients } from '@/utils/guardians'
+import { PERMISSIONS } from '@/utils/permissions'
+import { VALIDATION_PATTERNS } from '@/utils/validation-rules'
+import { getDb, MockEmail, nextId, now, toDateKey } from '../db'
+import { publishEvent } from '../events'
+import { serializeEmail, serializeStudent } from '../serializers'
+import { currentUser, rateLimit, requirePermission } from '../session'
+import { MockHttpError, MockRequest, ok, paginated, requireFields, route } from '../router'
+
+// Same limits the backend enforces per user
+const EMAILS_PER_WINDOW = 10
+const EMAIL_WINDOW = 45 * 1000
+const BULK_ROLES = ['superadmin', 'admin', 'staff', 'registrar']
+
+/**
+ * Validate subject/message lengths and recipient addresses (422)
+ */
+function validateEmail(subject: unknown, message: unknown, recipients: string[]) {
+  const errors: { [key: string]: string[] } = {}
+  const subjectText = String(subject ?? '').trim()
+  const messageText = String(message ?? '').trim()
+
+  if (subjectText.length < 3 || subjectText.length > 200) {
+    errors.subject = ['Subject must be between 3 and 200 characters']
+  }
+  if (messageText.length < 10 || messageText.length > 5000) {
+    errors.message = ['Message must be between 10 and 5000 characters']
+  }
+  const invalid = recipients.filter((email) => !VALIDATION_PATTERNS.EMAIL.test(email))
+  if (recipients.length === 0 || invalid.length > 0) {
+    errors.recipients = invalid.length
+      ? invalid.map((email) => `Invalid email address: ${email}`)
+      : ['At least one recipient is required']
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new MockHttpError(422, 'Validation failed', errors)
+  }
+}
+
+/**
+ * Record a send in the history (and the activity feed for student notices)
+ */
+function recordSend(req: MockRequest, email: Omit<MockEmail, 'id' | 'performedBy' | 'createdAt'>) {
+  const user = currentUser(req)
+  rateLimit(
+    `email:${user.id}`,
+    EMAILS_PER_WINDOW,
+    EMAIL_WINDOW,
+    'Rate limit exceeded. Please wait {seconds} seconds before sending more emails.'
+  )
+
+  const db = getDb()
+  const row: MockEmail = { ...email, id: nextId('emails'), performedBy: user.id, createdAt: now() }
+  db.emails.unshift(row)
+
+  if (row.studentId) {
+    db.records.push({
+      id: nextId('records'),
+      studentId: row.studentId,
+      recordType: 'email_sent',
+      createdAt: row.createdAt,
+    })
+  }
+  publishEvent('email-sent', user, {
+    subject: row.subject,
+    recipients: row.recipients,
+    studentId: row.studentId,
+  })
+  return row
+}
+
+export const emailRoutes = [
+  route('post', '/emails/send', (req) => {
+    requirePermission(req, PERMISSIONS.SEND_EMAILS)
+    requireFields(req.body, ['to'])
+    const to = String(req.body.to).trim()
+    validateEmail(req.body.subject, req.body.message, [to])
+
+    recordSend(req, {
+      recordType: 'email_sent',
+      subject: req.body.subject,
+      message: req.body.message,
+      recipients: [to],
+      sentCount: 1,
+      failedCount: 0,
+    })
+    return ok({ success: true, message: 'Email sent successfully', emailsSent: 1 })
+  }),
+
+  route('post', '/emails/send-bulk', (req) => {
+    const user = requirePermission(req, PERMISSIONS.SEND_EMAILS)
+    if (!BULK_ROLES.includes(user.role)) {
+      throw new MockHttpError(
+        403,
+        'You do not have permission to perform this action. Bulk email requires superadmin, admin, or staff role.'
+      )
+    }
+    const recipients: string[] = Array.isArray(req.body?.recipients)
+      ? req.body.recipients.map((email: unknown) => String(email).trim())
+      : []
+    validateEmail(req.body?.subject, req.body?.message, recipients)
+
+    recordSend(req, {
+      recordType: 'bulk_email_sent',
+      subject: req.body.subject,
+      message: req.body.message,
+      recipients,
+      sentCount: recipients.length,
+      failedCount: 0,
+    })
+    return ok({
+      success: true,
+      message: `Email sent to ${recipients.length} recipients`,
+      emailsSent: recipients.length,
+    })
+  }),
+
+  route('post', '/emails/send-guardian', (req) => {
+    requirePermission(req, PERMISSIONS.SEND_EMAILS)
+    requireFields(req.body, ['studentId'])
+    const student = getDb().students.find((s) => s.id === Number(req.body.studentId))
+    // Without a guardianEmail, every guardian opted in to attendance alerts is notified
+    const recipients = req.body.guardianEmail
+      ? [String(req.body.guardianEmail).trim()]
+      : attendanceAlertRecipients(student ? serializeStudent(student).guardians : []).map(
+          (guardian) => guardian.email!
+        )
+    if (!req.body.guardianEmail && recipients.length === 0) {
+      throw new MockHttpError(422, 'Validation failed', {
+        recipients: ['No guardian of this student receives attendance alerts by email'],
+      })
+    }
+    validateEmail(req.body.subject, req.body.message, recipients)
+
+    recordSend(req, {
+      recordType: 'email_sent',
+      subject: req.body.subject,
+      message: req.body.message,
+      recipients,
+      studentId: student?.id,
+      sentCount: recipients.length,
+      failedCount: 0,
+    })
+    return ok({
+      success: true,
+      message:
+        recipients.length === 1
+          ? 'Guardian notified successfully'
+          : `${recipients.length} guardians notified successfully`,
+      emailsSent: recipients.length,
+    })
+  }),
+
+  route('get', '/emails/config', () =>
+    ok({ configured: true, provider: 'mock', fromEmail: 'no-reply@notified.test' })
+  ),
+
+  route('post', '/emails/test', (req) => {
+    requireFields(req.body, ['email'])
+    if (!VALIDATION_PATTERNS.EMAIL.test(String(req.body.email))) {
+      throw new MockHttpError(422, 'Validation failed', { email: ['Invalid email address'] })
+    }
+    return ok({ success: true, message: `Test email sent to ${req.body.email}` })
+  }),
+
+  route('get', '/emails/history', (req) => {
+    requirePermission(req, PERMISSIONS.VIEW_EMAIL_HISTORY)
+    const { search, startDate, endDate } = req.query
+    const term = String(search ?? '').toLowerCase()
+
+    const emails = getDb()
+      .emails.filter((e) => !startDate || toDateKey(e.createdAt) >= toDateKey(startDate))
+      .filter((e) => !endDate || toDateKey(e.createdAt) <= toDateKey(endDate))
+      .map(serializeEmail)
+      .filter(
+        (e) =>
+          !term ||
+          [
+            e.recordData,
+            e.performedBy.name,
+            e.student?.firstName,
+            e.student?.lastName,
+            ...(e.metadata?.recipients ?? []),
+          ].some((value) => value?.toLowerCase().includes(term))
+      )
+    return paginated(emails, req.query)
+  }),
+]
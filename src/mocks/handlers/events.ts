@@ -0,0 +1,8 @@
+import { issueStreamTicket } from '../events'
+import { currentUser } from '../session'
+import { ok, route } from '../router'
+
+export const eventRoutes = [
+  // Tickets stand in for the access token on the EventSource URL
+  route('post', '/events/ticket', (req) => ok(issueStreamTicket(currentUser(req).id))),
+]
@@ -0,0 +1,233 @@
+import { Student, StudentFormData, StudentGuardianLink } from '@/types'
+import { GUARDIAN_CHANNELS, GUARDIAN_RELATIONSHIPS } from '@/utils/guardians'
+import { validators } from '@/utils/validation-rules'
+import { PERMISSIONS } from '@/utils/permissions'
+import { getDb, MockGuardian, nextId, now } from '../db'
+import { serializeGuardian } from '../serializers'
+import { requirePermission } from '../session'
+import { created, MockHttpError, notFound, ok, route, toId } from '../router'
+
+const RELATIONSHIPS = GUARDIAN_RELATIONSHIPS.map(({ value }) => value)
+const CHANNELS = GUARDIAN_CHANNELS.map(({ value }) => value)
+
+type LegacyGuardianFields = {
+  guardianName?: string | null
+  guardianEmail?: string | null
+  guardianContact?: string | null
+}
+
+function findGuardian(id: string): MockGuardian {
+  const guardian = getDb().guardians.find((g) => g.id === toId(id))
+  if (!guardian) throw notFound('Guardian')
+  return guardian
+}
+
+function findByEmail(email: string, exceptId?: number): MockGuardian | undefined {
+  return getDb().guardians.find(
+    (g) => g.id !== exceptId && g.email?.toLowerCase() === email.toLowerCase()
+  )
+}
+
+/**
+ * Server-side guardian validation; returns 422 with field errors, or 409 when
+ * another guardian already uses the email
+ */
+function validateGuardian(body: any, partial: boolean, exceptId?: number) {
+  const errors: { [key: string]: string[] } = {}
+  const check = (field: string, result: { isValid: boolean; error?: string }) => {
+    if (!result.isValid) errors[field] = [result.error || `Invalid ${field}`]
+  }
+  const present = (field: string) => body?.[field] !== undefined && body[field] !== ''
+
+  if (!partial || present('name')) {
+    check('name', validators.personName(body?.name ?? '', 'Guardian name'))
+  }
+  if (present('email')) check('email', validators.email(body.email))
+  if (present('contact')) check('contact', validators.contact(body.contact))
+  if ((!partial || present('preferredChannel')) && !CHANNELS.includes(body?.preferredChannel)) {
+    errors.preferredChannel = [`Preferred channel must be one of: ${CHANNELS.join(', ')}`]
+  }
+  if (Object.keys(errors).length > 0) {
+    throw new MockHttpError(422, 'Validation failed', errors)
+  }
+
+  if (present('email') && findByEmail(String(body.email), exceptId)) {
+    const message = 'A guardian with this email already exists'
+    throw new MockHttpError(409, message, { email: [message] })
+  }
+}
+
+/**
+ * Check a student's guardian list before anything is saved (422)
+ */
+export function readGuardianLinks(value: unknown): StudentGuardianLink[] {
+  if (!Array.isArray(value)) {
+    throw new MockHttpError(422, 'Validation failed', { guardians: ['Guardians must be a list'] })
+  }
+  const errors: string[] = []
+  const links = value.map((link: any) => ({
+    guardianId: Number(link?.guardianId),
+    relationship: link?.relationship,
+    receivesAttendanceAlerts: link?.receivesAttendanceAlerts !== false,
+  }))
+  links.forEach((link, index) => {
+    if (!getDb().guardians.some((g) => g.id === link.guardianId)) {
+      errors.push(`Guardian ${link.guardianId} not found`)
+    } else if (links.findIndex((l) => l.guardianId === link.guardianId) !== index) {
+      errors.push(`Guardian ${link.guardianId} is listed twice`)
+    }
+    if (!RELATIONSHIPS.includes(link.relationship)) {
+      errors.push(`Relationship must be one of: ${RELATIONSHIPS.join(', ')}`)
+    }
+  })
+  if (errors.length > 0) {
+    throw new MockHttpError(422, 'Validation failed', { guardians: errors })
+  }
+  return links
+}
+
+/**
+ * Replace a student's guardian links, keeping the given order
+ */
+export function setStudentGuardians(studentId: number, links: StudentGuardianLink[]) {
+  const db = getDb()
+  db.studentGuardians = db.studentGuardians.filter((l) => l.studentId !== studentId)
+  links.forEach((link) => {
+    db.studentGuardians.push({ ...link, id: nextId('studentGuardians'), studentId })
+  })
+}
+
+/**
+ * Split the legacy single-guardian fields (and the link list) off student data
+ * so they are never stored on the student itself
+ */
+export function takeGuardianFields<T extends Partial<StudentFormData>>(data: T) {
+  const { guardianName, guardianEmail, guardianContact, guardians, ...fields } = data
+  return { legacy: { guardianName, guardianEmail, guardianContact }, links: guardians, fields }
+}
+
+/**
+ * Apply the legacy single-guardian fields to a student's primary guardian.
+ * A field left undefined keeps its value and null or '' clears it. The
+ * guardian is matched by email, so students who share a parent's email share
+ * one guardian; clearing every field unlinks the primary guardian.
+ */
+export function assignLegacyGuardian(student: Student, values: LegacyGuardianFields) {
+  if (Object.values(values).every((value) => value === undefined)) return
+
+  const db = getDb()
+  const primaryLink = db.studentGuardians
+    .filter((l) => l.studentId === student.id)
+    .sort((a, b) => a.id - b.id)[0]
+  const primary = db.guardians.find((g) => g.id === primaryLink?.guardianId)
+  const pick = (value: string | null | undefined, current?: string) =>
+    value === undefined ? current : value?.trim() || undefined
+  const name = pick(values.guardianName, primary?.name)
+  const email = pick(values.guardianEmail, primary?.email)
+  const contact = pick(values.guardianContact, primary?.contact)
+
+  if (!name && !email && !contact) {
+    if (primaryLink) db.studentGuardians = db.studentGuardians.filter((l) => l !== primaryLink)
+    return
+  }
+
+  const shared =
+    primary && db.studentGuardians.some((l) => l.guardianId === primary.id && l !== primaryLink)
+  let guardian = email ? findByEmail(email) : undefined
+  if (guardian && guardian !== primary) {
+    // Another student's guardian: link it, only filling in what it lacks
+    if (!guardian.contact) guardian.contact = contact
+  } else if (primary && (guardian === primary || !shared)) {
+    guardian = Object.assign(primary, { name: name ?? primary.name, email, contact })
+    guardian.updatedAt = now()
+  } else {
+    guardian = {
+      id: nextId('guardians'),
+      name: name ?? `Guardian of ${student.firstName} ${student.lastName}`,
+      email,
+      contact,
+      preferredChannel: email ? 'email' : 'phone',
+      createdAt: now(),
+    }
+    db.guardians.push(guardian)
+  }
+
+  if (!primaryLink) {
+    db.studentGuardians.push({
+      id: nextId('studentGuardians'),
+      studentId: student.id,
+      guardianId: guardian.id,
+      relationship: 'guardian',
+      receivesAttendanceAlerts: true,
+    })
+  } else if (primaryLink.guardianId !== guardian.id) {
+    const guardianId = guardian.id
+    db.studentGuardians = db.studentGuardians.filter(
+      (l) => !(l.studentId === student.id && l.guardianId === guardianId)
+    )
+    primaryLink.guardianId = guardianId
+  }
+}
+
+export const guardianRoutes = [
+  route('get', '/guardians', (req) => {
+    requirePermission(req, PERMISSIONS.VIEW_STUDENTS)
+    const term = String(req.query.search ?? '')
+      .trim()
+      .toLowerCase()
+    return ok(
+      getDb()
+        .guardians.filter(
+          (g) =>
+            !term ||
+            [g.name, g.email, g.contact].some((value) => value?.toLowerCase().includes(term))
+        )
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(serializeGuardian)
+    )
+  }),
+
+  route('get', '/guardians/:id', (req) => {
+    requirePermission(req, PERMISSIONS.VIEW_STUDENTS)
+    return ok(serializeGuardian(findGuardian(req.params.id)))
+  }),
+
+  route('post', '/guardians', (req) => {
+    requirePermission(req, PERMISSIONS.EDIT_STUDENT)
+    validateGuardian(req.body, false)
+    const guardian: MockGuardian = {
+      id: nextId('guardians'),
+      name: String(req.body.name).trim(),
+      email: req.body.email ? String(req.body.email).trim() : undefined,
+      contact: req.body.contact ? String(req.body.contact).trim() : undefined,
+      preferredChannel: req.body.preferredChannel,
+      createdAt: now(),
+    }
+    getDb().guardians.push(guardian)
+    return created(serializeGuardian(guardian), 'Guardian created successfully')
+  }),
+
+  route('put', '/guardians/:id', (req) => {
+    requirePermission(req, PERMISSIONS.EDIT_STUDENT)
+    const guardian = findGuardian(req.params.id)
+    validateGuardian(req.body, true, guardian.id)
+    const { name, email, contact, preferredChannel } = req.body ?? {}
+    if (name) guardian.name = String(name).trim()
+    if (email !== undefined) guardian.email = String(email).trim() || undefined
+    if (contact !== undefined) guardian.contact = String(contact).trim() || undefined
+    if (preferredChannel) guardian.preferredChannel = preferredChannel
+    guardian.updatedAt = now()
+    return ok(serializeGuardian(guardian), 'Guardian updated successfully')
+  }),
+
+  route('delete', '/guardians/:id', (req) => {
+    requirePermission(req, PERMISSIONS.EDIT_STUDENT)
+    const guardian = findGuardian(req.params.id)
+    const db = getDb()
+    if (db.studentGuardians.some((l) => l.guardianId === guardian.id)) {
+      throw new MockHttpError(409, 'Unlink this guardian from every student before deleting it')
+    }
+    db.guardians = db.guardians.filter((g) => g.id !== guardian.id)
+    return ok(null, 'Guardian deleted successfully')
+  }),
+]
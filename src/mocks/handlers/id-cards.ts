@@ -0,0 +1,153 @@
+import { IdCardTemplateFormData } from '@/types'
+import { validateIdCardTemplate } from '@/utils/business-validation'
+import { PERMISSIONS } from '@/utils/permissions'
+import { getDb, MockIdCardPrint, MockIdCardTemplate, nextId, now } from '../db'
+import { serializeIdCardPrint, serializeIdCardTemplate } from '../serializers'
+import { requirePermission } from '../session'
+import { created, MockHttpError, notFound, ok, requireFields, route, toId } from '../router'
+
+const MAX_CARDS_PER_RUN = 500
+
+function findTemplate(id: unknown): MockIdCardTemplate {
+  const template = getDb().idCardTemplates.find((t) => t.id === toId(String(id)))
+  if (!template) throw notFound('Card template')
+  return template
+}
+
+/**
+ * Read and validate a template body; answers 422 with field errors
+ */
+function readTemplate(body: any): IdCardTemplateFormData {
+  const data: IdCardTemplateFormData = {
+    name: String(body?.name ?? '').trim(),
+    orientation: body?.orientation,
+    accentColor: String(body?.accentColor ?? '').trim(),
+    title: String(body?.title ?? '').trim(),
+    showPhoto: body?.showPhoto === true,
+    showQrCode: body?.showQrCode === true,
+    showBarcode: body?.showBarcode === true,
+    printBack: body?.printBack === true,
+    backText: String(body?.backText ?? '').trim(),
+  }
+  const validation = validateIdCardTemplate(data)
+  if (!validation.isValid) {
+    const errors = Object.fromEntries(
+      Object.entries(validation.errors).map(([field, message]) => [field, [message]])
+    )
+    throw new MockHttpError(422, 'Validation failed', errors)
+  }
+  return data
+}
+
+/**
+ * Cards already printed for a student's current NFC card
+ */
+function printsForCard(studentId: number, nfcId: string | undefined): MockIdCardPrint[] {
+  return getDb().idCardPrints.filter((p) => p.studentId === studentId && p.nfcId === nfcId)
+}
+
+export const idCardRoutes = [
+  route('get', '/id-card-templates', (req) => {
+    requirePermission(req, PERMISSIONS.VIEW_STUDENTS)
+    return ok(getDb().idCardTemplates.map(serializeIdCardTemplate))
+  }),
+
+  route('post', '/id-card-templates', (req) => {
+    requirePermission(req, PERMISSIONS.MANAGE_SCHOOL_SETTINGS)
+    const template: MockIdCardTemplate = {
+      id: nextId('idCardTemplates'),
+      ...readTemplate(req.body),
+      createdAt: now(),
+    }
+    getDb().idCardTemplates.push(template)
+    return created(serializeIdCardTemplate(template), 'Card template created')
+  }),
+
+  route('put', '/id-card-templates/:id', (req) => {
+    requirePermission(req, PERMISSIONS.MANAGE_SCHOOL_SETTINGS)
+    const template = findTemplate(req.params.id)
+    Object.assign(template, readTemplate(req.body), { updatedAt: now() })
+    return ok(serializeIdCardTemplate(template), 'Card template updated')
+  }),
+
+  route('delete', '/id-card-templates/:id', (req) => {
+    requirePermission(req, PERMISSIONS.MANAGE_SCHOOL_SETTINGS)
+    const template = findTemplate(req.params.id)
+    const db = getDb()
+    if (db.idCardTemplates.length === 1) {
+      throw new MockHttpError(409, 'Keep at least one card template')
+    }
+    db.idCardTemplates = db.idCardTemplates.filter((t) => t.id !== template.id)
+    return ok(null, 'Card template deleted')
+  }),
+
+  route('get', '/students/id-cards/prints', (req) => {
+    requirePermission(req, PERMISSIONS.VIEW_STUDENTS)
+    const studentIds = String(req.query.studentIds ?? '')
+      .split(',')
+      .filter(Boolean)
+      .map(Number)
+    return ok(
+      getDb()
+        .idCardPrints.filter((p) => studentIds.length === 0 || studentIds.includes(p.studentId))
+        .sort((a, b) => b.printedAt.localeCompare(a.printedAt) || b.id - a.id)
+        .map(serializeIdCardPrint)
+    )
+  }),
+
+  /**
+   * Record a print run. Each card is tied to the student's NFC card at the
+   * time; printing again for the same NFC card is a reprint and needs a reason.
+   */
+  route('post', '/students/id-cards/prints', (req) => {
+    const user = requirePermission(req, PERMISSIONS.EDIT_STUDENT)
+    requireFields(req.body, ['studentIds', 'templateId'])
+    const template = findTemplate(req.body.templateId)
+    const studentIds: number[] = Array.isArray(req.body.studentIds)
+      ? Array.from(new Set(req.body.studentIds.map(Number)))
+      : []
+    if (studentIds.length === 0 || studentIds.length > MAX_CARDS_PER_RUN) {
+      throw new MockHttpError(422, 'Validation failed', {
+        studentIds: [`Print between 1 and ${MAX_CARDS_PER_RUN} cards at a time`],
+      })
+    }
+
+    const db = getDb()
+    const students = studentIds.map((id) => {
+      const student = db.students.find((s) => s.id === id)
+      if (!student) throw notFound('Student')
+      return student
+    })
+    const reason = String(req.body.reason ?? '').trim()
+    const reprinted = students.filter((s) => printsForCard(s.id, s.nfcId).length > 0)
+    if (reprinted.length > 0 && reason.length < 3) {
+      throw new MockHttpError(422, 'Give a reason for reprinting cards', {
+        reason: reprinted.map(
+          (s) => `${s.firstName} ${s.lastName} already has a card for this NFC card`
+        ),
+      })
+    }
+
+    const printedAt = now()
+    const prints = students.map((student) => {
+      const nfcId = student.nfcId
+      const printNumber = printsForCard(student.id, nfcId).length + 1
+      const print: MockIdCardPrint = {
+        id: nextId('idCardPrints'),
+        studentId: student.id,
+        nfcId,
+        templateId: template.id,
+        printNumber,
+        reason: printNumber > 1 ? reason : undefined,
+        printedBy: user.id,
+        printedAt,
+      }
+      db.idCardPrints.push(print)
+      return print
+    })
+    return created(
+      prints.map(serializeIdCardPrint),
+      `${prints.length} card(s) recorded${reprinted.length > 0 ? `, ${reprinted.length} reprint(s)` : ''}`
+    )
+  }),
+]
@@ -0,0 +1,153 @@
+import { INVITE_ERRORS } from '@/utils/constants'
+import { PERMISSIONS } from '@/utils/permissions'
+import { VALIDATION_PATTERNS } from '@/utils/validation-rules'
+import { getDb, MockInvitation, nextId, now } from '../db'
+import { invitationStatus, serializeInvitation } from '../serializers'
+import { requirePermission } from '../session'
+import { created, MockHttpError, notFound, ok, requireFields, route, toId } from '../router'
+
+const DAY = 24 * 60 * 60 * 1000
+const MAX_EXPIRY_DAYS = 30
+
+function createInviteToken(): string {
+  return Array.from({ length: 4 }, () => Math.random().toString(36).slice(2, 10)).join('')
+}
+
+export function isPendingInvitation(invitation: MockInvitation): boolean {
+  return invitationStatus(invitation) === 'pending'
+}
+
+/**
+ * The invitation behind a link, if it can still be used. Used, revoked and
+ * expired links get 410 so the signup page can explain which one it was.
+ */
+export function findUsableInvitation(token: string): MockInvitation {
+  const invitation = getDb().invitations.find((i) => i.token === token)
+  if (!invitation) {
+    throw new MockHttpError(
+      404,
+      'This invitation link is invalid',
+      undefined,
+      INVITE_ERRORS.INVALID
+    )
+  }
+
+  const status = invitationStatus(invitation)
+  if (status === 'accepted') {
+    throw new MockHttpError(
+      410,
+      'This invitation has already been used',
+      undefined,
+      INVITE_ERRORS.USED
+    )
+  }
+  if (status === 'revoked') {
+    throw new MockHttpError(410, 'This invitation was revoked', undefined, INVITE_ERRORS.REVOKED)
+  }
+  if (status === 'expired') {
+    throw new MockHttpError(410, 'This invitation has expired', undefined, INVITE_ERRORS.EXPIRED)
+  }
+  return invitation
+}
+
+export const invitationRoutes = [
+  route('get', '/invitations', (req) => {
+    requirePermission(req, PERMISSIONS.MANAGE_USERS)
+    return ok(
+      [...getDb().invitations]
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .map(serializeInvitation)
+    )
+  }),
+
+  route('post', '/invitations', (req) => {
+    const admin = requirePermission(req, PERMISSIONS.MANAGE_USERS)
+    requireFields(req.body, ['email', 'role'])
+    const db = getDb()
+    const email = String(req.body.email).trim().toLowerCase()
+    const role = String(req.body.role)
+    const expiresInDays = Number(req.body.expiresInDays ?? 7)
+
+    const errors: { [field: string]: string[] } = {}
+    if (!VALIDATION_PATTERNS.EMAIL.test(email)) {
+      errors.email = ['Invalid email address']
+    }
+    const roles = db.permissionMatrix.roles.map((r) => r.id)
+    if (!roles.includes(role)) {
+      errors.role = [`Role must be one of: ${roles.join(', ')}`]
+    }
+    if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_EXPIRY_DAYS) {
+      errors.expiresInDays = [`Expiry must be between 1 and ${MAX_EXPIRY_DAYS} days`]
+    }
+    if (Object.keys(errors).length > 0) {
+      throw new MockHttpError(422, 'Validation failed', errors)
+    }
+    if (db.users.some((u) => u.email === email)) {
+      throw new MockHttpError(409, 'An account with this email already exists')
+    }
+
+    // A new invitation replaces any earlier one that is still pending
+    db.invitations
+      .filter((i) => i.email === email && isPendingInvitation(i))
+      .forEach((i) => {
+        i.revokedAt = now()
+      })
+
+    const invitation: MockInvitation = {
+      id: nextId('invitations'),
+      token: createInviteToken(),
+      email,
+      role,
+      schoolId: req.schoolId ?? admin.schoolIds[0],
+      invitedBy: admin.id,
+      expiresAt: new Date(Date.now() + expiresInDays * DAY).toISOString(),
+      createdAt: now(),
+    }
+    db.invitations.push(invitation)
+    // No mail is sent in mock mode; the link is printed instead
+    console.info(`[MockApi] Invitation link for ${email}: /signup?invite=${invitation.token}`)
+
+    return created(
+      { ...serializeInvitation(invitation), token: invitation.token },
+      `Invitation sent to ${email}`
+    )
+  }),
+
+  route('delete', '/invitations/:id', (req) => {
+    requirePermission(req, PERMISSIONS.MANAGE_USERS)
+    const invitation = getDb().invitations.find((i) => i.id === toId(req.params.id))
+    if (!invitation) throw notFound('Invitation')
+    if (!isPendingInvitation(invitation)) {
+      throw new MockHttpError(409, 'Only pending invitations can be revoked')
+    }
+    invitation.revokedAt = now()
+    return ok(serializeInvitation(invitation), 'Invitation revoked')
+  }),
+
+  route(
+    'get',
+    '/auth/invitations/:token',
+    (req) => {
+      const invitation = findUsableInvitation(req.params.token)
+      return ok({
+        email: invitation.email,
+        role: invitation.role,
+        expiresAt: invitation.expiresAt,
+      })
+    },
+    { isPublic: true }
+  ),
+
+  route('get', '/auth/signup-policy', () => ok(getDb().signupPolicy), { isPublic: true }),
+
+  route('put', '/auth/signup-policy', (req) => {
+    requirePermission(req, PERMISSIONS.MANAGE_USERS)
+    if (typeof req.body?.openSignup !== 'boolean') {
+      throw new MockHttpError(422, 'Validation failed', {
+        openSignup: ['openSignup must be true or false'],
+      })
+    }
+    getDb().signupPolicy = { openSignup: req.body.openSignup }
+    return ok(getDb().signupPolicy, 'Signup policy updated')
+  }),
+]
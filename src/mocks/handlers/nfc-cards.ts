@@ -0,0 +1,414 @@
+import { NfcCardAction, NfcCardStatus, Student } from '@/types'
+import { isNfcCardBlocked, NFC_CARD_STATUSES, normalizeNfcUid } from '@/utils/nfcCards'
+import { PERMISSIONS } from '@/utils/permissions'
+import { validators } from '@/utils/validation-rules'
+import { getDb, MockNfcCard, nextId, now, toDateKey } from '../db'
+import { serializeNfcCard, serializeNfcCardEvent } from '../serializers'
+import { requirePermission } from '../session'
+import { created, MockHttpError, notFound, ok, requireFields, route, toId } from '../router'
+
+const MAX_TEMPORARY_DAYS = 90
+
+function findCard(id: string): MockNfcCard {
+  const card = getDb().nfcCards.find((c) => c.id === toId(id))
+  if (!card) throw notFound('NFC card')
+  return card
+}
+
+function findStudent(id: unknown): Student {
+  const student = getDb().students.find((s) => s.id === Number(id))
+  if (!student) throw notFound('Student')
+  return student
+}
+
+function cardByUid(uid: string): MockNfcCard | undefined {
+  return getDb().nfcCards.find((c) => c.uid === uid)
+}
+
+function activeCardsOf(studentId: number): MockNfcCard[] {
+  return getDb().nfcCards.filter((c) => c.status === 'active' && c.studentId === studentId)
+}
+
+function recordEvent(
+  card: MockNfcCard,
+  action: NfcCardAction,
+  details: { studentId?: number; reason?: string; relatedUid?: string; actorId?: number } = {}
+) {
+  getDb().nfcCardEvents.push({
+    id: nextId('nfcCardEvents'),
+    cardId: card.id,
+    uid: card.uid,
+    action,
+    studentId: details.studentId ?? card.studentId,
+    reason: details.reason || undefined,
+    relatedUid: details.relatedUid,
+    actorId: details.actorId,
+    createdAt: now(),
+  })
+}
+
+/**
+ * Keep the student's `nfcId` pointing at the card readers should know them
+ * by: their permanent card, or a temporary one while they have none
+ */
+function mirrorStudentCard(studentId: number) {
+  const student = getDb().students.find((s) => s.id === studentId)
+  if (!student) return
+  const cards = activeCardsOf(studentId)
+  student.nfcId = (cards.find((c) => !c.temporaryUntil) ?? cards[0])?.uid
+}
+
+function readUid(value: unknown, field = 'uid'): string {
+  const uid = normalizeNfcUid(String(value ?? ''))
+  const validation = validators.nfcId(uid)
+  if (!validation.isValid) {
+    throw new MockHttpError(422, 'Validation failed', {
+      [field]: [validation.error ?? 'Invalid NFC ID'],
+    })
+  }
+  return uid
+}
+
+function readTemporaryUntil(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+  const date = String(value)
+  const today = toDateKey(new Date())
+  const latest = new Date()
+  latest.setDate(latest.getDate() + MAX_TEMPORARY_DAYS)
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || date < today || date > toDateKey(latest)) {
+    throw new MockHttpError(422, 'Validation failed', {
+      temporaryUntil: [`Pick a date between today and ${MAX_TEMPORARY_DAYS} days from now`],
+    })
+  }
+  return date
+}
+
+/**
+ * 409 for a card no reader may accept, with the error on `field`
+ */
+function assertNotBlocked(card: MockNfcCard | undefined, field: string) {
+  if (card && isNfcCardBlocked(card.status)) {
+    const message =
+      card.status === 'lost' ? 'This NFC card was reported lost' : 'This NFC card has been revoked'
+    throw new MockHttpError(409, message, { [field]: [message] })
+  }
+}
+
+/**
+ * The card for a UID that is about to be given to a student: a new card is
+ * registered; a spare is reused. Anything else answers 409.
+ */
+function cardToAssign(uid: string, studentId: number, field: string): MockNfcCard {
+  const existing = cardByUid(uid)
+  assertNotBlocked(existing, field)
+  if (existing?.status === 'active' && existing.studentId !== studentId) {
+    const message = 'This NFC card is already assigned to another student'
+    throw new MockHttpError(409, message, { [field]: [message] })
+  }
+  if (existing) return existing
+
+  const card: MockNfcCard = { id: nextId('nfcCards'), uid, status: 'available', createdAt: now() }
+  getDb().nfcCards.push(card)
+  return card
+}
+
+function giveCard(
+  card: MockNfcCard,
+  student: Student,
+  details: { temporaryUntil?: string; reason?: string; relatedUid?: string; actorId?: number }
+) {
+  Object.assign(card, {
+    status: 'active',
+    studentId: student.id,
+    temporaryUntil: details.temporaryUntil,
+    replacedByUid: undefined,
+    updatedAt: now(),
+  })
+  recordEvent(card, 'assigned', { ...details, studentId: student.id })
+  mirrorStudentCard(student.id)
+}
+
+function returnCard(
+  card: MockNfcCard,
+  action: 'returned' | 'expired',
+  reason?: string,
+  actorId?: number
+) {
+  const studentId = card.studentId
+  recordEvent(card, action, { reason, actorId })
+  Object.assign(card, {
+    status: 'available',
+    studentId: undefined,
+    temporaryUntil: undefined,
+    updatedAt: now(),
+  })
+  if (studentId !== undefined) mirrorStudentCard(studentId)
+}
+
+/**
+ * Temporary assignments end at the close of their last day
+ */
+function expireTemporaryCards() {
+  const today = toDateKey(new Date())
+  getDb()
+    .nfcCards.filter((c) => c.status === 'active' && c.temporaryUntil && c.temporaryUntil < today)
+    .forEach((card) => returnCard(card, 'expired'))
+}
+
+// ============================================================================
+// USED BY OTHER HANDLERS
+// ============================================================================
+
+/**
+ * Reject a UID a student record can't take: lost, revoked, or held by
+ * another student (409 on `nfcId`)
+ */
+export function assertCardUsable(value: string, studentId?: number) {
+  const uid = normalizeNfcUid(value)
+  const card = cardByUid(uid)
+  assertNotBlocked(card, 'nfcId')
+  if (card?.status === 'active' && card.studentId !== studentId) {
+    const message = 'This NFC card is already assigned to another student'
+    throw new MockHttpError(409, message, { nfcId: [message] })
+  }
+}
+
+/**
+ * Bring the registry in line after `nfcId` was written on a student record:
+ * the old permanent card goes back to the spares and the new one is assigned
+ */
+export function syncStudentCard(student: Student, actorId: number) {
+  expireTemporaryCards()
+  const uid = student.nfcId ? normalizeNfcUid(student.nfcId) : ''
+  const cards = activeCardsOf(student.id)
+  const permanent = cards.find((c) => !c.temporaryUntil)
+  // Unchanged, or still showing a temporary card the student holds
+  if (uid ? cards.some((c) => c.uid === uid) : !permanent) {
+    mirrorStudentCard(student.id)
+    return
+  }
+
+  if (permanent) returnCard(permanent, 'returned', 'Changed on the student record', actorId)
+  if (uid) {
+    const card = cardToAssign(uid, student.id, 'nfcId')
+    giveCard(card, student, { reason: 'Set on the student record', actorId })
+  }
+  mirrorStudentCard(student.id)
+}
+
+/**
+ * Return a deleted student's cards to the spares; lost and revoked cards keep
+ * their history
+ */
+export function releaseStudentCards(studentId: number, actorId: number) {
+  activeCardsOf(studentId).forEach((card) =>
+    returnCard(card, 'returned', 'Student deleted', actorId)
+  )
+}
+
+/**
+ * Move a merged student's cards and card history to the surviving record.
+ * The card the merged record ends up with stays active; other permanent
+ * cards go back to the spares.
+ */
+export function moveStudentCards(sourceId: number, target: Student, actorId: number) {
+  const db = getDb()
+  db.nfcCards.filter((c) => c.studentId === sourceId).forEach((c) => (c.studentId = target.id))
+  db.nfcCardEvents.filter((e) => e.studentId === sourceId).forEach((e) => (e.studentId = target.id))
+
+  const keep = target.nfcId ? normalizeNfcUid(target.nfcId) : undefined
+  activeCardsOf(target.id)
+    .filter((c) => !c.temporaryUntil && c.uid !== keep)
+    .forEach((card) => returnCard(card, 'returned', 'Students merged', actorId))
+  mirrorStudentCard(target.id)
+}
+
+/**
+ * Find who a tapped card belongs to. Lost and revoked cards are rejected
+ * (409) and the attempt is kept in the card's history.
+ */
+export function resolveTappedCard(value: string): MockNfcCard & { studentId: number } {
+  expireTemporaryCards()
+  const uid = normalizeNfcUid(value)
+  const card = cardByUid(uid)
+  if (!card) {
+    throw new MockHttpError(404, 'This NFC card is not registered', {
+      uid: ['This NFC card is not registered'],
+    })
+  }
+  if (isNfcCardBlocked(card.status)) {
+    recordEvent(card, 'tap_rejected')
+    assertNotBlocked(card, 'uid')
+  }
+  if (card.status !== 'active' || card.studentId === undefined) {
+    throw new MockHttpError(422, 'This NFC card is not assigned to a student', {
+      uid: ['This NFC card is not assigned to a student'],
+    })
+  }
+  return card as MockNfcCard & { studentId: number }
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+export const nfcCardRoutes = [
+  route('get', '/nfc-cards', (req) => {
+    requirePermission(req, PERMISSIONS.VIEW_STUDENTS)
+    expireTemporaryCards()
+    const db = getDb()
+    const status = req.query.status as NfcCardStatus | undefined
+    if (status && !NFC_CARD_STATUSES.some((option) => option.value === status)) {
+      throw new MockHttpError(422, 'Validation failed', { status: ['Unknown card status'] })
+    }
+    const search = String(req.query.search ?? '')
+      .trim()
+      .toLowerCase()
+    const studentId = req.query.studentId ? Number(req.query.studentId) : undefined
+
+    return ok(
+      db.nfcCards
+        .filter((c) => !status || c.status === status)
+        .filter((c) => studentId === undefined || c.studentId === studentId)
+        .filter((c) => {
+          if (!search) return true
+          const student = db.students.find((s) => s.id === c.studentId)
+          return [
+            c.uid,
+            student && `${student.firstName} ${student.lastName}`,
+            student?.studentNumber,
+          ].some((value) => value?.toLowerCase().includes(search))
+        })
+        .sort(
+          (a, b) =>
+            (b.updatedAt ?? b.createdAt).localeCompare(a.updatedAt ?? a.createdAt) || b.id - a.id
+        )
+        .map(serializeNfcCard)
+    )
+  }),
+
+  route('get', '/nfc-cards/:id/history', (req) => {
+    requirePermission(req, PERMISSIONS.VIEW_STUDENTS)
+    const card = findCard(req.params.id)
+    return ok(
+      getDb()
+        .nfcCardEvents.filter((e) => e.cardId === card.id)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id - a.id)
+        .map(serializeNfcCardEvent)
+    )
+  }),
+
+  /**
+   * Give a card to a student, registering the UID if it's new. A student has
+   * one permanent card; a temporary card can be lent on top of it.
+   */
+  route('post', '/nfc-cards/assign', (req) => {
+    const user = requirePermission(req, PERMISSIONS.EDIT_STUDENT)
+    requireFields(req.body, ['uid', 'studentId'])
+    expireTemporaryCards()
+    const uid = readUid(req.body.uid)
+    const student = findStudent(req.body.studentId)
+    const temporaryUntil = readTemporaryUntil(req.body.temporaryUntil)
+
+    const current = activeCardsOf(student.id).find((c) => !c.temporaryUntil)
+    if (!temporaryUntil && current && current.uid !== uid) {
+      const message = `${student.firstName} ${student.lastName} already has card ${current.uid}; replace it instead`
+      throw new MockHttpError(409, message, { uid: [message] })
+    }
+    const card = cardToAssign(uid, student.id, 'uid')
+    if (card.status === 'active' && card.temporaryUntil === temporaryUntil) {
+      throw new MockHttpError(409, 'This card is already assigned to this student', {
+        uid: ['This card is already assigned to this student'],
+      })
+    }
+    giveCard(card, student, {
+      temporaryUntil,
+      reason: String(req.body.reason ?? '').trim(),
+      actorId: user.id,
+    })
+    return created(serializeNfcCard(card), `Card ${card.uid} assigned`)
+  }),
+
+  route('post', '/nfc-cards/:id/return', (req) => {
+    const user = requirePermission(req, PERMISSIONS.EDIT_STUDENT)
+    const card = findCard(req.params.id)
+    if (card.status !== 'active') {
+      throw new MockHttpError(422, 'Only assigned cards can be returned')
+    }
+    returnCard(card, 'returned', String(req.body?.reason ?? '').trim(), user.id)
+    return ok(serializeNfcCard(card), `Card ${card.uid} returned to the spares`)
+  }),
+
+  route('post', '/nfc-cards/:id/report-lost', (req) => {
+    const user = requirePermission(req, PERMISSIONS.EDIT_STUDENT)
+    const card = findCard(req.params.id)
+    if (card.status !== 'active' && card.status !== 'available') {
+      throw new MockHttpError(422, `This card is already ${card.status}`)
+    }
+    recordEvent(card, 'reported_lost', {
+      reason: String(req.body?.reason ?? '').trim(),
+      actorId: user.id,
+    })
+    Object.assign(card, { status: 'lost', temporaryUntil: undefined, updatedAt: now() })
+    if (card.studentId !== undefined) mirrorStudentCard(card.studentId)
+    return ok(serializeNfcCard(card), `Card ${card.uid} reported lost`)
+  }),
+
+  route('post', '/nfc-cards/:id/revoke', (req) => {
+    const user = requirePermission(req, PERMISSIONS.EDIT_STUDENT)
+    const card = findCard(req.params.id)
+    const reason = String(req.body?.reason ?? '').trim()
+    if (reason.length < 3) {
+      throw new MockHttpError(422, 'Validation failed', {
+        reason: ['Give a reason for revoking the card'],
+      })
+    }
+    if (card.status === 'revoked') {
+      throw new MockHttpError(422, 'This card is already revoked')
+    }
+    recordEvent(card, 'revoked', { reason, actorId: user.id })
+    Object.assign(card, { status: 'revoked', temporaryUntil: undefined, updatedAt: now() })
+    if (card.studentId !== undefined) mirrorStudentCard(card.studentId)
+    return ok(serializeNfcCard(card), `Card ${card.uid} revoked`)
+  }),
+
+  /**
+   * Give the holder of an active or lost card a new card. An active card is
+   * revoked on the way; a lost one stays lost.
+   */
+  route('post', '/nfc-cards/:id/replace', (req) => {
+    const user = requirePermission(req, PERMISSIONS.EDIT_STUDENT)
+    requireFields(req.body, ['uid'])
+    expireTemporaryCards()
+    const card = findCard(req.params.id)
+    const student = card.studentId !== undefined ? findStudent(card.studentId) : undefined
+    if (!student || (card.status !== 'active' && card.status !== 'lost')) {
+      throw new MockHttpError(422, 'Only assigned or lost cards can be replaced')
+    }
+    if (card.temporaryUntil) {
+      throw new MockHttpError(422, 'Return a temporary card instead of replacing it')
+    }
+    const uid = readUid(req.body.uid)
+    if (uid === card.uid) {
+      throw new MockHttpError(422, 'Validation failed', {
+        uid: ['Tap a different card than the one being replaced'],
+      })
+    }
+    const replacement = cardToAssign(uid, student.id, 'uid')
+    if (replacement.status === 'active') {
+      throw new MockHttpError(409, 'This card is already assigned to this student', {
+        uid: ['This card is already assigned to this student'],
+      })
+    }
+
+    const reason = String(req.body.reason ?? '').trim()
+    recordEvent(card, 'replaced', { reason, relatedUid: uid, actorId: user.id })
+    Object.assign(card, {
+      status: card.status === 'lost' ? 'lost' : 'revoked',
+      replacedByUid: uid,
+      updatedAt: now(),
+    })
+    giveCard(replacement, student, { reason, relatedUid: card.uid, actorId: user.id })
+    return created(serializeNfcCard(replacement), `Card ${card.uid} replaced by ${uid}`)
+  }),
+]
@@ -0,0 +1,88 @@
+import { getDb, MockNotification, nextId, now } from '../db'
+import { currentUser } from '../session'
+import { created, MockRequest, notFound, ok, requireFields, route, toId } from '../router'
+
+const TYPES: MockNotification['type'][] = ['info', 'warning', 'success', 'error']
+
+function ownNotifications(req: MockRequest) {
+  const user = currentUser(req)
+  return getDb()
+    .notifications.filter((n) => n.userId === user.id)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+function findOwn(req: MockRequest): MockNotification {
+  const id = toId(req.params.id)
+  const notification = ownNotifications(req).find((n) => n.id === id)
+  if (!notification) throw notFound('Notification')
+  return notification
+}
+
+export const notificationRoutes = [
+  route('get', '/notifications', (req) => ok(ownNotifications(req))),
+
+  route('get', '/notifications/unread', (req) =>
+    ok({ count: ownNotifications(req).filter((n) => !n.read).length })
+  ),
+
+  route('get', '/notifications/stats', (req) => {
+    const notifications = ownNotifications(req)
+    const unread = notifications.filter((n) => !n.read).length
+    return ok({
+      total: notifications.length,
+      unread,
+      read: notifications.length - unread,
+      byType: Object.fromEntries(
+        TYPES.map((type) => [type, notifications.filter((n) => n.type === type).length])
+      ),
+    })
+  }),
+
+  route('get', '/notifications/:id', (req) => ok(findOwn(req))),
+
+  route('post', '/notifications', (req) => {
+    requireFields(req.body, ['title', 'message'])
+    const timestamp = now()
+    const notification: MockNotification = {
+      id: nextId('notifications'),
+      userId: req.body.userId ?? currentUser(req).id,
+      title: req.body.title,
+      message: req.body.message,
+      type: TYPES.includes(req.body.type) ? req.body.type : 'info',
+      read: false,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    }
+    getDb().notifications.push(notification)
+    return created(notification)
+  }),
+
+  route('put', '/notifications/read-all', (req) => {
+    ownNotifications(req).forEach((n) => {
+      n.read = true
+      n.updatedAt = now()
+    })
+    return ok(null, 'All notifications marked as read')
+  }),
+
+  route('put', '/notifications/:id/read', (req) => {
+    const notification = findOwn(req)
+    notification.read = true
+    notification.updatedAt = now()
+    return ok(notification)
+  }),
+
+  route('delete', '/notifications/read', (req) => {
+    const userId = currentUser(req).id
+    const db = getDb()
+    db.notifications = db.notifications.filter((n) => n.userId !== userId || !n.read)
+    return ok(null, 'Read notifications deleted')
+  }),
+
+  route('delete', '/notifications/:id', (req) => {
+    const notification = findOwn(req)
+    const db = getDb()
+    db.notifications = db.notifications.filter((n) => n.id !== notification.id)
+    return ok(null, 'Notification deleted')
+  }),
+]
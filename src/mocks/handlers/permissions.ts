@@ -0,0 +1,95 @@
+import { RoleDefinition } from '@/types'
+import { PERMISSIONS, resolveRolePermissions } from '@/utils/permissions'
+import { getDb, now } from '../db'
+import { currentUser, requirePermission } from '../session'
+import { MockHttpError, ok, route } from '../router'
+import { isPendingInvitation } from './invitations'
+
+const ROLE_ID_PATTERN = /^[a-z][a-z0-9_-]{1,30}$/
+const KNOWN_PERMISSIONS: string[] = Object.values(PERMISSIONS)
+
+/**
+ * Check an incoming matrix and return it normalised; built-in flags come
+ * from the stored matrix, never from the client
+ */
+function validateRoles(input: unknown): RoleDefinition[] {
+  if (!Array.isArray(input)) {
+    throw new MockHttpError(422, 'Validation failed', { roles: ['Roles must be a list'] })
+  }
+
+  const builtInIds = getDb()
+    .permissionMatrix.roles.filter((r) => r.builtIn)
+    .map((r) => r.id)
+  const errors: string[] = []
+  const seen = new Set<string>()
+
+  const roles = input.map((raw, index): RoleDefinition => {
+    const id = String(raw?.id ?? '').trim()
+    const name = String(raw?.name ?? '').trim()
+    const permissions: string[] = Array.isArray(raw?.permissions) ? raw.permissions.map(String) : []
+
+    if (!ROLE_ID_PATTERN.test(id)) {
+      errors.push(`Role ${index + 1}: id must be 2-31 lowercase letters, digits, - or _`)
+    } else if (seen.has(id)) {
+      errors.push(`Role "${id}" is listed twice`)
+    }
+    seen.add(id)
+    if (!name) errors.push(`Role "${id}" needs a name`)
+    const unknown = permissions.filter((p) => !KNOWN_PERMISSIONS.includes(p))
+    if (unknown.length > 0) {
+      errors.push(`Role "${id}" has unknown permissions: ${unknown.join(', ')}`)
+    }
+
+    return { id, name, permissions: [...new Set(permissions)], builtIn: builtInIds.includes(id) }
+  })
+
+  const missing = builtInIds.filter((id) => !seen.has(id))
+  if (missing.length > 0) errors.push(`Built-in roles cannot be removed: ${missing.join(', ')}`)
+
+  if (errors.length > 0) {
+    throw new MockHttpError(422, 'Validation failed', { roles: errors })
+  }
+  return roles
+}
+
+export const permissionRoutes = [
+  // Every signed-in user needs the matrix to know what they may do
+  route('get', '/permissions/matrix', () => ok(getDb().permissionMatrix)),
+
+  route('put', '/permissions/matrix', (req) => {
+    const admin = requirePermission(req, PERMISSIONS.MANAGE_USERS)
+    const roles = validateRoles(req.body?.roles)
+    const db = getDb()
+    const next = { roles, updatedAt: now() }
+
+    const removed = db.permissionMatrix.roles.filter((r) => !roles.some((n) => n.id === r.id))
+    const inUse = removed.filter((r) => db.users.some((u) => u.role === r.id))
+    if (inUse.length > 0) {
+      throw new MockHttpError(
+        409,
+        `Reassign users before deleting: ${inUse.map((r) => r.name).join(', ')}`
+      )
+    }
+    const invited = removed.filter((r) =>
+      db.invitations.some((i) => i.role === r.id && isPendingInvitation(i))
+    )
+    if (invited.length > 0) {
+      throw new MockHttpError(
+        409,
+        `Revoke pending invitations before deleting: ${invited.map((r) => r.name).join(', ')}`
+      )
+    }
+
+    if (!resolveRolePermissions(currentUser(req).role, next).includes(PERMISSIONS.MANAGE_USERS)) {
+      throw new MockHttpError(422, 'Validation failed', {
+        roles: [`Your role (${admin.role}) must keep the Manage users permission`],
+      })
+    }
+
+    db.permissionMatrix = next
+    db.twoFactorPolicy.requiredRoles = db.twoFactorPolicy.requiredRoles.filter((role) =>
+      roles.some((r) => r.id === role)
+    )
+    return ok(db.permissionMatrix, 'Permissions updated')
+  }),
+]
@@ -0,0 +1,68 @@
+import { getDb, toDateKey } from '../db'
+import { serializeRecord } from '../serializers'
+import { notFound, ok, route, toId } from '../router'
+
+function newestFirst<T extends { createdAt: string }>(rows: T[]): T[] {
+  return [...rows].sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+export const recordRoutes = [
+  route('get', '/records', () => ok(newestFirst(getDb().records).map(serializeRecord))),
+
+  route('get', '/records/today', () => {
+    const today = toDateKey(new Date())
+    return ok(
+      newestFirst(getDb().records.filter((r) => toDateKey(r.createdAt) === today)).map(
+        serializeRecord
+      )
+    )
+  }),
+
+  route('get', '/records/stats', () => {
+    const db = getDb()
+    const today = toDateKey(new Date())
+    return ok({
+      totalStudents: db.students.length,
+      totalSubjects: db.subjects.length,
+      totalRecords: db.records.length,
+      todayRecords: db.records.filter((r) => toDateKey(r.createdAt) === today).length,
+    })
+  }),
+
+  route('get', '/records/student/:studentId', (req) => {
+    const studentId = toId(req.params.studentId, 'studentId')
+    return ok(
+      newestFirst(getDb().records.filter((r) => r.studentId === studentId)).map(serializeRecord)
+    )
+  }),
+
+  route('get', '/records/subject/:subjectId', (req) => {
+    const subjectId = toId(req.params.subjectId, 'subjectId')
+    return ok(
+      newestFirst(getDb().records.filter((r) => r.subjectId === subjectId)).map(serializeRecord)
+    )
+  }),
+
+  route('get', '/records/type/:type', (req) => {
+    const type = req.params.type.toLowerCase()
+    return ok(
+      newestFirst(getDb().records.filter((r) => r.recordType.toLowerCase() === type)).map(
+        serializeRecord
+      )
+    )
+  }),
+
+  route('get', '/records/:id', (req) => {
+    const record = getDb().records.find((r) => r.id === toId(req.params.id))
+    if (!record) throw notFound('Record')
+    return ok(serializeRecord(record))
+  }),
+
+  route('delete', '/records/:id', (req) => {
+    const db = getDb()
+    const record = db.records.find((r) => r.id === toId(req.params.id))
+    if (!record) throw notFound('Record')
+    db.records = db.records.filter((r) => r.id !== record.id)
+    return ok(null, 'Record deleted successfully')
+  }),
+]
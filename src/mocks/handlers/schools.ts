@@ -0,0 +1,48 @@
+import { SchoolSettings } from '@/types'
+import { validateSchoolSettings } from '@/utils/business-validation'
+import { PERMISSIONS } from '@/utils/permissions'
+import { getDb, now } from '../db'
+import { serializeSchool } from '../serializers'
+import { currentUser, requirePermission } from '../session'
+import { MockHttpError, notFound, ok, route, toId } from '../router'
+
+export const schoolRoutes = [
+  route('get', '/schools/mine', (req) => {
+    const user = currentUser(req)
+    const schools = getDb().schools.filter((s) => user.schoolIds.includes(s.id))
+    return ok(schools.map(serializeSchool))
+  }),
+
+  route('put', '/schools/:id/settings', (req) => {
+    const user = requirePermission(req, PERMISSIONS.MANAGE_SCHOOL_SETTINGS)
+    const school = getDb().schools.find((s) => s.id === toId(req.params.id))
+    if (!school || !user.schoolIds.includes(school.id)) throw notFound('School')
+
+    const body: Partial<SchoolSettings> = req.body ?? {}
+    const validation = validateSchoolSettings({
+      emailDomain: body.emailDomain ?? '',
+      studentNumberPrefix: body.studentNumberPrefix ?? '',
+      displayName: body.branding?.displayName ?? '',
+      logoUrl: body.branding?.logoUrl ?? '',
+      primaryColor: body.branding?.primaryColor ?? '',
+    })
+    if (!validation.isValid) {
+      const errors = Object.fromEntries(
+        Object.entries(validation.errors).map(([field, message]) => [field, [message]])
+      )
+      throw new MockHttpError(422, 'Validation failed', errors)
+    }
+
+    school.settings = {
+      emailDomain: body.emailDomain || undefined,
+      studentNumberPrefix: body.studentNumberPrefix!,
+      branding: {
+        displayName: body.branding!.displayName,
+        logoUrl: body.branding!.logoUrl || undefined,
+        primaryColor: body.branding!.primaryColor,
+      },
+    }
+    school.updatedAt = now()
+    return ok(serializeSchool(school), 'School settings updated')
+  }),
+]
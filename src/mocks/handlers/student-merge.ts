@@ -0,0 +1,158 @@
+import { Student, StudentMergeField } from '@/types'
+import { findDuplicatePairs, STUDENT_MERGE_FIELDS } from '@/utils/duplicateStudents'
+import { PERMISSIONS } from '@/utils/permissions'
+import { getDb, MockStudentMerge, nextId, now } from '../db'
+import { serializeStudent, serializeStudentMerge } from '../serializers'
+import { setStudentGuardians } from './guardians'
+import { moveStudentCards } from './nfc-cards'
+import { requirePermission } from '../session'
+import { MockHttpError, notFound, ok, requireFields, route } from '../router'
+
+const MERGE_FIELDS = STUDENT_MERGE_FIELDS.map(({ field }) => field)
+
+function findStudent(id: unknown, field: string): Student {
+  const student = getDb().students.find((s) => s.id === Number(id))
+  if (!student) throw notFound(field === 'sourceId' ? 'Source student' : 'Target student')
+  return student
+}
+
+/**
+ * Fold `source` into `target`: move everything that points at the source,
+ * copy the chosen fields, then delete the source
+ */
+function mergeStudents(
+  source: Student,
+  target: Student,
+  fieldsFromSource: StudentMergeField[]
+): MockStudentMerge['moved'] {
+  const db = getDb()
+
+  // A subject both records are enrolled in keeps the target's enrollment
+  const targetSubjects = db.enrollments
+    .filter((e) => e.studentId === target.id)
+    .map((e) => e.subjectId)
+  const enrollments = db.enrollments.filter(
+    (e) => e.studentId === source.id && !targetSubjects.includes(e.subjectId)
+  )
+  enrollments.forEach((e) => (e.studentId = target.id))
+  db.enrollments = db.enrollments.filter((e) => e.studentId !== source.id)
+
+  // Likewise a mark for the same subject, day and time slot keeps the target's
+  const targetMarks = db.attendance
+    .filter((a) => a.studentId === target.id)
+    .map((a) => `${a.subjectId}|${a.date}|${a.timeSlot}`)
+  const attendance = db.attendance.filter(
+    (a) =>
+      a.studentId === source.id && !targetMarks.includes(`${a.subjectId}|${a.date}|${a.timeSlot}`)
+  )
+  attendance.forEach((a) => (a.studentId = target.id))
+  db.attendance = db.attendance.filter((a) => a.studentId !== source.id)
+
+  const records = db.records.filter((r) => r.studentId === source.id)
+  records.forEach((r) => (r.studentId = target.id))
+  const emails = db.emails.filter((e) => e.studentId === source.id)
+  emails.forEach((e) => (e.studentId = target.id))
+  db.statusChanges
+    .filter((c) => c.studentId === source.id)
+    .forEach((c) => (c.studentId = target.id))
+
+  // Guardians of both are kept. Picking any guardian field from the source
+  // puts the source's guardians first, so its primary guardian wins.
+  const guardianFields: StudentMergeField[] = ['guardianName', 'guardianEmail', 'guardianContact']
+  const sourceFirst = fieldsFromSource.some((field) => guardianFields.includes(field))
+  const linksOf = (studentId: number) =>
+    db.studentGuardians.filter((l) => l.studentId === studentId).sort((a, b) => a.id - b.id)
+  const links = sourceFirst
+    ? [...linksOf(source.id), ...linksOf(target.id)]
+    : [...linksOf(target.id), ...linksOf(source.id)]
+  setStudentGuardians(
+    target.id,
+    links.filter(
+      (link, index) => links.findIndex((l) => l.guardianId === link.guardianId) === index
+    )
+  )
+  db.studentGuardians = db.studentGuardians.filter((l) => l.studentId !== source.id)
+
+  const values = Object.fromEntries(
+    fieldsFromSource
+      .filter((field) => !guardianFields.includes(field))
+      .map((field) => [field, source[field]])
+  )
+  Object.assign(target, values, {
+    tags: Array.from(new Set([...(target.tags ?? []), ...(source.tags ?? [])])),
+    updatedAt: now(),
+  })
+  db.students = db.students.filter((s) => s.id !== source.id)
+
+  return {
+    enrollments: enrollments.length,
+    attendance: attendance.length,
+    records: records.length,
+    emails: emails.length,
+  }
+}
+
+export const studentMergeRoutes = [
+  route('get', '/students/duplicates', (req) => {
+    requirePermission(req, PERMISSIONS.MERGE_STUDENTS)
+    const minScore = req.query.minScore !== undefined ? Number(req.query.minScore) : undefined
+    // Serialized so guardian emails are compared through the linked guardians
+    return ok(findDuplicatePairs(getDb().students.map(serializeStudent), minScore))
+  }),
+
+  route('get', '/students/merges', (req) => {
+    requirePermission(req, PERMISSIONS.MERGE_STUDENTS)
+    return ok(
+      [...getDb().studentMerges]
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .map(serializeStudentMerge)
+    )
+  }),
+
+  route('post', '/students/merge', (req) => {
+    const user = requirePermission(req, PERMISSIONS.MERGE_STUDENTS)
+    requireFields(req.body, ['sourceId', 'targetId'])
+    const source = findStudent(req.body.sourceId, 'sourceId')
+    const target = findStudent(req.body.targetId, 'targetId')
+    if (source.id === target.id) {
+      throw new MockHttpError(422, 'Validation failed', {
+        sourceId: ['Choose two different students'],
+      })
+    }
+
+    const fieldsFromSource: StudentMergeField[] = Array.isArray(req.body.fieldsFromSource)
+      ? req.body.fieldsFromSource
+      : []
+    const unknown = fieldsFromSource.filter((field) => !MERGE_FIELDS.includes(field))
+    if (unknown.length > 0) {
+      throw new MockHttpError(422, 'Validation failed', {
+        fieldsFromSource: [`Fields that cannot be merged: ${unknown.join(', ')}`],
+      })
+    }
+
+    const sourceSummary = {
+      id: source.id,
+      studentNumber: source.studentNumber,
+      firstName: source.firstName,
+      lastName: source.lastName,
+      email: source.email,
+    }
+    const moved = mergeStudents(source, target, fieldsFromSource)
+    moveStudentCards(source.id, target, user.id)
+    const merge: MockStudentMerge = {
+      id: nextId('studentMerges'),
+      targetId: target.id,
+      source: sourceSummary,
+      fieldsFromSource,
+      moved,
+      mergedBy: user.id,
+      createdAt: now(),
+    }
+    getDb().studentMerges.push(merge)
+
+    return ok(
+      { student: serializeStudent(target), merge: serializeStudentMerge(merge) },
+      `Merged ${source.studentNumber} into ${target.studentNumber}`
+    )
+  }),
+]
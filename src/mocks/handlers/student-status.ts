@@ -0,0 +1,130 @@
+import { Student, StudentStatus } from '@/types'
+import {
+  validateStatusEffectiveDate,
+  validateStatusTransition,
+  validateStudentCanEnroll,
+} from '@/utils/business-validation'
+import { PERMISSIONS } from '@/utils/permissions'
+import { STUDENT_STATUS } from '@/utils/validation-rules'
+import { getDb, MockStatusChange, MockUser, nextId, now } from '../db'
+import { publishEvent } from '../events'
+import { serializeStatusChange, serializeStudent } from '../serializers'
+import { requirePermission } from '../session'
+import { created, MockHttpError, notFound, ok, requireFields, route, toId } from '../router'
+
+function findStudent(id: string): Student {
+  const student = getDb().students.find((s) => s.id === toId(id))
+  if (!student) throw notFound('Student')
+  return student
+}
+
+function latestStatusChange(studentId: number): MockStatusChange | undefined {
+  return getDb()
+    .statusChanges.filter((c) => c.studentId === studentId)
+    .sort((a, b) => b.effectiveDate.localeCompare(a.effectiveDate) || b.id - a.id)[0]
+}
+
+/**
+ * Check a status change without applying it; answers 422 with field errors
+ */
+export function assertStatusChange(student: Student, status: StudentStatus, effectiveDate: string) {
+  const errors: { [field: string]: string[] } = {}
+  const transition = validateStatusTransition(student.status ?? 'active', status)
+  if (!transition.isValid) errors.status = [transition.error ?? 'Invalid status change']
+  const date = validateStatusEffectiveDate(
+    effectiveDate,
+    latestStatusChange(student.id)?.effectiveDate
+  )
+  if (!date.isValid) errors.effectiveDate = [date.error ?? 'Invalid effective date']
+  if (Object.keys(errors).length > 0) {
+    throw new MockHttpError(422, 'Validation failed', errors)
+  }
+}
+
+/**
+ * Move a student to a new status and record the transition. A student who
+ * can no longer enroll is dropped from every subject they are enrolled in.
+ */
+export function changeStudentStatus(
+  student: Student,
+  status: StudentStatus,
+  details: { effectiveDate: string; reason: string; actor: MockUser }
+): MockStatusChange {
+  assertStatusChange(student, status, details.effectiveDate)
+  const db = getDb()
+
+  const unenrolledSubjects: string[] = []
+  if (!validateStudentCanEnroll(status).isValid) {
+    db.enrollments
+      .filter((e) => e.studentId === student.id)
+      .forEach((enrollment) => {
+        const subject = db.subjects.find((s) => s.id === enrollment.subjectId)
+        if (subject) {
+          unenrolledSubjects.push(subject.subjectCode)
+          publishEvent('enrollment', details.actor, {
+            action: 'unenrolled',
+            subjectId: subject.id,
+            studentIds: [student.id],
+          })
+        }
+      })
+    db.enrollments = db.enrollments.filter((e) => e.studentId !== student.id)
+  }
+
+  const change: MockStatusChange = {
+    id: nextId('statusChanges'),
+    studentId: student.id,
+    fromStatus: student.status ?? 'active',
+    toStatus: status,
+    effectiveDate: details.effectiveDate,
+    reason: details.reason,
+    changedBy: details.actor.id,
+    unenrolledSubjects,
+    createdAt: now(),
+  }
+  db.statusChanges.push(change)
+  student.status = status
+  student.updatedAt = now()
+  return change
+}
+
+export const studentStatusRoutes = [
+  route('get', '/students/:id/status-history', (req) => {
+    const student = findStudent(req.params.id)
+    return ok(
+      getDb()
+        .statusChanges.filter((c) => c.studentId === student.id)
+        .sort((a, b) => b.effectiveDate.localeCompare(a.effectiveDate) || b.id - a.id)
+        .map(serializeStatusChange)
+    )
+  }),
+
+  route('post', '/students/:id/status', (req) => {
+    const user = requirePermission(req, PERMISSIONS.EDIT_STUDENT)
+    const student = findStudent(req.params.id)
+    requireFields(req.body, ['status', 'effectiveDate', 'reason'])
+
+    const status = String(req.body.status) as StudentStatus
+    if (!Object.values(STUDENT_STATUS).includes(status)) {
+      throw new MockHttpError(422, 'Validation failed', {
+        status: [`Status must be one of: ${Object.values(STUDENT_STATUS).join(', ')}`],
+      })
+    }
+    const reason = String(req.body.reason).trim()
+    if (reason.length < 3) {
+      throw new MockHttpError(422, 'Validation failed', {
+        reason: ['Give a reason for the change'],
+      })
+    }
+
+    const change = changeStudentStatus(student, status, {
+      effectiveDate: String(req.body.effectiveDate),
+      reason,
+      actor: user,
+    })
+    return created(
+      { student: serializeStudent(student), change: serializeStatusChange(change) },
+      `Status changed to ${status}`
+    )
+  }),
+]
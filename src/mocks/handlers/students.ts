@@ -0,0 +1,708 @@
+import { format } from 'date-fns'
+import {
+  SchoolSettings,
+  Student,
+  StudentBulkChanges,
+  StudentBulkUpdateRowResult,
+  StudentFormData,
+  StudentImportRowResult,
+  StudentStatus,
+} from '@/types'
+import { STUDENT_BULK_UPDATE_MAX, STUDENT_IMPORT_MAX_ROWS } from '@/utils/constants'
+import { ALLOWED_MIME_TYPES, validators, VALIDATION_CONSTANTS } from '@/utils/validation-rules'
+import { validateSchoolDomainEmail } from '@/utils/business-validation'
+import { PERMISSIONS } from '@/utils/permissions'
+import { getDb, nextId, now } from '../db'
+import { serializeStudent, serializeSubject } from '../serializers'
+import { currentSchool, requirePermission, userHasPermission } from '../session'
+import { created, MockHttpError, notFound, ok, paginated, route, toId } from '../router'
+import { assertStatusChange, changeStudentStatus } from './student-status'
+import { assertCardUsable, releaseStudentCards, syncStudentCard } from './nfc-cards'
+import {
+  assignLegacyGuardian,
+  readGuardianLinks,
+  setStudentGuardians,
+  takeGuardianFields,
+} from './guardians'
+
+const STATUSES: StudentStatus[] = [
+  'active',
+  'inactive',
+  'graduated',
+  'transferred',
+  'suspended',
+  'dropped',
+]
+
+const IMPORT_FIELDS: (keyof StudentFormData)[] = [
+  'studentNumber',
+  'firstName',
+  'lastName',
+  'email',
+  'birthdate',
+  'contact',
+  'status',
+  'section',
+  'guardianName',
+  'guardianEmail',
+  'guardianContact',
+  'nfcId',
+]
+
+// Text fields a bulk edit can set or clear
+const BULK_TEXT_FIELDS = ['section', 'guardianName', 'guardianEmail', 'guardianContact'] as const
+
+function findStudent(id: string): Student {
+  const student = getDb().students.find((s) => s.id === toId(id))
+  if (!student) throw notFound('Student')
+  return student
+}
+
+/**
+ * Server-side validation, mirroring the client rules; returns 422 with field errors.
+ * Student numbers may use the school's prefix, and emails must use its domain when set.
+ */
+function validateStudent(body: any, partial: boolean, school: SchoolSettings) {
+  const errors: { [key: string]: string[] } = {}
+  const check = (field: string, result: { isValid: boolean; error?: string }) => {
+    if (!result.isValid) errors[field] = [result.error || `Invalid ${field}`]
+  }
+  const present = (field: string) => body?.[field] !== undefined && body[field] !== ''
+
+  if (!partial || present('studentNumber')) {
+    check(
+      'studentNumber',
+      validators.studentNumber(body?.studentNumber ?? '', school.studentNumberPrefix)
+    )
+  }
+  if (!partial || present('firstName')) {
+    check('firstName', validators.personName(body?.firstName ?? '', 'First name'))
+  }
+  if (!partial || present('lastName')) {
+    check('lastName', validators.personName(body?.lastName ?? '', 'Last name'))
+  }
+  if (!partial || present('email')) {
+    check('email', validateSchoolDomainEmail(body?.email ?? '', school.emailDomain))
+  }
+  if (present('section')) check('section', validators.section(body.section))
+  if (present('birthdate')) check('birthdate', validators.birthdate(body.birthdate))
+  if (present('contact')) check('contact', validators.contact(body.contact))
+  if (present('guardianEmail')) check('guardianEmail', validators.email(body.guardianEmail))
+  if (present('nfcId')) check('nfcId', validators.nfcId(body.nfcId))
+  if (present('status') && !STATUSES.includes(body.status)) {
+    errors.status = [`Status must be one of: ${STATUSES.join(', ')}`]
+  }
+  if (body?.tags !== undefined) {
+    check(
+      'tags',
+      Array.isArray(body.tags)
+        ? validators.studentTags(body.tags)
+        : { isValid: false, error: 'Tags must be a list' }
+    )
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new MockHttpError(422, 'Validation failed', errors)
+  }
+}
+
+/**
+ * Reject duplicate student numbers, emails and NFC cards with 409, and cards
+ * the registry has marked lost or revoked. `pending` holds values claimed by
+ * earlier rows of the same import.
+ */
+function assertUnique(body: any, exceptId?: number, pending: Partial<Student>[] = []) {
+  const others: Partial<Student>[] = [
+    ...getDb().students.filter((s) => s.id !== exceptId),
+    ...pending,
+  ]
+  const duplicates: [keyof Student, string][] = [
+    ['studentNumber', 'Student number already exists'],
+    ['email', 'A student with this email already exists'],
+    ['nfcId', 'This NFC card is already assigned to another student'],
+  ]
+
+  for (const [field, message] of duplicates) {
+    const value = body?.[field]
+    if (
+      value &&
+      others.some((s) => String(s[field] ?? '').toLowerCase() === String(value).toLowerCase())
+    ) {
+      throw new MockHttpError(409, message, { [field]: [message] })
+    }
+  }
+  if (body?.nfcId) assertCardUsable(String(body.nfcId), exceptId)
+}
+
+/**
+ * Check the changes of a bulk edit once, before any student is touched;
+ * returns 422 with field errors. Empty text values become null (clear).
+ */
+function readBulkChanges(body: any): StudentBulkChanges {
+  const errors: { [key: string]: string[] } = {}
+  const changes: StudentBulkChanges = {}
+  const check = (field: string, result: { isValid: boolean; error?: string }) => {
+    if (!result.isValid) errors[field] = [result.error || `Invalid ${field}`]
+    return result.isValid
+  }
+
+  const textValidators: {
+    [field in (typeof BULK_TEXT_FIELDS)[number]]: (value: string) => { isValid: boolean }
+  } = {
+    section: validators.section,
+    guardianName: (value) => validators.personName(value, 'Guardian name'),
+    guardianEmail: validators.email,
+    guardianContact: validators.contact,
+  }
+  BULK_TEXT_FIELDS.forEach((field) => {
+    const value = body?.[field]
+    if (value === undefined) return
+    if (value === null || String(value).trim() === '') {
+      changes[field] = null
+      return
+    }
+    if (check(field, textValidators[field](String(value).trim()))) {
+      changes[field] = String(value).trim()
+    }
+  })
+
+  if (body?.status !== undefined) {
+    const { status, effectiveDate, reason } = body.status ?? {}
+    if (!STATUSES.includes(status)) {
+      errors.status = [`Status must be one of: ${STATUSES.join(', ')}`]
+    } else if (!effectiveDate) {
+      errors.effectiveDate = ['Effective date is required']
+    } else if (String(reason ?? '').trim().length < 3) {
+      errors.reason = ['Give a reason for the change']
+    } else {
+      changes.status = {
+        status,
+        effectiveDate: String(effectiveDate),
+        reason: String(reason).trim(),
+      }
+    }
+  }
+
+  for (const field of ['addTags', 'removeTags'] as const) {
+    const tags = body?.[field]
+    if (tags === undefined) continue
+    if (!Array.isArray(tags)) {
+      errors[field] = ['Tags must be a list']
+      continue
+    }
+    const normalized = tags.map((tag) => String(tag).trim().toLowerCase())
+    const invalid = normalized.map(validators.studentTag).find((result) => !result.isValid)
+    if (!invalid || check(field, invalid)) changes[field] = normalized
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new MockHttpError(422, 'Validation failed', errors)
+  }
+  const hasChanges =
+    BULK_TEXT_FIELDS.some((field) => changes[field] !== undefined) ||
+    Boolean(changes.status) ||
+    Boolean(changes.addTags?.length) ||
+    Boolean(changes.removeTags?.length)
+  if (!hasChanges) {
+    throw new MockHttpError(422, 'Validation failed', { changes: ['Choose at least one change'] })
+  }
+  return changes
+}
+
+/**
+ * Next free `PREFIX-NNNN` number, also skipping numbers in `taken`
+ */
+function nextStudentNumber(prefix: string, taken: string[] = []): string {
+  const highest = [...getDb().students.map((s) => s.studentNumber), ...taken]
+    .filter((n) => n.startsWith(`${prefix}-`))
+    .reduce((max, n) => Math.max(max, parseInt(n.slice(prefix.length + 1), 10) || 0), 0)
+  return `${prefix}-${String(highest + 1).padStart(4, '0')}`
+}
+
+/**
+ * Keep only student fields with a value; spreadsheets leave many cells empty
+ */
+function pickStudentFields(data: any): Partial<StudentFormData> {
+  return Object.fromEntries(
+    IMPORT_FIELDS.filter((field) => data?.[field] !== undefined && data[field] !== '').map(
+      (field) => [field, String(data[field]).trim()]
+    )
+  )
+}
+
+function calculateAge(birthdate?: string): number | undefined {
+  if (!birthdate) return undefined
+  const born = new Date(birthdate)
+  const today = new Date()
+  let age = today.getFullYear() - born.getFullYear()
+  const beforeBirthday =
+    today.getMonth() < born.getMonth() ||
+    (today.getMonth() === born.getMonth() && today.getDate() < born.getDate())
+  if (beforeBirthday) age--
+  return age
+}
+
+function matchesSearch(student: Student, q: string) {
+  const term = q.toLowerCase()
+  return [
+    student.studentNumber,
+    student.firstName,
+    student.lastName,
+    `${student.firstName} ${student.lastName}`,
+    student.email,
+    student.section,
+    ...(student.guardians ?? []).map(({ guardian }) => guardian.name),
+  ].some((value) => value?.toLowerCase().includes(term))
+}
+
+// Columns the students list can be sorted by
+const SORT_FIELDS: (keyof Student)[] = [
+  'studentNumber',
+  'firstName',
+  'lastName',
+  'email',
+  'section',
+  'guardianName',
+  'status',
+  'createdAt',
+]
+
+function hasGuardianInfo(student: Student): boolean {
+  return Boolean(student.guardians?.length)
+}
+
+function matchesGuardian(student: Student, q: string) {
+  const term = q.toLowerCase()
+  return (student.guardians ?? []).some(({ guardian }) =>
+    [guardian.name, guardian.email].some((value) => value?.toLowerCase().includes(term))
+  )
+}
+
+/**
+ * Students without a birthdate never match an age filter
+ */
+function matchesAge(student: Student, minAge?: number, maxAge?: number) {
+  const age = calculateAge(student.birthdate)
+  if (age === undefined) return false
+  return (minAge === undefined || age >= minAge) && (maxAge === undefined || age <= maxAge)
+}
+
+/**
+ * Students as the API returns them, with guardians populated, for filtering
+ * and sorting on guardian fields
+ */
+function serializedStudents(): Student[] {
+  return getDb().students.map(serializeStudent)
+}
+
+export const studentRoutes = [
+  route('get', '/students', (req) => {
+    let students = serializedStudents()
+    const { search, status, section, hasGuardian, guardian, tag, minAge, maxAge } = req.query
+    const { sortBy, sortOrder } = req.query
+    if (search) students = students.filter((s) => matchesSearch(s, String(search)))
+    if (status) students = students.filter((s) => (s.status ?? 'active') === status)
+    if (section) students = students.filter((s) => s.section === section)
+    if (hasGuardian !== undefined) {
+      students = students.filter((s) => hasGuardianInfo(s) === (String(hasGuardian) === 'true'))
+    }
+    if (guardian) students = students.filter((s) => matchesGuardian(s, String(guardian)))
+    if (tag) students = students.filter((s) => s.tags?.includes(String(tag).toLowerCase()))
+    if (minAge !== undefined || maxAge !== undefined) {
+      const min = minAge !== undefined ? Number(minAge) : undefined
+      const max = maxAge !== undefined ? Number(maxAge) : undefined
+      students = students.filter((s) => matchesAge(s, min, max))
+    }
+
+    const field = SORT_FIELDS.find((f) => f === sortBy)
+    const direction = sortOrder === 'desc' ? -1 : 1
+    const sorted = [...students].sort((a, b) => {
+      const byField = field
+        ? String(a[field] ?? '').localeCompare(String(b[field] ?? ''), undefined, {
+            numeric: true,
+            sensitivity: 'base',
+          })
+        : 0
+      return (byField || a.studentNumber.localeCompare(b.studentNumber)) * direction
+    })
+    return paginated(sorted, req.query)
+  }),
+
+  route('get', '/students/stats', () => {
+    const students = serializedStudents()
+    const byStatus = Object.fromEntries(STATUSES.map((status) => [status, 0]))
+    students.forEach((s) => {
+      byStatus[s.status ?? 'active'] += 1
+    })
+    return ok({
+      total: students.length,
+      withGuardian: students.filter(hasGuardianInfo).length,
+      byStatus,
+    })
+  }),
+
+  route('get', '/students/sections', () =>
+    ok(
+      Array.from(
+        new Set(
+          getDb()
+            .students.map((s) => s.section?.trim())
+            .filter(Boolean) as string[]
+        )
+      ).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+    )
+  ),
+
+  route('get', '/students/search', (req) => {
+    const q = String(req.query.q ?? '').trim()
+    return ok(q ? serializedStudents().filter((s) => matchesSearch(s, q)) : [])
+  }),
+
+  route('get', '/students/generate/student-number', (req) =>
+    ok({ studentNumber: nextStudentNumber(currentSchool(req).settings.studentNumberPrefix) })
+  ),
+
+  route('get', '/students/number/:studentNumber', (req) => {
+    const student = getDb().students.find((s) => s.studentNumber === req.params.studentNumber)
+    if (!student) throw notFound('Student')
+    return ok(serializeStudent(student))
+  }),
+
+  route('get', '/students/:id/enrollments', (req) => {
+    const student = findStudent(req.params.id)
+    const db = getDb()
+    return ok(
+      db.enrollments
+        .filter((e) => e.studentId === student.id)
+        .map((e) => {
+          const subject = db.subjects.find((s) => s.id === e.subjectId)
+          return {
+            id: String(e.id),
+            subjectId: String(e.subjectId),
+            enrolledAt: e.enrolledAt,
+            subject: subject ? { ...serializeSubject(subject), id: String(subject.id) } : undefined,
+          }
+        })
+    )
+  }),
+
+  route('get', '/students/:id/attendance/summary', (req) => {
+    const student = findStudent(req.params.id)
+    const db = getDb()
+    const rows = db.attendance.filter((a) => a.studentId === student.id)
+    const count = (list: typeof rows, status: string) =>
+      list.filter((a) => a.status === status).length
+    const rate = (list: typeof rows) =>
+      list.length > 0
+        ? Math.round((list.filter((a) => a.status !== 'absent').length / list.length) * 100)
+        : 0
+
+    const subjectIds = Array.from(new Set(rows.map((a) => a.subjectId).filter(Boolean)))
+    return ok({
+      totalDays: rows.length,
+      present: count(rows, 'present'),
+      absent: count(rows, 'absent'),
+      late: count(rows, 'late'),
+      excused: count(rows, 'excused'),
+      attendanceRate: rate(rows),
+      bySubject: subjectIds.map((subjectId) => {
+        const subject = db.subjects.find((s) => s.id === subjectId)
+        const subjectRows = rows.filter((a) => a.subjectId === subjectId)
+        return {
+          subjectId: String(subjectId),
+          subjectCode: subject?.subjectCode ?? '',
+          subjectName: subject?.subjectName ?? '',
+          present: count(subjectRows, 'present'),
+          absent: count(subjectRows, 'absent'),
+          late: count(subjectRows, 'late'),
+          excused: count(subjectRows, 'excused'),
+          attendanceRate: rate(subjectRows),
+        }
+      }),
+    })
+  }),
+
+  route('get', '/students/:id', (req) => ok(serializeStudent(findStudent(req.params.id)))),
+
+  route('post', '/students', (req) => {
+    const user = requirePermission(req, PERMISSIONS.CREATE_STUDENT)
+    validateStudent(req.body, false, currentSchool(req).settings)
+    assertUnique(req.body)
+    const { legacy, links, fields } = takeGuardianFields<StudentFormData>(req.body)
+    const guardianLinks = links !== undefined ? readGuardianLinks(links) : undefined
+
+    const student: Student = {
+      ...fields,
+      id: nextId('students'),
+      status: req.body.status || 'active',
+      age: calculateAge(req.body.birthdate),
+      createdAt: now(),
+    }
+    getDb().students.push(student)
+    if (guardianLinks) setStudentGuardians(student.id, guardianLinks)
+    else assignLegacyGuardian(student, legacy)
+    syncStudentCard(student, user.id)
+    return created(serializeStudent(student), 'Student created successfully')
+  }),
+
+  route('post', '/students/import', (req) => {
+    const user = requirePermission(req, PERMISSIONS.CREATE_STUDENT)
+    const settings = currentSchool(req).settings
+    const rows: any[] = Array.isArray(req.body?.rows) ? req.body.rows : []
+    const dryRun = req.body?.dryRun === true
+    if (rows.length === 0 || rows.length > STUDENT_IMPORT_MAX_ROWS) {
+      throw new MockHttpError(422, 'Validation failed', {
+        rows: [`Send between 1 and ${STUDENT_IMPORT_MAX_ROWS} rows`],
+      })
+    }
+
+    const db = getDb()
+    const canEdit = userHasPermission(user, PERMISSIONS.EDIT_STUDENT)
+    // Values taken by earlier rows, so later rows are checked against them too
+    const claimed: Partial<Student>[] = []
+    const results: StudentImportRowResult[] = rows.map((input, index) => {
+      const row = Number(input?.row) || index + 2
+      const data = pickStudentFields(input?.data)
+      const studentNumber = data.studentNumber ?? ''
+      const fail = (errors: { [field: string]: string[] }): StudentImportRowResult => ({
+        row,
+        outcome: 'failed',
+        studentNumber,
+        errors,
+      })
+
+      if (input?.action === 'skip') return { row, outcome: 'skipped', studentNumber }
+
+      try {
+        if (input?.action === 'update') {
+          if (!canEdit) return fail({ row: ['You do not have permission to update students'] })
+          const target = db.students.find((s) => s.id === Number(input.studentId))
+          if (!target) return fail({ row: ['The student to update no longer exists'] })
+
+          validateStudent(data, true, settings)
+          assertUnique(data, target.id, claimed)
+          // A different status is a lifecycle transition, effective on the import date
+          const { status, ...rest } = data
+          const { legacy, fields } = takeGuardianFields(rest)
+          const statusChanged = Boolean(status) && status !== (target.status ?? 'active')
+          if (statusChanged) assertStatusChange(target, status!, format(new Date(), 'yyyy-MM-dd'))
+          if (!dryRun) {
+            Object.assign(target, fields, { id: target.id, updatedAt: now() })
+            assignLegacyGuardian(target, legacy)
+            syncStudentCard(target, user.id)
+            if (data.birthdate) target.age = calculateAge(data.birthdate)
+            if (statusChanged) {
+              changeStudentStatus(target, status!, {
+                effectiveDate: format(new Date(), 'yyyy-MM-dd'),
+                reason: 'Updated by student import',
+                actor: user,
+              })
+            }
+          }
+          claimed.push({ ...target, ...fields })
+          return {
+            row,
+            outcome: 'updated',
+            studentId: target.id,
+            studentNumber: data.studentNumber ?? target.studentNumber,
+          }
+        }
+
+        // A taken (or missing) student number is replaced with the next free one
+        const numberTaken = [...db.students, ...claimed].some(
+          (s) => s.studentNumber?.toLowerCase() === studentNumber.toLowerCase()
+        )
+        if (!studentNumber || numberTaken) {
+          data.studentNumber = nextStudentNumber(
+            settings.studentNumberPrefix,
+            claimed.map((s) => s.studentNumber ?? '')
+          )
+        }
+        validateStudent(data, false, settings)
+        assertUnique(data, undefined, claimed)
+
+        const { legacy, fields } = takeGuardianFields(data as StudentFormData)
+        const student: Student = {
+          ...fields,
+          id: dryRun ? 0 : nextId('students'),
+          status: data.status || 'active',
+          age: calculateAge(data.birthdate),
+          createdAt: now(),
+        }
+        if (!dryRun) {
+          db.students.push(student)
+          assignLegacyGuardian(student, legacy)
+          syncStudentCard(student, user.id)
+        }
+        claimed.push(student)
+        return {
+          row,
+          outcome: 'created',
+          studentId: dryRun ? undefined : student.id,
+          studentNumber: student.studentNumber,
+        }
+      } catch (error) {
+        if (!(error instanceof MockHttpError)) throw error
+        return fail(error.errors ?? { row: [error.message] })
+      }
+    })
+
+    const count = (outcome: StudentImportRowResult['outcome']) =>
+      results.filter((r) => r.outcome === outcome).length
+    return ok({
+      dryRun,
+      created: count('created'),
+      updated: count('updated'),
+      skipped: count('skipped'),
+      failed: count('failed'),
+      rows: results,
+    })
+  }),
+
+  route('post', '/students/bulk-update', (req) => {
+    const user = requirePermission(req, PERMISSIONS.EDIT_STUDENT)
+    const studentIds: unknown[] = Array.isArray(req.body?.studentIds) ? req.body.studentIds : []
+    if (studentIds.length === 0 || studentIds.length > STUDENT_BULK_UPDATE_MAX) {
+      throw new MockHttpError(422, 'Validation failed', {
+        studentIds: [`Select between 1 and ${STUDENT_BULK_UPDATE_MAX} students`],
+      })
+    }
+    const changes = readBulkChanges(req.body?.changes)
+    const addTags = changes.addTags ?? []
+    const removeTags = changes.removeTags ?? []
+
+    const results: StudentBulkUpdateRowResult[] = studentIds.map((value) => {
+      const studentId = Number(value)
+      const student = getDb().students.find((s) => s.id === studentId)
+      if (!student) {
+        return { studentId, outcome: 'failed', errors: { student: ['Student not found'] } }
+      }
+
+      // Guardian fields are compared with the primary guardian
+      const current = serializeStudent(student)
+      const fields: Partial<Student> = {}
+      const guardianChanges: StudentBulkChanges = {}
+      BULK_TEXT_FIELDS.forEach((field) => {
+        if (changes[field] === undefined) return
+        const next = changes[field] ?? undefined
+        if ((current[field] || undefined) === next) return
+        if (field === 'section') fields.section = next
+        else guardianChanges[field] = changes[field]
+      })
+      const currentTags = student.tags ?? []
+      const tags = [
+        ...currentTags.filter((tag) => !removeTags.includes(tag)),
+        ...addTags.filter((tag) => !currentTags.includes(tag)),
+      ]
+      if (tags.join(',') !== currentTags.join(',')) fields.tags = tags
+      // Students already in the new status keep their history as it is
+      const status =
+        changes.status && changes.status.status !== (student.status ?? 'active')
+          ? changes.status
+          : undefined
+
+      try {
+        if (fields.tags) {
+          const result = validators.studentTags(fields.tags)
+          if (!result.isValid) {
+            throw new MockHttpError(422, 'Validation failed', { tags: [result.error!] })
+          }
+        }
+        if (status) assertStatusChange(student, status.status, status.effectiveDate)
+      } catch (error) {
+        if (!(error instanceof MockHttpError)) throw error
+        return {
+          studentId,
+          outcome: 'failed',
+          errors: error.errors ?? { student: [error.message] },
+        }
+      }
+
+      if (
+        Object.keys(fields).length === 0 &&
+        Object.keys(guardianChanges).length === 0 &&
+        !status
+      ) {
+        return { studentId, outcome: 'unchanged' }
+      }
+      Object.assign(student, fields, { updatedAt: now() })
+      assignLegacyGuardian(student, guardianChanges)
+      if (status) changeStudentStatus(student, status.status, { ...status, actor: user })
+      return { studentId, outcome: 'updated' }
+    })
+
+    const count = (outcome: StudentBulkUpdateRowResult['outcome']) =>
+      results.filter((r) => r.outcome === outcome).length
+    return ok({
+      updated: count('updated'),
+      unchanged: count('unchanged'),
+      failed: count('failed'),
+      rows: results,
+    })
+  }),
+
+  route('put', '/students/:id', (req) => {
+    const user = requirePermission(req, PERMISSIONS.EDIT_STUDENT)
+    const student = findStudent(req.params.id)
+    validateStudent(req.body, true, currentSchool(req).settings)
+    assertUnique(req.body, student.id)
+    if (req.body.status && req.body.status !== (student.status ?? 'active')) {
+      throw new MockHttpError(422, 'Validation failed', {
+        status: ['Change the status with POST /students/:id/status so it is recorded'],
+      })
+    }
+    const { legacy, links, fields } = takeGuardianFields(req.body)
+    const guardianLinks = links !== undefined ? readGuardianLinks(links) : undefined
+
+    Object.assign(student, fields, { id: student.id, updatedAt: now() })
+    if (guardianLinks) setStudentGuardians(student.id, guardianLinks)
+    else assignLegacyGuardian(student, legacy)
+    syncStudentCard(student, user.id)
+    if (req.body.birthdate) student.age = calculateAge(req.body.birthdate)
+    return ok(serializeStudent(student), 'Student updated successfully')
+  }),
+
+  route('delete', '/students/:id', (req) => {
+    const user = requirePermission(req, PERMISSIONS.DELETE_STUDENT)
+    const student = findStudent(req.params.id)
+    const db = getDb()
+    releaseStudentCards(student.id, user.id)
+    db.students = db.students.filter((s) => s.id !== student.id)
+    db.enrollments = db.enrollments.filter((e) => e.studentId !== student.id)
+    db.studentGuardians = db.studentGuardians.filter((l) => l.studentId !== student.id)
+    return ok(null, 'Student deleted successfully')
+  }),
+
+  route('post', '/students/:id/photo', async (req) => {
+    requirePermission(req, PERMISSIONS.EDIT_STUDENT)
+    const student = findStudent(req.params.id)
+    const photo = req.body instanceof FormData ? req.body.get('photo') : null
+    if (!(photo instanceof Blob)) {
+      throw new MockHttpError(422, 'Validation failed', { photo: ['A photo file is required'] })
+    }
+    if (!(ALLOWED_MIME_TYPES.PROFILE_PHOTO as readonly string[]).includes(photo.type)) {
+      throw new MockHttpError(415, 'Photo must be a JPEG, PNG, GIF or WebP image')
+    }
+    if (photo.size > VALIDATION_CONSTANTS.PROFILE_PHOTO_MAX_MB * 1024 * 1024) {
+      throw new MockHttpError(413, 'Photo is too large')
+    }
+
+    // No file storage in mock mode; the photo is kept inline as a data URL
+    const bytes = new Uint8Array(await photo.arrayBuffer())
+    let binary = ''
+    bytes.forEach((byte) => {
+      binary += String.fromCharCode(byte)
+    })
+    student.profilePhoto = `data:${photo.type};base64,${btoa(binary)}`
+    student.updatedAt = now()
+    return ok(serializeStudent(student), 'Photo updated')
+  }),
+
+  route('delete', '/students/:id/photo', (req) => {
+    requirePermission(req, PERMISSIONS.EDIT_STUDENT)
+    const student = findStudent(req.params.id)
+    delete student.profilePhoto
+    student.updatedAt = now()
+    return ok(serializeStudent(student), 'Photo removed')
+  }),
+]
@@ -0,0 +1,313 @@
+import { validateStudentCanEnroll } from '@/utils/business-validation'
+import { PERMISSIONS } from '@/utils/permissions'
+import { getDb, MockSubject, MockUser, nextId, now } from '../db'
+import { publishEvent } from '../events'
+import { serializeEnrollment, serializeInstructor, serializeSubject } from '../serializers'
+import { currentUser, requirePermission, userHasPermission } from '../session'
+import { created, MockHttpError, notFound, ok, requireFields, route, toId } from '../router'
+
+function findSubject(id: string): MockSubject {
+  const subject = getDb().subjects.find((s) => s.id === toId(id, 'subjectId'))
+  if (!subject) throw notFound('Subject')
+  return subject
+}
+
+function announceEnrollment(
+  user: MockUser,
+  action: 'enrolled' | 'unenrolled',
+  subject: MockSubject,
+  studentIds: number[]
+) {
+  if (studentIds.length === 0) return
+  publishEvent('enrollment', user, { action, subjectId: subject.id, studentIds })
+}
+
+function assertStudentCanEnroll(studentId: number) {
+  const student = getDb().students.find((s) => s.id === studentId)
+  if (!student) throw notFound('Student')
+  const result = validateStudentCanEnroll(student.status ?? 'active')
+  if (!result.isValid) throw new MockHttpError(422, result.error ?? 'Student cannot be enrolled')
+}
+
+/**
+ * Subject codes are unique per section; the backend answers 422 for duplicates
+ */
+function assertUniqueCode(body: any, exceptId?: number) {
+  const code = String(body?.subjectCode ?? '').toUpperCase()
+  const section = body?.section
+  const duplicate = getDb().subjects.some(
+    (s) => s.id !== exceptId && s.subjectCode.toUpperCase() === code && s.section === section
+  )
+  if (duplicate) {
+    throw new MockHttpError(422, 'Subject with this code already exists', {
+      subjectCode: ['Subject with this code already exists'],
+    })
+  }
+}
+
+/**
+ * Active accounts whose role can mark attendance, i.e. who can teach
+ */
+function instructorCandidates(): MockUser[] {
+  return getDb().users.filter(
+    (u) => u.isActive && userHasPermission(u, PERMISSIONS.MARK_ATTENDANCE)
+  )
+}
+
+/**
+ * Validate an instructor id list; unknown accounts and roles that cannot mark
+ * attendance are a 422 on `field`. Ids in `current` (already assigned) are
+ * kept even if the account has since been deactivated.
+ */
+function parseInstructorIds(value: unknown, field: string, current: number[] = []): number[] {
+  if (!Array.isArray(value)) {
+    throw new MockHttpError(422, 'Validation failed', {
+      [field]: ['instructorIds must be an array'],
+    })
+  }
+  const ids = [...new Set(value.map((id) => toId(id, 'instructorId')))]
+  const candidates = instructorCandidates().map((u) => u.id)
+  const invalid = ids.filter((id) => !candidates.includes(id) && !current.includes(id))
+  if (invalid.length > 0) {
+    throw new MockHttpError(422, 'Validation failed', {
+      [field]: invalid.map((id) => `User ${id} cannot be assigned as an instructor`),
+    })
+  }
+  return ids
+}
+
+function subjectDetails(subject: MockSubject) {
+  const enrolledStudents = getDb()
+    .enrollments.filter((e) => e.subjectId === subject.id)
+    .map(serializeEnrollment)
+  return { ...serializeSubject(subject), enrolledStudents }
+}
+
+export const subjectRoutes = [
+  route('get', '/subjects', (req) => {
+    // ?mine=true limits the list to subjects the caller teaches
+    const userId = String(req.query.mine) === 'true' ? currentUser(req).id : undefined
+    return ok(
+      getDb()
+        .subjects.filter((s) => userId === undefined || s.instructorIds.includes(userId))
+        .map(serializeSubject)
+    )
+  }),
+
+  route('get', '/subjects/instructors', (req) => {
+    requirePermission(req, PERMISSIONS.VIEW_SUBJECTS)
+    return ok(instructorCandidates().map(serializeInstructor))
+  }),
+
+  route('put', '/subjects/instructors', (req) => {
+    requirePermission(req, PERMISSIONS.ASSIGN_INSTRUCTORS)
+    const assignments = req.body?.assignments
+    if (!Array.isArray(assignments) || assignments.length === 0) {
+      throw new MockHttpError(422, 'Validation failed', {
+        assignments: ['At least one assignment is required'],
+      })
+    }
+
+    // Validate everything first so a bad row leaves every subject untouched
+    const updates = assignments.map((assignment: any, index: number) => {
+      const subject = findSubject(String(assignment?.subjectId))
+      const instructorIds = parseInstructorIds(
+        assignment?.instructorIds,
+        `assignments.${index}`,
+        subject.instructorIds
+      )
+      return { subject, instructorIds }
+    })
+    const updatedAt = now()
+    updates.forEach(({ subject, instructorIds }) => {
+      subject.instructorIds = instructorIds
+      subject.updatedAt = updatedAt
+    })
+    return ok(
+      updates.map(({ subject }) => serializeSubject(subject)),
+      `Updated instructors for ${updates.length} subject(s)`
+    )
+  }),
+
+  route('get', '/subjects/search', (req) => {
+    const q = String(req.query.q ?? '')
+      .trim()
+      .toLowerCase()
+    return ok(
+      getDb()
+        .subjects.filter(
+          (s) =>
+            s.subjectCode.toLowerCase().includes(q) ||
+            s.subjectName.toLowerCase().includes(q) ||
+            s.section.toLowerCase().includes(q)
+        )
+        .map(serializeSubject)
+    )
+  }),
+
+  route('get', '/subjects/:id/students', (req) => {
+    const subject = findSubject(req.params.id)
+    return ok(
+      getDb()
+        .enrollments.filter((e) => e.subjectId === subject.id)
+        .map(serializeEnrollment)
+    )
+  }),
+
+  route('get', '/subjects/:id', (req) => ok(subjectDetails(findSubject(req.params.id)))),
+
+  route('post', '/subjects', (req) => {
+    const user = requirePermission(req, PERMISSIONS.CREATE_SUBJECT)
+    requireFields(req.body, ['subjectCode', 'subjectName', 'section', 'yearLevel'])
+    assertUniqueCode(req.body)
+
+    const { schedule, schedules, instructorIds, ...fields } = req.body
+    if (instructorIds?.length && !userHasPermission(user, PERMISSIONS.ASSIGN_INSTRUCTORS)) {
+      throw new MockHttpError(403, 'You do not have permission to assign instructors')
+    }
+    const subject: MockSubject = {
+      ...fields,
+      id: nextId('subjects'),
+      instructorIds: instructorIds ? parseInstructorIds(instructorIds, 'instructorIds') : [],
+      subjectCode: String(req.body.subjectCode).toUpperCase(),
+      yearLevel: Number(req.body.yearLevel),
+      schedules: schedules ?? (schedule ? [{ slotName: 'Lecture', ...schedule }] : []),
+      createdAt: now(),
+    }
+    getDb().subjects.push(subject)
+    return created(serializeSubject(subject), 'Subject created successfully')
+  }),
+
+  route('put', '/subjects/:id/schedules', (req) => {
+    requirePermission(req, PERMISSIONS.EDIT_SUBJECT)
+    const subject = findSubject(req.params.id)
+    if (!Array.isArray(req.body?.schedules)) {
+      throw new MockHttpError(422, 'Validation failed', {
+        schedules: ['schedules must be an array'],
+      })
+    }
+    subject.schedules = req.body.schedules
+    subject.updatedAt = now()
+    return ok(subjectDetails(subject), 'Schedules updated successfully')
+  }),
+
+  route('put', '/subjects/:id', (req) => {
+    const user = requirePermission(req, PERMISSIONS.EDIT_SUBJECT)
+    const subject = findSubject(req.params.id)
+    const { schedule, schedules, instructorIds, ...fields } = req.body ?? {}
+    if (instructorIds !== undefined) {
+      const ids = parseInstructorIds(instructorIds, 'instructorIds', subject.instructorIds)
+      const changed = [...ids].sort().join() !== [...subject.instructorIds].sort().join()
+      if (changed && !userHasPermission(user, PERMISSIONS.ASSIGN_INSTRUCTORS)) {
+        throw new MockHttpError(403, 'You do not have permission to assign instructors')
+      }
+      subject.instructorIds = ids
+    }
+    if (fields.subjectCode || fields.section) {
+      assertUniqueCode(
+        {
+          subjectCode: fields.subjectCode ?? subject.subjectCode,
+          section: fields.section ?? subject.section,
+        },
+        subject.id
+      )
+    }
+
+    Object.assign(subject, fields, { id: subject.id, updatedAt: now() })
+    if (schedules) subject.schedules = schedules
+    else if (schedule) subject.schedules = [{ slotName: 'Lecture', ...schedule }]
+    return ok(serializeSubject(subject), 'Subject updated successfully')
+  }),
+
+  route('delete', '/subjects/:id', (req) => {
+    requirePermission(req, PERMISSIONS.DELETE_SUBJECT)
+    const subject = findSubject(req.params.id)
+    const db = getDb()
+    db.subjects = db.subjects.filter((s) => s.id !== subject.id)
+    db.enrollments = db.enrollments.filter((e) => e.subjectId !== subject.id)
+    return ok(null, 'Subject deleted successfully')
+  }),
+
+  // ---- Enrollment ----
+
+  route('post', '/subjects/:id/enroll', (req) => {
+    const user = requirePermission(req, PERMISSIONS.MANAGE_ENROLLMENTS)
+    const subject = findSubject(req.params.id)
+    requireFields(req.body, ['studentId'])
+    const studentId = toId(req.body.studentId, 'studentId')
+    assertStudentCanEnroll(studentId)
+
+    const db = getDb()
+    if (db.enrollments.some((e) => e.subjectId === subject.id && e.studentId === studentId)) {
+      throw new MockHttpError(409, 'Student is already enrolled in this subject')
+    }
+    const enrolledCount = db.enrollments.filter((e) => e.subjectId === subject.id).length
+    if (subject.capacity && enrolledCount >= subject.capacity) {
+      throw new MockHttpError(422, 'Subject has reached its maximum capacity')
+    }
+
+    const enrollment = {
+      id: nextId('enrollments'),
+      subjectId: subject.id,
+      studentId,
+      enrolledAt: now(),
+    }
+    db.enrollments.push(enrollment)
+    announceEnrollment(user, 'enrolled', subject, [studentId])
+    return created(serializeEnrollment(enrollment), 'Student enrolled successfully')
+  }),
+
+  route('post', '/subjects/:id/students/bulk', (req) => {
+    const user = requirePermission(req, PERMISSIONS.MANAGE_ENROLLMENTS)
+    const subject = findSubject(req.params.id)
+    if (!Array.isArray(req.body?.studentIds) || req.body.studentIds.length === 0) {
+      throw new MockHttpError(422, 'Validation failed', {
+        studentIds: ['At least one student is required'],
+      })
+    }
+
+    const db = getDb()
+    const added = (req.body.studentIds as unknown[])
+      .map((id) => toId(id, 'studentId'))
+      .filter((studentId) => {
+        const student = db.students.find((s) => s.id === studentId)
+        return student && validateStudentCanEnroll(student.status ?? 'active').isValid
+      })
+      .filter(
+        (studentId) =>
+          !db.enrollments.some((e) => e.subjectId === subject.id && e.studentId === studentId)
+      )
+      .map((studentId) => {
+        const enrollment = {
+          id: nextId('enrollments'),
+          subjectId: subject.id,
+          studentId,
+          enrolledAt: now(),
+        }
+        db.enrollments.push(enrollment)
+        return enrollment
+      })
+    announceEnrollment(
+      user,
+      'enrolled',
+      subject,
+      added.map((e) => e.studentId)
+    )
+    return created(added.map(serializeEnrollment), `${added.length} student(s) enrolled`)
+  }),
+
+  route('delete', '/subjects/:id/enroll/:studentId', (req) => {
+    const user = requirePermission(req, PERMISSIONS.MANAGE_ENROLLMENTS)
+    const subject = findSubject(req.params.id)
+    const studentId = toId(req.params.studentId, 'studentId')
+    const db = getDb()
+    if (!db.enrollments.some((e) => e.subjectId === subject.id && e.studentId === studentId)) {
+      throw notFound('Enrollment')
+    }
+    db.enrollments = db.enrollments.filter(
+      (e) => !(e.subjectId === subject.id && e.studentId === studentId)
+    )
+    announceEnrollment(user, 'unenrolled', subject, [studentId])
+    return ok(null, 'Student unenrolled successfully')
+  }),
+]
@@ -0,0 +1,187 @@
+import { UserRole } from '@/types'
+import { APP_NAME, TWO_FACTOR_ERRORS } from '@/utils/constants'
+import { getTwoFactorEligibleRoles, PERMISSIONS } from '@/utils/permissions'
+import { getDb, MockUser, now } from '../db'
+import { serializeUser } from '../serializers'
+import { currentUser, issueToken, rateLimit, requirePermission } from '../session'
+import { MockHttpError, ok, requireFields, route } from '../router'
+import { createRecoveryCodes, createTotpSecret, verifyTotpCode } from '../totp'
+
+const CHALLENGE_TTL = 5 * 60 * 1000 // 5 minutes
+const CHALLENGE_ATTEMPTS = 5
+
+interface Challenge {
+  userId: number
+  expiresAt: number
+  attempts: number
+}
+
+const challenges = new Map<string, Challenge>()
+
+/**
+ * Start the second login step for a user whose password was accepted
+ */
+export function issueTwoFactorChallenge(user: MockUser) {
+  const challengeToken = Array.from(crypto.getRandomValues(new Uint8Array(16)), (b) =>
+    b.toString(16).padStart(2, '0')
+  ).join('')
+  const expiresAt = Date.now() + CHALLENGE_TTL
+  challenges.set(challengeToken, { userId: user.id, expiresAt, attempts: 0 })
+  return { twoFactorRequired: true, challengeToken, expiresAt: new Date(expiresAt).toISOString() }
+}
+
+function invalidCode(message = 'Invalid verification code'): MockHttpError {
+  return new MockHttpError(422, message, { code: [message] }, TWO_FACTOR_ERRORS.INVALID_CODE)
+}
+
+/**
+ * Check an authenticator code, or use up one of the user's recovery codes
+ */
+async function acceptCode(user: MockUser, code: string, allowRecoveryCode: boolean) {
+  const value = code.trim().toLowerCase()
+  if (user.twoFactorSecret && /^\d{6}$/.test(value)) {
+    if (await verifyTotpCode(user.twoFactorSecret, value)) return
+  }
+  if (allowRecoveryCode && user.recoveryCodes?.includes(value)) {
+    user.recoveryCodes = user.recoveryCodes.filter((c) => c !== value)
+    return
+  }
+  throw invalidCode()
+}
+
+function isRequiredByPolicy(user: MockUser): boolean {
+  return getDb().twoFactorPolicy.requiredRoles.includes(user.role)
+}
+
+export const twoFactorRoutes = [
+  route(
+    'post',
+    '/auth/two-factor/verify',
+    async (req) => {
+      requireFields(req.body, ['challengeToken', 'code'])
+      const challenge = challenges.get(String(req.body.challengeToken))
+      if (!challenge || challenge.expiresAt < Date.now()) {
+        challenges.delete(String(req.body.challengeToken))
+        throw new MockHttpError(
+          401,
+          'Your sign-in attempt expired. Please enter your password again.',
+          undefined,
+          TWO_FACTOR_ERRORS.CHALLENGE_EXPIRED
+        )
+      }
+
+      const user = getDb().users.find((u) => u.id === challenge.userId && u.isActive)
+      if (!user) throw new MockHttpError(401, 'Invalid email or password')
+
+      try {
+        await acceptCode(user, String(req.body.code), true)
+      } catch (error) {
+        challenge.attempts++
+        if (challenge.attempts >= CHALLENGE_ATTEMPTS) {
+          challenges.delete(String(req.body.challengeToken))
+          throw new MockHttpError(
+            401,
+            'Too many incorrect codes. Please sign in again.',
+            undefined,
+            TWO_FACTOR_ERRORS.CHALLENGE_EXPIRED
+          )
+        }
+        throw error
+      }
+
+      challenges.delete(String(req.body.challengeToken))
+      return ok({ user: serializeUser(user), accessToken: issueToken(user.id) }, 'Login successful')
+    },
+    { isPublic: true }
+  ),
+
+  route('post', '/auth/two-factor/setup', (req) => {
+    const user = currentUser(req)
+    if (user.twoFactorSecret) {
+      throw new MockHttpError(409, 'Two-factor authentication is already enabled')
+    }
+    user.pendingTwoFactorSecret = createTotpSecret()
+    const label = encodeURIComponent(`${APP_NAME}:${user.email}`)
+    const issuer = encodeURIComponent(APP_NAME)
+    return ok({
+      secret: user.pendingTwoFactorSecret,
+      otpauthUrl: `otpauth://totp/${label}?secret=${user.pendingTwoFactorSecret}&issuer=${issuer}&algorithm=SHA1&digits=6&period=30`,
+    })
+  }),
+
+  route('post', '/auth/two-factor/confirm', async (req) => {
+    requireFields(req.body, ['code'])
+    const user = currentUser(req)
+    rateLimit(
+      `2fa:${user.id}`,
+      10,
+      5 * 60 * 1000,
+      'Too many attempts. Try again in {seconds} seconds.'
+    )
+    if (!user.pendingTwoFactorSecret) {
+      throw new MockHttpError(400, 'Start two-factor setup first')
+    }
+    if (!(await verifyTotpCode(user.pendingTwoFactorSecret, String(req.body.code).trim()))) {
+      throw invalidCode()
+    }
+
+    user.twoFactorSecret = user.pendingTwoFactorSecret
+    user.pendingTwoFactorSecret = undefined
+    user.recoveryCodes = createRecoveryCodes()
+    user.updatedAt = now()
+    return ok({ recoveryCodes: user.recoveryCodes }, 'Two-factor authentication enabled')
+  }),
+
+  route('post', '/auth/two-factor/disable', async (req) => {
+    requireFields(req.body, ['code'])
+    const user = currentUser(req)
+    if (isRequiredByPolicy(user)) {
+      throw new MockHttpError(
+        403,
+        'Two-factor authentication is required for your role',
+        undefined,
+        TWO_FACTOR_ERRORS.REQUIRED_BY_POLICY
+      )
+    }
+    await acceptCode(user, String(req.body.code), true)
+
+    user.twoFactorSecret = undefined
+    user.recoveryCodes = undefined
+    user.updatedAt = now()
+    return ok(null, 'Two-factor authentication disabled')
+  }),
+
+  route('post', '/auth/two-factor/recovery-codes', async (req) => {
+    requireFields(req.body, ['code'])
+    const user = currentUser(req)
+    if (!user.twoFactorSecret) {
+      throw new MockHttpError(400, 'Two-factor authentication is not enabled')
+    }
+    await acceptCode(user, String(req.body.code), false)
+
+    user.recoveryCodes = createRecoveryCodes()
+    return ok({ recoveryCodes: user.recoveryCodes }, 'New recovery codes generated')
+  }),
+
+  route('get', '/auth/two-factor/policy', (req) => {
+    requirePermission(req, PERMISSIONS.MANAGE_USERS)
+    return ok(getDb().twoFactorPolicy)
+  }),
+
+  route('put', '/auth/two-factor/policy', (req) => {
+    requirePermission(req, PERMISSIONS.MANAGE_USERS)
+    const requiredRoles: UserRole[] = Array.isArray(req.body?.requiredRoles)
+      ? req.body.requiredRoles
+      : []
+    const eligible = getTwoFactorEligibleRoles()
+    const invalid = requiredRoles.filter((role) => !eligible.includes(role))
+    if (invalid.length > 0) {
+      throw new MockHttpError(422, 'Validation failed', {
+        requiredRoles: [`Two-factor cannot be required for: ${invalid.join(', ')}`],
+      })
+    }
+
+    getDb().twoFactorPolicy = { requiredRoles: [...new Set(requiredRoles)] }
+    return ok(getDb().twoFactorPolicy, 'Two-factor policy updated')
+  }),
+]
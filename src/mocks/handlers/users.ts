@@ -0,0 +1,142 @@
+import { UserRole } from '@/types'
+import { PERMISSIONS } from '@/utils/permissions'
+import { getDb, MockUser, nextId, now } from '../db'
+import { serializeUser } from '../serializers'
+import { currentSchool, currentUser, requirePermission } from '../session'
+import { created, MockHttpError, notFound, ok, requireFields, route, toId } from '../router'
+
+function findUser(id: string) {
+  const user = getDb().users.find((u) => u.id === toId(id))
+  if (!user) throw notFound('User')
+  return user
+}
+
+function assertUniqueEmail(email: string, exceptId?: number) {
+  if (getDb().users.some((u) => u.email === email && u.id !== exceptId)) {
+    throw new MockHttpError(409, 'A user with this email already exists', {
+      email: ['A user with this email already exists'],
+    })
+  }
+}
+
+/**
+ * Refuse changes that would leave the system without an active superadmin
+ */
+function assertKeepsSuperadmin(user: MockUser, action: string) {
+  if (user.role !== 'superadmin' || !user.isActive) return
+  const others = getDb().users.filter(
+    (u) => u.role === 'superadmin' && u.isActive && u.id !== user.id
+  )
+  if (others.length === 0) {
+    throw new MockHttpError(422, `Cannot ${action} the last superadmin`)
+  }
+}
+
+function assertRole(role: unknown) {
+  const roles = getDb().permissionMatrix.roles.map((r) => r.id)
+  if (!roles.includes(role as UserRole)) {
+    throw new MockHttpError(422, 'Validation failed', {
+      role: [`Role must be one of: ${roles.join(', ')}`],
+    })
+  }
+}
+
+export const userRoutes = [
+  route('get', '/users', (req) => {
+    requirePermission(req, PERMISSIONS.MANAGE_USERS)
+    return ok(getDb().users.map(serializeUser))
+  }),
+
+  route('get', '/users/stats', (req) => {
+    requirePermission(req, PERMISSIONS.MANAGE_USERS)
+    const users = getDb().users
+    const countRole = (role: UserRole) => users.filter((u) => u.role === role).length
+    return ok({
+      total: users.length,
+      active: users.filter((u) => u.isActive).length,
+      inactive: users.filter((u) => !u.isActive).length,
+      byRole: Object.fromEntries(
+        getDb().permissionMatrix.roles.map((r) => [r.id, countRole(r.id)])
+      ),
+    })
+  }),
+
+  route('get', '/users/search', (req) => {
+    requirePermission(req, PERMISSIONS.MANAGE_USERS)
+    const q = String(req.query.q ?? '').toLowerCase()
+    return ok(
+      getDb()
+        .users.filter((u) => u.name.toLowerCase().includes(q) || u.email.includes(q))
+        .map(serializeUser)
+    )
+  }),
+
+  route('get', '/users/:id', (req) => {
+    requirePermission(req, PERMISSIONS.MANAGE_USERS)
+    return ok(serializeUser(findUser(req.params.id)))
+  }),
+
+  route('post', '/users', (req) => {
+    requirePermission(req, PERMISSIONS.MANAGE_USERS)
+    requireFields(req.body, ['name', 'email', 'password', 'role'])
+    assertRole(req.body.role)
+    const email = String(req.body.email).toLowerCase()
+    assertUniqueEmail(email)
+
+    const user = {
+      id: nextId('users'),
+      name: String(req.body.name).trim(),
+      email,
+      password: String(req.body.password),
+      role: req.body.role as UserRole,
+      isActive: true,
+      // New accounts belong to the school the admin is working in
+      schoolIds: [currentSchool(req).id],
+      createdAt: now(),
+    }
+    getDb().users.push(user)
+    return created(serializeUser(user), 'User created successfully')
+  }),
+
+  route('put', '/users/:id/toggle', (req) => {
+    const admin = requirePermission(req, PERMISSIONS.MANAGE_USERS)
+    const user = findUser(req.params.id)
+    if (user.id === admin.id) {
+      throw new MockHttpError(422, 'You cannot deactivate your own account')
+    }
+    assertKeepsSuperadmin(user, 'deactivate')
+    user.isActive = !user.isActive
+    user.updatedAt = now()
+    return ok(serializeUser(user), `User ${user.isActive ? 'activated' : 'deactivated'}`)
+  }),
+
+  route('put', '/users/:id', (req) => {
+    requirePermission(req, PERMISSIONS.MANAGE_USERS)
+    const user = findUser(req.params.id)
+    if (req.body?.role !== undefined) {
+      assertRole(req.body.role)
+      if (req.body.role !== user.role) assertKeepsSuperadmin(user, 'change the role of')
+    }
+    if (req.body?.email) {
+      const email = String(req.body.email).toLowerCase()
+      assertUniqueEmail(email, user.id)
+      user.email = email
+    }
+    if (req.body?.name) user.name = String(req.body.name).trim()
+    if (req.body?.role) user.role = req.body.role
+    user.updatedAt = now()
+    return ok(serializeUser(user), 'User updated successfully')
+  }),
+
+  route('delete', '/users/:id', (req) => {
+    requirePermission(req, PERMISSIONS.MANAGE_USERS)
+    const user = findUser(req.params.id)
+    if (user.id === currentUser(req).id) {
+      throw new MockHttpError(422, 'You cannot delete your own account')
+    }
+    assertKeepsSuperadmin(user, 'delete')
+    const db = getDb()
+    db.users = db.users.filter((u) => u.id !== user.id)
+    return ok(null, 'User deleted successfully')
+  }),
+]
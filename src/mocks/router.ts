@@ -0,0 +1,187 @@
+/**
+ * Mock API Router
+ *
+ * Minimal route table used by the in-browser mock backend. Handlers receive a
+ * parsed request and either return a result or throw MockHttpError, which the
+ * adapter turns into the same error response the real backend sends.
+ */
+
+export type MockMethod = 'get' | 'post' | 'put' | 'patch' | 'delete'
+
+export interface MockRequest {
+  method: MockMethod
+  path: string
+  params: { [key: string]: string }
+  query: { [key: string]: any }
+  body: any
+  userId: number | null
+  /** School named by the X-School-Id header, or the user's default school */
+  schoolId: number | null
+}
+
+export interface MockResult {
+  status: number
+  body: unknown
+}
+
+export type MockHandler = (req: MockRequest) => MockResult | Promise<MockResult>
+
+export interface MockRoute {
+  method: MockMethod
+  pattern: string
+  regex: RegExp
+  keys: string[]
+  handler: MockHandler
+  /** Reachable without an access token */
+  isPublic: boolean
+}
+
+/**
+ * Error thrown by handlers to produce a non-2xx response
+ */
+export class MockHttpError extends Error {
+  status: number
+  errors?: { [key: string]: string[] }
+  /** Machine-readable reason, sent as `code` next to the message */
+  code?: string
+
+  constructor(
+    status: number,
+    message: string,
+    errors?: { [key: string]: string[] },
+    code?: string
+  ) {
+    super(message)
+    this.name = 'MockHttpError'
+    this.status = status
+    this.errors = errors
+    this.code = code
+  }
+}
+
+/**
+ * Define a route. Patterns use `:name` segments, e.g. `/students/:id/enrollments`.
+ * Routes are matched in declaration order, so static paths go before `:param` ones.
+ */
+export function route(
+  method: MockMethod,
+  pattern: string,
+  handler: MockHandler,
+  options: { isPublic?: boolean } = {}
+): MockRoute {
+  const keys: string[] = []
+  const source = pattern
+    .split('/')
+    .map((segment) => {
+      if (segment.startsWith(':')) {
+        keys.push(segment.slice(1))
+        return '([^/]+)'
+      }
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    })
+    .join('/')
+
+  return {
+    method,
+    pattern,
+    regex: new RegExp(`^${source}/?$`),
+    keys,
+    handler,
+    isPublic: options.isPublic ?? false,
+  }
+}
+
+/**
+ * Find the route for a request, returning its decoded path params
+ */
+export function matchRoute(
+  routes: MockRoute[],
+  method: MockMethod,
+  path: string
+): { route: MockRoute; params: { [key: string]: string } } | null {
+  for (const candidate of routes) {
+    if (candidate.method !== method) continue
+    const match = candidate.regex.exec(path)
+    if (!match) continue
+
+    const params: { [key: string]: string } = {}
+    candidate.keys.forEach((key, index) => {
+      params[key] = decodeURIComponent(match[index + 1])
+    })
+    return { route: candidate, params }
+  }
+  return null
+}
+
+// ============================================================================
+// RESPONSE HELPERS - mirror the backend's { success, data, message } envelope
+// ============================================================================
+
+export function ok(data: unknown, message?: string): MockResult {
+  return { status: 200, body: { success: true, data, message } }
+}
+
+export function created(data: unknown, message?: string): MockResult {
+  return { status: 201, body: { success: true, data, message } }
+}
+
+export function paginated<T>(items: T[], query: { [key: string]: any }, defaultLimit = 20) {
+  const page = Math.max(1, parseInt(query.page, 10) || 1)
+  const limit = Math.max(1, parseInt(query.limit, 10) || defaultLimit)
+  const total = items.length
+  const totalPages = Math.max(1, Math.ceil(total / limit))
+
+  return {
+    status: 200,
+    body: {
+      success: true,
+      data: items.slice((page - 1) * limit, page * limit),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        currentPage: page,
+        totalItems: total,
+        itemsPerPage: limit,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    },
+  }
+}
+
+// ============================================================================
+// REQUEST HELPERS
+// ============================================================================
+
+export function notFound(entity: string): MockHttpError {
+  return new MockHttpError(404, `${entity} not found`)
+}
+
+/**
+ * Throw 422 with field errors when any required field is missing
+ */
+export function requireFields(body: any, fields: string[]): void {
+  const errors: { [key: string]: string[] } = {}
+  fields.forEach((field) => {
+    const value = body?.[field]
+    if (value === undefined || value === null || String(value).trim() === '') {
+      errors[field] = [`${field} is required`]
+    }
+  })
+  if (Object.keys(errors).length > 0) {
+    throw new MockHttpError(422, 'Validation failed', errors)
+  }
+}
+
+/**
+ * Read a numeric path or query param, throwing 422 when it is not a number
+ */
+export function toId(value: unknown, field = 'id'): number {
+  const id = Number(value)
+  if (!Number.isFinite(id)) {
+    throw new MockHttpError(422, `Invalid ${field}`, { [field]: [`${field} must be a number`] })
+  }
+  return id
+}
@@ -0,0 +1,303 @@
+/**
+ * Mock Serializers
+ *
+ * Turn database rows into the payloads the real backend returns, including
+ * the populated `student` objects and Mongo-style `_id` fields.
+ */
+
+import { Record as ActivityRecord, InvitationStatus, Student } from '@/types'
+import {
+  getDb,
+  MockAttendance,
+  MockEmail,
+  MockEnrollment,
+  MockGuardian,
+  MockIdCardPrint,
+  MockIdCardTemplate,
+  MockInvitation,
+  MockNfcCard,
+  MockNfcCardEvent,
+  MockRecord,
+  MockSchool,
+  MockStatusChange,
+  MockStudentMerge,
+  MockSubject,
+  MockUser,
+} from './db'
+
+export function serializeUser(user: MockUser) {
+  // Never expose the password or two-factor secrets
+  const {
+    password: _password,
+    twoFactorSecret,
+    pendingTwoFactorSecret: _pendingSecret,
+    recoveryCodes: _recoveryCodes,
+    ...rest
+  } = user
+  return {
+    ...rest,
+    _id: String(user.id),
+    twoFactorEnabled: !!twoFactorSecret,
+    twoFactorRequired: getDb().twoFactorPolicy.requiredRoles.includes(user.role),
+  }
+}
+
+export function invitationStatus(invitation: MockInvitation): InvitationStatus {
+  if (invitation.acceptedAt) return 'accepted'
+  if (invitation.revokedAt) return 'revoked'
+  return Date.parse(invitation.expiresAt) < Date.now() ? 'expired' : 'pending'
+}
+
+export function serializeStatusChange(change: MockStatusChange) {
+  const actor = getDb().users.find((u) => u.id === change.changedBy)
+  return {
+    ...change,
+    _id: String(change.id),
+    changedBy: actor ? { id: actor.id, name: actor.name } : undefined,
+  }
+}
+
+export function serializeStudentMerge(merge: MockStudentMerge) {
+  const actor = getDb().users.find((u) => u.id === merge.mergedBy)
+  return {
+    ...merge,
+    _id: String(merge.id),
+    mergedBy: actor ? { id: actor.id, name: actor.name } : undefined,
+  }
+}
+
+export function serializeIdCardTemplate(template: MockIdCardTemplate) {
+  return { ...template, _id: String(template.id) }
+}
+
+export function serializeIdCardPrint(print: MockIdCardPrint) {
+  const actor = getDb().users.find((u) => u.id === print.printedBy)
+  return {
+    ...print,
+    _id: String(print.id),
+    printedBy: actor ? { id: actor.id, name: actor.name } : undefined,
+  }
+}
+
+export function serializeNfcCard(card: MockNfcCard) {
+  const { studentId, ...rest } = card
+  const student = getDb().students.find((s) => s.id === studentId)
+  return {
+    ...rest,
+    _id: String(card.id),
+    student: student
+      ? {
+          id: student.id,
+          name: `${student.firstName} ${student.lastName}`,
+          studentNumber: student.studentNumber,
+          section: student.section,
+        }
+      : undefined,
+  }
+}
+
+export function serializeNfcCardEvent(event: MockNfcCardEvent) {
+  const { studentId, actorId, ...rest } = event
+  const student = getDb().students.find((s) => s.id === studentId)
+  const actor = getDb().users.find((u) => u.id === actorId)
+  return {
+    ...rest,
+    _id: String(event.id),
+    student: student
+      ? { id: student.id, name: `${student.firstName} ${student.lastName}` }
+      : undefined,
+    actor: actor ? { id: actor.id, name: actor.name } : undefined,
+  }
+}
+
+export function serializeInvitation(invitation: MockInvitation) {
+  // The token is only handed out when the invitation is created
+  const {
+    token: _token,
+    schoolId: _schoolId,
+    invitedBy,
+    revokedAt: _revokedAt,
+    ...rest
+  } = invitation
+  const inviter = getDb().users.find((u) => u.id === invitedBy)
+  return {
+    ...rest,
+    _id: String(invitation.id),
+    status: invitationStatus(invitation),
+    invitedBy: inviter ? { id: inviter.id, name: inviter.name } : undefined,
+  }
+}
+
+export function serializeSchool(school: MockSchool) {
+  return { ...school, _id: String(school.id) }
+}
+
+export function serializeGuardian(guardian: MockGuardian) {
+  return {
+    ...guardian,
+    _id: String(guardian.id),
+    studentCount: getDb().studentGuardians.filter((l) => l.guardianId === guardian.id).length,
+  }
+}
+
+/**
+ * A student's guardians in link order, primary first
+ */
+function studentGuardians(studentId: number) {
+  const db = getDb()
+  return db.studentGuardians
+    .filter((link) => link.studentId === studentId)
+    .sort((a, b) => a.id - b.id)
+    .flatMap((link) => {
+      const guardian = db.guardians.find((g) => g.id === link.guardianId)
+      return guardian
+        ? [
+            {
+              guardian: serializeGuardian(guardian),
+              relationship: link.relationship,
+              receivesAttendanceAlerts: link.receivesAttendanceAlerts,
+            },
+          ]
+        : []
+    })
+}
+
+export function serializeStudent(student: Student) {
+  const guardians = studentGuardians(student.id)
+  const primary = guardians[0]?.guardian
+  return {
+    ...student,
+    _id: String(student.id),
+    guardians,
+    // Legacy single guardian mirrors the primary guardian
+    guardianName: primary?.name,
+    guardianEmail: primary?.email,
+    guardianContact: primary?.contact,
+  }
+}
+
+function studentSummary(studentId: number) {
+  const student = getDb().students.find((s) => s.id === studentId)
+  if (!student) return undefined
+  const guardians = studentGuardians(student.id)
+  return {
+    _id: String(student.id),
+    id: student.id,
+    studentNumber: student.studentNumber,
+    firstName: student.firstName,
+    lastName: student.lastName,
+    email: student.email,
+    section: student.section,
+    guardianName: guardians[0]?.guardian.name,
+    guardianEmail: guardians[0]?.guardian.email,
+    guardians,
+    profilePhoto: student.profilePhoto,
+  }
+}
+
+export function serializeInstructor(user: MockUser) {
+  return { id: user.id, _id: String(user.id), name: user.name, email: user.email, role: user.role }
+}
+
+export function serializeSubject(subject: MockSubject) {
+  const enrollmentCount = getDb().enrollments.filter((e) => e.subjectId === subject.id).length
+  const instructors = getDb().users.filter((u) => subject.instructorIds.includes(u.id))
+  return {
+    ...subject,
+    _id: String(subject.id),
+    instructors: instructors.map(serializeInstructor),
+    // Assigned accounts take over the legacy free-text name
+    instructor: instructors.length ? instructors.map((u) => u.name).join(', ') : subject.instructor,
+    // Legacy single schedule mirrors the first slot
+    schedule: subject.schedules[0]
+      ? {
+          days: subject.schedules[0].days,
+          startTime: subject.schedules[0].startTime,
+          endTime: subject.schedules[0].endTime,
+          room: subject.schedules[0].room,
+        }
+      : undefined,
+    enrollmentCount,
+  }
+}
+
+export function serializeEnrollment(enrollment: MockEnrollment) {
+  return {
+    ...enrollment,
+    _id: String(enrollment.id),
+    student: studentSummary(enrollment.studentId),
+  }
+}
+
+export function serializeAttendance(row: MockAttendance) {
+  const db = getDb()
+  const student = studentSummary(row.studentId)
+  const subject = db.subjects.find((s) => s.id === row.subjectId)
+  const marker = db.users.find((u) => u.id === row.markedBy)
+
+  return {
+    ...row,
+    _id: String(row.id),
+    notes: row.remarks,
+    studentNumber: student?.studentNumber,
+    firstName: student?.firstName,
+    lastName: student?.lastName,
+    email: student?.email,
+    subjectCode: subject?.subjectCode,
+    subjectName: subject?.subjectName,
+    timestamp: row.updatedAt ?? row.createdAt,
+    markedBy: marker ? { id: marker.id, name: marker.name } : undefined,
+    student,
+  }
+}
+
+export function serializeRecord(record: MockRecord): ActivityRecord & { _id: string } {
+  const student = getDb().students.find((s) => s.id === record.studentId)
+  return {
+    id: record.id,
+    _id: String(record.id),
+    studentId: record.studentId,
+    studentNumber: student?.studentNumber ?? '',
+    firstName: student?.firstName ?? '',
+    lastName: student?.lastName ?? '',
+    email: student?.email ?? '',
+    recordType: record.recordType,
+    createdAt: record.createdAt,
+  }
+}
+
+export function serializeEmail(email: MockEmail) {
+  const db = getDb()
+  const sender = db.users.find((u) => u.id === email.performedBy)
+  const student = email.studentId ? db.students.find((s) => s.id === email.studentId) : undefined
+
+  return {
+    _id: String(email.id),
+    recordType: email.recordType,
+    recordData: email.subject,
+    performedBy: {
+      _id: String(sender?.id ?? 0),
+      name: sender?.name ?? 'System',
+      email: sender?.email ?? '',
+    },
+    student: student
+      ? {
+          _id: String(student.id),
+          studentNumber: student.studentNumber,
+          firstName: student.firstName,
+          lastName: student.lastName,
+        }
+      : undefined,
+    metadata: {
+      recipient: email.recipients.length === 1 ? email.recipients[0] : undefined,
+      recipients: email.recipients,
+      subject: email.subject,
+      messageId: `<mock-${email.id}@notified.test>`,
+      totalRecipients: email.recipients.length,
+      sentCount: email.sentCount,
+      failedCount: email.failedCount,
+    },
+    createdAt: email.createdAt,
+    updatedAt: email.createdAt,
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Mock Session
+ *
+ * Stateless access tokens plus a refresh "cookie" kept in sessionStorage, so
+ * a page reload behaves like it does against the real backend: the access
+ * token survives in the auth store and expiry goes through /auth/refresh-token.
+ */
+
+import { Permission, resolveRolePermissions } from '@/utils/permissions'
+import { getDb, MockSchool, MockUser } from './db'
+import { MockHttpError, MockRequest } from './router'
+
+const TOKEN_PREFIX = 'mock'
+const ACCESS_TOKEN_TTL = 15 * 60 * 1000 // 15 minutes
+const SESSION_KEY = 'notified:mock-session'
+
+/**
+ * Issue an access token and start the refresh session for a user
+ */
+export function issueToken(userId: number): string {
+  sessionStorage.setItem(SESSION_KEY, String(userId))
+  return `${TOKEN_PREFIX}.${userId}.${Date.now() + ACCESS_TOKEN_TTL}`
+}
+
+export function endSession(): void {
+  sessionStorage.removeItem(SESSION_KEY)
+}
+
+/**
+ * User id of the refresh session, or null when logged out
+ */
+export function getSessionUserId(): number | null {
+  const value = sessionStorage.getItem(SESSION_KEY)
+  return value ? Number(value) : null
+}
+
+/**
+ * Resolve the user id from an Authorization header, or null if the token
+ * is missing, malformed or expired
+ */
+export function verifyToken(header: string | undefined | null): number | null {
+  const token = header?.replace(/^Bearer\s+/i, '')
+  if (!token) return null
+
+  const [prefix, userId, expiresAt] = token.split('.')
+  if (prefix !== TOKEN_PREFIX || Number(expiresAt) < Date.now()) return null
+
+  const user = getDb().users.find((u) => u.id === Number(userId))
+  return user && user.isActive ? user.id : null
+}
+
+/**
+ * The authenticated user for a request
+ */
+export function currentUser(req: MockRequest): MockUser {
+  const user = getDb().users.find((u) => u.id === req.userId)
+  if (!user) {
+    throw new MockHttpError(401, 'Not authorized - Please login')
+  }
+  return user
+}
+
+/**
+ * School a request acts on: the X-School-Id header if the user belongs to that
+ * school, otherwise their default (first) school. Throws 403 for a school the
+ * user is not a member of.
+ */
+export function resolveSchoolId(userId: number | null, header: unknown): number | null {
+  const user = getDb().users.find((u) => u.id === userId)
+  if (!user) return null
+  if (header === undefined || header === null || header === '') {
+    return user.schoolIds[0] ?? null
+  }
+
+  const schoolId = Number(header)
+  if (!user.schoolIds.includes(schoolId)) {
+    throw new MockHttpError(403, 'You do not have access to this school')
+  }
+  return schoolId
+}
+
+/**
+ * The school the request acts on
+ */
+export function currentSchool(req: MockRequest): MockSchool {
+  const school = getDb().schools.find((s) => s.id === req.schoolId)
+  if (!school) {
+    throw new MockHttpError(403, 'No school selected for this account')
+  }
+  return school
+}
+
+/**
+ * Whether a user's role grants a permission in the server's own matrix (not
+ * the copy cached in the client)
+ */
+export function userHasPermission(user: MockUser, permission: Permission): boolean {
+  return resolveRolePermissions(user.role, getDb().permissionMatrix).includes(permission)
+}
+
+/**
+ * Throw 403 unless the current user's role grants the permission
+ */
+export function requirePermission(req: MockRequest, permission: Permission): MockUser {
+  const user = currentUser(req)
+  if (!userHasPermission(user, permission)) {
+    throw new MockHttpError(403, 'You do not have permission to perform this action')
+  }
+  return user
+}
+
+const rateLimitBuckets = new Map<string, number[]>()
+
+/**
+ * Sliding-window rate limit; throws 429 once `limit` hits land inside `windowMs`
+ */
+export function rateLimit(key: string, limit: number, windowMs: number, message: string): void {
+  const nowMs = Date.now()
+  const hits = (rateLimitBuckets.get(key) ?? []).filter((hit) => nowMs - hit < windowMs)
+
+  if (hits.length >= limit) {
+    const retryAfter = Math.ceil((windowMs - (nowMs - hits[0])) / 1000)
+    rateLimitBuckets.set(key, hits)
+    throw new MockHttpError(429, message.replace('{seconds}', String(retryAfter)))
+  }
+
+  hits.push(nowMs)
+  rateLimitBuckets.set(key, hits)
+}
+
+/**
+ * Forget the hits for a key (e.g. after a successful login)
+ */
+export function clearRateLimit(key: string): void {
+  rateLimitBuckets.delete(key)
+}
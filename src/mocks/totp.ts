@@ -0,0 +1,108 @@
+/**
+ * Mock TOTP
+ *
+ * RFC 6238 time-based one-time passwords (SHA-1, 6 digits, 30s steps) using
+ * Web Crypto, so any authenticator app can enrol against the mock backend.
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+const STEP_SECONDS = 30
+const DIGITS = 6
+
+function randomBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(length)
+  crypto.getRandomValues(bytes)
+  return bytes
+}
+
+function base32Encode(bytes: Uint8Array): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+  for (const byte of bytes) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  return output
+}
+
+function base32Decode(secret: string) {
+  const clean = secret.replace(/=+$/, '').toUpperCase()
+  const bytes: number[] = []
+  let bits = 0
+  let value = 0
+  for (const char of clean) {
+    value = (value << 5) | BASE32_ALPHABET.indexOf(char)
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+  return new Uint8Array(bytes)
+}
+
+/**
+ * New random 160-bit secret, base32 encoded
+ */
+export function createTotpSecret(): string {
+  return base32Encode(randomBytes(20))
+}
+
+/**
+ * Code for a secret at a given 30-second counter
+ */
+async function generateCode(secret: string, counter: number): Promise<string> {
+  const message = new DataView(new ArrayBuffer(8))
+  message.setUint32(0, Math.floor(counter / 2 ** 32))
+  message.setUint32(4, counter >>> 0)
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    base32Decode(secret),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  )
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message.buffer))
+  const offset = hmac[hmac.length - 1] & 15
+  const binary =
+    ((hmac[offset] & 127) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3]
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0')
+}
+
+/**
+ * Current code for a secret (used by the mock's own checks and demos)
+ */
+export function currentTotpCode(secret: string, at = Date.now()): Promise<string> {
+  return generateCode(secret, Math.floor(at / 1000 / STEP_SECONDS))
+}
+
+/**
+ * Whether a code matches the current step, allowing one step of clock drift either way
+ */
+export async function verifyTotpCode(secret: string, code: string): Promise<boolean> {
+  const counter = Math.floor(Date.now() / 1000 / STEP_SECONDS)
+  for (const drift of [0, -1, 1]) {
+    if ((await generateCode(secret, counter + drift)) === code) return true
+  }
+  return false
+}
+
+/**
+ * Ten single-use recovery codes in the form "abcd-efgh"
+ */
+export function createRecoveryCodes(): string[] {
+  return Array.from({ length: 10 }, () => {
+    const chars = base32Encode(randomBytes(5)).toLowerCase()
+    return `${chars.slice(0, 4)}-${chars.slice(4, 8)}`
+  })
+}
@@ -0,0 +1,66 @@
+import { motion } from 'framer-motion'
+import { useNavigate } from 'react-router-dom'
+import { Home, KeyRound, ShieldX } from 'lucide-react'
+import MainLayout from '@/layouts/MainLayout'
+import { Button } from '@/components/ui/button'
+import { useAuthStore } from '@/store/authStore'
+import { ROUTES } from '@/utils/constants'
+import { getPermissionDisplayName, getRoleDisplayName, Permission } from '@/utils/permissions'
+
+interface AccessDeniedPageProps {
+  /** Permissions the user lacks */
+  missing: Permission[]
+  /** 'any' when holding one of `missing` would have been enough */
+  mode?: 'all' | 'any'
+}
+
+/**
+ * 403 page shown in place of a route the signed-in user's role cannot open
+ */
+export default function AccessDeniedPage({ missing, mode = 'all' }: AccessDeniedPageProps) {
+  const navigate = useNavigate()
+  const role = useAuthStore((s) => s.user?.role)
+
+  return (
+    <MainLayout>
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="max-w-xl mx-auto mt-12 bg-slate-800/50 rounded-2xl p-8 shadow-enterprise-lg border border-slate-700/50 backdrop-blur-sm text-center"
+      >
+        <div className="inline-flex p-4 rounded-2xl bg-red-500/10 border border-red-500/30 mb-6">
+          <ShieldX className="w-12 h-12 text-red-400" />
+        </div>
+        <p className="text-sm font-semibold text-red-400 tracking-wider">403</p>
+        <h1 className="text-2xl font-bold text-white mt-1">Access denied</h1>
+        <p className="text-slate-400 mt-3">
+          Your role{role ? ` (${getRoleDisplayName(role)})` : ''} does not have{' '}
+          {missing.length > 1 && mode === 'any' ? 'any of the permissions' : 'the permission'}{' '}
+          needed for this page:
+        </p>
+
+        <ul className="mt-4 space-y-2 text-left inline-block">
+          {missing.map((permission) => (
+            <li key={permission} className="flex items-center gap-2 text-sm text-slate-200">
+              <KeyRound className="w-4 h-4 text-amber-400 flex-shrink-0" />
+              {getPermissionDisplayName(permission)}
+              <code className="text-xs text-slate-500">{permission}</code>
+            </li>
+          ))}
+        </ul>
+
+        <p className="text-sm text-slate-500 mt-6">
+          Ask an administrator to grant it if you need this page.
+        </p>
+
+        <Button
+          onClick={() => navigate(ROUTES.DASHBOARD)}
+          className="mt-6 h-11 px-6 rounded-xl bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 border-0"
+        >
+          <Home className="w-4 h-4 mr-2" />
+          Back to Dashboard
+        </Button>
+      </motion.div>
+    </MainLayout>
+  )
+}
@@ -519,6 +519,11 @@ export default function AttendancePage() {
                             <p className="text-xs text-slate-500 truncate">
                               {student.guardianEmail}
                             </p>
+                            {(student.guardians?.length ?? 0) > 1 && (
+                              <p className="text-xs text-slate-500">
+                                +{(student.guardians?.length ?? 1) - 1} more guardian(s)
+                              </p>
+                            )}
                           </div>
                         </div>
                       )}
@@ -643,6 +648,11 @@ export default function AttendancePage() {
                             >
                               {student.guardianEmail}
                             </p>
+                            {(student.guardians?.length ?? 0) > 1 && (
+                              <p className="text-xs text-slate-500">
+                                +{(student.guardians?.length ?? 1) - 1} more
+                              </p>
+                            )}
                           </div>
                         ) : (
                           <span className="text-slate-600 text-xs">No guardian</span>
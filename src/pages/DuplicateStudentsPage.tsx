@@ -0,0 +1,186 @@
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { motion } from 'framer-motion'
+import { useQuery } from '@tanstack/react-query'
+import { CheckCircle, GitMerge, History, Users } from 'lucide-react'
+import MainLayout from '@/layouts/MainLayout'
+import MergeStudentsModal from '@/components/modals/MergeStudentsModal'
+import StudentAvatar from '@/components/students/StudentAvatar'
+import { Button } from '@/components/ui/button'
+import { EmptyState } from '@/components/ui/empty-state'
+import { PageHeader } from '@/components/ui/page-header'
+import { CardSkeleton } from '@/components/ui/skeleton'
+import { formatDateTime } from '@/lib/utils'
+import { studentService } from '@/services/student.service'
+import { StudentDuplicatePair, StudentDuplicateSignal } from '@/types'
+import { ROUTES } from '@/utils/constants'
+
+const SIGNAL_LABELS: { [signal in StudentDuplicateSignal]: string } = {
+  name: 'Similar name',
+  birthdate: 'Same birthdate',
+  guardianEmail: 'Same guardian email',
+  contact: 'Shared phone number',
+}
+
+function scoreColor(score: number): string {
+  if (score >= 80) return 'bg-red-500/20 text-red-300 border-red-500/30'
+  if (score >= 65) return 'bg-orange-500/20 text-orange-300 border-orange-500/30'
+  return 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30'
+}
+
+/**
+ * Admin screen listing pairs of students that are probably the same person,
+ * with a merge tool and the log of past merges
+ */
+export default function DuplicateStudentsPage() {
+  const navigate = useNavigate()
+  const [reviewing, setReviewing] = useState<StudentDuplicatePair | null>(null)
+
+  const { data: pairs = [], isLoading } = useQuery({
+    queryKey: ['student-duplicates'],
+    queryFn: () => studentService.findDuplicates(),
+  })
+
+  const { data: merges = [] } = useQuery({
+    queryKey: ['student-merges'],
+    queryFn: studentService.getMerges,
+  })
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <PageHeader
+          title="Possible Duplicates"
+          description="Students that look like the same person under two records"
+          icon={GitMerge}
+          gradient="from-blue-600 via-indigo-600 to-purple-600"
+          stats={[
+            { label: 'Possible Duplicates', value: pairs.length, icon: Users, color: 'orange' },
+            {
+              label: 'Likely Matches',
+              value: pairs.filter((pair) => pair.score >= 80).length,
+              icon: GitMerge,
+              color: 'red',
+            },
+            { label: 'Merged', value: merges.length, icon: CheckCircle, color: 'green' },
+          ]}
+          actions={[
+            {
+              label: 'Back to Students',
+              onClick: () => navigate(ROUTES.STUDENTS),
+              icon: Users,
+              variant: 'secondary' as const,
+            },
+          ]}
+        />
+
+        {/* Pairs */}
+        {isLoading ? (
+          <div className="space-y-4">
+            <CardSkeleton />
+            <CardSkeleton />
+          </div>
+        ) : pairs.length === 0 ? (
+          <div className="bg-slate-800/50 rounded-2xl border border-slate-700/50">
+            <EmptyState
+              icon={CheckCircle}
+              title="No possible duplicates"
+              description="No two students share enough details to look like the same person"
+            />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {pairs.map((pair) => (
+              <motion.div
+                key={pair.students.map((s) => s.id).join('-')}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="bg-slate-800/50 rounded-2xl p-6 shadow-enterprise border border-slate-700/50 backdrop-blur-sm"
+              >
+                <div className="flex flex-col lg:flex-row lg:items-center gap-4">
+                  <span
+                    className={`inline-flex items-center justify-center w-14 h-14 rounded-xl border text-lg font-bold flex-shrink-0 ${scoreColor(pair.score)}`}
+                    title="Match score out of 100"
+                  >
+                    {pair.score}
+                  </span>
+                  <div className="grid md:grid-cols-2 gap-4 flex-1">
+                    {pair.students.map((student) => (
+                      <div key={student.id} className="flex items-center gap-3">
+                        <StudentAvatar student={student} />
+                        <div className="min-w-0">
+                          <p className="text-sm font-semibold text-slate-100 truncate">
+                            {student.firstName} {student.lastName}
+                          </p>
+                          <p className="text-xs text-slate-400 truncate">
+                            {student.studentNumber} · {student.email}
+                          </p>
+                          <p className="text-xs text-slate-500 capitalize">
+                            {student.status ?? 'active'}
+                            {student.section ? ` · ${student.section}` : ''}
+                          </p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  <Button
+                    type="button"
+                    onClick={() => setReviewing(pair)}
+                    className="h-10 rounded-xl bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 border-0"
+                  >
+                    <GitMerge className="w-4 h-4 mr-2" />
+                    Review & Merge
+                  </Button>
+                </div>
+                <div className="flex flex-wrap gap-2 mt-4">
+                  {pair.matches.map((match) => (
+                    <span
+                      key={match.signal}
+                      className="inline-flex px-3 py-1 bg-slate-700/50 text-slate-300 rounded-full text-xs font-medium border border-slate-600"
+                    >
+                      {SIGNAL_LABELS[match.signal]}
+                      {match.similarity < 1 && ` (${Math.round(match.similarity * 100)}%)`}
+                    </span>
+                  ))}
+                </div>
+              </motion.div>
+            ))}
+          </div>
+        )}
+
+        {/* Merge log */}
+        {merges.length > 0 && (
+          <div className="bg-slate-800/50 rounded-2xl p-6 shadow-enterprise border border-slate-700/50 backdrop-blur-sm">
+            <h2 className="flex items-center gap-2 text-lg font-semibold text-slate-100 mb-4">
+              <History className="w-5 h-5 text-slate-400" />
+              Recent Merges
+            </h2>
+            <ul className="divide-y divide-slate-700/50">
+              {merges.map((merge) => (
+                <li key={merge.id} className="py-3 text-sm">
+                  <p className="text-slate-200">
+                    {merge.source.firstName} {merge.source.lastName} ({merge.source.studentNumber})
+                    merged into student #{merge.targetId}
+                  </p>
+                  <p className="text-xs text-slate-400 mt-1">
+                    Moved {merge.moved.enrollments} enrollment(s), {merge.moved.attendance}{' '}
+                    attendance mark(s), {merge.moved.records} record(s) and {merge.moved.emails}{' '}
+                    email(s)
+                    {merge.mergedBy && ` · by ${merge.mergedBy.name}`} ·{' '}
+                    {formatDateTime(merge.createdAt)}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      <MergeStudentsModal
+        isOpen={reviewing !== null}
+        onClose={() => setReviewing(null)}
+        pair={reviewing}
+      />
+    </MainLayout>
+  )
+}
@@ -14,33 +14,11 @@ import {
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { PageHeader } from '@/components/ui/page-header'
-import api from '@/services/api'
+import { getEmailHistory, EmailHistoryRecord } from '@/services/email.service'
+import { getErrorMessage, getErrorStatus } from '@/utils/errorHandling'
 import { useToast } from '@/store/toastStore'
 import MainLayout from '@/layouts/MainLayout'
 
-interface EmailRecord {
-  _id: string
-  recordData: string
-  performedBy: {
-    name: string
-    email: string
-  }
-  student?: {
-    studentNumber: string
-    firstName: string
-    lastName: string
-  }
-  createdAt: string
-  metadata?: {
-    recipient?: string
-    recipients?: string[]
-    subject?: string
-    messageId?: string
-    sentCount?: number
-    totalRecipients?: number
-  }
-}
-
 interface Pagination {
   page: number
   limit: number
@@ -49,7 +27,7 @@ interface Pagination {
 }
 
 export default function EmailHistoryPage() {
-  const [emails, setEmails] = useState<EmailRecord[]>([])
+  const [emails, setEmails] = useState<EmailHistoryRecord[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [pagination, setPagination] = useState<Pagination>({
     page: 1,
@@ -68,17 +46,13 @@ export default function EmailHistoryPage() {
       try {
         console.log('[EmailHistory] Fetching email history, page:', page)
 
-        const response = await api.get('/emails/history', {
-          params: {
-            page,
-            limit: 20,
-            search: searchTerm || undefined,
-          },
-        })
-
-        // Response structure: { success, data: records[], pagination: {...} }
-        const emailData = response.data?.data || []
-        const paginationData = response.data?.pagination
+        const { emails: emailData, ...paginationData } = await getEmailHistory(
+          page,
+          20,
+          undefined,
+          undefined,
+          searchTerm
+        )
 
         console.log(
           '[EmailHistory] Loaded emails:',
@@ -87,21 +61,14 @@ export default function EmailHistoryPage() {
           paginationData
         )
         setEmails(emailData)
-        setPagination(
-          paginationData || {
-            page,
-            limit: 20,
-            total: emailData.length,
-            totalPages: 1,
-          }
-        )
-      } catch (error: any) {
+        setPagination(paginationData)
+      } catch (error) {
         console.error('[EmailHistory] Failed to fetch email history:', error)
 
-        if (error.response?.status === 404) {
+        if (getErrorStatus(error) === 404) {
           toast.error('Email history endpoint not available')
         } else {
-          toast.error(error.response?.data?.message || 'Failed to load email history')
+          toast.error(getErrorMessage(error, 'Failed to load email history'))
         }
       } finally {
         setIsLoading(false)
@@ -140,7 +107,7 @@ export default function EmailHistoryPage() {
     return true
   })
 
-  const getRecipientDisplay = (email: EmailRecord) => {
+  const getRecipientDisplay = (email: EmailHistoryRecord) => {
     const isBulk = email.metadata?.totalRecipients && email.metadata.totalRecipients > 1
 
     if (isBulk) {
@@ -283,11 +250,11 @@ export default function EmailHistoryPage() {
                 <tbody className="bg-slate-900/50 divide-y divide-slate-700/30">
                   {filteredEmails.map((email, index) => {
                     const recipientInfo = getRecipientDisplay(email)
-                    const isExpanded = expandedEmailId === email._id
+                    const isExpanded = expandedEmailId === email.id
 
                     return (
                       <motion.tr
-                        key={email._id}
+                        key={email.id}
                         initial={{ opacity: 0, x: -20 }}
                         animate={{ opacity: 1, x: 0 }}
                         transition={{ delay: index * 0.05 }}
@@ -303,7 +270,7 @@ export default function EmailHistoryPage() {
                           {recipientInfo.isBulk ? (
                             <div className="relative">
                               <button
-                                onClick={() => toggleExpanded(email._id)}
+                                onClick={() => toggleExpanded(email.id)}
                                 className="flex items-center gap-2 text-sm text-slate-200 font-medium hover:text-purple-400 transition-colors cursor-pointer"
                               >
                                 <Users className="w-4 h-4 text-purple-400" />
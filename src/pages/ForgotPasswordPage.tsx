@@ -0,0 +1,136 @@
+import { useState, FormEvent } from 'react'
+import { Link } from 'react-router-dom'
+import { motion } from 'framer-motion'
+import { useMutation } from '@tanstack/react-query'
+import { ArrowLeft, Mail, MailCheck } from 'lucide-react'
+import AuthLayout from '@/layouts/AuthLayout'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { authService } from '@/services/auth.service'
+import { useToast } from '@/store/toastStore'
+import { isMockApiEnabled } from '@/mocks/config'
+import { ROUTES } from '@/utils/constants'
+import { getErrorMessage } from '@/utils/errorHandling'
+import { validators } from '@/utils/validation-rules'
+
+/**
+ * Request a password reset link by email
+ */
+export default function ForgotPasswordPage() {
+  const { addToast } = useToast()
+  const [email, setEmail] = useState('')
+  const [error, setError] = useState<string>()
+  const [sentTo, setSentTo] = useState<string | null>(null)
+
+  const requestMutation = useMutation({
+    mutationFn: (value: string) => authService.requestPasswordReset(value),
+    onSuccess: (_, value) => setSentTo(value),
+    onError: (err) => addToast(getErrorMessage(err), 'error'),
+  })
+
+  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    const result = validators.email(email)
+    if (!result.isValid) {
+      setError(result.error)
+      return
+    }
+    setError(undefined)
+    requestMutation.mutate(email.trim())
+  }
+
+  const backToLogin = (
+    <Link
+      to={ROUTES.LOGIN}
+      className="mt-8 flex items-center justify-center gap-2 text-sm text-blue-400 font-semibold hover:text-blue-300 hover:underline transition-colors"
+    >
+      <ArrowLeft className="w-4 h-4" />
+      Back to sign in
+    </Link>
+  )
+
+  if (sentTo) {
+    return (
+      <AuthLayout title="Check your email">
+        <div className="text-center space-y-4">
+          <div className="mx-auto w-14 h-14 rounded-2xl bg-emerald-500/15 border border-emerald-500/30 flex items-center justify-center">
+            <MailCheck className="w-7 h-7 text-emerald-400" />
+          </div>
+          <p className="text-slate-300">
+            If an account exists for <span className="font-semibold text-white">{sentTo}</span>, we
+            sent a link to reset its password. The link expires in one hour.
+          </p>
+          {isMockApiEnabled() && (
+            <p className="text-xs text-amber-300 p-3 rounded-xl bg-amber-500/10 border border-amber-500/20">
+              Demo data - no email is sent. The reset link is printed to the browser console.
+            </p>
+          )}
+          <button
+            type="button"
+            onClick={() => requestMutation.mutate(sentTo)}
+            disabled={requestMutation.isPending}
+            className="text-sm text-slate-400 hover:text-slate-200 hover:underline disabled:opacity-50"
+          >
+            {requestMutation.isPending ? 'Sending...' : "Didn't get it? Send again"}
+          </button>
+        </div>
+        {backToLogin}
+      </AuthLayout>
+    )
+  }
+
+  return (
+    <AuthLayout
+      title="Forgot your password?"
+      subtitle="Enter your account email and we'll send you a link to choose a new one"
+    >
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div>
+          <Label htmlFor="email" className="text-slate-300 font-medium flex items-center gap-2">
+            <Mail className="w-4 h-4 text-blue-400" />
+            Email Address
+          </Label>
+          <div className="mt-2 relative">
+            <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-500 z-10" />
+            <Input
+              id="email"
+              type="email"
+              placeholder="professor@university.edu"
+              className={`relative pl-10 h-12 rounded-xl border-2 bg-slate-900/50 text-slate-100 placeholder:text-slate-500 transition-all ${
+                error
+                  ? 'border-red-500 focus:border-red-600'
+                  : 'border-slate-700 focus:border-blue-500 hover:border-slate-600'
+              }`}
+              value={email}
+              onChange={(e) => {
+                setEmail(e.target.value)
+                if (error) setError(undefined)
+              }}
+              disabled={requestMutation.isPending}
+              autoFocus
+            />
+          </div>
+          {error && (
+            <motion.p
+              initial={{ opacity: 0, y: -10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="text-sm text-red-400 mt-2 flex items-center gap-1"
+            >
+              <span className="text-red-500">⚠</span> {error}
+            </motion.p>
+          )}
+        </div>
+
+        <Button
+          type="submit"
+          className="w-full h-12 text-base font-semibold rounded-xl bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg border-0"
+          disabled={requestMutation.isPending}
+        >
+          {requestMutation.isPending ? 'Sending link...' : 'Send reset link'}
+        </Button>
+      </form>
+      {backToLogin}
+    </AuthLayout>
+  )
+}
@@ -0,0 +1,361 @@
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { motion } from 'framer-motion'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import {
+  AlertTriangle,
+  BookOpen,
+  RotateCcw,
+  Save,
+  Search,
+  UserCheck,
+  UserMinus,
+  UserPlus,
+  UserX,
+} from 'lucide-react'
+import MainLayout from '@/layouts/MainLayout'
+import InstructorPicker from '@/components/subjects/InstructorPicker'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { EmptyState } from '@/components/ui/empty-state'
+import { Input } from '@/components/ui/input'
+import { PageHeader } from '@/components/ui/page-header'
+import { TableSkeleton } from '@/components/ui/skeleton'
+import { subjectService } from '@/services/subject.service'
+import { useToast } from '@/store/toastStore'
+import { EntityId, Subject, isApiError } from '@/types'
+import { ROUTES } from '@/utils/constants'
+import { getErrorMessage } from '@/utils/errorHandling'
+
+function sameIds(a: EntityId[], b: EntityId[]): boolean {
+  return a.length === b.length && a.every((id) => b.some((other) => String(other) === String(id)))
+}
+
+/**
+ * Registrar screen for linking subjects to instructor accounts in bulk: edit
+ * rows one by one or add/remove an instructor across a selection, then save
+ * every change in one request.
+ */
+export default function InstructorAssignmentPage() {
+  const navigate = useNavigate()
+  const { addToast } = useToast()
+  const queryClient = useQueryClient()
+  const [searchTerm, setSearchTerm] = useState('')
+  // Unsaved instructor lists keyed by subject id
+  const [changes, setChanges] = useState<{ [subjectId: string]: EntityId[] }>({})
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [bulkInstructorId, setBulkInstructorId] = useState('')
+  const [serverErrors, setServerErrors] = useState<string[]>([])
+
+  const { data: subjects = [], isLoading } = useQuery({
+    queryKey: ['subjects'],
+    queryFn: subjectService.getAll,
+  })
+
+  const { data: instructors = [] } = useQuery({
+    queryKey: ['subjects', 'instructors'],
+    queryFn: subjectService.getInstructors,
+  })
+
+  const assignedIds = (subject: Subject) =>
+    changes[String(subject.id)] ?? subject.instructorIds ?? []
+
+  const changedSubjects = subjects.filter(
+    (subject) =>
+      changes[String(subject.id)] !== undefined &&
+      !sameIds(changes[String(subject.id)], subject.instructorIds ?? [])
+  )
+
+  const term = searchTerm.trim().toLowerCase()
+  const visibleSubjects = subjects.filter(
+    (subject) =>
+      !term ||
+      subject.subjectCode.toLowerCase().includes(term) ||
+      subject.subjectName.toLowerCase().includes(term) ||
+      subject.section.toLowerCase().includes(term)
+  )
+  const allVisibleSelected =
+    visibleSubjects.length > 0 && visibleSubjects.every((s) => selected.has(String(s.id)))
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      subjectService.assignInstructors(
+        changedSubjects.map((subject) => ({
+          subjectId: subject.id,
+          instructorIds: assignedIds(subject),
+        }))
+      ),
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ['subjects'] })
+      setChanges({})
+      setSelected(new Set())
+      setServerErrors([])
+      addToast(`Instructors updated for ${updated.length} subject(s)`, 'success')
+    },
+    onError: (error) => {
+      setServerErrors(isApiError(error) && error.errors ? Object.values(error.errors).flat() : [])
+      addToast(getErrorMessage(error), 'error')
+    },
+  })
+
+  const setAssigned = (subject: Subject, instructorIds: EntityId[]) => {
+    setChanges((prev) => ({ ...prev, [String(subject.id)]: instructorIds }))
+  }
+
+  const applyToSelection = (action: 'add' | 'remove') => {
+    // Option values are strings; use the instructor's own id
+    const instructorId = instructors.find((i) => String(i.id) === bulkInstructorId)?.id
+    if (instructorId === undefined) return
+    subjects
+      .filter((subject) => selected.has(String(subject.id)))
+      .forEach((subject) => {
+        const current = assignedIds(subject)
+        setAssigned(
+          subject,
+          action === 'add'
+            ? [...current.filter((id) => String(id) !== String(instructorId)), instructorId]
+            : current.filter((id) => String(id) !== String(instructorId))
+        )
+      })
+  }
+
+  const toggleSelected = (subjectId: string, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (checked) next.add(subjectId)
+      else next.delete(subjectId)
+      return next
+    })
+  }
+
+  const toggleAllVisible = (checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      visibleSubjects.forEach((s) => (checked ? next.add(String(s.id)) : next.delete(String(s.id))))
+      return next
+    })
+  }
+
+  const isDirty = changedSubjects.length > 0
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <PageHeader
+          title="Instructor Assignments"
+          description="Link subjects to the instructor accounts that teach them"
+          icon={UserCheck}
+          gradient="from-purple-600 via-violet-600 to-indigo-600"
+          stats={[
+            { label: 'Subjects', value: subjects.length, icon: BookOpen, color: 'purple' },
+            {
+              label: 'Unassigned',
+              value: subjects.filter((s) => assignedIds(s).length === 0).length,
+              icon: UserX,
+              color: 'red',
+            },
+            { label: 'Instructors', value: instructors.length, icon: UserCheck, color: 'green' },
+          ]}
+          actions={[
+            {
+              label: 'Back to Subjects',
+              onClick: () => navigate(ROUTES.SUBJECTS),
+              icon: BookOpen,
+              variant: 'secondary' as const,
+            },
+          ]}
+        />
+
+        {/* Search and bulk actions */}
+        <div className="bg-slate-800/50 rounded-2xl p-6 shadow-enterprise border border-slate-700/50 backdrop-blur-sm space-y-4">
+          <div className="relative">
+            <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+            <Input
+              type="text"
+              placeholder="Search by subject code, name, or section..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-12 h-12 border-slate-600 bg-slate-900/50 text-slate-100 placeholder:text-slate-500 focus:border-purple-500 focus:ring-purple-500/20"
+            />
+          </div>
+          <div className="flex flex-col md:flex-row md:items-center gap-3">
+            <span className="text-sm text-slate-400">
+              {selected.size} subject{selected.size !== 1 ? 's' : ''} selected
+            </span>
+            <select
+              value={bulkInstructorId}
+              onChange={(e) => setBulkInstructorId(e.target.value)}
+              aria-label="Instructor for selected subjects"
+              className="h-10 md:ml-auto rounded-md border border-slate-600 bg-slate-900/50 px-3 text-sm text-slate-100 focus:border-purple-500 focus:outline-none"
+            >
+              <option value="">Choose an instructor</option>
+              {instructors.map((instructor) => (
+                <option key={instructor.id} value={instructor.id}>
+                  {instructor.name}
+                </option>
+              ))}
+            </select>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => applyToSelection('add')}
+              disabled={!bulkInstructorId || selected.size === 0 || saveMutation.isPending}
+              className="h-10 rounded-xl bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+            >
+              <UserPlus className="w-4 h-4 mr-2" />
+              Add to Selected
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => applyToSelection('remove')}
+              disabled={!bulkInstructorId || selected.size === 0 || saveMutation.isPending}
+              className="h-10 rounded-xl bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+            >
+              <UserMinus className="w-4 h-4 mr-2" />
+              Remove from Selected
+            </Button>
+          </div>
+        </div>
+
+        {serverErrors.length > 0 && (
+          <div className="flex items-start gap-3 p-4 rounded-xl bg-red-500/10 border border-red-500/30">
+            <AlertTriangle className="w-5 h-5 text-red-400 flex-shrink-0 mt-0.5" />
+            <ul className="text-sm text-red-200 space-y-1">
+              {serverErrors.map((message) => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Assignments */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-slate-800/50 rounded-2xl shadow-enterprise-lg border border-slate-700/50 backdrop-blur-sm overflow-hidden"
+        >
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gradient-to-r from-purple-600 to-violet-600">
+                <tr>
+                  <th className="p-5 w-12">
+                    <Checkbox
+                      checked={allVisibleSelected}
+                      onCheckedChange={(checked) => toggleAllVisible(checked === true)}
+                      aria-label="Select all subjects"
+                    />
+                  </th>
+                  <th className="text-left p-5 font-semibold text-white text-sm tracking-wide">
+                    Subject
+                  </th>
+                  <th className="text-left p-5 font-semibold text-white text-sm tracking-wide">
+                    Section
+                  </th>
+                  <th className="text-left p-5 font-semibold text-white text-sm tracking-wide">
+                    Instructors
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-slate-900/50">
+                {isLoading ? (
+                  <TableSkeleton rows={5} columns={4} />
+                ) : visibleSubjects.length === 0 ? (
+                  <tr>
+                    <td colSpan={4} className="p-0">
+                      <EmptyState
+                        icon={BookOpen}
+                        title={term ? 'No subjects found' : 'No subjects yet'}
+                        description={
+                          term
+                            ? 'Try a different code, name, or section'
+                            : 'Subjects appear here once they are added'
+                        }
+                      />
+                    </td>
+                  </tr>
+                ) : (
+                  visibleSubjects.map((subject) => {
+                    const subjectId = String(subject.id)
+                    const isChanged = changedSubjects.includes(subject)
+                    return (
+                      <tr
+                        key={subjectId}
+                        className="border-b border-slate-700/30 hover:bg-slate-800/60 transition-colors"
+                      >
+                        <td className="p-5 align-top">
+                          <Checkbox
+                            checked={selected.has(subjectId)}
+                            onCheckedChange={(checked) =>
+                              toggleSelected(subjectId, checked === true)
+                            }
+                            aria-label={`Select ${subject.subjectCode}`}
+                          />
+                        </td>
+                        <td className="p-5 align-top">
+                          <p className="font-semibold text-purple-400 text-sm">
+                            {subject.subjectCode}
+                            {isChanged && (
+                              <span className="ml-2 text-xs font-normal text-amber-300">
+                                (unsaved)
+                              </span>
+                            )}
+                          </p>
+                          <p className="text-slate-300 text-sm">{subject.subjectName}</p>
+                        </td>
+                        <td className="p-5 align-top">
+                          <span className="inline-flex px-3 py-1 bg-purple-500/20 text-purple-300 rounded-full text-xs font-medium border border-purple-500/30">
+                            {subject.section}
+                          </span>
+                        </td>
+                        <td className="p-5">
+                          <InstructorPicker
+                            instructors={instructors}
+                            value={assignedIds(subject)}
+                            onChange={(ids) => setAssigned(subject, ids)}
+                            disabled={saveMutation.isPending}
+                          />
+                        </td>
+                      </tr>
+                    )
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        </motion.div>
+
+        {/* Actions */}
+        <div className="flex items-center justify-end gap-3">
+          {isDirty && (
+            <span className="text-sm text-amber-300 mr-auto">
+              {changedSubjects.length} unsaved change{changedSubjects.length !== 1 ? 's' : ''}
+            </span>
+          )}
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => {
+              setChanges({})
+              setServerErrors([])
+            }}
+            disabled={!isDirty || saveMutation.isPending}
+            className="h-11 rounded-xl bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+          >
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Discard
+          </Button>
+          <Button
+            type="button"
+            onClick={() => saveMutation.mutate()}
+            disabled={!isDirty || saveMutation.isPending}
+            className="h-11 px-6 rounded-xl bg-gradient-to-r from-purple-600 to-violet-600 hover:from-purple-700 hover:to-violet-700 border-0"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {saveMutation.isPending ? 'Saving...' : 'Save Assignments'}
+          </Button>
+        </div>
+      </div>
+    </MainLayout>
+  )
+}
@@ -10,8 +10,15 @@ import { authService } from '@/services/auth.service'
 import { useAuthStore } from '@/store/authStore'
 import { useToast } from '@/store/toastStore'
 import { ROUTES, APP_NAME, TOAST_MESSAGES } from '@/utils/constants'
-import { AuthResponse } from '@/types'
+import { AuthResponse, LoginResult, TwoFactorChallenge, isTwoFactorChallenge } from '@/types'
+import TwoFactorLoginStep from '@/components/auth/TwoFactorLoginStep'
 import { validators } from '@/utils/validation-rules'
+import {
+  isMockApiEnabled,
+  setMockApiEnabled,
+  MOCK_DEMO_ACCOUNTS,
+  MOCK_PASSWORD,
+} from '@/mocks/config'
 
 export default function LoginPage() {
   const navigate = useNavigate()
@@ -24,22 +31,31 @@ export default function LoginPage() {
   })
   const [errors, setErrors] = useState<{ email?: string; password?: string }>({})
   const [showPassword, setShowPassword] = useState(false)
+  // Set when the account has 2FA: the password was accepted, a code is still needed
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null)
+  const isMockApi = isMockApiEnabled()
+
+  const completeLogin = (data: AuthResponse) => {
+    const token = data.accessToken || data.token
+    if (!token) {
+      console.error('[Login] No token in response!')
+      addToast('Login failed: No authentication token received', 'error')
+      return
+    }
+    setAuth(data.user, token)
+    addToast('Login successful! Redirecting to dashboard...', 'success')
+    setTimeout(() => navigate(ROUTES.DASHBOARD), 500)
+  }
 
   const loginMutation = useMutation({
     mutationFn: authService.login,
-    onSuccess: (data: AuthResponse) => {
-      console.log('[Login] Login success, full data:', data)
-      const token = data.accessToken || data.token
-      console.log('[Login] Extracted token:', token ? token.substring(0, 30) + '...' : 'NO TOKEN!')
-      if (!token) {
-        console.error('[Login] No token in response!')
-        addToast('Login failed: No authentication token received', 'error')
+    onSuccess: (data: LoginResult) => {
+      if (isTwoFactorChallenge(data)) {
+        setChallenge(data)
         return
       }
-      setAuth(data.user, token)
-      addToast('Login successful! Redirecting to dashboard...', 'success')
-      console.log('Toast added, navigating to dashboard')
-      setTimeout(() => navigate(ROUTES.DASHBOARD), 500)
+      console.log('[Login] Login success, full data:', data)
+      completeLogin(data)
     },
     onError: (error: unknown) => {
       console.error('Login error:', error)
@@ -412,7 +428,7 @@ export default function LoginPage() {
                 transition={{ delay: 0.4 }}
                 className="text-3xl font-bold text-white mb-2"
               >
-                Welcome Back
+                {challenge ? 'Two-Factor Verification' : 'Welcome Back'}
               </motion.h2>
               <motion.p
                 initial={{ opacity: 0 }}
@@ -420,152 +436,173 @@ export default function LoginPage() {
                 transition={{ delay: 0.5 }}
                 className="text-slate-400"
               >
-                Sign in to access your academic portal
+                {challenge
+                  ? 'One more step to confirm it is you'
+                  : 'Sign in to access your academic portal'}
               </motion.p>
             </div>
 
             {/* Form */}
-            <form onSubmit={handleSubmit} className="space-y-6 relative">
-              <motion.div
-                initial={{ opacity: 0, x: -20 }}
-                animate={{ opacity: 1, x: 0 }}
-                transition={{ delay: 0.6 }}
-              >
-                <Label
-                  htmlFor="email"
-                  className="text-slate-300 font-medium flex items-center gap-2"
+            {challenge ? (
+              <TwoFactorLoginStep
+                challenge={challenge}
+                onVerified={completeLogin}
+                onCancel={() => {
+                  setChallenge(null)
+                  setFormData((prev) => ({ ...prev, password: '' }))
+                }}
+              />
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-6 relative">
+                <motion.div
+                  initial={{ opacity: 0, x: -20 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  transition={{ delay: 0.6 }}
                 >
-                  <Mail className="w-4 h-4 text-blue-400" />
-                  Email Address
-                </Label>
-                <div className="mt-2 relative group">
-                  <div className="absolute inset-0 bg-gradient-to-r from-blue-500/20 to-indigo-500/20 rounded-xl blur opacity-0 group-hover:opacity-100 transition-opacity" />
-                  <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-500 z-10" />
-                  <Input
-                    id="email"
-                    type="email"
-                    placeholder="professor@university.edu"
-                    className={`relative pl-10 h-12 rounded-xl border-2 bg-slate-900/50 text-slate-100 placeholder:text-slate-500 transition-all ${
-                      errors.email
-                        ? 'border-red-500 focus:border-red-600'
-                        : 'border-slate-700 focus:border-blue-500 hover:border-slate-600'
-                    }`}
-                    value={formData.email}
-                    onChange={(e) => {
-                      setFormData({ ...formData, email: e.target.value })
-                      if (errors.email) setErrors({ ...errors, email: undefined })
-                    }}
-                    disabled={loginMutation.isPending}
-                  />
-                </div>
-                {errors.email && (
-                  <motion.p
-                    initial={{ opacity: 0, y: -10 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    className="text-sm text-red-400 mt-2 flex items-center gap-1"
+                  <Label
+                    htmlFor="email"
+                    className="text-slate-300 font-medium flex items-center gap-2"
                   >
-                    <span className="text-red-500">⚠</span> {errors.email}
-                  </motion.p>
-                )}
-              </motion.div>
+                    <Mail className="w-4 h-4 text-blue-400" />
+                    Email Address
+                  </Label>
+                  <div className="mt-2 relative group">
+                    <div className="absolute inset-0 bg-gradient-to-r from-blue-500/20 to-indigo-500/20 rounded-xl blur opacity-0 group-hover:opacity-100 transition-opacity" />
+                    <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-500 z-10" />
+                    <Input
+                      id="email"
+                      type="email"
+                      placeholder="professor@university.edu"
+                      className={`relative pl-10 h-12 rounded-xl border-2 bg-slate-900/50 text-slate-100 placeholder:text-slate-500 transition-all ${
+                        errors.email
+                          ? 'border-red-500 focus:border-red-600'
+                          : 'border-slate-700 focus:border-blue-500 hover:border-slate-600'
+                      }`}
+                      value={formData.email}
+                      onChange={(e) => {
+                        setFormData({ ...formData, email: e.target.value })
+                        if (errors.email) setErrors({ ...errors, email: undefined })
+                      }}
+                      disabled={loginMutation.isPending}
+                    />
+                  </div>
+                  {errors.email && (
+                    <motion.p
+                      initial={{ opacity: 0, y: -10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      className="text-sm text-red-400 mt-2 flex items-center gap-1"
+                    >
+                      <span className="text-red-500">⚠</span> {errors.email}
+                    </motion.p>
+                  )}
+                </motion.div>
 
-              <motion.div
-                initial={{ opacity: 0, x: -20 }}
-                animate={{ opacity: 1, x: 0 }}
-                transition={{ delay: 0.7 }}
-              >
-                <Label
-                  htmlFor="password"
-                  className="text-slate-300 font-medium flex items-center gap-2"
+                <motion.div
+                  initial={{ opacity: 0, x: -20 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  transition={{ delay: 0.7 }}
                 >
-                  <Lock className="w-4 h-4 text-indigo-400" />
-                  Password
-                </Label>
-                <div className="mt-2 relative group">
-                  <div className="absolute inset-0 bg-gradient-to-r from-blue-500/20 to-indigo-500/20 rounded-xl blur opacity-0 group-hover:opacity-100 transition-opacity" />
-                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-500 z-10" />
-                  <Input
-                    id="password"
-                    type={showPassword ? 'text' : 'password'}
-                    placeholder="Enter your password"
-                    className={`relative pl-10 pr-12 h-12 rounded-xl border-2 bg-slate-900/50 text-slate-100 placeholder:text-slate-500 transition-all ${
-                      errors.password
-                        ? 'border-red-500 focus:border-red-600'
-                        : 'border-slate-700 focus:border-blue-500 hover:border-slate-600'
-                    }`}
-                    value={formData.password}
-                    onChange={(e) => {
-                      setFormData({ ...formData, password: e.target.value })
-                      if (errors.password) setErrors({ ...errors, password: undefined })
-                    }}
-                    disabled={loginMutation.isPending}
-                  />
-                  <button
-                    type="button"
-                    onClick={() => setShowPassword((s) => !s)}
-                    className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-200 z-10 transition-colors"
-                    aria-label={showPassword ? 'Hide password' : 'Show password'}
-                    disabled={loginMutation.isPending}
-                  >
-                    {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
-                  </button>
-                </div>
-                {errors.password && (
-                  <motion.p
-                    initial={{ opacity: 0, y: -10 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    className="text-sm text-red-400 mt-2 flex items-center gap-1"
-                  >
-                    <span className="text-red-500">⚠</span> {errors.password}
-                  </motion.p>
-                )}
-              </motion.div>
+                  <div className="flex items-center justify-between">
+                    <Label
+                      htmlFor="password"
+                      className="text-slate-300 font-medium flex items-center gap-2"
+                    >
+                      <Lock className="w-4 h-4 text-indigo-400" />
+                      Password
+                    </Label>
+                    <Link
+                      to={ROUTES.FORGOT_PASSWORD}
+                      className="text-sm text-blue-400 hover:text-blue-300 hover:underline transition-colors"
+                    >
+                      Forgot password?
+                    </Link>
+                  </div>
+                  <div className="mt-2 relative group">
+                    <div className="absolute inset-0 bg-gradient-to-r from-blue-500/20 to-indigo-500/20 rounded-xl blur opacity-0 group-hover:opacity-100 transition-opacity" />
+                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-500 z-10" />
+                    <Input
+                      id="password"
+                      type={showPassword ? 'text' : 'password'}
+                      placeholder="Enter your password"
+                      className={`relative pl-10 pr-12 h-12 rounded-xl border-2 bg-slate-900/50 text-slate-100 placeholder:text-slate-500 transition-all ${
+                        errors.password
+                          ? 'border-red-500 focus:border-red-600'
+                          : 'border-slate-700 focus:border-blue-500 hover:border-slate-600'
+                      }`}
+                      value={formData.password}
+                      onChange={(e) => {
+                        setFormData({ ...formData, password: e.target.value })
+                        if (errors.password) setErrors({ ...errors, password: undefined })
+                      }}
+                      disabled={loginMutation.isPending}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowPassword((s) => !s)}
+                      className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-200 z-10 transition-colors"
+                      aria-label={showPassword ? 'Hide password' : 'Show password'}
+                      disabled={loginMutation.isPending}
+                    >
+                      {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                    </button>
+                  </div>
+                  {errors.password && (
+                    <motion.p
+                      initial={{ opacity: 0, y: -10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      className="text-sm text-red-400 mt-2 flex items-center gap-1"
+                    >
+                      <span className="text-red-500">⚠</span> {errors.password}
+                    </motion.p>
+                  )}
+                </motion.div>
 
-              <motion.div
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: 0.8 }}
-              >
-                <Button
-                  type="submit"
-                  className="w-full h-12 text-base font-semibold rounded-xl bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg hover:shadow-xl hover:scale-[1.02] transition-all duration-300 border-0 relative overflow-hidden group"
-                  disabled={loginMutation.isPending}
+                <motion.div
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.8 }}
                 >
-                  <motion.div
-                    className="absolute inset-0 bg-gradient-to-r from-blue-400 to-indigo-400 opacity-0 group-hover:opacity-20 transition-opacity"
-                    animate={{
-                      x: ['-100%', '100%'],
-                    }}
-                    transition={{
-                      duration: 1.5,
-                      repeat: Infinity,
-                      ease: 'linear',
-                    }}
-                  />
-                  {loginMutation.isPending ? (
-                    <>
-                      <motion.div
-                        animate={{ rotate: 360 }}
-                        transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
-                        className="w-5 h-5 border-2 border-white border-t-transparent rounded-full mr-2"
-                      />
-                      Signing in...
-                    </>
-                  ) : (
-                    <>
-                      Sign In
-                      <motion.span
-                        animate={{ x: [0, 4, 0] }}
-                        transition={{ duration: 1.5, repeat: Infinity }}
-                        className="ml-2 inline-block"
-                      >
-                        →
-                      </motion.span>
-                    </>
-                  )}
-                </Button>
-              </motion.div>
-            </form>
+                  <Button
+                    type="submit"
+                    className="w-full h-12 text-base font-semibold rounded-xl bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg hover:shadow-xl hover:scale-[1.02] transition-all duration-300 border-0 relative overflow-hidden group"
+                    disabled={loginMutation.isPending}
+                  >
+                    <motion.div
+                      className="absolute inset-0 bg-gradient-to-r from-blue-400 to-indigo-400 opacity-0 group-hover:opacity-20 transition-opacity"
+                      animate={{
+                        x: ['-100%', '100%'],
+                      }}
+                      transition={{
+                        duration: 1.5,
+                        repeat: Infinity,
+                        ease: 'linear',
+                      }}
+                    />
+                    {loginMutation.isPending ? (
+                      <>
+                        <motion.div
+                          animate={{ rotate: 360 }}
+                          transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
+                          className="w-5 h-5 border-2 border-white border-t-transparent rounded-full mr-2"
+                        />
+                        Signing in...
+                      </>
+                    ) : (
+                      <>
+                        Sign In
+                        <motion.span
+                          animate={{ x: [0, 4, 0] }}
+                          transition={{ duration: 1.5, repeat: Infinity }}
+                          className="ml-2 inline-block"
+                        >
+                          →
+                        </motion.span>
+                      </>
+                    )}
+                  </Button>
+                </motion.div>
+              </form>
+            )}
 
             {/* Footer */}
             <motion.div
@@ -583,6 +620,48 @@ export default function LoginPage() {
                   Create one now
                 </Link>
               </p>
+
+              {/* Mock backend: demo sign-ins and switch (switch is dev-only) */}
+              {isMockApi ? (
+                <div className="mt-6 p-4 rounded-xl bg-amber-500/10 border border-amber-500/20 text-left">
+                  <p className="text-xs font-semibold text-amber-300 mb-2">
+                    Demo data - password {MOCK_PASSWORD}
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {MOCK_DEMO_ACCOUNTS.map((account) => (
+                      <button
+                        key={account.email}
+                        type="button"
+                        onClick={() =>
+                          setFormData({ email: account.email, password: MOCK_PASSWORD })
+                        }
+                        className="px-3 py-1 rounded-lg bg-slate-800 border border-slate-700 text-xs text-slate-300 hover:bg-slate-700 transition-colors"
+                      >
+                        {account.role}
+                      </button>
+                    ))}
+                  </div>
+                  {import.meta.env.DEV && (
+                    <button
+                      type="button"
+                      onClick={() => setMockApiEnabled(false)}
+                      className="mt-3 text-xs text-slate-400 hover:text-slate-300 hover:underline"
+                    >
+                      Use live backend
+                    </button>
+                  )}
+                </div>
+              ) : (
+                import.meta.env.DEV && (
+                  <button
+                    type="button"
+                    onClick={() => setMockApiEnabled(true)}
+                    className="mt-4 text-xs text-slate-500 hover:text-slate-300 hover:underline"
+                  >
+                    Use demo data
+                  </button>
+                )
+              )}
             </motion.div>
           </div>
 
@@ -0,0 +1,291 @@
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { motion } from 'framer-motion'
+import { useQuery } from '@tanstack/react-query'
+import {
+  AlertTriangle,
+  Ban,
+  ChevronDown,
+  ChevronRight,
+  CreditCard,
+  History,
+  Nfc,
+  Plus,
+  RefreshCw,
+  Search,
+  Undo2,
+  Users,
+} from 'lucide-react'
+import MainLayout from '@/layouts/MainLayout'
+import NfcCardActionModal, { NfcCardModalAction } from '@/components/modals/NfcCardActionModal'
+import TapToAssignModal from '@/components/modals/TapToAssignModal'
+import { Button } from '@/components/ui/button'
+import { EmptyState } from '@/components/ui/empty-state'
+import { Input } from '@/components/ui/input'
+import { PageHeader } from '@/components/ui/page-header'
+import { TableSkeleton } from '@/components/ui/skeleton'
+import { useDebounce } from '@/hooks/useDebounce'
+import { formatDate, formatDateTime } from '@/lib/utils'
+import { nfcCardService } from '@/services/nfc-card.service'
+import { useAuthStore } from '@/store/authStore'
+import { NfcCard, NfcCardStatus } from '@/types'
+import { ROUTES } from '@/utils/constants'
+import { NFC_CARD_STATUSES, nfcCardActionLabel, nfcCardStatusLabel } from '@/utils/nfcCards'
+import { canManageStudents } from '@/utils/permissions'
+
+const STATUS_STYLES: { [status in NfcCardStatus]: string } = {
+  active: 'bg-emerald-500/20 text-emerald-300 border-emerald-500/30',
+  available: 'bg-slate-600/30 text-slate-300 border-slate-500/40',
+  lost: 'bg-orange-500/20 text-orange-300 border-orange-500/30',
+  revoked: 'bg-red-500/20 text-red-300 border-red-500/30',
+}
+
+function CardHistory({ card }: { card: NfcCard }) {
+  const { data: events = [], isLoading } = useQuery({
+    queryKey: ['nfc-cards', card.id, 'history'],
+    queryFn: () => nfcCardService.getHistory(card.id),
+  })
+
+  if (isLoading) return <p className="text-xs text-slate-500">Loading history...</p>
+  if (events.length === 0) return <p className="text-xs text-slate-500">No history yet</p>
+
+  return (
+    <ol className="space-y-2">
+      {events.map((event) => (
+        <li key={event.id} className="flex gap-3 text-xs">
+          <span className="w-32 flex-shrink-0 text-slate-500">
+            {formatDateTime(event.createdAt)}
+          </span>
+          <span className={event.action === 'tap_rejected' ? 'text-red-300' : 'text-slate-300'}>
+            {nfcCardActionLabel(event.action)}
+            {event.student && ` · ${event.student.name}`}
+            {event.relatedUid &&
+              (event.action === 'replaced'
+                ? ` by ${event.relatedUid}`
+                : ` (replacing ${event.relatedUid})`)}
+            {event.reason && <span className="text-slate-400"> — {event.reason}</span>}
+            {event.actor && <span className="text-slate-500"> · by {event.actor.name}</span>}
+          </span>
+        </li>
+      ))}
+    </ol>
+  )
+}
+
+/**
+ * Registry of NFC cards: who holds each card, spares, and cards reported lost
+ * or revoked (rejected by readers), with each card's history
+ */
+export default function NfcCardsPage() {
+  const navigate = useNavigate()
+  const { user } = useAuthStore()
+  const userCanManage = canManageStudents(user?.role)
+  const [status, setStatus] = useState<NfcCardStatus | ''>('')
+  const [search, setSearch] = useState('')
+  const debouncedSearch = useDebounce(search)
+  const [expandedId, setExpandedId] = useState<NfcCard['id'] | null>(null)
+  const [action, setAction] = useState<{ type: NfcCardModalAction; card?: NfcCard } | null>(null)
+  const [isTapToAssignOpen, setIsTapToAssignOpen] = useState(false)
+
+  const { data: allCards = [] } = useQuery({
+    queryKey: ['nfc-cards', 'all'],
+    queryFn: () => nfcCardService.getCards(),
+  })
+
+  const { data: cards = [], isLoading } = useQuery({
+    queryKey: ['nfc-cards', 'list', status, debouncedSearch],
+    queryFn: () =>
+      nfcCardService.getCards({ status: status || undefined, search: debouncedSearch }),
+  })
+
+  const count = (value: NfcCardStatus) => allCards.filter((c) => c.status === value).length
+
+  const cardActions = (card: NfcCard) => {
+    const actions: { type: NfcCardModalAction; label: string; icon: typeof Nfc }[] = []
+    if (card.status === 'active') actions.push({ type: 'return', label: 'Return', icon: Undo2 })
+    if ((card.status === 'active' && !card.temporaryUntil) || card.status === 'lost') {
+      actions.push({ type: 'replace', label: 'Replace', icon: RefreshCw })
+    }
+    if (card.status === 'active' || card.status === 'available') {
+      actions.push({ type: 'report-lost', label: 'Report Lost', icon: AlertTriangle })
+    }
+    if (card.status !== 'revoked') actions.push({ type: 'revoke', label: 'Revoke', icon: Ban })
+    return actions
+  }
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <PageHeader
+          title="NFC Cards"
+          description="Who holds each card, spares, and cards that readers must reject"
+          icon={Nfc}
+          gradient="from-blue-600 via-indigo-600 to-purple-600"
+          stats={[
+            { label: 'Active', value: count('active'), icon: CreditCard, color: 'green' },
+            { label: 'Spares', value: count('available'), icon: CreditCard, color: 'blue' },
+            { label: 'Lost', value: count('lost'), icon: AlertTriangle, color: 'orange' },
+            { label: 'Revoked', value: count('revoked'), icon: Ban, color: 'red' },
+          ]}
+          actions={[
+            {
+              label: 'Back to Students',
+              onClick: () => navigate(ROUTES.STUDENTS),
+              icon: Users,
+              variant: 'secondary' as const,
+            },
+            ...(userCanManage
+              ? [
+                  {
+                    label: 'Tap to Assign',
+                    onClick: () => setIsTapToAssignOpen(true),
+                    icon: Nfc,
+                    variant: 'outline' as const,
+                  },
+                  {
+                    label: 'Assign Card',
+                    onClick: () => setAction({ type: 'assign' }),
+                    icon: Plus,
+                    variant: 'primary' as const,
+                  },
+                ]
+              : []),
+          ]}
+        />
+
+        {/* Filters */}
+        <div className="flex flex-col sm:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by card ID, student name or number"
+              className="pl-10 h-11 rounded-xl border-2 bg-slate-800/50 border-slate-700 text-slate-100 placeholder:text-slate-500"
+            />
+          </div>
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as NfcCardStatus | '')}
+            className="h-11 px-3 rounded-xl border-2 bg-slate-800/50 border-slate-700 text-slate-100 focus:outline-none focus:border-blue-500"
+          >
+            <option value="">All statuses</option>
+            {NFC_CARD_STATUSES.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Cards */}
+        {isLoading ? (
+          <TableSkeleton />
+        ) : cards.length === 0 ? (
+          <div className="bg-slate-800/50 rounded-2xl border border-slate-700/50">
+            <EmptyState
+              icon={Nfc}
+              title="No cards found"
+              description={
+                status || search
+                  ? 'No card matches these filters'
+                  : 'Cards appear here once they are assigned to students'
+              }
+            />
+          </div>
+        ) : (
+          <div className="bg-slate-800/50 rounded-2xl shadow-enterprise border border-slate-700/50 backdrop-blur-sm divide-y divide-slate-700/50">
+            {cards.map((card) => (
+              <motion.div key={card.id} initial={{ opacity: 0 }} animate={{ opacity: 1 }}>
+                <div className="flex flex-col lg:flex-row lg:items-center gap-3 p-4">
+                  <button
+                    type="button"
+                    onClick={() => setExpandedId(expandedId === card.id ? null : card.id)}
+                    className="flex items-center gap-3 flex-1 min-w-0 text-left"
+                    aria-expanded={expandedId === card.id}
+                  >
+                    {expandedId === card.id ? (
+                      <ChevronDown className="w-4 h-4 text-slate-400 flex-shrink-0" />
+                    ) : (
+                      <ChevronRight className="w-4 h-4 text-slate-400 flex-shrink-0" />
+                    )}
+                    <span className="font-mono text-sm text-slate-100 w-40 flex-shrink-0">
+                      {card.uid}
+                    </span>
+                    <span
+                      className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium border ${STATUS_STYLES[card.status]}`}
+                    >
+                      {nfcCardStatusLabel(card.status)}
+                    </span>
+                    <div className="min-w-0">
+                      {card.student ? (
+                        <>
+                          <p className="text-sm text-slate-200 truncate">
+                            {card.status !== 'active' && (
+                              <span className="text-slate-500">Last held by </span>
+                            )}
+                            {card.student.name}
+                          </p>
+                          <p className="text-xs text-slate-400 truncate">
+                            {card.student.studentNumber}
+                            {card.student.section ? ` · ${card.student.section}` : ''}
+                            {card.temporaryUntil &&
+                              ` · temporary until ${formatDate(card.temporaryUntil)}`}
+                            {card.replacedByUid && ` · replaced by ${card.replacedByUid}`}
+                          </p>
+                        </>
+                      ) : (
+                        <p className="text-sm text-slate-500">Not assigned</p>
+                      )}
+                    </div>
+                  </button>
+                  <div className="flex items-center gap-2 flex-wrap lg:justify-end">
+                    {card.lastTapAt && (
+                      <span className="text-xs text-slate-500 mr-2">
+                        Last tap {formatDateTime(card.lastTapAt)}
+                      </span>
+                    )}
+                    {userCanManage &&
+                      cardActions(card).map(({ type, label, icon: Icon }) => (
+                        <Button
+                          key={type}
+                          type="button"
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setAction({ type, card })}
+                          className={
+                            type === 'revoke' || type === 'report-lost'
+                              ? 'border-red-600/50 bg-red-900/20 text-red-300 hover:bg-red-900/40 hover:text-red-200'
+                              : 'border-slate-600 bg-slate-700/50 text-slate-300 hover:bg-slate-700 hover:text-white'
+                          }
+                        >
+                          <Icon className="w-3.5 h-3.5 mr-1" />
+                          {label}
+                        </Button>
+                      ))}
+                  </div>
+                </div>
+                {expandedId === card.id && (
+                  <div className="px-11 pb-4">
+                    <h3 className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wider text-slate-400 mb-2">
+                      <History className="w-3.5 h-3.5" />
+                      History
+                    </h3>
+                    <CardHistory card={card} />
+                  </div>
+                )}
+              </motion.div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <NfcCardActionModal
+        action={action?.type ?? null}
+        card={action?.card}
+        onClose={() => setAction(null)}
+      />
+      <TapToAssignModal isOpen={isTapToAssignOpen} onClose={() => setIsTapToAssignOpen(false)} />
+    </MainLayout>
+  )
+}
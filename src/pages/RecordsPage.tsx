@@ -1,8 +1,7 @@
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
 import { motion } from 'framer-motion'
 import {
   FileText,
-  Search,
   Calendar,
   Filter,
   BarChart3,
@@ -14,14 +13,23 @@ import {
   BookOpen,
   Users,
 } from 'lucide-react'
-import { useQuery } from '@tanstack/react-query'
+import { keepPreviousData, useQuery } from '@tanstack/react-query'
 import MainLayout from '@/layouts/MainLayout'
+import SearchQueryInput from '@/components/SearchQueryInput'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { PageHeader } from '@/components/ui/page-header'
 import { useToast } from '@/store/toastStore'
 import { recordService } from '@/services/record.service'
-import { AttendanceRecord } from '@/types'
+import { subjectService } from '@/services/subject.service'
+import { useDebounce } from '@/hooks/useDebounce'
+import { AttendanceRecord, AttendanceRecordFilters } from '@/types'
+import {
+  RECORD_SEARCH_KEYS,
+  matchesAttendanceRecordFilters,
+  parseSearchQuery,
+  toAttendanceRecordFilters,
+} from '@/utils/searchQuery'
 import { format } from 'date-fns'
 
 import * as XLSX from 'xlsx'
@@ -31,40 +39,43 @@ type FilterType = 'all' | 'present' | 'absent' | 'late' | 'excused'
 
 export default function RecordsPage() {
   const [searchTerm, setSearchTerm] = useState('')
+  const debouncedSearchTerm = useDebounce(searchTerm, 300)
   const [filterType, setFilterType] = useState<FilterType>('all')
   const [selectedDate, setSelectedDate] = useState<string>('')
   const { addToast } = useToast()
 
-  // Fetch attendance records (subject-specific attendance)
+  const { data: subjects = [] } = useQuery({
+    queryKey: ['subjects'],
+    queryFn: subjectService.getAll,
+  })
+  const searchValueOptions = useMemo(
+    () => ({ subject: subjects.map((subject) => subject.subjectCode) }),
+    [subjects]
+  )
+
+  // Filters typed in the search box win over the status and date pickers
+  const filters: AttendanceRecordFilters = {
+    status: filterType === 'all' ? undefined : filterType,
+    startDate: selectedDate || undefined,
+    endDate: selectedDate || undefined,
+    ...toAttendanceRecordFilters(parseSearchQuery(debouncedSearchTerm, RECORD_SEARCH_KEYS)),
+  }
+
+  // Fetch attendance records (subject-specific attendance), filtered on the server
   const { data: attendanceRecords = [], isLoading } = useQuery({
-    queryKey: ['attendance-records', selectedDate],
+    queryKey: ['attendance-records', filters],
     queryFn: async () => {
       console.log('[Records] Fetching attendance records...')
-      const filters: any = {}
-      if (selectedDate) {
-        filters.startDate = selectedDate
-        filters.endDate = selectedDate
-      }
       const data = await recordService.getAllAttendanceRecords(filters)
       console.log('[Records] Loaded attendance records:', data.length)
       return data
     },
+    placeholderData: keepPreviousData,
   })
-
-  // Filter records
-  const filteredRecords = attendanceRecords.filter((record) => {
-    const matchesSearch =
-      record.studentNumber?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      record.firstName?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      record.lastName?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      record.email?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      record.subjectCode?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      record.subjectName?.toLowerCase().includes(searchTerm.toLowerCase())
-
-    const matchesType = filterType === 'all' || record.status === filterType
-
-    return matchesSearch && matchesType
-  })
+  // Checked again here: a backend that ignores some of the filters returns every row
+  const filteredRecords = attendanceRecords.filter((record) =>
+    matchesAttendanceRecordFilters(record, filters)
+  )
 
   // Calculate stats
   const todayRecords = attendanceRecords.filter((r) => {
@@ -172,14 +183,14 @@ export default function RecordsPage() {
         {/* Filters - Enterprise Grade */}
         <div className="bg-slate-800/50 rounded-2xl p-6 shadow-enterprise border border-slate-700/50 backdrop-blur-sm">
           <div className="flex flex-col lg:flex-row gap-4">
-            <div className="flex-1 relative">
-              <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
-              <Input
-                type="text"
-                placeholder="Search by student number, name, email, or subject..."
+            <div className="flex-1">
+              <SearchQueryInput
                 value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="pl-12 h-12 border-slate-600 bg-slate-900/50 text-slate-100 placeholder:text-slate-500 focus:border-emerald-500 focus:ring-emerald-500/20"
+                onChange={setSearchTerm}
+                keys={RECORD_SEARCH_KEYS}
+                valueOptions={searchValueOptions}
+                placeholder="Search by student or subject, or filter: status:late subject:MATH101 date>=2026-10-01"
+                className="focus:border-emerald-500 focus:ring-emerald-500/20"
               />
             </div>
             <div className="flex flex-wrap gap-3">
@@ -0,0 +1,271 @@
+import { useState, FormEvent } from 'react'
+import { Link, useNavigate, useParams } from 'react-router-dom'
+import { motion } from 'framer-motion'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { ArrowLeft, Eye, EyeOff, Link2Off, Lock } from 'lucide-react'
+import AuthLayout from '@/layouts/AuthLayout'
+import PasswordStrengthMeter from '@/components/PasswordStrengthMeter'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Skeleton } from '@/components/ui/skeleton'
+import { authService } from '@/services/auth.service'
+import { useToast } from '@/store/toastStore'
+import { isApiError } from '@/types'
+import { RESET_TOKEN_ERRORS, ROUTES } from '@/utils/constants'
+import { getErrorMessage } from '@/utils/errorHandling'
+import { validators } from '@/utils/validation-rules'
+
+type FormErrors = { password?: string; confirmPassword?: string }
+
+const TOKEN_ERROR_MESSAGES: { [code: string]: { title: string; message: string } } = {
+  [RESET_TOKEN_ERRORS.EXPIRED]: {
+    title: 'This link has expired',
+    message: 'Reset links are valid for one hour. Request a new one to continue.',
+  },
+  [RESET_TOKEN_ERRORS.USED]: {
+    title: 'This link was already used',
+    message: 'Each reset link works once. If you did not change your password, request a new link.',
+  },
+  [RESET_TOKEN_ERRORS.INVALID]: {
+    title: 'This link is not valid',
+    message: 'Check that you opened the full link from the email, or request a new one.',
+  },
+}
+
+/**
+ * The reset link's token code (expired, used, invalid), or null for other errors
+ */
+function tokenErrorCode(error: unknown): string | null {
+  if (!isApiError(error) || !error.code) return null
+  return error.code in TOKEN_ERROR_MESSAGES ? error.code : null
+}
+
+/**
+ * Choose a new password from an emailed reset link
+ */
+export default function ResetPasswordPage() {
+  const { token = '' } = useParams<{ token: string }>()
+  const navigate = useNavigate()
+  const queryClient = useQueryClient()
+  const { addToast } = useToast()
+  const [formData, setFormData] = useState({ password: '', confirmPassword: '' })
+  const [errors, setErrors] = useState<FormErrors>({})
+  const [showPassword, setShowPassword] = useState(false)
+
+  const tokenQuery = useQuery({
+    queryKey: ['password-reset', token],
+    queryFn: () => authService.verifyResetToken(token),
+    retry: false,
+    refetchOnWindowFocus: false,
+  })
+
+  const resetMutation = useMutation({
+    mutationFn: (password: string) => authService.resetPassword(token, password),
+    onSuccess: () => {
+      addToast('Password updated. Sign in with your new password.', 'success')
+      navigate(ROUTES.LOGIN, { replace: true })
+    },
+    onError: (error) => {
+      // The link may have expired (or been used elsewhere) since the page loaded
+      if (tokenErrorCode(error)) {
+        queryClient.invalidateQueries({ queryKey: ['password-reset', token] })
+        return
+      }
+      if (isApiError(error) && error.errors?.password) {
+        setErrors({ password: error.errors.password[0] })
+      }
+      addToast(getErrorMessage(error), 'error')
+    },
+  })
+
+  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    const newErrors: FormErrors = {}
+
+    const passwordResult = validators.password(formData.password)
+    const strengthResult = validators.passwordStrength(formData.password)
+    if (!passwordResult.isValid) {
+      newErrors.password = passwordResult.error
+    } else if (!strengthResult.isValid) {
+      newErrors.password = strengthResult.error
+    }
+
+    const confirmResult = validators.passwordConfirmation(
+      formData.password,
+      formData.confirmPassword
+    )
+    if (!confirmResult.isValid) {
+      newErrors.confirmPassword = confirmResult.error
+    }
+
+    if (Object.keys(newErrors).length > 0) {
+      setErrors(newErrors)
+      return
+    }
+    setErrors({})
+    resetMutation.mutate(formData.password)
+  }
+
+  const backToLogin = (
+    <Link
+      to={ROUTES.LOGIN}
+      className="mt-8 flex items-center justify-center gap-2 text-sm text-blue-400 font-semibold hover:text-blue-300 hover:underline transition-colors"
+    >
+      <ArrowLeft className="w-4 h-4" />
+      Back to sign in
+    </Link>
+  )
+
+  if (tokenQuery.isLoading) {
+    return (
+      <AuthLayout title="Reset your password" subtitle="Checking your reset link...">
+        <div className="space-y-4">
+          <Skeleton className="h-12 w-full rounded-xl bg-slate-800" />
+          <Skeleton className="h-12 w-full rounded-xl bg-slate-800" />
+        </div>
+      </AuthLayout>
+    )
+  }
+
+  if (tokenQuery.isError) {
+    const code = tokenErrorCode(tokenQuery.error)
+    const { title, message } = code
+      ? TOKEN_ERROR_MESSAGES[code]
+      : { title: 'Could not check this link', message: getErrorMessage(tokenQuery.error) }
+
+    return (
+      <AuthLayout title={title}>
+        <div className="text-center space-y-6">
+          <div className="mx-auto w-14 h-14 rounded-2xl bg-red-500/15 border border-red-500/30 flex items-center justify-center">
+            <Link2Off className="w-7 h-7 text-red-400" />
+          </div>
+          <p className="text-slate-300">{message}</p>
+          {code ? (
+            <Button
+              onClick={() => navigate(ROUTES.FORGOT_PASSWORD)}
+              className="w-full h-12 rounded-xl bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 border-0"
+            >
+              Request a new link
+            </Button>
+          ) : (
+            <Button
+              onClick={() => tokenQuery.refetch()}
+              className="w-full h-12 rounded-xl bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 border-0"
+            >
+              Try again
+            </Button>
+          )}
+        </div>
+        {backToLogin}
+      </AuthLayout>
+    )
+  }
+
+  const inputClass = (error?: string) =>
+    `relative pl-10 pr-12 h-12 rounded-xl border-2 bg-slate-900/50 text-slate-100 placeholder:text-slate-500 transition-all ${
+      error
+        ? 'border-red-500 focus:border-red-600'
+        : 'border-slate-700 focus:border-blue-500 hover:border-slate-600'
+    }`
+
+  return (
+    <AuthLayout
+      title="Choose a new password"
+      subtitle={
+        tokenQuery.data && (
+          <>
+            For <span className="text-slate-200">{tokenQuery.data.email}</span>
+          </>
+        )
+      }
+    >
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div>
+          <Label htmlFor="password" className="text-slate-300 font-medium flex items-center gap-2">
+            <Lock className="w-4 h-4 text-indigo-400" />
+            New Password
+          </Label>
+          <div className="mt-2 relative">
+            <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-500 z-10" />
+            <Input
+              id="password"
+              type={showPassword ? 'text' : 'password'}
+              placeholder="Create a strong password"
+              className={inputClass(errors.password)}
+              value={formData.password}
+              onChange={(e) => {
+                setFormData({ ...formData, password: e.target.value })
+                if (errors.password) setErrors({ ...errors, password: undefined })
+              }}
+              disabled={resetMutation.isPending}
+              autoFocus
+            />
+            <button
+              type="button"
+              onClick={() => setShowPassword((s) => !s)}
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-200 z-10 transition-colors"
+              aria-label={showPassword ? 'Hide password' : 'Show password'}
+            >
+              {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+            </button>
+          </div>
+          {errors.password ? (
+            <motion.p
+              initial={{ opacity: 0, y: -10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="text-sm text-red-400 mt-2 flex items-center gap-1"
+            >
+              <span className="text-red-500">⚠</span> {errors.password}
+            </motion.p>
+          ) : (
+            <PasswordStrengthMeter password={formData.password} />
+          )}
+        </div>
+
+        <div>
+          <Label
+            htmlFor="confirmPassword"
+            className="text-slate-300 font-medium flex items-center gap-2"
+          >
+            <Lock className="w-4 h-4 text-indigo-400" />
+            Confirm Password
+          </Label>
+          <div className="mt-2 relative">
+            <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-500 z-10" />
+            <Input
+              id="confirmPassword"
+              type={showPassword ? 'text' : 'password'}
+              placeholder="Re-enter the new password"
+              className={inputClass(errors.confirmPassword)}
+              value={formData.confirmPassword}
+              onChange={(e) => {
+                setFormData({ ...formData, confirmPassword: e.target.value })
+                if (errors.confirmPassword) setErrors({ ...errors, confirmPassword: undefined })
+              }}
+              disabled={resetMutation.isPending}
+            />
+          </div>
+          {errors.confirmPassword && (
+            <motion.p
+              initial={{ opacity: 0, y: -10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="text-sm text-red-400 mt-2 flex items-center gap-1"
+            >
+              <span className="text-red-500">⚠</span> {errors.confirmPassword}
+            </motion.p>
+          )}
+        </div>
+
+        <Button
+          type="submit"
+          className="w-full h-12 text-base font-semibold rounded-xl bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg border-0"
+          disabled={resetMutation.isPending}
+        >
+          {resetMutation.isPending ? 'Saving...' : 'Set new password'}
+        </Button>
+      </form>
+      {backToLogin}
+    </AuthLayout>
+  )
+}
@@ -0,0 +1,369 @@
+import { useState, useEffect, useRef, FormEvent } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { motion } from 'framer-motion'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  AlertTriangle,
+  KeyRound,
+  Plus,
+  RotateCcw,
+  Save,
+  ShieldCheck,
+  Trash2,
+  Users,
+} from 'lucide-react'
+import MainLayout from '@/layouts/MainLayout'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { PageHeader } from '@/components/ui/page-header'
+import { permissionService } from '@/services/permission.service'
+import { useAuthStore } from '@/store/authStore'
+import { usePermissionStore } from '@/store/permissionStore'
+import { useSchoolStore } from '@/store/schoolStore'
+import { useToast } from '@/store/toastStore'
+import { PERMISSION_MATRIX_QUERY_KEY, permissionMatrixQueryKey } from '@/hooks/usePermissionSync'
+import { RoleDefinition, UserRole, isApiError } from '@/types'
+import { ROUTES } from '@/utils/constants'
+import { getErrorMessage } from '@/utils/errorHandling'
+import {
+  BUILT_IN_ROLE_NAMES,
+  PERMISSION_GROUPS,
+  Permission,
+  ROLE_PERMISSIONS,
+  getPermissionDisplayName,
+} from '@/utils/permissions'
+
+/**
+ * Starting point when the backend matrix has not been loaded yet
+ */
+function staticRoles(): RoleDefinition[] {
+  return (Object.keys(ROLE_PERMISSIONS) as (keyof typeof ROLE_PERMISSIONS)[]).map((role) => ({
+    id: role,
+    name: BUILT_IN_ROLE_NAMES[role],
+    permissions: [...ROLE_PERMISSIONS[role]],
+    builtIn: true,
+  }))
+}
+
+/**
+ * "Guidance Counselor" -> "guidance-counselor"
+ */
+function toRoleId(name: string): string {
+  return name
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 31)
+}
+
+function sameRoles(a: RoleDefinition[], b: RoleDefinition[]): boolean {
+  const key = (roles: RoleDefinition[]) =>
+    JSON.stringify(roles.map((r) => [r.id, r.name, [...r.permissions].sort()]))
+  return key(a) === key(b)
+}
+
+/**
+ * Admin editor for the role/permission matrix: toggle each permission per
+ * role and add or remove custom roles. Changes apply to everyone on save.
+ */
+export default function RolesPage() {
+  const navigate = useNavigate()
+  const { addToast } = useToast()
+  const queryClient = useQueryClient()
+  const matrix = usePermissionStore((s) => s.matrix)
+  const setMatrix = usePermissionStore((s) => s.setMatrix)
+  const userId = useAuthStore((s) => s.user?.id)
+  const schoolId = useSchoolStore((s) => s.currentSchoolId)
+  const savedRoles = matrix?.roles ?? staticRoles()
+
+  const [roles, setRoles] = useState<RoleDefinition[]>(savedRoles)
+  const [serverErrors, setServerErrors] = useState<string[]>([])
+  const [newRoleName, setNewRoleName] = useState('')
+  const [copyFrom, setCopyFrom] = useState<UserRole | ''>('')
+  const [newRoleError, setNewRoleError] = useState<string>()
+
+  // Pick up a matrix saved here or in another tab (a plain refetch keeps the draft)
+  const syncedAt = useRef(matrix?.updatedAt)
+  useEffect(() => {
+    if (matrix && matrix.updatedAt !== syncedAt.current) {
+      syncedAt.current = matrix.updatedAt
+      setRoles(matrix.roles)
+    }
+  }, [matrix])
+
+  // Always edit the latest copy
+  useEffect(() => {
+    queryClient.invalidateQueries({ queryKey: PERMISSION_MATRIX_QUERY_KEY })
+  }, [queryClient])
+
+  const saveMutation = useMutation({
+    mutationFn: permissionService.updateMatrix,
+    onSuccess: (updated) => {
+      queryClient.setQueryData(permissionMatrixQueryKey(userId, schoolId), updated)
+      setMatrix(updated)
+      setServerErrors([])
+      addToast('Permissions saved', 'success')
+    },
+    onError: (error) => {
+      setServerErrors(isApiError(error) && error.errors?.roles ? error.errors.roles : [])
+      addToast(getErrorMessage(error), 'error')
+    },
+  })
+
+  const isDirty = !sameRoles(roles, savedRoles)
+
+  const togglePermission = (roleId: UserRole, permission: Permission, checked: boolean) => {
+    setRoles((prev) =>
+      prev.map((role) =>
+        role.id !== roleId
+          ? role
+          : {
+              ...role,
+              permissions: checked
+                ? [...role.permissions, permission]
+                : role.permissions.filter((p) => p !== permission),
+            }
+      )
+    )
+  }
+
+  const handleAddRole = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    const name = newRoleName.trim()
+    const id = toRoleId(name)
+    if (id.length < 2) {
+      setNewRoleError('Enter a role name of at least 2 letters')
+      return
+    }
+    if (roles.some((r) => r.id === id || r.name.toLowerCase() === name.toLowerCase())) {
+      setNewRoleError('A role with this name already exists')
+      return
+    }
+    const source = roles.find((r) => r.id === copyFrom)
+    setRoles((prev) => [
+      ...prev,
+      { id, name, permissions: source ? [...source.permissions] : [], builtIn: false },
+    ])
+    setNewRoleName('')
+    setCopyFrom('')
+    setNewRoleError(undefined)
+  }
+
+  const removeRole = (roleId: UserRole) => {
+    setRoles((prev) => prev.filter((r) => r.id !== roleId))
+  }
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <PageHeader
+          title="Roles & Permissions"
+          description="Choose what each role can do and add custom roles"
+          icon={KeyRound}
+          gradient="from-pink-600 via-rose-600 to-purple-600"
+          actions={[
+            {
+              label: 'Back to Users',
+              onClick: () => navigate(ROUTES.USERS),
+              icon: Users,
+              variant: 'secondary' as const,
+            },
+          ]}
+        />
+
+        {/* Add custom role */}
+        <form
+          onSubmit={handleAddRole}
+          className="bg-slate-800/50 rounded-2xl p-6 shadow-enterprise border border-slate-700/50 backdrop-blur-sm"
+        >
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2 mb-4">
+            <Plus className="w-5 h-5 text-pink-400" />
+            Add Custom Role
+          </h3>
+          <div className="flex flex-col md:flex-row gap-3">
+            <Input
+              type="text"
+              placeholder="Role name, e.g. Guidance Counselor"
+              value={newRoleName}
+              onChange={(e) => {
+                setNewRoleName(e.target.value)
+                if (newRoleError) setNewRoleError(undefined)
+              }}
+              className="h-11 flex-1 border-slate-600 bg-slate-900/50 text-slate-100 placeholder:text-slate-500 focus:border-pink-500"
+            />
+            <select
+              value={copyFrom}
+              onChange={(e) => setCopyFrom(e.target.value)}
+              aria-label="Copy permissions from"
+              className="h-11 rounded-md border border-slate-600 bg-slate-900/50 px-3 text-sm text-slate-100 focus:border-pink-500 focus:outline-none"
+            >
+              <option value="">Start with no permissions</option>
+              {roles.map((role) => (
+                <option key={role.id} value={role.id}>
+                  Copy from {role.name}
+                </option>
+              ))}
+            </select>
+            <Button
+              type="submit"
+              className="h-11 px-6 bg-gradient-to-r from-pink-600 to-purple-600 hover:from-pink-700 hover:to-purple-700 border-0"
+            >
+              Add Role
+            </Button>
+          </div>
+          {newRoleError && <p className="text-red-400 text-sm mt-2">{newRoleError}</p>}
+        </form>
+
+        {serverErrors.length > 0 && (
+          <div className="flex items-start gap-3 p-4 rounded-xl bg-red-500/10 border border-red-500/30">
+            <AlertTriangle className="w-5 h-5 text-red-400 flex-shrink-0 mt-0.5" />
+            <ul className="text-sm text-red-200 space-y-1">
+              {serverErrors.map((message) => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Matrix */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-slate-800/50 rounded-2xl shadow-enterprise-lg border border-slate-700/50 backdrop-blur-sm overflow-hidden"
+        >
+          <div className="overflow-x-auto thin-scrollbar">
+            <table className="w-full">
+              <thead className="bg-gradient-to-r from-pink-600 to-purple-600">
+                <tr>
+                  <th className="text-left p-4 font-semibold text-white text-sm tracking-wide min-w-[200px]">
+                    Permission
+                  </th>
+                  {roles.map((role) => (
+                    <th
+                      key={role.id}
+                      className="p-4 font-semibold text-white text-sm tracking-wide text-center min-w-[120px]"
+                    >
+                      <div className="flex items-center justify-center gap-1">
+                        <span>{role.name}</span>
+                        {!role.builtIn && (
+                          <button
+                            type="button"
+                            onClick={() => removeRole(role.id)}
+                            className="p-1 rounded hover:bg-white/20 transition-colors"
+                            title={`Remove ${role.name}`}
+                          >
+                            <Trash2 className="w-3.5 h-3.5" />
+                          </button>
+                        )}
+                      </div>
+                      {!role.builtIn && (
+                        <span className="text-[10px] font-normal uppercase tracking-wider text-pink-100">
+                          Custom
+                        </span>
+                      )}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-slate-900/50">
+                {PERMISSION_GROUPS.map((group) => (
+                  <PermissionGroupRows
+                    key={group.label}
+                    label={group.label}
+                    permissions={group.permissions}
+                    roles={roles}
+                    disabled={saveMutation.isPending}
+                    onToggle={togglePermission}
+                  />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </motion.div>
+
+        {/* Actions */}
+        <div className="flex items-center justify-end gap-3">
+          {isDirty && <span className="text-sm text-amber-300 mr-auto">Unsaved changes</span>}
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => {
+              setRoles(savedRoles)
+              setServerErrors([])
+            }}
+            disabled={!isDirty || saveMutation.isPending}
+            className="h-11 rounded-xl bg-slate-700/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+          >
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Discard
+          </Button>
+          <Button
+            type="button"
+            onClick={() => saveMutation.mutate(roles)}
+            disabled={!isDirty || saveMutation.isPending}
+            className="h-11 px-6 rounded-xl bg-gradient-to-r from-pink-600 to-purple-600 hover:from-pink-700 hover:to-purple-700 border-0"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {saveMutation.isPending ? 'Saving...' : 'Save Permissions'}
+          </Button>
+        </div>
+
+        <p className="text-xs text-slate-500 flex items-center gap-1.5">
+          <ShieldCheck className="w-3.5 h-3.5" />
+          Built-in roles can be edited but not removed. Custom roles can only be removed once no
+          user holds them.
+        </p>
+      </div>
+    </MainLayout>
+  )
+}
+
+interface PermissionGroupRowsProps {
+  label: string
+  permissions: Permission[]
+  roles: RoleDefinition[]
+  disabled: boolean
+  onToggle: (roleId: UserRole, permission: Permission, checked: boolean) => void
+}
+
+function PermissionGroupRows({
+  label,
+  permissions,
+  roles,
+  disabled,
+  onToggle,
+}: PermissionGroupRowsProps) {
+  return (
+    <>
+      <tr className="bg-slate-800/70">
+        <td
+          colSpan={roles.length + 1}
+          className="px-4 py-2 text-xs font-semibold uppercase tracking-wider text-slate-400"
+        >
+          {label}
+        </td>
+      </tr>
+      {permissions.map((permission) => (
+        <tr
+          key={permission}
+          className="border-b border-slate-700/30 hover:bg-slate-800/60 transition-colors"
+        >
+          <td className="p-4 text-sm text-slate-200">{getPermissionDisplayName(permission)}</td>
+          {roles.map((role) => (
+            <td key={role.id} className="p-4 text-center">
+              <Checkbox
+                checked={role.permissions.includes(permission)}
+                onCheckedChange={(checked) => onToggle(role.id, permission, checked === true)}
+                disabled={disabled}
+                aria-label={`${role.name}: ${getPermissionDisplayName(permission)}`}
+                className="mx-auto"
+              />
+            </td>
+          ))}
+        </tr>
+      ))}
+    </>
+  )
+}
@@ -0,0 +1,75 @@
+import { motion } from 'framer-motion'
+import { useSearchParams } from 'react-router-dom'
+import { Shield, User, UserCog } from 'lucide-react'
+import MainLayout from '@/layouts/MainLayout'
+import { PageHeader } from '@/components/ui/page-header'
+import ProfileSettingsTab from '@/components/settings/ProfileSettingsTab'
+import SecuritySettingsTab from '@/components/settings/SecuritySettingsTab'
+import { cn } from '@/lib/utils'
+
+const TABS = [
+  { id: 'profile', label: 'Profile', icon: User },
+  { id: 'security', label: 'Security', icon: Shield },
+] as const
+
+type SettingsTab = (typeof TABS)[number]['id']
+
+/**
+ * Account settings for the signed-in user. The open tab is kept in `?tab=`
+ * so other screens can link straight to it.
+ */
+export default function SettingsPage() {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const activeTab: SettingsTab = searchParams.get('tab') === 'security' ? 'security' : 'profile'
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <PageHeader
+          title="Account Settings"
+          description="Update your profile and keep your account secure"
+          icon={UserCog}
+          gradient="from-blue-600 via-indigo-600 to-purple-600"
+        />
+
+        <div className="bg-slate-800/50 backdrop-blur-sm rounded-2xl border border-slate-700/50">
+          {/* Tabs */}
+          <div className="flex gap-1 p-2 border-b border-slate-700/50">
+            {TABS.map((tab) => {
+              const Icon = tab.icon
+              const isActive = activeTab === tab.id
+              return (
+                <button
+                  key={tab.id}
+                  onClick={() => setSearchParams({ tab: tab.id }, { replace: true })}
+                  className={cn(
+                    'flex items-center gap-2 px-5 py-2.5 rounded-xl text-sm font-medium transition-all relative',
+                    isActive
+                      ? 'text-white'
+                      : 'text-slate-300 hover:text-white hover:bg-slate-800/50'
+                  )}
+                >
+                  {isActive && (
+                    <motion.div
+                      layoutId="settingsTab"
+                      className="absolute inset-0 bg-slate-700/70 rounded-xl"
+                      transition={{ type: 'spring', bounce: 0.2, duration: 0.6 }}
+                    />
+                  )}
+                  <span className="relative z-10 flex items-center gap-2">
+                    <Icon className={cn('w-4 h-4', isActive && 'text-blue-400')} />
+                    {tab.label}
+                  </span>
+                </button>
+              )
+            })}
+          </div>
+
+          <div className="p-6">
+            {activeTab === 'profile' ? <ProfileSettingsTab /> : <SecuritySettingsTab />}
+          </div>
+        </div>
+      </div>
+    </MainLayout>
+  )
+}
@@ -1,9 +1,12 @@
 import { useState, FormEvent } from 'react'
-import { useNavigate, Link } from 'react-router-dom'
+import { useNavigate, Link, useSearchParams } from 'react-router-dom'
 import { motion } from 'framer-motion'
-import { useMutation } from '@tanstack/react-query'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import {
+  ArrowLeft,
   GraduationCap,
+  Link2Off,
+  LockKeyhole,
   Mail,
   Lock,
   User,
@@ -13,20 +16,56 @@ import {
   Sparkles,
   UserPlus,
 } from 'lucide-react'
+import AuthLayout from '@/layouts/AuthLayout'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { Skeleton } from '@/components/ui/skeleton'
 import { authService } from '@/services/auth.service'
+import { invitationService } from '@/services/invitation.service'
 import { useAuthStore } from '@/store/authStore'
 import { useToast } from '@/store/toastStore'
-import { ROUTES, APP_NAME, TOAST_MESSAGES } from '@/utils/constants'
-import { AuthResponse } from '@/types'
+import { ROUTES, APP_NAME, TOAST_MESSAGES, INVITE_ERRORS } from '@/utils/constants'
+import { AuthResponse, isApiError } from '@/types'
+import { getErrorMessage } from '@/utils/errorHandling'
+import { formatDate } from '@/lib/utils'
+import { getRoleDisplayName } from '@/utils/permissions'
 import { validators, sanitizers } from '@/utils/validation-rules'
 
+const INVITE_ERROR_MESSAGES: { [code: string]: { title: string; message: string } } = {
+  [INVITE_ERRORS.EXPIRED]: {
+    title: 'This invitation has expired',
+    message: 'Ask your administrator to send you a new invitation.',
+  },
+  [INVITE_ERRORS.USED]: {
+    title: 'This invitation was already used',
+    message: 'An account was created from this link. Sign in with it instead.',
+  },
+  [INVITE_ERRORS.REVOKED]: {
+    title: 'This invitation was withdrawn',
+    message: 'Ask your administrator if you should still have access.',
+  },
+  [INVITE_ERRORS.INVALID]: {
+    title: 'This invitation link is not valid',
+    message: 'Check that you opened the full link from the email.',
+  },
+}
+
+/**
+ * The invitation link's error code (expired, used, ...), or null for other errors
+ */
+function inviteErrorCode(error: unknown): string | null {
+  if (!isApiError(error) || !error.code) return null
+  return error.code in INVITE_ERROR_MESSAGES ? error.code : null
+}
+
 export default function SignupPage() {
   const navigate = useNavigate()
   const { setAuth } = useAuthStore()
   const { addToast } = useToast()
+  const queryClient = useQueryClient()
+  const [searchParams] = useSearchParams()
+  const inviteToken = searchParams.get('invite') ?? ''
 
   const [formData, setFormData] = useState({
     name: '',
@@ -43,6 +82,23 @@ export default function SignupPage() {
   const [showPassword, setShowPassword] = useState(false)
   const [showConfirmPassword, setShowConfirmPassword] = useState(false)
 
+  // An invitation link fixes the email and role; without one the page
+  // depends on whether open signup is turned on
+  const inviteQuery = useQuery({
+    queryKey: ['invitation', inviteToken],
+    queryFn: () => invitationService.verifyToken(inviteToken),
+    enabled: !!inviteToken,
+    retry: false,
+    refetchOnWindowFocus: false,
+  })
+  const policyQuery = useQuery({
+    queryKey: ['signup-policy'],
+    queryFn: invitationService.getSignupPolicy,
+    enabled: !inviteToken,
+    retry: false,
+  })
+  const invitation = inviteQuery.data
+
   const signupMutation = useMutation({
     mutationFn: authService.signup,
     onSuccess: (data: AuthResponse) => {
@@ -60,6 +116,15 @@ export default function SignupPage() {
     },
     onError: (error: unknown) => {
       console.error('Signup error:', error)
+      // The invitation or the signup policy may have changed since the page loaded
+      if (inviteErrorCode(error)) {
+        queryClient.invalidateQueries({ queryKey: ['invitation', inviteToken] })
+        return
+      }
+      if (isApiError(error) && error.code === INVITE_ERRORS.SIGNUP_CLOSED) {
+        queryClient.invalidateQueries({ queryKey: ['signup-policy'] })
+        return
+      }
       const message = (error as { message?: string })?.message || TOAST_MESSAGES.ERROR
       addToast(message, 'error')
     },
@@ -84,7 +149,8 @@ export default function SignupPage() {
     }
 
     // Email validation using comprehensive validator
-    const emailResult = validators.email(formData.email)
+    const email = invitation?.email ?? formData.email
+    const emailResult = validators.email(email)
     if (!emailResult.isValid) {
       newErrors.email = emailResult.error
     }
@@ -124,11 +190,77 @@ export default function SignupPage() {
     // Only send the required fields (exclude confirmPassword)
     signupMutation.mutate({
       name: sanitizers.input(formData.name),
-      email: sanitizers.email(formData.email),
+      email: sanitizers.email(email),
       password: formData.password,
+      ...(invitation && { inviteToken }),
     })
   }
 
+  const backToLogin = (
+    <Link
+      to={ROUTES.LOGIN}
+      className="mt-8 flex items-center justify-center gap-2 text-sm text-blue-400 font-semibold hover:text-blue-300 hover:underline transition-colors"
+    >
+      <ArrowLeft className="w-4 h-4" />
+      Back to sign in
+    </Link>
+  )
+
+  if (inviteQuery.isLoading || policyQuery.isLoading) {
+    return (
+      <AuthLayout title="Create your account" subtitle="Checking sign-up access...">
+        <div className="space-y-4">
+          <Skeleton className="h-12 w-full rounded-xl bg-slate-800" />
+          <Skeleton className="h-12 w-full rounded-xl bg-slate-800" />
+        </div>
+      </AuthLayout>
+    )
+  }
+
+  if (inviteQuery.isError) {
+    const code = inviteErrorCode(inviteQuery.error)
+    const { title, message } = code
+      ? INVITE_ERROR_MESSAGES[code]
+      : { title: 'Could not check this invitation', message: getErrorMessage(inviteQuery.error) }
+
+    return (
+      <AuthLayout title={title}>
+        <div className="text-center space-y-6">
+          <div className="mx-auto w-14 h-14 rounded-2xl bg-red-500/15 border border-red-500/30 flex items-center justify-center">
+            <Link2Off className="w-7 h-7 text-red-400" />
+          </div>
+          <p className="text-slate-300">{message}</p>
+          {!code && (
+            <Button
+              onClick={() => inviteQuery.refetch()}
+              className="w-full h-12 rounded-xl bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 border-0"
+            >
+              Try again
+            </Button>
+          )}
+        </div>
+        {backToLogin}
+      </AuthLayout>
+    )
+  }
+
+  if (!inviteToken && policyQuery.data?.openSignup === false) {
+    return (
+      <AuthLayout title="Sign-up is by invitation only">
+        <div className="text-center space-y-6">
+          <div className="mx-auto w-14 h-14 rounded-2xl bg-amber-500/15 border border-amber-500/30 flex items-center justify-center">
+            <LockKeyhole className="w-7 h-7 text-amber-400" />
+          </div>
+          <p className="text-slate-300">
+            New accounts are created from an emailed invitation. Ask your administrator to invite
+            you, then open the link in the email.
+          </p>
+        </div>
+        {backToLogin}
+      </AuthLayout>
+    )
+  }
+
   return (
     <div className="min-h-screen bg-slate-950 flex items-center justify-center p-4 relative overflow-hidden">
       {/* Animated background grid */}
@@ -491,8 +623,20 @@ export default function SignupPage() {
                 transition={{ delay: 0.5 }}
                 className="text-slate-400"
               >
-                Create your account and start managing students
+                {invitation
+                  ? "You've been invited - finish setting up your account"
+                  : 'Create your account and start managing students'}
               </motion.p>
+              {invitation && (
+                <div className="mt-4 inline-flex flex-wrap items-center justify-center gap-2 text-xs">
+                  <span className="px-3 py-1 rounded-full bg-purple-500/20 text-purple-200 border border-purple-500/40 font-medium">
+                    {getRoleDisplayName(invitation.role)}
+                  </span>
+                  <span className="text-slate-500">
+                    Invitation valid until {formatDate(invitation.expiresAt)}
+                  </span>
+                </div>
+              )}
             </div>
 
             {/* Form */}
@@ -564,14 +708,20 @@ export default function SignupPage() {
                         ? 'border-red-500 focus:border-red-600'
                         : 'border-slate-700 focus:border-blue-500 hover:border-slate-600'
                     }`}
-                    value={formData.email}
+                    value={invitation?.email ?? formData.email}
                     onChange={(e) => {
                       setFormData({ ...formData, email: e.target.value })
                       if (errors.email) setErrors({ ...errors, email: undefined })
                     }}
+                    readOnly={!!invitation}
                     disabled={signupMutation.isPending}
                   />
                 </div>
+                {invitation && (
+                  <p className="text-xs text-slate-500 mt-2">
+                    Your invitation was sent to this address, so it can&apos;t be changed.
+                  </p>
+                )}
                 {errors.email && (
                   <motion.p
                     initial={{ opacity: 0, y: -10 }}
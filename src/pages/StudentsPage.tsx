@@ -1,9 +1,9 @@
-import { useState } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
 import { motion } from 'framer-motion'
 import {
   Users,
   Plus,
-  Search,
   Mail,
   Edit2,
   Trash2,
@@ -13,11 +13,20 @@ import {
   CheckCircle,
   FileText,
   Eye,
+  ChevronLeft,
+  ChevronRight,
+  ArrowUp,
+  ArrowDown,
+  ArrowUpDown,
+  Layers,
+  GitMerge,
+  Contact2,
+  Nfc,
 } from 'lucide-react'
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query'
 import MainLayout from '@/layouts/MainLayout'
+import SearchQueryInput from '@/components/SearchQueryInput'
 import { Button } from '@/components/ui/button'
-import { Input } from '@/components/ui/input'
 import { Checkbox } from '@/components/ui/checkbox'
 import { PageHeader } from '@/components/ui/page-header'
 import { EmptyState } from '@/components/ui/empty-state'
@@ -26,53 +35,167 @@ import { ConfirmationDialog } from '@/components/ui/confirmation-dialog'
 import { useToast } from '@/store/toastStore'
 import { useAuthStore } from '@/store/authStore'
 import { studentService } from '@/services/student.service'
-import { Student, StudentFormData } from '@/types'
+import {
+  SortOrder,
+  Student,
+  StudentFormData,
+  StudentListFilters,
+  StudentSortField,
+  StudentStatus,
+} from '@/types'
 import StudentModal from '@/components/modals/StudentModal'
 import EmailModal, { EmailData } from '@/components/modals/EmailModal'
-import { parseExcelFile, generateStudentTemplate, exportStudentsToExcel } from '@/utils/excelUtils'
+import { generateStudentTemplate, exportStudentsToExcel } from '@/utils/excelUtils'
 import { sendEmail } from '@/services/email.service'
 import { useDebounce } from '@/hooks/useDebounce'
-import { useRef } from 'react'
-import { canManageStudents, canSendEmails, canExportRecords } from '@/utils/permissions'
+import {
+  canManageStudents,
+  canMergeStudents,
+  canSendEmails,
+  canExportRecords,
+} from '@/utils/permissions'
+import { ROUTES } from '@/utils/constants'
+import { STUDENT_SEARCH_KEYS, parseSearchQuery, toStudentFilters } from '@/utils/searchQuery'
 import StudentDetailsModal from '@/components/modals/StudentDetailsModal'
+import BulkEditStudentsModal from '@/components/modals/BulkEditStudentsModal'
+import IdCardGeneratorModal from '@/components/modals/IdCardGeneratorModal'
+import StudentImportWizard from '@/components/students/StudentImportWizard'
+import StudentAvatar from '@/components/students/StudentAvatar'
+import { StudentPhotoChange } from '@/components/students/StudentPhotoField'
+import { useVirtualList } from '@/utils/performance'
+import { attendanceAlertRecipients } from '@/utils/guardians'
+
+const PAGE_SIZES = [25, 50, 100, 200]
+// Rows have a fixed height so the table body can be virtualized
+const ROW_HEIGHT = 80
+const TABLE_HEIGHT = 720
+
+const COLUMNS: { field: StudentSortField; label: string }[] = [
+  { field: 'studentNumber', label: 'Student Number' },
+  { field: 'firstName', label: 'First Name' },
+  { field: 'lastName', label: 'Last Name' },
+  { field: 'email', label: 'Email' },
+  { field: 'section', label: 'Section' },
+  { field: 'guardianName', label: 'Guardian' },
+  { field: 'status', label: 'Status' },
+]
+
+/**
+ * Apply the photo picked in the form once the student is saved. Returns false
+ * when the upload fails so the saved details are still reported as saved.
+ */
+async function savePhotoChange(id: number, photo: StudentPhotoChange): Promise<boolean> {
+  try {
+    if (photo) await studentService.uploadPhoto(id, photo)
+    else if (photo === null) await studentService.removePhoto(id)
+    return true
+  } catch {
+    return false
+  }
+}
+
+const filterSelectClass =
+  'h-11 px-4 rounded-xl border border-slate-600 bg-slate-800/80 text-slate-200 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 cursor-pointer'
 
 export default function StudentsPage() {
   const [searchTerm, setSearchTerm] = useState('')
   const debouncedSearchTerm = useDebounce(searchTerm, 300)
-  const [selectedStudents, setSelectedStudents] = useState<Set<number>>(new Set())
+  // Keyed by id so a selection survives moving between pages
+  const [selectedStudents, setSelectedStudents] = useState<Map<number, Student>>(new Map())
   const [isModalOpen, setIsModalOpen] = useState(false)
   const [isEmailModalOpen, setIsEmailModalOpen] = useState(false)
+  const [emailGuardians, setEmailGuardians] = useState(false)
   const [editingStudent, setEditingStudent] = useState<Student | null>(null)
   const [generatedNumber, setGeneratedNumber] = useState('')
-  const [isImporting, setIsImporting] = useState(false)
+  const [isImportOpen, setIsImportOpen] = useState(false)
   const [deleteConfirmation, setDeleteConfirmation] = useState<{
     isOpen: boolean
     student: Student | null
   }>({ isOpen: false, student: null })
   const [bulkDeleteConfirmation, setBulkDeleteConfirmation] = useState(false)
+  const [isBulkEditOpen, setIsBulkEditOpen] = useState(false)
+  const [isIdCardsOpen, setIsIdCardsOpen] = useState(false)
   const [viewingStudent, setViewingStudent] = useState<Student | null>(null)
-  const [statusFilter, setStatusFilter] = useState<string>('all')
-  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [statusFilter, setStatusFilter] = useState<StudentStatus | 'all'>('all')
+  const [sectionFilter, setSectionFilter] = useState('')
+  const [guardianFilter, setGuardianFilter] = useState<'all' | 'with' | 'without'>('all')
+  const [sortBy, setSortBy] = useState<StudentSortField>('studentNumber')
+  const [sortOrder, setSortOrder] = useState<SortOrder>('asc')
+  const [page, setPage] = useState(1)
+  const [pageSize, setPageSize] = useState(PAGE_SIZES[0])
+  const tableRef = useRef<HTMLDivElement>(null)
   const { addToast } = useToast()
   const queryClient = useQueryClient()
   const { user } = useAuthStore()
+  const navigate = useNavigate()
 
   // Permission checks for role-based UI
   const userCanManageStudents = canManageStudents(user?.role)
   const userCanSendEmails = canSendEmails(user?.role)
   const userCanExport = canExportRecords(user?.role)
+  const userCanMerge = canMergeStudents(user?.role)
 
-  // Fetch students
-  const { data: students = [], isLoading } = useQuery({
-    queryKey: ['students'],
-    queryFn: async () => {
-      console.log('[Students] Fetching all students...')
-      const data = await studentService.getAll()
-      console.log('[Students] Loaded students:', data.length)
-      return data
-    },
+  // Filters typed in the search box win over the dropdowns
+  const filters: StudentListFilters = {
+    status: statusFilter === 'all' ? undefined : statusFilter,
+    section: sectionFilter || undefined,
+    hasGuardian: guardianFilter === 'all' ? undefined : guardianFilter === 'with',
+    ...toStudentFilters(parseSearchQuery(debouncedSearchTerm, STUDENT_SEARCH_KEYS)),
+  }
+  const hasFilters =
+    Boolean(searchTerm) ||
+    statusFilter !== 'all' ||
+    Boolean(sectionFilter) ||
+    guardianFilter !== 'all'
+
+  // Fetch the current page; the previous page stays on screen while the next one loads
+  const listQuery = { ...filters, page, limit: pageSize, sortBy, sortOrder }
+  const { data: studentPage, isLoading } = useQuery({
+    queryKey: ['students', 'page', listQuery],
+    queryFn: () => studentService.getPage(listQuery),
+    placeholderData: keepPreviousData,
+  })
+  const students = studentPage?.data ?? []
+  const pagination = studentPage?.pagination
+  const totalItems = pagination?.totalItems ?? 0
+  const firstShown = pagination ? (pagination.currentPage - 1) * pagination.itemsPerPage + 1 : 0
+
+  const { data: stats } = useQuery({
+    queryKey: ['students', 'stats'],
+    queryFn: studentService.getStats,
   })
 
+  const { data: sections = [] } = useQuery({
+    queryKey: ['students', 'sections'],
+    queryFn: studentService.getSections,
+  })
+  const searchValueOptions = useMemo(() => ({ section: sections }), [sections])
+
+  // New filters or search start again from the first page
+  useEffect(() => {
+    setPage(1)
+  }, [debouncedSearchTerm, statusFilter, sectionFilter, guardianFilter, pageSize])
+
+  // Deleting the last students on the last page leaves it empty; with no
+  // results at all there are no pages, and the list stays on page 1
+  useEffect(() => {
+    const lastPage = Math.max(1, pagination?.totalPages ?? 1)
+    if (pagination && page > lastPage) setPage(lastPage)
+  }, [pagination, page])
+
+  // Each new page or ordering starts scrolled to the top
+  const listKey = JSON.stringify(listQuery)
+  useEffect(() => {
+    if (tableRef.current) tableRef.current.scrollTop = 0
+  }, [listKey])
+
+  const { startIndex, endIndex, offsetY, totalHeight, handleScroll } = useVirtualList(
+    students.length,
+    ROW_HEIGHT,
+    TABLE_HEIGHT
+  )
+  const visibleStudents = students.slice(startIndex, endIndex + 1)
+
   // Generate student number when opening modal
   useState(() => {
     if (isModalOpen && !editingStudent) {
@@ -91,10 +214,14 @@ export default function StudentsPage() {
 
   // Create mutation
   const createMutation = useMutation({
-    mutationFn: studentService.create,
-    onSuccess: () => {
+    mutationFn: async ({ data, photo }: { data: StudentFormData; photo: StudentPhotoChange }) => {
+      const student = await studentService.create(data)
+      return savePhotoChange(student.id, photo)
+    },
+    onSuccess: (photoSaved) => {
       queryClient.invalidateQueries({ queryKey: ['students'] })
       addToast('Student added successfully', 'success')
+      if (!photoSaved) addToast('The photo could not be uploaded', 'warning')
       setIsModalOpen(false)
       setGeneratedNumber('')
     },
@@ -105,11 +232,23 @@ export default function StudentsPage() {
 
   // Update mutation
   const updateMutation = useMutation({
-    mutationFn: ({ id, data }: { id: number; data: Partial<StudentFormData> }) =>
-      studentService.update(id, data),
-    onSuccess: () => {
+    mutationFn: async ({
+      id,
+      data,
+      photo,
+    }: {
+      id: number
+      data: Partial<StudentFormData>
+      photo: StudentPhotoChange
+    }) => {
+      await studentService.update(id, data)
+      return savePhotoChange(id, photo)
+    },
+    onSuccess: (photoSaved) => {
       queryClient.invalidateQueries({ queryKey: ['students'] })
+      queryClient.invalidateQueries({ queryKey: ['subjects'] })
       addToast('Student updated successfully', 'success')
+      if (!photoSaved) addToast('The photo could not be updated', 'warning')
       setIsModalOpen(false)
       setEditingStudent(null)
     },
@@ -158,7 +297,7 @@ export default function StudentsPage() {
       } else {
         addToast(`Successfully deleted ${data.successful} students`, 'success')
       }
-      setSelectedStudents(new Set())
+      setSelectedStudents(new Map())
       setBulkDeleteConfirmation(false)
     },
     onError: (error: any) => {
@@ -168,38 +307,37 @@ export default function StudentsPage() {
     },
   })
 
-  // Filter students based on debounced search and status
-  const filteredStudents = students.filter((student) => {
-    // Search filter
-    const matchesSearch =
-      student.firstName.toLowerCase().includes(debouncedSearchTerm.toLowerCase()) ||
-      student.lastName.toLowerCase().includes(debouncedSearchTerm.toLowerCase()) ||
-      student.studentNumber.toLowerCase().includes(debouncedSearchTerm.toLowerCase()) ||
-      student.email.toLowerCase().includes(debouncedSearchTerm.toLowerCase())
-
-    // Status filter
-    const matchesStatus = statusFilter === 'all' || (student.status || 'active') === statusFilter
-
-    return matchesSearch && matchesStatus
-  })
-
   // Toggle selection
-  const toggleSelection = (id: number) => {
-    const newSelection = new Set(selectedStudents)
-    if (newSelection.has(id)) {
-      newSelection.delete(id)
+  const toggleSelection = (student: Student) => {
+    const newSelection = new Map(selectedStudents)
+    if (newSelection.has(student.id)) {
+      newSelection.delete(student.id)
     } else {
-      newSelection.add(id)
+      newSelection.set(student.id, student)
     }
     setSelectedStudents(newSelection)
   }
 
-  // Select all / deselect all
+  // Select all / deselect all on the current page
+  const isPageSelected = students.length > 0 && students.every((s) => selectedStudents.has(s.id))
   const toggleSelectAll = () => {
-    if (selectedStudents.size === filteredStudents.length) {
-      setSelectedStudents(new Set())
+    const newSelection = new Map(selectedStudents)
+    students.forEach((s) => {
+      if (isPageSelected) {
+        newSelection.delete(s.id)
+      } else {
+        newSelection.set(s.id, s)
+      }
+    })
+    setSelectedStudents(newSelection)
+  }
+
+  const handleSort = (field: StudentSortField) => {
+    if (field === sortBy) {
+      setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc')
     } else {
-      setSelectedStudents(new Set(filteredStudents.map((s) => s.id)))
+      setSortBy(field)
+      setSortOrder('asc')
     }
   }
 
@@ -222,7 +360,7 @@ export default function StudentsPage() {
   }
 
   const confirmBulkDelete = () => {
-    bulkDeleteMutation.mutate(Array.from(selectedStudents))
+    bulkDeleteMutation.mutate(Array.from(selectedStudents.keys()))
   }
 
   const handleAddStudent = () => {
@@ -235,11 +373,11 @@ export default function StudentsPage() {
     setIsModalOpen(true)
   }
 
-  const handleModalSubmit = (data: StudentFormData) => {
+  const handleModalSubmit = (data: StudentFormData, photo: StudentPhotoChange) => {
     if (editingStudent) {
-      updateMutation.mutate({ id: editingStudent.id, data })
+      updateMutation.mutate({ id: editingStudent.id, data, photo })
     } else {
-      createMutation.mutate(data)
+      createMutation.mutate({ data, photo })
     }
   }
 
@@ -253,7 +391,7 @@ export default function StudentsPage() {
     try {
       const success = await sendEmail(emailData)
       if (success) {
-        setSelectedStudents(new Set())
+        setSelectedStudents(new Map())
         queryClient.invalidateQueries({ queryKey: ['email-history'] })
       }
       return success
@@ -265,9 +403,24 @@ export default function StudentsPage() {
   }
 
   const getSelectedEmails = (): string[] => {
-    return filteredStudents
-      .filter((student) => selectedStudents.has(student.id))
-      .map((student) => student.email)
+    return Array.from(selectedStudents.values()).map((student) => student.email)
+  }
+
+  // Opted-in guardians of the selected students; siblings' shared guardians once
+  const getSelectedGuardianEmails = (): string[] => {
+    const guardians = Array.from(selectedStudents.values()).flatMap(
+      (student) => student.guardians ?? []
+    )
+    return attendanceAlertRecipients(guardians).map((guardian) => guardian.email as string)
+  }
+
+  const openEmailModal = (toGuardians: boolean) => {
+    if (toGuardians && getSelectedGuardianEmails().length === 0) {
+      addToast('None of the selected students have guardians who receive email', 'warning')
+      return
+    }
+    setEmailGuardians(toGuardians)
+    setIsEmailModalOpen(true)
   }
 
   const handleDownloadTemplate = () => {
@@ -279,78 +432,21 @@ export default function StudentsPage() {
     }
   }
 
-  const handleExportStudents = () => {
+  // Exports every student matching the filters, not just the current page
+  const handleExportStudents = async () => {
     try {
-      if (students.length === 0) {
+      const matching = await studentService.getAll(filters)
+      if (matching.length === 0) {
         addToast('No students to export', 'info')
         return
       }
-      exportStudentsToExcel(students)
-      addToast(`Exported ${students.length} students successfully`, 'success')
+      exportStudentsToExcel(matching)
+      addToast(`Exported ${matching.length} students successfully`, 'success')
     } catch (error) {
       addToast('Failed to export students', 'error')
     }
   }
 
-  const handleImportClick = () => {
-    fileInputRef.current?.click()
-  }
-
-  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (!file) return
-
-    if (!file.name.match(/\.(xlsx|xls)$/)) {
-      addToast('Please select a valid Excel file (.xlsx or .xls)', 'error')
-      return
-    }
-
-    setIsImporting(true)
-    addToast('Importing students from Excel...', 'info')
-
-    try {
-      const studentsData = await parseExcelFile(file)
-
-      if (studentsData.length === 0) {
-        addToast('No valid student data found in the file', 'error')
-        setIsImporting(false)
-        return
-      }
-
-      let successCount = 0
-      let failCount = 0
-
-      for (const studentData of studentsData) {
-        try {
-          await studentService.create(studentData)
-          successCount++
-        } catch (error) {
-          failCount++
-          console.error('Failed to import student:', studentData.studentNumber, error)
-        }
-      }
-
-      queryClient.invalidateQueries({ queryKey: ['students'] })
-      queryClient.refetchQueries({ queryKey: ['students'] })
-
-      if (successCount > 0) {
-        addToast(
-          `Successfully imported ${successCount} student${successCount > 1 ? 's' : ''}${failCount > 0 ? `, ${failCount} failed` : ''}`,
-          failCount > 0 ? 'info' : 'success'
-        )
-      } else {
-        addToast('Failed to import any students', 'error')
-      }
-    } catch (error: any) {
-      addToast(error.message || 'Failed to import students', 'error')
-    } finally {
-      setIsImporting(false)
-      if (fileInputRef.current) {
-        fileInputRef.current.value = ''
-      }
-    }
-  }
-
   return (
     <MainLayout>
       <div className="space-y-6">
@@ -363,7 +459,7 @@ export default function StudentsPage() {
           stats={[
             {
               label: 'Total Students',
-              value: students.length,
+              value: stats?.total ?? 0,
               icon: Users,
               color: 'blue',
             },
@@ -375,27 +471,42 @@ export default function StudentsPage() {
             },
             {
               label: 'With Guardians',
-              value: students.filter((s) => s.guardianName).length,
+              value: stats?.withGuardian ?? 0,
               icon: Users,
               color: 'purple',
             },
             {
-              label: 'Active Today',
-              value: 0,
+              label: 'Active',
+              value: stats?.byStatus.active ?? 0,
               icon: Users,
               color: 'orange',
             },
           ]}
           actions={[
+            {
+              label: 'NFC Cards',
+              onClick: () => navigate(ROUTES.STUDENT_NFC_CARDS),
+              icon: Nfc,
+              variant: 'outline' as const,
+            },
+            ...(userCanMerge
+              ? [
+                  {
+                    label: 'Find Duplicates',
+                    onClick: () => navigate(ROUTES.STUDENT_DUPLICATES),
+                    icon: GitMerge,
+                    variant: 'outline' as const,
+                  },
+                ]
+              : []),
             // Only show import for users who can manage students
             ...(userCanManageStudents
               ? [
                   {
                     label: 'Import Excel',
-                    onClick: () => fileInputRef.current?.click(),
+                    onClick: () => setIsImportOpen(true),
                     icon: Upload,
                     variant: 'outline' as const,
-                    disabled: isImporting,
                   },
                 ]
               : []),
@@ -434,12 +545,32 @@ export default function StudentsPage() {
                 variant="outline"
                 className="border-slate-600 bg-slate-800/80 hover:bg-slate-700 hover:border-emerald-500 text-slate-200 hover:text-white transition-all h-11 px-5 shadow-enterprise-sm"
                 onClick={handleExportStudents}
-                disabled={students.length === 0}
+                disabled={totalItems === 0}
               >
                 <FileSpreadsheet className="w-4 h-4 mr-2" />
                 Export Students
               </Button>
             )}
+            {userCanManageStudents && selectedStudents.size > 0 && (
+              <Button
+                variant="outline"
+                className="border-slate-600 bg-slate-800/80 hover:bg-slate-700 hover:border-blue-500 text-slate-200 hover:text-white transition-all h-11 px-5 shadow-enterprise-sm"
+                onClick={() => setIsBulkEditOpen(true)}
+              >
+                <Layers className="w-4 h-4 mr-2" />
+                Edit Selected ({selectedStudents.size})
+              </Button>
+            )}
+            {userCanManageStudents && selectedStudents.size > 0 && (
+              <Button
+                variant="outline"
+                className="border-slate-600 bg-slate-800/80 hover:bg-slate-700 hover:border-blue-500 text-slate-200 hover:text-white transition-all h-11 px-5 shadow-enterprise-sm"
+                onClick={() => setIsIdCardsOpen(true)}
+              >
+                <Contact2 className="w-4 h-4 mr-2" />
+                Print ID Cards ({selectedStudents.size})
+              </Button>
+            )}
             {userCanManageStudents && selectedStudents.size > 0 && (
               <Button
                 variant="outline"
@@ -451,11 +582,11 @@ export default function StudentsPage() {
                 Delete Selected ({selectedStudents.size})
               </Button>
             )}
-            {/* Status Filter Dropdown */}
+            {/* Filters */}
             <select
               value={statusFilter}
-              onChange={(e) => setStatusFilter(e.target.value)}
-              className="h-11 px-4 rounded-xl border border-slate-600 bg-slate-800/80 text-slate-200 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 cursor-pointer"
+              onChange={(e) => setStatusFilter(e.target.value as StudentStatus | 'all')}
+              className={filterSelectClass}
             >
               <option value="all">All Status</option>
               <option value="active">Active</option>
@@ -465,39 +596,53 @@ export default function StudentsPage() {
               <option value="suspended">Suspended</option>
               <option value="dropped">Dropped</option>
             </select>
+            <select
+              value={sectionFilter}
+              onChange={(e) => setSectionFilter(e.target.value)}
+              className={filterSelectClass}
+            >
+              <option value="">All Sections</option>
+              {sections.map((section) => (
+                <option key={section} value={section}>
+                  {section}
+                </option>
+              ))}
+            </select>
+            <select
+              value={guardianFilter}
+              onChange={(e) => setGuardianFilter(e.target.value as typeof guardianFilter)}
+              className={filterSelectClass}
+            >
+              <option value="all">Any Guardian</option>
+              <option value="with">With Guardian</option>
+              <option value="without">Without Guardian</option>
+            </select>
             <div className="ml-auto flex items-center gap-2 text-slate-400 text-sm">
               <FileText className="w-4 h-4" />
               <span className="font-medium">
-                Showing {filteredStudents.length} of {students.length} students
+                {pagination && totalItems > 0
+                  ? `Showing ${firstShown}–${firstShown + students.length - 1} of ${totalItems} students`
+                  : 'No matching students'}
               </span>
             </div>
           </div>
-          <input
-            ref={fileInputRef}
-            type="file"
-            accept=".xlsx,.xls"
-            onChange={handleFileChange}
-            className="hidden"
-          />
         </div>
 
         {/* Search */}
         <div className="bg-slate-800/50 rounded-2xl p-6 shadow-enterprise border border-slate-700/50 backdrop-blur-sm">
-          <div className="relative">
-            <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
-            <Input
-              type="text"
-              placeholder="Search by name, student number, or email..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="pl-12 h-12 border-slate-600 bg-slate-900/50 text-slate-100 placeholder:text-slate-500 focus:border-blue-500 focus:ring-blue-500/20"
-            />
-          </div>
+          <SearchQueryInput
+            value={searchTerm}
+            onChange={setSearchTerm}
+            keys={STUDENT_SEARCH_KEYS}
+            valueOptions={searchValueOptions}
+            placeholder="Search by name, number or email, or filter: section:1-A status:active age>17"
+            className="focus:border-blue-500 focus:ring-blue-500/20"
+          />
           {searchTerm && (
             <p className="mt-3 text-sm text-slate-400">
-              {filteredStudents.length === 0
+              {totalItems === 0
                 ? 'No results found'
-                : `Found ${filteredStudents.length} student${filteredStudents.length !== 1 ? 's' : ''}`}
+                : `Found ${totalItems} student${totalItems !== 1 ? 's' : ''}`}
             </p>
           )}
         </div>
@@ -508,43 +653,51 @@ export default function StudentsPage() {
           animate={{ opacity: 1, y: 0 }}
           className="bg-slate-800/50 rounded-2xl shadow-enterprise-lg border border-slate-700/50 backdrop-blur-sm overflow-hidden"
         >
-          <div className="overflow-x-auto">
+          <div
+            ref={tableRef}
+            onScroll={handleScroll}
+            className="overflow-auto thin-scrollbar"
+            style={{ maxHeight: TABLE_HEIGHT }}
+          >
             <table className="w-full">
-              <thead className="bg-gradient-to-r from-blue-600 to-indigo-600">
+              <thead className="sticky top-0 z-10 bg-gradient-to-r from-blue-600 to-indigo-600">
                 <tr>
                   <th className="text-left p-5">
                     <div className="flex items-center">
                       <Checkbox
-                        checked={
-                          selectedStudents.size === filteredStudents.length &&
-                          filteredStudents.length > 0
-                        }
+                        checked={isPageSelected}
                         onCheckedChange={() => toggleSelectAll()}
                         className="w-5 h-5 rounded-md border-2 border-white/30 text-blue-600 focus:ring-2 focus:ring-white/50 focus:ring-offset-0 cursor-pointer transition-all hover:scale-110 bg-white/10"
                       />
                     </div>
                   </th>
-                  <th className="text-left p-5 font-semibold text-white text-sm tracking-wide">
-                    Student Number
-                  </th>
-                  <th className="text-left p-5 font-semibold text-white text-sm tracking-wide">
-                    First Name
-                  </th>
-                  <th className="text-left p-5 font-semibold text-white text-sm tracking-wide">
-                    Last Name
-                  </th>
-                  <th className="text-left p-5 font-semibold text-white text-sm tracking-wide">
-                    Email
-                  </th>
-                  <th className="text-left p-5 font-semibold text-white text-sm tracking-wide">
-                    Section
-                  </th>
-                  <th className="text-left p-5 font-semibold text-white text-sm tracking-wide">
-                    Guardian
-                  </th>
-                  <th className="text-left p-5 font-semibold text-white text-sm tracking-wide">
-                    Status
-                  </th>
+                  {COLUMNS.map(({ field, label }) => {
+                    const SortIcon =
+                      sortBy !== field ? ArrowUpDown : sortOrder === 'asc' ? ArrowUp : ArrowDown
+                    return (
+                      <th
+                        key={field}
+                        className="text-left p-5 font-semibold text-white text-sm tracking-wide"
+                        aria-sort={
+                          sortBy === field
+                            ? sortOrder === 'asc'
+                              ? 'ascending'
+                              : 'descending'
+                            : undefined
+                        }
+                      >
+                        <button
+                          onClick={() => handleSort(field)}
+                          className="inline-flex items-center gap-1.5 whitespace-nowrap hover:text-blue-100 transition-colors"
+                        >
+                          {label}
+                          <SortIcon
+                            className={`w-3.5 h-3.5 ${sortBy === field ? '' : 'opacity-50'}`}
+                          />
+                        </button>
+                      </th>
+                    )
+                  })}
                   <th className="text-center p-5 font-semibold text-white text-sm tracking-wide">
                     Actions
                   </th>
@@ -553,19 +706,19 @@ export default function StudentsPage() {
               <tbody className="bg-slate-900/50">
                 {isLoading ? (
                   <TableSkeleton rows={5} columns={8} />
-                ) : filteredStudents.length === 0 ? (
+                ) : students.length === 0 ? (
                   <tr>
                     <td colSpan={9} className="p-0">
                       <EmptyState
                         icon={Users}
-                        title={searchTerm ? 'No students found' : 'No students yet'}
+                        title={hasFilters ? 'No students found' : 'No students yet'}
                         description={
-                          searchTerm
+                          hasFilters
                             ? 'Try adjusting your search terms or filters'
                             : 'Get started by adding your first student to the system'
                         }
                         action={
-                          !searchTerm
+                          !hasFilters
                             ? {
                                 label: 'Add Student',
                                 onClick: handleAddStudent,
@@ -576,138 +729,210 @@ export default function StudentsPage() {
                     </td>
                   </tr>
                 ) : (
-                  filteredStudents.map((student, index) => (
-                    <motion.tr
-                      key={student.id}
-                      initial={{ opacity: 0, x: -20 }}
-                      animate={{ opacity: 1, x: 0 }}
-                      transition={{ delay: index * 0.03 }}
-                      className="border-b border-slate-700/30 hover:bg-slate-800/60 transition-colors group"
-                    >
-                      <td className="p-5">
-                        <div className="flex items-center">
-                          <Checkbox
-                            checked={selectedStudents.has(student.id)}
-                            onCheckedChange={() => toggleSelection(student.id)}
-                            className="w-5 h-5 rounded-md border-2 border-slate-600 text-blue-600 focus:ring-2 focus:ring-blue-500 focus:ring-offset-0 cursor-pointer transition-all hover:scale-110 hover:border-blue-400 bg-slate-800"
-                          />
-                        </div>
-                      </td>
-                      <td className="p-5">
-                        <span className="font-semibold text-slate-100 text-sm">
-                          {student.studentNumber}
-                        </span>
-                      </td>
-                      <td className="p-5 text-slate-200 font-medium text-sm">
-                        {student.firstName}
-                      </td>
-                      <td className="p-5 text-slate-200 font-medium text-sm">{student.lastName}</td>
-                      <td className="p-5 text-slate-400 text-sm">{student.email}</td>
-                      <td className="p-5">
-                        <span className="inline-flex px-3 py-1 bg-blue-500/20 text-blue-300 rounded-full text-xs font-medium border border-blue-500/30">
-                          {student.section || '-'}
-                        </span>
-                      </td>
-                      <td className="p-5 text-slate-400 text-sm">{student.guardianName || '-'}</td>
-                      <td className="p-5">
-                        {(() => {
-                          const status = student.status || 'active'
-                          const statusConfig: Record<
-                            string,
-                            { bg: string; text: string; border: string }
-                          > = {
-                            active: {
-                              bg: 'bg-emerald-500/20',
-                              text: 'text-emerald-300',
-                              border: 'border-emerald-500/30',
-                            },
-                            inactive: {
-                              bg: 'bg-slate-500/20',
-                              text: 'text-slate-300',
-                              border: 'border-slate-500/30',
-                            },
-                            graduated: {
-                              bg: 'bg-blue-500/20',
-                              text: 'text-blue-300',
-                              border: 'border-blue-500/30',
-                            },
-                            transferred: {
-                              bg: 'bg-amber-500/20',
-                              text: 'text-amber-300',
-                              border: 'border-amber-500/30',
-                            },
-                            suspended: {
-                              bg: 'bg-red-500/20',
-                              text: 'text-red-300',
-                              border: 'border-red-500/30',
-                            },
-                            dropped: {
-                              bg: 'bg-rose-500/20',
-                              text: 'text-rose-300',
-                              border: 'border-rose-500/30',
-                            },
-                          }
-                          const config = statusConfig[status] || statusConfig.inactive
-                          return (
-                            <span
-                              className={`inline-flex px-2.5 py-1 ${config.bg} ${config.text} rounded-full text-xs font-medium border ${config.border} capitalize`}
-                            >
-                              {status}
-                            </span>
-                          )
-                        })()}
-                      </td>
-                      <td className="p-5">
-                        <div className="flex items-center justify-center gap-2">
-                          {/* View - always visible */}
-                          <button
-                            onClick={() => setViewingStudent(student)}
-                            className="p-2.5 text-slate-400 hover:bg-slate-500/20 rounded-lg transition-all hover:scale-110 border border-transparent hover:border-slate-500/30"
-                            title="View Details"
-                          >
-                            <Eye className="w-4 h-4" />
-                          </button>
-                          {/* Edit - only for users who can manage students */}
-                          {userCanManageStudents && (
+                  <>
+                    {offsetY > 0 && (
+                      <tr aria-hidden="true" style={{ height: offsetY }}>
+                        <td colSpan={9} />
+                      </tr>
+                    )}
+                    {visibleStudents.map((student) => (
+                      <tr
+                        key={student.id}
+                        style={{ height: ROW_HEIGHT }}
+                        className="border-b border-slate-700/30 hover:bg-slate-800/60 transition-colors group whitespace-nowrap"
+                      >
+                        <td className="p-5">
+                          <div className="flex items-center">
+                            <Checkbox
+                              checked={selectedStudents.has(student.id)}
+                              onCheckedChange={() => toggleSelection(student)}
+                              className="w-5 h-5 rounded-md border-2 border-slate-600 text-blue-600 focus:ring-2 focus:ring-blue-500 focus:ring-offset-0 cursor-pointer transition-all hover:scale-110 hover:border-blue-400 bg-slate-800"
+                            />
+                          </div>
+                        </td>
+                        <td className="p-5">
+                          <span className="font-semibold text-slate-100 text-sm">
+                            {student.studentNumber}
+                          </span>
+                        </td>
+                        <td className="p-5 text-slate-200 font-medium text-sm">
+                          <div className="flex items-center gap-3">
+                            <StudentAvatar student={student} />
+                            {student.firstName}
+                          </div>
+                        </td>
+                        <td className="p-5 text-slate-200 font-medium text-sm">
+                          {student.lastName}
+                        </td>
+                        <td className="p-5 text-slate-400 text-sm">{student.email}</td>
+                        <td className="p-5">
+                          <span className="inline-flex px-3 py-1 bg-blue-500/20 text-blue-300 rounded-full text-xs font-medium border border-blue-500/30">
+                            {student.section || '-'}
+                          </span>
+                        </td>
+                        <td className="p-5 text-slate-400 text-sm">
+                          {student.guardianName || '-'}
+                        </td>
+                        <td className="p-5">
+                          {(() => {
+                            const status = student.status || 'active'
+                            const statusConfig: Record<
+                              string,
+                              { bg: string; text: string; border: string }
+                            > = {
+                              active: {
+                                bg: 'bg-emerald-500/20',
+                                text: 'text-emerald-300',
+                                border: 'border-emerald-500/30',
+                              },
+                              inactive: {
+                                bg: 'bg-slate-500/20',
+                                text: 'text-slate-300',
+                                border: 'border-slate-500/30',
+                              },
+                              graduated: {
+                                bg: 'bg-blue-500/20',
+                                text: 'text-blue-300',
+                                border: 'border-blue-500/30',
+                              },
+                              transferred: {
+                                bg: 'bg-amber-500/20',
+                                text: 'text-amber-300',
+                                border: 'border-amber-500/30',
+                              },
+                              suspended: {
+                                bg: 'bg-red-500/20',
+                                text: 'text-red-300',
+                                border: 'border-red-500/30',
+                              },
+                              dropped: {
+                                bg: 'bg-rose-500/20',
+                                text: 'text-rose-300',
+                                border: 'border-rose-500/30',
+                              },
+                            }
+                            const config = statusConfig[status] || statusConfig.inactive
+                            return (
+                              <span
+                                className={`inline-flex px-2.5 py-1 ${config.bg} ${config.text} rounded-full text-xs font-medium border ${config.border} capitalize`}
+                              >
+                                {status}
+                              </span>
+                            )
+                          })()}
+                        </td>
+                        <td className="p-5">
+                          <div className="flex items-center justify-center gap-2">
+                            {/* View - always visible */}
                             <button
-                              onClick={() => handleEditStudent(student)}
-                              disabled={updateMutation.isPending}
-                              className="p-2.5 text-blue-400 hover:bg-blue-500/20 rounded-lg transition-all hover:scale-110 border border-transparent hover:border-blue-500/30 disabled:opacity-50 disabled:cursor-not-allowed"
-                              title="Edit"
+                              onClick={() => setViewingStudent(student)}
+                              className="p-2.5 text-slate-400 hover:bg-slate-500/20 rounded-lg transition-all hover:scale-110 border border-transparent hover:border-slate-500/30"
+                              title="View Details"
                             >
-                              <Edit2 className="w-4 h-4" />
+                              <Eye className="w-4 h-4" />
                             </button>
-                          )}
-                          {/* Delete - only for users who can manage students */}
-                          {userCanManageStudents && (
-                            <button
-                              onClick={() => handleDelete(student)}
-                              disabled={deleteMutation.isPending}
-                              className="p-2.5 text-red-400 hover:bg-red-500/20 rounded-lg transition-all hover:scale-110 border border-transparent hover:border-red-500/30 disabled:opacity-50 disabled:cursor-not-allowed"
-                              title="Delete"
-                            >
-                              <Trash2 className="w-4 h-4" />
-                            </button>
-                          )}
-                        </div>
-                      </td>
-                    </motion.tr>
-                  ))
+                            {/* Edit - only for users who can manage students */}
+                            {userCanManageStudents && (
+                              <button
+                                onClick={() => handleEditStudent(student)}
+                                disabled={updateMutation.isPending}
+                                className="p-2.5 text-blue-400 hover:bg-blue-500/20 rounded-lg transition-all hover:scale-110 border border-transparent hover:border-blue-500/30 disabled:opacity-50 disabled:cursor-not-allowed"
+                                title="Edit"
+                              >
+                                <Edit2 className="w-4 h-4" />
+                              </button>
+                            )}
+                            {/* Delete - only for users who can manage students */}
+                            {userCanManageStudents && (
+                              <button
+                                onClick={() => handleDelete(student)}
+                                disabled={deleteMutation.isPending}
+                                className="p-2.5 text-red-400 hover:bg-red-500/20 rounded-lg transition-all hover:scale-110 border border-transparent hover:border-red-500/30 disabled:opacity-50 disabled:cursor-not-allowed"
+                                title="Delete"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                    {totalHeight - offsetY - visibleStudents.length * ROW_HEIGHT > 0 && (
+                      <tr
+                        aria-hidden="true"
+                        style={{
+                          height: totalHeight - offsetY - visibleStudents.length * ROW_HEIGHT,
+                        }}
+                      >
+                        <td colSpan={9} />
+                      </tr>
+                    )}
+                  </>
                 )}
               </tbody>
             </table>
           </div>
         </motion.div>
 
+        {/* Pagination */}
+        {pagination && totalItems > 0 && (
+          <div className="flex flex-wrap items-center justify-between gap-3 bg-slate-800/50 rounded-2xl p-4 border border-slate-700/50 backdrop-blur-sm">
+            <label className="flex items-center gap-2 text-sm text-slate-400 font-medium">
+              Rows per page
+              <select
+                value={pageSize}
+                onChange={(e) => setPageSize(Number(e.target.value))}
+                className="h-10 px-3 rounded-xl border border-slate-600 bg-slate-900/50 text-slate-200 text-sm focus:border-blue-500 focus:outline-none cursor-pointer"
+              >
+                {PAGE_SIZES.map((size) => (
+                  <option key={size} value={size}>
+                    {size}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setPage(page - 1)}
+                disabled={!pagination.hasPreviousPage}
+                className="h-10 px-4 rounded-xl border-slate-600 bg-slate-900/50 text-slate-200 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <ChevronLeft className="w-4 h-4 mr-1" />
+                Previous
+              </Button>
+              <span className="px-4 py-2 text-sm text-slate-300 font-medium">
+                Page {pagination.currentPage} of {Math.max(1, pagination.totalPages)}
+              </span>
+              <Button
+                variant="outline"
+                onClick={() => setPage(page + 1)}
+                disabled={!pagination.hasNextPage}
+                className="h-10 px-4 rounded-xl border-slate-600 bg-slate-900/50 text-slate-200 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Next
+                <ChevronRight className="w-4 h-4 ml-1" />
+              </Button>
+            </div>
+          </div>
+        )}
+
         {/* Floating Email Button */}
         {selectedStudents.size > 0 && (
           <motion.div
             initial={{ scale: 0, opacity: 0 }}
             animate={{ scale: 1, opacity: 1 }}
             exit={{ scale: 0, opacity: 0 }}
-            className="fixed bottom-8 right-8 z-50"
+            className="fixed bottom-8 right-8 z-50 flex flex-col items-end gap-3"
           >
-            <button onClick={() => setIsEmailModalOpen(true)} className="relative group">
+            <button
+              onClick={() => openEmailModal(true)}
+              className="flex items-center gap-2 px-4 py-2.5 bg-slate-800 border border-slate-600 rounded-full shadow-enterprise-lg text-sm font-medium text-slate-200 hover:bg-slate-700 hover:text-white transition-colors"
+            >
+              <Users className="w-4 h-4" />
+              Email Guardians
+            </button>
+            <button onClick={() => openEmailModal(false)} className="relative group">
               <div className="absolute inset-0 bg-gradient-to-r from-blue-600 to-indigo-600 rounded-full blur-xl opacity-60 group-hover:opacity-80 transition-opacity animate-pulse" />
               <div className="relative flex items-center gap-3 px-6 py-4 bg-gradient-to-r from-blue-600 to-indigo-600 rounded-full shadow-enterprise-2xl hover:shadow-enterprise-2xl hover:scale-105 transition-all duration-300">
                 <Mail className="w-5 h-5 text-white" />
@@ -733,11 +958,14 @@ export default function StudentsPage() {
         generatedNumber={generatedNumber}
       />
 
+      {/* Import Wizard */}
+      <StudentImportWizard isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} />
+
       {/* Email Modal */}
       <EmailModal
         isOpen={isEmailModalOpen}
         onClose={() => setIsEmailModalOpen(false)}
-        recipients={getSelectedEmails()}
+        recipients={emailGuardians ? getSelectedGuardianEmails() : getSelectedEmails()}
         onSend={handleEmailSend}
       />
 
@@ -754,6 +982,27 @@ export default function StudentsPage() {
         isLoading={deleteMutation.isPending}
       />
 
+      <BulkEditStudentsModal
+        isOpen={isBulkEditOpen}
+        onClose={() => setIsBulkEditOpen(false)}
+        students={Array.from(selectedStudents.values())}
+        onComplete={(result) => {
+          // Keep only the students that still need attention selected
+          const failed = new Set(
+            result.rows.filter((r) => r.outcome === 'failed').map((r) => String(r.studentId))
+          )
+          setSelectedStudents(
+            new Map(Array.from(selectedStudents).filter(([id]) => failed.has(String(id))))
+          )
+        }}
+      />
+
+      <IdCardGeneratorModal
+        isOpen={isIdCardsOpen}
+        onClose={() => setIsIdCardsOpen(false)}
+        students={Array.from(selectedStudents.values())}
+      />
+
       {/* Bulk Delete Confirmation Dialog */}
       <ConfirmationDialog
         isOpen={bulkDeleteConfirmation}
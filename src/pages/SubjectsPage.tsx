@@ -1,7 +1,8 @@
 import { useState } from 'react'
 import { motion } from 'framer-motion'
-import { BookOpen, Plus, Search, Users, Edit2, Trash2, Eye } from 'lucide-react'
+import { BookOpen, Plus, Search, Users, Edit2, Trash2, Eye, UserCheck } from 'lucide-react'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useNavigate } from 'react-router-dom'
 import MainLayout from '@/layouts/MainLayout'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -17,7 +18,16 @@ import { Subject, SubjectFormData } from '@/types'
 import SubjectModal from '@/components/modals/SubjectModal'
 import SubjectDetailsModal from '@/components/modals/SubjectDetailsModal'
 import { useDebounce } from '@/hooks/useDebounce'
-import { canManageSubjects } from '@/utils/permissions'
+import { cn } from '@/lib/utils'
+import { ROUTES } from '@/utils/constants'
+import {
+  canAssignInstructors,
+  canManageSubjects,
+  canMarkAnyAttendance,
+  canMarkAttendance,
+} from '@/utils/permissions'
+
+type SubjectScope = 'mine' | 'all'
 
 export default function SubjectsPage() {
   const [searchTerm, setSearchTerm] = useState('')
@@ -33,16 +43,23 @@ export default function SubjectsPage() {
   const { addToast } = useToast()
   const queryClient = useQueryClient()
   const { user } = useAuthStore()
+  const navigate = useNavigate()
 
   // Permission check for role-based UI
   const userCanManageSubjects = canManageSubjects(user?.role)
+  const userCanAssignInstructors = canAssignInstructors(user?.role)
+
+  // Teachers limited to their own subjects start on "My Subjects"
+  const [scope, setScope] = useState<SubjectScope>(() =>
+    canMarkAttendance(user?.role) && !canMarkAnyAttendance(user?.role) ? 'mine' : 'all'
+  )
 
   // Fetch subjects
   const { data: subjects = [], isLoading } = useQuery({
-    queryKey: ['subjects'],
+    queryKey: scope === 'mine' ? ['subjects', 'mine'] : ['subjects'],
     queryFn: async () => {
-      console.log('[Subjects] Fetching all subjects...')
-      const data = await subjectService.getAll()
+      console.log(`[Subjects] Fetching ${scope} subjects...`)
+      const data = scope === 'mine' ? await subjectService.getMine() : await subjectService.getAll()
       console.log('[Subjects] Loaded subjects:', data.length)
       return data
     },
@@ -50,7 +67,7 @@ export default function SubjectsPage() {
 
   // Fetch enrollment counts for all subjects
   const { data: enrollmentCounts = {} } = useQuery({
-    queryKey: ['subjects', 'enrollment-counts'],
+    queryKey: ['subjects', 'enrollment-counts', scope],
     queryFn: async () => {
       const counts: Record<string | number, number> = {}
       await Promise.all(
@@ -221,6 +238,16 @@ export default function SubjectsPage() {
             },
           ]}
           actions={[
+            ...(userCanAssignInstructors
+              ? [
+                  {
+                    label: 'Assign Instructors',
+                    onClick: () => navigate(ROUTES.SUBJECT_INSTRUCTORS),
+                    icon: UserCheck,
+                    variant: 'secondary' as const,
+                  },
+                ]
+              : []),
             // Only show Add Subject for users who can manage subjects
             ...(userCanManageSubjects
               ? [
@@ -237,6 +264,30 @@ export default function SubjectsPage() {
 
         {/* Search */}
         <div className="bg-slate-800/50 rounded-2xl p-6 shadow-enterprise border border-slate-700/50 backdrop-blur-sm">
+          <div className="flex gap-2 mb-4" role="tablist" aria-label="Subjects shown">
+            {(
+              [
+                { id: 'mine', label: 'My Subjects' },
+                { id: 'all', label: 'All Subjects' },
+              ] as const
+            ).map((option) => (
+              <button
+                key={option.id}
+                type="button"
+                role="tab"
+                aria-selected={scope === option.id}
+                onClick={() => setScope(option.id)}
+                className={cn(
+                  'px-4 py-2 rounded-xl text-sm font-medium border transition-colors',
+                  scope === option.id
+                    ? 'bg-purple-500/20 text-purple-200 border-purple-500/40'
+                    : 'bg-slate-900/50 text-slate-400 border-slate-700 hover:text-slate-200 hover:bg-slate-800'
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
           <div className="relative">
             <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
             <Input
@@ -278,6 +329,9 @@ export default function SubjectsPage() {
                   <th className="text-left p-5 font-semibold text-white text-sm tracking-wide">
                     Section
                   </th>
+                  <th className="text-left p-5 font-semibold text-white text-sm tracking-wide">
+                    Instructors
+                  </th>
                   <th className="text-left p-5 font-semibold text-white text-sm tracking-wide">
                     Enrollment
                   </th>
@@ -288,20 +342,28 @@ export default function SubjectsPage() {
               </thead>
               <tbody className="bg-slate-900/50">
                 {isLoading ? (
-                  <TableSkeleton rows={5} columns={6} />
+                  <TableSkeleton rows={5} columns={7} />
                 ) : filteredSubjects.length === 0 ? (
                   <tr>
-                    <td colSpan={6} className="p-0">
+                    <td colSpan={7} className="p-0">
                       <EmptyState
                         icon={BookOpen}
-                        title={searchTerm ? 'No subjects found' : 'No subjects yet'}
+                        title={
+                          searchTerm
+                            ? 'No subjects found'
+                            : scope === 'mine'
+                              ? 'No subjects assigned to you'
+                              : 'No subjects yet'
+                        }
                         description={
                           searchTerm
                             ? 'Try adjusting your search terms or filters'
-                            : 'Get started by adding your first subject to the system'
+                            : scope === 'mine'
+                              ? 'Subjects appear here once a registrar assigns you as an instructor'
+                              : 'Get started by adding your first subject to the system'
                         }
                         action={
-                          !searchTerm
+                          !searchTerm && scope === 'all' && userCanManageSubjects
                             ? {
                                 label: 'Add Subject',
                                 onClick: handleAddSubject,
@@ -335,6 +397,13 @@ export default function SubjectsPage() {
                             {subject.section}
                           </span>
                         </td>
+                        <td className="p-5 text-slate-300 text-sm">
+                          {subject.instructors?.length ? (
+                            subject.instructors.map((i) => i.name).join(', ')
+                          ) : (
+                            <span className="text-slate-500 italic">Unassigned</span>
+                          )}
+                        </td>
                         <td className="p-5 text-slate-400 text-sm">
                           <span className="inline-flex items-center gap-1">
                             <Users className="w-4 h-4" />
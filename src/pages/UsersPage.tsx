@@ -0,0 +1,430 @@
+import { useState } from 'react'
+import { motion } from 'framer-motion'
+import {
+  Ban,
+  KeyRound,
+  MailPlus,
+  Search,
+  ShieldCheck,
+  Trash2,
+  UserCheck,
+  UserCog,
+  UserX,
+  Users,
+} from 'lucide-react'
+import { useNavigate } from 'react-router-dom'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import MainLayout from '@/layouts/MainLayout'
+import { Input } from '@/components/ui/input'
+import { PageHeader } from '@/components/ui/page-header'
+import { EmptyState } from '@/components/ui/empty-state'
+import { TableSkeleton } from '@/components/ui/skeleton'
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog'
+import InviteUserModal from '@/components/modals/InviteUserModal'
+import { useToast } from '@/store/toastStore'
+import { useAuthStore } from '@/store/authStore'
+import { userService } from '@/services/user.service'
+import { invitationService } from '@/services/invitation.service'
+import { Invitation, InvitationStatus, User, UserRole } from '@/types'
+import { useDebounce } from '@/hooks/useDebounce'
+import { cn, formatDate } from '@/lib/utils'
+import { ROUTES } from '@/utils/constants'
+import { canDeleteUser } from '@/utils/business-validation'
+import { getErrorMessage } from '@/utils/errorHandling'
+import { getAllRoles, getRoleDisplayName } from '@/utils/permissions'
+
+const INVITATION_STATUS_STYLES: Record<InvitationStatus, string> = {
+  pending: 'bg-blue-500/20 text-blue-300 border-blue-500/30',
+  accepted: 'bg-emerald-500/20 text-emerald-300 border-emerald-500/30',
+  revoked: 'bg-slate-700/50 text-slate-400 border-slate-600',
+  expired: 'bg-amber-500/20 text-amber-300 border-amber-500/30',
+}
+
+/**
+ * User administration: search accounts, assign roles, activate/deactivate,
+ * delete and invite. Only reachable with MANAGE_USERS.
+ */
+export default function UsersPage() {
+  const [searchTerm, setSearchTerm] = useState('')
+  const debouncedSearchTerm = useDebounce(searchTerm.trim(), 300)
+  const [deleteTarget, setDeleteTarget] = useState<User | null>(null)
+  const [isInviteOpen, setIsInviteOpen] = useState(false)
+  const { addToast } = useToast()
+  const queryClient = useQueryClient()
+  const currentUser = useAuthStore((s) => s.user)
+  const navigate = useNavigate()
+  // Built-in and custom roles from the live permission matrix
+  const roleOptions = getAllRoles()
+
+  const { data: allUsers = [], isLoading } = useQuery({
+    queryKey: ['users'],
+    queryFn: userService.getAll,
+  })
+
+  const { data: searchResults = [], isLoading: isSearching } = useQuery({
+    queryKey: ['users', 'search', debouncedSearchTerm],
+    queryFn: () => userService.search(debouncedSearchTerm),
+    enabled: debouncedSearchTerm.length > 0,
+  })
+
+  const { data: stats } = useQuery({
+    queryKey: ['users', 'stats'],
+    queryFn: userService.getStats,
+  })
+
+  const { data: invitations = [] } = useQuery({
+    queryKey: ['invitations'],
+    queryFn: invitationService.getAll,
+  })
+
+  const users = debouncedSearchTerm ? searchResults : allUsers
+
+  const onMutationError = (error: unknown) => addToast(getErrorMessage(error), 'error')
+
+  const roleMutation = useMutation({
+    mutationFn: ({ id, role }: { id: number; role: UserRole }) => userService.update(id, { role }),
+    onSuccess: (user) => {
+      queryClient.invalidateQueries({ queryKey: ['users'] })
+      addToast(`${user.name} is now ${getRoleDisplayName(user.role)}`, 'success')
+    },
+    onError: onMutationError,
+  })
+
+  const toggleMutation = useMutation({
+    mutationFn: (id: number) => userService.toggleActive(id),
+    onSuccess: (user) => {
+      queryClient.invalidateQueries({ queryKey: ['users'] })
+      addToast(`${user.name} ${user.isActive ? 'activated' : 'deactivated'}`, 'success')
+    },
+    onError: onMutationError,
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => userService.delete(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['users'] })
+      addToast('User deleted successfully', 'success')
+      setDeleteTarget(null)
+    },
+    onError: onMutationError,
+  })
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: Invitation['id']) => invitationService.revoke(id),
+    onSuccess: (invitation) => {
+      queryClient.invalidateQueries({ queryKey: ['invitations'] })
+      addToast(`Invitation for ${invitation.email} revoked`, 'success')
+    },
+    onError: onMutationError,
+  })
+
+  const confirmDelete = () => {
+    if (deleteTarget) deleteMutation.mutate(deleteTarget.id)
+  }
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        {/* Page Header */}
+        <PageHeader
+          title="Users"
+          description="Manage staff accounts, roles and access"
+          icon={UserCog}
+          gradient="from-pink-600 via-rose-600 to-purple-600"
+          stats={[
+            { label: 'Total Users', value: stats?.total ?? 0, icon: Users, color: 'purple' },
+            { label: 'Active', value: stats?.active ?? 0, icon: UserCheck, color: 'green' },
+            { label: 'Inactive', value: stats?.inactive ?? 0, icon: UserX, color: 'red' },
+            {
+              label: 'Administrators',
+              value: (stats?.byRole.admin ?? 0) + (stats?.byRole.superadmin ?? 0),
+              icon: ShieldCheck,
+              color: 'blue',
+            },
+          ]}
+          actions={[
+            {
+              label: 'Invite User',
+              onClick: () => setIsInviteOpen(true),
+              icon: MailPlus,
+            },
+            {
+              label: 'Roles & Permissions',
+              onClick: () => navigate(ROUTES.ROLES),
+              icon: KeyRound,
+              variant: 'secondary' as const,
+            },
+          ]}
+        />
+
+        {/* Search */}
+        <div className="bg-slate-800/50 rounded-2xl p-6 shadow-enterprise border border-slate-700/50 backdrop-blur-sm">
+          <div className="relative">
+            <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+            <Input
+              type="text"
+              placeholder="Search by name or email..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-12 h-12 border-slate-600 bg-slate-900/50 text-slate-100 placeholder:text-slate-500 focus:border-pink-500 focus:ring-pink-500/20"
+            />
+          </div>
+          {debouncedSearchTerm && !isSearching && (
+            <p className="mt-3 text-sm text-slate-400">
+              {users.length === 0
+                ? 'No results found'
+                : `Found ${users.length} user${users.length !== 1 ? 's' : ''}`}
+            </p>
+          )}
+        </div>
+
+        {/* Users Table */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-slate-800/50 rounded-2xl shadow-enterprise-lg border border-slate-700/50 backdrop-blur-sm overflow-hidden"
+        >
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gradient-to-r from-pink-600 to-purple-600">
+                <tr>
+                  <th className="text-left p-5 font-semibold text-white text-sm tracking-wide">
+                    User
+                  </th>
+                  <th className="text-left p-5 font-semibold text-white text-sm tracking-wide">
+                    Role
+                  </th>
+                  <th className="text-left p-5 font-semibold text-white text-sm tracking-wide">
+                    Status
+                  </th>
+                  <th className="text-left p-5 font-semibold text-white text-sm tracking-wide">
+                    Two-Factor
+                  </th>
+                  <th className="text-left p-5 font-semibold text-white text-sm tracking-wide">
+                    Created
+                  </th>
+                  <th className="text-center p-5 font-semibold text-white text-sm tracking-wide">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-slate-900/50">
+                {isLoading || (debouncedSearchTerm && isSearching) ? (
+                  <TableSkeleton rows={5} columns={6} />
+                ) : users.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="p-0">
+                      <EmptyState
+                        icon={Users}
+                        title={debouncedSearchTerm ? 'No users found' : 'No users yet'}
+                        description={
+                          debouncedSearchTerm
+                            ? 'Try a different name or email'
+                            : 'Accounts appear here once people sign up or accept an invitation'
+                        }
+                      />
+                    </td>
+                  </tr>
+                ) : (
+                  users.map((user, index) => {
+                    const isSelf = !!currentUser && String(user.id) === String(currentUser.id)
+                    const isActive = user.isActive !== false
+                    const deletion = canDeleteUser(user, currentUser?.id, allUsers)
+                    return (
+                      <motion.tr
+                        key={user.id}
+                        initial={{ opacity: 0, x: -20 }}
+                        animate={{ opacity: 1, x: 0 }}
+                        transition={{ delay: index * 0.05 }}
+                        className="border-b border-slate-700/30 hover:bg-slate-800/60 transition-colors"
+                      >
+                        <td className="p-5">
+                          <div className="flex items-center gap-3">
+                            <div className="w-9 h-9 rounded-full bg-gradient-to-br from-pink-500 to-purple-600 flex items-center justify-center text-white text-sm font-semibold flex-shrink-0">
+                              {user.name.charAt(0).toUpperCase()}
+                            </div>
+                            <div className="min-w-0">
+                              <p className="text-slate-200 font-medium text-sm truncate">
+                                {user.name}
+                                {isSelf && (
+                                  <span className="ml-2 text-xs text-pink-300 font-normal">
+                                    (you)
+                                  </span>
+                                )}
+                              </p>
+                              <p className="text-slate-400 text-xs truncate">{user.email}</p>
+                            </div>
+                          </div>
+                        </td>
+                        <td className="p-5">
+                          <select
+                            value={user.role}
+                            onChange={(e) =>
+                              roleMutation.mutate({ id: user.id, role: e.target.value as UserRole })
+                            }
+                            disabled={isSelf || roleMutation.isPending}
+                            title={isSelf ? 'You cannot change your own role' : undefined}
+                            aria-label={`Role for ${user.name}`}
+                            className="h-9 rounded-lg border border-slate-600 bg-slate-900/50 px-3 text-sm text-slate-100 focus:border-pink-500 focus:outline-none disabled:opacity-60 disabled:cursor-not-allowed"
+                          >
+                            {roleOptions.map((role) => (
+                              <option key={role} value={role}>
+                                {getRoleDisplayName(role)}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="p-5">
+                          <button
+                            onClick={() => toggleMutation.mutate(user.id)}
+                            disabled={isSelf || toggleMutation.isPending}
+                            title={
+                              isSelf
+                                ? 'You cannot deactivate your own account'
+                                : isActive
+                                  ? 'Deactivate'
+                                  : 'Activate'
+                            }
+                            className={cn(
+                              'inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-medium border transition-colors disabled:opacity-60 disabled:cursor-not-allowed',
+                              isActive
+                                ? 'bg-emerald-500/20 text-emerald-300 border-emerald-500/30 hover:bg-emerald-500/30'
+                                : 'bg-slate-700/50 text-slate-400 border-slate-600 hover:bg-slate-700'
+                            )}
+                          >
+                            {isActive ? (
+                              <UserCheck className="w-3.5 h-3.5" />
+                            ) : (
+                              <UserX className="w-3.5 h-3.5" />
+                            )}
+                            {isActive ? 'Active' : 'Inactive'}
+                          </button>
+                        </td>
+                        <td className="p-5 text-sm">
+                          {user.twoFactorEnabled ? (
+                            <span className="text-emerald-300">On</span>
+                          ) : (
+                            <span
+                              className={
+                                user.twoFactorRequired ? 'text-amber-300' : 'text-slate-500'
+                              }
+                            >
+                              {user.twoFactorRequired ? 'Required' : 'Off'}
+                            </span>
+                          )}
+                        </td>
+                        <td className="p-5 text-slate-400 text-sm">
+                          {user.createdAt ? formatDate(user.createdAt) : '—'}
+                        </td>
+                        <td className="p-5">
+                          <div className="flex items-center justify-center">
+                            <button
+                              onClick={() => setDeleteTarget(user)}
+                              disabled={!deletion.canDelete || deleteMutation.isPending}
+                              className="p-2.5 text-red-400 hover:bg-red-500/20 rounded-lg transition-all hover:scale-110 border border-transparent hover:border-red-500/30 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:scale-100 disabled:hover:bg-transparent"
+                              title={deletion.canDelete ? 'Delete User' : deletion.reason}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </div>
+                        </td>
+                      </motion.tr>
+                    )
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        </motion.div>
+
+        {/* Invitations */}
+        {invitations.length > 0 && (
+          <div className="bg-slate-800/50 rounded-2xl shadow-enterprise-lg border border-slate-700/50 backdrop-blur-sm overflow-hidden">
+            <div className="px-6 py-4 border-b border-slate-700/50">
+              <h2 className="text-lg font-semibold text-white">Invitations</h2>
+              <p className="text-sm text-slate-400">
+                Pending invitations can be revoked until they are used
+              </p>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-slate-900/60">
+                  <tr>
+                    <th className="text-left p-4 font-semibold text-slate-300 text-sm">Email</th>
+                    <th className="text-left p-4 font-semibold text-slate-300 text-sm">Role</th>
+                    <th className="text-left p-4 font-semibold text-slate-300 text-sm">Status</th>
+                    <th className="text-left p-4 font-semibold text-slate-300 text-sm">Expires</th>
+                    <th className="text-left p-4 font-semibold text-slate-300 text-sm">
+                      Invited By
+                    </th>
+                    <th className="text-center p-4 font-semibold text-slate-300 text-sm">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-slate-900/50">
+                  {invitations.map((invitation) => (
+                    <tr
+                      key={invitation.id}
+                      className="border-b border-slate-700/30 hover:bg-slate-800/60 transition-colors"
+                    >
+                      <td className="p-4 text-slate-200 text-sm">{invitation.email}</td>
+                      <td className="p-4 text-slate-300 text-sm">
+                        {getRoleDisplayName(invitation.role)}
+                      </td>
+                      <td className="p-4">
+                        <span
+                          className={cn(
+                            'inline-flex px-3 py-1 rounded-full text-xs font-medium border capitalize',
+                            INVITATION_STATUS_STYLES[invitation.status]
+                          )}
+                        >
+                          {invitation.status}
+                        </span>
+                      </td>
+                      <td className="p-4 text-slate-400 text-sm">
+                        {formatDate(invitation.expiresAt)}
+                      </td>
+                      <td className="p-4 text-slate-400 text-sm">
+                        {invitation.invitedBy?.name ?? '—'}
+                      </td>
+                      <td className="p-4">
+                        <div className="flex items-center justify-center">
+                          {invitation.status === 'pending' && (
+                            <button
+                              onClick={() => revokeMutation.mutate(invitation.id)}
+                              disabled={revokeMutation.isPending}
+                              className="p-2.5 text-red-400 hover:bg-red-500/20 rounded-lg transition-all hover:scale-110 border border-transparent hover:border-red-500/30 disabled:opacity-40 disabled:cursor-not-allowed"
+                              title="Revoke Invitation"
+                            >
+                              <Ban className="w-4 h-4" />
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <InviteUserModal isOpen={isInviteOpen} onClose={() => setIsInviteOpen(false)} />
+
+      {/* Confirmation Dialog */}
+      <ConfirmationDialog
+        isOpen={deleteTarget !== null}
+        onClose={() => setDeleteTarget(null)}
+        onConfirm={confirmDelete}
+        title="Delete User"
+        description={`Are you sure you want to delete ${deleteTarget?.name} (${deleteTarget?.email})? They will lose access immediately. This action cannot be undone.`}
+        confirmText="Delete"
+        cancelText="Cancel"
+        variant="danger"
+        isLoading={deleteMutation.isPending}
+      />
+    </MainLayout>
+  )
+}
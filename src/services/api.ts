@@ -1,6 +1,11 @@
 import axios, { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios'
-import { API_BASE_URL } from '@/utils/constants'
+import { API_BASE_URL, ROUTES, SCHOOL_HEADER } from '@/utils/constants'
 import { ApiError } from '@/types'
+import { DecodeError, Decoder } from '@/utils/decoding'
+import { useAuthStore } from '@/store/authStore'
+import { useSchoolStore } from '@/store/schoolStore'
+import { isMockApiEnabled } from '@/mocks/config'
+import { authService } from './auth.service'
 
 // Create axios instance
 const apiClient: AxiosInstance = axios.create({
@@ -12,14 +17,107 @@ const apiClient: AxiosInstance = axios.create({
   },
 })
 
-// Request interceptor to add auth token
+// Serve requests from the in-browser mock backend (demos and offline development).
+// Loaded on first request so the fixtures stay out of the main bundle.
+if (isMockApiEnabled()) {
+  apiClient.defaults.adapter = async (config) => {
+    const { mockAdapter } = await import('@/mocks/adapter')
+    return mockAdapter(config)
+  }
+}
+
+// Requests that must never trigger a token refresh (credentials are being exchanged)
+const AUTH_ENDPOINTS = [
+  '/auth/login',
+  '/auth/register',
+  '/auth/refresh-token',
+  '/auth/two-factor/verify',
+]
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _retry?: boolean }
+
+interface QueuedRequest {
+  resolve: (token: string) => void
+  reject: (error: unknown) => void
+}
+
+// Single in-flight refresh shared by every request that fails with 401 meanwhile
+let isRefreshing = false
+let refreshQueue: QueuedRequest[] = []
+
+function flushRefreshQueue(error: unknown, token: string | null) {
+  refreshQueue.forEach(({ resolve, reject }) => (token ? resolve(token) : reject(error)))
+  refreshQueue = []
+}
+
+function shouldAttemptRefresh(config: RetriableRequestConfig): boolean {
+  if (config._retry) return false
+  if (AUTH_ENDPOINTS.some((endpoint) => config.url?.includes(endpoint))) return false
+  // Nothing to refresh for anonymous requests
+  return !!useAuthStore.getState().token
+}
+
+function replayWithToken(config: RetriableRequestConfig, token: string) {
+  config.headers.Authorization = `Bearer ${token}`
+  return apiClient(config)
+}
+
+/**
+ * Refresh the access token once and replay the failed request. Requests that
+ * fail while a refresh is in flight wait in the queue and are replayed with
+ * the same new token. Only a failed refresh logs the user out.
+ */
+async function refreshAndReplay(config: RetriableRequestConfig) {
+  config._retry = true
+
+  if (isRefreshing) {
+    return new Promise<string>((resolve, reject) => {
+      refreshQueue.push({ resolve, reject })
+    }).then((token) => replayWithToken(config, token))
+  }
+
+  isRefreshing = true
+  try {
+    const data = await authService.refreshToken()
+    const token = data.accessToken || data.token
+    if (!token) {
+      throw new Error('No token in refresh response')
+    }
+
+    useAuthStore.getState().setToken(token)
+    flushRefreshQueue(null, token)
+    return replayWithToken(config, token)
+  } catch (refreshError) {
+    const sessionError: ApiError = {
+      message: 'Session expired - Please login again',
+      status: 401,
+    }
+    flushRefreshQueue(sessionError, null)
+
+    useAuthStore.getState().clearAuth('expired')
+    if (window.location.pathname !== ROUTES.LOGIN) {
+      window.location.href = ROUTES.LOGIN
+    }
+    return Promise.reject(sessionError)
+  } finally {
+    isRefreshing = false
+  }
+}
+
+// Request interceptor to add auth token and school context
 apiClient.interceptors.request.use(
   (config: InternalAxiosRequestConfig) => {
-    const token = localStorage.getItem('token')
+    const token = useAuthStore.getState().token
     // Add Authorization header if token exists. Keep logs minimal to avoid console spam.
     if (token && config.headers) {
       config.headers.Authorization = `Bearer ${token}`
     }
+    // Without the header the backend uses the user's default school. Calls that
+    // name their own school (replayed offline marks) keep it.
+    const schoolId = useSchoolStore.getState().currentSchoolId
+    if (schoolId !== null && config.headers && !config.headers[SCHOOL_HEADER]) {
+      config.headers[SCHOOL_HEADER] = String(schoolId)
+    }
     return config
   },
   (error: AxiosError) => {
@@ -27,22 +125,22 @@ apiClient.interceptors.request.use(
   }
 )
 
-// Response interceptor for error handling and data extraction
+// Response interceptor for error handling. Payloads are left as sent (envelope
+// included); services decode them with decodeResponse and the schemas in ./schemas.
 apiClient.interceptors.response.use(
-  (response: AxiosResponse) => {
-    // For paginated email history, return full response
-    if (response.config.url?.includes('/emails/history')) {
-      return response
-    }
+  (response: AxiosResponse) => response,
+  (error: AxiosError) => {
+    const originalRequest = error.config as RetriableRequestConfig | undefined
 
-    // If backend uses { success, data, message } pattern, extract nested data for callers
-    if (response.data && typeof response.data === 'object' && 'data' in response.data) {
-      return { ...response, data: response.data.data }
+    // Expired access token: refresh silently instead of dropping the user's work
+    if (
+      error.response?.status === 401 &&
+      originalRequest &&
+      shouldAttemptRefresh(originalRequest)
+    ) {
+      return refreshAndReplay(originalRequest)
     }
 
-    return response
-  },
-  (error: AxiosError) => {
     // Keep error logs (important) but avoid logging large payloads
     console.error('API Error:', {
       url: error.config?.url,
@@ -56,19 +154,17 @@ apiClient.interceptors.response.use(
     }
 
     if (error.response) {
-      const data = error.response.data as { message?: string; errors?: { [key: string]: string[] } }
+      const data = error.response.data as {
+        message?: string
+        code?: string
+        errors?: { [key: string]: string[] }
+      }
       apiError.message = data.message || 'An error occurred'
+      apiError.code = data.code
       apiError.errors = data.errors
-
-      // Handle unauthorized access
-      if (error.response.status === 401) {
-        // Clear auth state and redirect to login
-        localStorage.removeItem('token')
-        localStorage.removeItem('user')
-        window.location.href = '/login'
-      }
     } else if (error.request) {
       apiError.message = 'Network error. Please check your connection.'
+      apiError.code = 'NETWORK_ERROR'
       console.error('Network error - no response received')
     } else {
       apiError.message = error.message
@@ -79,4 +175,33 @@ apiClient.interceptors.response.use(
   }
 )
 
+/**
+ * Decode a response body against the payload an endpoint is expected to return.
+ * A mismatch is rejected as an ApiError with code DECODE_ERROR, naming the
+ * offending field in `errors`, instead of reaching the UI half-formed.
+ * @example
+ * const response = await apiClient.get('/students')
+ * return decodeResponse(response, envelope(array(studentSchema)))
+ */
+export function decodeResponse<T>(response: AxiosResponse, decoder: Decoder<T>): T {
+  try {
+    return decoder(response.data, '')
+  } catch (error) {
+    if (!(error instanceof DecodeError)) throw error
+
+    console.error('API Decode Error:', {
+      url: response.config?.url,
+      path: error.path,
+      message: error.message,
+    })
+    const apiError: ApiError = {
+      message: 'Unexpected response from server. Please try again or contact support.',
+      status: response.status,
+      code: 'DECODE_ERROR',
+      errors: { [error.path || 'response']: [error.message] },
+    }
+    throw apiError
+  }
+}
+
 export default apiClient
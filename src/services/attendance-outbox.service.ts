@@ -0,0 +1,123 @@
+/**
+ * Attendance Outbox Service
+ *
+ * Persists attendance marks captured while offline in IndexedDB so they
+ * survive reloads and can be replayed in order once the connection is back.
+ */
+
+import { AxiosRequestConfig } from 'axios'
+import { AttendanceRecord, NewOutboxEntry, OutboxEntry, isApiError, isNetworkError } from '@/types'
+import { SCHOOL_HEADER } from '@/utils/constants'
+
+const DB_NAME = 'notified-offline'
+const DB_VERSION = 1
+const STORE_NAME = 'attendance-outbox'
+
+/**
+ * Options accepted by attendance-marking service calls
+ */
+export interface OfflineQueueOptions {
+  /** Save the mark to the outbox when the network is unavailable (default: true) */
+  queueOffline?: boolean
+  /** Send to this school instead of the current one (replaying a queued mark) */
+  schoolId?: string | number | null
+}
+
+/**
+ * Request config that sends a call to the school named in the options
+ */
+export function schoolRequestConfig(options: OfflineQueueOptions): AxiosRequestConfig | undefined {
+  if (options.schoolId === undefined || options.schoolId === null) return undefined
+  return { headers: { [SCHOOL_HEADER]: String(options.schoolId) } }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true })
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Check whether a failed request never reached the server
+ * (no connection, DNS failure, browser offline)
+ */
+export function isOfflineError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true
+  if (isNetworkError(error)) return true
+  return isApiError(error) && error.code === 'NETWORK_ERROR'
+}
+
+/**
+ * Build the provisional records shown in place of server records while an
+ * entry waits for replay
+ */
+export function toPendingRecords(entry: OutboxEntry): AttendanceRecord[] {
+  return entry.studentIds.map((studentId) => ({
+    id: `pending-${entry.id}-${studentId}`,
+    studentId: String(studentId),
+    subjectId: entry.subjectId,
+    date: entry.date,
+    status: entry.attendanceStatus,
+    timeSlot: entry.payload.timeSlot,
+    scheduleSlot: 'scheduleSlot' in entry.payload ? entry.payload.scheduleSlot : undefined,
+    remarks: entry.payload.remarks,
+    createdAt: entry.queuedAt,
+    pendingSync: true,
+  }))
+}
+
+export const attendanceOutboxService = {
+  /**
+   * Get all entries in insertion (replay) order
+   */
+  async getAll(): Promise<OutboxEntry[]> {
+    const entries = await runRequest<OutboxEntry[]>('readonly', (store) => store.getAll())
+    return entries.sort((a, b) => a.id - b.id)
+  },
+
+  /**
+   * Add a new entry; IndexedDB assigns the id
+   */
+  async add(
+    entry: NewOutboxEntry & Pick<OutboxEntry, 'status' | 'queuedAt'>
+  ): Promise<OutboxEntry> {
+    const id = await runRequest<IDBValidKey>('readwrite', (store) => store.add(entry))
+    return { ...entry, id: Number(id) }
+  },
+
+  async put(entry: OutboxEntry): Promise<void> {
+    await runRequest('readwrite', (store) => store.put(entry))
+  },
+
+  async remove(id: number): Promise<void> {
+    await runRequest('readwrite', (store) => store.delete(id))
+  },
+}
@@ -1,11 +1,13 @@
-import apiClient from './api'
+import apiClient, { decodeResponse } from './api'
+import { envelope } from './schemas'
 import { sanitizeString } from '@/utils/validation'
 import { validators, sanitizers, VALIDATION_RULES } from '@/utils/validation-rules'
+import { decoders } from '@/utils/decoding'
 
 interface Attendance {
   id: number
-  studentId: number
-  subjectId: string | number
+  studentId: string | number
+  subjectId?: string | number
   date: string
   status: 'present' | 'absent' | 'late' | 'excused'
   notes?: string
@@ -40,6 +42,35 @@ interface TodayAttendanceStats {
   attendanceRate: number
 }
 
+const { string, number, ref, oneOf, optional, array, object, entity, map } = decoders
+
+/**
+ * Legacy attendance rows; `remarks` (backend name) is read as `notes`
+ */
+const attendanceSchema = map(
+  entity<Attendance & { remarks?: string }>({
+    studentId: ref,
+    subjectId: optional(ref),
+    date: string,
+    status: oneOf(VALIDATION_RULES.ATTENDANCE.STATUS.ALLOWED_VALUES),
+    notes: optional(string),
+    remarks: optional(string),
+  }),
+  ({ remarks, ...attendance }): Attendance => ({
+    ...attendance,
+    notes: attendance.notes ?? remarks,
+  })
+)
+
+const attendanceSummarySchema = object<AttendanceSummary>({
+  totalDays: number,
+  present: number,
+  absent: number,
+  late: number,
+  excused: number,
+  attendanceRate: number,
+})
+
 /**
  * Validate attendance status
  */
@@ -126,18 +157,18 @@ function sanitizeAttendanceData(data: AttendanceFormData): AttendanceFormData {
 
 export const attendanceService = {
   async getAll(): Promise<Attendance[]> {
-    const response = await apiClient.get<Attendance[]>('/attendance')
-    return response.data
+    const response = await apiClient.get('/attendance')
+    return decodeResponse(response, envelope(array(attendanceSchema)))
   },
 
   async getToday(): Promise<Attendance[]> {
-    const response = await apiClient.get<Attendance[]>('/attendance/today')
-    return response.data
+    const response = await apiClient.get('/attendance/today')
+    return decodeResponse(response, envelope(array(attendanceSchema)))
   },
 
   async getSummary(): Promise<AttendanceSummary> {
-    const response = await apiClient.get<AttendanceSummary>('/attendance/summary')
-    return response.data
+    const response = await apiClient.get('/attendance/summary')
+    return decodeResponse(response, envelope(attendanceSummarySchema))
   },
 
   /**
@@ -200,8 +231,8 @@ export const attendanceService = {
       throw new Error('Valid attendance ID is required')
     }
 
-    const response = await apiClient.get<Attendance>(`/attendance/${id}`)
-    return response.data
+    const response = await apiClient.get(`/attendance/${id}`)
+    return decodeResponse(response, envelope(attendanceSchema))
   },
 
   async getByStudent(studentId: number): Promise<Attendance[]> {
@@ -210,8 +241,8 @@ export const attendanceService = {
       throw new Error('Valid student ID is required')
     }
 
-    const response = await apiClient.get<Attendance[]>(`/attendance/student/${studentId}`)
-    return response.data
+    const response = await apiClient.get(`/attendance/student/${studentId}`)
+    return decodeResponse(response, envelope(array(attendanceSchema)))
   },
 
   async getBySubject(subjectId: string | number): Promise<Attendance[]> {
@@ -221,8 +252,8 @@ export const attendanceService = {
       throw new Error('Subject ID is required')
     }
 
-    const response = await apiClient.get<Attendance[]>(`/attendance/subject/${subjectId}`)
-    return response.data
+    const response = await apiClient.get(`/attendance/subject/${subjectId}`)
+    return decodeResponse(response, envelope(array(attendanceSchema)))
   },
 
   async create(data: AttendanceFormData): Promise<Attendance> {
@@ -258,8 +289,8 @@ export const attendanceService = {
     // Sanitize data before submission
     const sanitizedData = sanitizeAttendanceData(data)
 
-    const response = await apiClient.post<Attendance>('/attendance', sanitizedData)
-    return response.data
+    const response = await apiClient.post('/attendance', sanitizedData)
+    return decodeResponse(response, envelope(attendanceSchema))
   },
 
   async update(id: number | string, data: Partial<AttendanceFormData>): Promise<Attendance> {
@@ -302,8 +333,8 @@ export const attendanceService = {
     if (data.notes !== undefined)
       sanitizedData.notes = data.notes ? sanitizeString(data.notes) : undefined
 
-    const response = await apiClient.put<Attendance>(`/attendance/${id}`, sanitizedData)
-    return response.data
+    const response = await apiClient.put(`/attendance/${id}`, sanitizedData)
+    return decodeResponse(response, envelope(attendanceSchema))
   },
 
   async delete(id: number): Promise<void> {
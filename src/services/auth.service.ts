@@ -1,5 +1,21 @@
-import apiClient from './api'
-import { LoginCredentials, SignupData, AuthResponse, User } from '@/types'
+import apiClient, { decodeResponse } from './api'
+import {
+  authResponseSchema,
+  envelope,
+  loginResultSchema,
+  passwordResetTokenSchema,
+  tokenSchema,
+  userSchema,
+} from './schemas'
+import {
+  LoginCredentials,
+  SignupData,
+  AuthResponse,
+  LoginResult,
+  PasswordResetTokenInfo,
+  TwoFactorVerifyData,
+  User,
+} from '@/types'
 import { fetchWithRetry, logError, withTimeout } from '@/utils/errorHandling'
 import { validateEmail, validatePassword, sanitizeString, validateName } from '@/utils/validation'
 import {
@@ -17,10 +33,11 @@ export const authService = {
   /**
    * Authenticate user with email and password
    * @param credentials - User email and password
-   * @returns Authentication response with user data and token
+   * @returns Authentication response with user data and token, or a two-factor
+   * challenge to finish with verifyTwoFactorLogin (see isTwoFactorChallenge)
    * @throws {Error} When validation fails or API request fails
    */
-  async login(credentials: LoginCredentials): Promise<AuthResponse> {
+  async login(credentials: LoginCredentials): Promise<LoginResult> {
     // login attempt for credentials.email
 
     // Comprehensive form validation
@@ -42,25 +59,52 @@ export const authService = {
 
     try {
       const response = await withTimeout(
-        fetchWithRetry(() => apiClient.post<AuthResponse>('/auth/login', sanitizedCredentials)),
+        fetchWithRetry(() => apiClient.post('/auth/login', sanitizedCredentials)),
         15000, // 15 second timeout
         'Login request timeout - Please try again'
       )
 
       // login successful
 
-      return response.data
+      return decodeResponse(response, envelope(loginResultSchema))
     } catch (error) {
       logError('AuthService', 'login', error)
       throw error
     }
   },
 
+  /**
+   * Finish a login that returned a two-factor challenge
+   * @param data - Challenge token and an authenticator or recovery code
+   * @returns Authentication response with user data and token
+   * @throws {ApiError} TWO_FACTOR_INVALID_CODE for a wrong code, or
+   * TWO_FACTOR_CHALLENGE_EXPIRED when the password must be entered again
+   */
+  async verifyTwoFactorLogin(data: TwoFactorVerifyData): Promise<AuthResponse> {
+    const code = data.code.trim()
+    if (!code) {
+      throw new Error('Verification code is required')
+    }
+
+    try {
+      const response = await withTimeout(
+        apiClient.post('/auth/two-factor/verify', { challengeToken: data.challengeToken, code }),
+        15000,
+        'Verification timeout - Please try again'
+      )
+      return decodeResponse(response, envelope(authResponseSchema))
+    } catch (error) {
+      logError('AuthService', 'verifyTwoFactorLogin', error)
+      throw error
+    }
+  },
+
   /**
    * Register a new user account
-   * @param data - User registration data
+   * @param data - User registration data, with the invitation token if there is one
    * @returns Authentication response with user data and token
    * @throws {Error} When validation fails or API request fails
+   * @throws {ApiError} SIGNUP_CLOSED without an invitation while open signup is off
    */
   async signup(data: SignupData): Promise<AuthResponse> {
     // signup attempt
@@ -89,17 +133,18 @@ export const authService = {
       name: sanitizers.name(data.name),
       email: sanitizers.email(data.email),
       password: data.password, // Never modify password
+      ...(data.inviteToken ? { inviteToken: data.inviteToken } : {}),
     }
 
     try {
       const response = await withTimeout(
-        fetchWithRetry(() => apiClient.post<AuthResponse>('/auth/register', sanitizedData)),
+        fetchWithRetry(() => apiClient.post('/auth/register', sanitizedData)),
         15000,
         'Signup request timeout - Please try again'
       )
 
       // signup successful
-      return response.data
+      return decodeResponse(response, envelope(authResponseSchema))
     } catch (error) {
       logError('AuthService', 'signup', error)
       throw error
@@ -127,11 +172,11 @@ export const authService = {
   async getCurrentUser(): Promise<User> {
     try {
       const response = await withTimeout(
-        fetchWithRetry(() => apiClient.get<User>('/auth/me')),
+        fetchWithRetry(() => apiClient.get('/auth/me')),
         10000,
         'Get user request timeout'
       )
-      return response.data
+      return decodeResponse(response, envelope(userSchema))
     } catch (error) {
       logError('AuthService', 'getCurrentUser', error)
       throw error
@@ -140,17 +185,17 @@ export const authService = {
 
   /**
    * Refresh authentication token
-   * @returns New authentication token
+   * @returns New authentication token (accessToken, or legacy token)
    * @throws {Error} When API request fails
    */
-  async refreshToken(): Promise<{ token: string }> {
+  async refreshToken(): Promise<Pick<AuthResponse, 'accessToken' | 'token'>> {
     try {
       const response = await withTimeout(
-        fetchWithRetry(() => apiClient.post<{ token: string }>('/auth/refresh-token')),
+        fetchWithRetry(() => apiClient.post('/auth/refresh-token')),
         10000,
         'Token refresh timeout'
       )
-      return response.data
+      return decodeResponse(response, envelope(tokenSchema))
     } catch (error) {
       logError('AuthService', 'refreshToken', error)
       throw error
@@ -200,6 +245,81 @@ export const authService = {
     }
   },
 
+  /**
+   * Email a password reset link. Resolves the same way whether or not an
+   * account exists for the email.
+   * @param email - Email address of the account to recover
+   * @throws {Error} When validation fails or API request fails
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const emailValidation = validators.email(email)
+    if (!emailValidation.isValid) {
+      throw new Error(emailValidation.error)
+    }
+
+    try {
+      await withTimeout(
+        apiClient.post('/auth/forgot-password', { email: sanitizers.email(email) }),
+        15000,
+        'Password reset request timeout - Please try again'
+      )
+    } catch (error) {
+      logError('AuthService', 'requestPasswordReset', error)
+      throw error
+    }
+  },
+
+  /**
+   * Check that a password reset link can still be used
+   * @param token - Token from the reset link
+   * @returns Masked account email and link expiry
+   * @throws {ApiError} With code RESET_TOKEN_EXPIRED, RESET_TOKEN_USED or RESET_TOKEN_INVALID
+   */
+  async verifyResetToken(token: string): Promise<PasswordResetTokenInfo> {
+    try {
+      const response = await withTimeout(
+        fetchWithRetry(() => apiClient.get(`/auth/reset-password/${encodeURIComponent(token)}`)),
+        10000,
+        'Reset link check timeout'
+      )
+      return decodeResponse(response, envelope(passwordResetTokenSchema))
+    } catch (error) {
+      logError('AuthService', 'verifyResetToken', error)
+      throw error
+    }
+  },
+
+  /**
+   * Set a new password using a reset link. The link cannot be used again.
+   * @param token - Token from the reset link
+   * @param newPassword - The new password
+   * @throws {Error} When validation fails or API request fails
+   */
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    const passwordValidation = validators.password(newPassword)
+    if (!passwordValidation.isValid) {
+      throw new Error(passwordValidation.error)
+    }
+
+    const strengthCheck = validators.passwordStrength(newPassword)
+    if (!strengthCheck.isValid) {
+      throw new Error(strengthCheck.error)
+    }
+
+    try {
+      await withTimeout(
+        apiClient.post(`/auth/reset-password/${encodeURIComponent(token)}`, {
+          password: newPassword,
+        }),
+        15000,
+        'Password reset timeout - Please try again'
+      )
+    } catch (error) {
+      logError('AuthService', 'resetPassword', error)
+      throw error
+    }
+  },
+
   /**
    * Update user profile information
    * @param data - Partial user data to update
@@ -242,12 +362,12 @@ export const authService = {
 
     try {
       const response = await withTimeout(
-        apiClient.put<User>('/auth/update-profile', sanitizedData),
+        apiClient.put('/auth/update-profile', sanitizedData),
         10000,
         'Update profile timeout'
       )
       // profile updated successfully
-      return response.data
+      return decodeResponse(response, envelope(userSchema))
     } catch (error) {
       logError('AuthService', 'updateProfile', error)
       throw error
@@ -1,6 +1,9 @@
-import api from './api'
+import api, { decodeResponse } from './api'
+import { envelope, paginated } from './schemas'
 import type { EmailData } from '@/components/modals/EmailModal'
-import { logError } from '@/utils/errorHandling'
+import { decoders } from '@/utils/decoding'
+import { isApiError } from '@/types'
+import { getErrorMessage, logError } from '@/utils/errorHandling'
 
 /**
  * Email Service
@@ -18,16 +21,16 @@ export interface EmailResponse {
 }
 
 export interface EmailHistoryRecord {
-  _id: string
+  readonly id: string
   recordType: string
   recordData: string
   performedBy: {
-    _id: string
+    id: string
     name: string
     email: string
   }
   student?: {
-    _id: string
+    id: string
     studentNumber: string
     firstName: string
     lastName: string
@@ -50,8 +53,31 @@ export interface EmailHistoryResponse {
   total: number
   page: number
   limit: number
+  totalPages: number
 }
 
+const { string, number, boolean, optional, object, entity } = decoders
+
+const emailResponseSchema = object<EmailResponse>({
+  success: boolean,
+  message: string,
+  emailsSent: optional(number),
+})
+
+const emailHistoryRecordSchema = entity<EmailHistoryRecord>({
+  recordType: string,
+  recordData: string,
+  performedBy: entity<EmailHistoryRecord['performedBy']>({ name: string, email: string }),
+  student: optional(
+    entity<NonNullable<EmailHistoryRecord['student']>>({
+      studentNumber: string,
+      firstName: string,
+      lastName: string,
+    })
+  ),
+  createdAt: string,
+})
+
 /**
  * Send email to one or more recipients
  * @param emailData - Email data including recipients, subject, message, and optional attachments
@@ -66,24 +92,24 @@ export async function sendEmail(emailData: EmailData): Promise<boolean> {
 
     if (recipients.length === 1) {
       // Single recipient - direct send
-      const response = await api.post<EmailResponse>('/emails/send', {
+      const response = await api.post('/emails/send', {
         to: recipients[0],
         subject: emailData.subject,
         message: emailData.message,
         attachments: emailData.attachments,
       })
       // email sent successfully
-      return response.data.success
+      return decodeResponse(response, envelope(emailResponseSchema)).success
     } else {
       // Multiple recipients - batch send
-      const response = await api.post<EmailResponse>('/emails/send-bulk', {
+      const response = await api.post('/emails/send-bulk', {
         recipients,
         subject: emailData.subject,
         message: emailData.message,
         attachments: emailData.attachments,
       })
       // bulk email sent successfully
-      return response.data.success
+      return decodeResponse(response, envelope(emailResponseSchema)).success
     }
   } catch (error: any) {
     logError('EmailService', 'sendEmail', error)
@@ -135,14 +161,14 @@ export async function sendGuardianEmail(
 ): Promise<boolean> {
   try {
     // sending guardian email
-    const response = await api.post<EmailResponse>('/emails/send-guardian', {
+    const response = await api.post('/emails/send-guardian', {
       studentId,
       guardianEmail,
       subject,
       message,
     })
 
-    return response.data.success
+    return decodeResponse(response, envelope(emailResponseSchema)).success
   } catch (error: any) {
     logError('EmailService', 'sendGuardianEmail', error)
 
@@ -161,6 +187,37 @@ export async function sendGuardianEmail(
   }
 }
 
+/**
+ * Email every guardian of a student who receives attendance alerts
+ * @param studentId - Student ID
+ * @param subject - Email subject
+ * @param message - Email message
+ * @returns Promise<number> - How many guardians were emailed
+ */
+export async function notifyGuardians(
+  studentId: string | number,
+  subject: string,
+  message: string
+): Promise<number> {
+  try {
+    const response = await api.post('/emails/send-guardian', { studentId, subject, message })
+    return decodeResponse(response, envelope(emailResponseSchema)).emailsSent ?? 0
+  } catch (error) {
+    logError('EmailService', 'notifyGuardians', error)
+
+    // The api client rejects with an ApiError, so the server's reason is in `message`
+    if (isApiError(error) && error.status === 403) {
+      throw new Error(error.message || 'Permission denied')
+    } else if (isApiError(error) && error.status === 429) {
+      throw new Error(
+        error.message || 'Rate limit exceeded. Please wait before sending more emails.'
+      )
+    }
+
+    throw new Error(getErrorMessage(error, 'Failed to notify guardians'))
+  }
+}
+
 /**
  * Get email configuration status
  * @returns Promise with email server configuration status
@@ -170,8 +227,11 @@ export async function getEmailConfig(): Promise<{
   provider?: string
 }> {
   try {
-    const response = await api.get<{ configured: boolean; provider?: string }>('/emails/config')
-    return response.data
+    const response = await api.get('/emails/config')
+    return decodeResponse(
+      response,
+      envelope(object({ configured: boolean, provider: optional(string) }))
+    )
   } catch (error) {
     logError('EmailService', 'getEmailConfig', error)
     return { configured: false }
@@ -185,8 +245,8 @@ export async function getEmailConfig(): Promise<{
  */
 export async function testEmailConfig(testEmail: string): Promise<boolean> {
   try {
-    const response = await api.post<EmailResponse>('/emails/test', { email: testEmail })
-    return response.data.success
+    const response = await api.post('/emails/test', { email: testEmail })
+    return decodeResponse(response, envelope(emailResponseSchema)).success
   } catch (error) {
     logError('EmailService', 'testEmailConfig', error)
     return false
@@ -199,48 +259,39 @@ export async function testEmailConfig(testEmail: string): Promise<boolean> {
  * @param limit - Items per page (default: 20)
  * @param startDate - Optional start date filter
  * @param endDate - Optional end date filter
+ * @param search - Optional search across subject, recipients and sender
  * @returns Promise<EmailHistoryResponse> - Paginated email history
  */
 export async function getEmailHistory(
   page: number = 1,
   limit: number = 20,
   startDate?: string,
-  endDate?: string
+  endDate?: string,
+  search?: string
 ): Promise<EmailHistoryResponse> {
   try {
-    const params = new URLSearchParams()
-    params.append('page', page.toString())
-    params.append('limit', limit.toString())
-    if (startDate) params.append('startDate', startDate)
-    if (endDate) params.append('endDate', endDate)
-
-    const response = await api.get<any>(`/emails/history?${params.toString()}`)
-
-    // Handle different response formats
-    if (response.data.data) {
-      return {
-        emails: response.data.data.emails || response.data.data,
-        total: response.data.data.total || 0,
-        page: response.data.data.page || page,
-        limit: response.data.data.limit || limit,
-      }
-    }
+    const response = await api.get('/emails/history', {
+      params: { page, limit, startDate, endDate, search: search || undefined },
+    })
+    const { data, pagination } = decodeResponse(response, paginated(emailHistoryRecordSchema))
 
     return {
-      emails: response.data.emails || response.data,
-      total: response.data.total || 0,
-      page: response.data.page || page,
-      limit: response.data.limit || limit,
+      emails: data,
+      total: pagination.totalItems,
+      page: pagination.currentPage,
+      limit: pagination.itemsPerPage,
+      totalPages: pagination.totalPages,
     }
   } catch (error) {
     logError('EmailService', 'getEmailHistory', error)
-    throw new Error('Failed to fetch email history')
+    throw error
   }
 }
 
 export default {
   sendEmail,
   sendGuardianEmail,
+  notifyGuardians,
   getEmailConfig,
   testEmailConfig,
   getEmailHistory,
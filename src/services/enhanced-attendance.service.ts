@@ -14,7 +14,15 @@
  * - Extends attendance.service.ts with advanced features
  */
 
-import api from './api'
+import api, { decodeResponse } from './api'
+import {
+  attendanceRecordSchema,
+  attendanceSummarySchema,
+  envelope,
+  importResultSchema,
+  studentAttendanceSummarySchema,
+  subjectAttendanceSummarySchema,
+} from './schemas'
 import {
   AttendanceRecord,
   AttendanceFormData,
@@ -24,16 +32,30 @@ import {
   SubjectAttendanceSummary,
   AttendanceFilters,
   ImportResult,
-  ApiResponse,
 } from '@/types'
+import { decoders } from '@/utils/decoding'
+import { getSessionScope } from '@/store/authStore'
+import { useOutboxStore } from '@/store/outboxStore'
+import {
+  isOfflineError,
+  schoolRequestConfig,
+  toPendingRecords,
+  OfflineQueueOptions,
+} from './attendance-outbox.service'
+
+const { array } = decoders
 
 export const enhancedAttendanceService = {
   /**
    * Mark attendance for a single student
    * @param data - Attendance form data
-   * @returns Created attendance record
+   * @param options - Offline queueing options
+   * @returns Created attendance record, or a pending record when queued offline
    */
-  async markAttendance(data: AttendanceFormData): Promise<AttendanceRecord> {
+  async markAttendance(
+    data: AttendanceFormData,
+    options: OfflineQueueOptions = {}
+  ): Promise<AttendanceRecord> {
     // Normalize field names coming from UI and ensure date is ISO string
     const studentId = (data as any).studentId || (data as any).student || (data as any).student_id
     const subjectId = (data as any).subjectId || (data as any).subject || (data as any).subject_id
@@ -58,8 +80,45 @@ export const enhancedAttendanceService = {
       body.subjectId = String(subjectId)
     }
 
-    const response = await api.post<ApiResponse<AttendanceRecord>>('/attendance/mark', body)
-    return response.data.data
+    try {
+      const response = await api.post('/attendance/mark', body, schoolRequestConfig(options))
+      return decodeResponse(response, envelope(attendanceRecordSchema))
+    } catch (error) {
+      if (options.queueOffline === false || !isOfflineError(error)) throw error
+
+      const entry = await useOutboxStore.getState().enqueue({
+        operation: 'mark',
+        payload: { ...body, timeSlot: (data as any).timeSlot },
+        ...getSessionScope(),
+        subjectId: body.subjectId,
+        studentIds: [studentId],
+        date: dateIso.split('T')[0],
+        attendanceStatus: body.status,
+      })
+      return toPendingRecords(entry)[0]
+    }
+  },
+
+  /**
+   * Find the record that already exists for a student on a given day
+   * Used to open the editor when marking returns 409 (already marked)
+   * @param studentId - Student ID
+   * @param subjectId - Optional subject ID
+   * @param date - Date in YYYY-MM-DD format (defaults to today)
+   * @returns Existing attendance record, or null if none was found
+   */
+  async findExistingRecord(
+    studentId: string | number,
+    subjectId?: string | number,
+    date?: string
+  ): Promise<AttendanceRecord | null> {
+    const targetDate = date || new Date().toISOString().split('T')[0]
+    const records = await this.getAttendanceRecords({
+      studentId: studentId as number,
+      subjectId,
+      dateRange: { startDate: targetDate, endDate: targetDate },
+    })
+    return records.length > 0 ? records[0] : null
   },
 
   /**
@@ -68,8 +127,8 @@ export const enhancedAttendanceService = {
    * @returns Array of created attendance records
    */
   async markBulkAttendance(data: BulkAttendanceData): Promise<AttendanceRecord[]> {
-    const response = await api.post<ApiResponse<AttendanceRecord[]>>('/attendance/bulk-mark', data)
-    return response.data.data
+    const response = await api.post('/attendance/bulk-mark', data)
+    return decodeResponse(response, envelope(array(attendanceRecordSchema)))
   },
 
   /**
@@ -78,10 +137,10 @@ export const enhancedAttendanceService = {
    * @returns Filtered attendance records
    */
   async getAttendanceRecords(filters?: AttendanceFilters): Promise<AttendanceRecord[]> {
-    const response = await api.get<ApiResponse<AttendanceRecord[]>>('/attendance/records', {
+    const response = await api.get('/attendance/records', {
       params: filters,
     })
-    return response.data.data
+    return decodeResponse(response, envelope(array(attendanceRecordSchema)))
   },
 
   /**
@@ -91,10 +150,8 @@ export const enhancedAttendanceService = {
    */
   async getDailySummary(date?: string): Promise<AttendanceSummary> {
     const targetDate = date || new Date().toISOString().split('T')[0]
-    const response = await api.get<ApiResponse<AttendanceSummary>>(
-      `/attendance/summary/daily/${targetDate}`
-    )
-    return response.data.data
+    const response = await api.get(`/attendance/summary/daily/${targetDate}`)
+    return decodeResponse(response, envelope(attendanceSummarySchema))
   },
 
   /**
@@ -104,10 +161,10 @@ export const enhancedAttendanceService = {
    * @returns Array of daily summaries
    */
   async getDateRangeSummary(startDate: string, endDate: string): Promise<AttendanceSummary[]> {
-    const response = await api.get<ApiResponse<AttendanceSummary[]>>('/attendance/summary/range', {
+    const response = await api.get('/attendance/summary/range', {
       params: { startDate, endDate },
     })
-    return response.data.data
+    return decodeResponse(response, envelope(array(attendanceSummarySchema)))
   },
 
   /**
@@ -122,13 +179,10 @@ export const enhancedAttendanceService = {
     startDate?: string,
     endDate?: string
   ): Promise<StudentAttendanceSummary> {
-    const response = await api.get<ApiResponse<StudentAttendanceSummary>>(
-      `/attendance/summary/student/${studentId}`,
-      {
-        params: { startDate, endDate },
-      }
-    )
-    return response.data.data
+    const response = await api.get(`/attendance/summary/student/${studentId}`, {
+      params: { startDate, endDate },
+    })
+    return decodeResponse(response, envelope(studentAttendanceSummarySchema))
   },
 
   /**
@@ -143,13 +197,10 @@ export const enhancedAttendanceService = {
     startDate?: string,
     endDate?: string
   ): Promise<SubjectAttendanceSummary> {
-    const response = await api.get<ApiResponse<SubjectAttendanceSummary>>(
-      `/attendance/summary/subject/${subjectId}`,
-      {
-        params: { startDate, endDate },
-      }
-    )
-    return response.data.data
+    const response = await api.get(`/attendance/summary/subject/${subjectId}`, {
+      params: { startDate, endDate },
+    })
+    return decodeResponse(response, envelope(subjectAttendanceSummarySchema))
   },
 
   /**
@@ -162,13 +213,10 @@ export const enhancedAttendanceService = {
     startDate?: string,
     endDate?: string
   ): Promise<StudentAttendanceSummary[]> {
-    const response = await api.get<ApiResponse<StudentAttendanceSummary[]>>(
-      '/attendance/summary/students',
-      {
-        params: { startDate, endDate },
-      }
-    )
-    return response.data.data
+    const response = await api.get('/attendance/summary/students', {
+      params: { startDate, endDate },
+    })
+    return decodeResponse(response, envelope(array(studentAttendanceSummarySchema)))
   },
 
   /**
@@ -180,43 +228,13 @@ export const enhancedAttendanceService = {
     const formData = new FormData()
     formData.append('file', file)
 
-    const response = await api.post<ApiResponse<ImportResult>>(
-      '/attendance/import/excel',
-      formData,
-      {
-        headers: {
-          'Content-Type': 'multipart/form-data',
-        },
-      }
-    )
-
-    // Normalize different possible response shapes to a stable ImportResult
-    const payload = response?.data?.data ?? response?.data ?? null
-
-    if (!payload) {
-      // Helpful error for debugging and to allow caller to show a nice message
-      throw new Error('Empty or unexpected import response from server')
-    }
-
-    // Ensure result contains the expected fields with safe defaults
-    const result: ImportResult = {
-      success:
-        typeof (payload as any).success === 'number'
-          ? (payload as any).success
-          : Array.isArray((payload as any).imported)
-            ? (payload as any).imported.length
-            : 0,
-      failed:
-        typeof (payload as any).failed === 'number'
-          ? (payload as any).failed
-          : Array.isArray((payload as any).errors)
-            ? (payload as any).errors.length
-            : 0,
-      errors: Array.isArray((payload as any).errors) ? (payload as any).errors : [],
-      imported: Array.isArray((payload as any).imported) ? (payload as any).imported : [],
-    }
+    const response = await api.post('/attendance/import/excel', formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    })
 
-    return result
+    return decodeResponse(response, envelope(importResultSchema))
   },
 
   /**
@@ -0,0 +1,97 @@
+/**
+ * Guardian Service
+ *
+ * Parents and guardians shared between students. Links to students are saved
+ * with the student (`StudentFormData.guardians`).
+ */
+
+import apiClient, { decodeResponse } from './api'
+import { envelope, guardianSchema } from './schemas'
+import { Guardian, GuardianFormData } from '@/types'
+import { decoders } from '@/utils/decoding'
+import { logError, withTimeout } from '@/utils/errorHandling'
+import { sanitizers, validators } from '@/utils/validation-rules'
+
+const { array } = decoders
+
+/**
+ * Check a guardian's fields; throws with the first problem found
+ */
+function validateGuardian(data: GuardianFormData) {
+  const checks = [
+    validators.personName(data.name, 'Guardian name'),
+    data.email ? validators.email(data.email) : { isValid: true },
+    data.contact ? validators.contact(data.contact) : { isValid: true },
+  ]
+  const failed = checks.find((result) => !result.isValid) as { error?: string } | undefined
+  if (failed) throw new Error(failed.error)
+}
+
+function sanitizeGuardianData(data: GuardianFormData): GuardianFormData {
+  return {
+    name: sanitizers.input(data.name),
+    email: data.email ? sanitizers.email(data.email) : '',
+    contact: data.contact ? sanitizers.phone(data.contact) : '',
+    preferredChannel: data.preferredChannel,
+  }
+}
+
+export const guardianService = {
+  /**
+   * Get guardians, optionally filtered by name, email or phone number
+   * @param search - Text to match
+   */
+  async getAll(search?: string): Promise<Guardian[]> {
+    try {
+      const response = await withTimeout(
+        apiClient.get('/guardians', { params: { search: search || undefined } }),
+        10000,
+        'Failed to load guardians - Request timeout'
+      )
+      return decodeResponse(response, envelope(array(guardianSchema)))
+    } catch (error) {
+      logError('GuardianService', 'getAll', error)
+      throw error
+    }
+  },
+
+  /**
+   * Create a guardian, ready to be linked to students
+   * @param data - Guardian details (validated before sending)
+   * @throws {Error} When validation fails or another guardian has the email
+   */
+  async create(data: GuardianFormData): Promise<Guardian> {
+    validateGuardian(data)
+    try {
+      const response = await withTimeout(
+        apiClient.post('/guardians', sanitizeGuardianData(data)),
+        15000,
+        'Failed to create guardian - Request timeout'
+      )
+      return decodeResponse(response, envelope(guardianSchema))
+    } catch (error) {
+      logError('GuardianService', 'create', error)
+      throw error
+    }
+  },
+
+  /**
+   * Update a guardian; the change shows on every student they are linked to
+   * @param id - Guardian ID
+   * @param data - Guardian details (validated before sending)
+   */
+  async update(id: number, data: GuardianFormData): Promise<Guardian> {
+    validateGuardian(data)
+    try {
+      const response = await withTimeout(
+        apiClient.put(`/guardians/${id}`, sanitizeGuardianData(data)),
+        15000,
+        'Failed to update guardian - Request timeout'
+      )
+      return decodeResponse(response, envelope(guardianSchema))
+    } catch (error) {
+      logError('GuardianService', 'update', error)
+      throw error
+    }
+  },
+}
@@ -0,0 +1,145 @@
+/**
+ * ID Card Service
+ *
+ * Card templates and the log of printed student ID cards. The cards themselves
+ * are laid out in the browser (see utils/idCardSheets.ts); printing a run is
+ * recorded here so reprints of the same NFC card are tracked.
+ */
+
+import apiClient, { decodeResponse } from './api'
+import { envelope, idCardPrintSchema, idCardTemplateSchema } from './schemas'
+import { IdCardPrint, IdCardPrintRequest, IdCardTemplate, IdCardTemplateFormData } from '@/types'
+import { validateIdCardTemplate } from '@/utils/business-validation'
+import { decoders } from '@/utils/decoding'
+import { logError, withTimeout } from '@/utils/errorHandling'
+import { sanitizers } from '@/utils/validation-rules'
+
+const { array } = decoders
+
+/**
+ * Check a template's fields; throws with the first problem found
+ */
+function validateTemplate(data: IdCardTemplateFormData) {
+  const validation = validateIdCardTemplate(data)
+  if (!validation.isValid) {
+    throw new Error(Object.values(validation.errors)[0])
+  }
+}
+
+function sanitizeTemplate(data: IdCardTemplateFormData): IdCardTemplateFormData {
+  return {
+    ...data,
+    name: sanitizers.input(data.name),
+    title: sanitizers.input(data.title),
+    accentColor: data.accentColor.trim(),
+    backText: sanitizers.input(data.backText),
+  }
+}
+
+export const idCardService = {
+  /**
+   * Get the school's card templates
+   */
+  async getTemplates(): Promise<IdCardTemplate[]> {
+    try {
+      const response = await apiClient.get('/id-card-templates')
+      return decodeResponse(response, envelope(array(idCardTemplateSchema)))
+    } catch (error) {
+      logError('IdCardService', 'getTemplates', error)
+      throw error
+    }
+  },
+
+  /**
+   * Create a card template (manage_school_settings)
+   * @param data - Template layout (validated before sending)
+   */
+  async createTemplate(data: IdCardTemplateFormData): Promise<IdCardTemplate> {
+    validateTemplate(data)
+    try {
+      const response = await withTimeout(
+        apiClient.post('/id-card-templates', sanitizeTemplate(data)),
+        10000,
+        'Failed to create card template - Request timeout'
+      )
+      return decodeResponse(response, envelope(idCardTemplateSchema))
+    } catch (error) {
+      logError('IdCardService', 'createTemplate', error)
+      throw error
+    }
+  },
+
+  /**
+   * Update a card template (manage_school_settings)
+   * @param id - Template ID
+   * @param data - Template layout (validated before sending)
+   */
+  async updateTemplate(
+    id: IdCardTemplate['id'],
+    data: IdCardTemplateFormData
+  ): Promise<IdCardTemplate> {
+    validateTemplate(data)
+    try {
+      const response = await withTimeout(
+        apiClient.put(`/id-card-templates/${id}`, sanitizeTemplate(data)),
+        10000,
+        'Failed to update card template - Request timeout'
+      )
+      return decodeResponse(response, envelope(idCardTemplateSchema))
+    } catch (error) {
+      logError('IdCardService', 'updateTemplate', error)
+      throw error
+    }
+  },
+
+  /**
+   * Delete a card template; the last one can't be deleted
+   * @param id - Template ID
+   */
+  async deleteTemplate(id: IdCardTemplate['id']): Promise<void> {
+    try {
+      await apiClient.delete(`/id-card-templates/${id}`)
+    } catch (error) {
+      logError('IdCardService', 'deleteTemplate', error)
+      throw error
+    }
+  },
+
+  /**
+   * Printed cards for the given students, newest first
+   * @param studentIds - Students to look up
+   */
+  async getPrints(studentIds: number[]): Promise<IdCardPrint[]> {
+    try {
+      const response = await apiClient.get('/students/id-cards/prints', {
+        params: { studentIds: studentIds.join(',') },
+      })
+      return decodeResponse(response, envelope(array(idCardPrintSchema)))
+    } catch (error) {
+      logError('IdCardService', 'getPrints', error)
+      throw error
+    }
+  },
+
+  /**
+   * Record a print run, one card per student tied to their current NFC card
+   * @param data - Students, template and the reason when any card is a reprint
+   * @throws {Error} When a card is a reprint and no reason is given
+   */
+  async recordPrints(data: IdCardPrintRequest): Promise<IdCardPrint[]> {
+    try {
+      const response = await withTimeout(
+        apiClient.post('/students/id-cards/prints', {
+          ...data,
+          reason: data.reason ? sanitizers.input(data.reason) : undefined,
+        }),
+        15000,
+        'Failed to record printed cards - Request timeout'
+      )
+      return decodeResponse(response, envelope(array(idCardPrintSchema)))
+    } catch (error) {
+      logError('IdCardService', 'recordPrints', error)
+      throw error
+    }
+  },
+}
@@ -0,0 +1,138 @@
+/**
+ * Invitation Service
+ *
+ * Admin invitations that let someone sign up with a preset role, the public
+ * check behind /signup?invite=TOKEN, and the setting that turns open signup
+ * off. Registering with an invitation goes through authService.signup.
+ */
+
+import apiClient, { decodeResponse } from './api'
+import {
+  createdInvitationSchema,
+  envelope,
+  invitationSchema,
+  invitationTokenSchema,
+  signupPolicySchema,
+} from './schemas'
+import {
+  CreatedInvitation,
+  Invitation,
+  InvitationFormData,
+  InvitationTokenInfo,
+  SignupPolicy,
+} from '@/types'
+import { decoders } from '@/utils/decoding'
+import { logError, withTimeout } from '@/utils/errorHandling'
+import { sanitizers, validators } from '@/utils/validation-rules'
+
+const { array } = decoders
+
+/**
+ * Signup link for an invitation token
+ */
+export function getInviteUrl(token: string): string {
+  return `${window.location.origin}/signup?invite=${encodeURIComponent(token)}`
+}
+
+export const invitationService = {
+  /**
+   * Every invitation, newest first (requires MANAGE_USERS)
+   */
+  async getAll(): Promise<Invitation[]> {
+    try {
+      const response = await apiClient.get('/invitations')
+      return decodeResponse(response, envelope(array(invitationSchema)))
+    } catch (error) {
+      logError('InvitationService', 'getAll', error)
+      throw error
+    }
+  },
+
+  /**
+   * Invite an email address. A pending invitation for the same address is
+   * replaced.
+   * @returns The invitation with its token, which is not returned again
+   * @throws {ApiError} 409 when an account already uses the email
+   */
+  async create(data: InvitationFormData): Promise<CreatedInvitation> {
+    const emailValidation = validators.email(data.email)
+    if (!emailValidation.isValid) {
+      throw new Error(emailValidation.error)
+    }
+
+    try {
+      const response = await withTimeout(
+        apiClient.post('/invitations', { ...data, email: sanitizers.email(data.email) }),
+        15000,
+        'Invitation request timeout - Please try again'
+      )
+      return decodeResponse(response, envelope(createdInvitationSchema))
+    } catch (error) {
+      logError('InvitationService', 'create', error)
+      throw error
+    }
+  },
+
+  /**
+   * Revoke a pending invitation; its link stops working
+   */
+  async revoke(id: Invitation['id']): Promise<Invitation> {
+    try {
+      const response = await apiClient.delete(`/invitations/${id}`)
+      return decodeResponse(response, envelope(invitationSchema))
+    } catch (error) {
+      logError('InvitationService', 'revoke', error)
+      throw error
+    }
+  },
+
+  /**
+   * Check that an invitation link can still be used
+   * @param token - Token from the invitation link
+   * @throws {ApiError} With code INVITE_EXPIRED, INVITE_USED, INVITE_REVOKED or INVITE_INVALID
+   */
+  async verifyToken(token: string): Promise<InvitationTokenInfo> {
+    try {
+      const response = await withTimeout(
+        apiClient.get(`/auth/invitations/${encodeURIComponent(token)}`),
+        10000,
+        'Invitation check timeout'
+      )
+      return decodeResponse(response, envelope(invitationTokenSchema))
+    } catch (error) {
+      logError('InvitationService', 'verifyToken', error)
+      throw error
+    }
+  },
+
+  /**
+   * Whether signup without an invitation is allowed (public)
+   */
+  async getSignupPolicy(): Promise<SignupPolicy> {
+    try {
+      const response = await apiClient.get('/auth/signup-policy')
+      return decodeResponse(response, envelope(signupPolicySchema))
+    } catch (error) {
+      logError('InvitationService', 'getSignupPolicy', error)
+      throw error
+    }
+  },
+
+  /**
+   * Turn open signup on or off (requires MANAGE_USERS). Invitations keep
+   * working either way.
+   */
+  async updateSignupPolicy(policy: SignupPolicy): Promise<SignupPolicy> {
+    try {
+      const response = await withTimeout(
+        apiClient.put('/auth/signup-policy', policy),
+        10000,
+        'Signup policy update timeout'
+      )
+      return decodeResponse(response, envelope(signupPolicySchema))
+    } catch (error) {
+      logError('InvitationService', 'updateSignupPolicy', error)
+      throw error
+    }
+  },
+}
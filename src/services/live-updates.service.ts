@@ -0,0 +1,129 @@
+/**
+ * Live Updates Service
+ *
+ * Subscribes to the backend's server-sent event stream (GET /events/stream) so
+ * attendance marked in another tab or by another instructor shows up without a
+ * refresh. In mock mode the stream comes from the in-browser mock backend.
+ */
+
+import { LiveConnectionStatus, LiveEvent, LiveEventType } from '@/types'
+import { API_BASE_URL } from '@/utils/constants'
+import { DecodeError } from '@/utils/decoding'
+import { logError } from '@/utils/errorHandling'
+import { useAuthStore } from '@/store/authStore'
+import { isMockApiEnabled } from '@/mocks/config'
+import apiClient, { decodeResponse } from './api'
+import { envelope, liveEventSchemas, liveStreamTicketSchema } from './schemas'
+
+// Reconnect delays grow from 1s to 30s while the stream stays down
+const INITIAL_RETRY_DELAY = 1000
+const MAX_RETRY_DELAY = 30 * 1000
+
+// EventSource.CLOSED; spelled out so the mock stream works where EventSource is undefined
+const STREAM_CLOSED = 2
+
+const EVENT_TYPES = Object.keys(liveEventSchemas) as LiveEventType[]
+
+type StreamSource = Pick<EventSource, 'readyState' | 'onopen' | 'onerror' | 'close'> & EventTarget
+
+export interface LiveUpdateHandlers {
+  onEvent: (event: LiveEvent) => void
+  onStatusChange: (status: LiveConnectionStatus) => void
+}
+
+async function openStream(): Promise<StreamSource> {
+  // EventSource cannot set headers, so the URL carries a single-use ticket
+  // rather than the access token, keeping the token out of access logs and
+  // history. The ticket request is authenticated and scoped to the current
+  // school like any other call.
+  const response = await apiClient.post('/events/ticket')
+  const { ticket } = decodeResponse(response, envelope(liveStreamTicketSchema))
+  const url = `${API_BASE_URL}/events/stream?${new URLSearchParams({ ticket }).toString()}`
+  if (isMockApiEnabled()) {
+    const { MockEventSource } = await import('@/mocks/events')
+    return new MockEventSource(url) as unknown as StreamSource
+  }
+  return new EventSource(url, { withCredentials: true })
+}
+
+function decodeEvent(type: LiveEventType, message: MessageEvent): LiveEvent | null {
+  try {
+    const body = JSON.parse(message.data)
+    return liveEventSchemas[type]({ ...body, type }, 'event')
+  } catch (error) {
+    if (error instanceof DecodeError) {
+      console.error('Live Event Decode Error:', { type, path: error.path, message: error.message })
+    } else {
+      logError('LiveUpdatesService', 'decodeEvent', error)
+    }
+    return null
+  }
+}
+
+export const liveUpdatesService = {
+  /**
+   * Connect to the event stream, reconnecting with backoff when it drops.
+   * Each reconnect fetches a fresh stream ticket with the current access token.
+   * @param handlers - Called for each decoded event and on connection state changes
+   * @returns Function that closes the stream and stops reconnecting
+   */
+  connect(handlers: LiveUpdateHandlers): () => void {
+    let source: StreamSource | null = null
+    let retryTimer: ReturnType<typeof setTimeout> | undefined
+    let retryDelay = INITIAL_RETRY_DELAY
+    let stopped = false
+
+    const scheduleReconnect = () => {
+      handlers.onStatusChange('reconnecting')
+      retryTimer = setTimeout(start, retryDelay)
+      retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY)
+    }
+
+    async function start() {
+      if (stopped || !useAuthStore.getState().token) return
+
+      handlers.onStatusChange('connecting')
+      try {
+        source = await openStream()
+      } catch (error) {
+        logError('LiveUpdatesService', 'connect', error)
+        scheduleReconnect()
+        return
+      }
+      if (stopped) {
+        source.close()
+        return
+      }
+
+      source.onopen = () => {
+        retryDelay = INITIAL_RETRY_DELAY
+        handlers.onStatusChange('open')
+      }
+      source.onerror = () => {
+        // EventSource retries transient drops itself; only a CLOSED stream
+        // (e.g. rejected token) needs a fresh connection
+        if (source?.readyState === STREAM_CLOSED && !stopped) {
+          source.close()
+          scheduleReconnect()
+        } else if (!stopped) {
+          handlers.onStatusChange('reconnecting')
+        }
+      }
+      EVENT_TYPES.forEach((type) => {
+        source?.addEventListener(type, (message) => {
+          const event = decodeEvent(type, message as MessageEvent)
+          if (event) handlers.onEvent(event)
+        })
+      })
+    }
+
+    start()
+
+    return () => {
+      stopped = true
+      clearTimeout(retryTimer)
+      source?.close()
+      handlers.onStatusChange('idle')
+    }
+  },
+}
@@ -0,0 +1,176 @@
+/**
+ * NFC Card Service
+ *
+ * The registry of physical NFC cards: who holds each card, cards reported
+ * lost or revoked (readers reject them), replacements and each card's history.
+ * A student's `nfcId` mirrors the card the registry has them on.
+ */
+
+import apiClient, { decodeResponse } from './api'
+import { envelope, nfcCardEventSchema, nfcCardSchema } from './schemas'
+import {
+  NfcCard,
+  NfcCardAssignRequest,
+  NfcCardEvent,
+  NfcCardFilters,
+  NfcCardReplaceRequest,
+} from '@/types'
+import { decoders } from '@/utils/decoding'
+import { logError, withTimeout } from '@/utils/errorHandling'
+import { normalizeNfcUid } from '@/utils/nfcCards'
+import { sanitizers, validators } from '@/utils/validation-rules'
+
+const { array } = decoders
+
+/**
+ * Normalize a UID from a reader or the keyboard
+ * @throws {Error} When it isn't an 8-32 character hexadecimal UID
+ */
+function readUid(value: string): string {
+  const uid = normalizeNfcUid(value)
+  const validation = validators.nfcId(uid)
+  if (!validation.isValid) {
+    throw new Error(validation.error || 'Invalid NFC ID')
+  }
+  return uid
+}
+
+const reasonOrUndefined = (reason?: string) =>
+  reason?.trim() ? sanitizers.input(reason) : undefined
+
+export const nfcCardService = {
+  /**
+   * Get the registry, most recently changed first
+   * @param filters - Status and a search over UID, student name and number
+   */
+  async getCards(filters: NfcCardFilters = {}): Promise<NfcCard[]> {
+    try {
+      const response = await apiClient.get('/nfc-cards', {
+        params: {
+          status: filters.status || undefined,
+          search: filters.search?.trim() || undefined,
+        },
+      })
+      return decodeResponse(response, envelope(array(nfcCardSchema)))
+    } catch (error) {
+      logError('NfcCardService', 'getCards', error)
+      throw error
+    }
+  },
+
+  /**
+   * Everything that happened to a card, newest first
+   * @param id - Card ID
+   */
+  async getHistory(id: NfcCard['id']): Promise<NfcCardEvent[]> {
+    try {
+      const response = await apiClient.get(`/nfc-cards/${id}/history`)
+      return decodeResponse(response, envelope(array(nfcCardEventSchema)))
+    } catch (error) {
+      logError('NfcCardService', 'getHistory', error)
+      throw error
+    }
+  },
+
+  /**
+   * Give a card to a student, registering it if the UID is new
+   * @param data - Card UID, student, and an end date for a temporary card
+   * @throws {Error} When the UID is invalid, or the card is lost, revoked or taken (409)
+   */
+  async assign(data: NfcCardAssignRequest): Promise<NfcCard> {
+    const uid = readUid(data.uid)
+    try {
+      const response = await withTimeout(
+        apiClient.post('/nfc-cards/assign', {
+          ...data,
+          uid,
+          temporaryUntil: data.temporaryUntil || undefined,
+          reason: reasonOrUndefined(data.reason),
+        }),
+        10000,
+        'Failed to assign card - Request timeout'
+      )
+      return decodeResponse(response, envelope(nfcCardSchema))
+    } catch (error) {
+      logError('NfcCardService', 'assign', error)
+      throw error
+    }
+  },
+
+  /**
+   * Take a card back from its holder into the spares
+   * @param id - Card ID
+   */
+  async returnCard(id: NfcCard['id'], reason?: string): Promise<NfcCard> {
+    try {
+      const response = await apiClient.post(`/nfc-cards/${id}/return`, {
+        reason: reasonOrUndefined(reason),
+      })
+      return decodeResponse(response, envelope(nfcCardSchema))
+    } catch (error) {
+      logError('NfcCardService', 'returnCard', error)
+      throw error
+    }
+  },
+
+  /**
+   * Mark a card lost; readers reject it from then on
+   * @param id - Card ID
+   */
+  async reportLost(id: NfcCard['id'], reason?: string): Promise<NfcCard> {
+    try {
+      const response = await apiClient.post(`/nfc-cards/${id}/report-lost`, {
+        reason: reasonOrUndefined(reason),
+      })
+      return decodeResponse(response, envelope(nfcCardSchema))
+    } catch (error) {
+      logError('NfcCardService', 'reportLost', error)
+      throw error
+    }
+  },
+
+  /**
+   * Take a card out of service for good; readers reject it from then on
+   * @param id - Card ID
+   * @param reason - Why (required)
+   */
+  async revoke(id: NfcCard['id'], reason: string): Promise<NfcCard> {
+    if (reason.trim().length < 3) {
+      throw new Error('Give a reason for revoking the card')
+    }
+    try {
+      const response = await apiClient.post(`/nfc-cards/${id}/revoke`, {
+        reason: sanitizers.input(reason),
+      })
+      return decodeResponse(response, envelope(nfcCardSchema))
+    } catch (error) {
+      logError('NfcCardService', 'revoke', error)
+      throw error
+    }
+  },
+
+  /**
+   * Give the holder of an active or lost card a new card; an active old card
+   * is revoked
+   * @param id - Card being replaced
+   * @param data - New card UID and the reason
+   * @returns The new card
+   */
+  async replace(id: NfcCard['id'], data: NfcCardReplaceRequest): Promise<NfcCard> {
+    const uid = readUid(data.uid)
+    try {
+      const response = await withTimeout(
+        apiClient.post(`/nfc-cards/${id}/replace`, {
+          uid,
+          reason: reasonOrUndefined(data.reason),
+        }),
+        10000,
+        'Failed to replace card - Request timeout'
+      )
+      return decodeResponse(response, envelope(nfcCardSchema))
+    } catch (error) {
+      logError('NfcCardService', 'replace', error)
+      throw error
+    }
+  },
+}
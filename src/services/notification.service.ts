@@ -1,4 +1,6 @@
-import apiClient from './api'
+import apiClient, { decodeResponse } from './api'
+import { envelope } from './schemas'
+import { decoders } from '@/utils/decoding'
 
 interface Notification {
   id: number
@@ -30,30 +32,46 @@ interface NotificationStats {
   }
 }
 
+const { string, number, boolean, oneOf, array, object, entity } = decoders
+
+const notificationSchema = entity<Notification>({
+  title: string,
+  message: string,
+  type: oneOf(['info', 'warning', 'success', 'error'] as const),
+  read: boolean,
+  createdAt: string,
+})
+
+const notificationStatsSchema = object<NotificationStats>({
+  total: number,
+  unread: number,
+  read: number,
+})
+
 export const notificationService = {
   async getAll(): Promise<Notification[]> {
-    const response = await apiClient.get<Notification[]>('/notifications')
-    return response.data
+    const response = await apiClient.get('/notifications')
+    return decodeResponse(response, envelope(array(notificationSchema)))
   },
 
   async getUnreadCount(): Promise<{ count: number }> {
-    const response = await apiClient.get<{ count: number }>('/notifications/unread')
-    return response.data
+    const response = await apiClient.get('/notifications/unread')
+    return decodeResponse(response, envelope(object({ count: number })))
   },
 
   async getStats(): Promise<NotificationStats> {
-    const response = await apiClient.get<NotificationStats>('/notifications/stats')
-    return response.data
+    const response = await apiClient.get('/notifications/stats')
+    return decodeResponse(response, envelope(notificationStatsSchema))
   },
 
   async getById(id: number): Promise<Notification> {
-    const response = await apiClient.get<Notification>(`/notifications/${id}`)
-    return response.data
+    const response = await apiClient.get(`/notifications/${id}`)
+    return decodeResponse(response, envelope(notificationSchema))
   },
 
   async create(data: NotificationFormData): Promise<Notification> {
-    const response = await apiClient.post<Notification>('/notifications', data)
-    return response.data
+    const response = await apiClient.post('/notifications', data)
+    return decodeResponse(response, envelope(notificationSchema))
   },
 
   async markAsRead(id: number): Promise<void> {
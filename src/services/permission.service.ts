@@ -0,0 +1,46 @@
+/**
+ * Permission Service
+ *
+ * The role/permission matrix. Everyone reads it after login (see
+ * usePermissionSync); admins with MANAGE_USERS can replace it, which is also
+ * how custom roles are added and removed.
+ */
+
+import apiClient, { decodeResponse } from './api'
+import { envelope, permissionMatrixSchema } from './schemas'
+import { PermissionMatrix, RoleDefinition } from '@/types'
+import { logError, withTimeout } from '@/utils/errorHandling'
+
+export const permissionService = {
+  /**
+   * Current matrix for the signed-in user's school
+   */
+  async getMatrix(): Promise<PermissionMatrix> {
+    try {
+      const response = await apiClient.get('/permissions/matrix')
+      return decodeResponse(response, envelope(permissionMatrixSchema))
+    } catch (error) {
+      logError('PermissionService', 'getMatrix', error)
+      throw error
+    }
+  },
+
+  /**
+   * Replace the matrix. Built-in roles must stay; custom roles that are
+   * missing are deleted (refused with 409 while users still hold them).
+   * @throws {ApiError} 422 when the change would leave no role able to manage users
+   */
+  async updateMatrix(roles: RoleDefinition[]): Promise<PermissionMatrix> {
+    try {
+      const response = await withTimeout(
+        apiClient.put('/permissions/matrix', { roles }),
+        10000,
+        'Permission update timeout'
+      )
+      return decodeResponse(response, envelope(permissionMatrixSchema))
+    } catch (error) {
+      logError('PermissionService', 'updateMatrix', error)
+      throw error
+    }
+  },
+}
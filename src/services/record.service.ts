@@ -1,40 +1,44 @@
-import apiClient from './api'
-import { Record, DashboardStats, AttendanceRecord } from '@/types'
+import apiClient, { decodeResponse } from './api'
+import { attendanceRecordSchema, dashboardStatsSchema, envelope, recordSchema } from './schemas'
+import { Record, DashboardStats, AttendanceRecord, AttendanceRecordFilters } from '@/types'
+import { decoders } from '@/utils/decoding'
+
+const { array } = decoders
 
 export const recordService = {
   async getAll(): Promise<Record[]> {
-    const response = await apiClient.get<Record[]>('/records')
-    return response.data
+    const response = await apiClient.get('/records')
+    return decodeResponse(response, envelope(array(recordSchema)))
   },
 
   async getToday(): Promise<Record[]> {
-    const response = await apiClient.get<Record[]>('/records/today')
-    return response.data
+    const response = await apiClient.get('/records/today')
+    return decodeResponse(response, envelope(array(recordSchema)))
   },
 
   async getStats(): Promise<DashboardStats> {
-    const response = await apiClient.get<DashboardStats>('/records/stats')
-    return response.data
+    const response = await apiClient.get('/records/stats')
+    return decodeResponse(response, envelope(dashboardStatsSchema))
   },
 
   async getById(id: number): Promise<Record> {
-    const response = await apiClient.get<Record>(`/records/${id}`)
-    return response.data
+    const response = await apiClient.get(`/records/${id}`)
+    return decodeResponse(response, envelope(recordSchema))
   },
 
   async getByStudent(studentId: number): Promise<Record[]> {
-    const response = await apiClient.get<Record[]>(`/records/student/${studentId}`)
-    return response.data
+    const response = await apiClient.get(`/records/student/${studentId}`)
+    return decodeResponse(response, envelope(array(recordSchema)))
   },
 
   async getBySubject(subjectId: string | number): Promise<Record[]> {
-    const response = await apiClient.get<Record[]>(`/records/subject/${subjectId}`)
-    return response.data
+    const response = await apiClient.get(`/records/subject/${subjectId}`)
+    return decodeResponse(response, envelope(array(recordSchema)))
   },
 
   async getByType(type: string): Promise<Record[]> {
-    const response = await apiClient.get<Record[]>(`/records/type/${type}`)
-    return response.data
+    const response = await apiClient.get(`/records/type/${type}`)
+    return decodeResponse(response, envelope(array(recordSchema)))
   },
 
   async delete(id: number): Promise<void> {
@@ -44,24 +48,18 @@ export const recordService = {
   /**
    * Get all attendance records including subject-specific attendance
    */
-  async getAllAttendanceRecords(filters?: {
-    startDate?: string
-    endDate?: string
-    studentId?: number
-    subjectId?: string | number
-    status?: string
-  }): Promise<AttendanceRecord[]> {
+  async getAllAttendanceRecords(filters?: AttendanceRecordFilters): Promise<AttendanceRecord[]> {
     const params = new URLSearchParams()
     if (filters?.startDate) params.append('startDate', filters.startDate)
     if (filters?.endDate) params.append('endDate', filters.endDate)
     if (filters?.studentId) params.append('studentId', filters.studentId.toString())
     if (filters?.subjectId) params.append('subjectId', filters.subjectId.toString())
+    if (filters?.subjectCode) params.append('subjectCode', filters.subjectCode)
     if (filters?.status) params.append('status', filters.status)
+    if (filters?.timeSlot) params.append('timeSlot', filters.timeSlot)
+    if (filters?.search?.trim()) params.append('search', filters.search.trim())
 
-    const response = await apiClient.get<any>(`/attendance/records?${params.toString()}`)
-    // Handle both paginated and direct response formats
-    return (
-      response.data.data?.records || response.data.records || response.data.data || response.data
-    )
+    const response = await apiClient.get(`/attendance/records?${params.toString()}`)
+    return decodeResponse(response, envelope(array(attendanceRecordSchema)))
   },
 }
@@ -0,0 +1,696 @@
+/**
+ * API Response Schemas
+ *
+ * Expected payloads for the backend endpoints, built from the decoders in
+ * utils/decoding. Every response is a `{ success, data, message }` envelope;
+ * list endpoints that paginate add a `pagination` block next to `data`.
+ *
+ * Normalisation happens here so the UI sees one shape:
+ * - `_id` (MongoDB) is exposed as `id`
+ * - attendance `remarks` (backend name) and `notes` (UI name) carry the same value
+ */
+
+import {
+  AttendanceLiveEvent,
+  AttendanceRecord,
+  AttendanceSummary,
+  AuthResponse,
+  CreatedInvitation,
+  DashboardStats,
+  EmailSentLiveEvent,
+  EnrollmentLiveEvent,
+  EntityId,
+  Guardian,
+  IdCardPrint,
+  IdCardTemplate,
+  ImportError,
+  ImportResult,
+  Invitation,
+  InvitationTokenInfo,
+  NfcCard,
+  NfcCardEvent,
+  PaginatedResponse,
+  PasswordResetTokenInfo,
+  PermissionMatrix,
+  LiveActor,
+  LiveStreamTicket,
+  LoginResult,
+  LiveEvent,
+  LiveEventType,
+  Record,
+  RoleDefinition,
+  School,
+  SchoolBranding,
+  SchoolSettings,
+  SignupPolicy,
+  Student,
+  StudentAttendanceSummary,
+  StudentBulkUpdateResult,
+  StudentBulkUpdateRowResult,
+  StudentGuardian,
+  StudentDuplicateMatch,
+  StudentDuplicatePair,
+  StudentImportResult,
+  StudentImportRowResult,
+  StudentMerge,
+  StudentMergeField,
+  StudentMergeResult,
+  StudentStats,
+  StudentStatusChange,
+  StudentStatusChangeResult,
+  SubjectAttendanceSummary,
+  SubjectInstructor,
+  TwoFactorChallenge,
+  TwoFactorPolicy,
+  TwoFactorRecoveryCodes,
+  TwoFactorSetup,
+  User,
+  UserStats,
+} from '@/types'
+import {
+  EnrolledStudent,
+  StudentSubjectAttendance,
+  SubjectAttendanceSummaryEnhanced,
+  SubjectEnhanced,
+  SubjectScheduleSlot,
+} from '@/types/subject.types'
+import { DecodeError, Decoder, FieldDecoders, decoders } from '@/utils/decoding'
+import { GUARDIAN_CHANNELS, GUARDIAN_RELATIONSHIPS } from '@/utils/guardians'
+import { ATTENDANCE_STATUS, STUDENT_STATUS } from '@/utils/validation-rules'
+
+const { string, number, boolean, id, ref, oneOf, optional, array, object, entity, map } = decoders
+
+// ============================================================================
+// ENVELOPES
+// ============================================================================
+
+/**
+ * Standard `{ success, data }` envelope; decodes to the payload
+ */
+export function envelope<T>(payload: Decoder<T>): Decoder<T> {
+  const body = object<{ success: boolean; data: unknown }>({ success: boolean })
+  return (value, path) => payload(body(value, path).data, path ? `${path}.data` : 'data')
+}
+
+/**
+ * Accepts both pagination vocabularies the backend uses
+ * (`page/limit/total` and `currentPage/itemsPerPage/totalItems`)
+ */
+const pagination: Decoder<PaginatedResponse<unknown>['pagination']> = map(
+  object<{ [key: string]: unknown }>({}),
+  (raw, path) => {
+    const field = (names: string[]) => {
+      const name = names.find((key) => raw[key] !== undefined && raw[key] !== null) ?? names[0]
+      return number(raw[name], `${path}.${name}`)
+    }
+    const currentPage = field(['currentPage', 'page'])
+    const totalPages = field(['totalPages'])
+    return {
+      currentPage,
+      totalPages,
+      totalItems: field(['totalItems', 'total']),
+      itemsPerPage: field(['itemsPerPage', 'limit']),
+      hasNextPage: currentPage < totalPages,
+      hasPreviousPage: currentPage > 1,
+    }
+  }
+)
+
+/**
+ * Paginated envelope: `{ success, data: T[], pagination }`
+ */
+export function paginated<T>(item: Decoder<T>): Decoder<PaginatedResponse<T>> {
+  return object<PaginatedResponse<T>>({
+    success: boolean as Decoder<true>,
+    data: array(item),
+    pagination,
+  })
+}
+
+// ============================================================================
+// USERS & AUTH
+// ============================================================================
+
+export const userSchema = entity<User>({
+  name: string,
+  email: string,
+  role: string, // Built-in or custom role id from the permission matrix
+  twoFactorEnabled: optional(boolean),
+  twoFactorRequired: optional(boolean),
+  isActive: optional(boolean),
+  createdAt: optional(string),
+})
+
+export const userStatsSchema = object<UserStats>({
+  total: number,
+  active: number,
+  inactive: number,
+  byRole: object<UserStats['byRole']>({
+    professor: number,
+    registrar: number,
+    admin: number,
+    superadmin: number,
+    staff: number,
+  }),
+})
+
+/**
+ * Login/register/refresh payload. Older backends only send `token`.
+ */
+export const tokenSchema: Decoder<Pick<AuthResponse, 'accessToken' | 'token'>> = map(
+  object<{ accessToken?: string; token?: string }>({
+    accessToken: optional(string),
+    token: optional(string),
+  }),
+  (value, path) => {
+    const accessToken = value.accessToken ?? value.token
+    if (!accessToken) throw new DecodeError(`${path}.accessToken`, 'string', undefined)
+    return { ...value, accessToken }
+  }
+)
+
+export const authResponseSchema: Decoder<AuthResponse> = map(
+  object<{ user: User }>({ user: userSchema }),
+  (value, path) => ({ ...value, ...tokenSchema(value, path) })
+)
+
+export const passwordResetTokenSchema = object<PasswordResetTokenInfo>({
+  email: string,
+  expiresAt: string,
+})
+
+// ============================================================================
+// TWO-FACTOR AUTHENTICATION
+// ============================================================================
+
+export const twoFactorChallengeSchema: Decoder<TwoFactorChallenge> = map(
+  object<Omit<TwoFactorChallenge, 'twoFactorRequired'>>({
+    challengeToken: string,
+    expiresAt: string,
+  }),
+  (value) => ({ ...value, twoFactorRequired: true as const })
+)
+
+/**
+ * Login payload: a session, or a challenge when the account has 2FA enabled
+ */
+export const loginResultSchema: Decoder<LoginResult> = (value, path) =>
+  (value as { twoFactorRequired?: unknown } | null)?.twoFactorRequired === true
+    ? twoFactorChallengeSchema(value, path)
+    : authResponseSchema(value, path)
+
+export const twoFactorSetupSchema = object<TwoFactorSetup>({
+  secret: string,
+  otpauthUrl: string,
+})
+
+export const twoFactorRecoveryCodesSchema = object<TwoFactorRecoveryCodes>({
+  recoveryCodes: array(string),
+})
+
+export const twoFactorPolicySchema = object<TwoFactorPolicy>({
+  requiredRoles: array(string),
+})
+
+// ============================================================================
+// INVITATIONS
+// ============================================================================
+
+const invitationFields: FieldDecoders<Omit<Invitation, 'id'>> = {
+  email: string,
+  role: string,
+  status: oneOf(['pending', 'accepted', 'revoked', 'expired'] as const),
+  expiresAt: string,
+  createdAt: string,
+  acceptedAt: optional(string),
+  invitedBy: optional(entity<NonNullable<Invitation['invitedBy']>>({ name: string })),
+}
+
+export const invitationSchema = entity<Invitation>(invitationFields)
+
+export const createdInvitationSchema = entity<CreatedInvitation>({
+  ...invitationFields,
+  token: string,
+})
+
+export const invitationTokenSchema = object<InvitationTokenInfo>({
+  email: string,
+  role: string,
+  expiresAt: string,
+})
+
+export const signupPolicySchema = object<SignupPolicy>({
+  openSignup: boolean,
+})
+
+// ============================================================================
+// PERMISSION MATRIX
+// ============================================================================
+
+export const permissionMatrixSchema = object<PermissionMatrix>({
+  roles: array(
+    object<RoleDefinition>({
+      id: string,
+      name: string,
+      permissions: array(string),
+      builtIn: boolean,
+    })
+  ),
+  updatedAt: string,
+})
+
+// ============================================================================
+// SCHOOLS
+// ============================================================================
+
+export const schoolSchema = entity<School>({
+  name: string,
+  code: string,
+  settings: object<SchoolSettings>({
+    emailDomain: optional(string),
+    studentNumberPrefix: string,
+    branding: object<SchoolBranding>({
+      displayName: string,
+      logoUrl: optional(string),
+      primaryColor: string,
+    }),
+  }),
+})
+
+// ============================================================================
+// GUARDIANS
+// ============================================================================
+
+export const guardianSchema = entity<Guardian>({
+  name: string,
+  email: optional(string),
+  contact: optional(string),
+  preferredChannel: oneOf(GUARDIAN_CHANNELS.map(({ value }) => value)),
+  studentCount: optional(number),
+})
+
+export const studentGuardianSchema = object<StudentGuardian>({
+  guardian: guardianSchema,
+  relationship: oneOf(GUARDIAN_RELATIONSHIPS.map(({ value }) => value)),
+  receivesAttendanceAlerts: boolean,
+})
+
+// ============================================================================
+// STUDENTS
+// ============================================================================
+
+export const studentSchema = entity<Student>({
+  studentNumber: string,
+  firstName: string,
+  lastName: string,
+  email: string,
+  status: optional(oneOf(Object.values(STUDENT_STATUS))),
+  section: optional(string),
+  guardianEmail: optional(string),
+  guardians: optional(array(studentGuardianSchema)),
+  profilePhoto: optional(string),
+  tags: optional(array(string)),
+})
+
+export const studentStatsSchema = object<StudentStats>({
+  total: number,
+  withGuardian: number,
+  byStatus: object<StudentStats['byStatus']>({
+    active: number,
+    inactive: number,
+    graduated: number,
+    transferred: number,
+    suspended: number,
+    dropped: number,
+  }),
+})
+
+/**
+ * Per-row import outcome; `errors` (field → messages) passes through as sent
+ */
+const studentImportRowResultSchema = object<StudentImportRowResult>({
+  row: number,
+  outcome: oneOf(['created', 'updated', 'skipped', 'failed'] as const),
+  studentId: optional(ref),
+  studentNumber: string,
+})
+
+export const studentImportResultSchema = object<StudentImportResult>({
+  dryRun: boolean,
+  created: number,
+  updated: number,
+  skipped: number,
+  failed: number,
+  rows: array(studentImportRowResultSchema),
+})
+
+const studentStatusValue = oneOf(Object.values(STUDENT_STATUS))
+
+export const studentStatusChangeSchema = entity<StudentStatusChange>({
+  studentId: ref,
+  fromStatus: studentStatusValue,
+  toStatus: studentStatusValue,
+  effectiveDate: string,
+  reason: string,
+  changedBy: optional(entity<NonNullable<StudentStatusChange['changedBy']>>({ name: string })),
+  unenrolledSubjects: array(string),
+  createdAt: string,
+})
+
+export const studentStatusChangeResultSchema = object<StudentStatusChangeResult>({
+  student: studentSchema,
+  change: studentStatusChangeSchema,
+})
+
+/**
+ * Per-student bulk edit outcome; `errors` passes through as sent
+ */
+const studentBulkUpdateRowResultSchema = object<StudentBulkUpdateRowResult>({
+  studentId: ref,
+  outcome: oneOf(['updated', 'unchanged', 'failed'] as const),
+})
+
+export const studentBulkUpdateResultSchema = object<StudentBulkUpdateResult>({
+  updated: number,
+  unchanged: number,
+  failed: number,
+  rows: array(studentBulkUpdateRowResultSchema),
+})
+
+export const studentDuplicatePairSchema = object<StudentDuplicatePair>({
+  score: number,
+  matches: array(
+    object<StudentDuplicateMatch>({
+      signal: oneOf(['name', 'birthdate', 'guardianEmail', 'contact'] as const),
+      similarity: number,
+    })
+  ),
+  students: map(array(studentSchema), (students, path): [Student, Student] => {
+    if (students.length !== 2) throw new DecodeError(path, 'two students', students)
+    return [students[0], students[1]]
+  }),
+})
+
+export const studentMergeSchema = entity<StudentMerge>({
+  targetId: ref,
+  source: entity<StudentMerge['source']>({
+    studentNumber: string,
+    firstName: string,
+    lastName: string,
+    email: string,
+  }),
+  fieldsFromSource: array(string) as Decoder<StudentMergeField[]>,
+  moved: object<StudentMerge['moved']>({
+    enrollments: number,
+    attendance: number,
+    records: number,
+    emails: number,
+  }),
+  mergedBy: optional(entity<NonNullable<StudentMerge['mergedBy']>>({ name: string })),
+  createdAt: string,
+})
+
+export const studentMergeResultSchema = object<StudentMergeResult>({
+  student: studentSchema,
+  merge: studentMergeSchema,
+})
+
+// ============================================================================
+// STUDENT ID CARDS
+// ============================================================================
+
+export const idCardTemplateSchema = entity<IdCardTemplate>({
+  name: string,
+  orientation: oneOf(['landscape', 'portrait'] as const),
+  accentColor: string,
+  title: string,
+  showPhoto: boolean,
+  showQrCode: boolean,
+  showBarcode: boolean,
+  printBack: boolean,
+  backText: string,
+  createdAt: string,
+})
+
+export const idCardPrintSchema = entity<IdCardPrint>({
+  studentId: ref,
+  nfcId: optional(string),
+  templateId: ref,
+  printNumber: number,
+  reason: optional(string),
+  printedBy: optional(entity<NonNullable<IdCardPrint['printedBy']>>({ name: string })),
+  printedAt: string,
+})
+
+// ============================================================================
+// NFC CARDS
+// ============================================================================
+
+const nfcCardStatusSchema = oneOf(['active', 'available', 'lost', 'revoked'] as const)
+
+export const nfcCardSchema = entity<NfcCard>({
+  uid: string,
+  status: nfcCardStatusSchema,
+  student: optional(
+    entity<NonNullable<NfcCard['student']>>({
+      name: string,
+      studentNumber: string,
+      section: optional(string),
+    })
+  ),
+  temporaryUntil: optional(string),
+  replacedByUid: optional(string),
+  lastTapAt: optional(string),
+  createdAt: string,
+})
+
+const personRefSchema = entity<{ id: EntityId; name: string }>({ name: string })
+
+export const nfcCardEventSchema = entity<NfcCardEvent>({
+  cardId: ref,
+  uid: string,
+  action: oneOf([
+    'assigned',
+    'returned',
+    'expired',
+    'reported_lost',
+    'revoked',
+    'replaced',
+    'tap_rejected',
+  ] as const),
+  student: optional(personRefSchema),
+  reason: optional(string),
+  relatedUid: optional(string),
+  actor: optional(personRefSchema),
+  createdAt: string,
+})
+
+/**
+ * Student document populated into enrollments and attendance records
+ */
+const populatedStudentSchema = entity<NonNullable<AttendanceRecord['student']>>({
+  studentNumber: string,
+  firstName: string,
+  lastName: string,
+})
+
+// ============================================================================
+// SUBJECTS & ENROLLMENT
+// ============================================================================
+
+const scheduleSlotSchema = object<SubjectScheduleSlot>({
+  slotName: string,
+  days: array(string) as Decoder<SubjectScheduleSlot['days']>,
+  startTime: string,
+  endTime: string,
+})
+
+export const enrolledStudentSchema: Decoder<EnrolledStudent> = map(
+  entity<Omit<EnrolledStudent, 'studentId'> & { studentId?: EntityId }>({
+    studentId: optional(ref),
+    subjectId: ref,
+    student: optional(populatedStudentSchema) as Decoder<EnrolledStudent['student']>,
+  }),
+  (value, path) => ({
+    ...value,
+    studentId: value.studentId ?? id(value.student?.id, `${path}.studentId`),
+  })
+)
+
+export const subjectInstructorSchema = entity<SubjectInstructor>({
+  name: string,
+  email: string,
+  role: optional(string),
+})
+
+export const subjectSchema = entity<SubjectEnhanced>({
+  subjectCode: string,
+  subjectName: string,
+  section: string,
+  yearLevel: number,
+  // Kept as the backend sends them; compare with String(), as in canMarkSubjectAttendance
+  instructorIds: optional(array(ref)),
+  instructors: optional(array(subjectInstructorSchema)),
+  schedules: optional(array(scheduleSlotSchema)),
+  enrolledStudents: optional(array(enrolledStudentSchema)),
+  enrollmentCount: optional(number),
+})
+
+// ============================================================================
+// ATTENDANCE
+// ============================================================================
+
+const attendanceStatus = oneOf(Object.values(ATTENDANCE_STATUS))
+
+export const attendanceRecordSchema: Decoder<AttendanceRecord> = map(
+  entity<Omit<AttendanceRecord, 'studentId'> & { studentId?: EntityId }>({
+    studentId: optional(ref),
+    subjectId: optional(ref),
+    status: attendanceStatus,
+    timeSlot: optional(oneOf(['arrival', 'departure'] as const)),
+    notes: optional(string),
+    remarks: optional(string),
+    student: optional(populatedStudentSchema),
+  }),
+  (value, path) => {
+    const notes = value.notes ?? value.remarks
+    return {
+      ...value,
+      studentId: value.studentId ?? id(value.student?.id, `${path}.studentId`),
+      notes,
+      remarks: notes,
+    }
+  }
+)
+
+const statusCounts = {
+  present: number,
+  absent: number,
+  late: number,
+  excused: number,
+  attendanceRate: number,
+}
+
+export const attendanceSummarySchema = object<AttendanceSummary>({
+  ...statusCounts,
+  date: string,
+  totalStudents: number,
+})
+
+export const studentAttendanceSummarySchema = object<StudentAttendanceSummary>({
+  studentNumber: string,
+  totalDays: number,
+  presentDays: number,
+  absentDays: number,
+  lateDays: number,
+  excusedDays: number,
+  attendanceRate: number,
+})
+
+export const subjectAttendanceSummarySchema = object<SubjectAttendanceSummary>({
+  subjectId: ref,
+  totalSessions: number,
+  averageAttendance: number,
+  totalStudents: number,
+})
+
+export const subjectDailySummarySchema = object<SubjectAttendanceSummaryEnhanced>({
+  ...statusCounts,
+  subjectId: ref,
+  date: string,
+  totalStudents: number,
+  records: array(
+    object<SubjectAttendanceSummaryEnhanced['records'][number]>({
+      studentNumber: string,
+      status: attendanceStatus,
+    })
+  ),
+})
+
+export const studentSubjectAttendanceSchema = object<StudentSubjectAttendance>({
+  subjectId: ref,
+  totalSessions: number,
+  presentCount: number,
+  absentCount: number,
+  lateCount: number,
+  excusedCount: number,
+  attendanceRate: number,
+  recentRecords: array(
+    object<StudentSubjectAttendance['recentRecords'][number]>({
+      date: string,
+      status: attendanceStatus,
+      notes: optional(string),
+    })
+  ),
+})
+
+export const importResultSchema = object<ImportResult>({
+  success: number,
+  failed: number,
+  errors: array(object<ImportError>({ row: number, message: string })),
+  imported: array(attendanceRecordSchema),
+})
+
+// ============================================================================
+// RECORDS & DASHBOARD
+// ============================================================================
+
+export const recordSchema = entity<Record>({
+  recordType: string as Decoder<Record['recordType']>,
+  createdAt: string,
+})
+
+export const dashboardStatsSchema = object<DashboardStats>({
+  totalStudents: number,
+  totalSubjects: number,
+  totalRecords: number,
+  todayRecords: number,
+})
+
+// ============================================================================
+// LIVE UPDATES
+// ============================================================================
+
+function liveEvent<E extends LiveEvent>(type: E['type'], data: Decoder<E['data']>): Decoder<E> {
+  return object<E>({
+    type: oneOf([type]) as Decoder<E['type']>,
+    actor: object<LiveActor>({ id, name: string }),
+    at: string,
+    data,
+  } as FieldDecoders<E>)
+}
+
+export const liveStreamTicketSchema = object<LiveStreamTicket>({
+  ticket: string,
+  expiresAt: string,
+})
+
+const attendanceEventData = object<AttendanceLiveEvent['data']>({
+  record: attendanceRecordSchema,
+  previousStatus: optional(attendanceStatus),
+})
+
+/**
+ * Live stream events by name. The event name comes from the SSE `event:` field
+ * and the JSON body carries `{ actor, at, data }`.
+ */
+export const liveEventSchemas: { [K in LiveEventType]: Decoder<LiveEvent> } = {
+  'attendance-created': liveEvent<AttendanceLiveEvent>('attendance-created', attendanceEventData),
+  'attendance-updated': liveEvent<AttendanceLiveEvent>('attendance-updated', attendanceEventData),
+  enrollment: liveEvent<EnrollmentLiveEvent>(
+    'enrollment',
+    object<EnrollmentLiveEvent['data']>({
+      action: oneOf(['enrolled', 'unenrolled'] as const),
+      subjectId: ref,
+      studentIds: array(ref),
+    })
+  ),
+  'email-sent': liveEvent<EmailSentLiveEvent>(
+    'email-sent',
+    object<EmailSentLiveEvent['data']>({
+      subject: string,
+      recipients: array(string),
+      studentId: optional(ref),
+    })
+  ),
+}
@@ -0,0 +1,59 @@
+/**
+ * School Service
+ *
+ * Schools (tenants) the signed-in user belongs to and their settings
+ */
+
+import apiClient, { decodeResponse } from './api'
+import { envelope, schoolSchema } from './schemas'
+import { School, SchoolSettings, SchoolSettingsFormData } from '@/types'
+import { validateSchoolSettings } from '@/utils/business-validation'
+import { decoders } from '@/utils/decoding'
+import { logError } from '@/utils/errorHandling'
+
+const { array } = decoders
+
+export const schoolService = {
+  /**
+   * Get the schools the current user belongs to
+   */
+  async getMySchools(): Promise<School[]> {
+    try {
+      const response = await apiClient.get('/schools/mine')
+      return decodeResponse(response, envelope(array(schoolSchema)))
+    } catch (error) {
+      logError('SchoolService', 'getMySchools', error)
+      throw error
+    }
+  },
+
+  /**
+   * Update a school's email domain, student-number prefix and branding
+   * @param schoolId - School to update
+   * @param data - Settings form values (validated before sending)
+   */
+  async updateSettings(schoolId: School['id'], data: SchoolSettingsFormData): Promise<School> {
+    const validation = validateSchoolSettings(data)
+    if (!validation.isValid) {
+      throw new Error(Object.values(validation.errors)[0])
+    }
+
+    const settings: SchoolSettings = {
+      emailDomain: data.emailDomain.trim().toLowerCase() || undefined,
+      studentNumberPrefix: data.studentNumberPrefix.trim(),
+      branding: {
+        displayName: data.displayName.trim(),
+        logoUrl: data.logoUrl.trim() || undefined,
+        primaryColor: data.primaryColor.trim(),
+      },
+    }
+
+    try {
+      const response = await apiClient.put(`/schools/${schoolId}/settings`, settings)
+      return decodeResponse(response, envelope(schoolSchema))
+    } catch (error) {
+      logError('SchoolService', 'updateSettings', error)
+      throw error
+    }
+  },
+}
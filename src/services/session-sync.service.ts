@@ -0,0 +1,66 @@
+/**
+ * Session Sync Service
+ *
+ * Keeps every open tab of the app in step: login, token refresh, profile edits
+ * and logout are broadcast on a BroadcastChannel. The auth store itself is
+ * persisted in localStorage, so receivers only need to rehydrate it. The time
+ * of the user's last interaction is shared through localStorage, so activity
+ * in any tab keeps the whole session alive.
+ */
+
+import { SessionSyncMessage } from '@/types'
+
+const CHANNEL_NAME = 'notified:session'
+const LAST_ACTIVITY_KEY = 'notified:last-activity'
+
+let channel: BroadcastChannel | null = null
+
+function getChannel(): BroadcastChannel | null {
+  // Older browsers (and non-browser test runners) have no BroadcastChannel;
+  // those tabs simply stay independent
+  if (typeof BroadcastChannel === 'undefined') return null
+  if (!channel) channel = new BroadcastChannel(CHANNEL_NAME)
+  return channel
+}
+
+export const sessionSyncService = {
+  /**
+   * Tell the other tabs about a session change. The sending tab does not
+   * receive its own message.
+   */
+  broadcast(message: SessionSyncMessage): void {
+    try {
+      getChannel()?.postMessage(message)
+    } catch (error) {
+      console.error('[SessionSync] Failed to broadcast', error)
+    }
+  },
+
+  /**
+   * Listen for session changes made in other tabs
+   * @returns Function that stops listening
+   */
+  subscribe(handler: (message: SessionSyncMessage) => void): () => void {
+    const target = getChannel()
+    if (!target) return () => {}
+
+    const listener = (event: MessageEvent<SessionSyncMessage>) => handler(event.data)
+    target.addEventListener('message', listener)
+    return () => target.removeEventListener('message', listener)
+  },
+
+  /**
+   * Record that the user interacted with the app just now
+   */
+  touch(at: number = Date.now()): void {
+    localStorage.setItem(LAST_ACTIVITY_KEY, String(at))
+  },
+
+  /**
+   * Epoch ms of the user's last interaction in any tab, or null if none was recorded
+   */
+  getLastActivity(): number | null {
+    const value = Number(localStorage.getItem(LAST_ACTIVITY_KEY))
+    return Number.isFinite(value) && value > 0 ? value : null
+  },
+}
@@ -1,5 +1,40 @@
-import apiClient from './api'
-import { Student, StudentFormData } from '@/types'
+import apiClient, { decodeResponse } from './api'
+import {
+  envelope,
+  paginated,
+  studentBulkUpdateResultSchema,
+  studentDuplicatePairSchema,
+  studentImportResultSchema,
+  studentMergeResultSchema,
+  studentMergeSchema,
+  studentSchema,
+  studentStatsSchema,
+  studentStatusChangeResultSchema,
+  studentStatusChangeSchema,
+} from './schemas'
+import {
+  PaginatedResponse,
+  Student,
+  StudentBulkChanges,
+  StudentBulkUpdateResult,
+  StudentDuplicatePair,
+  StudentFormData,
+  StudentImportResult,
+  StudentImportRow,
+  StudentListFilters,
+  StudentListQuery,
+  StudentMerge,
+  StudentMergeData,
+  StudentMergeResult,
+  StudentStats,
+  StudentStatusChange,
+  StudentStatusChangeData,
+  StudentStatusChangeResult,
+} from '@/types'
+import { getCurrentSchool } from '@/store/schoolStore'
+import { validateBulkOperationSize } from '@/utils/business-validation'
+import { STUDENT_BULK_UPDATE_MAX, STUDENT_IMPORT_MAX_ROWS } from '@/utils/constants'
+import { decoders } from '@/utils/decoding'
 import { fetchWithRetry, logError, withTimeout } from '@/utils/errorHandling'
 import { validators, sanitizers, VALIDATION_CONSTANTS } from '@/utils/validation-rules'
 import {
@@ -11,26 +46,189 @@ import {
   sanitizeEmail,
 } from '@/utils/validation'
 
+// Page size used when every matching student is needed at once
+const FETCH_ALL_PAGE_SIZE = 500
+// Stop following pages after this many (100,000 students), whatever the backend reports
+const FETCH_ALL_MAX_PAGES = 200
+
+/**
+ * Trim and normalise a student's fields before they are sent
+ */
+function sanitizeStudentData(data: StudentFormData): StudentFormData {
+  return {
+    studentNumber: sanitizers.trim(data.studentNumber),
+    firstName: sanitizers.input(data.firstName),
+    lastName: sanitizers.input(data.lastName),
+    email: sanitizers.email(data.email),
+    birthdate: data.birthdate ? sanitizers.trim(data.birthdate) : undefined,
+    contact: data.contact ? sanitizers.phone(data.contact) : undefined,
+    status: data.status || 'active',
+    section: data.section ? sanitizers.input(data.section) : undefined,
+    guardianName: data.guardianName ? sanitizers.input(data.guardianName) : undefined,
+    guardianEmail: data.guardianEmail ? sanitizers.email(data.guardianEmail) : undefined,
+    guardianContact: data.guardianContact ? sanitizers.phone(data.guardianContact) : undefined,
+    guardians: data.guardians,
+    nfcId: data.nfcId ? sanitizers.trim(data.nfcId).toUpperCase() : undefined,
+    tags: data.tags?.map(sanitizers.tag),
+  }
+}
+
+/**
+ * Subject a student is enrolled in
+ */
+export interface StudentEnrollment {
+  id: string
+  subjectId: string
+  enrolledAt: string
+  subject?: {
+    id: string
+    subjectCode: string
+    subjectName: string
+    section: string
+  }
+}
+
+/**
+ * Student attendance totals with a per-subject breakdown
+ */
+export interface StudentAttendanceOverview {
+  totalDays: number
+  present: number
+  absent: number
+  late: number
+  excused: number
+  attendanceRate: number
+  bySubject: Array<{
+    subjectId: string
+    subjectCode: string
+    subjectName: string
+    present: number
+    absent: number
+    late?: number
+    excused?: number
+    attendanceRate: number
+  }>
+}
+
+const { string, number, optional, array, object, entity } = decoders
+
+const studentEnrollmentSchema = entity<StudentEnrollment>({
+  subjectId: string,
+  enrolledAt: string,
+  subject: optional(
+    entity<NonNullable<StudentEnrollment['subject']>>({
+      subjectCode: string,
+      subjectName: string,
+      section: string,
+    })
+  ),
+})
+
+const attendanceOverviewSchema = object<StudentAttendanceOverview>({
+  totalDays: number,
+  present: number,
+  absent: number,
+  late: number,
+  excused: number,
+  attendanceRate: number,
+  bySubject: array(
+    object<StudentAttendanceOverview['bySubject'][number]>({
+      subjectCode: string,
+      present: number,
+      absent: number,
+      attendanceRate: number,
+    })
+  ),
+})
+
 /**
  * Student service for managing student data
  */
 export const studentService = {
   /**
-   * Get all students
-   * @returns Array of all students
+   * Get every student matching the filters, following the pages until the
+   * last one. Also stops at an empty page, when the page number stops
+   * advancing (a backend that ignores `page`) or after FETCH_ALL_MAX_PAGES.
+   * Prefer getPage for lists shown on screen.
+   * @param filters - Optional server-side filters
+   * @returns Array of all matching students
    * @throws {Error} When API request fails
    */
-  async getAll(): Promise<Student[]> {
+  async getAll(filters: StudentListFilters = {}): Promise<Student[]> {
+    const students: Student[] = []
+    let previousPage: number | undefined
+    for (let page = 1; page <= FETCH_ALL_MAX_PAGES; page++) {
+      const { data, pagination } = await studentService.getPage({
+        ...filters,
+        page,
+        limit: FETCH_ALL_PAGE_SIZE,
+      })
+      // The same page again: the backend ignores `page`
+      if (previousPage !== undefined && pagination.currentPage <= previousPage) return students
+      students.push(...data)
+      if (data.length === 0 || !pagination.hasNextPage) return students
+      previousPage = pagination.currentPage
+    }
+    logError(
+      'StudentService',
+      'getAll',
+      new Error(`Stopped after ${FETCH_ALL_MAX_PAGES} pages of students`)
+    )
+    return students
+  },
+
+  /**
+   * Get one page of students, filtered and sorted on the server
+   * @param query - Page, page size, sort and filters
+   * @returns The page with pagination details
+   * @throws {Error} When API request fails
+   */
+  async getPage(query: StudentListQuery): Promise<PaginatedResponse<Student>> {
     try {
-      // Request with a high limit to avoid server-side default pagination
       const response = await withTimeout(
-        fetchWithRetry(() => apiClient.get<Student[]>('/students', { params: { limit: 1000 } })),
+        fetchWithRetry(() =>
+          apiClient.get('/students', {
+            params: {
+              ...query,
+              search: query.search?.trim() || undefined,
+              section: query.section || undefined,
+            },
+          })
+        ),
         15000,
         'Failed to load students - Request timeout'
       )
-      return response.data
+      return decodeResponse(response, paginated(studentSchema))
+    } catch (error) {
+      logError('StudentService', 'getPage', error)
+      throw error
+    }
+  },
+
+  /**
+   * Student totals for the current school
+   * @returns Total, guardian and per-status counts
+   */
+  async getStats(): Promise<StudentStats> {
+    try {
+      const response = await apiClient.get('/students/stats')
+      return decodeResponse(response, envelope(studentStatsSchema))
+    } catch (error) {
+      logError('StudentService', 'getStats', error)
+      throw error
+    }
+  },
+
+  /**
+   * Sections currently in use, for filter dropdowns
+   * @returns Section names in order
+   */
+  async getSections(): Promise<string[]> {
+    try {
+      const response = await apiClient.get('/students/sections')
+      return decodeResponse(response, envelope(array(string)))
     } catch (error) {
-      logError('StudentService', 'getAll', error)
+      logError('StudentService', 'getSections', error)
       throw error
     }
   },
@@ -44,11 +242,11 @@ export const studentService = {
   async getById(id: number): Promise<Student> {
     try {
       const response = await withTimeout(
-        fetchWithRetry(() => apiClient.get<Student>(`/students/${id}`)),
+        fetchWithRetry(() => apiClient.get(`/students/${id}`)),
         10000,
         'Failed to load student - Request timeout'
       )
-      return response.data
+      return decodeResponse(response, envelope(studentSchema))
     } catch (error) {
       logError('StudentService', 'getById', error)
       throw error
@@ -72,11 +270,11 @@ export const studentService = {
 
     try {
       const response = await withTimeout(
-        fetchWithRetry(() => apiClient.get<Student>(`/students/number/${studentNumber}`)),
+        fetchWithRetry(() => apiClient.get(`/students/number/${studentNumber}`)),
         10000,
         'Failed to load student - Request timeout'
       )
-      return response.data
+      return decodeResponse(response, envelope(studentSchema))
     } catch (error) {
       logError('StudentService', 'getByStudentNumber', error)
       throw error
@@ -92,13 +290,11 @@ export const studentService = {
     // generating student number
     try {
       const response = await withTimeout(
-        fetchWithRetry(() =>
-          apiClient.get<{ studentNumber: string }>('/students/generate/student-number')
-        ),
+        fetchWithRetry(() => apiClient.get('/students/generate/student-number')),
         10000,
         'Failed to generate student number - Request timeout'
       )
-      return response.data
+      return decodeResponse(response, envelope(object({ studentNumber: string })))
     } catch (error) {
       logError('StudentService', 'generateStudentNumber', error)
       throw error
@@ -115,7 +311,10 @@ export const studentService = {
     // creating student
 
     // Validate required fields using comprehensive validators
-    const studentNumberValidation = validators.studentNumber(data.studentNumber)
+    const studentNumberValidation = validators.studentNumber(
+      data.studentNumber,
+      getCurrentSchool()?.settings.studentNumberPrefix
+    )
     if (!studentNumberValidation.isValid) {
       throw new Error(studentNumberValidation.error)
     }
@@ -185,29 +384,23 @@ export const studentService = {
       }
     }
 
-    // Sanitize data
-    const sanitizedData: StudentFormData = {
-      studentNumber: sanitizers.trim(data.studentNumber),
-      firstName: sanitizers.input(data.firstName),
-      lastName: sanitizers.input(data.lastName),
-      email: sanitizers.email(data.email),
-      birthdate: data.birthdate ? sanitizers.trim(data.birthdate) : undefined,
-      contact: data.contact ? sanitizers.phone(data.contact) : undefined,
-      status: data.status || 'active',
-      section: data.section ? sanitizers.input(data.section) : undefined,
-      guardianName: data.guardianName ? sanitizers.input(data.guardianName) : undefined,
-      guardianEmail: data.guardianEmail ? sanitizers.email(data.guardianEmail) : undefined,
-      guardianContact: data.guardianContact ? sanitizers.phone(data.guardianContact) : undefined,
-      nfcId: data.nfcId ? sanitizers.trim(data.nfcId).toUpperCase() : undefined,
+    if (data.tags) {
+      const tagsValidation = validators.studentTags(data.tags.map(sanitizers.tag))
+      if (!tagsValidation.isValid) {
+        throw new Error(tagsValidation.error)
+      }
     }
 
+    // Sanitize data
+    const sanitizedData = sanitizeStudentData(data)
+
     try {
       const response = await withTimeout(
-        apiClient.post<Student>('/students', sanitizedData),
+        apiClient.post('/students', sanitizedData),
         15000,
         'Failed to create student - Request timeout'
       )
-      return response.data
+      return decodeResponse(response, envelope(studentSchema))
     } catch (error) {
       logError('StudentService', 'create', error)
       throw error
@@ -226,7 +419,10 @@ export const studentService = {
 
     // Validate provided fields using comprehensive validators
     if (data.studentNumber) {
-      const validation = validators.studentNumber(data.studentNumber)
+      const validation = validators.studentNumber(
+        data.studentNumber,
+        getCurrentSchool()?.settings.studentNumberPrefix
+      )
       if (!validation.isValid) {
         throw new Error(validation.error)
       }
@@ -302,6 +498,13 @@ export const studentService = {
       }
     }
 
+    if (data.tags) {
+      const validation = validators.studentTags(data.tags.map(sanitizers.tag))
+      if (!validation.isValid) {
+        throw new Error(validation.error)
+      }
+    }
+
     // Sanitize data
     const sanitizedData: Partial<StudentFormData> = {}
     if (data.studentNumber) sanitizedData.studentNumber = sanitizers.trim(data.studentNumber)
@@ -315,22 +518,163 @@ export const studentService = {
     if (data.guardianName) sanitizedData.guardianName = sanitizers.input(data.guardianName)
     if (data.guardianEmail) sanitizedData.guardianEmail = sanitizers.email(data.guardianEmail)
     if (data.guardianContact) sanitizedData.guardianContact = sanitizers.phone(data.guardianContact)
+    if (data.guardians) sanitizedData.guardians = data.guardians
     if (data.nfcId) sanitizedData.nfcId = sanitizers.trim(data.nfcId).toUpperCase()
+    if (data.tags) sanitizedData.tags = data.tags.map(sanitizers.tag)
 
     try {
       const response = await withTimeout(
-        apiClient.put<Student>(`/students/${id}`, sanitizedData),
+        apiClient.put(`/students/${id}`, sanitizedData),
         15000,
         'Failed to update student - Request timeout'
       )
-      // Student updated: response.data.studentNumber
-      return response.data
+      return decodeResponse(response, envelope(studentSchema))
     } catch (error) {
       logError('StudentService', 'update', error)
       throw error
     }
   },
 
+  /**
+   * Import spreadsheet rows in one request. Rows are applied in order and each
+   * succeeds or fails on its own; a dry run reports the same outcomes without
+   * saving anything.
+   * @param rows - Mapped rows with the action chosen for each
+   * @param options.dryRun - Validate only
+   * @returns Per-row outcomes and totals
+   * @throws {Error} When there are no rows or more than STUDENT_IMPORT_MAX_ROWS
+   */
+  async bulkImport(
+    rows: StudentImportRow[],
+    { dryRun = false }: { dryRun?: boolean } = {}
+  ): Promise<StudentImportResult> {
+    const sizeValidation = validateBulkOperationSize(rows.length, STUDENT_IMPORT_MAX_ROWS)
+    if (!sizeValidation.isValid) {
+      throw new Error(sizeValidation.error)
+    }
+
+    try {
+      const response = await withTimeout(
+        apiClient.post('/students/import', {
+          dryRun,
+          rows: rows.map((row) => ({ ...row, data: sanitizeStudentData(row.data) })),
+        }),
+        60000,
+        'Student import timeout - Please try again'
+      )
+      return decodeResponse(response, envelope(studentImportResultSchema))
+    } catch (error) {
+      logError('StudentService', 'bulkImport', error)
+      throw error
+    }
+  },
+
+  /**
+   * Apply the same changes to many students. Each student takes every change
+   * or none; the others are still updated when one fails.
+   * @param studentIds - Students to change
+   * @param changes - Fields to set or clear, a status change, and tags to add or remove
+   * @returns Per-student outcomes and totals
+   * @throws {Error} When there are no students or more than STUDENT_BULK_UPDATE_MAX
+   */
+  async bulkUpdate(
+    studentIds: number[],
+    changes: StudentBulkChanges
+  ): Promise<StudentBulkUpdateResult> {
+    const sizeValidation = validateBulkOperationSize(studentIds.length, STUDENT_BULK_UPDATE_MAX)
+    if (!sizeValidation.isValid) {
+      throw new Error(sizeValidation.error)
+    }
+
+    const text = (value: string | null | undefined, sanitize: (value: string) => string) =>
+      value ? sanitize(value) : value
+    const sanitizedChanges: StudentBulkChanges = {
+      section: text(changes.section, sanitizers.input),
+      guardianName: text(changes.guardianName, sanitizers.input),
+      guardianEmail: text(changes.guardianEmail, sanitizers.email),
+      guardianContact: text(changes.guardianContact, sanitizers.phone),
+      status: changes.status && {
+        ...changes.status,
+        reason: sanitizers.input(changes.status.reason),
+      },
+      addTags: changes.addTags?.map(sanitizers.tag),
+      removeTags: changes.removeTags?.map(sanitizers.tag),
+    }
+
+    try {
+      const response = await withTimeout(
+        apiClient.post('/students/bulk-update', { studentIds, changes: sanitizedChanges }),
+        60000,
+        'Bulk update timeout - Please try again'
+      )
+      return decodeResponse(response, envelope(studentBulkUpdateResultSchema))
+    } catch (error) {
+      logError('StudentService', 'bulkUpdate', error)
+      throw error
+    }
+  },
+
+  /**
+   * Pairs of students that may be the same person, most likely first
+   * @param minScore - Lowest score (0-100) to include; the server default when omitted
+   * @returns Scored pairs with the signals that matched
+   */
+  async findDuplicates(minScore?: number): Promise<StudentDuplicatePair[]> {
+    try {
+      const response = await withTimeout(
+        apiClient.get('/students/duplicates', { params: { minScore } }),
+        30000,
+        'Duplicate search timeout - Please try again'
+      )
+      return decodeResponse(response, envelope(array(studentDuplicatePairSchema)))
+    } catch (error) {
+      logError('StudentService', 'findDuplicates', error)
+      throw error
+    }
+  },
+
+  /**
+   * Merge one student into another. Enrollments, attendance, records and
+   * email history move to the target and the source is deleted.
+   * @param data - Source, target and the fields to take from the source
+   * @returns The merged student and the logged merge
+   * @throws {Error} When both ids are the same student
+   */
+  async merge(data: StudentMergeData): Promise<StudentMergeResult> {
+    if (String(data.sourceId) === String(data.targetId)) {
+      throw new Error('Choose two different students to merge')
+    }
+
+    try {
+      const response = await withTimeout(
+        apiClient.post('/students/merge', data),
+        30000,
+        'Merge timeout - Please try again'
+      )
+      return decodeResponse(response, envelope(studentMergeResultSchema))
+    } catch (error) {
+      logError('StudentService', 'merge', error)
+      throw error
+    }
+  },
+
+  /**
+   * Merges carried out so far, newest first
+   */
+  async getMerges(): Promise<StudentMerge[]> {
+    try {
+      const response = await withTimeout(
+        apiClient.get('/students/merges'),
+        10000,
+        'Failed to load merge history - Request timeout'
+      )
+      return decodeResponse(response, envelope(array(studentMergeSchema)))
+    } catch (error) {
+      logError('StudentService', 'getMerges', error)
+      throw error
+    }
+  },
+
   /**
    * Delete a student
    * @param id - Student ID
@@ -339,19 +683,113 @@ export const studentService = {
   async delete(id: number): Promise<void> {
     // deleting student id
     try {
-      const response = await withTimeout(
+      await withTimeout(
         apiClient.delete(`/students/${id}`),
         10000,
         'Failed to delete student - Request timeout'
       )
       // student deleted successfully
-      return response.data
     } catch (error) {
       logError('StudentService', 'delete', error)
       throw error
     }
   },
 
+  /**
+   * Move a student to a new status. The change is recorded with its effective
+   * date, reason and the signed-in user; a student who can no longer enroll is
+   * dropped from their subjects.
+   * @param id - Student ID
+   * @param data - New status, effective date (YYYY-MM-DD) and reason
+   * @returns The updated student and the recorded change
+   * @throws {Error} When the transition or effective date is not allowed
+   */
+  async changeStatus(
+    id: number,
+    data: StudentStatusChangeData
+  ): Promise<StudentStatusChangeResult> {
+    if (!data.reason.trim()) {
+      throw new Error('Give a reason for the status change')
+    }
+
+    try {
+      const response = await withTimeout(
+        apiClient.post(`/students/${id}/status`, {
+          ...data,
+          reason: sanitizers.input(data.reason),
+        }),
+        10000,
+        'Status change timeout - Please try again'
+      )
+      return decodeResponse(response, envelope(studentStatusChangeResultSchema))
+    } catch (error) {
+      logError('StudentService', 'changeStatus', error)
+      throw error
+    }
+  },
+
+  /**
+   * Recorded status changes for a student, latest effective date first
+   * @param id - Student ID
+   */
+  async getStatusHistory(id: number): Promise<StudentStatusChange[]> {
+    try {
+      const response = await apiClient.get(`/students/${id}/status-history`)
+      return decodeResponse(response, envelope(array(studentStatusChangeSchema)))
+    } catch (error) {
+      logError('StudentService', 'getStatusHistory', error)
+      throw error
+    }
+  },
+
+  /**
+   * Upload a profile photo as multipart form data, replacing any earlier one
+   * @param id - Student ID
+   * @param photo - Image already cropped and resized in the browser
+   * @returns The student with its new profilePhoto URL
+   * @throws {Error} When the image type or size is not allowed
+   */
+  async uploadPhoto(id: number, photo: Blob): Promise<Student> {
+    const file = new File([photo], `student-${id}.${photo.type.split('/')[1]}`, {
+      type: photo.type,
+    })
+    const validation = validators.profilePhoto(file)
+    if (!validation.isValid) {
+      throw new Error(validation.error)
+    }
+
+    const formData = new FormData()
+    formData.append('photo', file)
+    try {
+      const response = await withTimeout(
+        apiClient.post(`/students/${id}/photo`, formData, {
+          headers: { 'Content-Type': 'multipart/form-data' },
+        }),
+        30000,
+        'Photo upload timeout - Please try again'
+      )
+      return decodeResponse(response, envelope(studentSchema))
+    } catch (error) {
+      logError('StudentService', 'uploadPhoto', error)
+      throw error
+    }
+  },
+
+  /**
+   * Remove a student's profile photo
+   * @param id - Student ID
+   * @returns The student without a photo
+   */
+  async removePhoto(id: number): Promise<Student> {
+    try {
+      const response = await apiClient.delete(`/students/${id}/photo`)
+      return decodeResponse(response, envelope(studentSchema))
+    } catch (error) {
+      logError('StudentService', 'removePhoto', error)
+      throw error
+    }
+  },
+
   /**
    * Search students by query
    * @param query - Search query string
@@ -376,15 +814,14 @@ export const studentService = {
     try {
       const response = await withTimeout(
         fetchWithRetry(() =>
-          apiClient.get<Student[]>('/students/search', {
+          apiClient.get('/students/search', {
             params: { q: sanitizedQuery },
           })
         ),
         10000,
         'Search request timeout'
       )
-      // found students: response.data.length
-      return response.data
+      return decodeResponse(response, envelope(array(studentSchema)))
     } catch (error) {
       logError('StudentService', 'search', error)
       throw error
@@ -396,26 +833,14 @@ export const studentService = {
    * @param studentId - Student ID
    * @returns Array of enrollments with subject details
    */
-  async getEnrollments(studentId: number): Promise<
-    {
-      id: string
-      subjectId: string
-      enrolledAt: string
-      subject?: {
-        id: string
-        subjectCode: string
-        subjectName: string
-        section: string
-      }
-    }[]
-  > {
+  async getEnrollments(studentId: number): Promise<StudentEnrollment[]> {
     try {
       const response = await withTimeout(
         fetchWithRetry(() => apiClient.get(`/students/${studentId}/enrollments`)),
         10000,
         'Failed to load enrollments'
       )
-      return response.data
+      return decodeResponse(response, envelope(array(studentEnrollmentSchema)))
     } catch (error) {
       logError('StudentService', 'getEnrollments', error)
       throw error
@@ -427,31 +852,14 @@ export const studentService = {
    * @param studentId - Student ID
    * @returns Attendance summary with overall stats and per-subject breakdown
    */
-  async getAttendanceSummary(studentId: number): Promise<{
-    totalDays: number
-    present: number
-    absent: number
-    late: number
-    excused: number
-    attendanceRate: number
-    bySubject: Array<{
-      subjectId: string
-      subjectCode: string
-      subjectName: string
-      present: number
-      absent: number
-      late?: number
-      excused?: number
-      attendanceRate: number
-    }>
-  }> {
+  async getAttendanceSummary(studentId: number): Promise<StudentAttendanceOverview> {
     try {
       const response = await withTimeout(
         fetchWithRetry(() => apiClient.get(`/students/${studentId}/attendance/summary`)),
         10000,
         'Failed to load attendance summary'
       )
-      return response.data
+      return decodeResponse(response, envelope(attendanceOverviewSchema))
     } catch (error) {
       logError('StudentService', 'getAttendanceSummary', error)
       throw error
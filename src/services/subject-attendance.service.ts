@@ -4,14 +4,33 @@
  * Handles attendance marking specific to subjects
  */
 
-import apiClient from './api'
+import apiClient, { decodeResponse } from './api'
+import {
+  attendanceRecordSchema,
+  envelope,
+  studentSubjectAttendanceSchema,
+  subjectDailySummarySchema,
+} from './schemas'
 import {
   SubjectAttendanceData,
   BulkSubjectAttendanceData,
+  CardTapAttendanceData,
   SubjectAttendanceSummaryEnhanced,
   StudentSubjectAttendance,
 } from '@/types/subject.types'
-import { AttendanceRecord, ApiResponse } from '@/types'
+import { AttendanceRecord } from '@/types'
+import { decoders } from '@/utils/decoding'
+import { normalizeNfcUid } from '@/utils/nfcCards'
+import { getSessionScope } from '@/store/authStore'
+import { useOutboxStore } from '@/store/outboxStore'
+import {
+  isOfflineError,
+  schoolRequestConfig,
+  toPendingRecords,
+  OfflineQueueOptions,
+} from './attendance-outbox.service'
+
+const { array } = decoders
 
 export interface MarkAttendanceRequest {
   studentId: string
@@ -26,38 +45,92 @@ export interface MarkAttendanceRequest {
 export const subjectAttendanceService = {
   /**
    * Mark attendance for a student in a subject
+   * When offline, the mark is queued in the outbox and a pending record is returned
    */
-  async markSubjectAttendance(data: SubjectAttendanceData): Promise<AttendanceRecord> {
-    const response = await apiClient.post<ApiResponse<AttendanceRecord>>(
-      '/attendance/subject/mark',
-      {
+  async markSubjectAttendance(
+    data: SubjectAttendanceData,
+    options: OfflineQueueOptions = {}
+  ): Promise<AttendanceRecord> {
+    const payload = {
+      subjectId: data.subjectId,
+      studentId: data.studentId, // Backend expects 'studentId' not 'student'
+      date: data.date,
+      status: data.status,
+      timeSlot: data.timeSlot,
+      scheduleSlot: data.scheduleSlot,
+      // Backend expects 'remarks' field; the SubjectAttendanceData type uses 'notes' for clarity.
+      // Map notes to remarks to ensure the backend receives the field it expects.
+      remarks: (data as any).remarks ?? data.notes,
+    }
+
+    try {
+      const response = await apiClient.post(
+        '/attendance/subject/mark',
+        payload,
+        schoolRequestConfig(options)
+      )
+      return decodeResponse(response, envelope(attendanceRecordSchema))
+    } catch (error) {
+      if (options.queueOffline === false || !isOfflineError(error)) throw error
+
+      const entry = await useOutboxStore.getState().enqueue({
+        operation: 'subject-mark',
+        payload,
+        ...getSessionScope(),
         subjectId: data.subjectId,
-        studentId: data.studentId, // Backend expects 'studentId' not 'student'
+        studentIds: [data.studentId],
         date: data.date,
-        status: data.status,
-        timeSlot: data.timeSlot,
-        scheduleSlot: data.scheduleSlot,
-        // Backend expects 'remarks' field; the SubjectAttendanceData type uses 'notes' for clarity.
-        // Map notes to remarks to ensure the backend receives the field it expects.
-        remarks: (data as any).remarks ?? data.notes,
-      }
-    )
-    return response.data.data || response.data
+        attendanceStatus: data.status,
+      })
+      return toPendingRecords(entry)[0]
+    }
   },
 
   /**
    * Bulk mark attendance for multiple students
+   * When offline, the marks are queued in the outbox and pending records are returned
    */
-  async bulkMarkSubjectAttendance(data: BulkSubjectAttendanceData): Promise<AttendanceRecord[]> {
+  async bulkMarkSubjectAttendance(
+    data: BulkSubjectAttendanceData,
+    options: OfflineQueueOptions = {}
+  ): Promise<AttendanceRecord[]> {
     // Normalize fields to ensure backend receives 'remarks' (legacy name) when 'notes' is used
     const payload: any = { ...data, remarks: (data as any).remarks ?? (data as any).notes }
-    const response = await apiClient.post<ApiResponse<AttendanceRecord[]>>(
-      '/attendance/subject/bulk-mark',
-      payload
-    )
-    // Ensure we always return an array
-    const result = response.data?.data ?? response.data
-    return Array.isArray(result) ? result : []
+
+    try {
+      const response = await apiClient.post(
+        '/attendance/subject/bulk-mark',
+        payload,
+        schoolRequestConfig(options)
+      )
+      return decodeResponse(response, envelope(array(attendanceRecordSchema)))
+    } catch (error) {
+      if (options.queueOffline === false || !isOfflineError(error)) throw error
+
+      const entry = await useOutboxStore.getState().enqueue({
+        operation: 'subject-bulk-mark',
+        payload,
+        ...getSessionScope(),
+        subjectId: data.subjectId,
+        studentIds: data.studentIds,
+        date: data.date,
+        attendanceStatus: data.status,
+      })
+      return toPendingRecords(entry)
+    }
+  },
+
+  /**
+   * Mark the holder of a tapped NFC card. Not queued offline: the server has
+   * to check the card first, and lost or revoked cards are rejected (409).
+   */
+  async markByCard(data: CardTapAttendanceData): Promise<AttendanceRecord> {
+    const response = await apiClient.post('/attendance/subject/tap', {
+      ...data,
+      uid: normalizeNfcUid(data.uid),
+      timeSlot: 'arrival',
+    })
+    return decodeResponse(response, envelope(attendanceRecordSchema))
   },
 
   /**
@@ -67,24 +140,8 @@ export const subjectAttendanceService = {
     subjectId: string | number,
     date: string
   ): Promise<AttendanceRecord[]> {
-    const response = await apiClient.get<ApiResponse<AttendanceRecord[]>>(
-      `/attendance/subject/${subjectId}/date/${date}`
-    )
-    // Ensure we always return an array, handling various API response formats
-    const data = response.data?.data ?? response.data
-    if (Array.isArray(data)) return data
-    if (data && typeof data === 'object' && 'records' in data && Array.isArray(data.records)) {
-      return data.records
-    }
-    if (
-      data &&
-      typeof data === 'object' &&
-      'attendance' in data &&
-      Array.isArray(data.attendance)
-    ) {
-      return data.attendance
-    }
-    return []
+    const response = await apiClient.get(`/attendance/subject/${subjectId}/date/${date}`)
+    return decodeResponse(response, envelope(array(attendanceRecordSchema)))
   },
 
   /**
@@ -94,10 +151,8 @@ export const subjectAttendanceService = {
     subjectId: string | number,
     date: string
   ): Promise<SubjectAttendanceSummaryEnhanced> {
-    const response = await apiClient.get<ApiResponse<SubjectAttendanceSummaryEnhanced>>(
-      `/attendance/subject/${subjectId}/summary/${date}`
-    )
-    return response.data.data || response.data
+    const response = await apiClient.get(`/attendance/subject/${subjectId}/summary/${date}`)
+    return decodeResponse(response, envelope(subjectDailySummarySchema))
   },
 
   /**
@@ -107,10 +162,8 @@ export const subjectAttendanceService = {
     studentId: number,
     subjectId: string | number
   ): Promise<StudentSubjectAttendance> {
-    const response = await apiClient.get<ApiResponse<StudentSubjectAttendance>>(
-      `/attendance/subject/${subjectId}/student/${studentId}`
-    )
-    return response.data.data || response.data
+    const response = await apiClient.get(`/attendance/subject/${subjectId}/student/${studentId}`)
+    return decodeResponse(response, envelope(studentSubjectAttendanceSchema))
   },
 
   /**
@@ -4,20 +4,22 @@
  * Handles student enrollment/unenrollment for subjects
  */
 
-import apiClient from './api'
+import apiClient, { decodeResponse } from './api'
+import { enrolledStudentSchema, envelope } from './schemas'
 import { EnrolledStudent, EnrollmentFormData, BulkEnrollmentData } from '@/types/subject.types'
-import { ApiResponse } from '@/types'
+import { decoders } from '@/utils/decoding'
+
+const { array } = decoders
 
 export const subjectEnrollmentService = {
   /**
    * Enroll a student in a subject
    */
   async enrollStudent(data: EnrollmentFormData): Promise<EnrolledStudent> {
-    const response = await apiClient.post<ApiResponse<EnrolledStudent>>(
-      `/subjects/${data.subjectId}/enroll`,
-      { studentId: data.studentId }
-    )
-    return response.data.data || response.data
+    const response = await apiClient.post(`/subjects/${data.subjectId}/enroll`, {
+      studentId: data.studentId,
+    })
+    return decodeResponse(response, envelope(enrolledStudentSchema))
   },
 
   /**
@@ -31,21 +33,18 @@ export const subjectEnrollmentService = {
    * Get all enrolled students for a subject
    */
   async getEnrolledStudents(subjectId: string | number): Promise<EnrolledStudent[]> {
-    const response = await apiClient.get<ApiResponse<EnrolledStudent[]>>(
-      `/subjects/${subjectId}/students`
-    )
-    return response.data.data || response.data
+    const response = await apiClient.get(`/subjects/${subjectId}/students`)
+    return decodeResponse(response, envelope(array(enrolledStudentSchema)))
   },
 
   /**
    * Bulk enroll multiple students
    */
   async bulkEnrollStudents(data: BulkEnrollmentData): Promise<EnrolledStudent[]> {
-    const response = await apiClient.post<ApiResponse<EnrolledStudent[]>>(
-      `/subjects/${data.subjectId}/students/bulk`,
-      { studentIds: data.studentIds }
-    )
-    return response.data.data || response.data
+    const response = await apiClient.post(`/subjects/${data.subjectId}/students/bulk`, {
+      studentIds: data.studentIds,
+    })
+    return decodeResponse(response, envelope(array(enrolledStudentSchema)))
   },
 
   /**
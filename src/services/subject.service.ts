@@ -4,8 +4,9 @@
  * Handles subject-related API calls with comprehensive validation
  */
 
-import apiClient from './api'
-import { Subject, ApiResponse } from '@/types'
+import apiClient, { decodeResponse } from './api'
+import { envelope, subjectInstructorSchema, subjectSchema } from './schemas'
+import { InstructorAssignment, Subject, SubjectInstructor } from '@/types'
 import { SubjectEnhanced, SubjectScheduleSlot, SubjectSchedule } from '@/types/subject.types'
 import { sanitizeString } from '@/utils/validation'
 import {
@@ -14,6 +15,9 @@ import {
   VALIDATION_RULES,
   validateSubjectForm,
 } from '@/utils/validation-rules'
+import { decoders } from '@/utils/decoding'
+
+const { array } = decoders
 
 // Local type definition to handle both basic subject fields and schedule fields
 type SubjectInput = Partial<Subject> & {
@@ -36,6 +40,11 @@ function sanitizeSubjectFormData(data: SubjectInput): SubjectInput {
   if (data.instructor !== undefined) {
     sanitized.instructor = sanitizers.name(data.instructor || '')
   }
+  if (data.instructorIds !== undefined) {
+    sanitized.instructorIds = data.instructorIds.filter(
+      (id, index, ids) => ids.findIndex((other) => String(other) === String(id)) === index
+    )
+  }
   if (data.room !== undefined) {
     sanitized.room = sanitizeString(data.room || '')
   }
@@ -60,8 +69,37 @@ export const subjectService = {
    * Get all subjects
    */
   async getAll(): Promise<Subject[]> {
-    const response = await apiClient.get<ApiResponse<Subject[]>>('/subjects')
-    return response.data.data || response.data
+    const response = await apiClient.get('/subjects')
+    return decodeResponse(response, envelope(array(subjectSchema)))
+  },
+
+  /**
+   * Get the subjects the signed-in user is assigned to teach
+   */
+  async getMine(): Promise<Subject[]> {
+    const response = await apiClient.get('/subjects', { params: { mine: true } })
+    return decodeResponse(response, envelope(array(subjectSchema)))
+  },
+
+  /**
+   * Accounts that can be assigned as instructors (roles that mark attendance)
+   */
+  async getInstructors(): Promise<SubjectInstructor[]> {
+    const response = await apiClient.get('/subjects/instructors')
+    return decodeResponse(response, envelope(array(subjectInstructorSchema)))
+  },
+
+  /**
+   * Replace the instructor lists of several subjects at once. The backend
+   * applies all assignments or none.
+   */
+  async assignInstructors(assignments: InstructorAssignment[]): Promise<Subject[]> {
+    if (assignments.length === 0) {
+      throw new Error('No instructor changes to save')
+    }
+
+    const response = await apiClient.put('/subjects/instructors', { assignments })
+    return decodeResponse(response, envelope(array(subjectSchema)))
   },
 
   /**
@@ -74,8 +112,8 @@ export const subjectService = {
       throw new Error('Subject ID is required')
     }
 
-    const response = await apiClient.get<ApiResponse<SubjectEnhanced>>(`/subjects/${id}`)
-    return response.data.data || response.data
+    const response = await apiClient.get(`/subjects/${id}`)
+    return decodeResponse(response, envelope(subjectSchema))
   },
 
   /**
@@ -164,8 +202,8 @@ export const subjectService = {
     // Sanitize data before submission
     const sanitizedData = sanitizeSubjectFormData(data)
 
-    const response = await apiClient.post<ApiResponse<Subject>>('/subjects', sanitizedData)
-    return response.data.data || response.data
+    const response = await apiClient.post('/subjects', sanitizedData)
+    return decodeResponse(response, envelope(subjectSchema))
   },
 
   /**
@@ -224,16 +262,16 @@ export const subjectService = {
     // Sanitize data before submission
     const sanitizedData = sanitizeSubjectFormData(data)
 
-    const response = await apiClient.put<ApiResponse<Subject>>(`/subjects/${id}`, sanitizedData)
-    return response.data.data || response.data
+    const response = await apiClient.put(`/subjects/${id}`, sanitizedData)
+    return decodeResponse(response, envelope(subjectSchema))
   },
 
   /**
    * Update subject schedule (legacy single schedule)
    */
   async updateSchedule(id: string | number, schedule: SubjectSchedule | null): Promise<Subject> {
-    const response = await apiClient.put<ApiResponse<Subject>>(`/subjects/${id}`, { schedule })
-    return response.data.data || response.data
+    const response = await apiClient.put(`/subjects/${id}`, { schedule })
+    return decodeResponse(response, envelope(subjectSchema))
   },
 
   /**
@@ -243,13 +281,10 @@ export const subjectService = {
     id: string | number,
     schedules: SubjectScheduleSlot[]
   ): Promise<SubjectEnhanced> {
-    const response = await apiClient.put<ApiResponse<SubjectEnhanced>>(
-      `/subjects/${id}/schedules`,
-      {
-        schedules,
-      }
-    )
-    return response.data.data || response.data
+    const response = await apiClient.put(`/subjects/${id}/schedules`, {
+      schedules,
+    })
+    return decodeResponse(response, envelope(subjectSchema))
   },
 
   /**
@@ -281,9 +316,9 @@ export const subjectService = {
       return []
     }
 
-    const response = await apiClient.get<ApiResponse<Subject[]>>('/subjects/search', {
+    const response = await apiClient.get('/subjects/search', {
       params: { q: sanitizedQuery },
     })
-    return response.data.data || response.data
+    return decodeResponse(response, envelope(array(subjectSchema)))
   },
 }
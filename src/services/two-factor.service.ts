@@ -0,0 +1,136 @@
+/**
+ * Two-Factor Service
+ *
+ * TOTP enrolment for the signed-in user (setup, confirm, disable, recovery
+ * codes) and the admin policy naming the roles that must use it. The second
+ * login step lives in authService.verifyTwoFactorLogin.
+ */
+
+import apiClient, { decodeResponse } from './api'
+import {
+  envelope,
+  twoFactorPolicySchema,
+  twoFactorRecoveryCodesSchema,
+  twoFactorSetupSchema,
+} from './schemas'
+import { TwoFactorPolicy, TwoFactorRecoveryCodes, TwoFactorSetup } from '@/types'
+import { logError, withTimeout } from '@/utils/errorHandling'
+import { validators } from '@/utils/validation-rules'
+
+function requireOtp(code: string): string {
+  const result = validators.otp(code)
+  if (!result.isValid) {
+    throw new Error(result.error)
+  }
+  return code.trim()
+}
+
+export const twoFactorService = {
+  /**
+   * Create a pending authenticator secret. Nothing changes for the account
+   * until confirmSetup succeeds.
+   */
+  async startSetup(): Promise<TwoFactorSetup> {
+    try {
+      const response = await withTimeout(
+        apiClient.post('/auth/two-factor/setup'),
+        10000,
+        'Two-factor setup timeout'
+      )
+      return decodeResponse(response, envelope(twoFactorSetupSchema))
+    } catch (error) {
+      logError('TwoFactorService', 'startSetup', error)
+      throw error
+    }
+  },
+
+  /**
+   * Turn on two-factor authentication with a code from the new authenticator
+   * @returns Recovery codes, shown to the user once
+   */
+  async confirmSetup(code: string): Promise<TwoFactorRecoveryCodes> {
+    const otp = requireOtp(code)
+    try {
+      const response = await withTimeout(
+        apiClient.post('/auth/two-factor/confirm', { code: otp }),
+        10000,
+        'Two-factor confirmation timeout'
+      )
+      return decodeResponse(response, envelope(twoFactorRecoveryCodesSchema))
+    } catch (error) {
+      logError('TwoFactorService', 'confirmSetup', error)
+      throw error
+    }
+  },
+
+  /**
+   * Turn off two-factor authentication
+   * @param code - Authenticator or recovery code
+   * @throws {ApiError} TWO_FACTOR_REQUIRED_BY_POLICY when the user's role must keep it
+   */
+  async disable(code: string): Promise<void> {
+    if (!code.trim()) {
+      throw new Error('Verification code is required')
+    }
+    try {
+      await withTimeout(
+        apiClient.post('/auth/two-factor/disable', { code: code.trim() }),
+        10000,
+        'Disable two-factor timeout'
+      )
+    } catch (error) {
+      logError('TwoFactorService', 'disable', error)
+      throw error
+    }
+  },
+
+  /**
+   * Replace all recovery codes; the old ones stop working
+   * @param code - Current authenticator code
+   */
+  async regenerateRecoveryCodes(code: string): Promise<TwoFactorRecoveryCodes> {
+    const otp = requireOtp(code)
+    try {
+      const response = await withTimeout(
+        apiClient.post('/auth/two-factor/recovery-codes', { code: otp }),
+        10000,
+        'Recovery code request timeout'
+      )
+      return decodeResponse(response, envelope(twoFactorRecoveryCodesSchema))
+    } catch (error) {
+      logError('TwoFactorService', 'regenerateRecoveryCodes', error)
+      throw error
+    }
+  },
+
+  /**
+   * Roles that must use two-factor authentication (requires MANAGE_USERS)
+   */
+  async getPolicy(): Promise<TwoFactorPolicy> {
+    try {
+      const response = await apiClient.get('/auth/two-factor/policy')
+      return decodeResponse(response, envelope(twoFactorPolicySchema))
+    } catch (error) {
+      logError('TwoFactorService', 'getPolicy', error)
+      throw error
+    }
+  },
+
+  /**
+   * Set the roles that must use two-factor authentication. Only roles from
+   * getTwoFactorEligibleRoles() are accepted.
+   */
+  async updatePolicy(policy: TwoFactorPolicy): Promise<TwoFactorPolicy> {
+    try {
+      const response = await withTimeout(
+        apiClient.put('/auth/two-factor/policy', policy),
+        10000,
+        'Two-factor policy update timeout'
+      )
+      return decodeResponse(response, envelope(twoFactorPolicySchema))
+    } catch (error) {
+      logError('TwoFactorService', 'updatePolicy', error)
+      throw error
+    }
+  },
+}
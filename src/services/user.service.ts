@@ -1,61 +1,63 @@
-import apiClient from './api'
-import { User } from '@/types'
-
-interface UserStats {
-  total: number
-  active: number
-  inactive: number
-  byRole: {
-    superadmin: number
-    admin: number
-    staff: number
-  }
-}
+import apiClient, { decodeResponse } from './api'
+import { envelope, userSchema, userStatsSchema } from './schemas'
+import { User, UserRole, UserStats } from '@/types'
+import { decoders } from '@/utils/decoding'
+
+const { array } = decoders
 
 export const userService = {
   async getAll(): Promise<User[]> {
-    const response = await apiClient.get<User[]>('/users')
-    return response.data
+    const response = await apiClient.get('/users')
+    return decodeResponse(response, envelope(array(userSchema)))
   },
 
   async getStats(): Promise<UserStats> {
-    const response = await apiClient.get<UserStats>('/users/stats')
-    return response.data
+    const response = await apiClient.get('/users/stats')
+    return decodeResponse(response, envelope(userStatsSchema))
   },
 
   async getById(id: number): Promise<User> {
-    const response = await apiClient.get<User>(`/users/${id}`)
-    return response.data
+    const response = await apiClient.get(`/users/${id}`)
+    return decodeResponse(response, envelope(userSchema))
   },
 
   async create(data: {
     name: string
     email: string
     password: string
-    role: string
+    role: UserRole
   }): Promise<User> {
-    const response = await apiClient.post<User>('/users', data)
-    return response.data
+    const response = await apiClient.post('/users', data)
+    return decodeResponse(response, envelope(userSchema))
   },
 
-  async update(id: number, data: Partial<User>): Promise<User> {
-    const response = await apiClient.put<User>(`/users/${id}`, data)
-    return response.data
+  /**
+   * Update a user's name, email or role
+   */
+  async update(id: number, data: Partial<Pick<User, 'name' | 'email' | 'role'>>): Promise<User> {
+    const response = await apiClient.put(`/users/${id}`, data)
+    return decodeResponse(response, envelope(userSchema))
   },
 
+  /**
+   * Activate or deactivate an account. Inactive users cannot sign in.
+   */
   async toggleActive(id: number): Promise<User> {
-    const response = await apiClient.put<User>(`/users/${id}/toggle`)
-    return response.data
+    const response = await apiClient.put(`/users/${id}/toggle`)
+    return decodeResponse(response, envelope(userSchema))
   },
 
+  /**
+   * Permanently remove an account. Check canDeleteUser first.
+   */
   async delete(id: number): Promise<void> {
     await apiClient.delete(`/users/${id}`)
   },
 
   async search(query: string): Promise<User[]> {
-    const response = await apiClient.get<User[]>('/users/search', {
+    const response = await apiClient.get('/users/search', {
       params: { q: query },
     })
-    return response.data
+    return decodeResponse(response, envelope(array(userSchema)))
   },
 }
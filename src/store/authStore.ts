@@ -1,13 +1,18 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
-import { User } from '@/types'
+import { LogoutReason, School, User } from '@/types'
+import { sessionSyncService } from '@/services/session-sync.service'
+import { useOutboxStore } from './outboxStore'
+import { usePermissionStore } from './permissionStore'
+import { useSchoolStore } from './schoolStore'
 
 interface AuthState {
   user: User | null
   token: string | null
   isAuthenticated: boolean
   setAuth: (user: User, token: string) => void
-  clearAuth: () => void
+  setToken: (token: string) => void
+  clearAuth: (reason?: LogoutReason) => void
   updateUser: (user: Partial<User>) => void
 }
 
@@ -22,19 +27,49 @@ export const useAuthStore = create<AuthState>()(
         localStorage.setItem('token', token)
         localStorage.setItem('user', JSON.stringify(user))
         set({ user, token, isAuthenticated: true })
+        // A fresh login starts a fresh idle window
+        sessionSyncService.touch()
+        sessionSyncService.broadcast({ type: 'login' })
       },
-      clearAuth: () => {
+      setToken: (token) => {
+        // Swap the access token after a silent refresh, keeping the current user
+        localStorage.setItem('token', token)
+        set({ token })
+        sessionSyncService.broadcast({ type: 'token-refreshed' })
+      },
+      clearAuth: (reason = 'manual') => {
         localStorage.removeItem('token')
         localStorage.removeItem('user')
+        useSchoolStore.getState().clearSchools()
+        usePermissionStore.getState().clearMatrix()
+        // Queued marks stay in IndexedDB for their own account; just stop showing them
+        useOutboxStore.getState().reset()
         set({ user: null, token: null, isAuthenticated: false })
+        sessionSyncService.broadcast({ type: 'logout', reason })
       },
-      updateUser: (updatedUser) =>
+      updateUser: (updatedUser) => {
         set((state) => ({
           user: state.user ? { ...state.user, ...updatedUser } : null,
-        })),
+        }))
+        sessionSyncService.broadcast({ type: 'user-updated' })
+      },
     }),
     {
       name: 'auth-storage',
     }
   )
 )
+
+/**
+ * Account and school requests are currently sent as. Stamped on marks queued
+ * offline so they are replayed for the same account and school.
+ */
+export function getSessionScope(): {
+  userId: User['id'] | null
+  schoolId: School['id'] | null
+} {
+  return {
+    userId: useAuthStore.getState().user?.id ?? null,
+    schoolId: useSchoolStore.getState().currentSchoolId,
+  }
+}
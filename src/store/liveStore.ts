@@ -0,0 +1,64 @@
+import { create } from 'zustand'
+import { AttendanceRecord, AttendanceStatus, LiveActor, LiveConnectionStatus } from '@/types'
+
+// How long a live mark stays highlighted in the attendance list
+const RECENT_MARK_TTL = 5 * 60 * 1000
+
+export interface RecentMark {
+  actor: LiveActor
+  at: string
+  status: AttendanceStatus
+}
+
+interface LiveState {
+  status: LiveConnectionStatus
+  recentMarks: { [key: string]: RecentMark }
+  setStatus: (status: LiveConnectionStatus) => void
+  recordMark: (record: AttendanceRecord, actor: LiveActor, at: string) => void
+  pruneMarks: () => void
+}
+
+/**
+ * Key for a student's mark in a subject session
+ */
+export function recentMarkKey(
+  subjectId: string | number | undefined,
+  date: string,
+  studentId: string | number,
+  scheduleSlot?: string
+): string {
+  return `${subjectId}:${date.slice(0, 10)}:${studentId}:${scheduleSlot ?? ''}`
+}
+
+/**
+ * Live stream connection state and the marks other sessions made recently
+ */
+export const useLiveStore = create<LiveState>((set) => ({
+  status: 'idle',
+  recentMarks: {},
+  setStatus: (status) => set({ status }),
+  recordMark: (record, actor, at) =>
+    set((state) => ({
+      recentMarks: {
+        ...state.recentMarks,
+        [recentMarkKey(
+          record.subjectId,
+          record.date ?? record.timestamp ?? record.createdAt,
+          record.studentId,
+          record.scheduleSlot
+        )]: {
+          actor,
+          at,
+          status: record.status,
+        },
+      },
+    })),
+  pruneMarks: () =>
+    set((state) => {
+      const cutoff = Date.now() - RECENT_MARK_TTL
+      const recentMarks = Object.fromEntries(
+        Object.entries(state.recentMarks).filter(([, mark]) => Date.parse(mark.at) >= cutoff)
+      )
+      return { recentMarks }
+    }),
+}))
@@ -0,0 +1,58 @@
+import { create } from 'zustand'
+import { NewOutboxEntry, OutboxEntry } from '@/types'
+import { attendanceOutboxService } from '@/services/attendance-outbox.service'
+
+interface OutboxState {
+  entries: OutboxEntry[]
+  isHydrated: boolean
+  isSyncing: boolean
+  hydrate: (userId: string | number) => Promise<void>
+  enqueue: (entry: NewOutboxEntry) => Promise<OutboxEntry>
+  updateEntry: (entry: OutboxEntry) => Promise<void>
+  removeEntry: (id: number) => Promise<void>
+  setSyncing: (isSyncing: boolean) => void
+  reset: () => void
+}
+
+/**
+ * In-memory mirror of the signed-in user's part of the IndexedDB attendance
+ * outbox so components can render pending marks reactively
+ */
+export const useOutboxStore = create<OutboxState>((set, get) => ({
+  entries: [],
+  isHydrated: false,
+  isSyncing: false,
+  hydrate: async (userId) => {
+    if (get().isHydrated) return
+    try {
+      const entries = await attendanceOutboxService.getAll()
+      set({
+        entries: entries.filter((e) => e.userId !== null && String(e.userId) === String(userId)),
+        isHydrated: true,
+      })
+    } catch (error) {
+      console.error('[Outbox] Failed to load queued attendance', error)
+      set({ isHydrated: true })
+    }
+  },
+  enqueue: async (entry) => {
+    const saved = await attendanceOutboxService.add({
+      ...entry,
+      status: 'pending',
+      queuedAt: new Date().toISOString(),
+    })
+    set((state) => ({ entries: [...state.entries, saved] }))
+    return saved
+  },
+  updateEntry: async (entry) => {
+    await attendanceOutboxService.put(entry)
+    set((state) => ({ entries: state.entries.map((e) => (e.id === entry.id ? entry : e)) }))
+  },
+  removeEntry: async (id) => {
+    await attendanceOutboxService.remove(id)
+    set((state) => ({ entries: state.entries.filter((e) => e.id !== id) }))
+  },
+  setSyncing: (isSyncing) => set({ isSyncing }),
+  // Forget the mirror on logout; the next account hydrates its own entries
+  reset: () => set({ entries: [], isHydrated: false, isSyncing: false }),
+}))
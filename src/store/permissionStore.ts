@@ -0,0 +1,27 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import { PermissionMatrix } from '@/types'
+
+interface PermissionState {
+  matrix: PermissionMatrix | null
+  setMatrix: (matrix: PermissionMatrix) => void
+  clearMatrix: () => void
+}
+
+/**
+ * Role/permission matrix from the backend, loaded after login and cached with
+ * the user. While it is null the static table in utils/permissions applies.
+ * clearAuth resets it on logout.
+ */
+export const usePermissionStore = create<PermissionState>()(
+  persist(
+    (set) => ({
+      matrix: null,
+      setMatrix: (matrix) => set({ matrix }),
+      clearMatrix: () => set({ matrix: null }),
+    }),
+    {
+      name: 'permission-storage',
+    }
+  )
+)
@@ -0,0 +1,59 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import { School } from '@/types'
+
+interface SchoolState {
+  schools: School[]
+  currentSchoolId: School['id'] | null
+  setSchools: (schools: School[]) => void
+  switchSchool: (schoolId: School['id']) => void
+  updateSchool: (school: School) => void
+  clearSchools: () => void
+}
+
+/**
+ * Schools the signed-in user belongs to and the one they are working in.
+ * Kept next to useAuthStore; clearAuth resets it on logout.
+ */
+export const useSchoolStore = create<SchoolState>()(
+  persist(
+    (set) => ({
+      schools: [],
+      currentSchoolId: null,
+      setSchools: (schools) =>
+        set((state) => ({
+          schools,
+          // Keep the current school if the user still belongs to it
+          currentSchoolId: schools.some((s) => String(s.id) === String(state.currentSchoolId))
+            ? state.currentSchoolId
+            : (schools[0]?.id ?? null),
+        })),
+      switchSchool: (schoolId) => set({ currentSchoolId: schoolId }),
+      updateSchool: (school) =>
+        set((state) => ({
+          schools: state.schools.map((s) => (String(s.id) === String(school.id) ? school : s)),
+        })),
+      clearSchools: () => set({ schools: [], currentSchoolId: null }),
+    }),
+    {
+      name: 'school-storage',
+    }
+  )
+)
+
+/**
+ * The school the user is currently working in
+ */
+export function useCurrentSchool(): School | null {
+  return useSchoolStore(
+    (s) => s.schools.find((school) => String(school.id) === String(s.currentSchoolId)) ?? null
+  )
+}
+
+/**
+ * Non-reactive read of the current school, for services and event handlers
+ */
+export function getCurrentSchool(): School | null {
+  const { schools, currentSchoolId } = useSchoolStore.getState()
+  return schools.find((school) => String(school.id) === String(currentSchoolId)) ?? null
+}
@@ -2,6 +2,8 @@
 // ATTENDANCE MANAGEMENT TYPES
 // ============================================================================
 
+import type { BulkSubjectAttendanceData, SubjectAttendanceData } from './subject.types'
+
 /**
  * Attendance status types
  */
@@ -34,6 +36,11 @@ export interface AttendanceRecord {
   remarks?: string // backend field name
   createdAt: string
   updatedAt?: string
+  pendingSync?: boolean // Saved in the offline outbox, not yet on the server
+  markedBy?: {
+    id: string | number
+    name: string
+  }
   // Populated student object (from backend)
   student?: {
     _id?: string
@@ -45,6 +52,13 @@ export interface AttendanceRecord {
     section?: string
     guardianEmail?: string
   }
+  // Populated subject object (from backend)
+  subject?: {
+    _id?: string
+    id?: string | number
+    subjectCode: string
+    subjectName: string
+  }
 }
 
 /**
@@ -136,6 +150,20 @@ export interface AttendanceFilters {
   searchTerm?: string
 }
 
+/**
+ * Filters of the attendance records list
+ */
+export interface AttendanceRecordFilters {
+  startDate?: string
+  endDate?: string
+  studentId?: number
+  subjectId?: string | number
+  subjectCode?: string
+  status?: AttendanceStatus
+  timeSlot?: TimeSlot
+  search?: string // Student name, number or email, or subject code or name
+}
+
 /**
  * Excel import result
  */
@@ -178,3 +206,59 @@ export interface MessageVariables {
   subject?: string
   status?: string
 }
+
+// ============================================================================
+// OFFLINE OUTBOX TYPES
+// ============================================================================
+
+/**
+ * Attendance call captured while offline
+ * - subject-mark: subjectAttendanceService.markSubjectAttendance
+ * - subject-bulk-mark: subjectAttendanceService.bulkMarkSubjectAttendance
+ * - mark: enhancedAttendanceService.markAttendance
+ */
+export type OutboxOperation = OutboxRequest['operation']
+
+/**
+ * Replay state of an outbox entry
+ * - pending: waiting for the connection to come back
+ * - conflict: the server already has a record (409), needs manual resolution
+ * - failed: rejected by the server for good (400, 404, 422); can be retried by hand
+ */
+export type OutboxEntryStatus = 'pending' | 'conflict' | 'failed'
+
+/**
+ * Request body kept with an outbox entry, as the operation's call posts it
+ * (`notes` already copied to `remarks`)
+ */
+export type OutboxRequest =
+  | { operation: 'subject-mark'; payload: SubjectAttendanceData & { remarks?: string } }
+  | { operation: 'subject-bulk-mark'; payload: BulkSubjectAttendanceData & { remarks?: string } }
+  | { operation: 'mark'; payload: AttendanceFormData & { date: string; remarks?: string } }
+
+/**
+ * Outbox entry fields shared by every operation
+ */
+export interface OutboxEntryBase {
+  readonly id: number
+  userId: string | number | null // Signed-in user when the mark was queued
+  schoolId: string | number | null // School the mark was taken in (null: the user's default)
+  subjectId?: string | number
+  studentIds: (string | number)[]
+  date: string // YYYY-MM-DD the mark applies to
+  attendanceStatus: AttendanceStatus
+  status: OutboxEntryStatus
+  queuedAt: string // ISO 8601 date string
+  lastError?: string
+}
+
+/**
+ * Persisted outbox entry (IndexedDB). Entries are replayed only for the
+ * account and school that queued them.
+ */
+export type OutboxEntry = OutboxEntryBase & OutboxRequest
+
+/**
+ * Outbox entry as queued, before IndexedDB assigns its id
+ */
+export type NewOutboxEntry = Omit<OutboxEntryBase, 'id' | 'status' | 'queuedAt'> & OutboxRequest
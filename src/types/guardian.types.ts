@@ -0,0 +1,62 @@
+// ============================================================================
+// GUARDIAN TYPES
+// ============================================================================
+
+/**
+ * How a guardian is related to a student
+ */
+export type GuardianRelationship =
+  | 'mother'
+  | 'father'
+  | 'guardian'
+  | 'grandparent'
+  | 'sibling'
+  | 'other'
+
+/**
+ * How a guardian prefers to be reached. Notices are only sent by email; the
+ * preference tells staff whether to follow up by phone.
+ */
+export type GuardianChannel = 'email' | 'phone'
+
+/**
+ * A parent or guardian, shared by every student they are linked to
+ */
+export interface Guardian {
+  readonly id: number
+  name: string
+  email?: string
+  contact?: string
+  preferredChannel: GuardianChannel
+  studentCount?: number // Students linked to this guardian
+  createdAt: string
+  updatedAt?: string
+}
+
+/**
+ * Form data for creating or updating a guardian
+ */
+export interface GuardianFormData {
+  name: string
+  email?: string
+  contact?: string
+  preferredChannel: GuardianChannel
+}
+
+/**
+ * A guardian as linked to one student. The first link is the primary guardian.
+ */
+export interface StudentGuardian {
+  guardian: Guardian
+  relationship: GuardianRelationship
+  receivesAttendanceAlerts: boolean
+}
+
+/**
+ * A link sent when saving a student; replaces the student's guardian list
+ */
+export interface StudentGuardianLink {
+  guardianId: number
+  relationship: GuardianRelationship
+  receivesAttendanceAlerts: boolean
+}
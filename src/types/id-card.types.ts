@@ -0,0 +1,57 @@
+// ============================================================================
+// STUDENT ID CARD TYPES
+// ============================================================================
+
+import type { EntityId } from './index'
+
+/**
+ * Card orientation; both print at CR80 size (85.6 x 54 mm)
+ */
+export type IdCardOrientation = 'landscape' | 'portrait'
+
+/**
+ * Saved layout for printed ID cards
+ */
+export interface IdCardTemplate {
+  readonly id: EntityId
+  name: string
+  orientation: IdCardOrientation
+  accentColor: string // Hex color (#RRGGBB) for the header band
+  title: string // Header text, e.g. "Student Identification Card"
+  showPhoto: boolean
+  showQrCode: boolean // QR code of the student number
+  showBarcode: boolean // Code128 barcode of the student number
+  printBack: boolean // Print a back side for each card
+  backText: string // Back side message, e.g. return-if-found instructions
+  createdAt: string // ISO 8601 date string
+  updatedAt?: string // ISO 8601 date string
+}
+
+/**
+ * Form data for creating or updating a card template
+ */
+export type IdCardTemplateFormData = Omit<IdCardTemplate, 'id' | 'createdAt' | 'updatedAt'>
+
+/**
+ * One printed card. The card is tied to the NFC card the student had when it
+ * was printed, so a reprint for the same NFC card counts as a reprint.
+ */
+export interface IdCardPrint {
+  readonly id: EntityId
+  studentId: EntityId
+  nfcId?: string // NFC card bound to the printed card; missing if the student had none
+  templateId: EntityId
+  printNumber: number // 1 for the first card printed for this NFC card
+  reason?: string // Why it was reprinted
+  printedBy?: { id: EntityId; name: string }
+  printedAt: string // ISO 8601 date string
+}
+
+/**
+ * Request to record a print run
+ */
+export interface IdCardPrintRequest {
+  studentIds: number[]
+  templateId: EntityId
+  reason?: string
+}
@@ -1,3 +1,10 @@
+import type { StudentGuardian, StudentGuardianLink } from './guardian.types'
+
+/**
+ * Identifier as sent by the backend: numeric ids, or MongoDB ObjectId strings
+ */
+export type EntityId = string | number
+
 // ============================================================================
 // ATTENDANCE TYPES - Export from separate file
 // ============================================================================
@@ -8,19 +15,89 @@ export * from './attendance.types'
 // ============================================================================
 export * from './subject.types'
 
+// ============================================================================
+// LIVE UPDATE TYPES - Export from separate file
+// ============================================================================
+export * from './live.types'
+
+// ============================================================================
+// SCHOOL TYPES - Export from separate file
+// ============================================================================
+export * from './school.types'
+
+// ============================================================================
+// TWO-FACTOR TYPES - Export from separate file
+// ============================================================================
+export * from './two-factor.types'
+
+// ============================================================================
+// PERMISSION MATRIX TYPES - Export from separate file
+// ============================================================================
+export * from './permission.types'
+
+// ============================================================================
+// INVITATION TYPES - Export from separate file
+// ============================================================================
+export * from './invitation.types'
+
+// ============================================================================
+// STUDENT IMPORT TYPES - Export from separate file
+// ============================================================================
+export * from './student-import.types'
+
+// ============================================================================
+// STUDENT STATUS LIFECYCLE TYPES - Export from separate file
+// ============================================================================
+export * from './student-status.types'
+
+// ============================================================================
+// STUDENT BULK EDIT TYPES - Export from separate file
+// ============================================================================
+export * from './student-bulk.types'
+
+// ============================================================================
+// STUDENT DUPLICATE & MERGE TYPES - Export from separate file
+// ============================================================================
+export * from './student-merge.types'
+
+// ============================================================================
+// GUARDIAN TYPES - Export from separate file
+// ============================================================================
+export * from './guardian.types'
+
+// ============================================================================
+// STUDENT ID CARD TYPES - Export from separate file
+// ============================================================================
+export * from './id-card.types'
+
+// ============================================================================
+// NFC CARD TYPES - Export from separate file
+// ============================================================================
+export * from './nfc-card.types'
+
+// ============================================================================
+// SEARCH QUERY TYPES - Export from separate file
+// ============================================================================
+export * from './search-query.types'
+
 // ============================================================================
 // USER & AUTHENTICATION TYPES
 // ============================================================================
 
 /**
- * User role types for authorization
+ * Built-in role types for authorization (defaults; the live matrix may change them)
  * - professor: Can view subjects, mark attendance, view students
  * - registrar: Full student/enrollment management
  * - admin: Full system access
  * - superadmin: Full system access (legacy alias for admin)
  * - staff: Limited view-only access (legacy)
  */
-export type UserRole = 'professor' | 'registrar' | 'admin' | 'superadmin' | 'staff'
+export type BuiltInRole = 'professor' | 'registrar' | 'admin' | 'superadmin' | 'staff'
+
+/**
+ * A built-in role, or the id of a custom role from the permission matrix
+ */
+export type UserRole = BuiltInRole | (string & {})
 
 /**
  * User entity from the authentication system
@@ -30,6 +107,20 @@ export interface User {
   name: string
   email: string
   role: UserRole
+  twoFactorEnabled?: boolean
+  twoFactorRequired?: boolean // The security policy requires 2FA for this user's role
+  isActive?: boolean // Sent by the user administration endpoints
+  createdAt?: string
+}
+
+/**
+ * Account counts for the user administration page
+ */
+export interface UserStats {
+  total: number
+  active: number
+  inactive: number
+  byRole: { [role in BuiltInRole]: number } & { [role: string]: number }
 }
 
 /**
@@ -41,6 +132,23 @@ export interface AuthResponse {
   token?: string // Legacy support for backward compatibility
 }
 
+/**
+ * Why a session ended
+ * - manual: the user clicked Logout
+ * - idle: the idle timeout expired
+ * - expired: the refresh token was rejected
+ */
+export type LogoutReason = 'manual' | 'idle' | 'expired'
+
+/**
+ * Message shared between open tabs so they stay signed in (or out) together
+ */
+export type SessionSyncMessage =
+  | { type: 'login' }
+  | { type: 'token-refreshed' }
+  | { type: 'user-updated' }
+  | { type: 'logout'; reason: LogoutReason }
+
 /**
  * Login credentials payload
  */
@@ -56,6 +164,32 @@ export interface SignupData {
   name: string
   email: string
   password: string
+  inviteToken?: string // From /signup?invite=TOKEN; the invitation sets the role
+}
+
+/**
+ * Account settings: profile tab
+ */
+export interface ProfileFormData {
+  name: string
+  email: string
+}
+
+/**
+ * Account settings: security tab
+ */
+export interface PasswordChangeFormData {
+  currentPassword: string
+  newPassword: string
+  confirmPassword: string
+}
+
+/**
+ * A password reset link that can still be used
+ */
+export interface PasswordResetTokenInfo {
+  email: string // Masked, e.g. "j***@notified.test"
+  expiresAt: string
 }
 
 // ============================================================================
@@ -87,15 +221,65 @@ export interface Student {
   contact?: string // Phone number (10-15 digits)
   status?: StudentStatus // Student enrollment status
   section?: string // Optional, alphanumeric
-  guardianName?: string // Optional, min 2 characters if provided
-  guardianEmail?: string // Optional, valid email if provided
-  guardianContact?: string // Optional, guardian phone number
+  guardianName?: string // Legacy single guardian: mirrors the primary guardian
+  guardianEmail?: string // Legacy single guardian: mirrors the primary guardian
+  guardianContact?: string // Legacy single guardian: mirrors the primary guardian
+  guardians?: StudentGuardian[] // Linked guardians, primary first
   nfcId?: string // Optional, NFC card ID (hex string)
   profilePhoto?: string // Optional, URL to profile photo
+  tags?: string[] // Optional, lowercase labels such as "scholar"
   createdAt: string // ISO 8601 date string
   updatedAt?: string // ISO 8601 date string
 }
 
+/**
+ * Columns the students list can be sorted by on the server
+ */
+export type StudentSortField =
+  | 'studentNumber'
+  | 'firstName'
+  | 'lastName'
+  | 'email'
+  | 'section'
+  | 'guardianName'
+  | 'status'
+  | 'createdAt'
+
+export type SortOrder = 'asc' | 'desc'
+
+/**
+ * Server-side filters for the students list
+ */
+export interface StudentListFilters {
+  search?: string // Name, student number, email, section or guardian
+  status?: StudentStatus
+  section?: string
+  hasGuardian?: boolean // true: has a linked guardian; false: has none
+  guardian?: string // Guardian name or email
+  tag?: string
+  minAge?: number
+  maxAge?: number
+}
+
+/**
+ * One page of the students list
+ */
+export interface StudentListQuery extends StudentListFilters {
+  page: number
+  limit: number
+  sortBy?: StudentSortField
+  sortOrder?: SortOrder
+}
+
+/**
+ * Student counts for the whole school, regardless of filters
+ */
+export interface StudentStats {
+  total: number
+  withGuardian: number
+  byStatus: { [status in StudentStatus]: number }
+}
+
 /**
  * Form data for creating or updating a student
  */
@@ -108,10 +292,12 @@ export interface StudentFormData {
   contact?: string
   status?: StudentStatus
   section?: string
-  guardianName?: string
+  guardianName?: string // Legacy: links the student to a matching guardian
   guardianEmail?: string
   guardianContact?: string
+  guardians?: StudentGuardianLink[] // Replaces every link; takes precedence over the legacy fields
   nfcId?: string
+  tags?: string[]
 }
 
 // ============================================================================
@@ -129,12 +315,32 @@ export interface Subject {
   yearLevel: number // 1-12 for grade/year levels
   capacity?: number // Maximum enrollment capacity (1-500)
   description?: string // Optional subject description
-  instructor?: string // Optional instructor name
+  instructor?: string // Instructor display name (derived from `instructors` when assigned)
+  instructorIds?: EntityId[] // User accounts that teach this subject
+  instructors?: SubjectInstructor[] // Populated `instructorIds`
   room?: string // Optional room/location
   createdAt: string // ISO 8601 date string
   updatedAt?: string // ISO 8601 date string
 }
 
+/**
+ * A user account that can be assigned to teach subjects
+ */
+export interface SubjectInstructor {
+  readonly id: EntityId
+  name: string
+  email: string
+  role?: UserRole
+}
+
+/**
+ * New instructor list for one subject in a bulk assignment
+ */
+export interface InstructorAssignment {
+  subjectId: string | number
+  instructorIds: EntityId[]
+}
+
 /**
  * Form data for creating or updating a subject
  */
@@ -146,6 +352,7 @@ export interface SubjectFormData {
   capacity?: number
   description?: string
   instructor?: string
+  instructorIds?: EntityId[]
   room?: string
 }
 
@@ -224,6 +431,8 @@ export interface ApiResponse<T = unknown> {
 
 /**
  * API error response structure
+ * - code NETWORK_ERROR: no response from the server
+ * - code DECODE_ERROR: the response did not match the expected payload
  */
 export interface ApiError {
   message: string
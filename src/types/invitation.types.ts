@@ -0,0 +1,54 @@
+// ============================================================================
+// INVITATION & SIGNUP POLICY TYPES
+// ============================================================================
+
+import type { EntityId, UserRole } from './index'
+
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired'
+
+/**
+ * An emailed invitation to create an account with a preset role
+ */
+export interface Invitation {
+  readonly id: EntityId
+  email: string
+  role: UserRole
+  status: InvitationStatus
+  expiresAt: string
+  createdAt: string
+  acceptedAt?: string
+  invitedBy?: { id: EntityId; name: string }
+}
+
+/**
+ * Answer to creating an invitation. The token (and so the signup link) is
+ * only returned here.
+ */
+export interface CreatedInvitation extends Invitation {
+  token: string
+}
+
+/**
+ * Admin form for a new invitation
+ */
+export interface InvitationFormData {
+  email: string
+  role: UserRole
+  expiresInDays: number
+}
+
+/**
+ * What the signup page learns from a usable invitation link
+ */
+export interface InvitationTokenInfo {
+  email: string // Locked on the signup form
+  role: UserRole
+  expiresAt: string
+}
+
+/**
+ * Whether people can create accounts without an invitation
+ */
+export interface SignupPolicy {
+  openSignup: boolean
+}
@@ -0,0 +1,75 @@
+// ============================================================================
+// LIVE UPDATE TYPES
+// ============================================================================
+
+import { AttendanceRecord, AttendanceStatus } from './attendance.types'
+
+/**
+ * Event names pushed on the live update stream
+ * - attendance-created / attendance-updated: someone marked or changed a record
+ * - enrollment: students were enrolled in or removed from a subject
+ * - email-sent: an email (or guardian notice) went out
+ */
+export type LiveEventType =
+  | 'attendance-created'
+  | 'attendance-updated'
+  | 'enrollment'
+  | 'email-sent'
+
+/**
+ * Connection state of the live update stream
+ */
+export type LiveConnectionStatus = 'idle' | 'connecting' | 'open' | 'reconnecting'
+
+/**
+ * Single-use pass for opening the event stream. EventSource cannot send an
+ * Authorization header, so the stream URL carries this instead of the access
+ * token; it expires within seconds and is spent on first use.
+ */
+export interface LiveStreamTicket {
+  ticket: string
+  expiresAt: string // ISO 8601 date string
+}
+
+/**
+ * User whose action produced the event
+ */
+export interface LiveActor {
+  id: string | number
+  name: string
+}
+
+interface LiveEventBase<T extends LiveEventType, D> {
+  type: T
+  actor: LiveActor
+  at: string // ISO 8601 date string
+  data: D
+}
+
+export type AttendanceLiveEvent = LiveEventBase<
+  'attendance-created' | 'attendance-updated',
+  {
+    record: AttendanceRecord
+    previousStatus?: AttendanceStatus // attendance-updated only
+  }
+>
+
+export type EnrollmentLiveEvent = LiveEventBase<
+  'enrollment',
+  {
+    action: 'enrolled' | 'unenrolled'
+    subjectId: string | number
+    studentIds: (string | number)[]
+  }
+>
+
+export type EmailSentLiveEvent = LiveEventBase<
+  'email-sent',
+  {
+    subject: string
+    recipients: string[]
+    studentId?: string | number
+  }
+>
+
+export type LiveEvent = AttendanceLiveEvent | EnrollmentLiveEvent | EmailSentLiveEvent
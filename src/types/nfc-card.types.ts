@@ -0,0 +1,83 @@
+// ============================================================================
+// NFC CARD TYPES
+// ============================================================================
+
+import type { EntityId } from './index'
+
+/**
+ * Where a card is in its life:
+ * - active: assigned to a student, accepted by readers
+ * - available: in the spare pool, not assigned to anyone
+ * - lost: reported lost; rejected by readers
+ * - revoked: taken out of service for good; rejected by readers
+ */
+export type NfcCardStatus = 'active' | 'available' | 'lost' | 'revoked'
+
+/**
+ * Something that happened to a card, kept in its history
+ */
+export type NfcCardAction =
+  | 'assigned'
+  | 'returned' // Back in the spare pool
+  | 'expired' // A temporary assignment ran out
+  | 'reported_lost'
+  | 'revoked'
+  | 'replaced' // Superseded by another card for the same student
+  | 'tap_rejected' // Tapped at a reader while lost or revoked
+
+/**
+ * A physical NFC card, known by the UID its reader reports
+ */
+export interface NfcCard {
+  readonly id: EntityId
+  uid: string // Uppercase hexadecimal, 8-32 characters
+  status: NfcCardStatus
+  // Holder while active; for lost, revoked and replaced cards, the last holder
+  student?: { id: EntityId; name: string; studentNumber: string; section?: string }
+  temporaryUntil?: string // Date (YYYY-MM-DD) a temporary assignment ends
+  replacedByUid?: string // Card that replaced this one
+  lastTapAt?: string // ISO 8601 date string of the last accepted tap
+  createdAt: string // ISO 8601 date string
+  updatedAt?: string // ISO 8601 date string
+}
+
+/**
+ * One entry of a card's history, newest first
+ */
+export interface NfcCardEvent {
+  readonly id: EntityId
+  cardId: EntityId
+  uid: string
+  action: NfcCardAction
+  student?: { id: EntityId; name: string }
+  reason?: string
+  relatedUid?: string // The other card of a replacement
+  actor?: { id: EntityId; name: string } // Missing for automatic events
+  createdAt: string // ISO 8601 date string
+}
+
+/**
+ * Request to assign a card (registering it if the UID is new)
+ */
+export interface NfcCardAssignRequest {
+  uid: string
+  studentId: number
+  temporaryUntil?: string // Date (YYYY-MM-DD); the card returns to the pool after it
+  reason?: string
+}
+
+/**
+ * Request to replace a card with a new one for the same student
+ */
+export interface NfcCardReplaceRequest {
+  uid: string // The new card
+  reason?: string
+}
+
+/**
+ * Filters for the card registry
+ */
+export interface NfcCardFilters {
+  status?: NfcCardStatus
+  search?: string // UID, student name or student number
+}
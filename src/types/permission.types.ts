@@ -0,0 +1,32 @@
+// ============================================================================
+// ROLE & PERMISSION MATRIX TYPES
+// ============================================================================
+
+import type { UserRole } from './index'
+
+/**
+ * One role in the permission matrix. Built-in roles can be edited but not
+ * removed; custom roles are created by admins.
+ */
+export interface RoleDefinition {
+  id: UserRole
+  name: string
+  permissions: string[] // PERMISSIONS values; unknown ones are ignored by the client
+  builtIn: boolean
+}
+
+/**
+ * Role → permission table served by the backend and cached after login
+ */
+export interface PermissionMatrix {
+  roles: RoleDefinition[]
+  updatedAt: string
+}
+
+/**
+ * New custom role, as entered in the matrix editor
+ */
+export interface CustomRoleFormData {
+  name: string
+  copyFrom?: UserRole // Start from another role's permissions
+}
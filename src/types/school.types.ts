@@ -0,0 +1,44 @@
+// ============================================================================
+// SCHOOL (TENANT) TYPES
+// ============================================================================
+
+/**
+ * Look of the app and of outgoing emails for a school
+ */
+export interface SchoolBranding {
+  displayName: string // Shown in the sidebar and as the email signature
+  logoUrl?: string // Optional, replaces the default logo mark
+  primaryColor: string // Hex color (#RRGGBB) for the logo mark
+}
+
+/**
+ * Per-school configuration
+ */
+export interface SchoolSettings {
+  emailDomain?: string // Optional, e.g. "campus.edu"; student emails must use it when set
+  studentNumberPrefix: string // Two digits placed before the dash (e.g. "25" in 25-0001)
+  branding: SchoolBranding
+}
+
+/**
+ * School (tenant) the signed-in user belongs to
+ */
+export interface School {
+  readonly id: string | number
+  name: string
+  code: string // Short campus code, e.g. "MNL"
+  settings: SchoolSettings
+  createdAt?: string // ISO 8601 date string
+  updatedAt?: string // ISO 8601 date string
+}
+
+/**
+ * Form data for updating a school's settings
+ */
+export interface SchoolSettingsFormData {
+  emailDomain: string
+  studentNumberPrefix: string
+  displayName: string
+  logoUrl: string
+  primaryColor: string
+}
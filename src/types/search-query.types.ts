@@ -0,0 +1,51 @@
+// ============================================================================
+// SEARCH QUERY TYPES
+// ============================================================================
+
+/**
+ * How a filter compares its value: `status:active`, `age>17`, `date<=2026-10-01`
+ */
+export type SearchOperator = ':' | '>' | '>=' | '<' | '<='
+
+/**
+ * One `key:value` filter of a search query. `start` and `end` are its position
+ * in the typed text.
+ */
+export interface SearchClause {
+  key: string
+  operator: SearchOperator
+  value: string
+  start: number
+  end: number
+}
+
+/**
+ * A part of the query that was left out, with where it was typed
+ */
+export interface SearchQueryError {
+  message: string
+  start: number
+  end: number
+}
+
+/**
+ * A search box query split into plain words (quoted phrases kept whole) and
+ * filters. Filters with errors are not in `clauses`.
+ */
+export interface ParsedSearchQuery {
+  text: string[]
+  clauses: SearchClause[]
+  errors: SearchQueryError[]
+}
+
+/**
+ * A completion offered while typing. `insert` replaces the text from `start`
+ * to `end`.
+ */
+export interface SearchSuggestion {
+  label: string
+  description?: string
+  insert: string
+  start: number
+  end: number
+}
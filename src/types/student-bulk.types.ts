@@ -0,0 +1,43 @@
+// ============================================================================
+// STUDENT BULK EDIT TYPES
+// ============================================================================
+
+import type { EntityId } from './index'
+import type { StudentStatusChangeData } from './student-status.types'
+
+/**
+ * A field left out is not touched; null clears it
+ */
+export interface StudentBulkChanges {
+  section?: string | null
+  guardianName?: string | null
+  guardianEmail?: string | null
+  guardianContact?: string | null
+  status?: StudentStatusChangeData // Recorded as a status change for every student
+  addTags?: string[]
+  removeTags?: string[]
+}
+
+export interface StudentBulkUpdateRequest {
+  studentIds: number[]
+  changes: StudentBulkChanges
+}
+
+export type StudentBulkUpdateOutcome = 'updated' | 'unchanged' | 'failed'
+
+/**
+ * What happened to one selected student. A student either takes every change
+ * or none of them.
+ */
+export interface StudentBulkUpdateRowResult {
+  studentId: EntityId
+  outcome: StudentBulkUpdateOutcome
+  errors?: { [field: string]: string[] }
+}
+
+export interface StudentBulkUpdateResult {
+  updated: number
+  unchanged: number
+  failed: number
+  rows: StudentBulkUpdateRowResult[]
+}
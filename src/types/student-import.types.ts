@@ -0,0 +1,49 @@
+// ============================================================================
+// STUDENT IMPORT TYPES
+// ============================================================================
+
+import type { EntityId, StudentFormData } from './index'
+
+/**
+ * Student field → spreadsheet column header it is read from
+ */
+export type StudentColumnMapping = Partial<Record<keyof StudentFormData, string>>
+
+/**
+ * What to do with a row whose student number or email is already taken:
+ * leave the existing student alone, overwrite it with the row, or add the row
+ * as a new student under the next free student number
+ */
+export type ImportConflictAction = 'skip' | 'update' | 'create'
+
+/**
+ * One spreadsheet row as sent to the import endpoint
+ */
+export interface StudentImportRow {
+  row: number // Spreadsheet row number, header is row 1
+  action: ImportConflictAction
+  studentId?: number // Existing student to overwrite when action is 'update'
+  data: StudentFormData
+}
+
+export type StudentImportOutcome = 'created' | 'updated' | 'skipped' | 'failed'
+
+/**
+ * What happened (or, on a dry run, would happen) to one row
+ */
+export interface StudentImportRowResult {
+  row: number
+  outcome: StudentImportOutcome
+  studentId?: EntityId
+  studentNumber: string // The number actually used, which may be newly assigned
+  errors?: { [field: string]: string[] }
+}
+
+export interface StudentImportResult {
+  dryRun: boolean
+  created: number
+  updated: number
+  skipped: number
+  failed: number
+  rows: StudentImportRowResult[]
+}
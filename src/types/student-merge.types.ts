@@ -0,0 +1,75 @@
+// ============================================================================
+// STUDENT DUPLICATE & MERGE TYPES
+// ============================================================================
+
+import type { EntityId, Student } from './index'
+
+/**
+ * Evidence that two records are the same person
+ */
+export type StudentDuplicateSignal = 'name' | 'birthdate' | 'guardianEmail' | 'contact'
+
+export interface StudentDuplicateMatch {
+  signal: StudentDuplicateSignal
+  similarity: number // 0-1; 1 is an exact match
+}
+
+/**
+ * Two students that may be the same person, scored 0-100
+ */
+export interface StudentDuplicatePair {
+  score: number
+  matches: StudentDuplicateMatch[]
+  students: [Student, Student]
+}
+
+/**
+ * Profile fields whose value can be taken from either record when merging
+ */
+export type StudentMergeField =
+  | 'studentNumber'
+  | 'firstName'
+  | 'lastName'
+  | 'email'
+  | 'birthdate'
+  | 'contact'
+  | 'section'
+  | 'guardianName'
+  | 'guardianEmail'
+  | 'guardianContact'
+  | 'nfcId'
+  | 'profilePhoto'
+
+/**
+ * Request body for merging `sourceId` into `targetId`. The source record is
+ * removed; `fieldsFromSource` lists the fields whose source value replaces
+ * the target's.
+ */
+export interface StudentMergeData {
+  sourceId: number
+  targetId: number
+  fieldsFromSource: StudentMergeField[]
+}
+
+/**
+ * A completed merge as kept in the merge log
+ */
+export interface StudentMerge {
+  readonly id: EntityId
+  targetId: EntityId
+  source: Pick<Student, 'id' | 'studentNumber' | 'firstName' | 'lastName' | 'email'>
+  fieldsFromSource: StudentMergeField[]
+  moved: {
+    enrollments: number
+    attendance: number
+    records: number
+    emails: number
+  }
+  mergedBy?: { id: EntityId; name: string }
+  createdAt: string
+}
+
+export interface StudentMergeResult {
+  student: Student
+  merge: StudentMerge
+}
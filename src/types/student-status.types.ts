@@ -0,0 +1,38 @@
+// ============================================================================
+// STUDENT STATUS LIFECYCLE TYPES
+// ============================================================================
+
+import type { EntityId, Student, StudentStatus } from './index'
+
+/**
+ * One recorded status transition. Changes are never edited; a correction is
+ * another transition.
+ */
+export interface StudentStatusChange {
+  readonly id: EntityId
+  studentId: EntityId
+  fromStatus: StudentStatus
+  toStatus: StudentStatus
+  effectiveDate: string // YYYY-MM-DD the new status applies from
+  reason: string
+  changedBy?: { id: EntityId; name: string }
+  unenrolledSubjects: string[] // Subject codes dropped because the student left active
+  createdAt: string
+}
+
+/**
+ * Request body for changing a student's status
+ */
+export interface StudentStatusChangeData {
+  status: StudentStatus
+  effectiveDate: string
+  reason: string
+}
+
+/**
+ * Response to a status change: the updated student and the recorded transition
+ */
+export interface StudentStatusChangeResult {
+  student: Student
+  change: StudentStatusChange
+}
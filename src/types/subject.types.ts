@@ -2,6 +2,8 @@
 // SUBJECT MANAGEMENT TYPES (ENHANCED)
 // ============================================================================
 
+import type { EntityId, StudentGuardian, SubjectInstructor } from './index'
+
 /**
  * Subject schedule slot configuration
  */
@@ -43,6 +45,8 @@ export interface EnrolledStudent {
     section?: string
     guardianName?: string
     guardianEmail?: string
+    guardians?: StudentGuardian[]
+    profilePhoto?: string
   }
 }
 
@@ -59,6 +63,8 @@ export interface SubjectEnhanced {
   schedules?: SubjectScheduleSlot[] // New multiple schedules support
   enrolledStudents?: EnrolledStudent[]
   enrollmentCount?: number
+  instructorIds?: EntityId[]
+  instructors?: SubjectInstructor[]
   createdAt: string
   updatedAt?: string
 }
@@ -92,6 +98,17 @@ export interface SubjectAttendanceData {
   notes?: string
 }
 
+/**
+ * A card tapped at a reader while taking a subject's attendance
+ */
+export interface CardTapAttendanceData {
+  subjectId: string | number
+  uid: string // NFC card UID as the reader sent it
+  date: string
+  status?: 'present' | 'late' // Defaults to present
+  scheduleSlot?: string
+}
+
 /**
  * Bulk subject attendance data
  */
@@ -0,0 +1,55 @@
+// ============================================================================
+// TWO-FACTOR AUTHENTICATION TYPES
+// ============================================================================
+
+import type { AuthResponse, UserRole } from './index'
+
+/**
+ * Login answer for an account with two-factor authentication: the password
+ * was right, and the challenge token must now be sent with a code
+ */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true
+  challengeToken: string
+  expiresAt: string
+}
+
+/**
+ * What `authService.login` resolves with
+ */
+export type LoginResult = AuthResponse | TwoFactorChallenge
+
+/**
+ * Second login step: an authenticator code (6 digits) or a recovery code
+ */
+export interface TwoFactorVerifyData {
+  challengeToken: string
+  code: string
+}
+
+/**
+ * Provisioning data for a new authenticator. The secret stays pending until
+ * a code from it is confirmed.
+ */
+export interface TwoFactorSetup {
+  secret: string // Base32, for manual entry
+  otpauthUrl: string // otpauth://totp/... encoded in the QR code
+}
+
+/**
+ * Single-use codes that stand in for the authenticator; shown once
+ */
+export interface TwoFactorRecoveryCodes {
+  recoveryCodes: string[]
+}
+
+/**
+ * Roles whose accounts must have two-factor authentication enabled
+ */
+export interface TwoFactorPolicy {
+  requiredRoles: UserRole[]
+}
+
+export function isTwoFactorChallenge(result: LoginResult): result is TwoFactorChallenge {
+  return 'twoFactorRequired' in result && result.twoFactorRequired === true
+}
@@ -4,6 +4,14 @@
 // This module provides business-level validation rules that go beyond
 // simple field validation to enforce business constraints
 
+import { format } from 'date-fns'
+import {
+  IdCardTemplateFormData,
+  SchoolSettings,
+  SchoolSettingsFormData,
+  StudentStatus,
+  User,
+} from '@/types'
 import { ValidationResult } from './validation'
 import {
   validateStudentNumber,
@@ -463,15 +471,30 @@ export function canDeleteSubject(
 
 /**
  * Check if user/admin can be deleted
- * @param userId - User ID to check
+ * @param user - User to delete
+ * @param currentUserId - ID of the signed-in admin (admins cannot delete themselves)
+ * @param users - All users, to keep at least one superadmin
  * @param createdRecords - Records created by this user
  */
 export function canDeleteUser(
-  userId: number | string,
-  createdRecords: { createdBy?: number | string }[]
+  user: Pick<User, 'id' | 'role'>,
+  currentUserId: number | string | undefined,
+  users: Pick<User, 'id' | 'role'>[],
+  createdRecords: { createdBy?: number | string }[] = []
 ): DeletionCheckResult {
+  if (currentUserId !== undefined && String(user.id) === String(currentUserId)) {
+    return { canDelete: false, reason: 'You cannot delete your own account.' }
+  }
+
+  if (user.role === 'superadmin' && users.filter((u) => u.role === 'superadmin').length <= 1) {
+    return {
+      canDelete: false,
+      reason: 'Cannot delete the last superadmin. Assign another superadmin first.',
+    }
+  }
+
   const userRecords = createdRecords.filter(
-    (r) => r.createdBy && String(r.createdBy) === String(userId)
+    (r) => r.createdBy && String(r.createdBy) === String(user.id)
   )
 
   if (userRecords.length > 0) {
@@ -535,7 +558,7 @@ export function validateEducationLevel(
 }
 
 // ============================================================================
-// SCHOOL DOMAIN EMAIL VALIDATION
+// SCHOOL DOMAIN & SETTINGS VALIDATION
 // ============================================================================
 
 /**
@@ -554,9 +577,10 @@ export function validateSchoolDomainEmail(email: string, schoolDomain?: string):
   }
 
   const emailDomain = email.split('@')[1]?.toLowerCase()
-  const requiredDomain = schoolDomain.toLowerCase()
+  const requiredDomain = schoolDomain.toLowerCase().replace(/^@/, '')
 
-  if (!emailDomain?.endsWith(requiredDomain)) {
+  // Exact domain or a subdomain of it ("cs.campus.edu"), but not "notcampus.edu"
+  if (emailDomain !== requiredDomain && !emailDomain?.endsWith(`.${requiredDomain}`)) {
     return {
       isValid: false,
       error: `Email must be from the ${schoolDomain} domain`,
@@ -566,6 +590,91 @@ export function validateSchoolDomainEmail(email: string, schoolDomain?: string):
   return { isValid: true }
 }
 
+/**
+ * Validate a school's settings before saving
+ * - emailDomain: optional bare domain ("campus.edu")
+ * - studentNumberPrefix: two digits, so generated numbers keep the YY-NNNN format
+ * - primaryColor: #RRGGBB
+ */
+export function validateSchoolSettings(data: SchoolSettingsFormData): {
+  isValid: boolean
+  errors: { [key: string]: string }
+} {
+  const errors: { [key: string]: string } = {}
+
+  const domain = data.emailDomain.trim()
+  if (domain && !/^(?:[a-z0-9-]+\.)+[a-z]{2,}$/i.test(domain)) {
+    errors.emailDomain = 'Enter a domain like campus.edu (without @)'
+  }
+
+  if (!/^\d{2}$/.test(data.studentNumberPrefix.trim())) {
+    errors.studentNumberPrefix = 'Prefix must be exactly two digits (e.g. 25)'
+  }
+
+  if (data.displayName.trim().length < 2) {
+    errors.displayName = 'Display name must be at least 2 characters'
+  }
+
+  const logoUrl = data.logoUrl.trim()
+  if (logoUrl && !/^https?:\/\/\S+$/i.test(logoUrl)) {
+    errors.logoUrl = 'Logo URL must start with http:// or https://'
+  } else if (/["'<>]/.test(logoUrl)) {
+    errors.logoUrl = 'Logo URL cannot contain quotes or angle brackets'
+  }
+
+  if (!/^#[0-9a-f]{6}$/i.test(data.primaryColor.trim())) {
+    errors.primaryColor = 'Color must be a hex value like #3B82F6'
+  }
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors,
+  }
+}
+
+/**
+ * Validate an ID card template before saving
+ * - title: printed in the header band, so kept short
+ * - accentColor: #RRGGBB
+ * - at least one of photo, QR code or barcode so the card identifies the student
+ */
+export function validateIdCardTemplate(data: IdCardTemplateFormData): {
+  isValid: boolean
+  errors: { [key: string]: string }
+} {
+  const errors: { [key: string]: string } = {}
+
+  const name = data.name.trim()
+  if (name.length < 2 || name.length > 40) {
+    errors.name = 'Template name must be 2-40 characters'
+  }
+
+  if (!['landscape', 'portrait'].includes(data.orientation)) {
+    errors.orientation = 'Orientation must be landscape or portrait'
+  }
+
+  if (!/^#[0-9a-f]{6}$/i.test(data.accentColor.trim())) {
+    errors.accentColor = 'Color must be a hex value like #3B82F6'
+  }
+
+  if (!data.title.trim() || data.title.trim().length > 40) {
+    errors.title = 'Card title must be 1-40 characters'
+  }
+
+  if (!data.showPhoto && !data.showQrCode && !data.showBarcode) {
+    errors.showPhoto = 'Show at least a photo, QR code or barcode'
+  }
+
+  if (data.printBack && data.backText.trim().length > 240) {
+    errors.backText = 'Back text must be at most 240 characters'
+  }
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors,
+  }
+}
+
 // ============================================================================
 // ENROLLMENT VALIDATION
 // ============================================================================
@@ -608,6 +717,61 @@ export function validateStudentCanEnroll(studentStatus: string): ValidationResul
   return { isValid: true }
 }
 
+// ============================================================================
+// STATUS LIFECYCLE VALIDATION
+// ============================================================================
+
+/**
+ * Statuses a student may move to from each status. Graduation is final;
+ * students who transferred out or dropped can only be re-admitted.
+ */
+export const STUDENT_STATUS_TRANSITIONS: { [from in StudentStatus]: StudentStatus[] } = {
+  active: ['inactive', 'suspended', 'graduated', 'transferred', 'dropped'],
+  inactive: ['active', 'transferred', 'dropped'],
+  suspended: ['active', 'inactive', 'transferred', 'dropped'],
+  graduated: [],
+  transferred: ['active'],
+  dropped: ['active'],
+}
+
+/**
+ * Check that a student may move from one status to another
+ */
+export function validateStatusTransition(from: StudentStatus, to: StudentStatus): ValidationResult {
+  if (from === to) {
+    return { isValid: false, error: `Student is already ${to}` }
+  }
+  if (!STUDENT_STATUS_TRANSITIONS[from]?.includes(to)) {
+    return { isValid: false, error: `A ${from} student cannot become ${to}` }
+  }
+  return { isValid: true }
+}
+
+/**
+ * Validate the date a status change takes effect: not in the future and not
+ * before the student's previous change
+ * @param effectiveDate - YYYY-MM-DD
+ * @param previousDate - Effective date of the last recorded change, if any
+ */
+export function validateStatusEffectiveDate(
+  effectiveDate: string,
+  previousDate?: string
+): ValidationResult {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(effectiveDate) || isNaN(Date.parse(effectiveDate))) {
+    return { isValid: false, error: 'Effective date must be a valid date' }
+  }
+  if (effectiveDate > format(new Date(), 'yyyy-MM-dd')) {
+    return { isValid: false, error: 'Effective date cannot be in the future' }
+  }
+  if (previousDate && effectiveDate < previousDate) {
+    return {
+      isValid: false,
+      error: `Effective date cannot be before the previous status change (${previousDate})`,
+    }
+  }
+  return { isValid: true }
+}
+
 // ============================================================================
 // BULK OPERATION VALIDATION
 // ============================================================================
@@ -664,12 +828,13 @@ export function validateBulkAttendance(
 export function validateStudentData(
   data: StudentData,
   existingStudents: StudentData[],
-  isUpdate: boolean = false
+  isUpdate: boolean = false,
+  school?: Pick<SchoolSettings, 'emailDomain' | 'studentNumberPrefix'>
 ): { isValid: boolean; errors: { [key: string]: string } } {
   const errors: { [key: string]: string } = {}
 
   // Validate student number
-  const studentNumberResult = validateStudentNumber(data.studentNumber)
+  const studentNumberResult = validateStudentNumber(data.studentNumber, school?.studentNumberPrefix)
   if (!studentNumberResult.isValid) {
     errors.studentNumber = studentNumberResult.error!
   }
@@ -684,8 +849,8 @@ export function validateStudentData(
     errors.studentNumber = duplicateNumberResult.error!
   }
 
-  // Validate email
-  const emailResult = validateEmail(data.email)
+  // Validate email (and the school's domain, when one is configured)
+  const emailResult = validateSchoolDomainEmail(data.email, school?.emailDomain)
   if (!emailResult.isValid) {
     errors.email = emailResult.error!
   }
@@ -784,12 +949,18 @@ export const businessValidators = {
   validateCollegeLevel,
   validateEducationLevel,
 
-  // School domain
+  // School domain & settings
   validateSchoolDomainEmail,
+  validateSchoolSettings,
+  validateIdCardTemplate,
 
   // Enrollment
   validateStudentCanEnroll,
 
+  // Status lifecycle
+  validateStatusTransition,
+  validateStatusEffectiveDate,
+
   // Bulk operations
   validateBulkOperationSize,
   validateBulkAttendance,
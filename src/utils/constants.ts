@@ -4,15 +4,69 @@ export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL
 export const APP_NAME = import.meta.env.VITE_APP_NAME || 'Notified'
 export const APP_VERSION = import.meta.env.VITE_APP_VERSION || '1.0.0'
 
+// ApiError codes for password reset links the backend will not accept
+export const RESET_TOKEN_ERRORS = {
+  EXPIRED: 'RESET_TOKEN_EXPIRED',
+  USED: 'RESET_TOKEN_USED',
+  INVALID: 'RESET_TOKEN_INVALID',
+} as const
+
+// ApiError codes for invitation links the backend will not accept, and for
+// registering without one while open signup is off
+export const INVITE_ERRORS = {
+  EXPIRED: 'INVITE_EXPIRED',
+  USED: 'INVITE_USED',
+  REVOKED: 'INVITE_REVOKED',
+  INVALID: 'INVITE_INVALID',
+  SIGNUP_CLOSED: 'SIGNUP_CLOSED',
+} as const
+
+// Expiry choices (days) offered when inviting a user
+export const INVITE_EXPIRY_DAYS = [1, 3, 7, 14, 30] as const
+
+// Most rows a single student import may contain
+export const STUDENT_IMPORT_MAX_ROWS = 1000
+
+// Most students a single bulk edit may change
+export const STUDENT_BULK_UPDATE_MAX = 500
+
+// Width and height in pixels of uploaded student photos after cropping
+export const STUDENT_PHOTO_SIZE = 320
+
+// ApiError codes from the two-factor endpoints
+export const TWO_FACTOR_ERRORS = {
+  CHALLENGE_EXPIRED: 'TWO_FACTOR_CHALLENGE_EXPIRED',
+  INVALID_CODE: 'TWO_FACTOR_INVALID_CODE',
+  REQUIRED_BY_POLICY: 'TWO_FACTOR_REQUIRED_BY_POLICY',
+} as const
+
+// Request header naming the school (tenant) a request acts on
+export const SCHOOL_HEADER = 'X-School-Id'
+
+// Idle session timeout (VITE_IDLE_TIMEOUT_MINUTES, default 15; 0 turns it off).
+// The warning dialog counts down for the last WARNING_MS before logout.
+export const IDLE_TIMEOUT = {
+  TIMEOUT_MS: Number(import.meta.env.VITE_IDLE_TIMEOUT_MINUTES ?? 15) * 60 * 1000,
+  WARNING_MS: 60 * 1000,
+} as const
+
 export const ROUTES = {
   HOME: '/',
   LOGIN: '/login',
   SIGNUP: '/signup',
+  FORGOT_PASSWORD: '/forgot-password',
+  RESET_PASSWORD: '/reset-password/:token',
   DASHBOARD: '/dashboard',
   STUDENTS: '/students',
+  STUDENT_DUPLICATES: '/students/duplicates',
+  STUDENT_NFC_CARDS: '/students/nfc-cards',
   SUBJECTS: '/subjects',
+  SUBJECT_INSTRUCTORS: '/subjects/instructors',
   RECORDS: '/records',
   EMAIL_HISTORY: '/email-history',
+  SETTINGS: '/settings',
+  USERS: '/users',
+  ROLES: '/users/roles',
   ATTENDANCE: '/attendance',
 } as const
 
@@ -0,0 +1,164 @@
+/**
+ * Response Decoding
+ *
+ * Small decoder combinators used to check API payloads against the shape a
+ * service expects. A decoder either returns the typed value or throws a
+ * DecodeError naming the path that did not match, so backend drift surfaces as
+ * an error instead of an empty list.
+ */
+
+import { EntityId } from '@/types'
+
+/**
+ * Decode an unknown value into T
+ * @param value - Raw value from the response body
+ * @param path - Location of the value, used in error messages (e.g. "data[2].status")
+ */
+export type Decoder<T> = (value: unknown, path: string) => T
+
+/**
+ * Field decoders for an object. Fields that are not listed are passed through
+ * unchecked, so only the fields the UI relies on need declaring.
+ */
+export type FieldDecoders<T> = {
+  [K in keyof T]?: Decoder<T[K]>
+}
+
+/**
+ * Thrown when a value does not match its decoder
+ */
+export class DecodeError extends Error {
+  constructor(
+    readonly path: string,
+    readonly expected: string,
+    readonly received: unknown
+  ) {
+    super(`Expected ${expected} at ${path || 'response body'}, received ${describe(received)}`)
+    this.name = 'DecodeError'
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+function isPlainObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key
+}
+
+export const decoders = {
+  string: ((value, path) => {
+    if (typeof value !== 'string') throw new DecodeError(path, 'string', value)
+    return value
+  }) as Decoder<string>,
+
+  /**
+   * Finite number. Numeric strings are accepted since some database drivers
+   * return aggregates (counts, rates) as strings.
+   */
+  number: ((value, path) => {
+    const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+    if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+      throw new DecodeError(path, 'number', value)
+    }
+    return parsed
+  }) as Decoder<number>,
+
+  boolean: ((value, path) => {
+    if (typeof value !== 'boolean') throw new DecodeError(path, 'boolean', value)
+    return value
+  }) as Decoder<boolean>,
+
+  /**
+   * Accept anything (for payloads the caller does not inspect)
+   */
+  unknown: ((value) => value) as Decoder<unknown>,
+
+  /**
+   * Numeric or string identifier
+   */
+  id: ((value, path) => {
+    if (typeof value === 'number' && Number.isFinite(value)) return value
+    if (typeof value === 'string' && value.trim() !== '') return value
+    throw new DecodeError(path, 'id', value)
+  }) as Decoder<EntityId>,
+
+  /**
+   * Reference to another entity: a bare id, or the populated document
+   * (MongoDB populate) from which the id is taken
+   */
+  ref: ((value, path) => {
+    if (isPlainObject(value)) {
+      return decoders.id(value.id ?? value._id, joinPath(path, 'id'))
+    }
+    return decoders.id(value, path)
+  }) as Decoder<EntityId>,
+
+  /**
+   * One of a fixed set of string values
+   */
+  oneOf<T extends string>(values: readonly T[]): Decoder<T> {
+    return (value, path) => {
+      if (typeof value !== 'string' || !values.includes(value as T)) {
+        throw new DecodeError(path, `one of ${values.join(', ')}`, value)
+      }
+      return value as T
+    }
+  },
+
+  /**
+   * Missing and null values both decode to undefined
+   */
+  optional<T>(decoder: Decoder<T>): Decoder<T | undefined> {
+    return (value, path) =>
+      value === undefined || value === null ? undefined : decoder(value, path)
+  },
+
+  array<T>(item: Decoder<T>): Decoder<T[]> {
+    return (value, path) => {
+      if (!Array.isArray(value)) throw new DecodeError(path, 'array', value)
+      return value.map((entry, index) => item(entry, `${path}[${index}]`))
+    }
+  },
+
+  /**
+   * Object with the listed fields checked and every other field kept as-is
+   */
+  object<T>(fields: FieldDecoders<T>): Decoder<T> {
+    return (value, path) => {
+      if (!isPlainObject(value)) throw new DecodeError(path, 'object', value)
+
+      const result: { [key: string]: unknown } = { ...value }
+      Object.entries(fields).forEach(([key, decoder]) => {
+        result[key] = (decoder as Decoder<unknown>)(value[key], joinPath(path, key))
+      })
+      return result as T
+    }
+  },
+
+  /**
+   * Object with an identifier. Normalises `_id` (MongoDB) to `id`, keeping `_id`
+   * for callers that still read it.
+   */
+  entity<T extends { readonly id?: unknown }>(fields: FieldDecoders<Omit<T, 'id'>>): Decoder<T> {
+    const decodeFields = decoders.object<Omit<T, 'id'>>(fields)
+    return (value, path) => {
+      const decoded = decodeFields(value, path) as { [key: string]: unknown }
+      const id = decoders.id(decoded.id ?? decoded._id, joinPath(path, 'id'))
+      return { ...decoded, id } as T
+    }
+  },
+
+  /**
+   * Decode, then derive or normalise fields from the decoded value
+   */
+  map<T, U>(decoder: Decoder<T>, transform: (value: T, path: string) => U): Decoder<U> {
+    return (value, path) => transform(decoder(value, path), path)
+  },
+}
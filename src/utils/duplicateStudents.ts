@@ -0,0 +1,138 @@
+import { Student, StudentDuplicateMatch, StudentDuplicatePair, StudentMergeField } from '@/types'
+
+// Pairs scoring below this are not reported as possible duplicates
+export const DUPLICATE_SCORE_THRESHOLD = 50
+
+// Names less alike than this do not count as a name match
+const NAME_SIMILARITY_MIN = 0.8
+
+// Points each signal adds to a pair's score (out of 100)
+const SIGNAL_WEIGHTS: { [signal in StudentDuplicateMatch['signal']]: number } = {
+  name: 40,
+  birthdate: 25,
+  guardianEmail: 20,
+  contact: 15,
+}
+
+/**
+ * Profile fields offered in the merge diff, in display order
+ */
+export const STUDENT_MERGE_FIELDS: { field: StudentMergeField; label: string }[] = [
+  { field: 'studentNumber', label: 'Student Number' },
+  { field: 'firstName', label: 'First Name' },
+  { field: 'lastName', label: 'Last Name' },
+  { field: 'email', label: 'Email' },
+  { field: 'birthdate', label: 'Birthdate' },
+  { field: 'contact', label: 'Contact' },
+  { field: 'section', label: 'Section' },
+  { field: 'guardianName', label: 'Guardian Name' },
+  { field: 'guardianEmail', label: 'Guardian Email' },
+  { field: 'guardianContact', label: 'Guardian Contact' },
+  { field: 'nfcId', label: 'NFC Card' },
+  { field: 'profilePhoto', label: 'Photo' },
+]
+
+/**
+ * Lowercase letters only, with accents removed ("Peña" → "pena")
+ */
+function normalizeName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z]/g, '')
+}
+
+function digits(value?: string): string {
+  return (value ?? '').replace(/\D/g, '')
+}
+
+/**
+ * Edit distance turned into a 0-1 similarity
+ */
+function stringSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0
+  if (a === b) return 1
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+  return 1 - previous[b.length] / Math.max(a.length, b.length)
+}
+
+/**
+ * How alike two students' full names are, also trying first and last name
+ * swapped since paper forms often mixed them up
+ */
+export function nameSimilarity(
+  a: Pick<Student, 'firstName' | 'lastName'>,
+  b: Pick<Student, 'firstName' | 'lastName'>
+): number {
+  const first = normalizeName(a.firstName)
+  const last = normalizeName(a.lastName)
+  return Math.max(
+    stringSimilarity(first + last, normalizeName(b.firstName) + normalizeName(b.lastName)),
+    stringSimilarity(last + first, normalizeName(b.firstName) + normalizeName(b.lastName))
+  )
+}
+
+/**
+ * Score how likely two students are the same person from their name,
+ * birthdate, guardian email and phone numbers
+ */
+export function scoreDuplicatePair(
+  a: Student,
+  b: Student
+): Pick<StudentDuplicatePair, 'score' | 'matches'> {
+  const matches: StudentDuplicateMatch[] = []
+
+  const name = nameSimilarity(a, b)
+  if (name >= NAME_SIMILARITY_MIN) matches.push({ signal: 'name', similarity: name })
+
+  if (a.birthdate && a.birthdate === b.birthdate) {
+    matches.push({ signal: 'birthdate', similarity: 1 })
+  }
+
+  if (a.guardianEmail && a.guardianEmail.toLowerCase() === b.guardianEmail?.toLowerCase()) {
+    matches.push({ signal: 'guardianEmail', similarity: 1 })
+  }
+
+  // Any phone number of one record on the other, student or guardian
+  const phonesA = [digits(a.contact), digits(a.guardianContact)].filter(Boolean)
+  const phonesB = [digits(b.contact), digits(b.guardianContact)].filter(Boolean)
+  if (phonesA.some((phone) => phonesB.includes(phone))) {
+    matches.push({ signal: 'contact', similarity: 1 })
+  }
+
+  const score = matches.reduce(
+    (total, match) => total + SIGNAL_WEIGHTS[match.signal] * match.similarity,
+    0
+  )
+  return { score: Math.round(score), matches }
+}
+
+/**
+ * Every pair of students scoring at least `threshold`, most likely first
+ */
+export function findDuplicatePairs(
+  students: Student[],
+  threshold = DUPLICATE_SCORE_THRESHOLD
+): StudentDuplicatePair[] {
+  const pairs: StudentDuplicatePair[] = []
+  for (let i = 0; i < students.length; i++) {
+    for (let j = i + 1; j < students.length; j++) {
+      const { score, matches } = scoreDuplicatePair(students[i], students[j])
+      if (score >= threshold) pairs.push({ score, matches, students: [students[i], students[j]] })
+    }
+  }
+  return pairs.sort((a, b) => b.score - a.score)
+}
@@ -12,11 +12,27 @@ export interface EmailTemplateData {
   message: string
   senderName?: string
   senderRole?: string
-  schoolName?: string
-  schoolLogo?: string
+  schoolName?: string // Current school's branding display name
+  schoolLogo?: string // URL of the school's logo, shown above the name
+  brandColor?: string // Hex color for the header; defaults to the app gradient
   footerText?: string
 }
 
+const HTML_ENTITIES: { [char: string]: string } = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+}
+
+/**
+ * Escape text for HTML content and quoted attributes
+ */
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => HTML_ENTITIES[char])
+}
+
 /**
  * Generate a professional HTML email template
  * @param data - Template data including message content
@@ -30,9 +46,19 @@ export function generateEmailTemplate(data: EmailTemplateData): string {
     senderName = 'Student Management System',
     senderRole = '',
     schoolName = 'School Administration',
+    schoolLogo,
+    brandColor,
     footerText = 'This is an automated message from the Student Management System.',
   } = data
 
+  // School branding is entered by admins and goes into every email
+  const school = escapeHtml(schoolName)
+  const logo = schoolLogo && escapeHtml(schoolLogo)
+
+  const headerBackground = brandColor
+    ? brandColor
+    : 'linear-gradient(135deg, #3b82f6 0%, #6366f1 50%, #8b5cf6 100%)'
+
   // Convert plain text message to HTML paragraphs
   const formattedMessage = message
     .split('\n\n')
@@ -58,9 +84,10 @@ export function generateEmailTemplate(data: EmailTemplateData): string {
           
           <!-- Header -->
           <tr>
-            <td style="background: linear-gradient(135deg, #3b82f6 0%, #6366f1 50%, #8b5cf6 100%); padding: 40px 40px 30px 40px; border-radius: 16px 16px 0 0; text-align: center;">
+            <td style="background: ${headerBackground}; padding: 40px 40px 30px 40px; border-radius: 16px 16px 0 0; text-align: center;">
+              ${logo ? `<img src="${logo}" alt="${school}" height="48" style="display: block; margin: 0 auto 16px auto; max-height: 48px;">` : ''}
               <h1 style="margin: 0; font-size: 24px; font-weight: 700; color: #ffffff; letter-spacing: -0.5px;">
-                ${schoolName}
+                ${school}
               </h1>
               <p style="margin: 8px 0 0 0; font-size: 14px; color: rgba(255, 255, 255, 0.85);">
                 Student Management System
@@ -107,7 +134,7 @@ export function generateEmailTemplate(data: EmailTemplateData): string {
                 ${footerText}
               </p>
               <p style="margin: 0; font-size: 11px; color: #d1d5db; text-align: center;">
-                © ${new Date().getFullYear()} ${schoolName}. All rights reserved.
+                © ${new Date().getFullYear()} ${school}. All rights reserved.
               </p>
             </td>
           </tr>
@@ -170,6 +197,7 @@ export function generateAttendanceNotificationEmail(data: {
   subjectName: string
   subjectCode: string
   notes?: string
+  schoolName?: string
 }): string {
   const statusMessages = {
     absent: 'was marked absent',
@@ -204,6 +232,7 @@ We appreciate your attention to your child's academic progress.
     `.trim(),
     senderName: 'Attendance Office',
     senderRole: 'Student Management System',
+    schoolName: data.schoolName,
   })
 }
 
@@ -214,10 +243,11 @@ export function generateWelcomeEmail(data: {
   studentName: string
   studentNumber: string
   guardianName?: string
+  schoolName?: string
 }): string {
   return generateEmailTemplate({
     recipientName: data.guardianName || data.studentName,
-    subject: `Welcome to Our School - Student Registration Confirmed`,
+    subject: `Welcome to ${data.schoolName ?? 'Our School'} - Student Registration Confirmed`,
     message: `
 We are pleased to confirm that <strong>${data.studentName}</strong> has been successfully registered in our student management system.
 
@@ -235,6 +265,7 @@ We look forward to a successful academic journey together!
     `.trim(),
     senderName: "Registrar's Office",
     senderRole: 'Student Management System',
+    schoolName: data.schoolName,
   })
 }
 
@@ -190,6 +190,15 @@ export function requiresReauth(error: unknown): boolean {
   return status === 401 || status === 403
 }
 
+/**
+ * Check if error means the record already exists (e.g. attendance already marked)
+ * @param error - Error object
+ * @returns True if the server answered 409 Conflict
+ */
+export function isConflictError(error: unknown): boolean {
+  return getErrorStatus(error) === 409
+}
+
 /**
  * Log error with context for debugging
  * @param moduleName - Name of the module where error occurred
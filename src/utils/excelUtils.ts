@@ -1,84 +1,38 @@
 import * as XLSX from 'xlsx'
-import { StudentFormData } from '@/types'
-
-export interface ExcelStudent {
-  'Student Number': string
-  'First Name': string
-  'Last Name': string
-  Email: string
-  Section?: string
-  'Guardian Name'?: string
-  'Guardian Email'?: string
-}
-
-/**
- * Parse Excel file and extract student data
- */
-export const parseExcelFile = (file: File): Promise<StudentFormData[]> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader()
-
-    reader.onload = (e) => {
-      try {
-        const data = e.target?.result
-        const workbook = XLSX.read(data, { type: 'binary' })
-        const sheetName = workbook.SheetNames[0]
-        const worksheet = workbook.Sheets[sheetName]
-        const jsonData = XLSX.utils.sheet_to_json<ExcelStudent>(worksheet)
-
-        // Transform Excel data to StudentFormData format
-        const students: StudentFormData[] = jsonData.map((row) => ({
-          studentNumber: String(row['Student Number'] || '').trim(),
-          firstName: String(row['First Name'] || '').trim(),
-          lastName: String(row['Last Name'] || '').trim(),
-          email: String(row.Email || '').trim(),
-          section: row.Section ? String(row.Section).trim() : '',
-          guardianName: row['Guardian Name'] ? String(row['Guardian Name']).trim() : '',
-          guardianEmail: row['Guardian Email'] ? String(row['Guardian Email']).trim() : '',
-        }))
-
-        // Filter out empty rows
-        const validStudents = students.filter(
-          (student) =>
-            student.studentNumber && student.firstName && student.lastName && student.email
-        )
-
-        resolve(validStudents)
-      } catch (error) {
-        reject(new Error('Failed to parse Excel file. Please check the format.'))
-      }
-    }
-
-    reader.onerror = () => {
-      reject(new Error('Failed to read file'))
-    }
-
-    reader.readAsBinaryString(file)
-  })
-}
 
 /**
  * Generate Excel template for students
  */
 export const generateStudentTemplate = () => {
+  // Headers match STUDENT_IMPORT_FIELDS labels so the import maps them automatically
   const templateData = [
     {
       'Student Number': '24-0001',
       'First Name': 'John',
       'Last Name': 'Doe',
       Email: 'john.doe@example.com',
+      Contact: '09171234567',
+      Birthdate: '2006-04-15',
+      Status: 'active',
       Section: '1-A',
       'Guardian Name': 'Jane Doe',
       'Guardian Email': 'jane.doe@example.com',
+      'Guardian Contact': '09181234567',
+      'NFC ID': '04A1B2C3',
     },
     {
       'Student Number': '24-0002',
       'First Name': 'Alice',
       'Last Name': 'Smith',
       Email: 'alice.smith@example.com',
+      Contact: '',
+      Birthdate: '2005-11-02',
+      Status: 'active',
       Section: '1-B',
       'Guardian Name': 'Bob Smith',
       'Guardian Email': 'bob.smith@example.com',
+      'Guardian Contact': '',
+      'NFC ID': '',
     },
   ]
 
@@ -92,9 +46,14 @@ export const generateStudentTemplate = () => {
     { wch: 15 }, // First Name
     { wch: 15 }, // Last Name
     { wch: 25 }, // Email
+    { wch: 14 }, // Contact
+    { wch: 12 }, // Birthdate
+    { wch: 10 }, // Status
     { wch: 10 }, // Section
     { wch: 20 }, // Guardian Name
     { wch: 25 }, // Guardian Email
+    { wch: 16 }, // Guardian Contact
+    { wch: 12 }, // NFC ID
   ]
 
   // Download the file
@@ -0,0 +1,40 @@
+import { Guardian, GuardianChannel, GuardianRelationship, StudentGuardian } from '@/types'
+
+export const GUARDIAN_RELATIONSHIPS: { value: GuardianRelationship; label: string }[] = [
+  { value: 'mother', label: 'Mother' },
+  { value: 'father', label: 'Father' },
+  { value: 'guardian', label: 'Guardian' },
+  { value: 'grandparent', label: 'Grandparent' },
+  { value: 'sibling', label: 'Sibling' },
+  { value: 'other', label: 'Other' },
+]
+
+export const GUARDIAN_CHANNELS: { value: GuardianChannel; label: string }[] = [
+  { value: 'email', label: 'Email' },
+  { value: 'phone', label: 'Phone' },
+]
+
+export function relationshipLabel(relationship: GuardianRelationship): string {
+  return (
+    GUARDIAN_RELATIONSHIPS.find((option) => option.value === relationship)?.label ?? relationship
+  )
+}
+
+/**
+ * Guardians who should get a student's attendance notices: opted in and with
+ * an email address. A guardian linked twice is only listed once.
+ */
+export function attendanceAlertRecipients(guardians: StudentGuardian[] = []): Guardian[] {
+  const recipients: Guardian[] = []
+  guardians.forEach(({ guardian, receivesAttendanceAlerts }) => {
+    const email = guardian.email?.toLowerCase()
+    if (
+      receivesAttendanceAlerts &&
+      email &&
+      !recipients.some((g) => g.email?.toLowerCase() === email)
+    ) {
+      recipients.push(guardian)
+    }
+  })
+  return recipients
+}
@@ -0,0 +1,305 @@
+/**
+ * Student ID Card Sheets
+ *
+ * Lays out student ID cards on A4 sheets as a PDF, following a card template:
+ * photo, name, section and the student number as a QR code and a Code 128
+ * barcode. With a back side, each sheet of fronts is followed by a sheet of
+ * backs mirrored so they line up when printed double-sided (long-edge flip).
+ */
+
+import QRCode from 'qrcode'
+import { IdCardOrientation, IdCardPrint, IdCardTemplate, Student } from '@/types'
+import { encodeCode128, code128Width, CODE128_QUIET_ZONE } from './barcode'
+import { createPdfDocument, fitText, PdfDocument, PdfImage, PdfPage, wrapText } from './pdfDocument'
+
+// CR80 card and A4 sheet, in millimetres
+const CARD_LONG = 85.6
+const CARD_SHORT = 54
+const SHEET_WIDTH = 210
+const SHEET_HEIGHT = 297
+const SHEET_MARGIN = 8
+const CARD_GAP = 3
+
+const INK = '#0F172A'
+const MUTED = '#64748B'
+const PLACEHOLDER = '#E2E8F0'
+const CUT_GUIDE = '#CBD5E1'
+const MAX_MODULE = 0.33 // Widest barcode module (mm) that still scans well
+
+export interface IdCard {
+  student: Student
+  print?: IdCardPrint // The recorded print, for the NFC card and copy number
+  photo?: string // Student photo as a JPEG data URL
+}
+
+interface PlacedCard extends IdCard {
+  image?: PdfImage
+}
+
+function cardSize(orientation: IdCardOrientation) {
+  return orientation === 'portrait'
+    ? { width: CARD_SHORT, height: CARD_LONG }
+    : { width: CARD_LONG, height: CARD_SHORT }
+}
+
+/**
+ * How many cards of the orientation fit on one A4 sheet
+ */
+export function sheetGrid(orientation: IdCardOrientation) {
+  const { width, height } = cardSize(orientation)
+  const columns = Math.floor((SHEET_WIDTH - 2 * SHEET_MARGIN + CARD_GAP) / (width + CARD_GAP))
+  const rows = Math.floor((SHEET_HEIGHT - 2 * SHEET_MARGIN + CARD_GAP) / (height + CARD_GAP))
+  return { columns, rows, perSheet: columns * rows }
+}
+
+function initials(student: Student): string {
+  return `${student.firstName.charAt(0)}${student.lastName.charAt(0)}`.toUpperCase()
+}
+
+// Footer line tying the card to its NFC card, e.g. "NFC ····3E5F · Copy 2"
+function cardFooter(print?: IdCardPrint): string {
+  const parts = [
+    print?.nfcId ? `NFC ····${print.nfcId.slice(-4)}` : 'No NFC card',
+    print && print.printNumber > 1 ? `Copy ${print.printNumber}` : '',
+  ]
+  return parts.filter(Boolean).join(' · ')
+}
+
+function drawPhoto(page: PdfPage, card: PlacedCard, x: number, y: number, size: number) {
+  if (card.image) {
+    page.image(card.image, x, y, size, size)
+    return
+  }
+  page.rect(x, y, size, size, PLACEHOLDER)
+  page.text(initials(card.student), x + size / 2, y + size / 2 + 2.5, {
+    size: 20,
+    bold: true,
+    color: MUTED,
+    align: 'center',
+  })
+}
+
+function drawQrCode(page: PdfPage, text: string, x: number, y: number, size: number) {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' })
+  const cell = size / modules.size
+  for (let row = 0; row < modules.size; row++) {
+    // Draw each run of dark modules as one rectangle
+    let start = -1
+    for (let col = 0; col <= modules.size; col++) {
+      const dark = col < modules.size && modules.get(row, col)
+      if (dark && start < 0) start = col
+      if (!dark && start >= 0) {
+        page.rect(x + start * cell, y + row * cell, (col - start) * cell, cell, INK)
+        start = -1
+      }
+    }
+  }
+}
+
+/**
+ * Draw a barcode centered in the box, scaled to fit up to MAX_MODULE per module
+ */
+function drawBarcode(
+  page: PdfPage,
+  text: string,
+  x: number,
+  y: number,
+  maxWidth: number,
+  height: number
+) {
+  const widths = encodeCode128(text)
+  const modules = code128Width(widths) + 2 * CODE128_QUIET_ZONE
+  const module = Math.min(MAX_MODULE, maxWidth / modules)
+  let left = x + (maxWidth - modules * module) / 2 + CODE128_QUIET_ZONE * module
+  widths.forEach((width, index) => {
+    if (index % 2 === 0) page.rect(left, y, width * module, height, INK)
+    left += width * module
+  })
+}
+
+function drawLandscapeFront(
+  page: PdfPage,
+  card: PlacedCard,
+  template: IdCardTemplate,
+  x: number,
+  y: number,
+  school: string
+) {
+  const { student } = card
+  page.rect(x, y, CARD_LONG, 11, template.accentColor)
+  page.text(fitText(school, CARD_LONG - 8, 8, true), x + 4, y + 5, {
+    size: 8,
+    bold: true,
+    color: '#FFFFFF',
+  })
+  page.text(fitText(template.title, CARD_LONG - 8, 6), x + 4, y + 9, {
+    size: 6,
+    color: '#FFFFFF',
+  })
+
+  if (template.showPhoto) drawPhoto(page, card, x + 4, y + 14, 22)
+  if (template.showQrCode) drawQrCode(page, student.studentNumber, x + 64, y + 14, 17.6)
+
+  const textLeft = x + (template.showPhoto ? 29 : 4)
+  const textWidth = x + (template.showQrCode ? 62 : CARD_LONG - 4) - textLeft
+  const name = `${student.firstName} ${student.lastName}`
+  page.text(fitText(name, textWidth, 9, true), textLeft, y + 18.5, {
+    size: 9,
+    bold: true,
+    color: INK,
+  })
+  page.text('STUDENT NO.', textLeft, y + 23.5, { size: 5, color: MUTED })
+  page.text(student.studentNumber, textLeft, y + 27, { size: 8, bold: true, color: INK })
+  page.text('SECTION', textLeft, y + 31, { size: 5, color: MUTED })
+  page.text(fitText(student.section || '-', textWidth, 7), textLeft, y + 34.5, {
+    size: 7,
+    color: INK,
+  })
+
+  if (template.showBarcode) drawBarcode(page, student.studentNumber, x + 4, y + 39, 50, 9)
+  page.text(cardFooter(card.print), x + CARD_LONG - 4, y + 50.5, {
+    size: 5,
+    color: MUTED,
+    align: 'right',
+  })
+}
+
+function drawPortraitFront(
+  page: PdfPage,
+  card: PlacedCard,
+  template: IdCardTemplate,
+  x: number,
+  y: number,
+  school: string
+) {
+  const { student } = card
+  const center = x + CARD_SHORT / 2
+  page.rect(x, y, CARD_SHORT, 13, template.accentColor)
+  page.text(fitText(school, CARD_SHORT - 6, 8, true), center, y + 5.5, {
+    size: 8,
+    bold: true,
+    color: '#FFFFFF',
+    align: 'center',
+  })
+  page.text(fitText(template.title, CARD_SHORT - 6, 6), center, y + 10, {
+    size: 6,
+    color: '#FFFFFF',
+    align: 'center',
+  })
+
+  if (template.showPhoto) drawPhoto(page, card, center - 12, y + 16, 24)
+  const name = `${student.firstName} ${student.lastName}`
+  page.text(fitText(name, CARD_SHORT - 6, 9, true), center, y + 46, {
+    size: 9,
+    bold: true,
+    color: INK,
+    align: 'center',
+  })
+  page.text(student.studentNumber, center, y + 51, {
+    size: 8,
+    bold: true,
+    color: INK,
+    align: 'center',
+  })
+  page.text(fitText(student.section || '-', CARD_SHORT - 6, 6.5), center, y + 55, {
+    size: 6.5,
+    color: MUTED,
+    align: 'center',
+  })
+
+  if (template.showQrCode && template.showBarcode) {
+    drawQrCode(page, student.studentNumber, x + 4, y + 60, 17)
+    drawBarcode(page, student.studentNumber, x + 22, y + 63, CARD_SHORT - 26, 11)
+  } else if (template.showQrCode) {
+    drawQrCode(page, student.studentNumber, center - 9, y + 60, 18)
+  } else if (template.showBarcode) {
+    drawBarcode(page, student.studentNumber, x + 4, y + 62, CARD_SHORT - 8, 12)
+  }
+  page.text(cardFooter(card.print), center, y + 82, { size: 5, color: MUTED, align: 'center' })
+}
+
+function drawBack(
+  page: PdfPage,
+  card: PlacedCard,
+  template: IdCardTemplate,
+  x: number,
+  y: number,
+  school: string
+) {
+  const { width, height } = cardSize(template.orientation)
+  const center = x + width / 2
+  page.rect(x, y, width, 4, template.accentColor)
+  page.text(fitText(school, width - 8, 8, true), center, y + 11, {
+    size: 8,
+    bold: true,
+    color: INK,
+    align: 'center',
+  })
+  wrapText(template.backText, width - 10, 6.5).forEach((line, index) => {
+    page.text(line, center, y + 17 + index * 3.2, { size: 6.5, color: INK, align: 'center' })
+  })
+  page.text(`Student No. ${card.student.studentNumber}`, center, y + height - 7, {
+    size: 6,
+    color: MUTED,
+    align: 'center',
+  })
+  page.text(cardFooter(card.print), center, y + height - 4, {
+    size: 5,
+    color: MUTED,
+    align: 'center',
+  })
+}
+
+function addSheets(
+  pdf: PdfDocument,
+  cards: PlacedCard[],
+  template: IdCardTemplate,
+  school: string
+) {
+  const { width, height } = cardSize(template.orientation)
+  const { columns, rows, perSheet } = sheetGrid(template.orientation)
+  const left = (SHEET_WIDTH - columns * width - (columns - 1) * CARD_GAP) / 2
+  const top = (SHEET_HEIGHT - rows * height - (rows - 1) * CARD_GAP) / 2
+  const position = (column: number, row: number) => ({
+    x: left + column * (width + CARD_GAP),
+    y: top + row * (height + CARD_GAP),
+  })
+  const drawFront = template.orientation === 'portrait' ? drawPortraitFront : drawLandscapeFront
+
+  for (let start = 0; start < cards.length; start += perSheet) {
+    const sheet = cards.slice(start, start + perSheet)
+    pdf.addPage(SHEET_WIDTH, SHEET_HEIGHT, (page) => {
+      sheet.forEach((card, index) => {
+        const { x, y } = position(index % columns, Math.floor(index / columns))
+        page.outline(x, y, width, height, CUT_GUIDE)
+        drawFront(page, card, template, x, y, school)
+      })
+    })
+    if (template.printBack) {
+      pdf.addPage(SHEET_WIDTH, SHEET_HEIGHT, (page) => {
+        sheet.forEach((card, index) => {
+          // Mirrored across the sheet so each back lands behind its front
+          const { x, y } = position(columns - 1 - (index % columns), Math.floor(index / columns))
+          page.outline(x, y, width, height, CUT_GUIDE)
+          drawBack(page, card, template, x, y, school)
+        })
+      })
+    }
+  }
+}
+
+/**
+ * Build the printable PDF for a run of cards
+ * @param cards - One entry per card, in print order
+ * @param template - Card layout
+ * @param school - School name printed on every card
+ */
+export function buildIdCardPdf(cards: IdCard[], template: IdCardTemplate, school: string): Blob {
+  const pdf = createPdfDocument()
+  const placed = cards.map((card) => ({
+    ...card,
+    image: template.showPhoto && card.photo ? pdf.addJpeg(card.photo) : undefined,
+  }))
+  addSheets(pdf, placed, template, school)
+  return pdf.toBlob()
+}
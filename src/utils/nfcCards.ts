@@ -0,0 +1,41 @@
+import { NfcCardAction, NfcCardStatus } from '@/types'
+
+export const NFC_CARD_STATUSES: { value: NfcCardStatus; label: string }[] = [
+  { value: 'active', label: 'Active' },
+  { value: 'available', label: 'Spare' },
+  { value: 'lost', label: 'Lost' },
+  { value: 'revoked', label: 'Revoked' },
+]
+
+const ACTION_LABELS: { [action in NfcCardAction]: string } = {
+  assigned: 'Assigned',
+  returned: 'Returned to spares',
+  expired: 'Temporary assignment ended',
+  reported_lost: 'Reported lost',
+  revoked: 'Revoked',
+  replaced: 'Replaced',
+  tap_rejected: 'Tap rejected',
+}
+
+export function nfcCardStatusLabel(status: NfcCardStatus): string {
+  return NFC_CARD_STATUSES.find((option) => option.value === status)?.label ?? status
+}
+
+export function nfcCardActionLabel(action: NfcCardAction): string {
+  return ACTION_LABELS[action] ?? action
+}
+
+/**
+ * Canonical form of a card UID as typed or sent by a reader: uppercase hex
+ * without the colons, dashes or spaces some readers put between bytes
+ */
+export function normalizeNfcUid(value: string): string {
+  return value.replace(/[\s:-]/g, '').toUpperCase()
+}
+
+/**
+ * Lost and revoked cards stay in the registry but no reader may accept them
+ */
+export function isNfcCardBlocked(status: NfcCardStatus): boolean {
+  return status === 'lost' || status === 'revoked'
+}
@@ -0,0 +1,221 @@
+/**
+ * Minimal PDF Writer
+ *
+ * Just enough PDF to lay out printable sheets in the browser: pages in
+ * millimetres with a top-left origin, filled and outlined rectangles,
+ * Helvetica text and JPEG images. Fonts are the standard 14, so nothing is
+ * embedded and only Latin-1 characters print (others become "?").
+ */
+
+const POINTS_PER_MM = 72 / 25.4
+
+// Helvetica advance widths (1/1000 em) for ASCII 32-126; bold is ~6% wider
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556,
+  556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667,
+  611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667,
+  667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500,
+  222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+]
+const BOLD_FACTOR = 1.06
+
+export interface PdfTextOptions {
+  size: number // Points
+  bold?: boolean
+  color?: string // Hex #RRGGBB
+  align?: 'left' | 'center' | 'right'
+}
+
+export interface PdfPage {
+  rect(x: number, y: number, width: number, height: number, fill: string): void
+  outline(x: number, y: number, width: number, height: number, stroke: string): void
+  text(value: string, x: number, y: number, options: PdfTextOptions): void
+  image(jpeg: PdfImage, x: number, y: number, width: number, height: number): void
+}
+
+export interface PdfImage {
+  readonly id: number
+  width: number
+  height: number
+}
+
+/**
+ * Width of a line of Helvetica text in millimetres
+ */
+export function measureText(value: string, size: number, bold = false): number {
+  const units = Array.from(value).reduce((sum, char) => {
+    const code = char.charCodeAt(0)
+    return sum + (code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556)
+  }, 0)
+  return ((units * size) / 1000 / POINTS_PER_MM) * (bold ? BOLD_FACTOR : 1)
+}
+
+/**
+ * Shorten text with an ellipsis until it fits the width (mm)
+ */
+export function fitText(value: string, maxWidth: number, size: number, bold = false): string {
+  if (measureText(value, size, bold) <= maxWidth) return value
+  let fitted = value
+  while (fitted.length > 1 && measureText(`${fitted}...`, size, bold) > maxWidth) {
+    fitted = fitted.slice(0, -1)
+  }
+  return `${fitted.trimEnd()}...`
+}
+
+/**
+ * Break text into lines no wider than the width (mm)
+ */
+export function wrapText(value: string, maxWidth: number, size: number): string[] {
+  const lines: string[] = []
+  value.split(/\s+/).forEach((word) => {
+    const last = lines[lines.length - 1]
+    if (last !== undefined && measureText(`${last} ${word}`, size) <= maxWidth) {
+      lines[lines.length - 1] = `${last} ${word}`
+    } else if (word) {
+      lines.push(word)
+    }
+  })
+  return lines
+}
+
+const format = (value: number) => String(Math.round(value * 100) / 100)
+
+function rgb(hex: string): string {
+  const value = parseInt(hex.replace('#', ''), 16)
+  return [value >> 16, (value >> 8) & 255, value & 255].map((c) => format(c / 255)).join(' ')
+}
+
+// Latin-1 string literal; other characters can't be shown by the standard fonts
+function pdfString(value: string): string {
+  const escaped = Array.from(value)
+    .map((char) => {
+      const code = char.charCodeAt(0)
+      if (char === '\\' || char === '(' || char === ')') return `\\${char}`
+      if (code < 32 || code > 255) return '?'
+      return code > 126 ? `\\${code.toString(8).padStart(3, '0')}` : char
+    })
+    .join('')
+  return `(${escaped})`
+}
+
+/**
+ * Pixel size of a JPEG, read from its start-of-frame marker
+ */
+function jpegSize(bytes: string): { width: number; height: number } {
+  const byte = (index: number) => bytes.charCodeAt(index)
+  let offset = 2
+  while (offset < bytes.length) {
+    if (byte(offset) !== 0xff) break
+    const marker = byte(offset + 1)
+    const length = (byte(offset + 2) << 8) + byte(offset + 3)
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      return {
+        height: (byte(offset + 5) << 8) + byte(offset + 6),
+        width: (byte(offset + 7) << 8) + byte(offset + 8),
+      }
+    }
+    offset += 2 + length
+  }
+  throw new Error('Not a JPEG image')
+}
+
+/**
+ * Start a PDF document. Pages and images are added in order and `toBlob`
+ * writes the file.
+ */
+export function createPdfDocument() {
+  // Object bodies as binary strings (one char per byte); ids are index + 1
+  const objects: string[] = [
+    '',
+    '',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  ]
+  const pageIds: number[] = []
+  const imageIds: number[] = []
+
+  const addObject = (body: string) => objects.push(body)
+
+  return {
+    /**
+     * Add a JPEG (as a data URL) that pages can draw
+     */
+    addJpeg(dataUrl: string): PdfImage {
+      const bytes = atob(dataUrl.slice(dataUrl.indexOf(',') + 1))
+      const { width, height } = jpegSize(bytes)
+      const id = addObject(
+        `<< /Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${bytes.length} >>\nstream\n${bytes}\nendstream`
+      )
+      imageIds.push(id)
+      return { id, width, height }
+    },
+
+    /**
+     * Add a page (sizes in mm) and draw on it
+     */
+    addPage(width: number, height: number, draw: (page: PdfPage) => void) {
+      const ops: string[] = []
+      const x = (mm: number) => format(mm * POINTS_PER_MM)
+      const y = (mm: number) => format((height - mm) * POINTS_PER_MM)
+      const size = (mm: number) => format(mm * POINTS_PER_MM)
+
+      draw({
+        rect(left, top, w, h, fill) {
+          ops.push(`${rgb(fill)} rg ${x(left)} ${y(top + h)} ${size(w)} ${size(h)} re f`)
+        },
+        outline(left, top, w, h, stroke) {
+          ops.push(`${rgb(stroke)} RG 0.25 w ${x(left)} ${y(top + h)} ${size(w)} ${size(h)} re S`)
+        },
+        text(value, left, baseline, options) {
+          const width = measureText(value, options.size, options.bold)
+          const start =
+            options.align === 'center'
+              ? left - width / 2
+              : options.align === 'right'
+                ? left - width
+                : left
+          ops.push(
+            `BT ${rgb(options.color ?? '#000000')} rg /${options.bold ? 'F2' : 'F1'} ${options.size} Tf ${x(start)} ${y(baseline)} Td ${pdfString(value)} Tj ET`
+          )
+        },
+        image(jpeg, left, top, w, h) {
+          ops.push(`q ${size(w)} 0 0 ${size(h)} ${x(left)} ${y(top + h)} cm /Im${jpeg.id} Do Q`)
+        },
+      })
+
+      const content = ops.join('\n')
+      const contentId = addObject(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`)
+      const images = imageIds.map((id) => `/Im${id} ${id} 0 R`).join(' ')
+      pageIds.push(
+        addObject(
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${size(width)} ${size(height)}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${images} >> >> /Contents ${contentId} 0 R >>`
+        )
+      )
+    },
+
+    /**
+     * Write the document
+     */
+    toBlob(): Blob {
+      objects[0] = '<< /Type /Catalog /Pages 2 0 R >>'
+      objects[1] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`
+
+      let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n'
+      const offsets = objects.map((body, index) => {
+        const offset = output.length
+        output += `${index + 1} 0 obj\n${body}\nendobj\n`
+        return offset
+      })
+      const xref = output.length
+      output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+      output += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+      output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`
+
+      const bytes = new Uint8Array(output.length)
+      for (let i = 0; i < output.length; i++) bytes[i] = output.charCodeAt(i)
+      return new Blob([bytes], { type: 'application/pdf' })
+    },
+  }
+}
+
+export type PdfDocument = ReturnType<typeof createPdfDocument>
@@ -5,9 +5,14 @@
  * - Professor: Can view assigned subjects, mark attendance, view student records
  * - Registrar: Full student/enrollment management, can manage subjects
  * - Admin: Full system access including user management
+ *
+ * The backend serves an editable matrix (with custom roles) that is cached in
+ * usePermissionStore after login. Every check here reads that live matrix and
+ * falls back to ROLE_PERMISSIONS for roles it does not list.
  */
 
-import { UserRole } from '@/types'
+import { BuiltInRole, PermissionMatrix, Subject, User, UserRole } from '@/types'
+import { usePermissionStore } from '@/store/permissionStore'
 
 // Permission categories
 export const PERMISSIONS = {
@@ -16,12 +21,14 @@ export const PERMISSIONS = {
   CREATE_STUDENT: 'create_student',
   EDIT_STUDENT: 'edit_student',
   DELETE_STUDENT: 'delete_student',
+  MERGE_STUDENTS: 'merge_students', // Combine duplicate records (admin only)
 
   // Subject permissions
   VIEW_SUBJECTS: 'view_subjects',
   CREATE_SUBJECT: 'create_subject',
   EDIT_SUBJECT: 'edit_subject',
   DELETE_SUBJECT: 'delete_subject',
+  ASSIGN_INSTRUCTORS: 'assign_instructors',
 
   // Enrollment permissions
   VIEW_ENROLLMENTS: 'view_enrollments',
@@ -30,6 +37,7 @@ export const PERMISSIONS = {
   // Attendance permissions
   VIEW_ATTENDANCE: 'view_attendance',
   MARK_ATTENDANCE: 'mark_attendance',
+  MARK_ANY_ATTENDANCE: 'mark_any_attendance', // Not limited to subjects the user teaches
 
   // Records permissions
   VIEW_RECORDS: 'view_records',
@@ -41,12 +49,64 @@ export const PERMISSIONS = {
 
   // User management (admin only)
   MANAGE_USERS: 'manage_users',
+
+  // School settings: email domain, branding, student-number prefix (admin only)
+  MANAGE_SCHOOL_SETTINGS: 'manage_school_settings',
 } as const
 
-type Permission = (typeof PERMISSIONS)[keyof typeof PERMISSIONS]
+export type Permission = (typeof PERMISSIONS)[keyof typeof PERMISSIONS]
+
+// Permissions grouped for display (matrix editor, access-denied page)
+export const PERMISSION_GROUPS: { label: string; permissions: Permission[] }[] = [
+  {
+    label: 'Students',
+    permissions: [
+      PERMISSIONS.VIEW_STUDENTS,
+      PERMISSIONS.CREATE_STUDENT,
+      PERMISSIONS.EDIT_STUDENT,
+      PERMISSIONS.DELETE_STUDENT,
+      PERMISSIONS.MERGE_STUDENTS,
+    ],
+  },
+  {
+    label: 'Subjects',
+    permissions: [
+      PERMISSIONS.VIEW_SUBJECTS,
+      PERMISSIONS.CREATE_SUBJECT,
+      PERMISSIONS.EDIT_SUBJECT,
+      PERMISSIONS.DELETE_SUBJECT,
+      PERMISSIONS.ASSIGN_INSTRUCTORS,
+    ],
+  },
+  {
+    label: 'Enrollment & Attendance',
+    permissions: [
+      PERMISSIONS.VIEW_ENROLLMENTS,
+      PERMISSIONS.MANAGE_ENROLLMENTS,
+      PERMISSIONS.VIEW_ATTENDANCE,
+      PERMISSIONS.MARK_ATTENDANCE,
+      PERMISSIONS.MARK_ANY_ATTENDANCE,
+    ],
+  },
+  {
+    label: 'Records & Email',
+    permissions: [
+      PERMISSIONS.VIEW_RECORDS,
+      PERMISSIONS.EXPORT_RECORDS,
+      PERMISSIONS.SEND_EMAILS,
+      PERMISSIONS.VIEW_EMAIL_HISTORY,
+    ],
+  },
+  {
+    label: 'Administration',
+    permissions: [PERMISSIONS.MANAGE_USERS, PERMISSIONS.MANAGE_SCHOOL_SETTINGS],
+  },
+]
+
+const ALL_PERMISSIONS = Object.values(PERMISSIONS) as Permission[]
 
-// Role permission mapping
-const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+// Static role permission mapping (fallback until the backend matrix is loaded)
+export const ROLE_PERMISSIONS: Record<BuiltInRole, Permission[]> = {
   professor: [
     PERMISSIONS.VIEW_STUDENTS,
     PERMISSIONS.VIEW_SUBJECTS,
@@ -66,6 +126,7 @@ const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
     PERMISSIONS.CREATE_SUBJECT,
     PERMISSIONS.EDIT_SUBJECT,
     PERMISSIONS.DELETE_SUBJECT,
+    PERMISSIONS.ASSIGN_INSTRUCTORS,
     PERMISSIONS.VIEW_ENROLLMENTS,
     PERMISSIONS.MANAGE_ENROLLMENTS,
     PERMISSIONS.VIEW_ATTENDANCE,
@@ -83,15 +144,19 @@ const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
     PERMISSIONS.CREATE_SUBJECT,
     PERMISSIONS.EDIT_SUBJECT,
     PERMISSIONS.DELETE_SUBJECT,
+    PERMISSIONS.ASSIGN_INSTRUCTORS,
     PERMISSIONS.VIEW_ENROLLMENTS,
     PERMISSIONS.MANAGE_ENROLLMENTS,
     PERMISSIONS.VIEW_ATTENDANCE,
     PERMISSIONS.MARK_ATTENDANCE,
+    PERMISSIONS.MARK_ANY_ATTENDANCE,
     PERMISSIONS.VIEW_RECORDS,
     PERMISSIONS.EXPORT_RECORDS,
     PERMISSIONS.SEND_EMAILS,
     PERMISSIONS.VIEW_EMAIL_HISTORY,
     PERMISSIONS.MANAGE_USERS,
+    PERMISSIONS.MANAGE_SCHOOL_SETTINGS,
+    PERMISSIONS.MERGE_STUDENTS,
   ],
   // Keep superadmin as alias for admin (full access)
   superadmin: [
@@ -103,15 +168,19 @@ const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
     PERMISSIONS.CREATE_SUBJECT,
     PERMISSIONS.EDIT_SUBJECT,
     PERMISSIONS.DELETE_SUBJECT,
+    PERMISSIONS.ASSIGN_INSTRUCTORS,
     PERMISSIONS.VIEW_ENROLLMENTS,
     PERMISSIONS.MANAGE_ENROLLMENTS,
     PERMISSIONS.VIEW_ATTENDANCE,
     PERMISSIONS.MARK_ATTENDANCE,
+    PERMISSIONS.MARK_ANY_ATTENDANCE,
     PERMISSIONS.VIEW_RECORDS,
     PERMISSIONS.EXPORT_RECORDS,
     PERMISSIONS.SEND_EMAILS,
     PERMISSIONS.VIEW_EMAIL_HISTORY,
     PERMISSIONS.MANAGE_USERS,
+    PERMISSIONS.MANAGE_SCHOOL_SETTINGS,
+    PERMISSIONS.MERGE_STUDENTS,
   ],
   // Staff role kept for backwards compatibility but with limited permissions
   staff: [
@@ -123,12 +192,29 @@ const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
   ],
 }
 
+function isPermission(value: string): value is Permission {
+  return (ALL_PERMISSIONS as string[]).includes(value)
+}
+
+/**
+ * Permissions of a role in a given matrix, or the static table when the
+ * matrix is missing or does not list the role
+ */
+export function resolveRolePermissions(
+  role: UserRole,
+  matrix: PermissionMatrix | null = usePermissionStore.getState().matrix
+): Permission[] {
+  const definition = matrix?.roles.find((r) => r.id === role)
+  if (definition) return definition.permissions.filter(isPermission)
+  return ROLE_PERMISSIONS[role as BuiltInRole] ?? []
+}
+
 /**
  * Check if a role has a specific permission
  */
 export function hasPermission(role: UserRole | undefined, permission: Permission): boolean {
   if (!role) return false
-  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false
+  return resolveRolePermissions(role).includes(permission)
 }
 
 /**
@@ -147,6 +233,47 @@ export function hasAllPermissions(role: UserRole | undefined, permissions: Permi
   return permissions.every((p) => hasPermission(role, p))
 }
 
+/**
+ * What a route or nav item needs: one permission, all of a list, or any of a list.
+ * Every given field must be satisfied; an empty requirement always passes.
+ */
+export interface PermissionRequirement {
+  permission?: Permission
+  allPermissions?: Permission[]
+  anyPermissions?: Permission[]
+}
+
+/**
+ * Permissions a role lacks for a requirement, or null when it is met.
+ * `mode` is 'any' when holding one of `missing` would be enough.
+ */
+export function getMissingPermissions(
+  role: UserRole | undefined,
+  requirement: PermissionRequirement
+): { missing: Permission[]; mode: 'all' | 'any' } | null {
+  const required = [
+    ...(requirement.permission ? [requirement.permission] : []),
+    ...(requirement.allPermissions ?? []),
+  ]
+  const missing = required.filter((p) => !hasPermission(role, p))
+  if (missing.length > 0) return { missing, mode: 'all' }
+
+  const any = requirement.anyPermissions ?? []
+  if (any.length > 0 && !hasAnyPermission(role, any)) return { missing: any, mode: 'any' }
+
+  return null
+}
+
+/**
+ * Whether a role meets a requirement (see getMissingPermissions)
+ */
+export function meetsPermissionRequirement(
+  role: UserRole | undefined,
+  requirement: PermissionRequirement
+): boolean {
+  return getMissingPermissions(role, requirement) === null
+}
+
 // Convenience functions for common permission checks
 export const canManageStudents = (role?: UserRole) =>
   hasAnyPermission(role, [
@@ -155,6 +282,8 @@ export const canManageStudents = (role?: UserRole) =>
     PERMISSIONS.DELETE_STUDENT,
   ])
 
+export const canMergeStudents = (role?: UserRole) => hasPermission(role, PERMISSIONS.MERGE_STUDENTS)
+
 export const canViewStudents = (role?: UserRole) => hasPermission(role, PERMISSIONS.VIEW_STUDENTS)
 
 export const canManageSubjects = (role?: UserRole) =>
@@ -172,6 +301,28 @@ export const canManageEnrollments = (role?: UserRole) =>
 export const canMarkAttendance = (role?: UserRole) =>
   hasPermission(role, PERMISSIONS.MARK_ATTENDANCE)
 
+export const canMarkAnyAttendance = (role?: UserRole) =>
+  hasPermission(role, PERMISSIONS.MARK_ANY_ATTENDANCE)
+
+export const canAssignInstructors = (role?: UserRole) =>
+  hasPermission(role, PERMISSIONS.ASSIGN_INSTRUCTORS)
+
+/**
+ * Whether a user may mark attendance for a subject: they must be one of its
+ * assigned instructors, unless their role holds MARK_ANY_ATTENDANCE
+ */
+export function canMarkSubjectAttendance(
+  user: Pick<User, 'id' | 'role'> | null | undefined,
+  subject: Pick<Subject, 'instructorIds'> | null | undefined
+): boolean {
+  if (!user || !subject || !canMarkAttendance(user.role)) return false
+  // Compared as strings: the backend may send string (ObjectId) ids
+  return (
+    canMarkAnyAttendance(user.role) ||
+    (subject.instructorIds ?? []).some((id) => String(id) === String(user.id))
+  )
+}
+
 export const canViewAttendance = (role?: UserRole) =>
   hasPermission(role, PERMISSIONS.VIEW_ATTENDANCE)
 
@@ -183,32 +334,87 @@ export const canSendEmails = (role?: UserRole) => hasPermission(role, PERMISSION
 
 export const canManageUsers = (role?: UserRole) => hasPermission(role, PERMISSIONS.MANAGE_USERS)
 
+export const canManageSchoolSettings = (role?: UserRole) =>
+  hasPermission(role, PERMISSIONS.MANAGE_SCHOOL_SETTINGS)
+
+// Admins may require two-factor authentication for roles holding any of these
+export const TWO_FACTOR_SENSITIVE_PERMISSIONS: Permission[] = [
+  PERMISSIONS.MANAGE_USERS,
+  PERMISSIONS.DELETE_STUDENT,
+]
+
+/**
+ * Every known role: the live matrix's roles, or the built-in ones
+ */
+export function getAllRoles(): UserRole[] {
+  const matrix = usePermissionStore.getState().matrix
+  return matrix ? matrix.roles.map((r) => r.id) : (Object.keys(ROLE_PERMISSIONS) as UserRole[])
+}
+
+/**
+ * Roles the two-factor policy can apply to
+ */
+export function getTwoFactorEligibleRoles(): UserRole[] {
+  return getAllRoles().filter((role) => hasAnyPermission(role, TWO_FACTOR_SENSITIVE_PERMISSIONS))
+}
+
 /**
  * Get all permissions for a role
  */
 export function getRolePermissions(role: UserRole): Permission[] {
-  return ROLE_PERMISSIONS[role] || []
+  return resolveRolePermissions(role)
+}
+
+export const BUILT_IN_ROLE_NAMES: Record<BuiltInRole, string> = {
+  professor: 'Professor',
+  registrar: 'Registrar',
+  admin: 'Administrator',
+  superadmin: 'Super Administrator',
+  staff: 'Staff',
 }
 
 /**
  * Get role display name
  */
 export function getRoleDisplayName(role: UserRole): string {
-  const names: Record<UserRole, string> = {
-    professor: 'Professor',
-    registrar: 'Registrar',
-    admin: 'Administrator',
-    superadmin: 'Super Administrator',
-    staff: 'Staff',
-  }
-  return names[role] || role
+  const custom = usePermissionStore.getState().matrix?.roles.find((r) => r.id === role)
+  return custom?.name || BUILT_IN_ROLE_NAMES[role as BuiltInRole] || role
+}
+
+const PERMISSION_NAMES: Record<Permission, string> = {
+  view_students: 'View students',
+  create_student: 'Add students',
+  edit_student: 'Edit students',
+  delete_student: 'Delete students',
+  merge_students: 'Merge duplicate students',
+  view_subjects: 'View subjects',
+  create_subject: 'Add subjects',
+  edit_subject: 'Edit subjects',
+  delete_subject: 'Delete subjects',
+  assign_instructors: 'Assign instructors',
+  view_enrollments: 'View enrollments',
+  manage_enrollments: 'Manage enrollments',
+  view_attendance: 'View attendance',
+  mark_attendance: 'Mark attendance',
+  mark_any_attendance: 'Mark attendance for any subject',
+  view_records: 'View records',
+  export_records: 'Export records',
+  send_emails: 'Send emails',
+  view_email_history: 'View email history',
+  manage_users: 'Manage users',
+  manage_school_settings: 'Manage school settings',
+}
+
+/**
+ * Human-readable permission name
+ */
+export function getPermissionDisplayName(permission: Permission): string {
+  return PERMISSION_NAMES[permission] ?? permission
 }
 
 /**
  * Get roles that have access to a specific route/feature
  */
 export function getRolesWithPermission(permission: Permission): UserRole[] {
-  return (Object.entries(ROLE_PERMISSIONS) as [UserRole, Permission[]][])
-    .filter(([, perms]) => perms.includes(permission))
-    .map(([role]) => role)
+  return getAllRoles().filter((role) => hasPermission(role, permission))
 }
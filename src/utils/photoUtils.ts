@@ -0,0 +1,116 @@
+import { STUDENT_PHOTO_SIZE } from './constants'
+
+/**
+ * Where a photo sits inside the square crop area: its zoom (1 fills the area)
+ * and the position of its top-left corner in crop-area pixels
+ */
+export interface PhotoFrame {
+  zoom: number
+  x: number
+  y: number
+}
+
+type ImageSize = { naturalWidth: number; naturalHeight: number }
+
+const displayedSize = (image: ImageSize, viewport: number, zoom: number) => {
+  const scale = (viewport / Math.min(image.naturalWidth, image.naturalHeight)) * zoom
+  return { width: image.naturalWidth * scale, height: image.naturalHeight * scale, scale }
+}
+
+/**
+ * Load an image file so it can be drawn. Rejects files the browser cannot
+ * decode, whatever their MIME type claims.
+ */
+export function loadImage(file: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file)
+    const image = new Image()
+    image.onload = () => {
+      URL.revokeObjectURL(url)
+      resolve(image)
+    }
+    image.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error('This file could not be read as an image'))
+    }
+    image.src = url
+  })
+}
+
+/**
+ * Keep the photo covering the whole crop area after a zoom or drag
+ */
+export function clampPhotoFrame(image: ImageSize, viewport: number, frame: PhotoFrame): PhotoFrame {
+  const zoom = Math.max(1, frame.zoom)
+  const { width, height } = displayedSize(image, viewport, zoom)
+  const clamp = (value: number, min: number) => Math.min(0, Math.max(min, value))
+  return { zoom, x: clamp(frame.x, viewport - width), y: clamp(frame.y, viewport - height) }
+}
+
+/**
+ * The photo centred in the crop area at the given zoom
+ */
+export function centerPhotoFrame(image: ImageSize, viewport: number, zoom = 1): PhotoFrame {
+  const { width, height } = displayedSize(image, viewport, zoom)
+  return { zoom, x: (viewport - width) / 2, y: (viewport - height) / 2 }
+}
+
+/**
+ * Draw the framed part of the photo onto a square canvas and encode it as
+ * JPEG, which also drops EXIF data such as location
+ */
+export function cropPhoto(
+  image: HTMLImageElement,
+  viewport: number,
+  frame: PhotoFrame,
+  outputSize = STUDENT_PHOTO_SIZE
+): Promise<Blob> {
+  const { scale } = displayedSize(image, viewport, frame.zoom)
+  const canvas = document.createElement('canvas')
+  canvas.width = outputSize
+  canvas.height = outputSize
+
+  const context = canvas.getContext('2d')
+  if (!context) return Promise.reject(new Error('Image editing is not supported in this browser'))
+  context.imageSmoothingQuality = 'high'
+  context.drawImage(
+    image,
+    -frame.x / scale,
+    -frame.y / scale,
+    viewport / scale,
+    viewport / scale,
+    0,
+    0,
+    outputSize,
+    outputSize
+  )
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Failed to process the photo'))),
+      'image/jpeg',
+      0.9
+    )
+  })
+}
+
+/**
+ * A photo (data URL or link) as a JPEG data URL, for embedding in documents
+ * such as printed ID cards. Other image types are redrawn as JPEG.
+ */
+export async function photoAsJpegDataUrl(src: string): Promise<string> {
+  if (src.startsWith('data:image/jpeg')) return src
+
+  const blob = await fetch(src).then((response) => response.blob())
+  const image = await loadImage(blob)
+  const canvas = document.createElement('canvas')
+  canvas.width = image.naturalWidth
+  canvas.height = image.naturalHeight
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('Image editing is not supported in this browser')
+  // JPEG has no transparency, so fill behind the image
+  context.fillStyle = '#FFFFFF'
+  context.fillRect(0, 0, canvas.width, canvas.height)
+  context.drawImage(image, 0, 0)
+  return canvas.toDataURL('image/jpeg', 0.9)
+}
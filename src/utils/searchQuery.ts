@@ -0,0 +1,398 @@
+import { addDays, format, isValid, parseISO } from 'date-fns'
+import {
+  AttendanceRecord,
+  AttendanceRecordFilters,
+  AttendanceStatus,
+  ParsedSearchQuery,
+  SearchOperator,
+  SearchSuggestion,
+  StudentListFilters,
+  StudentStatus,
+  TimeSlot,
+} from '@/types'
+import { STUDENT_STATUS } from '@/utils/validation-rules'
+
+/**
+ * A filter the search box understands, such as `status:active`
+ */
+export interface SearchKey {
+  key: string
+  description: string
+  example: string
+  operators: SearchOperator[]
+  values?: readonly string[] // Offered while typing; with `strict`, the only values allowed
+  strict?: boolean
+  validate?: (value: string) => string | undefined // Error message for a value that cannot be used
+}
+
+/**
+ * Values offered while typing that depend on the data, such as the sections
+ * in use, by key
+ */
+export type SearchValueOptions = { [key: string]: readonly string[] }
+
+// A word starting with a known-looking key and an operator is a filter; longer
+// operators first so `>=` is not read as `>`
+const CLAUSE_PATTERN = /^([a-z][a-z-]*)(>=|<=|:|>|<)(.*)$/i
+
+const MAX_SUGGESTIONS = 8
+
+const RANGE_OPERATORS: SearchOperator[] = [':', '>', '>=', '<', '<=']
+
+interface Token {
+  text: string
+  start: number
+  end: number
+}
+
+/**
+ * Split the query on spaces, keeping double-quoted text together
+ * (`guardian:"ana reyes"`, `"dela cruz"`)
+ */
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = []
+  let start = -1
+  let quoted = false
+  for (let i = 0; i <= input.length; i++) {
+    if (i === input.length || (!quoted && /\s/.test(input[i]))) {
+      if (start !== -1) tokens.push({ text: input.slice(start, i), start, end: i })
+      start = -1
+      continue
+    }
+    if (start === -1) start = i
+    if (input[i] === '"') quoted = !quoted
+  }
+  return tokens
+}
+
+function unquote(value: string): string {
+  return value.replace(/^"/, '').replace(/"$/, '').trim()
+}
+
+function quoteIfNeeded(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value
+}
+
+/**
+ * Split a search box query into plain words and filters. Filters with an
+ * unknown key, an operator the key does not support or a bad value are
+ * reported in `errors` and left out.
+ */
+export function parseSearchQuery(input: string, keys: SearchKey[]): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { text: [], clauses: [], errors: [] }
+
+  for (const token of tokenize(input)) {
+    const match = token.text.startsWith('"') ? null : CLAUSE_PATTERN.exec(token.text)
+    if (!match) {
+      const word = unquote(token.text)
+      if (word) parsed.text.push(word)
+      continue
+    }
+
+    const [, name, operator, rawValue] = match
+    const fail = (message: string) =>
+      parsed.errors.push({ message, start: token.start, end: token.end })
+    const key = keys.find((k) => k.key === name.toLowerCase())
+    let value = unquote(rawValue)
+
+    if (!key) {
+      fail(`Unknown filter "${name}". Use ${keys.map((k) => k.key).join(', ')}`)
+      continue
+    }
+    if (!key.operators.includes(operator as SearchOperator)) {
+      fail(`"${key.key}" cannot be compared with "${operator}", as in ${key.example}`)
+      continue
+    }
+    if (!value) {
+      fail(`Add a value after "${key.key}${operator}", as in ${key.example}`)
+      continue
+    }
+    if (key.strict) {
+      const known = key.values?.find((v) => v.toLowerCase() === value.toLowerCase())
+      if (!known) {
+        fail(`"${value}" is not a ${key.key}. Use ${key.values?.join(', ')}`)
+        continue
+      }
+      value = known
+    }
+    const invalid = key.validate?.(value)
+    if (invalid) {
+      fail(invalid)
+      continue
+    }
+    if (operator === ':' && parsed.clauses.some((c) => c.key === key.key && c.operator === ':')) {
+      fail(`"${key.key}:" can only be used once`)
+      continue
+    }
+
+    parsed.clauses.push({
+      key: key.key,
+      operator: operator as SearchOperator,
+      value,
+      start: token.start,
+      end: token.end,
+    })
+  }
+
+  return parsed
+}
+
+/**
+ * Completions for the word at the cursor: filter keys while the key is being
+ * typed, then the key's values
+ */
+export function searchSuggestions(
+  input: string,
+  cursor: number,
+  keys: SearchKey[],
+  valueOptions: SearchValueOptions = {}
+): SearchSuggestion[] {
+  const token = tokenize(input).find((t) => t.start <= cursor && cursor <= t.end) ?? {
+    text: '',
+    start: cursor,
+    end: cursor,
+  }
+  const typed = token.text.slice(0, cursor - token.start)
+  if (typed.startsWith('"')) return []
+
+  const match = CLAUSE_PATTERN.exec(typed)
+  if (!match) {
+    const prefix = typed.toLowerCase()
+    return keys
+      .filter((k) => k.key.startsWith(prefix))
+      .map((k) => ({
+        label: k.key,
+        description: `${k.description} · ${k.example}`,
+        insert: `${k.key}${k.operators.includes(':') ? ':' : k.operators[0]}`,
+        start: token.start,
+        end: token.end,
+      }))
+  }
+
+  const [, name, operator, rawValue] = match
+  const key = keys.find((k) => k.key === name.toLowerCase())
+  if (!key) return []
+  const prefix = unquote(rawValue).toLowerCase()
+  const options = Array.from(new Set([...(key.values ?? []), ...(valueOptions[key.key] ?? [])]))
+  return options
+    .filter((option) => {
+      const lower = option.toLowerCase()
+      return lower.startsWith(prefix) && lower !== prefix
+    })
+    .slice(0, MAX_SUGGESTIONS)
+    .map((option) => ({
+      label: option,
+      insert: `${key.key}${operator}${quoteIfNeeded(option)} `,
+      start: token.start,
+      end: token.end,
+    }))
+}
+
+/**
+ * Narrow an inclusive [min, max] range with one comparison. `step` moves a
+ * value by one unit, so `age>17` becomes a minimum of 18.
+ */
+function narrowRange<T extends number | string>(
+  range: { min?: T; max?: T },
+  operator: SearchOperator,
+  value: T,
+  step: (value: T, by: 1 | -1) => T
+) {
+  const raise = (min: T) => {
+    range.min = range.min !== undefined && range.min > min ? range.min : min
+  }
+  const lower = (max: T) => {
+    range.max = range.max !== undefined && range.max < max ? range.max : max
+  }
+  if (operator === '>') raise(step(value, 1))
+  if (operator === '>=' || operator === ':') raise(value)
+  if (operator === '<') lower(step(value, -1))
+  if (operator === '<=' || operator === ':') lower(value)
+}
+
+// ============================================================================
+// STUDENTS
+// ============================================================================
+
+export const STUDENT_SEARCH_KEYS: SearchKey[] = [
+  { key: 'section', description: 'Section', example: 'section:1-A', operators: [':'] },
+  {
+    key: 'status',
+    description: 'Enrollment status',
+    example: 'status:active',
+    operators: [':'],
+    values: Object.values(STUDENT_STATUS),
+    strict: true,
+  },
+  {
+    key: 'guardian',
+    description: 'Guardian name or email, none or any',
+    example: 'guardian:none',
+    operators: [':'],
+    values: ['none', 'any'],
+  },
+  { key: 'tag', description: 'Tag', example: 'tag:scholar', operators: [':'] },
+  {
+    key: 'age',
+    description: 'Age in years',
+    example: 'age>17',
+    operators: RANGE_OPERATORS,
+    validate: (value) => (/^\d{1,3}$/.test(value) ? undefined : 'Age must be a whole number'),
+  },
+]
+
+/**
+ * Students list filters for a parsed query, with only the filters the query
+ * sets. Plain words are searched as one phrase.
+ */
+export function toStudentFilters(query: ParsedSearchQuery): StudentListFilters {
+  const filters: StudentListFilters = {}
+  const age: { min?: number; max?: number } = {}
+  if (query.text.length > 0) filters.search = query.text.join(' ')
+
+  for (const { key, operator, value } of query.clauses) {
+    if (key === 'section') filters.section = value
+    if (key === 'status') filters.status = value as StudentStatus
+    if (key === 'tag') filters.tag = value.toLowerCase()
+    if (key === 'age') narrowRange(age, operator, Number(value), (n, by) => n + by)
+    if (key === 'guardian') {
+      const choice = value.toLowerCase()
+      if (choice === 'none' || choice === 'any') filters.hasGuardian = choice === 'any'
+      else filters.guardian = value
+    }
+  }
+
+  if (age.min !== undefined) filters.minAge = age.min
+  if (age.max !== undefined) filters.maxAge = age.max
+  return filters
+}
+
+// ============================================================================
+// ATTENDANCE RECORDS
+// ============================================================================
+
+const ATTENDANCE_STATUSES: AttendanceStatus[] = ['present', 'absent', 'late', 'excused']
+const TIME_SLOTS: TimeSlot[] = ['arrival', 'departure']
+
+/**
+ * `today`, `yesterday` or a YYYY-MM-DD date as YYYY-MM-DD
+ */
+function resolveDate(value: string): string {
+  const lower = value.toLowerCase()
+  if (lower === 'today') return format(new Date(), 'yyyy-MM-dd')
+  if (lower === 'yesterday') return format(addDays(new Date(), -1), 'yyyy-MM-dd')
+  return value
+}
+
+export const RECORD_SEARCH_KEYS: SearchKey[] = [
+  {
+    key: 'status',
+    description: 'Attendance status',
+    example: 'status:late',
+    operators: [':'],
+    values: ATTENDANCE_STATUSES,
+    strict: true,
+  },
+  { key: 'subject', description: 'Subject code', example: 'subject:MATH101', operators: [':'] },
+  {
+    key: 'date',
+    description: 'Day marked',
+    example: 'date>=2026-10-01',
+    operators: RANGE_OPERATORS,
+    values: ['today', 'yesterday'],
+    validate: (value) =>
+      ['today', 'yesterday'].includes(value.toLowerCase()) ||
+      (/^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parseISO(value)))
+        ? undefined
+        : 'Dates are written YYYY-MM-DD, today or yesterday',
+  },
+  {
+    key: 'slot',
+    description: 'Arrival or departure',
+    example: 'slot:arrival',
+    operators: [':'],
+    values: TIME_SLOTS,
+    strict: true,
+  },
+]
+
+/**
+ * Attendance records filters for a parsed query, with only the filters the
+ * query sets. Plain words are searched as one phrase.
+ */
+export function toAttendanceRecordFilters(query: ParsedSearchQuery): AttendanceRecordFilters {
+  const filters: AttendanceRecordFilters = {}
+  const dates: { min?: string; max?: string } = {}
+  if (query.text.length > 0) filters.search = query.text.join(' ')
+
+  for (const { key, operator, value } of query.clauses) {
+    if (key === 'status') filters.status = value as AttendanceStatus
+    if (key === 'subject') filters.subjectCode = value
+    if (key === 'slot') filters.timeSlot = value as TimeSlot
+    if (key === 'date') {
+      narrowRange(dates, operator, resolveDate(value), (day, by) =>
+        format(addDays(parseISO(day), by), 'yyyy-MM-dd')
+      )
+    }
+  }
+
+  if (dates.min) filters.startDate = dates.min
+  if (dates.max) filters.endDate = dates.max
+  return filters
+}
+
+/**
+ * Day a record was marked as YYYY-MM-DD, or undefined when it carries no
+ * usable date
+ */
+function recordDay(record: AttendanceRecord): string | undefined {
+  if (record.date) return record.date.slice(0, 10)
+  const marked = new Date(record.timestamp || record.createdAt)
+  return isValid(marked) ? format(marked, 'yyyy-MM-dd') : undefined
+}
+
+/**
+ * Whether a record passes the filters. The records list checks the rows it
+ * gets back, as a backend that ignores some of these parameters returns them
+ * unfiltered, and live updates check new marks before adding them to a list.
+ * Student and subject details are read from the flat fields or the populated
+ * `student` / `subject` objects; a filter on a detail the record does not
+ * carry at all is left to the server.
+ */
+export function matchesAttendanceRecordFilters(
+  record: AttendanceRecord,
+  filters: AttendanceRecordFilters
+): boolean {
+  const firstName = record.firstName ?? record.student?.firstName
+  const lastName = record.lastName ?? record.student?.lastName
+  const subjectCode = record.subjectCode ?? record.subject?.subjectCode
+  const day = recordDay(record)
+
+  const searchable = [
+    record.studentNumber ?? record.student?.studentNumber,
+    firstName,
+    lastName,
+    firstName && lastName ? `${firstName} ${lastName}` : undefined,
+    record.email ?? record.student?.email,
+    subjectCode,
+    record.subjectName ?? record.subject?.subjectName,
+  ].filter((value): value is string => Boolean(value))
+  const search = filters.search?.trim().toLowerCase()
+  const matchesSearch =
+    !search ||
+    searchable.length === 0 ||
+    searchable.some((value) => value.toLowerCase().includes(search))
+
+  return (
+    matchesSearch &&
+    (!filters.status || record.status === filters.status) &&
+    (!filters.timeSlot || (record.timeSlot ?? 'arrival') === filters.timeSlot) &&
+    (!filters.subjectCode ||
+      !subjectCode ||
+      subjectCode.toLowerCase() === filters.subjectCode.toLowerCase()) &&
+    (!filters.subjectId || String(record.subjectId) === String(filters.subjectId)) &&
+    (!filters.studentId || String(record.studentId) === String(filters.studentId)) &&
+    (!filters.startDate || !day || day >= filters.startDate) &&
+    (!filters.endDate || !day || day <= filters.endDate)
+  )
+}
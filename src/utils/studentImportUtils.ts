@@ -0,0 +1,288 @@
+import * as XLSX from 'xlsx'
+import { format } from 'date-fns'
+import {
+  ImportConflictAction,
+  SchoolSettings,
+  Student,
+  StudentColumnMapping,
+  StudentFormData,
+  StudentImportResult,
+  StudentImportRow,
+} from '@/types'
+import {
+  checkDuplicateEmail,
+  checkDuplicateStudentNumber,
+  validateStudentData,
+} from './business-validation'
+import { validators } from './validation-rules'
+
+/**
+ * A sheet read as text: header names and one record per non-empty row
+ */
+export interface SpreadsheetData {
+  columns: string[]
+  rows: { [column: string]: string }[]
+}
+
+/**
+ * A mapped row checked against the current students before importing
+ */
+export interface StudentImportPreviewRow {
+  row: number // Spreadsheet row number, header is row 1
+  data: StudentFormData
+  errors: { [field: string]: string } // Rows with errors are not sent
+  conflict?: Student // Existing student with the same number or email
+  conflictFields: ('studentNumber' | 'email')[]
+}
+
+/**
+ * Fields a spreadsheet column can be mapped onto, with the header names
+ * recognised automatically
+ */
+export const STUDENT_IMPORT_FIELDS: {
+  field: keyof StudentFormData
+  label: string
+  required?: boolean
+  aliases: string[]
+}[] = [
+  {
+    field: 'studentNumber',
+    label: 'Student Number',
+    required: true,
+    aliases: ['student no', 'student id', 'id number'],
+  },
+  { field: 'firstName', label: 'First Name', required: true, aliases: ['given name'] },
+  { field: 'lastName', label: 'Last Name', required: true, aliases: ['surname', 'family name'] },
+  { field: 'email', label: 'Email', required: true, aliases: ['email address', 'e-mail'] },
+  { field: 'contact', label: 'Contact', aliases: ['phone', 'mobile', 'contact number'] },
+  { field: 'birthdate', label: 'Birthdate', aliases: ['birthday', 'date of birth', 'dob'] },
+  { field: 'status', label: 'Status', aliases: [] },
+  { field: 'section', label: 'Section', aliases: ['class'] },
+  { field: 'guardianName', label: 'Guardian Name', aliases: ['parent name'] },
+  { field: 'guardianEmail', label: 'Guardian Email', aliases: ['parent email'] },
+  { field: 'guardianContact', label: 'Guardian Contact', aliases: ['parent contact'] },
+  { field: 'nfcId', label: 'NFC ID', aliases: ['nfc', 'card id', 'rfid'] },
+]
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+/**
+ * Read the first sheet of an Excel file. Dates come back as YYYY-MM-DD and
+ * every other cell as its displayed text.
+ */
+export const readSpreadsheet = (file: File): Promise<SpreadsheetData> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+
+    reader.onload = (e) => {
+      try {
+        const workbook = XLSX.read(e.target?.result, { type: 'binary', cellDates: true })
+        const worksheet = workbook.Sheets[workbook.SheetNames[0]]
+        const [header = []] = XLSX.utils.sheet_to_json<string[]>(worksheet, {
+          header: 1,
+          raw: false,
+        })
+        const rows = XLSX.utils
+          .sheet_to_json<{ [column: string]: unknown }>(worksheet, {
+            raw: false,
+            defval: '',
+            dateNF: 'yyyy-mm-dd',
+            blankrows: true,
+          })
+          .map((row) =>
+            Object.fromEntries(
+              Object.entries(row).map(([column, value]) => [column, String(value).trim()])
+            )
+          )
+
+        resolve({
+          columns: header.map((column) => String(column).trim()).filter(Boolean),
+          rows,
+        })
+      } catch (error) {
+        reject(new Error('Failed to parse Excel file. Please check the format.'))
+      }
+    }
+
+    reader.onerror = () => {
+      reject(new Error('Failed to read file'))
+    }
+
+    reader.readAsBinaryString(file)
+  })
+}
+
+/**
+ * Guess which column feeds each field from the header names
+ */
+export function suggestColumnMapping(columns: string[]): StudentColumnMapping {
+  const mapping: StudentColumnMapping = {}
+  STUDENT_IMPORT_FIELDS.forEach(({ field, label, aliases }) => {
+    const names = [field, label, ...aliases].map(normalizeHeader)
+    const column = columns.find((c) => names.includes(normalizeHeader(c)))
+    if (column) mapping[field] = column
+  })
+  return mapping
+}
+
+/**
+ * Required fields that have no column yet
+ */
+export function getUnmappedRequiredFields(mapping: StudentColumnMapping): string[] {
+  return STUDENT_IMPORT_FIELDS.filter(({ field, required }) => required && !mapping[field]).map(
+    ({ label }) => label
+  )
+}
+
+/**
+ * Turn sheet records into student form data using the column mapping.
+ * Completely empty rows are dropped; the returned row numbers still point at
+ * the spreadsheet.
+ */
+export function applyColumnMapping(
+  sheet: SpreadsheetData,
+  mapping: StudentColumnMapping
+): { row: number; data: StudentFormData }[] {
+  const read = (record: { [column: string]: string }, field: keyof StudentFormData) => {
+    const column = mapping[field]
+    return column ? (record[column] ?? '') : ''
+  }
+
+  return sheet.rows
+    .map((record, index) => {
+      const status = read(record, 'status').toLowerCase()
+      const data: StudentFormData = {
+        studentNumber: read(record, 'studentNumber'),
+        firstName: read(record, 'firstName'),
+        lastName: read(record, 'lastName'),
+        email: read(record, 'email'),
+        contact: read(record, 'contact') || undefined,
+        birthdate: read(record, 'birthdate') || undefined,
+        status: (status || undefined) as StudentFormData['status'],
+        section: read(record, 'section') || undefined,
+        guardianName: read(record, 'guardianName') || undefined,
+        guardianEmail: read(record, 'guardianEmail') || undefined,
+        guardianContact: read(record, 'guardianContact') || undefined,
+        nfcId: read(record, 'nfcId').toUpperCase() || undefined,
+      }
+      return { row: index + 2, data }
+    })
+    .filter(({ data }) => Object.values(data).some(Boolean))
+}
+
+/**
+ * Check each row's fields, find rows that repeat an earlier row, and match
+ * rows to existing students by student number or email
+ */
+export function previewStudentImport(
+  records: { row: number; data: StudentFormData }[],
+  existingStudents: Student[],
+  school?: Pick<SchoolSettings, 'emailDomain' | 'studentNumberPrefix'>
+): StudentImportPreviewRow[] {
+  const earlier: { row: number; studentNumber: string; email: string }[] = []
+
+  return records.map(({ row, data }) => {
+    // Format rules only; clashes with existing students are conflicts, not errors
+    const { errors } = validateStudentData(data, [], false, school)
+    const check = (field: string, result: { isValid: boolean; error?: string }) => {
+      if (!result.isValid && !errors[field]) errors[field] = result.error ?? `Invalid ${field}`
+    }
+    check('firstName', validators.personName(data.firstName, 'First name'))
+    check('lastName', validators.personName(data.lastName, 'Last name'))
+    if (data.section) check('section', validators.section(data.section))
+    if (data.birthdate) check('birthdate', validators.birthdate(data.birthdate))
+    if (data.contact) check('contact', validators.contact(data.contact))
+    if (data.status) check('status', validators.studentStatus(data.status))
+    if (data.guardianName) {
+      check('guardianName', validators.personName(data.guardianName, 'Guardian name'))
+    }
+    if (data.guardianEmail) check('guardianEmail', validators.email(data.guardianEmail))
+    if (data.guardianContact) check('guardianContact', validators.contact(data.guardianContact))
+    if (data.nfcId) check('nfcId', validators.nfcId(data.nfcId))
+
+    const sameNumber =
+      data.studentNumber && !checkDuplicateStudentNumber(data.studentNumber, earlier).isValid
+    const sameEmail = data.email && !checkDuplicateEmail(data.email, earlier).isValid
+    if (sameNumber) errors.studentNumber = 'This student number appears earlier in the file'
+    if (sameEmail) errors.email = 'This email appears earlier in the file'
+    earlier.push({ row, studentNumber: data.studentNumber, email: data.email })
+
+    const byNumber = data.studentNumber
+      ? existingStudents.find((s) => !checkDuplicateStudentNumber(data.studentNumber, [s]).isValid)
+      : undefined
+    const byEmail = data.email
+      ? existingStudents.find((s) => !checkDuplicateEmail(data.email, [s]).isValid)
+      : undefined
+    if (byNumber && byEmail && byNumber.id !== byEmail.id) {
+      errors.email = `Student number matches ${byNumber.firstName} ${byNumber.lastName} but email matches ${byEmail.firstName} ${byEmail.lastName}`
+    }
+
+    const conflictFields: StudentImportPreviewRow['conflictFields'] = []
+    if (byNumber) conflictFields.push('studentNumber')
+    if (byEmail) conflictFields.push('email')
+    return { row, data, errors, conflict: byNumber ?? byEmail, conflictFields }
+  })
+}
+
+/**
+ * Conflict actions that make sense for a row. Creating a second student is
+ * only possible when the email is free, since emails must be unique.
+ */
+export function getConflictActions(row: StudentImportPreviewRow): ImportConflictAction[] {
+  return row.conflictFields.includes('email') ? ['skip', 'update'] : ['skip', 'update', 'create']
+}
+
+/**
+ * Rows to send: error-free rows, with the chosen action for each conflict
+ */
+export function buildImportRows(
+  preview: StudentImportPreviewRow[],
+  actions: { [row: number]: ImportConflictAction }
+): StudentImportRow[] {
+  return preview
+    .filter((row) => Object.keys(row.errors).length === 0)
+    .map((row) => {
+      if (!row.conflict) return { row: row.row, action: 'create', data: row.data }
+      const action = actions[row.row] ?? 'skip'
+      return {
+        row: row.row,
+        action,
+        studentId: action === 'update' ? Number(row.conflict.id) : undefined,
+        data: row.data,
+      }
+    })
+}
+
+/**
+ * Download every problem with the import, one line per field error: rows the
+ * preview held back and rows the server rejected
+ */
+export function downloadImportErrorReport(
+  preview: StudentImportPreviewRow[],
+  result: StudentImportResult | null
+) {
+  const lines: { [column: string]: string | number }[] = []
+  const push = (row: StudentImportPreviewRow, field: string, message: string) =>
+    lines.push({
+      Row: row.row,
+      'Student Number': row.data.studentNumber,
+      Name: `${row.data.firstName} ${row.data.lastName}`.trim(),
+      Email: row.data.email,
+      Field: STUDENT_IMPORT_FIELDS.find((f) => f.field === field)?.label ?? field,
+      Error: message,
+    })
+
+  preview.forEach((row) => {
+    Object.entries(row.errors).forEach(([field, message]) => push(row, field, message))
+    const failed = result?.rows.find((r) => r.row === row.row && r.outcome === 'failed')
+    Object.entries(failed?.errors ?? {}).forEach(([field, messages]) =>
+      messages.forEach((message) => push(row, field, message))
+    )
+  })
+
+  const worksheet = XLSX.utils.json_to_sheet(lines)
+  worksheet['!cols'] = [{ wch: 6 }, { wch: 15 }, { wch: 25 }, { wch: 28 }, { wch: 16 }, { wch: 60 }]
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, worksheet, 'Import Errors')
+  XLSX.writeFile(workbook, `student_import_errors_${format(new Date(), 'yyyy-MM-dd')}.xlsx`)
+}
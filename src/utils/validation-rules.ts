@@ -27,6 +27,8 @@ export const VALIDATION_CONSTANTS = {
   SECTION_MAX: 20,
   GUARDIAN_NAME_MIN: 2,
   GUARDIAN_NAME_MAX: 100,
+  TAG_MAX: 30,
+  TAGS_MAX: 20,
 
   // Subject fields
   SUBJECT_CODE_MIN: 2,
@@ -98,6 +100,9 @@ export const VALIDATION_PATTERNS = {
   // Section: Alphanumeric with dashes
   SECTION: /^[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?$/,
 
+  // Student tag: lowercase words separated by spaces or dashes
+  TAG: /^[a-z0-9](?:[a-z0-9 -]*[a-z0-9])?$/,
+
   // Password: At least 1 uppercase, 1 lowercase, 1 number
   PASSWORD_STRONG: /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]{8,}$/,
   PASSWORD_MEDIUM:
@@ -411,8 +416,10 @@ export function sanitizePhone(value: string): string {
  * Format: YY-NNNN (e.g., 24-0001)
  * Valid: "24-0001", "23-1234", "25-9999"
  * Invalid: "1-001", "2024-001", "24001", "24-ABCD"
+ * @param schoolPrefix - The school's student-number prefix; numbers that start
+ *   with it skip the year plausibility check
  */
-export function validateStudentNumber(value: string): ValidationResult {
+export function validateStudentNumber(value: string, schoolPrefix?: string): ValidationResult {
   const trimmed = trimString(value)
 
   if (!trimmed) {
@@ -437,6 +444,10 @@ export function validateStudentNumber(value: string): ValidationResult {
     return { isValid: false, error: 'Student number must be in format YY-NNNN (e.g., 24-0001)' }
   }
 
+  if (schoolPrefix && trimmed.startsWith(`${schoolPrefix}-`)) {
+    return { isValid: true }
+  }
+
   // Validate year part (should be reasonable - not too far in past or future)
   const yearPart = parseInt(trimmed.substring(0, 2), 10)
   const currentYear = new Date().getFullYear() % 100
@@ -687,6 +698,58 @@ export function validateStudentStatus(value: string): ValidationResult {
   return { isValid: true }
 }
 
+/**
+ * Student Tag Validation (expects a tag already passed through sanitizers.tag)
+ * Valid: "scholar", "varsity team", "grade-10"
+ * Invalid: "", "#honors", a tag over 30 characters
+ */
+export function validateStudentTag(value: string): ValidationResult {
+  if (!value) {
+    return { isValid: false, error: 'Tag cannot be empty' }
+  }
+
+  if (value.length > VALIDATION_CONSTANTS.TAG_MAX) {
+    return {
+      isValid: false,
+      error: `Tags must be at most ${VALIDATION_CONSTANTS.TAG_MAX} characters`,
+    }
+  }
+
+  if (!VALIDATION_PATTERNS.TAG.test(value)) {
+    return {
+      isValid: false,
+      error: `"${value}" can only contain letters, numbers, spaces and hyphens`,
+    }
+  }
+
+  return { isValid: true }
+}
+
+/**
+ * Student Tag List Validation
+ * Valid: [], ["scholar", "varsity team"]
+ * Invalid: more than 20 tags, the same tag twice, any invalid tag
+ */
+export function validateStudentTags(tags: string[]): ValidationResult {
+  if (tags.length > VALIDATION_CONSTANTS.TAGS_MAX) {
+    return {
+      isValid: false,
+      error: `A student can have at most ${VALIDATION_CONSTANTS.TAGS_MAX} tags`,
+    }
+  }
+
+  if (new Set(tags).size !== tags.length) {
+    return { isValid: false, error: 'Each tag can only be used once' }
+  }
+
+  for (const tag of tags) {
+    const result = validateStudentTag(tag)
+    if (!result.isValid) return result
+  }
+
+  return { isValid: true }
+}
+
 // ============================================================================
 // SUBJECT/COURSE VALIDATION
 // ============================================================================
@@ -1845,6 +1908,8 @@ export const validators = {
   email: validateEmail,
   schoolEmail: validateSchoolEmail,
   studentStatus: validateStudentStatus,
+  studentTag: validateStudentTag,
+  studentTags: validateStudentTags,
 
   // Subject/Course
   subjectCode: validateSubjectCode,
@@ -1906,6 +1971,20 @@ function sanitizeSubjectCode(value: string): string {
   return trimString(value).toUpperCase()
 }
 
+/**
+ * Sanitize a student tag (lowercase, single spaces)
+ */
+function sanitizeTag(value: string): string {
+  return normalizeWhitespace(value).toLowerCase()
+}
+
+/**
+ * Split comma-separated tags, dropping blanks and repeats
+ */
+function sanitizeTagList(value: string): string[] {
+  return Array.from(new Set(value.split(',').map(sanitizeTag).filter(Boolean)))
+}
+
 /**
  * Sanitize general text content
  */
@@ -1924,4 +2003,6 @@ export const sanitizers = {
   name: sanitizeName,
   subjectCode: sanitizeSubjectCode,
   text: sanitizeText,
+  tag: sanitizeTag,
+  tagList: sanitizeTagList,
 }
@@ -4,6 +4,8 @@ interface ImportMetaEnv {
   readonly VITE_API_BASE_URL: string
   readonly VITE_APP_NAME: string
   readonly VITE_APP_VERSION: string
+  readonly VITE_USE_MOCK_API?: string
+  readonly VITE_IDLE_TIMEOUT_MINUTES?: string
 }
 
 interface ImportMeta {